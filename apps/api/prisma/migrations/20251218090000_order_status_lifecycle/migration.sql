@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "OrderStatus" AS ENUM ('PENDING_PAYMENT', 'PAID', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'REFUNDED');
+
+-- Map legacy free-form statuses onto the enum before converting the column
+UPDATE "Order" SET "status" = CASE UPPER("status")
+    WHEN 'PENDING' THEN 'PENDING_PAYMENT'
+    WHEN 'PENDING_PAYMENT' THEN 'PENDING_PAYMENT'
+    WHEN 'PAID' THEN 'PAID'
+    WHEN 'CONFIRMED' THEN 'PAID'
+    WHEN 'PROCESSING' THEN 'PROCESSING'
+    WHEN 'SHIPPED' THEN 'SHIPPED'
+    WHEN 'DELIVERED' THEN 'DELIVERED'
+    WHEN 'CANCELLED' THEN 'CANCELLED'
+    WHEN 'REFUNDED' THEN 'REFUNDED'
+    ELSE 'PENDING_PAYMENT'
+END;
+
+-- AlterTable
+ALTER TABLE "Order" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "Order" ALTER COLUMN "status" TYPE "OrderStatus" USING ("status"::"OrderStatus");
+ALTER TABLE "Order" ALTER COLUMN "status" SET DEFAULT 'PENDING_PAYMENT';
+
+-- CreateTable
+CREATE TABLE "OrderStatusHistory" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "actorType" TEXT NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Order_status_idx" ON "Order"("status");
+
+-- CreateIndex
+CREATE INDEX "OrderStatusHistory_orderId_idx" ON "OrderStatusHistory"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderStatusHistory_createdAt_idx" ON "OrderStatusHistory"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
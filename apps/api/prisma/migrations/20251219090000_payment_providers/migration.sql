@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "country" TEXT NOT NULL DEFAULT 'TG',
+ADD COLUMN     "provider" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Payment_externalReference_idx" ON "Payment"("externalReference");
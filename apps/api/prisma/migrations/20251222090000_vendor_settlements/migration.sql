@@ -0,0 +1,106 @@
+-- CreateEnum
+CREATE TYPE "SettlementEntryType" AS ENUM ('SALE', 'REFUND');
+
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('PENDING', 'PAID', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "CommissionRule" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT,
+    "condition" "PartCondition",
+    "rate" DECIMAL(5,4) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CommissionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SettlementEntry" (
+    "id" TEXT NOT NULL,
+    "sourceKey" TEXT NOT NULL,
+    "type" "SettlementEntryType" NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "refundId" TEXT,
+    "gross" DECIMAL(10,2) NOT NULL,
+    "commissionRate" DECIMAL(5,4) NOT NULL,
+    "commission" DECIMAL(10,2) NOT NULL,
+    "net" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'XOF',
+    "payoutId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SettlementEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayoutBatch" (
+    "id" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Payout" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'XOF',
+    "status" "PayoutStatus" NOT NULL DEFAULT 'PENDING',
+    "paymentMethod" TEXT,
+    "paymentReference" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommissionRule_vendorId_idx" ON "CommissionRule"("vendorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SettlementEntry_sourceKey_key" ON "SettlementEntry"("sourceKey");
+
+-- CreateIndex
+CREATE INDEX "SettlementEntry_vendorId_payoutId_idx" ON "SettlementEntry"("vendorId", "payoutId");
+
+-- CreateIndex
+CREATE INDEX "SettlementEntry_createdAt_idx" ON "SettlementEntry"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "Payout_vendorId_idx" ON "Payout"("vendorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payout_batchId_vendorId_key" ON "Payout"("batchId", "vendorId");
+
+-- AddForeignKey
+ALTER TABLE "CommissionRule" ADD CONSTRAINT "CommissionRule_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementEntry" ADD CONSTRAINT "SettlementEntry_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementEntry" ADD CONSTRAINT "SettlementEntry_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementEntry" ADD CONSTRAINT "SettlementEntry_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "Refund"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementEntry" ADD CONSTRAINT "SettlementEntry_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "Payout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "PayoutBatch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterEnum
+ALTER TYPE "SettlementEntryType" ADD VALUE 'CASH_SALE' AFTER 'SALE';
+
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "fulfilment" TEXT NOT NULL DEFAULT 'DELIVERY',
+ADD COLUMN     "pickupAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pickupLockedAt" TIMESTAMP(3);
+
+-- Existing plain-text PINs cannot be verified against hashes
+UPDATE "Shipment" SET "pickupPin" = NULL WHERE "pickupPin" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "shipmentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Payment_shipmentId_idx" ON "Payment"("shipmentId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
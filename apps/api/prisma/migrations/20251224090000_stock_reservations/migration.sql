@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "StockReservationStatus" AS ENUM ('ACTIVE', 'CONSUMED', 'RELEASED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "Part" ADD COLUMN     "reservedStock" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "StockReservation" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "status" "StockReservationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockReservation_orderId_idx" ON "StockReservation"("orderId");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_partId_idx" ON "StockReservation"("partId");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_status_expiresAt_idx" ON "StockReservation"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_partId_fkey" FOREIGN KEY ("partId") REFERENCES "Part"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: unpaid orders already hold stock → give them a fresh 30-minute window
+INSERT INTO "StockReservation" ("id", "orderId", "partId", "quantity", "status", "expiresAt", "updatedAt")
+SELECT gen_random_uuid()::text, oi."orderId", oi."partId", oi."quantity", 'ACTIVE', NOW() + INTERVAL '30 minutes', NOW()
+FROM "OrderItem" oi
+JOIN "Order" o ON o."id" = oi."orderId"
+WHERE o."status" = 'PENDING_PAYMENT';
+
+UPDATE "Part" p SET "reservedStock" = r."quantity"
+FROM (
+    SELECT "partId", SUM("quantity")::int AS "quantity"
+    FROM "StockReservation"
+    WHERE "status" = 'ACTIVE'
+    GROUP BY "partId"
+) r
+WHERE p."id" = r."partId";
@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "ShippingZoneScope" AS ENUM ('SAME_CITY', 'SAME_COUNTRY', 'CROSS_BORDER');
+
+-- CreateEnum
+CREATE TYPE "ShippingFeeType" AS ENUM ('FLAT', 'WEIGHT');
+
+-- AlterEnum
+ALTER TYPE "SettlementEntryType" ADD VALUE 'SHIPPING_FEE' AFTER 'CASH_SALE';
+
+-- AlterTable
+ALTER TABLE "Part" ADD COLUMN     "weightKg" DECIMAL(8,3);
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingTotal" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "shippingFee" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingZoneId" TEXT,
+ADD COLUMN     "shippingFeeRefundId" TEXT;
+
+-- DropForeignKey
+ALTER TABLE "SettlementEntry" DROP CONSTRAINT "SettlementEntry_orderItemId_fkey";
+
+-- AlterTable
+ALTER TABLE "SettlementEntry" ALTER COLUMN "orderItemId" DROP NOT NULL,
+ADD COLUMN     "shipmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "scope" "ShippingZoneScope" NOT NULL,
+    "destinationCountry" TEXT,
+    "feeType" "ShippingFeeType" NOT NULL DEFAULT 'FLAT',
+    "baseFee" DECIMAL(10,2) NOT NULL,
+    "perKgFee" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "freeShippingThreshold" DECIMAL(10,2),
+    "estimatedDays" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingZone_vendorId_isActive_idx" ON "ShippingZone"("vendorId", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "ShippingZone" ADD CONSTRAINT "ShippingZone_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shipment" ADD CONSTRAINT "Shipment_shippingZoneId_fkey" FOREIGN KEY ("shippingZoneId") REFERENCES "ShippingZone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Shipment" ADD CONSTRAINT "Shipment_shippingFeeRefundId_fkey" FOREIGN KEY ("shippingFeeRefundId") REFERENCES "Refund"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementEntry" ADD CONSTRAINT "SettlementEntry_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementEntry" ADD CONSTRAINT "SettlementEntry_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
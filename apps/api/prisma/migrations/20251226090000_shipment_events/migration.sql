@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "ShipmentEvent" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "location" TEXT,
+    "note" TEXT,
+    "actorType" TEXT NOT NULL,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShipmentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShipmentEvent_shipmentId_createdAt_idx" ON "ShipmentEvent"("shipmentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Shipment_trackingNumber_idx" ON "Shipment"("trackingNumber");
+
+-- AddForeignKey
+ALTER TABLE "ShipmentEvent" ADD CONSTRAINT "ShipmentEvent_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: rebuild a minimal timeline for existing shipments from their timestamps
+INSERT INTO "ShipmentEvent" ("id", "shipmentId", "status", "actorType", "note", "createdAt")
+SELECT gen_random_uuid()::text, "id", 'CREATED', 'SYSTEM', 'Backfilled', "createdAt"
+FROM "Shipment";
+
+INSERT INTO "ShipmentEvent" ("id", "shipmentId", "status", "actorType", "note", "createdAt")
+SELECT gen_random_uuid()::text, "id", 'SHIPPED', 'SYSTEM', 'Backfilled', "shippedAt"
+FROM "Shipment"
+WHERE "shippedAt" IS NOT NULL;
+
+INSERT INTO "ShipmentEvent" ("id", "shipmentId", "status", "actorType", "note", "createdAt")
+SELECT gen_random_uuid()::text, "id", 'DELIVERED', 'SYSTEM', 'Backfilled', "deliveredAt"
+FROM "Shipment"
+WHERE "deliveredAt" IS NOT NULL;
+
+INSERT INTO "ShipmentEvent" ("id", "shipmentId", "status", "actorType", "note", "createdAt")
+SELECT gen_random_uuid()::text, "id", 'CANCELLED', 'SYSTEM', 'Backfilled', "updatedAt"
+FROM "Shipment"
+WHERE "status" = 'CANCELLED';
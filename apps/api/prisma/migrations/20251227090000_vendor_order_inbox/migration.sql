@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Shipment" ADD COLUMN     "deliveryAddress" JSONB,
+ADD COLUMN     "deliveryNotes" TEXT,
+ADD COLUMN     "acceptedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Shipment_vendorId_status_idx" ON "Shipment"("vendorId", "status");
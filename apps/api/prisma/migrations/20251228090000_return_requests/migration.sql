@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "ReturnReason" AS ENUM ('DOES_NOT_FIT', 'DEFECTIVE', 'WRONG_PART', 'NOT_AS_DESCRIBED', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ReturnResolution" AS ENUM ('REFUND', 'REPLACEMENT');
+
+-- CreateEnum
+CREATE TYPE "ReturnStatus" AS ENUM ('REQUESTED', 'ESCALATED', 'APPROVED', 'REJECTED', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "ReturnRequest" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reason" "ReturnReason" NOT NULL,
+    "description" TEXT,
+    "photoUrls" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "resolution" "ReturnResolution" NOT NULL,
+    "status" "ReturnStatus" NOT NULL DEFAULT 'REQUESTED',
+    "vendorDeadline" TIMESTAMP(3) NOT NULL,
+    "vendorNote" TEXT,
+    "escalatedAt" TIMESTAMP(3),
+    "escalationNote" TEXT,
+    "adminNote" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "decidedByType" TEXT,
+    "decidedById" TEXT,
+    "refundId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReturnRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReturnRequest_refundId_key" ON "ReturnRequest"("refundId");
+
+-- CreateIndex
+CREATE INDEX "ReturnRequest_orderId_idx" ON "ReturnRequest"("orderId");
+
+-- CreateIndex
+CREATE INDEX "ReturnRequest_orderItemId_idx" ON "ReturnRequest"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "ReturnRequest_userId_idx" ON "ReturnRequest"("userId");
+
+-- CreateIndex
+CREATE INDEX "ReturnRequest_vendorId_status_idx" ON "ReturnRequest"("vendorId", "status");
+
+-- CreateIndex
+CREATE INDEX "ReturnRequest_status_vendorDeadline_idx" ON "ReturnRequest"("status", "vendorDeadline");
+
+-- AddForeignKey
+ALTER TABLE "ReturnRequest" ADD CONSTRAINT "ReturnRequest_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReturnRequest" ADD CONSTRAINT "ReturnRequest_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReturnRequest" ADD CONSTRAINT "ReturnRequest_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReturnRequest" ADD CONSTRAINT "ReturnRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReturnRequest" ADD CONSTRAINT "ReturnRequest_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "Refund"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "invoiceNumber" TEXT,
+ADD COLUMN     "invoiceIssuedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "receiptNumber" TEXT,
+ADD COLUMN     "receiptIssuedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "creditNoteNumber" TEXT,
+ADD COLUMN     "creditNoteIssuedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "InvoiceSequence" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_invoiceNumber_key" ON "Order"("invoiceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_receiptNumber_key" ON "Payment"("receiptNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_creditNoteNumber_key" ON "Refund"("creditNoteNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceSequence_kind_country_year_key" ON "InvoiceSequence"("kind", "country", "year");
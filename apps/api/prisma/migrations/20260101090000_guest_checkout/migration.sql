@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "email" DROP NOT NULL,
+ALTER COLUMN "password" DROP NOT NULL,
+ADD COLUMN     "isGuest" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "phoneVerifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_phoneNumber_idx" ON "User"("phoneNumber");
+
+-- CreateIndex (partial: full accounts may share a phone number; not declarable in schema.prisma,
+-- remove the DROP INDEX prisma migrate dev generates for it)
+CREATE UNIQUE INDEX "User_guest_phoneNumber_key" ON "User"("phoneNumber") WHERE "isGuest";
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "UserVehicle" (
+    "id" TEXT NOT NULL,
+    "nickname" TEXT,
+    "userId" TEXT NOT NULL,
+    "yearId" TEXT NOT NULL,
+    "engineId" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserVehicle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserVehicle_userId_idx" ON "UserVehicle"("userId");
+
+-- CreateIndex
+CREATE INDEX "UserVehicle_yearId_idx" ON "UserVehicle"("yearId");
+
+-- CreateIndex
+CREATE INDEX "UserVehicle_engineId_idx" ON "UserVehicle"("engineId");
+
+-- AddForeignKey
+ALTER TABLE "UserVehicle" ADD CONSTRAINT "UserVehicle_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserVehicle" ADD CONSTRAINT "UserVehicle_yearId_fkey" FOREIGN KEY ("yearId") REFERENCES "VehicleYear"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserVehicle" ADD CONSTRAINT "UserVehicle_engineId_fkey" FOREIGN KEY ("engineId") REFERENCES "EngineSpec"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "PartNumberKind" AS ENUM ('OEM', 'AFTERMARKET');
+
+-- AlterTable
+ALTER TABLE "Part" ADD COLUMN     "normalizedOemRefs" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Backfill: same rule as normalizePartNumber (uppercase, letters and digits only)
+UPDATE "Part"
+SET "normalizedOemRefs" = ARRAY(
+    SELECT DISTINCT upper(regexp_replace(ref, '[^a-zA-Z0-9]', '', 'g'))
+    FROM unnest("oemRefs") AS ref
+    WHERE regexp_replace(ref, '[^a-zA-Z0-9]', '', 'g') <> ''
+);
+
+-- CreateTable
+CREATE TABLE "InterchangeGroup" (
+    "id" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InterchangeGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PartNumber" (
+    "id" TEXT NOT NULL,
+    "brand" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "normalized" TEXT NOT NULL,
+    "kind" "PartNumberKind" NOT NULL DEFAULT 'AFTERMARKET',
+    "groupId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PartNumber_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Part_normalizedOemRefs_idx" ON "Part" USING GIN ("normalizedOemRefs");
+
+-- CreateIndex
+CREATE INDEX "PartNumber_normalized_idx" ON "PartNumber"("normalized");
+
+-- CreateIndex
+CREATE INDEX "PartNumber_groupId_idx" ON "PartNumber"("groupId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PartNumber_brand_normalized_key" ON "PartNumber"("brand", "normalized");
+
+-- AddForeignKey
+ALTER TABLE "PartNumber" ADD CONSTRAINT "PartNumber_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "InterchangeGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "SearchOutboxStatus" AS ENUM ('PENDING', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "SearchOutbox" (
+    "id" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+    "status" "SearchOutboxStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SearchOutbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchOutbox_status_availableAt_idx" ON "SearchOutbox"("status", "availableAt");
+
+-- CreateIndex
+CREATE INDEX "SearchOutbox_partId_idx" ON "SearchOutbox"("partId");
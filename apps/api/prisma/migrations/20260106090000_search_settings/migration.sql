@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "SearchSettingsVersion" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "rules" JSONB NOT NULL,
+    "note" TEXT,
+    "createdById" TEXT,
+    "appliedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchSettingsVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchSettingsVersion_version_key" ON "SearchSettingsVersion"("version");
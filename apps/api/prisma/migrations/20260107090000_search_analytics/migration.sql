@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "SearchEventType" AS ENUM ('CLICK', 'ADD_TO_CART');
+
+-- CreateTable
+CREATE TABLE "SearchQueryLog" (
+    "id" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "normalizedQuery" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "totalHits" INTEGER NOT NULL,
+    "isZeroResults" BOOLEAN NOT NULL,
+    "engine" TEXT NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "page" INTEGER NOT NULL,
+    "partIds" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchQueryLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SearchEvent" (
+    "id" TEXT NOT NULL,
+    "searchId" TEXT NOT NULL,
+    "partId" TEXT NOT NULL,
+    "type" "SearchEventType" NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchQueryLog_createdAt_idx" ON "SearchQueryLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "SearchQueryLog_normalizedQuery_createdAt_idx" ON "SearchQueryLog"("normalizedQuery", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SearchEvent_createdAt_idx" ON "SearchEvent"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchEvent_searchId_partId_type_key" ON "SearchEvent"("searchId", "partId", "type");
+
+-- AddForeignKey
+ALTER TABLE "SearchEvent" ADD CONSTRAINT "SearchEvent_searchId_fkey" FOREIGN KEY ("searchId") REFERENCES "SearchQueryLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -3,13 +3,15 @@
  * - 4 users (Togolese names)
  * - 1 vendor (Garage AutoLomé)
  * - YMM Hierarchy: Makes → Models → Years → Engines
+ * - Category tree (Moteur › Filtres › Filtre à huile, ...)
  * - 5 real car parts with OEM refs and YMM fitments
+ * - 1 OEM / aftermarket interchange group (Honda ↔ Bosch ↔ Mann oil filter)
  * - Order #1 (Akoua) + 2 items + 1 shipment
  * - Order #2 (random user ≠ Akoua) + 3 random items + 1 shipment
  */
 
 import 'dotenv/config';
-import { PrismaClient, Prisma } from '@prisma/client';
+import { PrismaClient, Prisma, OrderStatus } from '@prisma/client';
 import { Pool } from 'pg';
 import { PrismaPg } from '@prisma/adapter-pg';
 import * as bcrypt from 'bcrypt';
@@ -34,14 +36,23 @@ async function main() {
 
   // ========== CLEAN ==========
   console.log('🧹 Cleaning database...');
+  // Parts about to be deleted: queued below so the outbox worker drops them from the search index
+  const previousParts = await prisma.part.findMany({ select: { id: true } });
+  await prisma.searchOutbox.deleteMany({});
   await prisma.favorite.deleteMany({});
   await prisma.shipment.deleteMany({});
   await prisma.orderItem.deleteMany({});
+  await prisma.orderStatusHistory.deleteMany({});
   await prisma.order.deleteMany({});
   await prisma.payment.deleteMany({});
   await prisma.partImage.deleteMany({});
   await prisma.partFitment.deleteMany({});
   await prisma.part.deleteMany({});
+  await prisma.interchangeGroup.deleteMany({});
+  // Children before parents (parent relation is onDelete: Restrict)
+  while (await prisma.category.count()) {
+    await prisma.category.deleteMany({ where: { children: { none: {} } } });
+  }
   await prisma.engineSpec.deleteMany({});
   await prisma.vehicleYear.deleteMany({});
   await prisma.vehicleModel.deleteMany({});
@@ -214,6 +225,49 @@ async function main() {
     data: { code: '1.5 dCi', fuel: 'DIESEL', capacityL: 1.5, powerHp: 86, yearId: clio2008.id },
   });
 
+  // ========== CATEGORIES ==========
+  console.log('🗂️  Creating category tree...');
+
+  async function category(
+    slug: string,
+    nameFr: string,
+    nameEn: string,
+    position: number,
+    parentId?: string,
+  ) {
+    return prisma.category.create({ data: { slug, nameFr, nameEn, position, parentId } });
+  }
+
+  const catEngine = await category('moteur', 'Moteur', 'Engine', 0);
+  const catFilters = await category('filtres', 'Filtres', 'Filters', 0, catEngine.id);
+  const catOilFilter = await category(
+    'filtre-a-huile',
+    'Filtre à huile',
+    'Oil filter',
+    0,
+    catFilters.id,
+  );
+  await category('filtre-a-air', 'Filtre à air', 'Air filter', 1, catFilters.id);
+  const catTiming = await category('distribution', 'Distribution', 'Timing', 1, catEngine.id);
+  const catBrakes = await category('freinage', 'Freinage', 'Brakes', 1);
+  const catBrakePads = await category(
+    'plaquettes-de-frein',
+    'Plaquettes de frein',
+    'Brake pads',
+    0,
+    catBrakes.id,
+  );
+  const catSuspension = await category('suspension', 'Suspension', 'Suspension', 2);
+  const catShocks = await category(
+    'amortisseurs',
+    'Amortisseurs',
+    'Shock absorbers',
+    0,
+    catSuspension.id,
+  );
+  const catElectrical = await category('electricite', 'Électricité', 'Electrical', 3);
+  const catBatteries = await category('batteries', 'Batteries', 'Batteries', 0, catElectrical.id);
+
   // ========== PARTS (with OEM refs and fitments) ==========
   console.log('🔧 Creating parts with OEM refs and YMM fitments...');
 
@@ -229,9 +283,11 @@ async function main() {
       condition: 'NEW',
       status: 'PUBLISHED',
       oemRefs: ['04465-02220', '04465-02230'],
+      normalizedOemRefs: ['0446502220', '0446502230'],
       city: 'Lomé',
       country: 'TG',
       vendorId: vendor.id,
+      categoryId: catBrakePads.id,
       fitments: {
         create: [{ engineId: corolla18_1_8.id }, { engineId: corolla19_1_8.id }],
       },
@@ -249,9 +305,11 @@ async function main() {
       condition: 'NEW',
       status: 'PUBLISHED',
       oemRefs: ['0986AF0250', '15400-PLM-A01', '90915-YZZD4'],
+      normalizedOemRefs: ['0986AF0250', '15400PLMA01', '90915YZZD4'],
       city: 'Lomé',
       country: 'TG',
       vendorId: vendor.id,
+      categoryId: catOilFilter.id,
       fitments: {
         create: [
           { engineId: corolla18_1_8.id },
@@ -274,9 +332,11 @@ async function main() {
       condition: 'NEW',
       status: 'PUBLISHED',
       oemRefs: ['5604080543132', 'D59'],
+      normalizedOemRefs: ['5604080543132', 'D59'],
       city: 'Lomé',
       country: 'TG',
       vendorId: vendor.id,
+      categoryId: catBatteries.id,
       fitments: {
         create: [
           { engineId: corolla18_1_8.id },
@@ -299,9 +359,11 @@ async function main() {
       condition: 'USED_LIKE_NEW',
       status: 'PUBLISHED',
       oemRefs: ['G8802', '8200676025'],
+      normalizedOemRefs: ['G8802', '8200676025'],
       city: 'Lomé',
       country: 'TG',
       vendorId: vendor.id,
+      categoryId: catShocks.id,
       fitments: {
         create: [{ engineId: clio_1_5dci.id }],
       },
@@ -319,9 +381,11 @@ async function main() {
       condition: 'NEW',
       status: 'PUBLISHED',
       oemRefs: ['K015603XS', '0831T5'],
+      normalizedOemRefs: ['K015603XS', '0831T5'],
       city: 'Lomé',
       country: 'TG',
       vendorId: vendor.id,
+      categoryId: catTiming.id,
       fitments: {
         create: [{ engineId: p206_1_4.id }],
       },
@@ -330,6 +394,26 @@ async function main() {
 
   const parts = [part1, part2, part3, part4, part5];
 
+  // Search index: the running API pushes these (published → indexed, gone → removed)
+  await prisma.searchOutbox.createMany({
+    data: [...previousParts, ...parts].map((part) => ({ partId: part.id })),
+  });
+
+  // Interchange: searching the Mann or Honda number finds the Bosch filter (part 2)
+  console.log('🔁 Creating OEM / aftermarket interchange...');
+  await prisma.interchangeGroup.create({
+    data: {
+      note: 'Filtre à huile Honda / Toyota',
+      numbers: {
+        create: [
+          { brand: 'Honda', number: '15400-PLM-A01', normalized: '15400PLMA01', kind: 'OEM' },
+          { brand: 'Bosch', number: '0 986 AF0 250', normalized: '0986AF0250' },
+          { brand: 'Mann-Filter', number: 'W 610/3', normalized: 'W6103' },
+        ],
+      },
+    },
+  });
+
   // Helper to pick N distinct random parts
   function pickRandomParts(n: number) {
     const copy = [...parts];
@@ -346,7 +430,7 @@ async function main() {
   console.log('🧾 Creating orders...');
   const total1 = dec(part1.price).add(part2.price);
   const order1 = await prisma.order.create({
-    data: { userId: akoua.id, status: 'CONFIRMED', total: total1 },
+    data: { userId: akoua.id, status: OrderStatus.SHIPPED, total: total1 },
   });
   await prisma.orderItem.createMany({
     data: [
@@ -383,7 +467,7 @@ async function main() {
   });
   const total2 = items2.reduce((acc, it) => sumDec(acc, it.lineTotal), new Prisma.Decimal(0));
   const order2 = await prisma.order.create({
-    data: { userId: customer2.id, status: 'CONFIRMED', total: total2 },
+    data: { userId: customer2.id, status: OrderStatus.PAID, total: total2 },
   });
   await prisma.orderItem.createMany({
     data: items2.map((it) => ({
@@ -17,6 +17,13 @@ import { MeilisearchModule } from './modules/meilisearch/meilisearch.module';
 import { ImportModule } from './modules/import/import.module';
 import { CartModule } from './modules/cart/cart.module';
 import { AddressesModule } from './modules/addresses/addresses.module';
+import { SettlementsModule } from './modules/settlements/settlements.module';
+import { ShippingModule } from './modules/shipping/shipping.module';
+import { ReturnsModule } from './modules/returns/returns.module';
+import { InvoicesModule } from './modules/invoices/invoices.module';
+import { PromotionsModule } from './modules/promotions/promotions.module';
+import { VehiclesModule } from './modules/vehicles/vehicles.module';
+import { InterchangeModule } from './modules/interchange/interchange.module';
 import { HealthController } from './modules/health/health.controller';
 import { GlobalHttpExceptionFilter } from './common/filters/http-exception.filter';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor'; // garde comme tu l’as
@@ -53,6 +60,13 @@ import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
     ImportModule,
     CartModule,
     AddressesModule,
+    SettlementsModule,
+    ShippingModule,
+    ReturnsModule,
+    InvoicesModule,
+    PromotionsModule,
+    VehiclesModule,
+    InterchangeModule,
   ],
   controllers: [HealthController],
   providers: [
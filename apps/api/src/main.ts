@@ -43,7 +43,9 @@ async function bootstrap() {
   //     [5a] AppModule: root module containing all feature modules & global config
   //     [5b] CORS configuration: allow frontend to call API from different origin
   //     [5c] credentials: true = allow cookies/auth headers in cross-origin requests
+  //     [5d] rawBody: keep the exact request bytes (payment webhook HMAC signatures)
   const app = await NestFactory.create(AppModule, {
+    rawBody: true,
     cors: {
       // WHY split by comma? Support multiple origins (local dev, staging, production)
       origin: process.env.CORS_ORIGIN?.split(',') || '*',
@@ -4,6 +4,7 @@
  */
 
 import { IsOptional, IsEnum, IsDateString, IsNumber, Min } from 'class-validator';
+import { OrderStatus } from '@prisma/client';
 import { Transform } from 'class-transformer';
 
 export enum TimeRange {
@@ -61,8 +62,8 @@ export class GetOrderAnalyticsDto {
 
   // [8] ORDER STATUS FILTER
   @IsOptional()
-  @IsEnum(['PENDING', 'CONFIRMED', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'REFUNDED'])
-  status?: string;
+  @IsEnum(OrderStatus)
+  status?: OrderStatus;
 
   // [9] MINIMUM ORDER VALUE
   @IsOptional()
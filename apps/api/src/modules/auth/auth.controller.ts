@@ -10,6 +10,8 @@
  *     [1b] POST /login: Authenticate user, return JWT access + refresh tokens
  *     [1c] POST /refresh: Get new access token using refresh token
  *     [1d] GET /me: Retrieve current user profile (requires JWT access token)
+ *     [1e] POST /guest/otp, /guest/verify: Guest checkout by phone (SMS code, no email)
+ *     [1f] POST /guest/upgrade: Guest → full account (email + password), orders kept
  *
  * [2] SECURITY LAYERS
  *     [2a] LoginDto & RegisterDto validate input (email format, password strength)
@@ -45,10 +47,13 @@ import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import { RequestGuestOtpDto, VerifyGuestOtpDto, UpgradeGuestDto } from './dto/guest-checkout.dto';
 import { CurrentUser } from './decorators/current-user.decorator';
+import { CurrentUserPayload } from './types/auth.types';
 import { EmailVerificationService } from './services/email-verification.service';
 import { PasswordResetService } from './services/password-reset.service';
 import { SessionService } from './services/session.service';
+import { GuestCheckoutService } from './services/guest-checkout.service';
 import { AuditLoggingInterceptor } from './interceptors/audit-logging.interceptor';
 import { EmailVerifiedGuard } from './guards/email-verified.guard';
 import { RateLimitGuard } from './guards/rate-limit.guard';
@@ -62,6 +67,7 @@ export class AuthController {
     private readonly emailVerificationService: EmailVerificationService,
     private readonly passwordResetService: PasswordResetService,
     private readonly sessionService: SessionService,
+    private readonly guestCheckoutService: GuestCheckoutService,
   ) {}
 
   /**
@@ -164,6 +170,9 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   async resendOtp(@CurrentUser() user: any) {
     const dbUser = await this.authService.validateUser(user.sub);
+    if (!dbUser.email) {
+      throw new BadRequestException('No email on this account');
+    }
     await this.emailVerificationService.generateAndSendOtp(user.sub, dbUser.email);
     return { message: 'OTP sent to your email' };
   }
@@ -187,7 +196,7 @@ export class AuthController {
     const user = await this.authService.findByEmail(body.email);
     if (user) {
       // Always return success (security: don't reveal if email exists)
-      await this.passwordResetService.generateAndSendResetToken(user.id, user.email);
+      await this.passwordResetService.generateAndSendResetToken(user.id, body.email);
     }
 
     return { message: 'Password reset link sent to your email' };
@@ -311,4 +320,48 @@ export class AuthController {
 
     return { message: 'Password changed successfully. Please login again.' };
   }
+
+  /**
+   * [19] POST /v1/auth/guest/otp
+   *      [19a] Body: { phoneNumber: '+228XXXXXXXX' }
+   *      [19b] Returns: { message, expiresIn: 300, otp?: "123456" (dev only) }
+   *      [19c] Sends a 6-digit code by SMS (no email account needed)
+   *      [19d] Rate limit: 3 codes per 15 minutes per IP + phone
+   */
+  @Post('guest/otp')
+  @UseGuards(RateLimitGuard)
+  @HttpCode(HttpStatus.OK)
+  async requestGuestOtp(@Body() dto: RequestGuestOtpDto) {
+    const result = await this.guestCheckoutService.requestOtp(dto.phoneNumber);
+    return { message: 'OTP sent by SMS', ...result };
+  }
+
+  /**
+   * [20] POST /v1/auth/guest/verify
+   *      [20a] Body: { phoneNumber, otp: "123456", name? }
+   *      [20b] Returns: { user: { id, name, phoneNumber, isGuest }, accessToken, refreshToken }
+   *      [20c] Same phone again → same guest user (previous orders and addresses)
+   *      [20d] Tokens work on cart, addresses, checkout and payments like any account
+   */
+  @Post('guest/verify')
+  @UseGuards(RateLimitGuard)
+  @HttpCode(HttpStatus.OK)
+  async verifyGuestOtp(@Body() dto: VerifyGuestOtpDto) {
+    return this.guestCheckoutService.verifyOtp(dto.phoneNumber, dto.otp, dto.name);
+  }
+
+  /**
+   * [21] POST /v1/auth/guest/upgrade
+   *      [21a] Body: { email, password, name? }
+   *      [21b] Returns: { user, accessToken, refreshToken } (tokens now carry the email)
+   *      [21c] Same user id: orders, addresses and cart stay attached
+   *      [21d] Errors: not a guest → 400, email already registered → 409
+   */
+  @Post('guest/upgrade')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  async upgradeGuest(@Body() dto: UpgradeGuestDto, @CurrentUser() user: CurrentUserPayload) {
+    return this.guestCheckoutService.upgrade(user.sub, dto.email, dto.password, dto.name);
+  }
 }
@@ -47,6 +47,7 @@ import { EmailVerificationService } from './services/email-verification.service'
 import { PasswordResetService } from './services/password-reset.service';
 import { SessionService } from './services/session.service';
 import { AuditLoggingService } from './services/audit-logging.service';
+import { GuestCheckoutService } from './services/guest-checkout.service';
 
 // [7] GUARDS (Rate Limit, Email Verified)
 import { RateLimitGuard } from './guards/rate-limit.guard';
@@ -59,6 +60,7 @@ import { AuditLoggingInterceptor } from './interceptors/audit-logging.intercepto
 //     Provide database & config to auth services
 import { PrismaModule } from '../prisma/prisma.module';
 import { NotificationModule } from '../notifications/notification.module';
+import { OtpModule } from '../otp/otp.module';
 
 @Module({
   imports: [
@@ -70,6 +72,10 @@ import { NotificationModule } from '../notifications/notification.module';
     //     For sending verification codes and password reset emails
     NotificationModule,
 
+    // [11.1] OTP
+    //        Guest checkout codes (purpose 'guest-checkout', sent by SMS)
+    OtpModule,
+
     // [12] PASSPORT SETUP
     //     [12a] defaultStrategy: 'jwt' → @UseGuards automatically uses JwtStrategy
     //     [12b] Allows adding more strategies (OAuth, Local) without changing decorators
@@ -113,6 +119,7 @@ import { NotificationModule } from '../notifications/notification.module';
   //      [15h] RateLimitGuard: Prevent brute force attacks
   //      [15i] EmailVerifiedGuard: Require email verification for sensitive ops
   //      [15j] AuditLoggingInterceptor: Intercept & log auth requests
+  //      [15k] GuestCheckoutService: Phone + SMS code sign-in for guest buyers, upgrade to full account
   providers: [
     AuthService,
     JwtStrategy,
@@ -124,6 +131,7 @@ import { NotificationModule } from '../notifications/notification.module';
     RateLimitGuard,
     EmailVerifiedGuard,
     AuditLoggingInterceptor,
+    GuestCheckoutService,
   ],
 
   // [16] EXPORTS
@@ -21,7 +21,13 @@
  *     [2e] Tokens stored in environment variables, never hardcoded
  */
 
-import { Injectable, UnauthorizedException, ConflictException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  UnauthorizedException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
@@ -34,7 +40,7 @@ import * as bcrypt from 'bcrypt';
 //     [3c] type: 'access' or 'refresh' (allows using same JWT secret for both token types)
 export interface JwtPayload {
   sub: string; // User ID
-  email: string; // User email
+  email: string | null; // User email (null for a guest buyer)
   type: 'access' | 'refresh';
 }
 
@@ -100,7 +106,7 @@ export class AuthService {
     // [5.5] Return user + tokens
     return {
       user,
-      ...this.generateTokens(user.id, user.email),
+      ...this.generateTokens(user.id, email),
     };
   }
 
@@ -126,7 +132,8 @@ export class AuthService {
 
     // [6.2] If user not found, throw 401 (same message as wrong password)
     //       WHY same message? Prevents attacker from enumerating valid usernames
-    if (!user) {
+    //       Guest buyers have no password: they sign in with an SMS code (/auth/guest)
+    if (!user || !user.password) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
@@ -148,7 +155,7 @@ export class AuthService {
         id: user.id,
         email: user.email,
       },
-      ...this.generateTokens(user.id, user.email),
+      ...this.generateTokens(user.id, email),
     };
   }
 
@@ -159,7 +166,7 @@ export class AuthService {
    *     [7c] Process: Simply generate new tokens (refresh token validates user first)
    *     [7d] WHY no database lookup? RefreshGuard already validated user exists
    */
-  async refreshToken(userId: string, email: string) {
+  async refreshToken(userId: string, email: string | null) {
     return this.generateTokens(userId, email);
   }
 
@@ -183,8 +190,9 @@ export class AuthService {
    *         - Access token: Short TTL = limited damage if leaked
    *         - Refresh token: Long TTL = fewer login prompts; still secure
    *     [9g] WHY include type field? Allows detection if wrong token type used
+   *     [9h] Also used by GuestCheckoutService (guest buyer: email null)
    */
-  private generateTokens(userId: string, email: string) {
+  generateTokens(userId: string, email: string | null) {
     // [9.1] Base payload (shared by both tokens)
     const payload: Omit<JwtPayload, 'type'> = { sub: userId, email };
 
@@ -265,6 +273,10 @@ export class AuthService {
       throw new UnauthorizedException('User not found');
     }
 
+    if (!user.password) {
+      throw new BadRequestException('Guest accounts have no password: upgrade the account first');
+    }
+
     // Verify current password
     const isCurrentPasswordValid = await bcrypt.compare(currentPassword, user.password);
 
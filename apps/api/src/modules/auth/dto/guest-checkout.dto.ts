@@ -0,0 +1,45 @@
+// apps/api/src/modules/auth/dto/guest-checkout.dto.ts
+import {
+  IsEmail,
+  IsMobilePhone,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+// International format: +228XXXXXXXX (Togo), +229XXXXXXXX (Benin), same rule as SendSmsDto
+export class RequestGuestOtpDto {
+  @IsMobilePhone(undefined, { strictMode: true })
+  phoneNumber!: string;
+}
+
+export class VerifyGuestOtpDto {
+  @IsMobilePhone(undefined, { strictMode: true })
+  phoneNumber!: string;
+
+  @IsString()
+  @Length(6, 6)
+  otp!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+}
+
+export class UpgradeGuestDto {
+  @IsEmail()
+  email!: string;
+
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  password!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+}
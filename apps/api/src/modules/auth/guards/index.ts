@@ -1,3 +1,4 @@
 export { JwtAuthGuard } from './jwt-auth.guard';
 export { JwtRefreshGuard } from './jwt-refresh.guard';
+export { OptionalJwtAuthGuard } from './optional-jwt-auth.guard';
 export { RolesGuard } from './roles.guard';
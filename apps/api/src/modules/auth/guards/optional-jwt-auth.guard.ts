@@ -0,0 +1,15 @@
+// apps/api/src/modules/auth/guards/optional-jwt-auth.guard.ts
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Optional JWT Guard
+ * Public routes that adapt to the signed-in user (e.g. catalog filtered by the garage vehicle):
+ * a valid access token sets request.user, a missing or invalid one leaves the request anonymous
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser>(_err: unknown, user: TUser | false): TUser | undefined {
+    return user || undefined;
+  }
+}
@@ -17,7 +17,17 @@ import Redis from 'ioredis';
  * - Login: 5 attempts per 15 minutes (per IP + email)
  * - Register: 3 attempts per hour (per IP)
  * - Password Reset: 3 attempts per hour (per IP + email)
+ * - Guest checkout code: 3 SMS per 15 minutes (per IP + phone), 5 per phone, 20 per IP
+ * - Guest checkout check: 10 per 15 minutes (per IP + phone), 10 per phone, 50 per IP
+ *
+ * A route may have several limits: each one is checked, then all are counted
  */
+interface RateLimitConfig {
+  maxAttempts: number;
+  windowMs: number;
+  key: string;
+}
+
 @Injectable()
 export class RateLimitGuard implements CanActivate {
   private readonly logger = new Logger(RateLimitGuard.name);
@@ -56,24 +66,30 @@ export class RateLimitGuard implements CanActivate {
       return true;
     }
 
-    const { maxAttempts, windowMs, key } = limits;
-    const identifier = this.getIdentifier(request, key);
+    const checks = (Array.isArray(limits) ? limits : [limits]).map((limit) => ({
+      ...limit,
+      identifier: this.getIdentifier(request, limit.key),
+    }));
 
     try {
-      const attempts = await this.getAttempts(identifier);
+      for (const { maxAttempts, identifier } of checks) {
+        const attempts = await this.getAttempts(identifier);
 
-      if (attempts >= maxAttempts) {
-        const resetTime = await this.getTtl(identifier);
-        response.set('Retry-After', Math.ceil(resetTime / 1000).toString());
+        if (attempts >= maxAttempts) {
+          const resetTime = await this.getTtl(identifier);
+          response.set('Retry-After', Math.ceil(resetTime / 1000).toString());
 
-        throw new HttpException(
-          `Too many attempts. Please try again in ${Math.ceil(resetTime / 1000)} seconds.`,
-          HttpStatus.TOO_MANY_REQUESTS,
-        );
+          throw new HttpException(
+            `Too many attempts. Please try again in ${Math.ceil(resetTime / 1000)} seconds.`,
+            HttpStatus.TOO_MANY_REQUESTS,
+          );
+        }
       }
 
-      // Increment attempt counter
-      await this.recordAttempt(identifier, windowMs);
+      // Increment attempt counters
+      for (const { identifier, windowMs } of checks) {
+        await this.recordAttempt(identifier, windowMs);
+      }
 
       return true;
     } catch (error) {
@@ -90,16 +106,8 @@ export class RateLimitGuard implements CanActivate {
   /**
    * Get rate limit configuration for route
    */
-  private getLimitForRoute(
-    path: string,
-  ): { maxAttempts: number; windowMs: number; key: string } | null {
-    interface RateLimitConfig {
-      maxAttempts: number;
-      windowMs: number;
-      key: string;
-    }
-
-    const limits: Record<string, RateLimitConfig> = {
+  private getLimitForRoute(path: string): RateLimitConfig | RateLimitConfig[] | null {
+    const limits: Record<string, RateLimitConfig | RateLimitConfig[]> = {
       '/auth/login': {
         maxAttempts: 5,
         windowMs: 15 * 60 * 1000, // 15 minutes
@@ -120,6 +128,40 @@ export class RateLimitGuard implements CanActivate {
         windowMs: 15 * 60 * 1000, // 15 minutes
         key: 'ip+email',
       },
+      '/auth/guest/otp': [
+        {
+          maxAttempts: 3,
+          windowMs: 15 * 60 * 1000, // 15 minutes (each attempt sends an SMS)
+          key: 'ip+phone',
+        },
+        {
+          maxAttempts: 5,
+          windowMs: 15 * 60 * 1000, // One phone from many IPs (SMS flooding)
+          key: 'route+phone',
+        },
+        {
+          maxAttempts: 20,
+          windowMs: 15 * 60 * 1000, // Many phones from one IP (shared mobile IPs allowed for)
+          key: 'route+ip',
+        },
+      ],
+      '/auth/guest/verify': [
+        {
+          maxAttempts: 10,
+          windowMs: 15 * 60 * 1000, // 15 minutes
+          key: 'ip+phone',
+        },
+        {
+          maxAttempts: 10,
+          windowMs: 15 * 60 * 1000, // One phone's code guessed from many IPs
+          key: 'route+phone',
+        },
+        {
+          maxAttempts: 50,
+          windowMs: 15 * 60 * 1000, // Many phones' codes guessed from one IP
+          key: 'route+ip',
+        },
+      ],
     };
 
     return limits[path] || null;
@@ -148,9 +190,29 @@ export class RateLimitGuard implements CanActivate {
       return `ratelimit:${ip}:${email}`;
     }
 
+    if (key === 'ip+phone') {
+      return `ratelimit:${request.path}:${ip}:${this.getPhoneNumber(request)}`;
+    }
+
+    if (key === 'route+phone') {
+      return `ratelimit:${request.path}:phone:${this.getPhoneNumber(request)}`;
+    }
+
+    if (key === 'route+ip') {
+      return `ratelimit:${request.path}:ip:${ip}`;
+    }
+
     return `ratelimit:${ip}`;
   }
 
+  /**
+   * Get phone number from the body, digits and + only (checked before validation:
+   * "+228 90 00 00 00" and "+22890000000" share a counter)
+   */
+  private getPhoneNumber(request: Request): string {
+    return String(request.body?.phoneNumber || '').replace(/[^\d+]/g, '');
+  }
+
   /**
    * Get client IP address
    */
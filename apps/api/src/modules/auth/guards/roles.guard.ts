@@ -1,11 +1,15 @@
 import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { PrismaService } from '../../prisma/prisma.service';
 
 /**
  * RolesGuard
  * Checks if user has the required role(s) for the protected route
  * Must be used with @Roles() decorator
  *
+ * The access token carries no role (JwtStrategy → { sub, email }): it is read from the
+ * database, so a role change applies on the next request
+ *
  * Usage:
  * @UseGuards(JwtAuthGuard, RolesGuard)
  * @Roles('ADMIN')
@@ -13,9 +17,12 @@ import { Reflector } from '@nestjs/core';
  */
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const requiredRoles = this.reflector.get<string[]>('roles', context.getHandler());
 
     if (!requiredRoles) {
@@ -29,11 +36,17 @@ export class RolesGuard implements CanActivate {
       throw new ForbiddenException('User not found in request');
     }
 
-    const hasRequiredRole = requiredRoles.includes(user.role);
+    const dbUser = await this.prisma.user.findUnique({
+      where: { id: user.sub },
+      select: { role: true },
+    });
+    const role = dbUser?.role;
+
+    const hasRequiredRole = !!role && requiredRoles.includes(role);
 
     if (!hasRequiredRole) {
       throw new ForbiddenException(
-        `User with role ${user.role} is not allowed to access this resource. Required roles: ${requiredRoles.join(', ')}`,
+        `User with role ${role} is not allowed to access this resource. Required roles: ${requiredRoles.join(', ')}`,
       );
     }
 
@@ -0,0 +1,182 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              GUEST CHECKOUT SERVICE TESTS — Phone + SMS Code Sign-in                              ║
+ * ║  Tests: Code by SMS, guest found / created per phone, upgrade to a full account                   ║
+ * ║  Focus: The same phone finds the same orders; upgrade keeps the user id                           ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, UnauthorizedException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { GuestCheckoutService } from './guest-checkout.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OtpService } from '../../otp/otp.service';
+import { NotificationService } from '../../notifications/notification.service';
+import { SMSTemplate } from '../../notifications/dto/send-sms.dto';
+import { AuthService } from '../auth.service';
+
+describe('GuestCheckoutService', () => {
+  let service: GuestCheckoutService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let mockOtp: { issueCode: jest.Mock; verifyOtp: jest.Mock; ttlSeconds: number };
+  let mockNotifications: { sendSms: jest.Mock };
+
+  const phone = '+22890000000';
+  const guest = {
+    id: 'guest-1',
+    email: null,
+    password: null,
+    name: 'Kofi',
+    phoneNumber: phone,
+    isGuest: true,
+    isActive: true,
+  };
+
+  const createPrismaMock = () => ({
+    user: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findUnique: jest.fn(),
+      create: jest.fn((args: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: 'guest-new', ...args.data }),
+      ),
+      update: jest.fn((args: { data: Record<string, unknown> }) =>
+        Promise.resolve({ ...guest, ...args.data }),
+      ),
+    },
+  });
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+    mockOtp = {
+      issueCode: jest.fn().mockResolvedValue('123456'),
+      verifyOtp: jest.fn().mockResolvedValue(true),
+      ttlSeconds: 300,
+    };
+    mockNotifications = { sendSms: jest.fn().mockResolvedValue({ messageId: 'sms-1' }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GuestCheckoutService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: OtpService, useValue: mockOtp },
+        { provide: NotificationService, useValue: mockNotifications },
+        {
+          provide: AuthService,
+          useValue: {
+            generateTokens: jest.fn(() => ({ accessToken: 'access', refreshToken: 'refresh' })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<GuestCheckoutService>(GuestCheckoutService);
+  });
+
+  describe('requestOtp', () => {
+    it('sends the code by SMS', async () => {
+      await expect(service.requestOtp(phone)).resolves.toMatchObject({ expiresIn: 300 });
+
+      expect(mockOtp.issueCode).toHaveBeenCalledWith(phone, 'guest-checkout');
+      expect(mockNotifications.sendSms).toHaveBeenCalledWith(
+        { phoneNumber: phone, template: SMSTemplate.OTP_CODE, variables: { otp: '123456' } },
+        `guest:${phone}`,
+      );
+    });
+  });
+
+  describe('verifyOtp', () => {
+    it('creates a guest user on the first order', async () => {
+      const result = await service.verifyOtp(phone, '123456', 'Kofi');
+
+      expect(mockOtp.verifyOtp).toHaveBeenCalledWith(phone, '123456', 'guest-checkout');
+      expect(mockPrisma.user.create).toHaveBeenCalledWith({
+        data: {
+          phoneNumber: phone,
+          name: 'Kofi',
+          isGuest: true,
+          phoneVerifiedAt: expect.any(Date),
+          country: 'TG',
+        },
+      });
+      expect(result).toMatchObject({
+        user: { id: 'guest-new', phoneNumber: phone, isGuest: true },
+        accessToken: 'access',
+      });
+    });
+
+    it('takes the guest country from the dialing code', async () => {
+      await service.verifyOtp('+22997000000', '123456');
+
+      expect(mockPrisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ phoneNumber: '+22997000000', country: 'BJ' }),
+      });
+    });
+
+    it('signs in to the guest created by a concurrent verification of the same phone', async () => {
+      mockPrisma.user.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce(guest);
+      mockPrisma.user.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      const result = await service.verifyOtp(phone, '123456');
+
+      expect(result.user.id).toBe('guest-1');
+    });
+
+    it('signs the same phone back into its guest user', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(guest);
+
+      const result = await service.verifyOtp(phone, '123456');
+
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+      expect(result.user.id).toBe('guest-1');
+    });
+
+    it('creates nothing on a wrong code', async () => {
+      mockOtp.verifyOtp.mockRejectedValue(new UnauthorizedException('Invalid OTP'));
+
+      await expect(service.verifyOtp(phone, '000000')).rejects.toThrow(UnauthorizedException);
+      expect(mockPrisma.user.findFirst).not.toHaveBeenCalled();
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upgrade', () => {
+    it('sets email and password on the same user', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce(guest).mockResolvedValueOnce(null);
+
+      await service.upgrade('guest-1', 'kofi@example.com', 'motdepasse1');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'guest-1' },
+          data: {
+            email: 'kofi@example.com',
+            password: expect.not.stringMatching('motdepasse1'),
+            name: 'Kofi',
+            isGuest: false,
+          },
+        }),
+      );
+    });
+
+    it('refuses full accounts and taken emails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ ...guest, isGuest: false });
+      await expect(service.upgrade('guest-1', 'kofi@example.com', 'motdepasse1')).rejects.toThrow(
+        BadRequestException,
+      );
+
+      mockPrisma.user.findUnique
+        .mockResolvedValueOnce(guest)
+        .mockResolvedValueOnce({ id: 'user-2', email: 'kofi@example.com' });
+      await expect(service.upgrade('guest-1', 'kofi@example.com', 'motdepasse1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
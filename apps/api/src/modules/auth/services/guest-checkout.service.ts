@@ -0,0 +1,162 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OtpService } from '../../otp/otp.service';
+import { NotificationService } from '../../notifications/notification.service';
+import { SMSTemplate } from '../../notifications/dto/send-sms.dto';
+import { AuthService } from '../auth.service';
+
+// Guest country (payment routing, shipping) from the phone dialing code; other codes → default TG
+const COUNTRY_BY_DIAL_CODE: Record<string, string> = { '+228': 'TG', '+229': 'BJ', '+227': 'NE' };
+
+function countryFromPhone(phoneNumber: string): string | undefined {
+  return COUNTRY_BY_DIAL_CODE[phoneNumber.slice(0, 4)];
+}
+
+/**
+ * Guest Checkout Service
+ * Lets a buyer order with a phone number only (no email, no password)
+ *
+ * Flow:
+ * 1. Buyer gives a phone number → 6-digit code sent by SMS (OtpService, purpose 'guest-checkout')
+ * 2. Buyer enters the code → guest user found or created for that phone, JWT tokens issued
+ * 3. Buyer uses the usual cart / address / checkout endpoints with those tokens
+ * 4. Later: upgrade → email + password set on the same user, orders and addresses kept
+ *
+ * A guest is a User with isGuest = true, email = null, password = null.
+ * One guest per phone number (unique index on guest phones): coming back with the same phone
+ * finds the same orders. The guest country comes from the dialing code (+228 TG, +229 BJ, +227 NE).
+ */
+@Injectable()
+export class GuestCheckoutService {
+  private readonly logger = new Logger(GuestCheckoutService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private otpService: OtpService,
+    private notificationService: NotificationService,
+    private authService: AuthService,
+  ) {}
+
+  /**
+   * Send a guest checkout code by SMS
+   * Returns the code outside production, like POST /otp/generate
+   */
+  async requestOtp(phoneNumber: string): Promise<{ otp?: string; expiresIn: number }> {
+    const otp = await this.otpService.issueCode(phoneNumber, 'guest-checkout');
+
+    // No user id yet: the SMS rate limit (5 per minute) is keyed on the phone number
+    await this.notificationService.sendSms(
+      { phoneNumber, template: SMSTemplate.OTP_CODE, variables: { otp } },
+      `guest:${phoneNumber}`,
+    );
+
+    return {
+      otp: process.env.NODE_ENV === 'production' ? undefined : otp,
+      expiresIn: this.otpService.ttlSeconds,
+    };
+  }
+
+  /**
+   * Confirm the code and sign the guest in
+   * Throws UnauthorizedException (from OtpService) on a wrong or expired code
+   */
+  async verifyOtp(phoneNumber: string, otp: string, name?: string) {
+    await this.otpService.verifyOtp(phoneNumber, otp, 'guest-checkout');
+
+    const existing = await this.findGuest(phoneNumber);
+    if (existing && !existing.isActive) {
+      throw new UnauthorizedException('This account has been disabled');
+    }
+
+    const user = existing
+      ? await this.prisma.user.update({
+          where: { id: existing.id },
+          data: { phoneVerifiedAt: new Date(), name: existing.name ?? name },
+        })
+      : await this.createGuest(phoneNumber, name);
+
+    this.logger.log(`Guest ${existing ? 'signed in' : 'created'}: ${user.id}`);
+
+    return {
+      user: { id: user.id, name: user.name, phoneNumber: user.phoneNumber, isGuest: true },
+      ...this.authService.generateTokens(user.id, null),
+    };
+  }
+
+  private findGuest(phoneNumber: string) {
+    return this.prisma.user.findFirst({ where: { phoneNumber, isGuest: true } });
+  }
+
+  // Two verifications of the same phone at once: the second create hits the unique guest phone
+  // index → sign in to the guest the first one created
+  private async createGuest(phoneNumber: string, name?: string) {
+    try {
+      return await this.prisma.user.create({
+        data: {
+          phoneNumber,
+          name,
+          isGuest: true,
+          phoneVerifiedAt: new Date(),
+          country: countryFromPhone(phoneNumber),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const guest = await this.findGuest(phoneNumber);
+        if (guest?.isActive) {
+          return guest;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Turn a guest into a full account (same user id → orders, addresses, cart kept)
+   */
+  async upgrade(userId: string, email: string, password: string, name?: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+    if (!user.isGuest) {
+      throw new BadRequestException('This account is not a guest account');
+    }
+
+    const taken = await this.prisma.user.findUnique({ where: { email } });
+    if (taken) {
+      throw new ConflictException('User already exists');
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    try {
+      const upgraded = await this.prisma.user.update({
+        where: { id: userId },
+        data: { email, password: hashedPassword, name: name ?? user.name, isGuest: false },
+        select: { id: true, email: true, name: true, phoneNumber: true, createdAt: true },
+      });
+
+      this.logger.log(`Guest ${userId} upgraded to a full account`);
+
+      return {
+        user: upgraded,
+        ...this.authService.generateTokens(upgraded.id, email),
+      };
+    } catch (error) {
+      // Same email registered between the check and the update
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('User already exists');
+      }
+      throw error;
+    }
+  }
+}
@@ -4,7 +4,7 @@
  */
 export interface JwtPayload {
   sub: string; // User ID (subject)
-  email: string; // User email
+  email: string | null; // User email (null for a guest buyer)
   type: 'access' | 'refresh';
 }
 
@@ -14,5 +14,5 @@ export interface JwtPayload {
  */
 export interface CurrentUserPayload {
   sub: string; // User ID
-  email: string; // User email
+  email: string | null; // User email (null for a guest buyer)
 }
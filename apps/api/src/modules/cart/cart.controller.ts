@@ -4,6 +4,7 @@ import { CartService } from './cart.service';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
 import { SyncCartDto } from './dto/sync-cart.dto';
+import { ApplyCouponDto } from './dto/apply-coupon.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { CurrentUserPayload } from '../auth/types/auth.types';
@@ -53,6 +54,21 @@ export class CartController {
     return this.cartService.clearCart(user.sub);
   }
 
+  @Post('coupon')
+  @ApiOperation({
+    summary: 'Apply a coupon code',
+    description: 'Replaces the current code; the cart shows the discount lines',
+  })
+  async applyCoupon(@CurrentUser() user: CurrentUserPayload, @Body() dto: ApplyCouponDto) {
+    return this.cartService.applyCoupon(user.sub, dto);
+  }
+
+  @Delete('coupon')
+  @ApiOperation({ summary: 'Remove the coupon code' })
+  async removeCoupon(@CurrentUser() user: CurrentUserPayload) {
+    return this.cartService.removeCoupon(user.sub);
+  }
+
   @Post('sync')
   @ApiOperation({
     summary: 'Sync offline cart with server (PWA)',
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { CartController } from './cart.controller';
 import { CartService } from './cart.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { PromotionsModule } from '../promotions/promotions.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, PromotionsModule],
   controllers: [CartController],
   providers: [CartService],
   exports: [CartService],
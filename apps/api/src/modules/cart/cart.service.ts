@@ -4,10 +4,23 @@ import { Prisma } from '@prisma/client';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
 import { SyncCartDto } from './dto/sync-cart.dto';
+import { ApplyCouponDto } from './dto/apply-coupon.dto';
+import { DiscountQuote, PromotionService } from '../promotions/promotion.service';
+
+// Cart line fields needed to price a discount
+interface DiscountableCartItem {
+  partId: string;
+  vendorId: string;
+  quantity: number;
+  part: { price: Prisma.Decimal | number };
+}
 
 @Injectable()
 export class CartService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private promotionService: PromotionService,
+  ) {}
 
   /**
    * Get or create active cart for user
@@ -54,7 +67,9 @@ export class CartService {
       });
     }
 
-    return this.enrichCartWithTotals(cart);
+    const discount = await this.quoteDiscount(userId, cart.couponId, cart.items);
+
+    return this.enrichCartWithTotals(cart, discount);
   }
 
   /**
@@ -191,12 +206,51 @@ export class CartService {
 
     await this.prisma.cart.update({
       where: { id: cart.id },
-      data: { subtotal: 0, total: 0 },
+      data: { subtotal: 0, discountTotal: 0, total: 0 },
     });
 
     return this.getOrCreateCart(userId);
   }
 
+  /**
+   * Apply a coupon code (replaces the current one)
+   * Unknown code → 404, code not applicable to this cart → 400 with the reason
+   */
+  async applyCoupon(userId: string, dto: ApplyCouponDto) {
+    const cart = await this.getOrCreateCart(userId);
+
+    const couponId = await this.promotionService.findCouponId(dto.code);
+    const discount = await this.quoteDiscount(userId, couponId, cart.items);
+    if (!discount?.applicable) {
+      throw new BadRequestException(discount?.reason ?? 'This code is not valid');
+    }
+
+    await this.prisma.cart.update({
+      where: { id: cart.id },
+      data: { couponId },
+    });
+
+    await this.recalculateCartTotals(cart.id);
+
+    return this.getOrCreateCart(userId);
+  }
+
+  /**
+   * Remove the coupon from the cart
+   */
+  async removeCoupon(userId: string) {
+    const cart = await this.getOrCreateCart(userId);
+
+    await this.prisma.cart.update({
+      where: { id: cart.id },
+      data: { couponId: null },
+    });
+
+    await this.recalculateCartTotals(cart.id);
+
+    return this.getOrCreateCart(userId);
+  }
+
   /**
    * Sync offline cart with server (US-PWA-1101)
    */
@@ -219,46 +273,37 @@ export class CartService {
           continue;
         }
 
-        const existingItem = await this.prisma.cartItem.findUnique({
-          where: {
-            cartId_partId: {
-              cartId: cart.id,
-              partId: offlineItem.partId,
-            },
-          },
-        });
+        const cartItemKey = { cartId_partId: { cartId: cart.id, partId: offlineItem.partId } };
+        const existingItem = await this.prisma.cartItem.findUnique({ where: cartItemKey });
 
         const targetQuantity = existingItem
           ? Math.max(existingItem.quantity, offlineItem.quantity)
           : offlineItem.quantity;
 
+        // Same rule and message as order creation / checkout (stock is only taken at order time)
         if (part.stock < targetQuantity) {
           conflicts.push({
             partId: offlineItem.partId,
-            reason: `Insufficient stock (available: ${part.stock}, requested: ${targetQuantity})`,
+            reason: `Insufficient stock for "${part.title}". Available: ${part.stock}, Requested: ${targetQuantity}`,
           });
           continue;
         }
 
-        if (existingItem) {
-          await this.prisma.cartItem.update({
-            where: { id: existingItem.id },
-            data: { quantity: targetQuantity },
-          });
-        } else {
-          await this.prisma.cartItem.create({
-            data: {
-              cartId: cart.id,
-              partId: offlineItem.partId,
-              vendorId: part.vendorId,
-              quantity: targetQuantity,
-              unitPrice: part.price,
-              partTitle: part.title,
-              partImage: part.images[0]?.url || null,
-              vendorName: part.vendor.name,
-            },
-          });
-        }
+        // Upsert: two devices syncing the same cart must not fail on the (cartId, partId) key
+        await this.prisma.cartItem.upsert({
+          where: cartItemKey,
+          update: { quantity: targetQuantity },
+          create: {
+            cartId: cart.id,
+            partId: offlineItem.partId,
+            vendorId: part.vendorId,
+            quantity: targetQuantity,
+            unitPrice: part.price,
+            partTitle: part.title,
+            partImage: part.images[0]?.url || null,
+            vendorName: part.vendor.name,
+          },
+        });
       } catch (error) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const err = error as any;
@@ -280,43 +325,86 @@ export class CartService {
   }
 
   /**
-   * Recalculate cart totals
+   * Recalculate cart totals, coupon discount included
+   * Returns the totals and the discount lines (a coupon that no longer applies stays on the
+   * cart with amount 0 and its reason, it applies again once the cart qualifies)
    */
   private async recalculateCartTotals(cartId: string) {
-    const items = await this.prisma.cartItem.findMany({
-      where: { cartId },
-      include: { part: true },
+    const cart = await this.prisma.cart.findUniqueOrThrow({
+      where: { id: cartId },
+      include: { items: { include: { part: true } } },
     });
 
     // Use current part prices for calculation
-    const subtotal = items.reduce((sum, item) => sum + Number(item.part.price) * item.quantity, 0);
+    const subtotal = cart.items.reduce(
+      (sum, item) => sum + Number(item.part.price) * item.quantity,
+      0,
+    );
+    const discount = await this.quoteDiscount(cart.userId, cart.couponId, cart.items);
+    const discountTotal = discount?.amount ?? 0;
 
     await this.prisma.cart.update({
       where: { id: cartId },
       data: {
         subtotal,
-        total: subtotal, // For now, total = subtotal (no taxes/shipping yet)
+        discountTotal,
+        total: subtotal - discountTotal, // No taxes; shipping is quoted at checkout
       },
     });
+
+    return { subtotal, discountTotal, total: subtotal - discountTotal, discount };
   }
 
   /**
-   * Enrich cart with calculated totals grouped by vendor
+   * Quote the cart coupon against the current part prices (null without coupon)
    */
-  private enrichCartWithTotals(cart: {
-    id: string;
-    items: Array<{
-      vendorId: string;
-      vendor: { id: string; name: string };
-      quantity: number;
-      part: { price: Prisma.Decimal | number };
-    }>;
-    subtotal: Prisma.Decimal | number;
-    total: Prisma.Decimal | number;
-  }) {
+  private async quoteDiscount(
+    userId: string,
+    couponId: string | null,
+    items: DiscountableCartItem[],
+  ): Promise<DiscountQuote | null> {
+    if (!couponId) {
+      return null;
+    }
+
+    return this.promotionService.quote(
+      userId,
+      couponId,
+      items.map((item) => ({
+        partId: item.partId,
+        vendorId: item.vendorId,
+        unitPrice: Number(item.part.price),
+        quantity: item.quantity,
+      })),
+    );
+  }
+
+  /**
+   * Enrich cart with calculated totals grouped by vendor, plus the coupon discount lines
+   */
+  private enrichCartWithTotals(
+    cart: {
+      id: string;
+      items: Array<{
+        partId: string;
+        vendorId: string;
+        vendor: { id: string; name: string };
+        quantity: number;
+        part: { price: Prisma.Decimal | number };
+      }>;
+      subtotal: Prisma.Decimal | number;
+      total: Prisma.Decimal | number;
+    },
+    discount: DiscountQuote | null,
+  ) {
     const vendorGroups: Record<
       string,
-      { vendor: { id: string; name: string }; items: typeof cart.items; subtotal: number }
+      {
+        vendor: { id: string; name: string };
+        items: typeof cart.items;
+        subtotal: number;
+        discount: number;
+      }
     > = {};
 
     cart.items.forEach((item) => {
@@ -326,6 +414,7 @@ export class CartService {
           vendor: item.vendor,
           items: [],
           subtotal: 0,
+          discount: 0,
         };
       }
 
@@ -333,8 +422,15 @@ export class CartService {
       vendorGroups[vendorId].subtotal += Number(item.part.price) * item.quantity;
     });
 
+    discount?.lines.forEach((line) => {
+      if (vendorGroups[line.vendorId]) {
+        vendorGroups[line.vendorId].discount += line.amount;
+      }
+    });
+
     return {
       ...cart,
+      discount,
       vendorGroups: Object.values(vendorGroups),
     };
   }
@@ -0,0 +1,10 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ApplyCouponDto {
+  @ApiProperty({ description: 'Coupon code (case-insensitive)', example: 'BIENVENUE10' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code!: string;
+}
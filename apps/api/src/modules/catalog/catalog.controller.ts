@@ -11,6 +11,9 @@
  *       - DELETE /v1/catalog/categories/:id (delete category)
  *       - GET /v1/catalog/featured (featured products)
  *       - GET /v1/catalog/stats (category statistics)
+ *
+ *     Search, trending and featured accept an optional bearer token: the signed-in user's
+ *     default garage vehicle (or ?garageVehicleId=) restricts them to the parts that fit it
  */
 
 import {
@@ -28,8 +31,12 @@ import {
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
 import { CatalogService } from './catalog.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { GarageService } from '../vehicles/garage.service';
 import {
   SearchCatalogQueryDto,
   BulkFilterCatalogDto,
@@ -39,25 +46,34 @@ import {
 
 @Controller('catalog')
 export class CatalogController {
-  constructor(private readonly catalogService: CatalogService) {}
+  constructor(
+    private readonly catalogService: CatalogService,
+    private readonly garageService: GarageService,
+  ) {}
 
   /**
    * [2] SEARCH CATALOG ENDPOINT
-   *     GET /v1/catalog/search?q=cpu&category=processors&minPrice=0&maxPrice=100000&sort=price_low
+   *     GET /v1/catalog/search?q=filtre&category=filtres&minPrice=0&maxPrice=100000&sort=price_low
    *     Query: SearchCatalogQueryDto
    *     Response: { products, pagination, filters }
    *     Use case: Product listing page with live search
-   *     No authentication required
+   *     No authentication required (signed in: filtered to the garage vehicle, see filters.vehicle)
    *
    *     Examples:
    *       - GET /v1/catalog/search?q=ryzen → Search for "ryzen"
-   *       - GET /v1/catalog/search?category=memory&sort=price_high → Most expensive RAM
+   *       - GET /v1/catalog/search?category=filtres&sort=price_high → Most expensive filters (all subcategories)
    *       - GET /v1/catalog/search?minPrice=5000&maxPrice=50000 → Price range
    *       - GET /v1/catalog/search?vendor=corsair&sort=rating → Corsair products, best rated
+   *       - GET /v1/catalog/search?garageVehicleId=none → Ignore the default garage vehicle
    */
   @Get('search')
-  async searchCatalog(@Query() query: SearchCatalogQueryDto) {
-    const result = await this.catalogService.searchCatalog(query);
+  @UseGuards(OptionalJwtAuthGuard)
+  async searchCatalog(
+    @Query() query: SearchCatalogQueryDto,
+    @CurrentUser() user?: CurrentUserPayload,
+  ) {
+    const vehicle = await this.garageService.resolveActive(user?.sub, query.garageVehicleId);
+    const result = await this.catalogService.searchCatalog(query, vehicle);
 
     return {
       success: true,
@@ -85,14 +101,20 @@ export class CatalogController {
 
   /**
    * [4] TRENDING PRODUCTS ENDPOINT
-   *     GET /v1/catalog/trending?limit=10
-   *     Response: { trending: [...products] }
+   *     GET /v1/catalog/trending?limit=10&garageVehicleId=
+   *     Response: { trending: [...products], vehicle }
    *     Use case: Homepage "trending now" section
-   *     No authentication required
+   *     No authentication required (signed in: filtered to the garage vehicle)
    */
   @Get('trending')
-  async getTrendingProducts(@Query('limit') limit: string = '10') {
-    const result = await this.catalogService.getTrendingProducts(parseInt(limit, 10));
+  @UseGuards(OptionalJwtAuthGuard)
+  async getTrendingProducts(
+    @Query('limit') limit: string = '10',
+    @Query('garageVehicleId') garageVehicleId?: string,
+    @CurrentUser() user?: CurrentUserPayload,
+  ) {
+    const vehicle = await this.garageService.resolveActive(user?.sub, garageVehicleId);
+    const result = await this.catalogService.getTrendingProducts(parseInt(limit, 10), vehicle);
 
     return {
       success: true,
@@ -102,14 +124,20 @@ export class CatalogController {
 
   /**
    * [5] FEATURED PRODUCTS ENDPOINT
-   *     GET /v1/catalog/featured?limit=5
-   *     Response: { featured: [...products] }
+   *     GET /v1/catalog/featured?limit=5&garageVehicleId=
+   *     Response: { featured: [...products], vehicle }
    *     Use case: Homepage "featured" section (admin-selected)
-   *     No authentication required
+   *     No authentication required (signed in: filtered to the garage vehicle)
    */
   @Get('featured')
-  async getFeaturedProducts(@Query('limit') limit: string = '5') {
-    const result = await this.catalogService.getFeaturedProducts(parseInt(limit, 10));
+  @UseGuards(OptionalJwtAuthGuard)
+  async getFeaturedProducts(
+    @Query('limit') limit: string = '5',
+    @Query('garageVehicleId') garageVehicleId?: string,
+    @CurrentUser() user?: CurrentUserPayload,
+  ) {
+    const vehicle = await this.garageService.resolveActive(user?.sub, garageVehicleId);
+    const result = await this.catalogService.getFeaturedProducts(parseInt(limit, 10), vehicle);
 
     return {
       success: true,
@@ -120,7 +148,7 @@ export class CatalogController {
   /**
    * [6] GET CATEGORIES ENDPOINT
    *     GET /v1/catalog/categories
-   *     Response: { categories: [...with hierarchy and product count] }
+   *     Response: { categories: [{ id, slug, nameFr, nameEn, position, partCount, children: [...] }] }
    *     Use case: Category sidebar, breadcrumb navigation
    *     No authentication required
    */
@@ -137,7 +165,7 @@ export class CatalogController {
   /**
    * [7] CATEGORY STATISTICS ENDPOINT
    *     GET /v1/catalog/stats
-   *     Response: { stats: [{ categoryName, productCount, averagePrice, averageRating }] }
+   *     Response: { stats: [{ categoryId, slug, nameFr, nameEn, productCount, averagePrice }] }
    *     Use case: Admin dashboard, category performance metrics
    *     Requires ADMIN role
    */
@@ -158,8 +186,9 @@ export class CatalogController {
   /**
    * [9] CREATE CATEGORY ENDPOINT
    *     POST /v1/catalog/categories
-   *     Body: { name, description, parentId?, icon? }
-   *     Response: { id, name, parentId, icon, createdAt }
+   *     Body: { nameFr, nameEn, slug?, description?, parentId?, icon?, position? }
+   *     Response: { id, slug, nameFr, nameEn, parentId, position, createdAt }
+   *     Errors: 404 unknown parent, 409 slug already used
    *     Use case: Admin creates new product category
    *     Requires ADMIN role
    */
@@ -175,7 +204,7 @@ export class CatalogController {
     return {
       success: true,
       data: category,
-      message: `Category ${category.name} created`,
+      message: `Category ${category.nameFr} created`,
     };
   }
 
@@ -183,9 +212,10 @@ export class CatalogController {
    * [11] UPDATE CATEGORY ENDPOINT
    *      PATCH /v1/catalog/categories/:id
    *      Params: categoryId
-   *      Body: { name?, description?, icon? }
-   *      Response: { id, name, description, icon }
-   *      Use case: Admin edits category details
+   *      Body: { nameFr?, nameEn?, slug?, description?, icon?, parentId?, position? }
+   *      Response: { id, slug, nameFr, nameEn, parentId, position }
+   *      Use case: Admin edits, reorders or moves a category (parentId: null → top level)
+   *      Errors: 400 move under its own subtree, 404 unknown category/parent, 409 slug already used
    *      Requires ADMIN role
    */
   @Patch('categories/:id')
@@ -212,6 +242,7 @@ export class CatalogController {
    *      Params: categoryId
    *      Response: { success: true, message }
    *      Use case: Admin removes category (only if empty)
+   *      Errors: 409 category still has subcategories or parts
    *      Requires ADMIN role
    */
   @Delete('categories/:id')
@@ -6,6 +6,7 @@
  *       - Advanced sorting (newest, price, popularity, rating)
  *       - Category hierarchy (parent/child categories)
  *       - Trending and featured products
+ *       - Fitment filter on the active "My garage" vehicle
  *       - Category statistics dashboard
  *       - Redis caching (30 min for searches, 1-2 hours for categories)
  */
@@ -15,12 +16,15 @@ import { CatalogController } from './catalog.controller';
 import { CatalogService } from './catalog.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { RedisModule } from '../redis/redis.module';
+import { VehiclesModule } from '../vehicles/vehicles.module';
 
 @Module({
   // [2] IMPORTS
   //     - PrismaModule: Product, Category, Vendor queries
   //     - RedisModule: Caching search results and category trees
-  imports: [PrismaModule, RedisModule],
+  //     - VehiclesModule: GarageService (active garage vehicle → fitment filter)
+  //     - SearchOutboxService comes from the global MeilisearchModule (re-index after category changes)
+  imports: [PrismaModule, RedisModule, VehiclesModule],
 
   // [3] CONTROLLERS
   //     - CatalogController: HTTP endpoints at /v1/catalog
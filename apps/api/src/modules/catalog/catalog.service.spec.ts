@@ -0,0 +1,230 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              CATALOG SERVICE TESTS — Category Taxonomy                                            ║
+ * ║  Tests: Category tree with counts, create/update/delete rules, subtree filtering                  ║
+ * ║  Focus: A parent category finds the parts of all its subcategories                                ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { CatalogService } from './catalog.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { SearchOutboxService } from '../meilisearch/search-outbox.service';
+import { toCategorySlug } from './category-slug';
+
+describe('CatalogService — categories', () => {
+  let service: CatalogService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let mockRedis: { get: jest.Mock; set: jest.Mock; del: jest.Mock };
+  let mockSearchOutbox: { enqueueWhere: jest.Mock };
+
+  const category = (id: string, parentId: string | null, position = 0) => ({
+    id,
+    slug: id,
+    nameFr: id,
+    nameEn: id,
+    description: null,
+    icon: null,
+    position,
+    parentId,
+  });
+
+  // moteur › filtres › filtre-a-huile, plus freinage at the top level
+  const tree = [
+    category('moteur', null, 0),
+    category('freinage', null, 1),
+    category('filtres', 'moteur'),
+    category('filtre-a-huile', 'filtres'),
+  ];
+
+  const createPrismaMock = () => {
+    const prisma = {
+      category: {
+        findMany: jest.fn().mockResolvedValue(tree),
+        findUnique: jest.fn(({ where }: { where: { id?: string; slug?: string } }) =>
+          Promise.resolve(tree.find((c) => c.id === where.id || c.slug === where.slug) ?? null),
+        ),
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn((args: { data: Record<string, unknown> }) =>
+          Promise.resolve({ id: 'new', ...args.data }),
+        ),
+        update: jest.fn((args: { where: { id: string }; data: Record<string, unknown> }) =>
+          Promise.resolve({ id: args.where.id, ...args.data }),
+        ),
+        delete: jest.fn(),
+      },
+      part: {
+        groupBy: jest.fn().mockResolvedValue([
+          { categoryId: 'filtre-a-huile', _count: { _all: 3 } },
+          { categoryId: 'moteur', _count: { _all: 1 } },
+        ]),
+        count: jest.fn().mockResolvedValue(0),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      $transaction: jest.fn(),
+    };
+    prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+    return prisma;
+  };
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+    mockRedis = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn(),
+      del: jest.fn(),
+    };
+    mockSearchOutbox = { enqueueWhere: jest.fn().mockResolvedValue(0) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CatalogService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: RedisService, useValue: mockRedis },
+        { provide: SearchOutboxService, useValue: mockSearchOutbox },
+      ],
+    }).compile();
+
+    service = module.get<CatalogService>(CatalogService);
+  });
+
+  describe('getCategories', () => {
+    it('builds the tree with part counts including subcategories', async () => {
+      const { categories } = await service.getCategories();
+
+      expect(categories.map((c) => c.id)).toEqual(['moteur', 'freinage']);
+      const engine = categories[0];
+      expect(engine.partCount).toBe(4);
+      expect(engine.children[0]).toMatchObject({ id: 'filtres', partCount: 3 });
+      expect(engine.children[0].children[0]).toMatchObject({ id: 'filtre-a-huile', partCount: 3 });
+      expect(categories[1].partCount).toBe(0);
+      expect(mockRedis.set).toHaveBeenCalledWith('catalog:categories', expect.any(String), 7200);
+    });
+  });
+
+  describe('createCategory', () => {
+    it('derives the slug from the French name and appends to the siblings', async () => {
+      mockPrisma.category.count.mockResolvedValue(2);
+
+      await service.createCategory({
+        nameFr: 'Filtre à air',
+        nameEn: 'Air filter',
+        parentId: 'filtres',
+      });
+
+      expect(mockPrisma.category.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ slug: 'filtre-a-air', position: 2, parentId: 'filtres' }),
+      });
+      expect(mockRedis.del).toHaveBeenCalledWith('catalog:categories');
+    });
+
+    it('rejects an unknown parent and a duplicate slug', async () => {
+      await expect(
+        service.createCategory({ nameFr: 'Bougies', nameEn: 'Spark plugs', parentId: 'nope' }),
+      ).rejects.toThrow(NotFoundException);
+
+      mockPrisma.category.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+      await expect(service.createCategory({ nameFr: 'Moteur', nameEn: 'Engine' })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('updateCategory', () => {
+    it('refuses to move a category under its own subcategory', async () => {
+      await expect(
+        service.updateCategory('moteur', { parentId: 'filtre-a-huile' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrisma.category.update).not.toHaveBeenCalled();
+    });
+
+    it('queues the parts of the subtree for re-indexing after a move', async () => {
+      await service.updateCategory('filtres', { parentId: null });
+
+      expect(mockPrisma.category.update).toHaveBeenCalledWith({
+        where: { id: 'filtres' },
+        data: { parentId: null },
+      });
+      expect(mockSearchOutbox.enqueueWhere).toHaveBeenCalledWith(mockPrisma, {
+        categoryId: { in: ['filtres', 'filtre-a-huile'] },
+      });
+    });
+
+    it('does not re-index when only the icon changes', async () => {
+      await service.updateCategory('filtres', { icon: 'filter.svg' });
+
+      expect(mockSearchOutbox.enqueueWhere).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteCategory', () => {
+    it('only deletes empty categories', async () => {
+      mockPrisma.category.count.mockResolvedValueOnce(1);
+      await expect(service.deleteCategory('moteur')).rejects.toThrow(ConflictException);
+
+      mockPrisma.part.count.mockResolvedValueOnce(5);
+      await expect(service.deleteCategory('filtre-a-huile')).rejects.toThrow(ConflictException);
+      expect(mockPrisma.category.delete).not.toHaveBeenCalled();
+
+      await expect(service.deleteCategory('freinage')).resolves.toEqual({
+        success: true,
+        id: 'freinage',
+      });
+    });
+  });
+
+  describe('searchCatalog', () => {
+    it('filters a category slug on the whole subtree', async () => {
+      await service.searchCatalog({ category: 'moteur' });
+
+      expect(mockPrisma.part.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { categoryId: { in: ['moteur', 'filtres', 'filtre-a-huile'] } },
+        }),
+      );
+    });
+
+    it('keeps the parts fitted to the garage vehicle and caches per engine set', async () => {
+      const vehicle = {
+        id: 'uv-1',
+        nickname: 'Ma Corolla',
+        label: 'Toyota Corolla 2018',
+        yearId: 'year-2018',
+        engineId: null,
+        engineIds: ['engine-18', 'engine-16'],
+      };
+
+      const result = await service.searchCatalog({ garageVehicleId: 'uv-1' }, vehicle);
+
+      expect(mockPrisma.part.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { fitments: { some: { engineId: { in: ['engine-18', 'engine-16'] } } } },
+        }),
+      );
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        'catalog:search:{}:fits:engine-16,engine-18',
+        expect.any(String),
+        1800,
+      );
+      expect(result.filters.vehicle).toEqual({
+        id: 'uv-1',
+        nickname: 'Ma Corolla',
+        label: 'Toyota Corolla 2018',
+      });
+    });
+  });
+
+  describe('toCategorySlug', () => {
+    it('strips accents and punctuation', () => {
+      expect(toCategorySlug('  Électricité & Éclairage ')).toBe('electricite-eclairage');
+    });
+  });
+});
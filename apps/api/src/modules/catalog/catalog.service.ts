@@ -1,12 +1,56 @@
 /**
  * [1] CATALOG SERVICE
  *     Advanced product search, filtering, and category management
+ *
+ *     Categories form a tree (Moteur › Filtres › Filtre à huile):
+ *       - Filtering on a category also returns the parts of its subcategories
+ *       - The tree is cached in Redis and dropped on every category write
+ *       - Renaming or moving a category queues the parts of its subtree for re-indexing (search outbox)
+ *
+ *     Search, trending and featured take the active garage vehicle ("My garage"):
+ *       - Only parts with a PartFitment on one of its engines are returned
+ *       - The vehicle's engines are part of the cache key
  */
 
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { RedisService } from '../redis/redis.service';
-import { SearchCatalogQueryDto, BulkFilterCatalogDto, SortOption } from './dto/catalog.dto';
+import { SearchOutboxService } from '../meilisearch/search-outbox.service';
+import { ActiveGarageVehicle } from '../vehicles/garage.service';
+import {
+  SearchCatalogQueryDto,
+  BulkFilterCatalogDto,
+  SortOption,
+  CreateCategoryDto,
+  UpdateCategoryDto,
+} from './dto/catalog.dto';
+import { toCategorySlug } from './category-slug';
+
+const CATEGORY_TREE_CACHE_KEY = 'catalog:categories';
+const CATEGORY_TREE_CACHE_TTL = 7200;
+
+type CategoryRow = {
+  id: string;
+  slug: string;
+  nameFr: string;
+  nameEn: string;
+  description: string | null;
+  icon: string | null;
+  position: number;
+  parentId: string | null;
+};
+
+type CategoryTreeNode = CategoryRow & {
+  partCount: number; // Published parts in this category and all its subcategories
+  children: CategoryTreeNode[];
+};
 
 @Injectable()
 export class CatalogService {
@@ -15,10 +59,16 @@ export class CatalogService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly redis: RedisService,
+    private readonly searchOutbox: SearchOutboxService,
   ) {}
 
-  async searchCatalog(query: SearchCatalogQueryDto): Promise<any> {
-    const cacheKey = `catalog:search:${JSON.stringify(query)}`;
+  async searchCatalog(
+    query: SearchCatalogQueryDto,
+    vehicle: ActiveGarageVehicle | null = null,
+  ): Promise<any> {
+    // The vehicle id is per user: key on its engines instead
+    const filters = JSON.stringify({ ...query, garageVehicleId: undefined });
+    const cacheKey = `catalog:search:${filters}${this.vehicleCacheKey(vehicle)}`;
     const cached = await this.redis.get(cacheKey);
 
     if (cached) {
@@ -55,6 +105,18 @@ export class CatalogService {
       where.vendorId = query.vendor;
     }
 
+    // [4f] CATEGORY FILTER (slug → category and its subcategories; unknown slug → no results)
+    if (query.category) {
+      const category = await this.prisma.category.findUnique({
+        where: { slug: query.category },
+        select: { id: true },
+      });
+      where.categoryId = { in: category ? await this.subtreeIds([category.id]) : [] };
+    }
+
+    // [4g] GARAGE VEHICLE (parts fitted to one of its engines)
+    Object.assign(where, this.fitmentWhere(vehicle));
+
     const total = await this.prisma.part.count({ where });
 
     let orderBy: any = { createdAt: 'desc' };
@@ -87,6 +149,8 @@ export class CatalogService {
         priceRange: { min: query.minPrice, max: query.maxPrice },
         inStock: query.inStock,
         vendor: query.vendor,
+        category: query.category,
+        vehicle: this.vehicleSummary(vehicle),
       },
     };
 
@@ -108,6 +172,10 @@ export class CatalogService {
       where.vendorId = { in: filters.vendors };
     }
 
+    if (filters.categories && filters.categories.length > 0) {
+      where.categoryId = { in: await this.subtreeIds(filters.categories) };
+    }
+
     if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
       where.price = {};
       if (filters.minPrice !== undefined) where.price.gte = filters.minPrice;
@@ -148,8 +216,11 @@ export class CatalogService {
     return result;
   }
 
-  async getTrendingProducts(limit: number = 10): Promise<any> {
-    const cacheKey = `catalog:trending:${limit}`;
+  async getTrendingProducts(
+    limit: number = 10,
+    vehicle: ActiveGarageVehicle | null = null,
+  ): Promise<any> {
+    const cacheKey = `catalog:trending:${limit}${this.vehicleCacheKey(vehicle)}`;
     const cached = await this.redis.get(cacheKey);
 
     if (cached) {
@@ -157,19 +228,22 @@ export class CatalogService {
     }
 
     const trending = await this.prisma.part.findMany({
-      where: { stock: { gt: 0 } },
+      where: { stock: { gt: 0 }, ...this.fitmentWhere(vehicle) },
       include: { vendor: true },
       orderBy: { stock: 'desc' },
       take: limit,
     });
 
-    const result = { trending };
+    const result = { trending, vehicle: this.vehicleSummary(vehicle) };
     await this.redis.set(cacheKey, JSON.stringify(result), 3600);
     return result;
   }
 
-  async getFeaturedProducts(limit: number = 5): Promise<any> {
-    const cacheKey = `catalog:featured:${limit}`;
+  async getFeaturedProducts(
+    limit: number = 5,
+    vehicle: ActiveGarageVehicle | null = null,
+  ): Promise<any> {
+    const cacheKey = `catalog:featured:${limit}${this.vehicleCacheKey(vehicle)}`;
     const cached = await this.redis.get(cacheKey);
 
     if (cached) {
@@ -177,36 +251,280 @@ export class CatalogService {
     }
 
     const featured = await this.prisma.part.findMany({
-      where: { stock: { gt: 0 } },
+      where: { stock: { gt: 0 }, ...this.fitmentWhere(vehicle) },
       include: { vendor: true },
       orderBy: { stock: 'desc' },
       take: limit,
     });
 
-    const result = { featured };
+    const result = { featured, vehicle: this.vehicleSummary(vehicle) };
     await this.redis.set(cacheKey, JSON.stringify(result), 7200);
     return result;
   }
 
-  // The following category methods are placeholders to satisfy controller references.
-  // Since no Category model exists in the schema, we return empty data structures.
-  async getCategories(): Promise<any> {
-    return { categories: [] };
+  /**
+   * [5] CATEGORY TREE
+   *     Roots and children ordered by position, with published part counts
+   */
+  async getCategories(): Promise<{ categories: CategoryTreeNode[] }> {
+    const cached = await this.redis.get(CATEGORY_TREE_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const [categories, counts] = await Promise.all([
+      this.prisma.category.findMany({
+        select: {
+          id: true,
+          slug: true,
+          nameFr: true,
+          nameEn: true,
+          description: true,
+          icon: true,
+          position: true,
+          parentId: true,
+        },
+        orderBy: [{ position: 'asc' }, { nameFr: 'asc' }],
+      }),
+      this.prisma.part.groupBy({
+        by: ['categoryId'],
+        where: { status: 'PUBLISHED', categoryId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const ownCounts = new Map(counts.map((row) => [row.categoryId, row._count._all]));
+    const nodes = new Map<string, CategoryTreeNode>(
+      categories.map((category) => [
+        category.id,
+        { ...category, partCount: ownCounts.get(category.id) ?? 0, children: [] },
+      ]),
+    );
+
+    const roots: CategoryTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+
+    const withSubtreeCount = (node: CategoryTreeNode): number => {
+      node.partCount += node.children.reduce((sum, child) => sum + withSubtreeCount(child), 0);
+      return node.partCount;
+    };
+    roots.forEach(withSubtreeCount);
+
+    const result = { categories: roots };
+    await this.redis.set(CATEGORY_TREE_CACHE_KEY, JSON.stringify(result), CATEGORY_TREE_CACHE_TTL);
+    return result;
   }
 
+  /**
+   * [6] CATEGORY STATISTICS (admin)
+   *     Parts and average price per category (own parts only); categoryId null = uncategorized
+   */
   async getCategoryStats(): Promise<any> {
-    return { stats: [] };
+    const [categories, groups] = await Promise.all([
+      this.prisma.category.findMany({
+        select: { id: true, slug: true, nameFr: true, nameEn: true },
+      }),
+      this.prisma.part.groupBy({
+        by: ['categoryId'],
+        _count: { _all: true },
+        _avg: { price: true },
+      }),
+    ]);
+
+    const byId = new Map(categories.map((category) => [category.id, category]));
+
+    const stats = groups
+      .map((group) => {
+        const category = group.categoryId ? byId.get(group.categoryId) : undefined;
+        return {
+          categoryId: group.categoryId,
+          slug: category?.slug ?? null,
+          nameFr: category?.nameFr ?? null,
+          nameEn: category?.nameEn ?? null,
+          productCount: group._count._all,
+          averagePrice: group._avg.price !== null ? Number(group._avg.price) : null,
+        };
+      })
+      .sort((a, b) => b.productCount - a.productCount);
+
+    return { stats };
   }
 
-  async createCategory(dto: any): Promise<any> {
-    return { id: 'virtual', name: dto?.name ?? 'Unnamed', createdAt: new Date() };
+  /**
+   * [7] CREATE CATEGORY (admin)
+   *     Slug defaults to the French name; position defaults to last among siblings
+   */
+  async createCategory(dto: CreateCategoryDto) {
+    const parentId = dto.parentId ?? null;
+    if (parentId) {
+      await this.findCategoryOrThrow(parentId, 'Parent category not found');
+    }
+
+    const slug = dto.slug ?? toCategorySlug(dto.nameFr);
+    if (!slug) {
+      throw new BadRequestException('A slug is required when the name has no letters or digits');
+    }
+
+    const position = dto.position ?? (await this.prisma.category.count({ where: { parentId } }));
+
+    try {
+      const category = await this.prisma.category.create({
+        data: {
+          slug,
+          nameFr: dto.nameFr,
+          nameEn: dto.nameEn,
+          description: dto.description,
+          icon: dto.icon,
+          position,
+          parentId,
+        },
+      });
+
+      await this.redis.del(CATEGORY_TREE_CACHE_KEY);
+      this.logger.log(`Category created: ${category.slug}`);
+      return category;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException(`Category slug already exists: ${slug}`);
+      }
+      throw error;
+    }
   }
 
-  async updateCategory(id: string, dto: any): Promise<any> {
-    return { id, name: dto?.name ?? 'Updated', updatedAt: new Date() };
+  /**
+   * [8] UPDATE CATEGORY (admin)
+   *     [8a] Moving under itself or one of its subcategories → 400
+   *     [8b] New slug, name or parent → parts of the subtree queued for re-indexing (same transaction)
+   */
+  async updateCategory(id: string, dto: UpdateCategoryDto) {
+    const existing = await this.findCategoryOrThrow(id, 'Category not found');
+
+    const moved = dto.parentId !== undefined && dto.parentId !== existing.parentId;
+    if (moved && dto.parentId) {
+      await this.findCategoryOrThrow(dto.parentId, 'Parent category not found');
+      if ((await this.subtreeIds([id])).includes(dto.parentId)) {
+        throw new BadRequestException(
+          'A category cannot be moved under itself or its subcategories',
+        );
+      }
+    }
+
+    // Parts of the subtree carry the category path in their search documents
+    const pathChanged =
+      moved ||
+      (dto.slug !== undefined && dto.slug !== existing.slug) ||
+      (dto.nameFr !== undefined && dto.nameFr !== existing.nameFr) ||
+      (dto.nameEn !== undefined && dto.nameEn !== existing.nameEn);
+    const subtree = pathChanged ? await this.subtreeIds([id]) : [];
+
+    let category;
+    try {
+      category = await this.prisma.$transaction(async (tx) => {
+        const saved = await tx.category.update({
+          where: { id },
+          data: {
+            ...(dto.nameFr !== undefined && { nameFr: dto.nameFr }),
+            ...(dto.nameEn !== undefined && { nameEn: dto.nameEn }),
+            ...(dto.slug !== undefined && { slug: dto.slug }),
+            ...(dto.description !== undefined && { description: dto.description }),
+            ...(dto.icon !== undefined && { icon: dto.icon }),
+            ...(dto.position !== undefined && { position: dto.position }),
+            ...(moved && { parentId: dto.parentId ?? null }),
+          },
+        });
+        if (subtree.length > 0) {
+          const queued = await this.searchOutbox.enqueueWhere(tx, { categoryId: { in: subtree } });
+          this.logger.log(`Queued ${queued} parts for re-indexing after category ${id} changed`);
+        }
+        return saved;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException(`Category slug already exists: ${dto.slug}`);
+      }
+      throw error;
+    }
+
+    await this.redis.del(CATEGORY_TREE_CACHE_KEY);
+
+    return category;
   }
 
-  async deleteCategory(id: string): Promise<any> {
+  /**
+   * [9] DELETE CATEGORY (admin)
+   *     Only empty categories: no subcategories, no parts
+   */
+  async deleteCategory(id: string): Promise<{ success: true; id: string }> {
+    await this.findCategoryOrThrow(id, 'Category not found');
+
+    const [children, parts] = await Promise.all([
+      this.prisma.category.count({ where: { parentId: id } }),
+      this.prisma.part.count({ where: { categoryId: id } }),
+    ]);
+    if (children > 0) {
+      throw new ConflictException(`Category has ${children} subcategories`);
+    }
+    if (parts > 0) {
+      throw new ConflictException(`Category has ${parts} parts`);
+    }
+
+    await this.prisma.category.delete({ where: { id } });
+    await this.redis.del(CATEGORY_TREE_CACHE_KEY);
+
     return { success: true, id };
   }
+
+  private fitmentWhere(vehicle: ActiveGarageVehicle | null): Prisma.PartWhereInput {
+    return vehicle ? { fitments: { some: { engineId: { in: vehicle.engineIds } } } } : {};
+  }
+
+  private vehicleCacheKey(vehicle: ActiveGarageVehicle | null): string {
+    return vehicle ? `:fits:${[...vehicle.engineIds].sort().join(',')}` : '';
+  }
+
+  private vehicleSummary(vehicle: ActiveGarageVehicle | null) {
+    return vehicle && { id: vehicle.id, nickname: vehicle.nickname, label: vehicle.label };
+  }
+
+  private async findCategoryOrThrow(id: string, message: string): Promise<CategoryRow> {
+    const category = await this.prisma.category.findUnique({ where: { id } });
+    if (!category) {
+      throw new NotFoundException(message);
+    }
+    return category;
+  }
+
+  /**
+   * [10] SUBTREE IDS (the given categories and all their descendants)
+   */
+  private async subtreeIds(rootIds: string[]): Promise<string[]> {
+    const categories = await this.prisma.category.findMany({
+      select: { id: true, parentId: true },
+    });
+
+    const childrenOf = new Map<string, string[]>();
+    for (const category of categories) {
+      if (category.parentId) {
+        childrenOf.set(category.parentId, [
+          ...(childrenOf.get(category.parentId) ?? []),
+          category.id,
+        ]);
+      }
+    }
+
+    const ids = new Set<string>();
+    const queue = [...rootIds];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (!ids.has(id)) {
+        ids.add(id);
+        queue.push(...(childrenOf.get(id) ?? []));
+      }
+    }
+
+    return Array.from(ids);
+  }
 }
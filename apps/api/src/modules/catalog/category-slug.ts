@@ -0,0 +1,15 @@
+/**
+ * [1] CATEGORY SLUG
+ *     "Filtre à huile" → "filtre-a-huile" (accents removed, lower case, dashes)
+ *     Used for default slugs (catalog) and category matching (CSV import)
+ */
+export const CATEGORY_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function toCategorySlug(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
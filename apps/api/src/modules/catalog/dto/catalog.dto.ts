@@ -3,8 +3,21 @@
  *     Data transfer objects for catalog management
  */
 
-import { IsString, IsOptional, IsNumber, Min, Max, IsEnum, IsArray } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsNotEmpty,
+  Min,
+  Max,
+  MaxLength,
+  Matches,
+  IsEnum,
+  IsArray,
+} from 'class-validator';
 import { Transform } from 'class-transformer';
+import { CATEGORY_SLUG_PATTERN } from '../category-slug';
 
 export enum SortOption {
   NEWEST = 'newest',
@@ -15,9 +28,22 @@ export enum SortOption {
 }
 
 export class CreateCategoryDto {
-  // [2] CATEGORY NAME
+  // [2] NAMES (FR / EN)
   @IsString()
-  name!: string;
+  @IsNotEmpty()
+  @MaxLength(100)
+  nameFr!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  nameEn!: string;
+
+  // [2a] SLUG (DEFAULT: DERIVED FROM nameFr, e.g. "filtre-a-huile")
+  @IsOptional()
+  @Matches(CATEGORY_SLUG_PATTERN, { message: 'slug must be lower case words separated by dashes' })
+  @MaxLength(100)
+  slug?: string;
 
   // [3] DESCRIPTION
   @IsOptional()
@@ -33,13 +59,33 @@ export class CreateCategoryDto {
   @IsOptional()
   @IsString()
   icon?: string;
+
+  // [5a] POSITION AMONG SIBLINGS (DEFAULT: LAST)
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  position?: number;
 }
 
 export class UpdateCategoryDto {
-  // [6] NAME (OPTIONAL)
+  // [6] NAMES (OPTIONAL)
   @IsOptional()
   @IsString()
-  name?: string;
+  @IsNotEmpty()
+  @MaxLength(100)
+  nameFr?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  nameEn?: string;
+
+  // [6a] SLUG (OPTIONAL)
+  @IsOptional()
+  @Matches(CATEGORY_SLUG_PATTERN, { message: 'slug must be lower case words separated by dashes' })
+  @MaxLength(100)
+  slug?: string;
 
   // [7] DESCRIPTION (OPTIONAL)
   @IsOptional()
@@ -50,6 +96,17 @@ export class UpdateCategoryDto {
   @IsOptional()
   @IsString()
   icon?: string;
+
+  // [8a] MOVE UNDER ANOTHER PARENT (null → top level)
+  @IsOptional()
+  @IsString()
+  parentId?: string | null;
+
+  // [8b] POSITION AMONG SIBLINGS (OPTIONAL)
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  position?: number;
 }
 
 export class SearchCatalogQueryDto {
@@ -58,7 +115,7 @@ export class SearchCatalogQueryDto {
   @IsString()
   q?: string;
 
-  // [10] CATEGORY FILTER
+  // [10] CATEGORY FILTER (SLUG, INCLUDES SUBCATEGORIES)
   @IsOptional()
   @IsString()
   category?: string;
@@ -110,10 +167,15 @@ export class SearchCatalogQueryDto {
   @Min(0)
   @Max(5)
   minRating?: number;
+
+  // [16b] GARAGE VEHICLE (default: the signed-in user's default vehicle, "none" = no fitment filter)
+  @IsOptional()
+  @IsString()
+  garageVehicleId?: string;
 }
 
 export class BulkFilterCatalogDto {
-  // [17] MULTIPLE FILTERS IN ONE REQUEST
+  // [17] MULTIPLE FILTERS IN ONE REQUEST (CATEGORY IDS INCLUDE THEIR SUBCATEGORIES)
   @IsOptional()
   @IsArray()
   categories?: string[];
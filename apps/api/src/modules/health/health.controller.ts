@@ -1,12 +1,14 @@
 import { Controller, Get } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { RedisService } from '../redis/redis.service';
+import { MeilisearchService } from '../meilisearch/meilisearch.service';
 
 @Controller('health')
 export class HealthController {
   constructor(
     private prisma: PrismaService,
     private redis: RedisService,
+    private meilisearch: MeilisearchService,
   ) {}
 
   @Get()
@@ -17,6 +19,8 @@ export class HealthController {
       ts: new Date().toISOString(),
       database: 'unknown',
       redis: 'unknown',
+      search: 'unknown',
+      searchEngine: 'unknown',
     };
 
     // Check database
@@ -36,6 +40,12 @@ export class HealthController {
       checks.redis = 'error';
     }
 
+    // Check search (degraded = served by the PostgreSQL fallback, slower and without typo tolerance)
+    // Availability tracked by MeilisearchService from search results and its periodic health check
+    const searchAvailable = this.meilisearch.isAvailable();
+    checks.search = searchAvailable ? 'ok' : 'degraded';
+    checks.searchEngine = searchAvailable ? 'meilisearch' : 'database';
+
     return checks;
   }
 }
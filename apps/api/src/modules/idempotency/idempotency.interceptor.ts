@@ -0,0 +1,142 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                     IDEMPOTENCY INTERCEPTOR — Idempotency-Key Header                               ║
+ * ║  Implements: Replay of the first response, conflict on reuse, in-flight lock                      ║
+ * ║  Applied with: @Idempotent() (checkout, orders, payments, refunds)                                ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] FLOW (runs after the guards → request.user is set)
+ *     [1a] No Idempotency-Key header → handler runs as before
+ *     [1b] Stored response, same request → replayed (header Idempotent-Replayed: true)
+ *     [1c] Stored response, other request → 409
+ *     [1d] Same key still running → 409 (client retries later and gets the replay)
+ *     [1e] Handler succeeds → response stored; handler fails → nothing stored
+ */
+
+import {
+  BadRequestException,
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { HTTP_CODE_METADATA } from '@nestjs/common/constants';
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { from, Observable, of } from 'rxjs';
+import { finalize, mergeMap } from 'rxjs/operators';
+import { IdempotencyScope, IdempotencyService } from './idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+const MAX_KEY_LENGTH = 255;
+
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(
+    private readonly idempotencyService: IdempotencyService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<Request & { user?: { sub: string } }>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const header = request.headers[IDEMPOTENCY_KEY_HEADER];
+
+    if (header === undefined) {
+      return next.handle();
+    }
+
+    const key = (Array.isArray(header) ? header[0] : header).trim();
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    const scope: IdempotencyScope = {
+      userId: request.user?.sub || 'ANONYMOUS',
+      key,
+      method: request.method,
+      path: request.originalUrl.split('?')[0],
+    };
+    const requestHash = this.idempotencyService.fingerprint(scope, request.body);
+    const lockToken = `${process.pid}:${randomUUID()}`;
+
+    return from(this.begin(scope, requestHash, lockToken)).pipe(
+      mergeMap((stored) => {
+        if (stored) {
+          response.status(stored.status);
+          response.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+          return of(stored.body);
+        }
+
+        return next.handle().pipe(
+          mergeMap(async (body) => {
+            await this.store(context, scope, requestHash, body);
+            return body;
+          }),
+          finalize(() => {
+            this.idempotencyService.unlock(scope, lockToken).catch((error) => {
+              this.logger.warn(`Failed to release idempotency lock: ${error.message}`);
+            });
+          }),
+        );
+      }),
+    );
+  }
+
+  /**
+   * [2] STORED RESPONSE, or lock taken for this request (null)
+   *     [2a] Checked again once locked: the holder may have finished in between
+   */
+  private async begin(scope: IdempotencyScope, requestHash: string, lockToken: string) {
+    const stored = await this.idempotencyService.findResponse(scope, requestHash);
+    if (stored) {
+      return stored;
+    }
+
+    if (!(await this.idempotencyService.lock(scope, lockToken))) {
+      throw new ConflictException('A request with this Idempotency-Key is still being processed');
+    }
+
+    try {
+      const finished = await this.idempotencyService.findResponse(scope, requestHash);
+      if (finished) {
+        await this.idempotencyService.unlock(scope, lockToken);
+      }
+      return finished;
+    } catch (error) {
+      await this.idempotencyService.unlock(scope, lockToken);
+      throw error;
+    }
+  }
+
+  /**
+   * [3] STORE (a storage failure must not turn a created order into an error)
+   */
+  private async store(
+    context: ExecutionContext,
+    scope: IdempotencyScope,
+    requestHash: string,
+    body: unknown,
+  ): Promise<void> {
+    const status =
+      this.reflector.get<number>(HTTP_CODE_METADATA, context.getHandler()) ??
+      (scope.method === 'POST' ? HttpStatus.CREATED : HttpStatus.OK);
+
+    try {
+      await this.idempotencyService.saveResponse(scope, requestHash, { status, body });
+    } catch (error) {
+      this.logger.error(
+        `Failed to store idempotent response for key ${scope.key}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
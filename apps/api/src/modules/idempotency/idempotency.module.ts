@@ -0,0 +1,24 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        IDEMPOTENCY MODULE — Safe Retries                                           ║
+ * ║  Provides: IdempotencyService (key store), IdempotencyInterceptor (@Idempotent())                 ║
+ * ║  Dependencies: PrismaModule, RedisModule                                                          ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODULE OVERVIEW
+ *     [1a] Exports: IdempotencyService, IdempotencyInterceptor
+ *          (OrdersModule: create + checkout, PaymentModule: create + refund)
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { RedisModule } from '../redis/redis.module';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+@Module({
+  imports: [PrismaModule, RedisModule],
+  providers: [IdempotencyService, IdempotencyInterceptor],
+  exports: [IdempotencyService, IdempotencyInterceptor],
+})
+export class IdempotencyModule {}
@@ -0,0 +1,246 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              IDEMPOTENCY TESTS — Idempotency-Key Store & Interceptor                              ║
+ * ║  Tests: Fingerprint, replay, conflict on reuse, in-flight lock, failures not stored, purge        ║
+ * ║  Focus: A retried checkout never creates a second order                                           ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { HTTP_CODE_METADATA } from '@nestjs/common/constants';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyScope, IdempotencyService } from './idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+
+describe('Idempotency', () => {
+  let service: IdempotencyService;
+  let interceptor: IdempotencyInterceptor;
+  let mockPrisma: {
+    idempotencyKey: { findUnique: jest.Mock; upsert: jest.Mock; deleteMany: jest.Mock };
+  };
+  let redisSet: jest.Mock;
+  let redisEval: jest.Mock;
+
+  const scope: IdempotencyScope = {
+    userId: 'user-1',
+    key: 'key-1',
+    method: 'POST',
+    path: '/v1/orders/checkout',
+  };
+  const body = { vendorShipping: [{ vendorId: 'vendor-1', addressId: 'addr-1' }] };
+
+  const buildContext = (
+    headers: Record<string, string> = { 'idempotency-key': 'key-1' },
+    requestBody: unknown = body,
+  ) => {
+    const response = { status: jest.fn(), setHeader: jest.fn() };
+    const handler = function checkout() {};
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => ({
+          headers,
+          method: 'POST',
+          originalUrl: '/v1/orders/checkout?lang=fr',
+          body: requestBody,
+          user: { sub: 'user-1' },
+        }),
+        getResponse: () => response,
+      }),
+      getHandler: () => handler,
+    } as unknown as ExecutionContext;
+    return { context, response, handler };
+  };
+
+  const handlerReturning = (value: unknown): CallHandler & { handle: jest.Mock } => ({
+    handle: jest.fn(() => of(value)),
+  });
+
+  beforeEach(async () => {
+    redisSet = jest.fn().mockResolvedValue('OK');
+    redisEval = jest.fn().mockResolvedValue(1);
+    mockPrisma = {
+      idempotencyKey: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn(),
+        deleteMany: jest.fn().mockResolvedValue({ count: 3 }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        IdempotencyInterceptor,
+        Reflector,
+        { provide: PrismaService, useValue: mockPrisma },
+        {
+          provide: RedisService,
+          useValue: { getClient: () => ({ set: redisSet, eval: redisEval }) },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, fallback?: string) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+    interceptor = module.get<IdempotencyInterceptor>(IdempotencyInterceptor);
+  });
+
+  describe('fingerprint', () => {
+    it('ignores the key order of the body', () => {
+      expect(service.fingerprint(scope, { a: 1, b: { c: [1, 2], d: 'x' } })).toBe(
+        service.fingerprint(scope, { b: { d: 'x', c: [1, 2] }, a: 1 }),
+      );
+      expect(service.fingerprint(scope, { a: 1 })).not.toBe(
+        service.fingerprint({ ...scope, path: '/v1/orders' }, { a: 1 }),
+      );
+    });
+  });
+
+  describe('findResponse', () => {
+    it('ignores expired keys and refuses a reused key', async () => {
+      const hash = service.fingerprint(scope, body);
+      mockPrisma.idempotencyKey.findUnique.mockResolvedValueOnce({
+        requestHash: hash,
+        responseStatus: 201,
+        responseBody: { id: 'order-1' },
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expect(service.findResponse(scope, hash)).resolves.toBeNull();
+
+      mockPrisma.idempotencyKey.findUnique.mockResolvedValueOnce({
+        requestHash: 'other',
+        responseStatus: 201,
+        responseBody: { id: 'order-1' },
+        expiresAt: new Date(Date.now() + 60000),
+      });
+      await expect(service.findResponse(scope, hash)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('deletes the keys past their replay window', async () => {
+      const now = new Date('2026-01-01T00:00:00Z');
+
+      await expect(service.purgeExpired(now)).resolves.toBe(3);
+      expect(mockPrisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lte: now } },
+      });
+    });
+  });
+
+  describe('IdempotencyInterceptor', () => {
+    it('runs the handler once and stores its response', async () => {
+      const { context } = buildContext();
+      const next = handlerReturning({ id: 'order-1', total: '27000' });
+
+      await expect(lastValueFrom(interceptor.intercept(context, next))).resolves.toEqual({
+        id: 'order-1',
+        total: '27000',
+      });
+
+      expect(redisSet).toHaveBeenCalledWith(
+        'idempotency:lock:user-1:key-1',
+        expect.any(String),
+        'EX',
+        60,
+        'NX',
+      );
+      expect(mockPrisma.idempotencyKey.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_key: { userId: 'user-1', key: 'key-1' } },
+          create: expect.objectContaining({
+            path: '/v1/orders/checkout',
+            requestHash: service.fingerprint(scope, body),
+            responseStatus: HttpStatus.CREATED,
+            responseBody: { id: 'order-1', total: '27000' },
+          }),
+        }),
+      );
+      // Released with this request's token only (a retry may hold it once the lock expired)
+      const token = redisSet.mock.calls[0][1];
+      expect(redisEval).toHaveBeenCalledWith(
+        expect.stringContaining("redis.call('del', KEYS[1])"),
+        1,
+        'idempotency:lock:user-1:key-1',
+        token,
+      );
+    });
+
+    it('replays the stored response without running the handler', async () => {
+      mockPrisma.idempotencyKey.findUnique.mockResolvedValue({
+        requestHash: service.fingerprint(scope, body),
+        responseStatus: 201,
+        responseBody: { id: 'order-1' },
+        expiresAt: new Date(Date.now() + 60000),
+      });
+      const { context, response } = buildContext();
+      const next = handlerReturning({ id: 'order-2' });
+
+      await expect(lastValueFrom(interceptor.intercept(context, next))).resolves.toEqual({
+        id: 'order-1',
+      });
+      expect(next.handle).not.toHaveBeenCalled();
+      expect(response.status).toHaveBeenCalledWith(201);
+      expect(response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+      expect(redisSet).not.toHaveBeenCalled();
+    });
+
+    it('refuses a key still held by a running request', async () => {
+      redisSet.mockResolvedValue(null);
+      const { context } = buildContext();
+      const next = handlerReturning({ id: 'order-2' });
+
+      await expect(lastValueFrom(interceptor.intercept(context, next))).rejects.toThrow(
+        ConflictException,
+      );
+      expect(next.handle).not.toHaveBeenCalled();
+    });
+
+    it('stores nothing when the handler fails', async () => {
+      const { context } = buildContext();
+      const next = { handle: jest.fn(() => throwError(() => new BadRequestException('Empty'))) };
+
+      await expect(lastValueFrom(interceptor.intercept(context, next))).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrisma.idempotencyKey.upsert).not.toHaveBeenCalled();
+      expect(redisEval).toHaveBeenCalled();
+    });
+
+    it('keeps the status code of @HttpCode()', async () => {
+      const { context, handler } = buildContext();
+      Reflect.defineMetadata(HTTP_CODE_METADATA, HttpStatus.OK, handler);
+
+      await lastValueFrom(interceptor.intercept(context, handlerReturning({ id: 'refund-1' })));
+
+      expect(mockPrisma.idempotencyKey.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ responseStatus: HttpStatus.OK }),
+        }),
+      );
+    });
+
+    it('passes through without a header and rejects oversized keys', async () => {
+      const next = handlerReturning({ id: 'order-1' });
+      await lastValueFrom(interceptor.intercept(buildContext({}).context, next));
+      expect(mockPrisma.idempotencyKey.findUnique).not.toHaveBeenCalled();
+
+      expect(() =>
+        interceptor.intercept(buildContext({ 'idempotency-key': 'x'.repeat(256) }).context, next),
+      ).toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        IDEMPOTENCY SERVICE — Idempotency-Key Store                                 ║
+ * ║  Implements: Request fingerprint, in-flight lock, stored first response, expiry purge             ║
+ * ║  Uses: Redis (in-flight lock, NX + TTL), Prisma (IdempotencyKey, durable responses)               ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] WHY?
+ *     [1a] Offline sync and flaky mobile networks retry POST /orders/checkout, POST /payments...
+ *          → each retry used to create another order / payment
+ *     [1b] The client sends the same Idempotency-Key on every retry of one logical request
+ *
+ * [2] STORAGE
+ *     [2a] Key scoped per user (JWT sub): two customers may pick the same value
+ *     [2b] Redis lock while the first request runs (expires on its own if the process dies),
+ *          released only by the request holding it (token compared before the delete)
+ *     [2c] Postgres row once it succeeded: status + JSON body, replayed until expiresAt
+ *     [2d] Failed requests store nothing → a retry runs again (nothing was created)
+ *
+ * [3] CONFIG
+ *     [3a] IDEMPOTENCY_TTL_HOURS          → replay window (default 24)
+ *     [3b] IDEMPOTENCY_LOCK_SECONDS       → in-flight lock (default 60)
+ *     [3c] IDEMPOTENCY_PURGE_INTERVAL_MS  → purge of expired rows (default 3600000, 0 = disabled)
+ */
+
+import {
+  Injectable,
+  ConflictException,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { RELEASE_LOCK_SCRIPT, RedisService } from '../redis/redis.service';
+
+export interface IdempotencyScope {
+  userId: string;
+  key: string;
+  method: string;
+  path: string;
+}
+
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+@Injectable()
+export class IdempotencyService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly ttlHours: number;
+  private readonly lockSeconds: number;
+  private readonly purgeIntervalMs: number;
+  private purgeTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ttlHours = this.readInt('IDEMPOTENCY_TTL_HOURS', 24);
+    this.lockSeconds = this.readInt('IDEMPOTENCY_LOCK_SECONDS', 60);
+    this.purgeIntervalMs = this.readInt('IDEMPOTENCY_PURGE_INTERVAL_MS', 3600000);
+  }
+
+  /**
+   * [4] START / STOP PURGE (unref: never keeps the process alive)
+   */
+  onModuleInit(): void {
+    if (this.purgeIntervalMs <= 0) {
+      return;
+    }
+
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch((error) => {
+        this.logger.error(`Idempotency key purge failed: ${error.message}`);
+      });
+    }, this.purgeIntervalMs);
+    this.purgeTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+    }
+  }
+
+  /**
+   * [5] FINGERPRINT
+   *     SHA-256 of method + path + body with sorted object keys (a client re-serialising the
+   *     same body in another key order is still the same request)
+   */
+  fingerprint(scope: IdempotencyScope, body: unknown): string {
+    return createHash('sha256')
+      .update(`${scope.method} ${scope.path}\n${JSON.stringify(this.canonical(body))}`)
+      .digest('hex');
+  }
+
+  /**
+   * [6] STORED RESPONSE of a previous identical request (null = none, or expired)
+   *     [6a] Same key, different request → 409
+   */
+  async findResponse(
+    scope: IdempotencyScope,
+    requestHash: string,
+    now = new Date(),
+  ): Promise<StoredResponse | null> {
+    const stored = await this.prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId: scope.userId, key: scope.key } },
+    });
+    if (!stored || stored.expiresAt <= now) {
+      return null;
+    }
+
+    if (stored.requestHash !== requestHash) {
+      throw new ConflictException('This Idempotency-Key was already used with a different request');
+    }
+
+    return { status: stored.responseStatus, body: stored.responseBody };
+  }
+
+  /**
+   * [7] IN-FLIGHT LOCK (see [2b]) — false when another request holds the key
+   *     [7a] token: unique per request. A request outliving IDEMPOTENCY_LOCK_SECONDS must not
+   *          release the lock a retry has taken since
+   */
+  async lock(scope: IdempotencyScope, token: string): Promise<boolean> {
+    const locked = await this.redis
+      .getClient()
+      .set(this.lockKey(scope), token, 'EX', this.lockSeconds, 'NX');
+    return locked === 'OK';
+  }
+
+  async unlock(scope: IdempotencyScope, token: string): Promise<void> {
+    await this.redis.getClient().eval(RELEASE_LOCK_SCRIPT, 1, this.lockKey(scope), token);
+  }
+
+  /**
+   * [8] STORE FIRST RESPONSE (upsert: replaces an expired row of the same key)
+   */
+  async saveResponse(
+    scope: IdempotencyScope,
+    requestHash: string,
+    response: StoredResponse,
+  ): Promise<void> {
+    const expiresAt = new Date(Date.now() + this.ttlHours * 60 * 60 * 1000);
+    // Same JSON the client received (Decimal → string, Date → ISO string)
+    const responseBody =
+      response.body === undefined
+        ? Prisma.DbNull
+        : (JSON.parse(JSON.stringify(response.body)) as Prisma.InputJsonValue);
+
+    const data = {
+      method: scope.method,
+      path: scope.path,
+      requestHash,
+      responseStatus: response.status,
+      responseBody,
+      expiresAt,
+    };
+    await this.prisma.idempotencyKey.upsert({
+      where: { userId_key: { userId: scope.userId, key: scope.key } },
+      create: { userId: scope.userId, key: scope.key, ...data },
+      update: { ...data, createdAt: new Date() },
+    });
+  }
+
+  /**
+   * [9] PURGE EXPIRED KEYS
+   */
+  async purgeExpired(now = new Date()): Promise<number> {
+    const { count } = await this.prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lte: now } },
+    });
+    if (count > 0) {
+      this.logger.log(`Purged ${count} expired idempotency key(s)`);
+    }
+    return count;
+  }
+
+  /**
+   * [10] HELPERS (PRIVATE)
+   */
+  private canonical(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.canonical(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, this.canonical((value as Record<string, unknown>)[key])]),
+      );
+    }
+    return value;
+  }
+
+  private lockKey(scope: IdempotencyScope): string {
+    return `idempotency:lock:${scope.userId}:${scope.key}`;
+  }
+
+  private readInt(key: string, fallback: number): number {
+    const value = parseInt(this.configService.get<string>(key, String(fallback)), 10);
+    return Number.isNaN(value) ? fallback : value;
+  }
+}
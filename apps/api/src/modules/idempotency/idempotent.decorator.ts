@@ -0,0 +1,23 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+/**
+ * @Idempotent()
+ * Accepts an optional Idempotency-Key header: retries with the same key get the first
+ * response back instead of running the handler again (see IdempotencyInterceptor)
+ *
+ * Usage:
+ * @Post('checkout')
+ * @Idempotent()
+ * async checkout(...) { ... }
+ */
+export const Idempotent = () =>
+  applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: false,
+      description: 'Unique per logical request (e.g. a UUID); reuse it on every retry',
+    }),
+  );
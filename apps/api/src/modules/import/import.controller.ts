@@ -11,8 +11,10 @@
  *     [1d] GET /catalog/import/:id/errors - Download error report as CSV
  *
  * [2] CSV FORMAT
- *     title,description,price,stock,condition,oemRefs,make,model,year,engine,city,country
- *     "Filtre huile","Description",8500,100,NEW,"OEM1;OEM2",Toyota,Corolla,2018,1.8L,Lomé,TG
+ *     title,description,price,stock,condition,oemRefs,make,model,year,engine,city,country,category,interchange
+ *     "Filtre huile","Description",8500,100,NEW,"OEM1;OEM2",Toyota,Corolla,2018,1.8L,Lomé,TG,filtre-a-huile,"Bosch:0 986 AF0 250"
+ *     category (optional): slug, French or English name of an existing category
+ *     interchange (optional): "Brand:number;..." aftermarket equivalents of the row's OEM refs
  */
 
 import {
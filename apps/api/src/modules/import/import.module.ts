@@ -10,9 +10,10 @@ import { ImportService } from './import.service';
 import { ImportController } from './import.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { MeilisearchModule } from '../meilisearch/meilisearch.module';
+import { InterchangeModule } from '../interchange/interchange.module';
 
 @Module({
-  imports: [PrismaModule, MeilisearchModule],
+  imports: [PrismaModule, MeilisearchModule, InterchangeModule],
   controllers: [ImportController],
   providers: [ImportService],
   exports: [ImportService],
@@ -5,8 +5,12 @@
  * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
  *
  * [1] CSV FORMAT EXPECTED
- *     title,description,price,stock,condition,oemRefs,make,model,year,engine,city,country
- *     "Filtre huile","Filtre universel",8500,100,NEW,"OEM1;OEM2",Toyota,Corolla,2018,1.8L,Lomé,TG
+ *     title,description,price,stock,condition,oemRefs,make,model,year,engine,city,country,category,interchange
+ *     "Filtre huile","Filtre universel",8500,100,NEW,"OEM1;OEM2",Toyota,Corolla,2018,1.8L,Lomé,TG,filtre-a-huile,"Bosch:0 986 AF0 250"
+ *     [1a] category (optional): slug, French or English name of an existing category
+ *          ("Filtre à huile", "oil filter" and "filtre-a-huile" all match); empty → category unchanged
+ *     [1b] interchange (optional): "Brand:number;Brand:number" aftermarket equivalents, linked in one
+ *          interchange group with the row's OEM refs (brand = the row's make)
  *
  * [2] PROCESSING FLOW
  *     [2a] Upload CSV → Create ImportJob (PENDING)
@@ -17,12 +21,16 @@
  *
  * [3] IDEMPOTENCY
  *     If Part with same vendorId + oemRefs exists, UPDATE instead of INSERT
+ *     (refs compared normalized: "15400-PLM-A01" and "15400PLMA01" are the same reference)
  */
 
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { SearchSyncService } from '../meilisearch/search-sync.service';
-import { ImportJobStatus, PartCondition, PartStatus } from '@prisma/client';
+import { SearchOutboxService } from '../meilisearch/search-outbox.service';
+import { toCategorySlug } from '../catalog/category-slug';
+import { normalizePartNumber, normalizePartNumbers } from '../interchange/part-number';
+import { InterchangeService, PartNumberInput } from '../interchange/interchange.service';
+import { ImportJobStatus, PartCondition, PartNumberKind, PartStatus } from '@prisma/client';
 import * as csv from 'csv-parse/sync';
 
 /**
@@ -41,6 +49,8 @@ interface CsvRow {
   engine: string;
   city?: string;
   country?: string;
+  category?: string; // Slug or name (fr/en) of an existing category
+  interchange?: string; // Bosch:0 986 AF0 250;Mann:W 610/3
 }
 
 /**
@@ -54,16 +64,22 @@ interface RowError {
   code: string;
 }
 
+/**
+ * Category lookup for a job: normalized slug/name → matching category ids
+ */
+type CategoryLookup = Map<string, string[]>;
+
 @Injectable()
 export class ImportService {
   private readonly logger = new Logger(ImportService.name);
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly searchSync: SearchSyncService,
+    private readonly searchOutbox: SearchOutboxService,
+    private readonly interchange: InterchangeService,
   ) {
     this.logger.log(
-      `ImportService initialized - Prisma: ${!!this.prisma}, SearchSync: ${!!this.searchSync}`,
+      `ImportService initialized - Prisma: ${!!this.prisma}, SearchOutbox: ${!!this.searchOutbox}`,
     );
   }
 
@@ -205,6 +221,7 @@ export class ImportService {
       let successCount = 0;
       let errorCount = 0;
       const errors: RowError[] = [];
+      const categories = await this.loadCategoryLookup();
 
       // Process each row
       for (let i = 0; i < rows.length; i++) {
@@ -212,7 +229,7 @@ export class ImportService {
         const row = rows[i];
 
         try {
-          await this.processRow(row, rowNumber, job.vendorId, errors);
+          await this.processRow(row, rowNumber, job.vendorId, categories, errors);
           successCount++;
         } catch (error: unknown) {
           errorCount++;
@@ -311,6 +328,7 @@ export class ImportService {
     row: CsvRow,
     rowNumber: number,
     vendorId: string,
+    categories: CategoryLookup,
     errors: RowError[],
   ): Promise<void> {
     // Validate required fields
@@ -365,6 +383,7 @@ export class ImportService {
       .split(';')
       .map((r) => r.trim())
       .filter(Boolean);
+    const normalizedOemRefs = normalizePartNumbers(oemRefs);
     const condition = this.parseCondition(row.condition);
 
     if (isNaN(year) || year < 1900 || year > 2100) {
@@ -378,6 +397,37 @@ export class ImportService {
       return;
     }
 
+    let categoryId: string | undefined;
+    if (row.category?.trim()) {
+      const matches = categories.get(toCategorySlug(row.category)) ?? [];
+      if (matches.length !== 1) {
+        errors.push({
+          rowNumber,
+          field: 'category',
+          value: row.category,
+          message:
+            matches.length === 0
+              ? 'Category not found (use its slug or its French/English name)'
+              : 'Category name matches several categories, use its slug',
+          code: matches.length === 0 ? 'UNKNOWN_CATEGORY' : 'AMBIGUOUS_CATEGORY',
+        });
+        return;
+      }
+      categoryId = matches[0];
+    }
+
+    const aftermarketRefs = this.parseInterchange(row.interchange);
+    if (aftermarketRefs === null) {
+      errors.push({
+        rowNumber,
+        field: 'interchange',
+        value: row.interchange,
+        message: 'Interchange must be "Brand:number" entries separated by ";"',
+        code: 'INVALID_INTERCHANGE',
+      });
+      return;
+    }
+
     // Find or create YMM hierarchy
     const engineId = await this.findOrCreateYmm(
       row.make.trim(),
@@ -390,45 +440,49 @@ export class ImportService {
     const existingPart = await this.prisma.part.findFirst({
       where: {
         vendorId,
-        oemRefs: { hasSome: oemRefs },
+        normalizedOemRefs: { hasSome: normalizedOemRefs },
       },
     });
 
     if (existingPart) {
-      // Update existing part
-      const updatedPart = await this.prisma.part.update({
-        where: { id: existingPart.id },
-        data: {
-          title: row.title.trim(),
-          description: row.description?.trim(),
-          price,
-          stock,
-          condition,
-          oemRefs,
-          city: row.city?.trim(),
-          country: row.country?.trim() || 'TG',
-        },
-      });
+      // Update existing part, its fitment and its search outbox row together
+      await this.prisma.$transaction(async (tx) => {
+        const updatedPart = await tx.part.update({
+          where: { id: existingPart.id },
+          data: {
+            title: row.title.trim(),
+            description: row.description?.trim(),
+            price,
+            stock,
+            condition,
+            oemRefs,
+            normalizedOemRefs,
+            city: row.city?.trim(),
+            country: row.country?.trim() || 'TG',
+            ...(categoryId && { categoryId }),
+          },
+        });
 
-      // Ensure fitment exists
-      await this.prisma.partFitment.upsert({
-        where: {
-          partId_engineId: {
+        // Ensure fitment exists
+        await tx.partFitment.upsert({
+          where: {
+            partId_engineId: {
+              partId: existingPart.id,
+              engineId,
+            },
+          },
+          create: {
             partId: existingPart.id,
             engineId,
           },
-        },
-        create: {
-          partId: existingPart.id,
-          engineId,
-        },
-        update: {},
-      });
+          update: {},
+        });
 
-      // Sync to search if published
-      if (updatedPart.status === PartStatus.PUBLISHED) {
-        await this.searchSync.indexPart(updatedPart.id);
-      }
+        // Re-index if published (new imports are drafts: not in the index)
+        if (updatedPart.status === PartStatus.PUBLISHED) {
+          await this.searchOutbox.enqueue(tx, [updatedPart.id]);
+        }
+      });
 
       this.logger.debug(`Row ${rowNumber}: Updated part ${existingPart.id}`);
     } else {
@@ -442,9 +496,11 @@ export class ImportService {
           condition,
           status: PartStatus.DRAFT, // New imports are drafts
           oemRefs,
+          normalizedOemRefs,
           city: row.city?.trim(),
           country: row.country?.trim() || 'TG',
           vendorId,
+          categoryId,
           fitments: {
             create: [{ engineId }],
           },
@@ -453,11 +509,71 @@ export class ImportService {
 
       this.logger.debug(`Row ${rowNumber}: Created part ${newPart.id}`);
     }
+
+    // Cross-reference: the row's OEM refs (brand = make) ↔ its aftermarket equivalents
+    if (aftermarketRefs.length > 0) {
+      await this.interchange.link([
+        ...oemRefs
+          .filter((number) => normalizePartNumber(number))
+          .map((number) => ({ brand: row.make.trim(), number, kind: PartNumberKind.OEM })),
+        ...aftermarketRefs,
+      ]);
+    }
+  }
+
+  /**
+   * [9a] PARSE INTERCHANGE COLUMN
+   *      "Bosch:0 986 AF0 250;Mann:W 610/3" → aftermarket numbers; empty → []; malformed → null
+   */
+  private parseInterchange(value?: string): PartNumberInput[] | null {
+    const entries = (value ?? '')
+      .split(';')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    const numbers: PartNumberInput[] = [];
+    for (const entry of entries) {
+      const separator = entry.indexOf(':');
+      const brand = entry.slice(0, separator).trim();
+      const number = entry.slice(separator + 1).trim();
+      if (separator < 0 || !brand || !normalizePartNumber(number)) {
+        return null;
+      }
+      numbers.push({ brand, number, kind: PartNumberKind.AFTERMARKET });
+    }
+    return numbers;
+  }
+
+  /**
+   * [9b] CATEGORY LOOKUP (loaded once per job)
+   *      A slug always wins over a name: "filtres" never becomes ambiguous because of a name
+   */
+  private async loadCategoryLookup(): Promise<CategoryLookup> {
+    const categories = await this.prisma.category.findMany({
+      select: { id: true, slug: true, nameFr: true, nameEn: true },
+    });
+
+    const bySlug = new Map(categories.map((category) => [category.slug, category.id]));
+    const lookup: CategoryLookup = new Map();
+    for (const category of categories) {
+      for (const key of [toCategorySlug(category.nameFr), toCategorySlug(category.nameEn)]) {
+        if (!key || bySlug.has(key)) continue;
+        const ids = lookup.get(key) ?? [];
+        if (!ids.includes(category.id)) ids.push(category.id);
+        lookup.set(key, ids);
+      }
+    }
+    for (const [slug, id] of bySlug) {
+      lookup.set(slug, [id]);
+    }
+
+    return lookup;
   }
 
   /**
    * [10] FIND OR CREATE YMM HIERARCHY
    *      Creates Make → Model → Year → Engine if not exists
+   *      Names match without case ("TOYOTA" reuses "Toyota") so imports do not create duplicates
    */
   private async findOrCreateYmm(
     makeName: string,
@@ -466,8 +582,9 @@ export class ImportService {
     engineCode: string,
   ): Promise<string> {
     // Find or create Make
-    let make = await this.prisma.vehicleMake.findUnique({
-      where: { name: makeName },
+    let make = await this.prisma.vehicleMake.findFirst({
+      where: { name: { equals: makeName, mode: 'insensitive' } },
+      orderBy: { createdAt: 'asc' },
     });
     if (!make) {
       make = await this.prisma.vehicleMake.create({
@@ -476,8 +593,9 @@ export class ImportService {
     }
 
     // Find or create Model
-    let model = await this.prisma.vehicleModel.findUnique({
-      where: { makeId_name: { makeId: make.id, name: modelName } },
+    let model = await this.prisma.vehicleModel.findFirst({
+      where: { makeId: make.id, name: { equals: modelName, mode: 'insensitive' } },
+      orderBy: { createdAt: 'asc' },
     });
     if (!model) {
       model = await this.prisma.vehicleModel.create({
@@ -496,8 +614,9 @@ export class ImportService {
     }
 
     // Find or create Engine
-    let engine = await this.prisma.engineSpec.findUnique({
-      where: { yearId_code: { yearId: vehicleYear.id, code: engineCode } },
+    let engine = await this.prisma.engineSpec.findFirst({
+      where: { yearId: vehicleYear.id, code: { equals: engineCode, mode: 'insensitive' } },
+      orderBy: { createdAt: 'asc' },
     });
     if (!engine) {
       engine = await this.prisma.engineSpec.create({
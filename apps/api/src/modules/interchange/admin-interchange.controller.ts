@@ -0,0 +1,87 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        ADMIN INTERCHANGE CONTROLLER — OEM / Aftermarket Cross-Reference            ║
+ * ║  Handles: Create / list / edit / delete interchange groups and their part numbers                 ║
+ * ║  Routes: /v1/admin/interchange/* (ADMIN only)                                                     ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET    /groups?number=&brand=    → groups holding a matching number (any spelling)
+ *     [1b] POST   /groups                   → { note?, numbers[] } → group (existing groups merged in)
+ *     [1c] PATCH  /groups/:id               → { note }
+ *     [1d] POST   /groups/:id/numbers       → { numbers[] } → numbers (and their groups) join the group
+ *     [1e] DELETE /groups/:id, /numbers/:id → a group left with one number is deleted
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { InterchangeService } from './interchange.service';
+import {
+  AddPartNumbersDto,
+  CreateInterchangeGroupDto,
+  ListInterchangeGroupsDto,
+  UpdateInterchangeGroupDto,
+} from './dto/interchange.dto';
+
+@Controller('admin/interchange')
+@ApiTags('admin-interchange')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AdminInterchangeController {
+  constructor(private readonly interchangeService: InterchangeService) {}
+
+  @Get('groups')
+  @Roles('ADMIN')
+  async listGroups(@Query() query: ListInterchangeGroupsDto) {
+    return this.interchangeService.listGroups(query);
+  }
+
+  @Get('groups/:id')
+  @Roles('ADMIN')
+  async getGroup(@Param('id') id: string) {
+    return this.interchangeService.getGroup(id);
+  }
+
+  @Post('groups')
+  @Roles('ADMIN')
+  async createGroup(@Body() dto: CreateInterchangeGroupDto) {
+    return this.interchangeService.link(dto.numbers, { note: dto.note });
+  }
+
+  @Patch('groups/:id')
+  @Roles('ADMIN')
+  async updateGroup(@Param('id') id: string, @Body() dto: UpdateInterchangeGroupDto) {
+    return this.interchangeService.updateGroup(id, dto.note);
+  }
+
+  @Delete('groups/:id')
+  @Roles('ADMIN')
+  async deleteGroup(@Param('id') id: string) {
+    return this.interchangeService.deleteGroup(id);
+  }
+
+  @Post('groups/:id/numbers')
+  @Roles('ADMIN')
+  async addNumbers(@Param('id') id: string, @Body() dto: AddPartNumbersDto) {
+    return this.interchangeService.link(dto.numbers, { groupId: id });
+  }
+
+  @Delete('numbers/:id')
+  @Roles('ADMIN')
+  async removeNumber(@Param('id') id: string) {
+    return this.interchangeService.removeNumber(id);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * [1] INTERCHANGE DTOs
+ *     A group links part numbers that fit the same way: Honda 15400-PLM-A01 ↔ Bosch 0 986 AF0 250
+ *     Numbers are matched normalized ("15400PLMA01") and per brand (without case)
+ */
+
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { PartNumberKind } from '@prisma/client';
+
+export class PartNumberDto {
+  // [2] NUMBER: brand + number as printed on the part / in the catalogue
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  brand!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  number!: string;
+
+  @IsOptional()
+  @IsEnum(PartNumberKind)
+  kind?: PartNumberKind;
+}
+
+export class CreateInterchangeGroupDto {
+  // [3] GROUP: numbers already in other groups merge those groups into this one
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  note?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => PartNumberDto)
+  numbers!: PartNumberDto[];
+}
+
+export class UpdateInterchangeGroupDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  note?: string;
+}
+
+export class AddPartNumbersDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => PartNumberDto)
+  numbers!: PartNumberDto[];
+}
+
+export class ListInterchangeGroupsDto {
+  // [4] ADMIN LIST: filter on a number (any spelling) and/or a brand
+  @IsOptional()
+  @IsString()
+  number?: string;
+
+  @IsOptional()
+  @IsString()
+  brand?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
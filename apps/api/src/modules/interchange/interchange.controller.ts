@@ -0,0 +1,26 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        INTERCHANGE CONTROLLER — Part Number Cross-Reference Lookup                 ║
+ * ║  Handles: "Which numbers replace 15400-PLM-A01?" (public)                                        ║
+ * ║  Routes: /v1/interchange/*                                                                        ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET /:number → { query, normalized, numbers: [{ brand, number, kind }] } (OEM first)
+ *          Unknown number → empty list; no letter or digit → 400
+ */
+
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { InterchangeService } from './interchange.service';
+
+@Controller('interchange')
+@ApiTags('interchange')
+export class InterchangeController {
+  constructor(private readonly interchangeService: InterchangeService) {}
+
+  @Get(':number')
+  async lookup(@Param('number') number: string) {
+    return { data: await this.interchangeService.lookup(number) };
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        INTERCHANGE MODULE — OEM / Aftermarket Part Number Cross-Reference          ║
+ * ║  Provides: Interchange groups, admin management, public lookup, search expansion                 ║
+ * ║  Dependencies: PrismaModule                                                                       ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODULE OVERVIEW
+ *     [1a] Controllers: InterchangeController (/interchange), AdminInterchangeController (/admin/interchange)
+ *     [1b] Exports: InterchangeService (PartsModule: search expansion, ImportModule: CSV interchange column)
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { InterchangeService } from './interchange.service';
+import { InterchangeController } from './interchange.controller';
+import { AdminInterchangeController } from './admin-interchange.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [InterchangeController, AdminInterchangeController],
+  providers: [InterchangeService],
+  exports: [InterchangeService],
+})
+export class InterchangeModule {}
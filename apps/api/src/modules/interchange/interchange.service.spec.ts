@@ -0,0 +1,254 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              INTERCHANGE SERVICE TESTS — Normalization, Group Linking, Search Expansion           ║
+ * ║  Tests: Part number normalization, create / merge groups, brand spelling, expand, remove number   ║
+ * ║  Focus: "15400-PLM-A01", "15400PLMA01" and Bosch "0 986 AF0 250" all find the same parts          ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { InterchangeService } from './interchange.service';
+import { looksLikePartNumber, normalizePartNumber, normalizePartNumbers } from './part-number';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('InterchangeService', () => {
+  let service: InterchangeService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+
+  const at = (day: number) => new Date(`2026-01-0${day}T00:00:00Z`);
+
+  const createPrismaMock = () => ({
+    interchangeGroup: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'group-1', note: null, numbers: [] }),
+      findMany: jest.fn().mockResolvedValue([]),
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn().mockResolvedValue({ id: 'group-new', note: null, createdAt: at(9) }),
+      update: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    partNumber: {
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  });
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+    mockPrisma.$transaction.mockImplementation(
+      (arg: ((client: typeof mockPrisma) => unknown) | Promise<unknown>[]) =>
+        typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [InterchangeService, { provide: PrismaService, useValue: mockPrisma }],
+    }).compile();
+
+    service = module.get<InterchangeService>(InterchangeService);
+  });
+
+  describe('part numbers', () => {
+    it('normalizes case, spaces, dashes and dots', () => {
+      expect(normalizePartNumber('15400-PLM-A01')).toBe('15400PLMA01');
+      expect(normalizePartNumber(' 15400 plm a01 ')).toBe('15400PLMA01');
+      expect(normalizePartNumber('0 986.AF0-250')).toBe('0986AF0250');
+      expect(normalizePartNumbers(['15400-PLM-A01', '15400PLMA01', '--'])).toEqual(['15400PLMA01']);
+    });
+
+    it('recognizes queries that look like a part number', () => {
+      expect(looksLikePartNumber('0 986 AF0 250')).toBe(true);
+      expect(looksLikePartNumber('W 610/3')).toBe(true);
+      expect(looksLikePartNumber('A-12')).toBe(false); // 3 significant characters
+      expect(looksLikePartNumber('filtre huile')).toBe(false);
+      expect(looksLikePartNumber(undefined)).toBe(false);
+    });
+  });
+
+  describe('link', () => {
+    it('creates a group with normalized numbers (aftermarket by default)', async () => {
+      await service.link(
+        [
+          { brand: 'Honda', number: '15400-PLM-A01', kind: 'OEM' },
+          { brand: ' Bosch ', number: '0 986 AF0 250' },
+        ],
+        { note: 'Filtre à huile Civic' },
+      );
+
+      expect(mockPrisma.interchangeGroup.create).toHaveBeenCalledWith({
+        data: { note: 'Filtre à huile Civic' },
+        select: { id: true, note: true, createdAt: true },
+      });
+      expect(mockPrisma.partNumber.create).toHaveBeenCalledWith({
+        data: {
+          brand: 'Honda',
+          number: '15400-PLM-A01',
+          normalized: '15400PLMA01',
+          kind: 'OEM',
+          groupId: 'group-new',
+        },
+      });
+      expect(mockPrisma.partNumber.create).toHaveBeenCalledWith({
+        data: {
+          brand: 'Bosch',
+          number: '0 986 AF0 250',
+          normalized: '0986AF0250',
+          kind: 'AFTERMARKET',
+          groupId: 'group-new',
+        },
+      });
+    });
+
+    it('merges the groups already holding the numbers into the oldest one', async () => {
+      mockPrisma.partNumber.findMany
+        .mockResolvedValueOnce([
+          {
+            brand: 'Honda',
+            normalized: '15400PLMA01',
+            group: { id: 'group-2', note: null, createdAt: at(2) },
+          },
+          {
+            brand: 'BOSCH',
+            normalized: '0986AF0250',
+            group: { id: 'group-1', note: 'Civic', createdAt: at(1) },
+          },
+          // Same normalized number under another brand: a different reference
+          {
+            brand: 'Mann',
+            normalized: '0986AF0250',
+            group: { id: 'group-3', note: null, createdAt: at(1) },
+          },
+        ])
+        .mockResolvedValueOnce([{ brand: 'BOSCH' }]);
+
+      await service.link([
+        { brand: 'Honda', number: '15400PLMA01', kind: 'OEM' },
+        { brand: 'bosch', number: '0986-AF0-250' },
+        { brand: 'Bosch', number: 'F 026 407 210' },
+      ]);
+
+      expect(mockPrisma.interchangeGroup.create).not.toHaveBeenCalled();
+      expect(mockPrisma.partNumber.updateMany).toHaveBeenCalledWith({
+        where: { groupId: { in: ['group-2'] } },
+        data: { groupId: 'group-1' },
+      });
+      expect(mockPrisma.interchangeGroup.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['group-2'] } },
+      });
+      // Only the unknown number is created, spelled like the existing brand
+      expect(mockPrisma.partNumber.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.partNumber.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          brand: 'BOSCH',
+          normalized: 'F026407210',
+          groupId: 'group-1',
+        }),
+      });
+    });
+
+    it('adds to the given group and 404s on an unknown one', async () => {
+      await service.link([{ brand: 'Mann', number: 'W 610/3' }], { groupId: 'group-1' });
+      expect(mockPrisma.partNumber.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ normalized: 'W6103', groupId: 'group-1' }),
+      });
+
+      mockPrisma.interchangeGroup.findUnique.mockResolvedValueOnce(null);
+      await expect(
+        service.link([{ brand: 'Mann', number: 'W 610/3' }], { groupId: 'nope' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('retries once when a concurrent link created the same number first', async () => {
+      const duplicate = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      });
+      mockPrisma.partNumber.create.mockRejectedValueOnce(duplicate);
+      mockPrisma.partNumber.findMany
+        .mockResolvedValueOnce([]) // first try: nothing known yet
+        .mockResolvedValueOnce([]) // brands
+        .mockResolvedValueOnce([
+          {
+            brand: 'Mann',
+            normalized: 'W6103',
+            group: { id: 'group-1', note: null, createdAt: at(1) },
+          },
+        ]); // retry: the other link's number
+
+      await service.link([{ brand: 'Mann', number: 'W 610/3' }]);
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.partNumber.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.interchangeGroup.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'group-1' } }),
+      );
+
+      mockPrisma.partNumber.create.mockRejectedValue(duplicate);
+      await expect(service.link([{ brand: 'Bosch', number: '0 986 AF0 250' }])).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('rejects a number without letters or digits', async () => {
+      await expect(service.link([{ brand: 'Bosch', number: ' - ' }])).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expand', () => {
+    it('returns every number of the groups holding the query, the query first', async () => {
+      mockPrisma.partNumber.findMany
+        .mockResolvedValueOnce([{ groupId: 'group-1' }])
+        .mockResolvedValueOnce([
+          { normalized: '0986AF0250' },
+          { normalized: '15400PLMA01' },
+          { normalized: 'W6103' },
+        ]);
+
+      await expect(service.expand('15400-plm-a01')).resolves.toEqual([
+        '15400PLMA01',
+        '0986AF0250',
+        'W6103',
+      ]);
+      expect(mockPrisma.partNumber.findMany).toHaveBeenNthCalledWith(1, {
+        where: { normalized: '15400PLMA01' },
+        select: { groupId: true },
+        distinct: ['groupId'],
+      });
+    });
+
+    it('returns the normalized query alone when no group holds it', async () => {
+      await expect(service.expand('15400 PLM A01')).resolves.toEqual(['15400PLMA01']);
+    });
+  });
+
+  describe('removeNumber', () => {
+    it('deletes the group once it links nothing', async () => {
+      mockPrisma.partNumber.findUnique.mockResolvedValue({ id: 'pn-1', groupId: 'group-1' });
+      mockPrisma.partNumber.count.mockResolvedValue(1);
+
+      await expect(service.removeNumber('pn-1')).resolves.toEqual({
+        success: true,
+        id: 'pn-1',
+        groupDeleted: true,
+      });
+      expect(mockPrisma.interchangeGroup.delete).toHaveBeenCalledWith({ where: { id: 'group-1' } });
+    });
+
+    it('keeps a group that still links two numbers', async () => {
+      mockPrisma.partNumber.findUnique.mockResolvedValue({ id: 'pn-1', groupId: 'group-1' });
+      mockPrisma.partNumber.count.mockResolvedValue(2);
+
+      await expect(service.removeNumber('pn-1')).resolves.toMatchObject({ groupDeleted: false });
+      expect(mockPrisma.interchangeGroup.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        INTERCHANGE SERVICE — OEM / Aftermarket Cross-Reference                     ║
+ * ║  Implements: Interchange groups of part numbers, admin management, search expansion               ║
+ * ║  Used by: AdminInterchangeController, InterchangeController, ImportService, PartsController       ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODEL
+ *     [1a] A PartNumber is brand + number, stored as printed and normalized ("0 986 AF0 250" → "0986AF0250")
+ *     [1b] An InterchangeGroup holds the numbers of one interchangeable part (OEM and aftermarket)
+ *     [1c] Brands match without case: "BOSCH" reuses the existing "Bosch" spelling
+ *
+ * [2] LINK (admin and CSV import)
+ *     Numbers already in a group pull that group in: every group touched is merged into one
+ *     (interchange is transitive — A ↔ B and B ↔ C means A ↔ C)
+ *
+ * [3] SEARCH EXPANSION
+ *     A searched number → the normalized numbers of every group holding it (any brand),
+ *     matched against Part.normalizedOemRefs. Parts are never re-indexed when groups change.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PartNumberKind, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { normalizePartNumber, normalizePartNumbers } from './part-number';
+
+export interface PartNumberInput {
+  brand: string;
+  number: string;
+  kind?: PartNumberKind;
+}
+
+interface NormalizedPartNumber {
+  brand: string;
+  number: string;
+  normalized: string;
+  kind: PartNumberKind;
+}
+
+const GROUP_INCLUDE = {
+  numbers: {
+    select: { id: true, brand: true, number: true, normalized: true, kind: true },
+    orderBy: [{ kind: 'asc' }, { brand: 'asc' }],
+  },
+} satisfies Prisma.InterchangeGroupInclude;
+
+@Injectable()
+export class InterchangeService {
+  private readonly logger = new Logger(InterchangeService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * [4] ADMIN LIST / DETAIL
+   */
+  async listGroups(filters: { number?: string; brand?: string; page?: number; limit?: number }) {
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? 20;
+    const normalized = filters.number ? normalizePartNumber(filters.number) : '';
+    const brand = filters.brand?.trim();
+
+    const where: Prisma.InterchangeGroupWhereInput =
+      normalized || brand
+        ? {
+            numbers: {
+              some: {
+                ...(normalized && { normalized: { startsWith: normalized } }),
+                ...(brand && { brand: { equals: brand, mode: 'insensitive' } }),
+              },
+            },
+          }
+        : {};
+
+    const [groups, total] = await this.prisma.$transaction([
+      this.prisma.interchangeGroup.findMany({
+        where,
+        include: GROUP_INCLUDE,
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.interchangeGroup.count({ where }),
+    ]);
+
+    return { data: groups, meta: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+  }
+
+  async getGroup(id: string) {
+    const group = await this.prisma.interchangeGroup.findUnique({
+      where: { id },
+      include: GROUP_INCLUDE,
+    });
+    if (!group) {
+      throw new NotFoundException('Interchange group not found');
+    }
+    return group;
+  }
+
+  /**
+   * [5] LINK NUMBERS (create a group, or add to / merge existing ones)
+   *     [5a] groupId given: the numbers join that group
+   *     [5b] Otherwise: the oldest group already holding one of the numbers, else a new group
+   *     [5e] Two links creating the same brand + number at once (admin and CSV import): the second
+   *          create hits the unique number → retried once, it then finds the number and joins its
+   *          group; still conflicting → 409
+   */
+  async link(numbers: PartNumberInput[], options: { note?: string; groupId?: string } = {}) {
+    const entries = this.normalizeInputs(numbers);
+
+    let groupId: string;
+    try {
+      groupId = await this.linkEntries(entries, options);
+    } catch (error) {
+      if (!this.isUniqueViolation(error)) {
+        throw error;
+      }
+      try {
+        groupId = await this.linkEntries(entries, options);
+      } catch (retryError) {
+        if (this.isUniqueViolation(retryError)) {
+          throw new ConflictException('Part numbers were linked concurrently, please retry');
+        }
+        throw retryError;
+      }
+    }
+
+    return this.getGroup(groupId);
+  }
+
+  private linkEntries(
+    entries: NormalizedPartNumber[],
+    options: { note?: string; groupId?: string },
+  ): Promise<string> {
+    return this.prisma.$transaction(async (tx) => {
+      const existing = await tx.partNumber.findMany({
+        where: { normalized: { in: [...new Set(entries.map((entry) => entry.normalized))] } },
+        include: { group: { select: { id: true, note: true, createdAt: true } } },
+      });
+
+      let target = options.groupId
+        ? await tx.interchangeGroup.findUnique({
+            where: { id: options.groupId },
+            select: { id: true, note: true, createdAt: true },
+          })
+        : null;
+      if (options.groupId && !target) {
+        throw new NotFoundException('Interchange group not found');
+      }
+
+      // Same normalized number under another brand is a different reference: only brand + number match
+      const matched = existing.filter((row) =>
+        entries.some(
+          (entry) =>
+            entry.normalized === row.normalized &&
+            entry.brand.toLowerCase() === row.brand.toLowerCase(),
+        ),
+      );
+      const groups = [...new Map(matched.map((row) => [row.group.id, row.group])).values()].sort(
+        (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+      );
+
+      target ??= groups[0] ?? null;
+      if (!target) {
+        target = await tx.interchangeGroup.create({
+          data: { note: options.note?.trim() || null },
+          select: { id: true, note: true, createdAt: true },
+        });
+      }
+      const targetId = target.id;
+
+      // [5c] Merge every other group touched into the target
+      const mergedIds = groups.map((group) => group.id).filter((id) => id !== targetId);
+      if (mergedIds.length > 0) {
+        await tx.partNumber.updateMany({
+          where: { groupId: { in: mergedIds } },
+          data: { groupId: targetId },
+        });
+        await tx.interchangeGroup.deleteMany({ where: { id: { in: mergedIds } } });
+        this.logger.log(`Merged interchange groups ${mergedIds.join(', ')} into ${targetId}`);
+      }
+
+      // [5d] Create the numbers not known yet (brand spelled like an existing number of that brand)
+      const brands = await this.knownBrands(
+        tx,
+        entries.map((entry) => entry.brand),
+      );
+      const created = new Set<string>();
+      for (const entry of entries) {
+        const brand = brands.get(entry.brand.toLowerCase()) ?? entry.brand;
+        const key = `${brand.toLowerCase()}|${entry.normalized}`;
+        if (created.has(key) || matched.some((row) => this.sameNumber(row, brand, entry))) {
+          continue;
+        }
+        created.add(key);
+        await tx.partNumber.create({
+          data: {
+            brand,
+            number: entry.number,
+            normalized: entry.normalized,
+            kind: entry.kind,
+            groupId: targetId,
+          },
+        });
+      }
+
+      // updatedAt always bumped: the group comes first in the admin list; a note never overwritten
+      const note = options.note?.trim();
+      await tx.interchangeGroup.update({
+        where: { id: targetId },
+        data: { updatedAt: new Date(), ...(note && !target.note && { note }) },
+      });
+
+      return targetId;
+    });
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+  }
+
+  async updateGroup(id: string, note?: string) {
+    await this.getGroup(id);
+    await this.prisma.interchangeGroup.update({
+      where: { id },
+      data: { note: note?.trim() || null },
+    });
+    return this.getGroup(id);
+  }
+
+  async deleteGroup(id: string) {
+    await this.getGroup(id);
+    await this.prisma.interchangeGroup.delete({ where: { id } });
+    return { success: true, id };
+  }
+
+  /**
+   * [6] REMOVE A NUMBER (a group left with fewer than 2 numbers links nothing: it is deleted)
+   */
+  async removeNumber(id: string) {
+    const number = await this.prisma.partNumber.findUnique({ where: { id } });
+    if (!number) {
+      throw new NotFoundException('Part number not found');
+    }
+
+    await this.prisma.partNumber.delete({ where: { id } });
+    const remaining = await this.prisma.partNumber.count({ where: { groupId: number.groupId } });
+    if (remaining < 2) {
+      await this.prisma.interchangeGroup.delete({ where: { id: number.groupId } });
+      return { success: true, id, groupDeleted: true };
+    }
+    return { success: true, id, groupDeleted: false };
+  }
+
+  /**
+   * [7] SEARCH EXPANSION
+   *     "15400 plm a01" → ["15400PLMA01", "0986AF0250", ...]; the query itself always comes first
+   */
+  async expand(query: string): Promise<string[]> {
+    const normalized = normalizePartNumber(query);
+    if (!normalized) {
+      return [];
+    }
+
+    const groups = await this.prisma.partNumber.findMany({
+      where: { normalized },
+      select: { groupId: true },
+      distinct: ['groupId'],
+    });
+    if (groups.length === 0) {
+      return [normalized];
+    }
+
+    const numbers = await this.prisma.partNumber.findMany({
+      where: { groupId: { in: groups.map((group) => group.groupId) } },
+      select: { normalized: true },
+    });
+    return normalizePartNumbers([normalized, ...numbers.map((number) => number.normalized)]);
+  }
+
+  /**
+   * [8] PUBLIC LOOKUP: every number interchangeable with the given one, grouped by brand order
+   */
+  async lookup(query: string) {
+    const normalized = normalizePartNumber(query);
+    if (!normalized) {
+      throw new BadRequestException('Part number must contain letters or digits');
+    }
+
+    const groups = await this.prisma.interchangeGroup.findMany({
+      where: { numbers: { some: { normalized } } },
+      include: GROUP_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      query,
+      normalized,
+      numbers: groups.flatMap((group) =>
+        group.numbers.map(({ brand, number, kind }) => ({ brand, number, kind })),
+      ),
+    };
+  }
+
+  private normalizeInputs(numbers: PartNumberInput[]): NormalizedPartNumber[] {
+    return numbers.map((input) => {
+      const brand = input.brand.trim().replace(/\s+/g, ' ');
+      const number = input.number.trim();
+      const normalized = normalizePartNumber(number);
+      if (!brand || !normalized) {
+        throw new BadRequestException(
+          `Invalid part number "${input.brand} ${input.number}": brand and number are required`,
+        );
+      }
+      return { brand, number, normalized, kind: input.kind ?? PartNumberKind.AFTERMARKET };
+    });
+  }
+
+  private sameNumber(
+    row: { brand: string; normalized: string },
+    brand: string,
+    entry: { normalized: string },
+  ): boolean {
+    return row.normalized === entry.normalized && row.brand.toLowerCase() === brand.toLowerCase();
+  }
+
+  // Existing spelling of each brand, keyed lower case ("bosch" → "Bosch")
+  private async knownBrands(
+    tx: Prisma.TransactionClient,
+    brands: string[],
+  ): Promise<Map<string, string>> {
+    const rows = await tx.partNumber.findMany({
+      where: { OR: brands.map((brand) => ({ brand: { equals: brand, mode: 'insensitive' } })) },
+      select: { brand: true },
+      distinct: ['brand'],
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const known = new Map<string, string>();
+    for (const row of rows) {
+      if (!known.has(row.brand.toLowerCase())) {
+        known.set(row.brand.toLowerCase(), row.brand);
+      }
+    }
+    return known;
+  }
+}
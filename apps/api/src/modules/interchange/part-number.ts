@@ -0,0 +1,27 @@
+/**
+ * [1] PART NUMBER NORMALIZATION
+ *     "15400-PLM-A01", "15400 plm a01" → "15400PLMA01" (upper case, letters and digits only)
+ *     Used for Part.normalizedOemRefs, the interchange table and the search index
+ *     The backfill of migration 20260104090000_oem_interchange applies the same rule in SQL
+ */
+export function normalizePartNumber(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function normalizePartNumbers(values: string[]): string[] {
+  return [...new Set(values.map(normalizePartNumber).filter(Boolean))];
+}
+
+/**
+ * [2] DOES A SEARCH QUERY LOOK LIKE A PART NUMBER?
+ *     One reference with separators ("0 986 AF0 250", "15400-PLM-A01"), at least one digit,
+ *     5+ significant characters. "Corolla 2018" passes too: callers fall back to text search
+ */
+const PART_NUMBER_QUERY = /^[A-Za-z0-9][A-Za-z0-9 .\-/]*$/;
+
+export function looksLikePartNumber(query: string | undefined): query is string {
+  const value = query?.trim() ?? '';
+  return (
+    PART_NUMBER_QUERY.test(value) && /\d/.test(value) && normalizePartNumber(value).length >= 5
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * [1] INVOICE LABELS + FORMATTERS
+ *     fr / en text of the PDF documents (User.lang), amounts and dates per locale
+ */
+
+export type InvoiceLang = 'fr' | 'en';
+
+export interface InvoiceLabels {
+  invoiceTitle: string;
+  receiptTitle: string;
+  creditNoteTitle: string;
+  number: string;
+  date: string;
+  order: string;
+  invoice: string;
+  billedTo: string;
+  deliveryAddress: string;
+  pickupAtVendor: string;
+  seller: string;
+  phone: string;
+  item: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+  shipping: string;
+  subtotal: string;
+  discount: string;
+  shippingTotal: string;
+  total: string;
+  paid: string;
+  refunded: string;
+  paymentMethod: string;
+  reference: string;
+  amountReceived: string;
+  reason: string;
+  amountRefunded: string;
+  footer: string;
+}
+
+const LABELS: Record<InvoiceLang, InvoiceLabels> = {
+  fr: {
+    invoiceTitle: 'FACTURE',
+    receiptTitle: 'REÇU DE PAIEMENT',
+    creditNoteTitle: 'AVOIR',
+    number: 'N°',
+    date: 'Date',
+    order: 'Commande',
+    invoice: 'Facture',
+    billedTo: 'Facturé à',
+    deliveryAddress: 'Adresse de livraison',
+    pickupAtVendor: 'Retrait chez le vendeur',
+    seller: 'Vendeur',
+    phone: 'Tél.',
+    item: 'Article',
+    quantity: 'Qté',
+    unitPrice: 'Prix unitaire',
+    amount: 'Montant',
+    shipping: 'Livraison',
+    subtotal: 'Sous-total articles',
+    discount: 'Remise',
+    shippingTotal: 'Frais de livraison',
+    total: 'Total TTC',
+    paid: 'Payé',
+    refunded: 'Remboursé',
+    paymentMethod: 'Moyen de paiement',
+    reference: 'Référence',
+    amountReceived: 'Montant reçu',
+    reason: 'Motif',
+    amountRefunded: 'Montant remboursé',
+    footer: 'Merci pour votre achat.',
+  },
+  en: {
+    invoiceTitle: 'INVOICE',
+    receiptTitle: 'PAYMENT RECEIPT',
+    creditNoteTitle: 'CREDIT NOTE',
+    number: 'No.',
+    date: 'Date',
+    order: 'Order',
+    invoice: 'Invoice',
+    billedTo: 'Billed to',
+    deliveryAddress: 'Delivery address',
+    pickupAtVendor: 'Pickup at vendor',
+    seller: 'Seller',
+    phone: 'Phone',
+    item: 'Item',
+    quantity: 'Qty',
+    unitPrice: 'Unit price',
+    amount: 'Amount',
+    shipping: 'Shipping',
+    subtotal: 'Items subtotal',
+    discount: 'Discount',
+    shippingTotal: 'Shipping fees',
+    total: 'Total',
+    paid: 'Paid',
+    refunded: 'Refunded',
+    paymentMethod: 'Payment method',
+    reference: 'Reference',
+    amountReceived: 'Amount received',
+    reason: 'Reason',
+    amountRefunded: 'Amount refunded',
+    footer: 'Thank you for your purchase.',
+  },
+};
+
+// [2] PAYMENT METHOD NAMES (payments/dto/create-payment.dto PaymentMethod values)
+const METHOD_NAMES: Record<InvoiceLang, Record<string, string>> = {
+  fr: {
+    mobile_money: 'Mobile Money',
+    card: 'Carte bancaire',
+    bank_transfer: 'Virement bancaire',
+    cash_on_pickup: 'Espèces au retrait',
+  },
+  en: {
+    mobile_money: 'Mobile Money',
+    card: 'Card',
+    bank_transfer: 'Bank transfer',
+    cash_on_pickup: 'Cash on pickup',
+  },
+};
+
+export function resolveLang(lang?: string | null): InvoiceLang {
+  return lang === 'en' ? 'en' : 'fr';
+}
+
+export function labelsFor(lang: InvoiceLang): InvoiceLabels {
+  return LABELS[lang];
+}
+
+export function paymentMethodName(lang: InvoiceLang, method: string): string {
+  return METHOD_NAMES[lang][method.toLowerCase()] ?? method;
+}
+
+/**
+ * [3] LOCALE (fr-TG, fr-BJ... / en-GB)
+ *     Standard PDF fonts have no narrow no-break space: Intl separators become plain spaces
+ */
+function localeFor(lang: InvoiceLang, country: string): string {
+  return lang === 'fr' ? `fr-${country}` : 'en-GB';
+}
+
+export function formatAmount(
+  amount: number,
+  lang: InvoiceLang,
+  country: string,
+  currency = 'XOF',
+): string {
+  return new Intl.NumberFormat(localeFor(lang, country), { style: 'currency', currency })
+    .format(amount)
+    .replace(/[\u00a0\u202f]/g, ' ');
+}
+
+export function formatDate(date: Date, lang: InvoiceLang, country: string): string {
+  return new Intl.DateTimeFormat(localeFor(lang, country), { dateStyle: 'long' }).format(date);
+}
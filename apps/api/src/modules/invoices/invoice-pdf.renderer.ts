@@ -0,0 +1,302 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        INVOICE PDF RENDERER — Invoice, Receipt & Credit Note Layout                ║
+ * ║  Renders: Invoice / Receipt / CreditNote documents → PDF Buffer (pdfkit, A4, standard fonts)      ║
+ * ║  Pure layout: numbering, data loading and access checks live in InvoiceService                    ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] LAYOUT
+ *     [1a] Header: issuer, title, number, date, order reference
+ *     [1b] Invoice: customer + delivery address, one block per vendor (details, lines, shipping),
+ *          totals (coupon discount as its own line)
+ *     [1c] Receipt: customer, method, provider reference, amount received, invoice number
+ *     [1d] Credit note: customer, invoice number, reason, refunded lines and shipping fees, amount
+ */
+
+import { Injectable } from '@nestjs/common';
+import PDFDocument = require('pdfkit');
+import {
+  formatAmount,
+  formatDate,
+  InvoiceLang,
+  labelsFor,
+  paymentMethodName,
+} from './invoice-labels';
+
+export interface InvoiceParty {
+  name: string;
+  details: string[];
+}
+
+export interface InvoiceVendorSection {
+  vendor: InvoiceParty;
+  lines: { title: string; quantity: number; unitPrice: number; total: number }[];
+  shippingFee: number;
+}
+
+interface DocumentBase {
+  number: string;
+  issuedAt: Date;
+  lang: InvoiceLang;
+  country: string;
+  currency: string;
+  orderId: string;
+  issuer: InvoiceParty;
+  customer: InvoiceParty;
+}
+
+export interface InvoiceDocument extends DocumentBase {
+  deliveryAddress: string[] | null; // null = pickup at vendor
+  sections: InvoiceVendorSection[];
+  subtotal: number;
+  discountTotal: number;
+  shippingTotal: number;
+  total: number;
+  paid: number;
+  refunded: number;
+}
+
+export interface ReceiptDocument extends DocumentBase {
+  method: string;
+  reference: string | null;
+  amount: number;
+  invoiceNumber: string | null;
+}
+
+export interface CreditNoteDocument extends DocumentBase {
+  invoiceNumber: string | null;
+  reason: string;
+  lines: { title: string; quantity: number; amount: number }[];
+  shippingFees: number;
+  amount: number;
+}
+
+const MARGIN = 50;
+const COLUMNS = { item: 50, quantity: 310, unitPrice: 350, amount: 450, end: 545 };
+
+@Injectable()
+export class InvoicePdfRenderer {
+  /**
+   * [2] INVOICE
+   */
+  renderInvoice(invoice: InvoiceDocument): Promise<Buffer> {
+    const labels = labelsFor(invoice.lang);
+    const money = (amount: number) =>
+      formatAmount(amount, invoice.lang, invoice.country, invoice.currency);
+
+    return this.render((doc) => {
+      this.header(doc, invoice, labels.invoiceTitle);
+
+      // [2a] Customer + delivery
+      const top = doc.y;
+      const left = this.party(doc, labels.billedTo, invoice.customer, MARGIN, top);
+      const right = this.party(
+        doc,
+        labels.deliveryAddress,
+        invoice.deliveryAddress
+          ? { name: invoice.deliveryAddress[0] ?? '', details: invoice.deliveryAddress.slice(1) }
+          : { name: labels.pickupAtVendor, details: [] },
+        320,
+        top,
+      );
+      doc.y = Math.max(left, right);
+      doc.moveDown(2);
+
+      // [2b] One block per vendor
+      for (const section of invoice.sections) {
+        doc.x = MARGIN;
+        doc.font('Helvetica-Bold').fontSize(10).text(`${labels.seller} : ${section.vendor.name}`);
+        doc.font('Helvetica').fontSize(9).fillColor('#555');
+        section.vendor.details.forEach((line) => doc.text(line));
+        doc.fillColor('#000').moveDown(0.5);
+
+        this.row(doc, [labels.item, labels.quantity, labels.unitPrice, labels.amount], true);
+        for (const line of section.lines) {
+          this.row(doc, [
+            line.title,
+            String(line.quantity),
+            money(line.unitPrice),
+            money(line.total),
+          ]);
+        }
+        if (section.shippingFee > 0) {
+          this.row(doc, [labels.shipping, '', '', money(section.shippingFee)]);
+        }
+        doc.moveDown(1);
+      }
+
+      // [2c] Totals
+      this.total(doc, labels.subtotal, money(invoice.subtotal));
+      if (invoice.discountTotal > 0) {
+        this.total(doc, labels.discount, money(-invoice.discountTotal));
+      }
+      this.total(doc, labels.shippingTotal, money(invoice.shippingTotal));
+      this.total(doc, labels.total, money(invoice.total), true);
+      this.total(doc, labels.paid, money(invoice.paid));
+      if (invoice.refunded > 0) {
+        this.total(doc, labels.refunded, money(invoice.refunded));
+      }
+
+      this.footer(doc, labels.footer);
+    });
+  }
+
+  /**
+   * [3] RECEIPT
+   */
+  renderReceipt(receipt: ReceiptDocument): Promise<Buffer> {
+    const labels = labelsFor(receipt.lang);
+
+    return this.render((doc) => {
+      this.header(doc, receipt, labels.receiptTitle);
+      this.party(doc, labels.billedTo, receipt.customer, MARGIN, doc.y);
+      doc.moveDown(2);
+
+      this.total(doc, labels.paymentMethod, paymentMethodName(receipt.lang, receipt.method));
+      if (receipt.reference) {
+        this.total(doc, labels.reference, receipt.reference);
+      }
+      if (receipt.invoiceNumber) {
+        this.total(doc, labels.invoice, receipt.invoiceNumber);
+      }
+      this.total(
+        doc,
+        labels.amountReceived,
+        formatAmount(receipt.amount, receipt.lang, receipt.country, receipt.currency),
+        true,
+      );
+
+      this.footer(doc, labels.footer);
+    });
+  }
+
+  /**
+   * [4] CREDIT NOTE
+   */
+  renderCreditNote(creditNote: CreditNoteDocument): Promise<Buffer> {
+    const labels = labelsFor(creditNote.lang);
+    const money = (amount: number) =>
+      formatAmount(amount, creditNote.lang, creditNote.country, creditNote.currency);
+
+    return this.render((doc) => {
+      this.header(doc, creditNote, labels.creditNoteTitle);
+      this.party(doc, labels.billedTo, creditNote.customer, MARGIN, doc.y);
+      doc.moveDown(2);
+
+      if (creditNote.invoiceNumber) {
+        this.total(doc, labels.invoice, creditNote.invoiceNumber);
+      }
+      this.total(doc, labels.reason, creditNote.reason);
+      doc.moveDown(1);
+
+      // Money-only refund: no lines, the amount alone
+      if (creditNote.lines.length > 0 || creditNote.shippingFees > 0) {
+        this.row(doc, [labels.item, labels.quantity, '', labels.amount], true);
+        for (const line of creditNote.lines) {
+          this.row(doc, [line.title, String(line.quantity), '', money(line.amount)]);
+        }
+        if (creditNote.shippingFees > 0) {
+          this.row(doc, [labels.shipping, '', '', money(creditNote.shippingFees)]);
+        }
+        doc.moveDown(1);
+      }
+
+      this.total(doc, labels.amountRefunded, money(creditNote.amount), true);
+
+      this.footer(doc, labels.footer);
+    });
+  }
+
+  /**
+   * [5] DRAWING HELPERS (PRIVATE)
+   */
+  private render(draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: MARGIN });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      draw(doc);
+      doc.end();
+    });
+  }
+
+  private header(doc: PDFKit.PDFDocument, document: DocumentBase, title: string) {
+    const labels = labelsFor(document.lang);
+
+    doc.font('Helvetica-Bold').fontSize(16).text(document.issuer.name, MARGIN, MARGIN);
+    doc.font('Helvetica').fontSize(9).fillColor('#555');
+    document.issuer.details.forEach((line) => doc.text(line));
+    doc.fillColor('#000');
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(18)
+      .text(title, 320, MARGIN, { width: COLUMNS.end - 320, align: 'right' });
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .text(`${labels.number} ${document.number}`, { width: COLUMNS.end - 320, align: 'right' })
+      .text(`${labels.date} : ${formatDate(document.issuedAt, document.lang, document.country)}`, {
+        width: COLUMNS.end - 320,
+        align: 'right',
+      })
+      .text(`${labels.order} : ${document.orderId}`, { width: COLUMNS.end - 320, align: 'right' });
+
+    doc.moveDown(3);
+  }
+
+  private party(
+    doc: PDFKit.PDFDocument,
+    title: string,
+    party: InvoiceParty,
+    x: number,
+    y: number,
+  ): number {
+    doc.font('Helvetica-Bold').fontSize(10).text(title, x, y, { width: 225 });
+    doc.font('Helvetica').fontSize(9).text(party.name, { width: 225 });
+    party.details.forEach((line) => doc.text(line, { width: 225 }));
+    return doc.y;
+  }
+
+  private row(doc: PDFKit.PDFDocument, cells: string[], bold = false) {
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+
+    doc.text(cells[0], COLUMNS.item, y, { width: COLUMNS.quantity - COLUMNS.item - 10 });
+    const bottom = doc.y;
+    doc.text(cells[1], COLUMNS.quantity, y, {
+      width: COLUMNS.unitPrice - COLUMNS.quantity - 10,
+      align: 'right',
+    });
+    doc.text(cells[2], COLUMNS.unitPrice, y, {
+      width: COLUMNS.amount - COLUMNS.unitPrice,
+      align: 'right',
+    });
+    doc.text(cells[3], COLUMNS.amount, y, { width: COLUMNS.end - COLUMNS.amount, align: 'right' });
+
+    doc.y = Math.max(bottom, doc.y) + 4;
+  }
+
+  private total(doc: PDFKit.PDFDocument, label: string, value: string, bold = false) {
+    const y = doc.y;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 11 : 10);
+    doc.text(label, 300, y, { width: 140 });
+    doc.text(value, 440, y, { width: COLUMNS.end - 440, align: 'right' });
+    doc.moveDown(0.3);
+  }
+
+  private footer(doc: PDFKit.PDFDocument, text: string) {
+    doc
+      .font('Helvetica')
+      .fontSize(9)
+      .fillColor('#555')
+      .text(text, MARGIN, doc.page.height - MARGIN - 20, {
+        width: COLUMNS.end - MARGIN,
+        align: 'center',
+      });
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              INVOICE SERVICE TESTS — Numbering & PDF Documents                                    ║
+ * ║  Tests: Sequential numbers per country, idempotency, access checks, fr/en PDFs, credit notes      ║
+ * ║  Focus: A number is issued once and never skipped                                                 ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { InvoiceService } from './invoice.service';
+import { InvoicePdfRenderer } from './invoice-pdf.renderer';
+import { formatAmount } from './invoice-labels';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('InvoiceService', () => {
+  let service: InvoiceService;
+  let tx: ReturnType<typeof createTx>;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let renderer: InvoicePdfRenderer;
+
+  const year = new Date().getUTCFullYear();
+
+  const fullOrder = {
+    id: 'order-1',
+    userId: 'user-1',
+    total: new Prisma.Decimal(27000),
+    shippingTotal: new Prisma.Decimal(2000),
+    discountTotal: new Prisma.Decimal(0),
+    invoiceNumber: 'FA-TG-2025-000001',
+    invoiceIssuedAt: new Date('2025-12-29'),
+    user: {
+      name: 'Garage Mensah',
+      email: 'garage@example.com',
+      phoneNumber: '+22890000000',
+      lang: 'en',
+      country: 'TG',
+    },
+    items: [
+      {
+        vendorId: 'vendor-1',
+        quantity: 2,
+        unitPrice: new Prisma.Decimal(12500),
+        part: { title: 'Plaquettes de frein' },
+        vendor: { name: 'Pièces Adjo', city: 'Lomé', country: 'TG', contactPhone: null },
+      },
+    ],
+    shipments: [
+      {
+        vendorId: 'vendor-1',
+        shippingFee: new Prisma.Decimal(2000),
+        deliveryAddress: { line1: 'Rue 12', city: 'Lomé', country: 'TG' },
+      },
+    ],
+    payments: [
+      {
+        country: 'TG',
+        currency: 'XOF',
+        amount: new Prisma.Decimal(27000),
+        refundedAmount: new Prisma.Decimal(0),
+      },
+    ],
+  };
+
+  const createTx = () => ({
+    invoiceSequence: { upsert: jest.fn().mockResolvedValue({ lastNumber: 42 }) },
+    order: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+    payment: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+    refund: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+  });
+
+  const createPrismaMock = () => ({
+    order: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn().mockResolvedValue(fullOrder),
+    },
+    payment: { findUnique: jest.fn(), findFirst: jest.fn(), findUniqueOrThrow: jest.fn() },
+    refund: { findUnique: jest.fn(), findFirst: jest.fn(), findUniqueOrThrow: jest.fn() },
+    $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  });
+
+  beforeEach(async () => {
+    tx = createTx();
+    mockPrisma = createPrismaMock();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvoiceService,
+        InvoicePdfRenderer,
+        { provide: PrismaService, useValue: mockPrisma },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, fallback?: string) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<InvoiceService>(InvoiceService);
+    renderer = module.get<InvoicePdfRenderer>(InvoicePdfRenderer);
+  });
+
+  describe('issueInvoiceNumber', () => {
+    it('takes the next number of the payment country', async () => {
+      mockPrisma.order.findUnique.mockResolvedValue({
+        invoiceNumber: null,
+        payments: [{ country: 'BJ' }],
+      });
+
+      const number = await service.issueInvoiceNumber('order-1');
+
+      expect(number).toBe(`FA-BJ-${year}-000042`);
+      expect(tx.invoiceSequence.upsert).toHaveBeenCalledWith({
+        where: { kind_country_year: { kind: 'INVOICE', country: 'BJ', year } },
+        create: { kind: 'INVOICE', country: 'BJ', year, lastNumber: 1 },
+        update: { lastNumber: { increment: 1 } },
+      });
+      expect(tx.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', invoiceNumber: null },
+        data: { invoiceNumber: number, invoiceIssuedAt: expect.any(Date) },
+      });
+    });
+
+    it('returns the existing number without touching the sequence', async () => {
+      mockPrisma.order.findUnique.mockResolvedValue({
+        invoiceNumber: 'FA-TG-2025-000007',
+        payments: [{ country: 'TG' }],
+      });
+
+      await expect(service.issueInvoiceNumber('order-1')).resolves.toBe('FA-TG-2025-000007');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses unpaid orders and still invoices refunded ones', async () => {
+      mockPrisma.order.findUnique.mockResolvedValue({ invoiceNumber: null, payments: [] });
+
+      await expect(service.issueInvoiceNumber('order-1')).rejects.toThrow(BadRequestException);
+      expect(mockPrisma.order.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          select: expect.objectContaining({
+            payments: expect.objectContaining({
+              where: { status: { in: ['completed', 'refunded'] } },
+            }),
+          }),
+        }),
+      );
+    });
+
+    it('rolls back and reuses the number of a concurrent call', async () => {
+      mockPrisma.order.findUnique
+        .mockResolvedValueOnce({ invoiceNumber: null, payments: [{ country: 'TG' }] })
+        .mockResolvedValueOnce({ invoiceNumber: 'FA-TG-2025-000041', payments: [] });
+      tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.issueInvoiceNumber('order-1')).resolves.toBe('FA-TG-2025-000041');
+    });
+  });
+
+  describe('issueReceiptNumber', () => {
+    it('only numbers completed payments', async () => {
+      mockPrisma.payment.findUnique.mockResolvedValue({
+        receiptNumber: null,
+        status: 'pending',
+        country: 'TG',
+      });
+
+      await expect(service.issueReceiptNumber('pay-1')).rejects.toThrow(BadRequestException);
+    });
+
+    it('uses the receipt sequence', async () => {
+      mockPrisma.payment.findUnique.mockResolvedValue({
+        receiptNumber: null,
+        status: 'completed',
+        country: 'NE',
+      });
+
+      await expect(service.issueReceiptNumber('pay-1')).resolves.toBe(`RC-NE-${year}-000042`);
+      expect(tx.payment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'pay-1', receiptNumber: null },
+        data: { receiptNumber: `RC-NE-${year}-000042`, receiptIssuedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('credit notes', () => {
+    const refund = {
+      id: 'refund-1',
+      orderId: 'order-1',
+      reason: 'Rejected by vendor: Out of stock',
+      amount: new Prisma.Decimal(14500),
+      creditNoteIssuedAt: new Date('2026-01-10'),
+      items: [
+        {
+          quantity: 1,
+          amount: new Prisma.Decimal(12500),
+          orderItem: { part: { title: 'Plaquettes de frein' } },
+        },
+      ],
+      shipments: [{ shippingFee: new Prisma.Decimal(2000) }],
+      payment: { country: 'BJ', currency: 'XOF' },
+      order: { invoiceNumber: 'FA-BJ-2026-000004', user: fullOrder.user },
+    };
+
+    it('numbers completed refunds in the credit note sequence of the payment country', async () => {
+      mockPrisma.refund.findUnique.mockResolvedValue({
+        creditNoteNumber: null,
+        status: 'COMPLETED',
+        payment: { country: 'BJ' },
+      });
+
+      await expect(service.issueCreditNoteNumber('refund-1')).resolves.toBe(`AV-BJ-${year}-000042`);
+      expect(tx.refund.updateMany).toHaveBeenCalledWith({
+        where: { id: 'refund-1', creditNoteNumber: null },
+        data: { creditNoteNumber: `AV-BJ-${year}-000042`, creditNoteIssuedAt: expect.any(Date) },
+      });
+
+      mockPrisma.refund.findUnique.mockResolvedValue({
+        creditNoteNumber: null,
+        status: 'FAILED',
+        payment: { country: 'BJ' },
+      });
+      await expect(service.issueCreditNoteNumber('refund-2')).rejects.toThrow(BadRequestException);
+    });
+
+    it('renders the refunded lines and shipping fees for the order owner', async () => {
+      mockPrisma.order.findUnique.mockResolvedValueOnce({ userId: 'user-1' });
+      mockPrisma.refund.findFirst.mockResolvedValue({ id: 'refund-1' });
+      mockPrisma.refund.findUnique.mockResolvedValue({
+        creditNoteNumber: 'AV-BJ-2026-000001',
+        status: 'COMPLETED',
+        payment: { country: 'BJ' },
+      });
+      mockPrisma.refund.findUniqueOrThrow.mockResolvedValue(refund);
+      const renderCreditNote = jest.spyOn(renderer, 'renderCreditNote');
+
+      const pdf = await service.getCreditNotePdf('order-1', 'refund-1', 'user-1');
+
+      expect(pdf.filename).toBe('AV-BJ-2026-000001.pdf');
+      expect(mockPrisma.refund.findFirst).toHaveBeenCalledWith({
+        where: { id: 'refund-1', orderId: 'order-1', status: 'COMPLETED' },
+        select: { id: true },
+      });
+      expect(renderCreditNote).toHaveBeenCalledWith(
+        expect.objectContaining({
+          country: 'BJ',
+          invoiceNumber: 'FA-BJ-2026-000004',
+          lines: [{ title: 'Plaquettes de frein', quantity: 1, amount: 12500 }],
+          shippingFees: 2000,
+          amount: 14500,
+        }),
+      );
+    });
+  });
+
+  describe('getInvoicePdf', () => {
+    it('renders the invoice in the customer language', async () => {
+      mockPrisma.order.findUnique
+        .mockResolvedValueOnce({ userId: 'user-1' })
+        .mockResolvedValueOnce({ invoiceNumber: 'FA-TG-2025-000001', payments: [] });
+      const renderInvoice = jest.spyOn(renderer, 'renderInvoice');
+
+      const pdf = await service.getInvoicePdf('order-1', 'user-1');
+
+      expect(pdf.filename).toBe('FA-TG-2025-000001.pdf');
+      expect(pdf.content.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(renderInvoice).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lang: 'en',
+          country: 'TG',
+          subtotal: 25000,
+          discountTotal: 0,
+          shippingTotal: 2000,
+          total: 27000,
+          deliveryAddress: ['Rue 12', 'Lomé', 'TG'],
+          sections: [
+            expect.objectContaining({
+              vendor: { name: 'Pièces Adjo', details: ['Lomé, TG'] },
+              lines: [
+                { title: 'Plaquettes de frein', quantity: 2, unitPrice: 12500, total: 25000 },
+              ],
+              shippingFee: 2000,
+            }),
+          ],
+        }),
+      );
+    });
+
+    it('hides other customers orders', async () => {
+      mockPrisma.order.findUnique.mockResolvedValueOnce({ userId: 'user-2' });
+      await expect(service.getInvoicePdf('order-1', 'user-1')).rejects.toThrow(ForbiddenException);
+
+      mockPrisma.order.findUnique.mockResolvedValueOnce(null);
+      await expect(service.getInvoicePdf('order-1', 'user-1')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('formats XOF per locale', () => {
+      expect(formatAmount(1234567, 'fr', 'TG')).toBe('1 234 567 F CFA');
+      expect(formatAmount(1234567, 'en', 'TG')).toBe('F CFA 1,234,567');
+    });
+  });
+});
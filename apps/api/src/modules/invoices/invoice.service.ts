@@ -0,0 +1,440 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                  INVOICE SERVICE — Order Invoices, Payment Receipts & Credit Notes                 ║
+ * ║  Implements: Sequential numbering per country, PDF documents, email attachments                   ║
+ * ║  Uses: InvoicePdfRenderer (layout), invoice-labels (fr/en, XOF per locale)                        ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] NUMBERING
+ *     [1a] Invoice: one per paid order → Order.invoiceNumber  (FA-{country}-{year}-000042)
+ *     [1b] Receipt: one per completed payment → Payment.receiptNumber (RC-{country}-{year}-000017)
+ *     [1c] Counter per (kind, country, year) in InvoiceSequence, incremented in the same
+ *          transaction that stamps the number: a lost race rolls back → no gaps, no duplicates
+ *     [1d] Country: routing country of the payment (TG, BJ, NE); issued once, never renumbered
+ *     [1e] Credit note: one per completed refund → Refund.creditNoteNumber (AV-{country}-{year}-000003)
+ *     [1f] A refunded payment keeps its invoice and receipt: the refund is a credit note, the
+ *          invoice is never withdrawn
+ *
+ * [2] DOCUMENTS
+ *     [2a] Built on demand from the order (items, vendors, shipping fees, payments, refunds);
+ *          credit note from the refund (lines, shipping fees returned, reason)
+ *     [2b] Language from User.lang (fr default), amounts formatted per locale
+ *     [2c] Customer: own orders only (404 missing, 403 someone else's)
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, RefundStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentStatus } from '../payments/dto/create-payment.dto';
+import { EmailAttachmentDto } from '../notifications/dto/send-email.dto';
+import { InvoiceParty, InvoicePdfRenderer, InvoiceVendorSection } from './invoice-pdf.renderer';
+import { resolveLang } from './invoice-labels';
+
+export type InvoiceKind = 'INVOICE' | 'RECEIPT' | 'CREDIT_NOTE';
+
+export interface InvoicePdf {
+  filename: string;
+  content: Buffer;
+}
+
+const NUMBER_PREFIX: Record<InvoiceKind, string> = {
+  INVOICE: 'FA',
+  RECEIPT: 'RC',
+  CREDIT_NOTE: 'AV',
+};
+
+// [1f] Payments that were captured (and possibly refunded since)
+const INVOICED_PAYMENT_STATUSES: string[] = [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED];
+
+@Injectable()
+export class InvoiceService {
+  private readonly logger = new Logger(InvoiceService.name);
+  private readonly issuer: InvoiceParty;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly renderer: InvoicePdfRenderer,
+    private readonly configService: ConfigService,
+  ) {
+    const address = this.configService.get<string>('INVOICE_ISSUER_ADDRESS', '');
+    this.issuer = {
+      name: this.configService.get<string>('INVOICE_ISSUER_NAME', 'ALOVE'),
+      details: address ? address.split('|').map((line) => line.trim()) : [],
+    };
+  }
+
+  /**
+   * [3] INVOICE PDF (customer download)
+   */
+  async getInvoicePdf(orderId: string, userId: string): Promise<InvoicePdf> {
+    await this.assertOwner(orderId, userId);
+    return this.renderInvoice(orderId);
+  }
+
+  /**
+   * [4] RECEIPT PDF (customer download)
+   */
+  async getReceiptPdf(orderId: string, paymentId: string, userId: string): Promise<InvoicePdf> {
+    await this.assertOwner(orderId, userId);
+
+    const payment = await this.prisma.payment.findFirst({
+      where: { id: paymentId, orderId },
+      select: { id: true },
+    });
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    return this.renderReceipt(paymentId);
+  }
+
+  /**
+   * [5] CREDIT NOTE PDF (customer download, completed refunds)
+   */
+  async getCreditNotePdf(orderId: string, refundId: string, userId: string): Promise<InvoicePdf> {
+    await this.assertOwner(orderId, userId);
+
+    const refund = await this.prisma.refund.findFirst({
+      where: { id: refundId, orderId, status: RefundStatus.COMPLETED },
+      select: { id: true },
+    });
+    if (!refund) {
+      throw new NotFoundException('Refund not found');
+    }
+
+    return this.renderCreditNote(refundId);
+  }
+
+  /**
+   * [6] EMAIL ATTACHMENTS (base64 for SendEmailDto)
+   *     [6a] Payment success: receipt of the payment + invoice of the order
+   *     [6b] Refund processed: credit note of the refund
+   */
+  async paymentAttachments(paymentId: string): Promise<EmailAttachmentDto[]> {
+    const { orderId } = await this.prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      select: { orderId: true },
+    });
+    // Invoice first: the receipt refers to its number
+    const invoice = await this.renderInvoice(orderId);
+    const receipt = await this.renderReceipt(paymentId);
+
+    return [invoice, receipt].map((pdf) => this.toAttachment(pdf));
+  }
+
+  async refundAttachments(refundId: string): Promise<EmailAttachmentDto[]> {
+    return [this.toAttachment(await this.renderCreditNote(refundId))];
+  }
+
+  /**
+   * [7] ISSUE NUMBERS (idempotent)
+   *     [7a] Invoice: needs a completed (or since refunded) payment on the order (→ 400 before that)
+   *     [7b] Receipt: completed (or since refunded) payments only
+   *     [7c] Credit note: completed refunds only
+   */
+  async issueInvoiceNumber(orderId: string): Promise<string> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        invoiceNumber: true,
+        payments: {
+          where: { status: { in: INVOICED_PAYMENT_STATUSES } },
+          select: { country: true },
+          orderBy: { createdAt: 'asc' },
+          take: 1,
+        },
+      },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (order.invoiceNumber) {
+      return order.invoiceNumber;
+    }
+    if (order.payments.length === 0) {
+      throw new BadRequestException('The invoice is available once the order is paid');
+    }
+
+    return this.assignNumber('INVOICE', order.payments[0].country, async (tx, number, now) => {
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, invoiceNumber: null },
+        data: { invoiceNumber: number, invoiceIssuedAt: now },
+      });
+      return count;
+    }).catch((error) => this.reloadAfterRace(error, () => this.issueInvoiceNumber(orderId)));
+  }
+
+  async issueReceiptNumber(paymentId: string): Promise<string> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: { receiptNumber: true, status: true, country: true },
+    });
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+    if (payment.receiptNumber) {
+      return payment.receiptNumber;
+    }
+    if (!INVOICED_PAYMENT_STATUSES.includes(payment.status)) {
+      throw new BadRequestException('A receipt is only issued for a completed payment');
+    }
+
+    return this.assignNumber('RECEIPT', payment.country, async (tx, number, now) => {
+      const { count } = await tx.payment.updateMany({
+        where: { id: paymentId, receiptNumber: null },
+        data: { receiptNumber: number, receiptIssuedAt: now },
+      });
+      return count;
+    }).catch((error) => this.reloadAfterRace(error, () => this.issueReceiptNumber(paymentId)));
+  }
+
+  async issueCreditNoteNumber(refundId: string): Promise<string> {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+      select: { creditNoteNumber: true, status: true, payment: { select: { country: true } } },
+    });
+    if (!refund) {
+      throw new NotFoundException('Refund not found');
+    }
+    if (refund.creditNoteNumber) {
+      return refund.creditNoteNumber;
+    }
+    if (refund.status !== RefundStatus.COMPLETED) {
+      throw new BadRequestException('A credit note is only issued for a completed refund');
+    }
+
+    return this.assignNumber('CREDIT_NOTE', refund.payment.country, async (tx, number, now) => {
+      const { count } = await tx.refund.updateMany({
+        where: { id: refundId, creditNoteNumber: null },
+        data: { creditNoteNumber: number, creditNoteIssuedAt: now },
+      });
+      return count;
+    }).catch((error) => this.reloadAfterRace(error, () => this.issueCreditNoteNumber(refundId)));
+  }
+
+  /**
+   * [8] BUILD + RENDER (PRIVATE)
+   */
+  private async renderInvoice(orderId: string): Promise<InvoicePdf> {
+    const number = await this.issueInvoiceNumber(orderId);
+    const order = await this.prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        user: true,
+        items: {
+          include: { part: { select: { title: true } }, vendor: true },
+          orderBy: { id: 'asc' },
+        },
+        shipments: true,
+        payments: {
+          where: { status: { in: INVOICED_PAYMENT_STATUSES } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+    const country = order.payments[0]?.country ?? order.user.country;
+
+    // [8a] One section per vendor, in item order
+    const sections = new Map<string, InvoiceVendorSection>();
+    for (const item of order.items) {
+      if (!sections.has(item.vendorId)) {
+        const shipment = order.shipments.find((s) => s.vendorId === item.vendorId);
+        sections.set(item.vendorId, {
+          vendor: {
+            name: item.vendor.name,
+            details: [
+              [item.vendor.city, item.vendor.country].filter(Boolean).join(', '),
+              item.vendor.contactPhone ?? '',
+            ].filter(Boolean),
+          },
+          lines: [],
+          shippingFee: shipment ? Number(shipment.shippingFee) : 0,
+        });
+      }
+      sections.get(item.vendorId)!.lines.push({
+        title: item.part.title,
+        quantity: item.quantity,
+        unitPrice: Number(item.unitPrice),
+        total: Number(item.unitPrice) * item.quantity,
+      });
+    }
+
+    const delivery = order.shipments.find((s) => s.deliveryAddress)?.deliveryAddress;
+    const pdf = await this.renderer.renderInvoice({
+      number,
+      issuedAt: order.invoiceIssuedAt ?? new Date(),
+      lang: resolveLang(order.user.lang),
+      country,
+      currency: order.payments[0]?.currency ?? 'XOF',
+      orderId: order.id,
+      issuer: this.issuer,
+      customer: this.customerParty(order.user),
+      deliveryAddress: delivery ? this.addressLines(delivery) : null,
+      sections: [...sections.values()],
+      subtotal: order.items.reduce((sum, item) => sum + Number(item.unitPrice) * item.quantity, 0),
+      discountTotal: Number(order.discountTotal),
+      shippingTotal: Number(order.shippingTotal),
+      total: Number(order.total),
+      paid: order.payments.reduce((sum, p) => sum + Number(p.amount), 0),
+      refunded: order.payments.reduce((sum, p) => sum + Number(p.refundedAmount), 0),
+    });
+
+    return { filename: `${number}.pdf`, content: pdf };
+  }
+
+  private async renderReceipt(paymentId: string): Promise<InvoicePdf> {
+    const number = await this.issueReceiptNumber(paymentId);
+    const payment = await this.prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: { order: { include: { user: true } } },
+    });
+
+    const pdf = await this.renderer.renderReceipt({
+      number,
+      issuedAt: payment.receiptIssuedAt ?? new Date(),
+      lang: resolveLang(payment.order.user.lang),
+      country: payment.country,
+      currency: payment.currency,
+      orderId: payment.orderId,
+      issuer: this.issuer,
+      customer: this.customerParty(payment.order.user),
+      method: payment.method,
+      reference: payment.externalReference,
+      amount: Number(payment.amount),
+      invoiceNumber: payment.order.invoiceNumber,
+    });
+
+    return { filename: `${number}.pdf`, content: pdf };
+  }
+
+  private async renderCreditNote(refundId: string): Promise<InvoicePdf> {
+    const number = await this.issueCreditNoteNumber(refundId);
+    const refund = await this.prisma.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: {
+        items: {
+          include: { orderItem: { include: { part: { select: { title: true } } } } },
+          orderBy: { id: 'asc' },
+        },
+        shipments: { select: { shippingFee: true } },
+        payment: { select: { country: true, currency: true } },
+        order: { include: { user: true } },
+      },
+    });
+
+    const pdf = await this.renderer.renderCreditNote({
+      number,
+      issuedAt: refund.creditNoteIssuedAt ?? new Date(),
+      lang: resolveLang(refund.order.user.lang),
+      country: refund.payment.country,
+      currency: refund.payment.currency,
+      orderId: refund.orderId,
+      issuer: this.issuer,
+      customer: this.customerParty(refund.order.user),
+      invoiceNumber: refund.order.invoiceNumber,
+      reason: refund.reason,
+      lines: refund.items.map((item) => ({
+        title: item.orderItem.part.title,
+        quantity: item.quantity,
+        amount: Number(item.amount),
+      })),
+      shippingFees: refund.shipments.reduce((sum, s) => sum + Number(s.shippingFee), 0),
+      amount: Number(refund.amount),
+    });
+
+    return { filename: `${number}.pdf`, content: pdf };
+  }
+
+  /**
+   * [9] NUMBER ALLOCATION (PRIVATE)
+   *     [9a] Upsert = INSERT … ON CONFLICT: the counter row stays locked until commit
+   *     [9b] stamp() returns 0 → already numbered by a concurrent call → rollback ([1c])
+   */
+  private async assignNumber(
+    kind: InvoiceKind,
+    country: string,
+    stamp: (tx: Prisma.TransactionClient, number: string, now: Date) => Promise<number>,
+  ): Promise<string> {
+    return this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const year = now.getUTCFullYear();
+      const sequence = await tx.invoiceSequence.upsert({
+        where: { kind_country_year: { kind, country, year } },
+        create: { kind, country, year, lastNumber: 1 },
+        update: { lastNumber: { increment: 1 } },
+      });
+
+      const number = `${NUMBER_PREFIX[kind]}-${country}-${year}-${String(sequence.lastNumber).padStart(6, '0')}`;
+      if ((await stamp(tx, number, now)) === 0) {
+        throw new ConflictException(`${kind} already numbered`);
+      }
+
+      this.logger.log(`${kind} ${number} issued`);
+      return number;
+    });
+  }
+
+  private toAttachment(pdf: InvoicePdf): EmailAttachmentDto {
+    return {
+      filename: pdf.filename,
+      contentType: 'application/pdf',
+      content: pdf.content.toString('base64'),
+    };
+  }
+
+  private reloadAfterRace(error: unknown, reload: () => Promise<string>): Promise<string> {
+    if (error instanceof ConflictException) {
+      return reload();
+    }
+    throw error;
+  }
+
+  private async assertOwner(orderId: string, userId: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { userId: true },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+    if (order.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this order');
+    }
+  }
+
+  private customerParty(user: {
+    name: string | null;
+    email: string | null;
+    phoneNumber: string | null;
+  }): InvoiceParty {
+    // Guest buyer: no email, the verified phone number identifies the customer
+    const name = user.name ?? user.email ?? user.phoneNumber ?? '';
+    return {
+      name,
+      details: [user.email, user.phoneNumber].filter(
+        (line): line is string => !!line && line !== name,
+      ),
+    };
+  }
+
+  // Shipment.deliveryAddress snapshot (orders.service [13e])
+  private addressLines(address: Prisma.JsonValue): string[] {
+    const a = address as Record<string, string | null>;
+    return [
+      a.label,
+      a.line1,
+      a.line2,
+      [a.postalCode, a.city].filter(Boolean).join(' '),
+      [a.state, a.country].filter(Boolean).join(', '),
+      a.phoneNumber,
+    ].filter((line): line is string => !!line);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        INVOICES MODULE — Invoices & Payment Receipts                               ║
+ * ║  Provides: Sequential invoice / receipt numbers, PDF rendering (pdfkit)                           ║
+ * ║  Dependencies: PrismaModule (database)                                                            ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODULE OVERVIEW
+ *     [1a] Providers: InvoiceService (numbering, documents), InvoicePdfRenderer (layout)
+ *     [1b] Exports: InvoiceService (OrdersModule downloads, PaymentModule email attachments)
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { InvoiceService } from './invoice.service';
+import { InvoicePdfRenderer } from './invoice-pdf.renderer';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [InvoiceService, InvoicePdfRenderer],
+  exports: [InvoiceService],
+})
+export class InvoicesModule {}
@@ -0,0 +1,158 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                ADMIN SEARCH CONTROLLER — Search Outbox Monitoring, Rules, Analytics               ║
+ * ║  Handles: Indexing lag, failed documents, retries; synonyms, stop words, typo and ranking rules   ║
+ * ║  Routes: /v1/admin/search/* (ADMIN only)                                                          ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET  /outbox       → { pending, failed, lagSeconds, oldestPendingAt, failedDocuments[] }
+ *     [1b] POST /outbox/retry → { ids? } FAILED rows back to PENDING (all when no ids)
+ *     [1c] Full rebuild (disaster recovery) stays POST /search/sync
+ *
+ * [2] SEARCH RULES (search-settings.service.ts)
+ *     [2a] GET  /settings                            → active rules (version 0 = built-in defaults)
+ *     [2b] PUT  /settings                            → { rules, note? } saved as a new version, applied
+ *     [2c] GET  /settings/versions                   → history, newest first
+ *     [2d] GET  /settings/versions/:version          → rules of one version
+ *     [2e] POST /settings/versions/:version/restore  → copy of an older version saved as the newest
+ *     [2f] GET  /settings/export                     → JSON file, accepted as is by POST /settings/import
+ *     [2g] POST /settings/import                     → same as PUT /settings
+ *     [2h] Response of a write: the version + applied (false with error if Meilisearch refused it)
+ *
+ * [3] SEARCH ANALYTICS (search-analytics.service.ts), ?from=&to= (default last 30 days)&limit=20
+ *     [3a] GET /analytics/summary        → searches, zero-result / click-through / add-to-cart rates,
+ *                                          average and p95 latency
+ *     [3b] GET /analytics/top-queries    → most searched queries
+ *     [3c] GET /analytics/zero-results   → queries that found nothing (parts to list, synonyms to add)
+ *     [3d] GET /analytics/low-ctr        → ?minSearches=20, queries whose results are rarely clicked
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { SearchOutboxService } from './search-outbox.service';
+import { SearchSettingsService } from './search-settings.service';
+import { SearchAnalyticsService } from './search-analytics.service';
+import { RetrySearchOutboxDto } from './dto/search-outbox.dto';
+import { ImportSearchSettingsDto, SaveSearchSettingsDto } from './dto/search-settings.dto';
+import { LowClickThroughQueryDto, SearchAnalyticsQueryDto } from './dto/search-analytics.dto';
+
+@Controller('admin/search')
+@ApiTags('admin-search')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AdminSearchController {
+  constructor(
+    private readonly searchOutbox: SearchOutboxService,
+    private readonly searchSettings: SearchSettingsService,
+    private readonly searchAnalytics: SearchAnalyticsService,
+  ) {}
+
+  @Get('outbox')
+  @Roles('ADMIN')
+  async getOutboxStatus() {
+    return this.searchOutbox.getStatus();
+  }
+
+  @Post('outbox/retry')
+  @HttpCode(HttpStatus.OK)
+  @Roles('ADMIN')
+  async retryFailed(@Body() dto: RetrySearchOutboxDto) {
+    return this.searchOutbox.retryFailed(dto.ids);
+  }
+
+  @Get('settings')
+  @Roles('ADMIN')
+  async getSettings() {
+    return this.searchSettings.getActive();
+  }
+
+  @Put('settings')
+  @Roles('ADMIN')
+  async saveSettings(@Body() dto: SaveSearchSettingsDto, @CurrentUser() user: CurrentUserPayload) {
+    return this.searchSettings.save(dto.rules, dto.note, user.sub);
+  }
+
+  @Get('settings/versions')
+  @Roles('ADMIN')
+  async listSettingsVersions() {
+    return this.searchSettings.listVersions();
+  }
+
+  @Get('settings/versions/:version')
+  @Roles('ADMIN')
+  async getSettingsVersion(@Param('version', ParseIntPipe) version: number) {
+    return this.searchSettings.getVersion(version);
+  }
+
+  @Post('settings/versions/:version/restore')
+  @HttpCode(HttpStatus.OK)
+  @Roles('ADMIN')
+  async restoreSettingsVersion(
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.searchSettings.restore(version, user.sub);
+  }
+
+  @Get('settings/export')
+  @Roles('ADMIN')
+  async exportSettings() {
+    return this.searchSettings.export();
+  }
+
+  @Post('settings/import')
+  @HttpCode(HttpStatus.OK)
+  @Roles('ADMIN')
+  async importSettings(
+    @Body() dto: ImportSearchSettingsDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.searchSettings.save(
+      dto.rules,
+      dto.note ?? `Imported (version ${dto.version ?? '?'})`,
+      user.sub,
+    );
+  }
+
+  @Get('analytics/summary')
+  @Roles('ADMIN')
+  async getAnalyticsSummary(@Query() query: SearchAnalyticsQueryDto) {
+    return this.searchAnalytics.getSummary(query);
+  }
+
+  @Get('analytics/top-queries')
+  @Roles('ADMIN')
+  async getTopQueries(@Query() query: SearchAnalyticsQueryDto) {
+    return this.searchAnalytics.getTopQueries(query);
+  }
+
+  @Get('analytics/zero-results')
+  @Roles('ADMIN')
+  async getZeroResultQueries(@Query() query: SearchAnalyticsQueryDto) {
+    return this.searchAnalytics.getZeroResultQueries(query);
+  }
+
+  @Get('analytics/low-ctr')
+  @Roles('ADMIN')
+  async getLowClickThroughQueries(@Query() query: LowClickThroughQueryDto) {
+    return this.searchAnalytics.getLowClickThroughQueries(query);
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              DATABASE SEARCH TESTS — PostgreSQL Fallback When Meilisearch Is Unavailable          ║
+ * ║  Tests: tsquery building, hits order and shape, aggregated facets, Meilisearch hand-over         ║
+ * ║  Focus: a Meilisearch outage no longer blanks the catalog                                         ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { DatabaseSearchService, toTsQuery } from './database-search.service';
+import { MeilisearchService } from './meilisearch.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('DatabaseSearchService', () => {
+  let service: DatabaseSearchService;
+  let meilisearch: MeilisearchService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+
+  const part = (id: string, make: string, city: string | null) => ({
+    id,
+    title: `Filtre ${id}`,
+    description: null,
+    price: '8500.00',
+    currency: 'XOF',
+    stock: 3,
+    condition: 'NEW',
+    status: 'PUBLISHED',
+    oemRefs: ['15400-PLM-A01'],
+    normalizedOemRefs: ['15400PLMA01'],
+    city,
+    country: 'TG',
+    categoryId: 'cat-oil',
+    vendor: { id: 'vendor-1', name: 'Garage AutoLomé' },
+    fitments: [
+      {
+        engine: {
+          id: `engine-${make}`,
+          code: '1.8L',
+          year: { year: 2018, model: { name: 'Corolla', make: { name: make } } },
+        },
+      },
+    ],
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  });
+
+  const createPrismaMock = () => ({
+    $queryRaw: jest.fn().mockResolvedValue([]),
+    part: { findMany: jest.fn().mockResolvedValue([]) },
+    category: {
+      findMany: jest.fn().mockResolvedValue([
+        { id: 'cat-engine', slug: 'moteur', nameFr: 'Moteur', nameEn: 'Engine', parentId: null },
+        {
+          id: 'cat-oil',
+          slug: 'filtre-a-huile',
+          nameFr: 'Filtre à huile',
+          nameEn: 'Oil filter',
+          parentId: 'cat-engine',
+        },
+      ]),
+    },
+  });
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DatabaseSearchService,
+        MeilisearchService,
+        { provide: PrismaService, useValue: mockPrisma },
+      ],
+    }).compile();
+
+    service = module.get<DatabaseSearchService>(DatabaseSearchService);
+    meilisearch = module.get<MeilisearchService>(MeilisearchService);
+  });
+
+  it('builds a prefix tsquery from the words of the query', () => {
+    expect(toTsQuery('Filtre à huile!')).toBe('filtre:* & à:* & huile:*');
+    expect(toTsQuery('15400-PLM-A01')).toBe('15400:* & plm:* & a01:*');
+    expect(toTsQuery(' -- ')).toBeNull();
+  });
+
+  it('returns the page hits in rank order with facets aggregated over the matches', async () => {
+    mockPrisma.$queryRaw
+      .mockResolvedValueOnce([{ id: 'part-2' }, { id: 'part-1' }]) // page
+      .mockResolvedValueOnce([{ total: 42 }]) // count
+      .mockResolvedValueOnce([
+        { facet: 'makes', value: 'Toyota', count: 30 },
+        { facet: 'makes', value: 'Honda', count: 12 },
+        { facet: 'city', value: 'Lomé', count: 20 },
+        { facet: 'city', value: 'Kara', count: 5 },
+        { facet: 'categories', value: 'cat-engine', count: 2 },
+        { facet: 'categories', value: 'cat-oil', count: 40 },
+      ]); // facets
+    mockPrisma.part.findMany.mockImplementation(({ where }: { where: { id: { in: string[] } } }) =>
+      Promise.resolve(
+        [part('part-1', 'Toyota', 'Lomé'), part('part-2', 'Honda', null)].filter((p) =>
+          where.id.in.includes(p.id),
+        ),
+      ),
+    );
+
+    const result = await service.searchParts('filtre', { make: 'toyota' }, 1, 2);
+
+    expect(result).toMatchObject({
+      engine: 'database',
+      totalHits: 42,
+      totalPages: 21,
+      isZeroResults: false,
+    });
+    expect(result.hits.map((hit) => hit.id)).toEqual(['part-2', 'part-1']);
+    expect(result.hits[0]).toMatchObject({
+      price: 8500,
+      vendorName: 'Garage AutoLomé',
+      makes: ['Honda'],
+      categories: ['moteur', 'filtre-a-huile'],
+    });
+    expect(result.facets).toMatchObject({
+      makes: { Toyota: 30, Honda: 12 },
+      city: { Lomé: 20, Kara: 5 },
+      categories: { moteur: 42, 'filtre-a-huile': 40 },
+    });
+    // Only the page is loaded as documents
+    expect(mockPrisma.part.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns nothing without querying when a VIN matched no engine', async () => {
+    const result = await service.searchParts('filtre', { engineIds: [] });
+
+    expect(result).toMatchObject({ hits: [], isZeroResults: true, engine: 'database' });
+    expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed database query as unavailable, not as zero results', async () => {
+    mockPrisma.$queryRaw.mockRejectedValue(new Error('connection refused'));
+
+    await expect(service.searchParts('filtre')).rejects.toThrow(ServiceUnavailableException);
+  });
+
+  it('serves MeilisearchService.searchParts while the index is not initialized', async () => {
+    const fallback = jest.spyOn(service, 'searchParts');
+
+    const result = await meilisearch.searchParts('batterie', { city: 'Lomé' }, 2, 10, 'price_asc');
+
+    expect(meilisearch.isAvailable()).toBe(false);
+    expect(fallback).toHaveBeenCalledWith('batterie', { city: 'Lomé' }, 2, 10, 'price_asc');
+    expect(result.engine).toBe('database');
+  });
+
+  describe('Meilisearch availability', () => {
+    let client: { health: jest.Mock; index: jest.Mock };
+    let index: { updateSettings: jest.Mock; search: jest.Mock };
+
+    beforeEach(() => {
+      index = { updateSettings: jest.fn().mockResolvedValue({}), search: jest.fn() };
+      client = {
+        health: jest.fn().mockResolvedValue({ status: 'available' }),
+        index: jest.fn(() => index),
+      };
+      (meilisearch as unknown as { client: typeof client }).client = client;
+    });
+
+    it('configures the index on a later health check when it was down at startup', async () => {
+      await expect(meilisearch.checkHealth()).resolves.toBe(true);
+
+      expect(index.updateSettings).toHaveBeenCalled();
+      expect(meilisearch.isAvailable()).toBe(true);
+    });
+
+    it('falls back to the database while the health check fails, then comes back', async () => {
+      await meilisearch.checkHealth();
+      client.health.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(meilisearch.checkHealth()).resolves.toBe(false);
+      await expect(meilisearch.searchParts('batterie')).resolves.toMatchObject({
+        engine: 'database',
+      });
+      expect(index.search).not.toHaveBeenCalled();
+
+      client.health.mockResolvedValue({ status: 'available' });
+      await expect(meilisearch.checkHealth()).resolves.toBe(true);
+    });
+
+    it('flags zero results from the total, not from the page shown', async () => {
+      await meilisearch.checkHealth();
+      index.search.mockResolvedValue({ hits: [], totalHits: 12 });
+
+      await expect(meilisearch.searchParts('batterie', {}, 5, 20)).resolves.toMatchObject({
+        totalHits: 12,
+        isZeroResults: false,
+      });
+
+      index.search.mockResolvedValue({ hits: [], totalHits: 0 });
+      await expect(meilisearch.searchParts('', { make: 'Lada' })).resolves.toMatchObject({
+        isZeroResults: true,
+      });
+    });
+
+    it('lists interchange matches first, then the other text hits, across pages', async () => {
+      await meilisearch.checkHealth();
+      index.search
+        .mockResolvedValueOnce({
+          hits: [{ id: 'number-3' }],
+          totalHits: 3,
+          facetDistribution: { makes: { Toyota: 3 } },
+        })
+        .mockResolvedValueOnce({
+          hits: [{ id: 'text-1' }],
+          estimatedTotalHits: 5,
+          facetDistribution: { makes: { Toyota: 1, Honda: 4 } },
+        });
+
+      const result = await meilisearch.searchParts(
+        '15400-PLM-A01',
+        { partNumbers: ['15400PLMA01'] },
+        2,
+        2,
+      );
+
+      expect(index.search).toHaveBeenNthCalledWith(
+        2,
+        '15400-PLM-A01',
+        expect.objectContaining({
+          filter: 'status = "PUBLISHED" AND NOT normalizedOemRefs IN ["15400PLMA01"]',
+          offset: 0,
+          limit: 1,
+        }),
+      );
+      expect(result).toMatchObject({
+        hits: [{ id: 'number-3' }, { id: 'text-1' }],
+        totalHits: 8,
+        totalPages: 4,
+        facets: { makes: { Toyota: 4, Honda: 4 } },
+      });
+    });
+
+    it('checks Meilisearch after a failed search', async () => {
+      await meilisearch.checkHealth();
+      index.search.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      client.health.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      const result = await meilisearch.searchParts('batterie');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(result.engine).toBe('database');
+      expect(meilisearch.isAvailable()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        DATABASE SEARCH SERVICE — PostgreSQL Fallback for Part Search               ║
+ * ║  Serves searchParts while Meilisearch is down: same PartSearchFilters, same PartSearchResult      ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] FULL TEXT
+ *     [1a] tsvector ('simple': no stemming, French and English titles alike) over title, description,
+ *          OEM refs (as printed and normalized) and vendor name, computed on the fly — fallback path
+ *          only, no column or index to keep in sync
+ *     [1b] Every word is a prefix: "filt huile" finds "Filtre à huile". No typo tolerance
+ *     [1c] partNumbers (interchange): parts listed under one of the numbers match too, ranked first
+ *
+ * [2] FILTERS (same meaning as the Meilisearch filter string)
+ *     [2a] make / model / year / engine (names without case) and engineIds: one fitment matching all
+ *     [2b] category: the slug's category and all its subcategories
+ *     [2c] condition, price range, vendor, country, city
+ *
+ * [3] FACETS: GROUP BY aggregates over the whole result set (no part document loaded for them)
+ */
+
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PartSearchFilters, PartSearchResult } from './meilisearch.service';
+import {
+  CategoryNode,
+  PART_DOCUMENT_INCLUDE,
+  PartWithRelations,
+  categoryPath,
+  loadCategoryNodes,
+  toPartDocument,
+} from './part-document';
+
+type FacetRow = { facet: string; value: string; count: number };
+
+// Same expression for matching and ranking (vendor name joined as v)
+const DOCUMENT_VECTOR = Prisma.sql`to_tsvector('simple',
+  coalesce(p.title, '') || ' ' || coalesce(p.description, '') || ' ' ||
+  array_to_string(p."oemRefs", ' ') || ' ' || array_to_string(p."normalizedOemRefs", ' ') || ' ' ||
+  v.name)`;
+
+@Injectable()
+export class DatabaseSearchService {
+  private readonly logger = new Logger(DatabaseSearchService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * [4] SEARCH PARTS (signature of MeilisearchService.searchParts)
+   *     Database failure → 503, never an empty result: that would blank the catalog and be logged
+   *     as a zero-result search
+   */
+  async searchParts(
+    query: string,
+    filters: PartSearchFilters = {},
+    page: number = 1,
+    hitsPerPage: number = 20,
+    sort?: string,
+  ): Promise<PartSearchResult> {
+    const startTime = Date.now();
+    const empty: PartSearchResult = {
+      hits: [],
+      query,
+      processingTimeMs: 0,
+      totalHits: 0,
+      page,
+      hitsPerPage,
+      totalPages: 0,
+      isZeroResults: true,
+      engine: 'database',
+    };
+
+    // VIN matching no engine of the catalog: nothing fits
+    if (filters.engineIds?.length === 0) {
+      return empty;
+    }
+
+    const tsQuery = toTsQuery(query);
+    const partNumbers = filters.partNumbers?.length
+      ? Prisma.sql`${filters.partNumbers}::text[]`
+      : null;
+    const where = this.whereClause(tsQuery, partNumbers, filters);
+    const from = Prisma.sql`FROM "Part" p JOIN "Vendor" v ON v.id = p."vendorId" WHERE ${where}`;
+    const orderBy = this.orderBy(tsQuery, partNumbers, sort);
+
+    try {
+      const [pageRows, countRows, facetRows] = await Promise.all([
+        this.prisma.$queryRaw<Array<{ id: string }>>`
+          SELECT p.id ${from} ORDER BY ${orderBy}
+          LIMIT ${hitsPerPage} OFFSET ${(page - 1) * hitsPerPage}
+        `,
+        this.prisma.$queryRaw<Array<{ total: number }>>`SELECT COUNT(*)::int AS total ${from}`,
+        this.prisma.$queryRaw<FacetRow[]>(this.facetQuery(from)),
+      ]);
+
+      const categories = await loadCategoryNodes(this.prisma);
+      const hits = await this.loadDocuments(
+        pageRows.map((row) => row.id),
+        categories,
+      );
+      const facets = this.facets(facetRows, categories);
+
+      const totalHits = Number(countRows[0]?.total ?? 0);
+      const isZeroResults = totalHits === 0;
+      if (isZeroResults) {
+        this.logger.warn(
+          `[ZERO_RESULTS] engine=database query="${query}" filters=${JSON.stringify(filters)}`,
+        );
+      }
+
+      return {
+        hits,
+        query,
+        processingTimeMs: Date.now() - startTime,
+        totalHits,
+        page,
+        hitsPerPage,
+        totalPages: Math.ceil(totalHits / hitsPerPage),
+        facets,
+        isZeroResults,
+        engine: 'database',
+      };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Database search failed: ${message}`);
+      throw new ServiceUnavailableException('Search is temporarily unavailable');
+    }
+  }
+
+  private whereClause(
+    tsQuery: string | null,
+    partNumbers: Prisma.Sql | null,
+    filters: PartSearchFilters,
+  ): Prisma.Sql {
+    const clauses: Prisma.Sql[] = [Prisma.sql`p.status = 'PUBLISHED'`];
+
+    // [4a] Text and/or interchange numbers
+    const textMatch = tsQuery
+      ? Prisma.sql`${DOCUMENT_VECTOR} @@ to_tsquery('simple', ${tsQuery})`
+      : null;
+    const numberMatch = partNumbers ? Prisma.sql`p."normalizedOemRefs" && ${partNumbers}` : null;
+    if (textMatch && numberMatch) {
+      clauses.push(Prisma.sql`(${textMatch} OR ${numberMatch})`);
+    } else if (textMatch ?? numberMatch) {
+      clauses.push((textMatch ?? numberMatch) as Prisma.Sql);
+    }
+
+    // [4b] YMM: one fitment matching every vehicle filter
+    const fitment: Prisma.Sql[] = [];
+    if (filters.make) fitment.push(Prisma.sql`lower(ma.name) = lower(${filters.make})`);
+    if (filters.model) fitment.push(Prisma.sql`lower(mo.name) = lower(${filters.model})`);
+    if (filters.year) fitment.push(Prisma.sql`y.year = ${filters.year}`);
+    if (filters.engine) fitment.push(Prisma.sql`lower(e.code) = lower(${filters.engine})`);
+    if (filters.engineIds) fitment.push(Prisma.sql`e.id IN (${Prisma.join(filters.engineIds)})`);
+    if (fitment.length > 0) {
+      clauses.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "PartFitment" f
+        JOIN "EngineSpec" e ON e.id = f."engineId"
+        JOIN "VehicleYear" y ON y.id = e."yearId"
+        JOIN "VehicleModel" mo ON mo.id = y."modelId"
+        JOIN "VehicleMake" ma ON ma.id = mo."makeId"
+        WHERE f."partId" = p.id AND ${Prisma.join(fitment, ' AND ')}
+      )`);
+    }
+
+    // [4c] Category subtree
+    if (filters.category) {
+      clauses.push(Prisma.sql`p."categoryId" IN (
+        WITH RECURSIVE subtree AS (
+          SELECT id FROM "Category" WHERE slug = ${filters.category}
+          UNION
+          SELECT c.id FROM "Category" c JOIN subtree s ON c."parentId" = s.id
+        )
+        SELECT id FROM subtree
+      )`);
+    }
+
+    // [4d] Other filters
+    if (filters.condition) clauses.push(Prisma.sql`p.condition::text = ${filters.condition}`);
+    if (filters.vendorId) clauses.push(Prisma.sql`p."vendorId" = ${filters.vendorId}`);
+    if (filters.country) clauses.push(Prisma.sql`lower(p.country) = lower(${filters.country})`);
+    if (filters.city) clauses.push(Prisma.sql`lower(p.city) = lower(${filters.city})`);
+    if (filters.minPrice !== undefined) clauses.push(Prisma.sql`p.price >= ${filters.minPrice}`);
+    if (filters.maxPrice !== undefined) clauses.push(Prisma.sql`p.price <= ${filters.maxPrice}`);
+
+    return Prisma.join(clauses, ' AND ');
+  }
+
+  private orderBy(tsQuery: string | null, partNumbers: Prisma.Sql | null, sort?: string) {
+    switch (sort) {
+      case 'price_asc':
+        return Prisma.sql`p.price ASC, p.id`;
+      case 'price_desc':
+        return Prisma.sql`p.price DESC, p.id`;
+      case 'new':
+        return Prisma.sql`p."createdAt" DESC, p.id`;
+      case 'stock_desc':
+        return Prisma.sql`p.stock DESC, p.id`;
+    }
+
+    // Relevance: interchange matches, then text rank, then newest
+    const order: Prisma.Sql[] = [];
+    if (partNumbers) order.push(Prisma.sql`(p."normalizedOemRefs" && ${partNumbers}) DESC`);
+    if (tsQuery) {
+      order.push(Prisma.sql`ts_rank(${DOCUMENT_VECTOR}, to_tsquery('simple', ${tsQuery})) DESC`);
+    }
+    order.push(Prisma.sql`p."createdAt" DESC, p.id`);
+    return Prisma.join(order, ', ');
+  }
+
+  // Hits in the order of the ids
+  private async loadDocuments(ids: string[], categories: Map<string, CategoryNode>) {
+    if (ids.length === 0) {
+      return [];
+    }
+    const parts = (await this.prisma.part.findMany({
+      where: { id: { in: ids } },
+      include: PART_DOCUMENT_INCLUDE,
+    })) as unknown as PartWithRelations[];
+
+    const byId = new Map(parts.map((part) => [part.id, part]));
+    return ids
+      .map((id) => byId.get(id))
+      .filter((part): part is PartWithRelations => part !== undefined)
+      .map((part) => toPartDocument(part, categories));
+  }
+
+  /**
+   * [5] FACET AGGREGATES (same attributes as MeilisearchService.FACETING_ATTRIBUTES)
+   *     One row per (facet, value): parts counted once per value, whatever their fitments.
+   *     Categories counted per categoryId here, rolled up to the ancestors in facets()
+   */
+  private facetQuery(from: Prisma.Sql): Prisma.Sql {
+    return Prisma.sql`
+      WITH matched AS (
+        SELECT p.id, p."categoryId", p.condition::text AS condition, p.country, p.city ${from}
+      ),
+      fitted AS (
+        SELECT m.id, ma.name AS make, mo.name AS model, y.year::text AS year, e.code AS engine
+        FROM matched m
+        JOIN "PartFitment" f ON f."partId" = m.id
+        JOIN "EngineSpec" e ON e.id = f."engineId"
+        JOIN "VehicleYear" y ON y.id = e."yearId"
+        JOIN "VehicleModel" mo ON mo.id = y."modelId"
+        JOIN "VehicleMake" ma ON ma.id = mo."makeId"
+      )
+      SELECT 'makes' AS facet, make AS value, COUNT(DISTINCT id)::int AS count FROM fitted GROUP BY make
+      UNION ALL
+      SELECT 'models', model, COUNT(DISTINCT id)::int FROM fitted GROUP BY model
+      UNION ALL
+      SELECT 'years', year, COUNT(DISTINCT id)::int FROM fitted GROUP BY year
+      UNION ALL
+      SELECT 'engines', engine, COUNT(DISTINCT id)::int FROM fitted GROUP BY engine
+      UNION ALL
+      SELECT 'categories', "categoryId", COUNT(*)::int FROM matched
+      WHERE "categoryId" IS NOT NULL GROUP BY "categoryId"
+      UNION ALL
+      SELECT 'condition', condition, COUNT(*)::int FROM matched GROUP BY condition
+      UNION ALL
+      SELECT 'country', country, COUNT(*)::int FROM matched GROUP BY country
+      UNION ALL
+      SELECT 'city', city, COUNT(*)::int FROM matched WHERE city IS NOT NULL GROUP BY city
+    `;
+  }
+
+  private facets(
+    rows: FacetRow[],
+    categories: Map<string, CategoryNode>,
+  ): Record<string, Record<string, number>> {
+    const facets: Record<string, Record<string, number>> = {
+      makes: {},
+      models: {},
+      years: {},
+      engines: {},
+      categories: {},
+      condition: {},
+      country: {},
+      city: {},
+    };
+
+    for (const { facet, value, count } of rows) {
+      // A part counts for its category and every ancestor (document.categories is the path)
+      if (facet === 'categories') {
+        for (const category of categoryPath(value, categories)) {
+          facets.categories[category.slug] = (facets.categories[category.slug] ?? 0) + count;
+        }
+        continue;
+      }
+      facets[facet][value] = count;
+    }
+
+    return facets;
+  }
+}
+
+/**
+ * [6] QUERY → tsquery: letters and digits of each word, every word a prefix, all words required
+ *     "Filtre à huile!" → "filtre:* & à:* & huile:*"; nothing searchable → null (browse)
+ */
+export function toTsQuery(query: string): string | null {
+  const words = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(' & ') : null;
+}
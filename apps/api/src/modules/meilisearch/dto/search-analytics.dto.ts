@@ -0,0 +1,57 @@
+/**
+ * [1] SEARCH ANALYTICS DTOs
+ */
+
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Max,
+  Min,
+} from 'class-validator';
+import { SearchEventType } from '@prisma/client';
+
+export class SearchEventDto {
+  // [2] EVENT: searchId from meta.searchId of GET /parts/search, a part shown on that page
+  @IsString()
+  @Length(10, 50)
+  searchId!: string;
+
+  @IsString()
+  @Length(10, 50)
+  partId!: string;
+
+  @IsEnum(SearchEventType)
+  type!: SearchEventType;
+}
+
+export class SearchAnalyticsQueryDto {
+  // [3] PERIOD: default last 30 days
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class LowClickThroughQueryDto extends SearchAnalyticsQueryDto {
+  // [4] Queries searched fewer times are left out (a rate over 3 searches means nothing)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  minSearches?: number = 20;
+}
@@ -0,0 +1,14 @@
+/**
+ * [1] SEARCH OUTBOX DTOs
+ */
+
+import { ArrayMaxSize, IsArray, IsOptional, IsString } from 'class-validator';
+
+export class RetrySearchOutboxDto {
+  // [2] RETRY: the given FAILED rows; omitted → every FAILED row
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  ids?: string[];
+}
@@ -0,0 +1,93 @@
+/**
+ * [1] SEARCH SETTINGS DTOs
+ *     Same rules shape for saving, importing and exporting (see search-rules.ts)
+ */
+
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class TypoRulesDto {
+  // [2] TYPO TOLERANCE: word sizes allowing typos, words / attributes matched exactly
+  @IsInt()
+  @Min(1)
+  @Max(255)
+  minWordSizeForOneTypo!: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(255)
+  minWordSizeForTwoTypos!: number;
+
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  disableOnWords!: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  disableOnAttributes!: string[];
+}
+
+export class SearchRulesDto {
+  // [3] RULES: synonym groups (2+ words or phrases each), stop words, typo, ranking
+  @IsArray()
+  @ArrayMaxSize(2000)
+  @IsArray({ each: true })
+  @ArrayMinSize(2, { each: true })
+  @ArrayMaxSize(50, { each: true })
+  synonyms!: string[][]; // Words checked by searchRulesProblems (no nested "each" validation)
+
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  stopWords!: string[];
+
+  @ValidateNested()
+  @Type(() => TypoRulesDto)
+  typo!: TypoRulesDto;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  rankingRules!: string[];
+}
+
+export class SaveSearchSettingsDto {
+  @ValidateNested()
+  @Type(() => SearchRulesDto)
+  rules!: SearchRulesDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  note?: string;
+}
+
+export class ImportSearchSettingsDto extends SaveSearchSettingsDto {
+  // [4] IMPORT: a file from GET /export; format, version and exportedAt are informative only
+  @IsOptional()
+  @IsString()
+  format?: string;
+
+  @IsOptional()
+  @IsInt()
+  version?: number;
+
+  @IsOptional()
+  @IsString()
+  exportedAt?: string;
+}
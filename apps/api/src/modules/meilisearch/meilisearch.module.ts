@@ -2,6 +2,10 @@
  * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
  * ║                        MEILISEARCH MODULE — Full-Text Search Engine                                ║
  * ║  Provides: Typo-tolerant search, faceted filtering, instant results for parts catalog             ║
+ * ║  Fallback: PostgreSQL full-text search (DatabaseSearchService) while Meilisearch is unavailable   ║
+ * ║  Indexing: SearchOutboxService (rows written with each change, pushed by a background worker)     ║
+ * ║  Rules: SearchSettingsService (versioned synonyms, stop words, typo and ranking rules)            ║
+ * ║  Analytics: SearchAnalyticsService (query log, clicks / add to cart, admin reports)               ║
  * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
  */
 
@@ -9,11 +13,23 @@ import { Module, Global } from '@nestjs/common';
 import { MeilisearchService } from './meilisearch.service';
 import { SearchSyncService } from './search-sync.service';
 import { SearchController } from './search.controller';
+import { AdminSearchController } from './admin-search.controller';
+import { DatabaseSearchService } from './database-search.service';
+import { SearchOutboxService } from './search-outbox.service';
+import { SearchSettingsService } from './search-settings.service';
+import { SearchAnalyticsService } from './search-analytics.service';
 
 @Global()
 @Module({
-  controllers: [SearchController],
-  providers: [MeilisearchService, SearchSyncService],
-  exports: [MeilisearchService, SearchSyncService],
+  controllers: [SearchController, AdminSearchController],
+  providers: [
+    MeilisearchService,
+    SearchSyncService,
+    DatabaseSearchService,
+    SearchOutboxService,
+    SearchSettingsService,
+    SearchAnalyticsService,
+  ],
+  exports: [MeilisearchService, SearchSyncService, SearchOutboxService, SearchAnalyticsService],
 })
 export class MeilisearchModule {}
@@ -6,6 +6,7 @@
  *
  * [1] FEATURES
  *     [1a] Typo tolerance: "batry" finds "battery", "flitre" finds "filtre"
+ *          Synonyms, stop words, typo exceptions and ranking rules: admin-managed (search-rules.ts)
  *     [1b] Instant search: Results in <50ms (vs ~800ms Postgres LIKE)
  *     [1c] Faceted filters: Filter by make, model, year, condition, price range
  *     [1d] Relevance ranking: Best matches first
@@ -13,19 +14,45 @@
  * [2] INDEX STRUCTURE
  *     parts index contains:
  *     - id, title, description (searchable text)
- *     - oemRefs (searchable array)
+ *     - oemRefs (searchable array), normalizedOemRefs (searchable + filterable: "15400PLMA01")
  *     - price, stock, condition, status (filterable)
  *     - vendorId, vendorName, city, country (filterable)
  *     - makes, models, years, engines (filterable arrays from fitments)
  *
  * [3] SYNC STRATEGY
- *     [3a] Initial: Bulk index all published parts on startup
- *     [3b] Incremental: Update index when part created/updated/deleted
- *     [3c] Eventual consistency: ~100ms delay acceptable for search
+ *     [3a] Incremental: writes queue the part in SearchOutbox (same transaction), the outbox worker
+ *          pushes batches through applyChanges (SearchOutboxService)
+ *     [3b] Full sync only when the index is empty at startup or on admin request (disaster recovery)
+ *     [3c] Eventual consistency: a few seconds of delay acceptable for search
+ *
+ * [4] FALLBACK
+ *     Meilisearch unavailable or a failed search → DatabaseSearchService
+ *     (PostgreSQL full text, same filters and result shape). result.engine says which one answered
+ *     [4a] Availability follows real results: set by a successful init or search, a failed search
+ *          or index write pings Meilisearch and marks it unavailable if the ping fails
+ *     [4b] Every MEILISEARCH_HEALTH_INTERVAL_MS (default 30000, 0 = disabled): ping, or a new init
+ *          attempt while the index was never configured → search goes back to Meilisearch on its own
+ *     [4c] GET /health reports this state (search: ok | degraded)
  */
 
-import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
-import { MeiliSearch, Index, SearchParams, SearchResponse } from 'meilisearch';
+import { Injectable, OnModuleDestroy, OnModuleInit, Logger } from '@nestjs/common';
+import { MeiliSearch, Index, SearchParams, SearchResponse, Settings } from 'meilisearch';
+import { DatabaseSearchService } from './database-search.service';
+
+// Outbox batches and settings updates wait for Meilisearch to process their tasks, at most this long
+const TASK_TIMEOUT_MS = 30000;
+const DEFAULT_HEALTH_INTERVAL_MS = 30000;
+
+// Also the attributes allowed in search rules (typo exceptions, custom ranking rules)
+export const PART_SEARCHABLE_ATTRIBUTES = [
+  'title',
+  'description',
+  'oemRefs',
+  'normalizedOemRefs',
+  'vendorName',
+  'categoryNames',
+];
+export const PART_SORTABLE_ATTRIBUTES = ['price', 'createdAt', 'stock'];
 
 /**
  * Document structure for parts index
@@ -35,6 +62,7 @@ export interface PartDocument {
   title: string;
   description: string | null;
   oemRefs: string[];
+  normalizedOemRefs: string[]; // ["15400PLMA01"] (interchange matching)
   price: number;
   currency: string;
   stock: number;
@@ -49,6 +77,11 @@ export interface PartDocument {
   models: string[]; // ["Corolla", "Civic"]
   years: number[]; // [2018, 2019, 2020]
   engines: string[]; // ["1.8L", "2.0 TDI"]
+  engineIds: string[]; // EngineSpec ids (VIN search)
+  // Category path (denormalized: filtering on a parent finds the parts of its subcategories)
+  categoryId: string | null;
+  categories: string[]; // ["moteur", "filtres", "filtre-a-huile"]
+  categoryNames: string[]; // ["Moteur", "Engine", "Filtres", "Filters", ...]
   createdAt: number; // Unix timestamp for sorting
 }
 
@@ -60,6 +93,9 @@ export interface PartSearchFilters {
   model?: string;
   year?: number;
   engine?: string;
+  engineIds?: string[]; // Any of these engines (resolved from a VIN); empty → no results
+  partNumbers?: string[]; // Normalized numbers of the query's interchange groups (see [7f])
+  category?: string; // Category slug (matches the category and all its subcategories)
   condition?: string;
   minPrice?: number;
   maxPrice?: number;
@@ -68,6 +104,11 @@ export interface PartSearchFilters {
   city?: string;
 }
 
+/**
+ * Engine that served a search: Meilisearch, or the PostgreSQL fallback while it is unavailable
+ */
+export type SearchEngine = 'meilisearch' | 'database';
+
 /**
  * Search result with telemetry
  */
@@ -81,22 +122,29 @@ export interface PartSearchResult {
   totalPages: number;
   facets?: Record<string, Record<string, number>>;
   isZeroResults: boolean;
+  engine: SearchEngine;
 }
 
 @Injectable()
-export class MeilisearchService implements OnModuleInit {
+export class MeilisearchService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(MeilisearchService.name);
   private client: MeiliSearch;
   private partsIndex!: Index<PartDocument>;
+  private available = false;
+  private readonly healthIntervalMs: number;
+  private healthTimer?: NodeJS.Timeout;
 
   // Index configuration
   private readonly PARTS_INDEX = 'parts';
-  private readonly SEARCHABLE_ATTRIBUTES = ['title', 'description', 'oemRefs', 'vendorName'];
+  private readonly SEARCHABLE_ATTRIBUTES = PART_SEARCHABLE_ATTRIBUTES;
   private readonly FILTERABLE_ATTRIBUTES = [
     'makes',
     'models',
     'years',
     'engines',
+    'engineIds',
+    'normalizedOemRefs',
+    'categories',
     'condition',
     'status',
     'price',
@@ -106,18 +154,19 @@ export class MeilisearchService implements OnModuleInit {
     'city',
     'currency',
   ];
-  private readonly SORTABLE_ATTRIBUTES = ['price', 'createdAt', 'stock'];
+  private readonly SORTABLE_ATTRIBUTES = PART_SORTABLE_ATTRIBUTES;
   private readonly FACETING_ATTRIBUTES = [
     'makes',
     'models',
     'years',
     'engines',
+    'categories',
     'condition',
     'country',
     'city',
   ];
 
-  constructor() {
+  constructor(private readonly databaseSearch: DatabaseSearchService) {
     const host = process.env.MEILISEARCH_HOST || 'http://meilisearch:7700';
     const apiKey =
       process.env.MEILISEARCH_API_KEY || process.env.MEILI_MASTER_KEY || 'dev-master-key';
@@ -126,10 +175,13 @@ export class MeilisearchService implements OnModuleInit {
       host,
       apiKey,
     });
+
+    const interval = parseInt(process.env.MEILISEARCH_HEALTH_INTERVAL_MS ?? '', 10);
+    this.healthIntervalMs = Number.isFinite(interval) ? interval : DEFAULT_HEALTH_INTERVAL_MS;
   }
 
   /**
-   * Initialize index on module startup with retry logic
+   * Initialize index on module startup with retry logic, then start the [4b] health check
    */
   async onModuleInit(): Promise<void> {
     const maxRetries = 15;
@@ -137,34 +189,8 @@ export class MeilisearchService implements OnModuleInit {
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        // Check if Meilisearch is healthy
-        await this.client.health();
-
-        // Configure index settings
-        await this.partsIndex.updateSettings({
-          searchableAttributes: this.SEARCHABLE_ATTRIBUTES,
-          filterableAttributes: this.FILTERABLE_ATTRIBUTES,
-          sortableAttributes: this.SORTABLE_ATTRIBUTES,
-          // Typo tolerance settings
-          typoTolerance: {
-            enabled: true,
-            minWordSizeForTypos: {
-              oneTypo: 4, // Words with 4+ chars allow 1 typo
-              twoTypos: 8, // Words with 8+ chars allow 2 typos
-            },
-          },
-          // Pagination
-          pagination: {
-            maxTotalHits: 10000,
-          },
-          // Faceting for filters
-          faceting: {
-            maxValuesPerFacet: 100,
-          },
-        });
-
-        this.logger.log(`✅ Meilisearch index "${this.PARTS_INDEX}" configured`);
-        return; // Success, exit retry loop
+        await this.configureIndex();
+        break; // Success, exit retry loop
       } catch (error: unknown) {
         const message = error instanceof Error ? error.message : String(error);
 
@@ -177,10 +203,89 @@ export class MeilisearchService implements OnModuleInit {
           this.logger.error(
             `❌ Failed to initialize Meilisearch after ${maxRetries} attempts: ${message}`,
           );
-          this.logger.warn('⚠️ Search functionality will be disabled');
+          this.logger.warn('⚠️ Search will be served by the PostgreSQL fallback');
         }
       }
     }
+
+    // unref(): the timer never keeps the process alive (tests, graceful shutdown)
+    if (this.healthIntervalMs > 0) {
+      this.healthTimer = setInterval(() => void this.checkHealth(), this.healthIntervalMs);
+      this.healthTimer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+    }
+  }
+
+  /**
+   * [3b] IS MEILISEARCH SERVING SEARCHES? (health endpoint: false → search degraded)
+   */
+  isAvailable(): boolean {
+    return this.available;
+  }
+
+  /**
+   * [4a] CHECK MEILISEARCH NOW → availability after the check
+   *      Index never configured → one init attempt; otherwise a health ping. Never throws
+   */
+  async checkHealth(): Promise<boolean> {
+    try {
+      if (this.partsIndex) {
+        await this.client.health();
+        this.setAvailable(true);
+      } else {
+        await this.configureIndex();
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.setAvailable(false, message);
+    }
+    return this.available;
+  }
+
+  // Configure index settings (partsIndex only set once configured: unset = never reachable)
+  private async configureIndex(): Promise<void> {
+    // Check if Meilisearch is healthy
+    await this.client.health();
+
+    const index = this.client.index<PartDocument>(this.PARTS_INDEX);
+    await index.updateSettings({
+      searchableAttributes: this.SEARCHABLE_ATTRIBUTES,
+      filterableAttributes: this.FILTERABLE_ATTRIBUTES,
+      sortableAttributes: this.SORTABLE_ATTRIBUTES,
+      // Synonyms, stop words, typo tolerance, ranking: admin rules (SearchSettingsService)
+      // Pagination
+      pagination: {
+        maxTotalHits: 10000,
+      },
+      // Faceting for filters
+      faceting: {
+        maxValuesPerFacet: 100,
+      },
+    });
+
+    this.partsIndex = index;
+    this.logger.log(`✅ Meilisearch index "${this.PARTS_INDEX}" configured`);
+    this.setAvailable(true);
+  }
+
+  // Logged on a change only (the health check runs every 30s)
+  private setAvailable(available: boolean, reason?: string): void {
+    if (available === this.available) {
+      return;
+    }
+    this.available = available;
+    if (available) {
+      this.logger.log('✅ Meilisearch available, search served by Meilisearch again');
+    } else {
+      this.logger.warn(
+        `⚠️ Meilisearch unavailable (${reason}), search served by the PostgreSQL fallback`,
+      );
+    }
   }
 
   /**
@@ -243,13 +348,65 @@ export class MeilisearchService implements OnModuleInit {
     }
   }
 
+  /**
+   * [6b] APPLY AN OUTBOX BATCH (upserts + removals)
+   *      Waits until Meilisearch has processed the tasks and throws on any failure
+   *      (the methods above only log): the outbox keeps the rows and retries them
+   */
+  async applyChanges(documents: PartDocument[], removedIds: string[]): Promise<void> {
+    if (!this.partsIndex) {
+      throw new Error('Meilisearch not initialized');
+    }
+
+    try {
+      const tasks = [];
+      if (documents.length > 0) {
+        tasks.push(await this.partsIndex.addDocuments(documents));
+      }
+      if (removedIds.length > 0) {
+        tasks.push(await this.partsIndex.deleteDocuments(removedIds));
+      }
+
+      await this.waitForTasks(tasks.map((task) => task.taskUid));
+    } catch (error) {
+      // [4a] Rejected batch or Meilisearch down: isAvailable() tells the caller which one
+      await this.checkHealth();
+      throw error;
+    }
+  }
+
+  /**
+   * [6c] APPLY SEARCH RULES (synonyms, stop words, typo tolerance, ranking rules)
+   *      Throws when Meilisearch is unavailable or rejects them
+   */
+  async applySettings(settings: Settings): Promise<void> {
+    if (!this.partsIndex) {
+      throw new Error('Meilisearch not initialized');
+    }
+
+    const task = await this.partsIndex.updateSettings(settings);
+    await this.waitForTasks([task.taskUid]);
+  }
+
+  private async waitForTasks(taskUids: number[]): Promise<void> {
+    for (const taskUid of taskUids) {
+      const task = await this.partsIndex.waitForTask(taskUid, { timeOutMs: TASK_TIMEOUT_MS });
+      if (task.status !== 'succeeded') {
+        throw new Error(task.error?.message ?? `Meilisearch task ${taskUid} ${task.status}`);
+      }
+    }
+  }
+
   /**
    * [7] SEARCH PARTS WITH FILTERS (US-CAT-302)
    *     [7a] Typo-tolerant full-text search on title, description, OEM refs
-   *     [7b] YMM filters: make, model, year, engine
+   *     [7b] YMM filters: make, model, year, engine (or engineIds resolved from a VIN)
    *     [7c] Additional filters: condition, price range, vendor, location
    *     [7d] Pagination with page/hitsPerPage
    *     [7e] Returns facets for filter UI
+   *     [7f] partNumbers: parts listed under any of these numbers first, then the other text hits
+   *          (deduplicated; pages and totals count both)
+   *     [7g] Index unavailable or search failed → PostgreSQL fallback (engine: 'database')
    */
   async searchParts(
     query: string,
@@ -260,8 +417,13 @@ export class MeilisearchService implements OnModuleInit {
   ): Promise<PartSearchResult> {
     const startTime = Date.now();
 
-    if (!this.partsIndex) {
-      this.logger.warn('Meilisearch not initialized, returning empty search results');
+    if (!this.partsIndex || !this.available) {
+      this.logger.warn('Meilisearch unavailable, searching the database instead');
+      return this.databaseSearch.searchParts(query, filters, page, hitsPerPage, sort);
+    }
+
+    // VIN matching no engine of the catalog: nothing fits
+    if (filters.engineIds?.length === 0) {
       return {
         hits: [],
         query,
@@ -271,6 +433,7 @@ export class MeilisearchService implements OnModuleInit {
         hitsPerPage,
         totalPages: 0,
         isZeroResults: true,
+        engine: 'meilisearch',
       };
     }
 
@@ -295,6 +458,15 @@ export class MeilisearchService implements OnModuleInit {
         filterClauses.push(`engines = "${filters.engine}"`);
       }
 
+      if (filters.engineIds) {
+        filterClauses.push(`engineIds IN [${filters.engineIds.map((id) => `"${id}"`).join(', ')}]`);
+      }
+
+      // Category filter (slug of any level of the path; SearchPartsDto lets only slugs through)
+      if (filters.category) {
+        filterClauses.push(`categories = "${filters.category}"`);
+      }
+
       // Other filters
       if (filters.condition) {
         filterClauses.push(`condition = "${filters.condition}"`);
@@ -346,47 +518,109 @@ export class MeilisearchService implements OnModuleInit {
         }
       }
 
-      // Execute search
-      const response: SearchResponse<PartDocument> = await this.partsIndex.search(
-        query,
-        searchParams,
-      );
+      // Execute search (exact interchange matches first, then the other full text hits)
+      let found = filters.partNumbers?.length
+        ? await this.searchNumbersFirst(
+            query,
+            filters.partNumbers,
+            filterClauses,
+            searchParams,
+            page,
+            hitsPerPage,
+          )
+        : null;
+      if (!found) {
+        const response: SearchResponse<PartDocument> = await this.partsIndex.search(
+          query,
+          searchParams,
+        );
+        found = {
+          hits: response.hits,
+          // page / hitsPerPage → exact totalHits (estimatedTotalHits comes with offset / limit only)
+          totalHits: response.totalHits ?? 0,
+          facets: response.facetDistribution,
+        };
+      }
+      this.setAvailable(true);
 
       const processingTimeMs = Date.now() - startTime;
-      const isZeroResults = response.hits.length === 0 && query.length > 0;
+      const { hits, totalHits, facets } = found;
+      // Same rule as SearchAnalyticsService [1b]: a page past the last one is not a zero result
+      const isZeroResults = totalHits === 0;
 
-      // Log zero-results for telemetry
+      // Recorded with every search by SearchAnalyticsService (PartsController)
       if (isZeroResults) {
         this.logger.warn(`[ZERO_RESULTS] query="${query}" filters=${JSON.stringify(filters)}`);
-        // TODO: Send to analytics service
       }
 
       return {
-        hits: response.hits as PartDocument[],
+        hits,
         query,
         processingTimeMs,
-        totalHits: response.estimatedTotalHits || 0,
+        totalHits,
         page,
         hitsPerPage,
-        totalPages: Math.ceil((response.estimatedTotalHits || 0) / hitsPerPage),
-        facets: response.facetDistribution,
+        totalPages: Math.ceil(totalHits / hitsPerPage),
+        facets,
         isZeroResults,
+        engine: 'meilisearch',
       };
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
-      this.logger.error(`Search failed: ${message}`);
-      // Return empty results on error
-      return {
-        hits: [],
-        query,
-        processingTimeMs: Date.now() - startTime,
-        totalHits: 0,
-        page,
-        hitsPerPage,
-        totalPages: 0,
-        isZeroResults: true,
-      };
+      this.logger.error(`Search failed, searching the database instead: ${message}`);
+      // [4a] Unreachable → next searches go straight to the database (not awaited: no extra wait)
+      void this.checkHealth();
+      return this.databaseSearch.searchParts(query, filters, page, hitsPerPage, sort);
+    }
+  }
+
+  // [7f] One list: parts listed under the numbers, then the other text hits. The text search
+  // excludes the number matches with the same filter, so no part shows twice; pages, totals and
+  // facets cover both. null → no part listed under the numbers
+  private async searchNumbersFirst(
+    query: string,
+    partNumbers: string[],
+    filterClauses: string[],
+    searchParams: SearchParams,
+    page: number,
+    hitsPerPage: number,
+  ): Promise<Pick<PartSearchResult, 'hits' | 'totalHits' | 'facets'> | null> {
+    const numberFilter = `normalizedOemRefs IN [${partNumbers.map((n) => `"${n}"`).join(', ')}]`;
+
+    const byNumber: SearchResponse<PartDocument> = await this.partsIndex.search('', {
+      ...searchParams,
+      filter: [...filterClauses, numberFilter].join(' AND '),
+    });
+    const numberHits = byNumber.totalHits ?? 0;
+    if (numberHits === 0) {
+      return null;
     }
+
+    // Text hits continue the list where the number matches end (offset 0 on the page they end)
+    const byText: SearchResponse<PartDocument> = await this.partsIndex.search(query, {
+      ...searchParams,
+      page: undefined,
+      hitsPerPage: undefined,
+      filter: [...filterClauses, `NOT ${numberFilter}`].join(' AND '),
+      offset: Math.max(0, (page - 1) * hitsPerPage - numberHits),
+      limit: hitsPerPage - byNumber.hits.length,
+    });
+
+    const facets: Record<string, Record<string, number>> = {};
+    for (const distribution of [byNumber.facetDistribution, byText.facetDistribution]) {
+      for (const [facet, values] of Object.entries(distribution ?? {})) {
+        facets[facet] ??= {};
+        for (const [value, count] of Object.entries(values)) {
+          facets[facet][value] = (facets[facet][value] ?? 0) + count;
+        }
+      }
+    }
+
+    return {
+      hits: [...byNumber.hits, ...byText.hits],
+      totalHits: numberHits + (byText.estimatedTotalHits ?? 0),
+      facets,
+    };
   }
 
   /**
@@ -0,0 +1,163 @@
+/**
+ * [1] PART → SEARCH DOCUMENT
+ *     Shared by SearchSyncService (Meilisearch documents) and DatabaseSearchService (fallback hits),
+ *     so both engines return the same PartDocument shape
+ *     [1a] YMM values denormalized from the fitments
+ *     [1b] Category path resolved from the whole (small) Category table:
+ *          a part in "Filtre à huile" is indexed under moteur, filtres and filtre-a-huile
+ */
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PartDocument } from './meilisearch.service';
+
+/**
+ * Part with all relations needed for indexing
+ */
+export type PartWithRelations = {
+  id: string;
+  title: string;
+  description?: string | null;
+  // Prix (Prisma Decimal) — typé unknown pour éviter any
+  price: unknown;
+  currency: string;
+  stock: number;
+  condition: string;
+  status: string;
+  oemRefs: string[];
+  normalizedOemRefs: string[];
+  city?: string | null;
+  country: string;
+  categoryId?: string | null;
+  vendor: { id: string; name: string };
+  fitments: Array<{
+    engine: {
+      id: string;
+      code: string;
+      year: {
+        year: number;
+        model: {
+          name: string;
+          make: { name: string };
+        };
+      };
+    };
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Category fields needed to build a part's category path
+ */
+export type CategoryNode = {
+  id: string;
+  slug: string;
+  nameFr: string;
+  nameEn: string;
+  parentId: string | null;
+};
+
+export const PART_DOCUMENT_INCLUDE = {
+  vendor: { select: { id: true, name: true } },
+  fitments: {
+    include: {
+      engine: {
+        include: {
+          year: {
+            include: {
+              model: {
+                include: {
+                  make: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+export function toPartDocument(
+  part: PartWithRelations,
+  categories: Map<string, CategoryNode>,
+): PartDocument {
+  // Extract unique YMM values from fitments
+  const makes = new Set<string>();
+  const models = new Set<string>();
+  const years = new Set<number>();
+  const engines = new Set<string>();
+  const engineIds = new Set<string>();
+
+  for (const fitment of part.fitments) {
+    const engine = fitment.engine;
+    const year = engine.year;
+    const model = year.model;
+    const make = model.make;
+
+    makes.add(make.name);
+    models.add(model.name);
+    years.add(year.year);
+    engines.add(engine.code);
+    engineIds.add(engine.id);
+  }
+
+  const path = categoryPath(part.categoryId ?? null, categories);
+
+  return {
+    id: part.id,
+    title: part.title,
+    description: part.description ?? null,
+    oemRefs: part.oemRefs,
+    normalizedOemRefs: part.normalizedOemRefs,
+    price: Number(part.price as unknown as number),
+    currency: part.currency,
+    stock: part.stock,
+    condition: part.condition,
+    status: part.status,
+    city: part.city ?? null,
+    country: part.country,
+    vendorId: part.vendor.id,
+    vendorName: part.vendor.name,
+    makes: Array.from(makes),
+    models: Array.from(models),
+    years: Array.from(years),
+    engines: Array.from(engines),
+    engineIds: Array.from(engineIds),
+    categoryId: part.categoryId ?? null,
+    categories: path.map((category) => category.slug),
+    categoryNames: path.flatMap((category) => [category.nameFr, category.nameEn]),
+    createdAt: part.createdAt.getTime(),
+  };
+}
+
+/**
+ * [2] CATEGORY PATH (root → leaf)
+ *     Stops on a missing parent or a cycle instead of looping
+ */
+export function categoryPath(
+  categoryId: string | null,
+  categories: Map<string, CategoryNode>,
+): CategoryNode[] {
+  const path: CategoryNode[] = [];
+  const seen = new Set<string>();
+  let current = categoryId ? categories.get(categoryId) : undefined;
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? categories.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * [3] LOAD ALL CATEGORIES (a few hundred rows at most)
+ */
+export async function loadCategoryNodes(prisma: PrismaService): Promise<Map<string, CategoryNode>> {
+  const categories = await prisma.category.findMany({
+    select: { id: true, slug: true, nameFr: true, nameEn: true, parentId: true },
+  });
+  return new Map(categories.map((category) => [category.id, category]));
+}
@@ -0,0 +1,257 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                SEARCH ANALYTICS TESTS — Query Log, Click / Add-to-Cart Attribution, Reports        ║
+ * ║  Tests: logging never fails a search, event checks and dedup, rates, report period                ║
+ * ║  Focus: a search counted once whatever the pages seen, clicks only for parts the search showed    ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SearchAnalyticsService } from './search-analytics.service';
+import { PartSearchResult } from './meilisearch.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SearchAnalyticsService', () => {
+  let service: SearchAnalyticsService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+
+  const result = (overrides: Partial<PartSearchResult> = {}): PartSearchResult => ({
+    hits: [{ id: 'part-aaaaaaaaaa' }, { id: 'part-bbbbbbbbbb' }] as PartSearchResult['hits'],
+    query: 'Filtre  Huile ',
+    processingTimeMs: 12,
+    totalHits: 2,
+    page: 1,
+    hitsPerPage: 20,
+    totalPages: 1,
+    isZeroResults: false,
+    engine: 'meilisearch',
+    ...overrides,
+  });
+
+  const createPrismaMock = () => ({
+    searchQueryLog: {
+      create: jest.fn().mockResolvedValue({ id: 'search-1' }),
+      findUnique: jest.fn().mockResolvedValue(null),
+      update: jest.fn(),
+    },
+    searchEvent: { create: jest.fn() },
+    $queryRaw: jest.fn().mockResolvedValue([]),
+  });
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SearchAnalyticsService, { provide: PrismaService, useValue: mockPrisma }],
+    }).compile();
+
+    service = module.get<SearchAnalyticsService>(SearchAnalyticsService);
+  });
+
+  describe('logSearch', () => {
+    it('logs the query, filters, hits shown and latency', async () => {
+      await expect(
+        service.logSearch({
+          query: 'Filtre  Huile ',
+          filters: { make: 'Toyota', vehicle: 'vin' },
+          result: result(),
+          latencyMs: 41.6,
+        }),
+      ).resolves.toBe('search-1');
+
+      expect(mockPrisma.searchQueryLog.create).toHaveBeenCalledWith({
+        data: {
+          query: 'Filtre  Huile ',
+          normalizedQuery: 'filtre huile',
+          filters: { make: 'Toyota', vehicle: 'vin' },
+          totalHits: 2,
+          isZeroResults: false,
+          engine: 'meilisearch',
+          latencyMs: 42,
+          page: 1,
+          partIds: ['part-aaaaaaaaaa', 'part-bbbbbbbbbb'],
+        },
+        select: { id: true },
+      });
+    });
+
+    it('counts a search with no hits at all as a zero-result search', async () => {
+      await service.logSearch({
+        query: '',
+        filters: { make: 'Lada' },
+        result: result({ hits: [], totalHits: 0, isZeroResults: false }),
+        latencyMs: 8,
+      });
+
+      expect(mockPrisma.searchQueryLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ isZeroResults: true }) }),
+      );
+    });
+
+    it('adds the next pages to the search of page 1 instead of counting new searches', async () => {
+      mockPrisma.searchQueryLog.findUnique.mockResolvedValue({
+        normalizedQuery: 'filtre huile',
+        partIds: ['part-aaaaaaaaaa', 'part-bbbbbbbbbb'],
+      });
+      const page2 = result({
+        page: 2,
+        hits: [{ id: 'part-cccccccccc' }, { id: 'part-aaaaaaaaaa' }] as PartSearchResult['hits'],
+      });
+
+      await expect(
+        service.logSearch({
+          query: 'filtre huile',
+          filters: {},
+          result: page2,
+          latencyMs: 20,
+          searchId: 'search-1',
+        }),
+      ).resolves.toBe('search-1');
+
+      expect(mockPrisma.searchQueryLog.create).not.toHaveBeenCalled();
+      expect(mockPrisma.searchQueryLog.update).toHaveBeenCalledWith({
+        where: { id: 'search-1' },
+        data: { partIds: { push: ['part-cccccccccc'] } },
+      });
+    });
+
+    it('does not log a next page without the search of page 1 or for another query', async () => {
+      const page2 = result({ page: 2 });
+
+      await expect(
+        service.logSearch({ query: 'batterie', filters: {}, result: page2, latencyMs: 20 }),
+      ).resolves.toBeNull();
+
+      mockPrisma.searchQueryLog.findUnique.mockResolvedValue({
+        normalizedQuery: 'filtre huile',
+        partIds: [],
+      });
+      await expect(
+        service.logSearch({
+          query: 'batterie',
+          filters: {},
+          result: page2,
+          latencyMs: 20,
+          searchId: 'search-1',
+        }),
+      ).resolves.toBeNull();
+
+      expect(mockPrisma.searchQueryLog.create).not.toHaveBeenCalled();
+      expect(mockPrisma.searchQueryLog.update).not.toHaveBeenCalled();
+    });
+
+    it('returns a null searchId instead of failing the search when the log cannot be written', async () => {
+      mockPrisma.searchQueryLog.create.mockRejectedValue(new Error('connection refused'));
+
+      await expect(
+        service.logSearch({ query: 'batry', filters: {}, result: result(), latencyMs: 5 }),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('recordEvent', () => {
+    beforeEach(() => {
+      mockPrisma.searchQueryLog.findUnique.mockResolvedValue({
+        partIds: ['part-aaaaaaaaaa', 'part-bbbbbbbbbb'],
+      });
+    });
+
+    it('records the event with the position of the part in the results', async () => {
+      await expect(
+        service.recordEvent('search-1', 'part-bbbbbbbbbb', 'ADD_TO_CART'),
+      ).resolves.toEqual({ recorded: true, position: 2 });
+      expect(mockPrisma.searchEvent.create).toHaveBeenCalledWith({
+        data: {
+          searchId: 'search-1',
+          partId: 'part-bbbbbbbbbb',
+          type: 'ADD_TO_CART',
+          position: 2,
+        },
+      });
+    });
+
+    it('counts a repeated click once', async () => {
+      mockPrisma.searchEvent.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(service.recordEvent('search-1', 'part-aaaaaaaaaa', 'CLICK')).resolves.toEqual({
+        recorded: false,
+        position: 1,
+      });
+    });
+
+    it('rejects unknown searches and parts the search did not show', async () => {
+      await expect(service.recordEvent('search-1', 'part-cccccccccc', 'CLICK')).rejects.toThrow(
+        BadRequestException,
+      );
+
+      mockPrisma.searchQueryLog.findUnique.mockResolvedValue(null);
+      await expect(service.recordEvent('search-9', 'part-aaaaaaaaaa', 'CLICK')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrisma.searchEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reports', () => {
+    it('computes click-through over the searches that returned something', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        {
+          query: 'plaquette corolla',
+          searches: 50,
+          zeroResultSearches: 10,
+          clickedSearches: 8,
+          addedToCartSearches: 2,
+          averageHits: 14,
+          lastSearchedAt: new Date('2026-01-07T09:00:00Z'),
+        },
+      ]);
+
+      const report = await service.getLowClickThroughQueries({ limit: 20, minSearches: 20 });
+
+      expect(report.queries).toEqual([
+        expect.objectContaining({
+          query: 'plaquette corolla',
+          searches: 50,
+          zeroResultRate: 0.2,
+          clickThroughRate: 0.2,
+          addToCartRate: 0.05,
+        }),
+      ]);
+      expect(report.to.getTime() - report.from.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('reports no rate rather than dividing by zero', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        {
+          searches: 3,
+          zeroResultSearches: 3,
+          clickedSearches: 0,
+          addedToCartSearches: 0,
+          averageLatencyMs: 35,
+          p95LatencyMs: 80,
+        },
+      ]);
+
+      await expect(service.getSummary({})).resolves.toMatchObject({
+        searches: 3,
+        zeroResultRate: 1,
+        clickThroughRate: 0,
+        p95LatencyMs: 80,
+      });
+    });
+
+    it('rejects a period ending before it starts', async () => {
+      await expect(service.getTopQueries({ from: '2026-02-01', to: '2026-01-01' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+});
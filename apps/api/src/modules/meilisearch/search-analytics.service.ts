@@ -0,0 +1,274 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        SEARCH ANALYTICS SERVICE — Query Log, Click-Through, Reports               ║
+ * ║  Implements: US-CAT-306 zero-results telemetry, top queries, low click-through queries            ║
+ * ║  Uses: Prisma (SearchQueryLog, SearchEvent), raw SQL aggregations for the reports                 ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] QUERY LOG (GET /parts/search)
+ *     [1a] One search per query: page 1 logged (query, filters, hits, latency, engine); the next
+ *          pages, sent with its searchId, add their parts to it. A next page without one is not logged
+ *     [1b] Zero results = totalHits 0 (whatever the page shows)
+ *     [1c] Anonymous: no user id, the VIN / garage vehicle reduced to its source ("vin" | "garage")
+ *     [1d] Never fails a search: a logging error is a warning and meta.searchId is null
+ *
+ * [2] EVENTS (POST /search/events)
+ *     [2a] CLICK (part page opened) or ADD_TO_CART, for a part shown by that search
+ *     [2b] Position taken from the parts shown, in the order the pages were shown;
+ *          a repeated event is ignored (counted once)
+ *
+ * [3] REPORTS (GET /admin/search/analytics/*), period default last 30 days
+ *     [3a] Queries grouped by normalized text (lowercase, single spaces)
+ *     [3b] clickThroughRate / addToCartRate = searches with ≥1 click / add to cart, over the
+ *          searches that returned something (a zero-result search cannot be clicked)
+ *     [3c] Zero-result queries → parts vendors should list, synonyms to add (search settings)
+ *     [3d] Low click-through → results shown but not relevant (ranking, synonyms, typo rules)
+ */
+
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, SearchEventType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PartSearchResult } from './meilisearch.service';
+import { LowClickThroughQueryDto, SearchAnalyticsQueryDto } from './dto/search-analytics.dto';
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+// Per search: did it get a click / an add to cart
+const CLICKED = Prisma.sql`EXISTS (SELECT 1 FROM "SearchEvent" e
+  WHERE e."searchId" = l.id AND e.type = 'CLICK')`;
+const ADDED_TO_CART = Prisma.sql`EXISTS (SELECT 1 FROM "SearchEvent" e
+  WHERE e."searchId" = l.id AND e.type = 'ADD_TO_CART')`;
+
+const SEARCH_COUNTS = Prisma.sql`COUNT(*)::int AS searches,
+  COUNT(*) FILTER (WHERE l."isZeroResults")::int AS "zeroResultSearches",
+  COUNT(*) FILTER (WHERE ${CLICKED})::int AS "clickedSearches",
+  COUNT(*) FILTER (WHERE ${ADDED_TO_CART})::int AS "addedToCartSearches"`;
+
+type SearchCounts = {
+  searches: number;
+  zeroResultSearches: number;
+  clickedSearches: number;
+  addedToCartSearches: number;
+};
+
+type QueryRow = SearchCounts & { query: string; averageHits: number; lastSearchedAt: Date };
+
+export interface SearchLogEntry {
+  query: string;
+  filters: Record<string, unknown>;
+  result: PartSearchResult;
+  latencyMs: number;
+  searchId?: string; // Page > 1: meta.searchId returned with page 1
+}
+
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+@Injectable()
+export class SearchAnalyticsService {
+  private readonly logger = new Logger(SearchAnalyticsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * [4] LOG A SEARCH → searchId for the events (null if it could not be logged)
+   */
+  async logSearch(entry: SearchLogEntry): Promise<string | null> {
+    if (entry.result.page > 1) {
+      return this.logNextPage(entry);
+    }
+
+    try {
+      const { id } = await this.prisma.searchQueryLog.create({
+        data: {
+          query: entry.query,
+          normalizedQuery: normalizeSearchQuery(entry.query),
+          filters: entry.filters as Prisma.InputJsonValue,
+          totalHits: entry.result.totalHits,
+          isZeroResults: entry.result.totalHits === 0,
+          engine: entry.result.engine,
+          latencyMs: Math.round(entry.latencyMs),
+          page: entry.result.page,
+          partIds: entry.result.hits.map((hit) => hit.id),
+        },
+        select: { id: true },
+      });
+      return id;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Search not logged: ${message}`);
+      return null;
+    }
+  }
+
+  // [1a] Next page of a logged search: its parts appended (clicks on them attributed), no new search
+  private async logNextPage(entry: SearchLogEntry): Promise<string | null> {
+    if (!entry.searchId) {
+      return null;
+    }
+
+    try {
+      const search = await this.prisma.searchQueryLog.findUnique({
+        where: { id: entry.searchId },
+        select: { normalizedQuery: true, partIds: true },
+      });
+      if (!search || search.normalizedQuery !== normalizeSearchQuery(entry.query)) {
+        return null;
+      }
+
+      const shown = new Set(search.partIds);
+      const partIds = entry.result.hits.map((hit) => hit.id).filter((id) => !shown.has(id));
+      if (partIds.length > 0) {
+        await this.prisma.searchQueryLog.update({
+          where: { id: entry.searchId },
+          data: { partIds: { push: partIds } },
+        });
+      }
+      return entry.searchId;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Search page not logged: ${message}`);
+      return null;
+    }
+  }
+
+  /**
+   * [5] RECORD A CLICK / ADD TO CART
+   */
+  async recordEvent(searchId: string, partId: string, type: SearchEventType) {
+    const search = await this.prisma.searchQueryLog.findUnique({
+      where: { id: searchId },
+      select: { partIds: true },
+    });
+    if (!search) {
+      throw new NotFoundException('Search not found');
+    }
+    const index = search.partIds.indexOf(partId);
+    if (index === -1) {
+      throw new BadRequestException('Part not shown by this search');
+    }
+
+    const position = index + 1;
+    try {
+      await this.prisma.searchEvent.create({ data: { searchId, partId, type, position } });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { recorded: false, position };
+      }
+      throw error;
+    }
+    return { recorded: true, position };
+  }
+
+  /**
+   * [6] SUMMARY: volumes, rates, latency (dashboard cards)
+   */
+  async getSummary(range: SearchAnalyticsQueryDto) {
+    const { from, to } = this.period(range);
+    const [row] = await this.prisma.$queryRaw<
+      Array<SearchCounts & { averageLatencyMs: number; p95LatencyMs: number }>
+    >`
+      SELECT ${SEARCH_COUNTS},
+        COALESCE(AVG(l."latencyMs"), 0)::int AS "averageLatencyMs",
+        COALESCE(percentile_cont(0.95) WITHIN GROUP (ORDER BY l."latencyMs"), 0)::int AS "p95LatencyMs"
+      FROM "SearchQueryLog" l
+      WHERE l."createdAt" >= ${from} AND l."createdAt" < ${to}
+    `;
+
+    return {
+      from,
+      to,
+      ...this.withRates(row),
+      averageLatencyMs: row.averageLatencyMs,
+      p95LatencyMs: row.p95LatencyMs,
+    };
+  }
+
+  /**
+   * [7] TOP QUERIES (most searched)
+   */
+  async getTopQueries(range: SearchAnalyticsQueryDto) {
+    return this.queryReport(range, Prisma.empty, Prisma.sql`searches DESC`);
+  }
+
+  /**
+   * [8] ZERO-RESULT QUERIES (most zero-result searches first)
+   */
+  async getZeroResultQueries(range: SearchAnalyticsQueryDto) {
+    return this.queryReport(
+      range,
+      Prisma.sql`HAVING COUNT(*) FILTER (WHERE l."isZeroResults") > 0`,
+      Prisma.sql`"zeroResultSearches" DESC`,
+    );
+  }
+
+  /**
+   * [9] LOW CLICK-THROUGH QUERIES (≥ minSearches searches with results, lowest rate first)
+   */
+  async getLowClickThroughQueries(range: LowClickThroughQueryDto) {
+    const minSearches = range.minSearches ?? 20;
+    return this.queryReport(
+      range,
+      Prisma.sql`HAVING COUNT(*) FILTER (WHERE NOT l."isZeroResults") >= ${minSearches}`,
+      Prisma.sql`COUNT(*) FILTER (WHERE ${CLICKED})::float
+        / COUNT(*) FILTER (WHERE NOT l."isZeroResults") ASC, searches DESC`,
+    );
+  }
+
+  // [3a] One row per normalized query over the period
+  private async queryReport(
+    range: SearchAnalyticsQueryDto,
+    having: Prisma.Sql,
+    orderBy: Prisma.Sql,
+  ) {
+    const { from, to } = this.period(range);
+    const rows = await this.prisma.$queryRaw<QueryRow[]>`
+      SELECT l."normalizedQuery" AS query, ${SEARCH_COUNTS},
+        ROUND(AVG(l."totalHits"))::int AS "averageHits",
+        MAX(l."createdAt") AS "lastSearchedAt"
+      FROM "SearchQueryLog" l
+      WHERE l."createdAt" >= ${from} AND l."createdAt" < ${to} AND l."normalizedQuery" <> ''
+      GROUP BY l."normalizedQuery"
+      ${having}
+      ORDER BY ${orderBy}, query
+      LIMIT ${range.limit ?? 20}
+    `;
+
+    return {
+      from,
+      to,
+      queries: rows.map((row) => ({
+        ...this.withRates(row),
+        query: row.query,
+        averageHits: row.averageHits,
+        lastSearchedAt: row.lastSearchedAt,
+      })),
+    };
+  }
+
+  // [3b] Rates over the searches that returned something
+  private withRates(counts: SearchCounts) {
+    const withResults = counts.searches - counts.zeroResultSearches;
+    const rate = (count: number, total: number) =>
+      total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+
+    return {
+      ...counts,
+      zeroResultRate: rate(counts.zeroResultSearches, counts.searches),
+      clickThroughRate: rate(counts.clickedSearches, withResults),
+      addToCartRate: rate(counts.addedToCartSearches, withResults),
+    };
+  }
+
+  private period(range: SearchAnalyticsQueryDto): { from: Date; to: Date } {
+    const to = range.to ? new Date(range.to) : new Date();
+    const from = range.from
+      ? new Date(range.from)
+      : new Date(to.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    return { from, to };
+  }
+}
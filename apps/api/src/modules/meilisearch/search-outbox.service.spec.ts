@@ -0,0 +1,266 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              SEARCH OUTBOX TESTS — Transactional Queue and Batched Push to Meilisearch            ║
+ * ║  Tests: enqueue, upsert vs removal, one-by-one retry, backoff, FAILED rows, lag, worker lock      ║
+ * ║  Focus: a change committed while Meilisearch is down still reaches the index                      ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { SearchOutboxService } from './search-outbox.service';
+import { MeilisearchService } from './meilisearch.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+
+describe('SearchOutboxService', () => {
+  let service: SearchOutboxService;
+  let tx: ReturnType<typeof createTx> & Prisma.TransactionClient;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let redisSet: jest.Mock;
+  let redisEval: jest.Mock;
+  let meilisearch: { applyChanges: jest.Mock; isAvailable: jest.Mock };
+
+  const now = new Date('2026-01-05T10:00:00Z');
+
+  const row = (id: string, partId: string, attempts = 0) => ({ id, partId, attempts });
+
+  const part = (id: string) => ({
+    id,
+    title: `Filtre ${id}`,
+    description: null,
+    price: '8500.00',
+    currency: 'XOF',
+    stock: 3,
+    condition: 'NEW',
+    status: 'PUBLISHED',
+    oemRefs: [],
+    normalizedOemRefs: [],
+    city: 'Lomé',
+    country: 'TG',
+    categoryId: null,
+    vendor: { id: 'vendor-1', name: 'Garage AutoLomé' },
+    fitments: [],
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const createTx = () => ({
+    searchOutbox: { createMany: jest.fn() },
+    part: { findMany: jest.fn().mockResolvedValue([]) },
+  });
+
+  const createPrismaMock = () => ({
+    searchOutbox: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findFirst: jest.fn().mockResolvedValue(null),
+      count: jest.fn().mockResolvedValue(0),
+      deleteMany: jest.fn(),
+      update: jest.fn((args: unknown) => args),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    part: { findMany: jest.fn().mockResolvedValue([]) },
+    category: { findMany: jest.fn().mockResolvedValue([]) },
+    $transaction: jest.fn((arg: Promise<unknown>[]) => Promise.all(arg)),
+  });
+
+  beforeEach(async () => {
+    tx = createTx() as unknown as typeof tx;
+    mockPrisma = createPrismaMock();
+    redisSet = jest.fn().mockResolvedValue('OK');
+    redisEval = jest.fn().mockResolvedValue(1);
+    meilisearch = {
+      applyChanges: jest.fn().mockResolvedValue(undefined),
+      isAvailable: jest.fn().mockReturnValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchOutboxService,
+        { provide: PrismaService, useValue: mockPrisma },
+        {
+          provide: RedisService,
+          useValue: { getClient: () => ({ set: redisSet, eval: redisEval }) },
+        },
+        { provide: MeilisearchService, useValue: meilisearch },
+        { provide: ConfigService, useValue: { get: jest.fn((_key, fallback) => fallback) } },
+      ],
+    }).compile();
+
+    service = module.get<SearchOutboxService>(SearchOutboxService);
+  });
+
+  describe('enqueue', () => {
+    it('writes one row per distinct part in the given transaction', async () => {
+      await expect(service.enqueue(tx, ['part-1', 'part-2', 'part-1'])).resolves.toBe(2);
+      expect(tx.searchOutbox.createMany).toHaveBeenCalledWith({
+        data: [{ partId: 'part-1' }, { partId: 'part-2' }],
+      });
+
+      await expect(service.enqueue(tx, [])).resolves.toBe(0);
+      expect(tx.searchOutbox.createMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('queues only the published parts matching a filter', async () => {
+      tx.part.findMany.mockResolvedValue([{ id: 'part-1' }]);
+
+      await expect(service.enqueueWhere(tx, { categoryId: { in: ['cat-oil'] } })).resolves.toBe(1);
+      expect(tx.part.findMany).toHaveBeenCalledWith({
+        where: { categoryId: { in: ['cat-oil'] }, status: 'PUBLISHED' },
+        select: { id: true },
+      });
+    });
+  });
+
+  describe('flush', () => {
+    it('upserts published parts, removes the others and deletes the pushed rows', async () => {
+      mockPrisma.searchOutbox.findMany.mockResolvedValue([
+        row('row-1', 'part-1'),
+        row('row-2', 'part-gone'),
+        row('row-3', 'part-1'),
+      ]);
+      mockPrisma.part.findMany.mockResolvedValue([part('part-1')]);
+
+      await expect(service.flush(now)).resolves.toEqual({ pushed: 2, failed: 0 });
+
+      expect(mockPrisma.searchOutbox.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'PENDING', availableAt: { lte: now } },
+          take: 200,
+        }),
+      );
+      expect(meilisearch.applyChanges).toHaveBeenCalledWith(
+        [expect.objectContaining({ id: 'part-1', vendorName: 'Garage AutoLomé' })],
+        ['part-gone'],
+      );
+      expect(mockPrisma.searchOutbox.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['row-1', 'row-2', 'row-3'] } },
+      });
+      expect(redisEval).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a rejected batch part by part so one bad document does not block the others', async () => {
+      mockPrisma.searchOutbox.findMany.mockResolvedValue([
+        row('row-1', 'part-1'),
+        row('row-2', 'part-bad', 2),
+      ]);
+      mockPrisma.part.findMany.mockImplementation(
+        ({ where }: { where: { id: { in: string[] } } }) => Promise.resolve(where.id.in.map(part)),
+      );
+      meilisearch.applyChanges.mockImplementation((documents: Array<{ id: string }>) =>
+        documents.some((document) => document.id === 'part-bad')
+          ? Promise.reject(new Error('invalid document'))
+          : Promise.resolve(),
+      );
+
+      await expect(service.flush(now)).resolves.toEqual({ pushed: 1, failed: 1 });
+
+      expect(mockPrisma.searchOutbox.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['row-1'] } },
+      });
+      // 3rd attempt: 5s × 2^3
+      expect(mockPrisma.searchOutbox.update).toHaveBeenCalledWith({
+        where: { id: 'row-2' },
+        data: {
+          attempts: 3,
+          lastError: 'invalid document',
+          availableAt: new Date(now.getTime() + 40000),
+        },
+      });
+    });
+
+    it('postpones the rows without counting an attempt when Meilisearch goes down', async () => {
+      mockPrisma.searchOutbox.findMany.mockResolvedValue([
+        row('row-1', 'part-1'),
+        row('row-2', 'part-2', 9),
+      ]);
+      meilisearch.applyChanges.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      meilisearch.isAvailable.mockReturnValueOnce(true).mockReturnValue(false);
+
+      await expect(service.flush(now)).resolves.toEqual({ pushed: 0, failed: 0 });
+
+      expect(meilisearch.applyChanges).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.searchOutbox.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrisma.searchOutbox.update).not.toHaveBeenCalled();
+      expect(mockPrisma.searchOutbox.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['row-1', 'row-2'] } },
+        data: {
+          lastError: 'connect ECONNREFUSED',
+          availableAt: new Date(now.getTime() + 5000),
+        },
+      });
+    });
+
+    it('skips the run while Meilisearch is unavailable', async () => {
+      meilisearch.isAvailable.mockReturnValue(false);
+
+      await expect(service.flush(now)).resolves.toEqual({ pushed: 0, failed: 0 });
+      expect(redisSet).not.toHaveBeenCalled();
+      expect(mockPrisma.searchOutbox.findMany).not.toHaveBeenCalled();
+    });
+
+    it('marks a rejected document FAILED once out of attempts', async () => {
+      mockPrisma.searchOutbox.findMany.mockResolvedValue([row('row-2', 'part-2', 9)]);
+      meilisearch.applyChanges.mockRejectedValue(new Error('invalid document'));
+
+      await expect(service.flush(now)).resolves.toEqual({ pushed: 0, failed: 1 });
+
+      expect(mockPrisma.searchOutbox.update).toHaveBeenCalledWith({
+        where: { id: 'row-2' },
+        data: expect.objectContaining({
+          attempts: 10,
+          lastError: 'invalid document',
+          status: 'FAILED',
+          availableAt: new Date(now.getTime() + 60 * 60 * 1000),
+        }),
+      });
+    });
+
+    it('releases only the lock it holds', async () => {
+      await service.flush(now);
+
+      const token = redisSet.mock.calls[0][1];
+      expect(redisEval).toHaveBeenCalledWith(
+        expect.stringContaining("redis.call('del', KEYS[1])"),
+        1,
+        'search-outbox:lock',
+        token,
+      );
+    });
+
+    it('does nothing while another instance holds the lock', async () => {
+      redisSet.mockResolvedValue(null);
+
+      await expect(service.flush(now)).resolves.toEqual({ pushed: 0, failed: 0 });
+      expect(mockPrisma.searchOutbox.findMany).not.toHaveBeenCalled();
+      expect(redisEval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('monitoring', () => {
+    it('reports the lag as the age of the oldest pending row', async () => {
+      mockPrisma.searchOutbox.count.mockResolvedValueOnce(12).mockResolvedValueOnce(1);
+      mockPrisma.searchOutbox.findFirst.mockResolvedValue({
+        createdAt: new Date(now.getTime() - 90000),
+      });
+
+      await expect(service.getStatus(now)).resolves.toMatchObject({
+        workerEnabled: true,
+        pending: 12,
+        failed: 1,
+        lagSeconds: 90,
+      });
+    });
+
+    it('puts FAILED rows back in the queue', async () => {
+      mockPrisma.searchOutbox.updateMany.mockResolvedValue({ count: 2 });
+
+      await expect(service.retryFailed(['row-1', 'row-2'])).resolves.toEqual({ requeued: 2 });
+      expect(mockPrisma.searchOutbox.updateMany).toHaveBeenCalledWith({
+        where: { status: 'FAILED', id: { in: ['row-1', 'row-2'] } },
+        data: { status: 'PENDING', attempts: 0, availableAt: expect.any(Date) },
+      });
+    });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        SEARCH OUTBOX SERVICE — Reliable Meilisearch Indexing                       ║
+ * ║  Implements: Outbox rows written with the change, batched push worker, retries with backoff       ║
+ * ║  Uses: Prisma (SearchOutbox), Redis (worker lock), MeilisearchService.applyChanges                ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] WRITE SIDE (inside the caller's transaction)
+ *     [1a] enqueue(tx, partIds): part create / update / publish / delete, CSV import
+ *     [1b] enqueueWhere(tx, where): published parts matching a filter — category subtree renamed or
+ *          moved, make / model / year / engine renamed or merged
+ *     [1c] Rolled back → no row; committed → the row exists even if Meilisearch is down
+ *
+ * [2] WORKER
+ *     [2a] setInterval in-process; a Redis NX lock keeps one instance pushing at a time, released
+ *          only by the run holding it (token compared before the delete)
+ *     [2b] Up to SEARCH_OUTBOX_BATCH_SIZE due rows per run. Parts read at push time:
+ *          published → upserted, anything else (draft, archived, deleted) → removed from the index
+ *     [2c] Pushed → rows deleted. Batch rejected while Meilisearch is up → parts retried one by one,
+ *          so a bad document does not hold back the others
+ *     [2d] Failed → attempts + 1, next try after 5s × 2^attempts (max 1 hour);
+ *          FAILED after SEARCH_OUTBOX_MAX_ATTEMPTS, kept until an admin retries it
+ *     [2e] Meilisearch unavailable (MeilisearchService.isAvailable) → not the documents' fault: run
+ *          skipped, or rows of a failed push postponed by 5s without counting an attempt
+ *
+ * [3] CONFIGURATION (.env)
+ *     [3a] SEARCH_OUTBOX_INTERVAL_MS  → worker period (default 5000, 0 = disabled)
+ *     [3b] SEARCH_OUTBOX_BATCH_SIZE   → rows per run (default 200)
+ *     [3c] SEARCH_OUTBOX_MAX_ATTEMPTS → tries before FAILED (default 10)
+ */
+
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, SearchOutboxStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RELEASE_LOCK_SCRIPT, RedisService } from '../redis/redis.service';
+import { MeilisearchService } from './meilisearch.service';
+import {
+  PART_DOCUMENT_INCLUDE,
+  PartWithRelations,
+  loadCategoryNodes,
+  toPartDocument,
+} from './part-document';
+
+const LOCK_KEY = 'search-outbox:lock';
+// Longer than a batch can take (Meilisearch tasks are awaited), released as soon as it ends
+const LOCK_TTL_SECONDS = 120;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const FAILED_LIST_LIMIT = 50;
+
+type OutboxRow = { id: string; partId: string; attempts: number };
+
+@Injectable()
+export class SearchOutboxService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SearchOutboxService.name);
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+    private readonly meilisearch: MeilisearchService,
+    private readonly configService: ConfigService,
+  ) {
+    this.intervalMs = this.readInt('SEARCH_OUTBOX_INTERVAL_MS', 5000);
+    this.batchSize = this.readInt('SEARCH_OUTBOX_BATCH_SIZE', 200);
+    this.maxAttempts = this.readInt('SEARCH_OUTBOX_MAX_ATTEMPTS', 10);
+  }
+
+  /**
+   * [4] START / STOP WORKER
+   *     unref(): the timer never keeps the process alive (tests, graceful shutdown)
+   */
+  onModuleInit(): void {
+    if (this.intervalMs <= 0) {
+      this.logger.warn('Search outbox worker disabled (SEARCH_OUTBOX_INTERVAL_MS=0)');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.flush().catch((error) => {
+        this.logger.error(`Search outbox flush failed: ${error.message}`);
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * [5] ENQUEUE PARTS (same transaction as the change)
+   */
+  async enqueue(tx: Prisma.TransactionClient, partIds: string[]): Promise<number> {
+    const unique = Array.from(new Set(partIds));
+    if (unique.length === 0) {
+      return 0;
+    }
+    await tx.searchOutbox.createMany({ data: unique.map((partId) => ({ partId })) });
+    return unique.length;
+  }
+
+  /**
+   * [5a] ENQUEUE THE PUBLISHED PARTS MATCHING A FILTER
+   *      Unpublished parts are not in the index: a rename does not concern them
+   */
+  async enqueueWhere(tx: Prisma.TransactionClient, where: Prisma.PartWhereInput): Promise<number> {
+    const parts = await tx.part.findMany({
+      where: { ...where, status: 'PUBLISHED' },
+      select: { id: true },
+    });
+    return this.enqueue(
+      tx,
+      parts.map((part) => part.id),
+    );
+  }
+
+  /**
+   * [6] FLUSH (one worker run)
+   */
+  async flush(now = new Date()): Promise<{ pushed: number; failed: number }> {
+    // [2e] Nothing can be pushed: rows stay due until the health check sees Meilisearch again
+    if (!this.meilisearch.isAvailable()) {
+      return { pushed: 0, failed: 0 };
+    }
+
+    const token = `${process.pid}:${randomUUID()}`;
+    const locked = await this.redis.getClient().set(LOCK_KEY, token, 'EX', LOCK_TTL_SECONDS, 'NX');
+    if (!locked) {
+      return { pushed: 0, failed: 0 };
+    }
+
+    try {
+      const rows = await this.prisma.searchOutbox.findMany({
+        where: { status: SearchOutboxStatus.PENDING, availableAt: { lte: now } },
+        orderBy: { createdAt: 'asc' },
+        take: this.batchSize,
+        select: { id: true, partId: true, attempts: true },
+      });
+      if (rows.length === 0) {
+        return { pushed: 0, failed: 0 };
+      }
+
+      const partIds = Array.from(new Set(rows.map((row) => row.partId)));
+      const errors = await this.pushAll(partIds);
+
+      const done = rows.filter((row) => !errors.has(row.partId));
+      if (done.length > 0) {
+        await this.prisma.searchOutbox.deleteMany({
+          where: { id: { in: done.map((row) => row.id) } },
+        });
+      }
+      const failed = rows.filter((row) => errors.has(row.partId));
+      if (failed.length > 0 && !this.meilisearch.isAvailable()) {
+        await this.postpone(failed, errors, now);
+        this.logger.warn(
+          `Search outbox: Meilisearch unavailable, ${failed.length} row(s) postponed`,
+        );
+        return { pushed: partIds.length - errors.size, failed: 0 };
+      }
+      if (failed.length > 0) {
+        await this.retryLater(failed, errors, now);
+        this.logger.warn(
+          `Search outbox: ${errors.size} part(s) not indexed: ${errors.values().next().value}`,
+        );
+      }
+
+      return { pushed: partIds.length - errors.size, failed: errors.size };
+    } finally {
+      await this.redis.getClient().eval(RELEASE_LOCK_SCRIPT, 1, LOCK_KEY, token);
+    }
+  }
+
+  /**
+   * [7] OUTBOX STATUS (admin monitoring)
+   *     lagSeconds: age of the oldest pending row (0 = index up to date)
+   */
+  async getStatus(now = new Date()) {
+    const [pending, failed, oldest, failedDocuments] = await Promise.all([
+      this.prisma.searchOutbox.count({ where: { status: SearchOutboxStatus.PENDING } }),
+      this.prisma.searchOutbox.count({ where: { status: SearchOutboxStatus.FAILED } }),
+      this.prisma.searchOutbox.findFirst({
+        where: { status: SearchOutboxStatus.PENDING },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      }),
+      this.prisma.searchOutbox.findMany({
+        where: { status: SearchOutboxStatus.FAILED },
+        orderBy: { updatedAt: 'desc' },
+        take: FAILED_LIST_LIMIT,
+        select: {
+          id: true,
+          partId: true,
+          attempts: true,
+          lastError: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+    ]);
+
+    return {
+      workerEnabled: this.intervalMs > 0,
+      meilisearchAvailable: this.meilisearch.isAvailable(),
+      pending,
+      failed,
+      oldestPendingAt: oldest?.createdAt ?? null,
+      lagSeconds: oldest
+        ? Math.max(0, Math.round((now.getTime() - oldest.createdAt.getTime()) / 1000))
+        : 0,
+      failedDocuments,
+    };
+  }
+
+  /**
+   * [8] RETRY FAILED ROWS (all, or the given ids) on the next run
+   */
+  async retryFailed(ids?: string[]): Promise<{ requeued: number }> {
+    const { count } = await this.prisma.searchOutbox.updateMany({
+      where: { status: SearchOutboxStatus.FAILED, ...(ids && { id: { in: ids } }) },
+      data: { status: SearchOutboxStatus.PENDING, attempts: 0, availableAt: new Date() },
+    });
+    return { requeued: count };
+  }
+
+  // [6a] Whole batch first; rejected while Meilisearch is up → one part at a time
+  private async pushAll(partIds: string[]): Promise<Map<string, string>> {
+    try {
+      await this.push(partIds);
+      return new Map();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (partIds.length === 1 || !this.meilisearch.isAvailable()) {
+        return new Map(partIds.map((partId) => [partId, message]));
+      }
+    }
+
+    const errors = new Map<string, string>();
+    for (const partId of partIds) {
+      // Went down during the run: the remaining parts are postponed, not tried
+      if (!this.meilisearch.isAvailable()) {
+        errors.set(partId, 'Meilisearch unavailable');
+        continue;
+      }
+      try {
+        await this.push([partId]);
+      } catch (error: unknown) {
+        errors.set(partId, error instanceof Error ? error.message : String(error));
+      }
+    }
+    return errors;
+  }
+
+  private async push(partIds: string[]): Promise<void> {
+    const [parts, categories] = await Promise.all([
+      this.prisma.part.findMany({
+        where: { id: { in: partIds }, status: 'PUBLISHED' },
+        include: PART_DOCUMENT_INCLUDE,
+      }) as unknown as Promise<PartWithRelations[]>,
+      loadCategoryNodes(this.prisma),
+    ]);
+
+    const published = new Set(parts.map((part) => part.id));
+    await this.meilisearch.applyChanges(
+      parts.map((part) => toPartDocument(part, categories)),
+      partIds.filter((partId) => !published.has(partId)),
+    );
+  }
+
+  // [6b] Backoff per row; FAILED once out of attempts
+  private async retryLater(rows: OutboxRow[], errors: Map<string, string>, now: Date) {
+    await this.prisma.$transaction(
+      rows.map((row) => {
+        const attempts = row.attempts + 1;
+        const delayMs = Math.min(BACKOFF_BASE_MS * 2 ** attempts, BACKOFF_MAX_MS);
+        return this.prisma.searchOutbox.update({
+          where: { id: row.id },
+          data: {
+            attempts,
+            lastError: errors.get(row.partId),
+            availableAt: new Date(now.getTime() + delayMs),
+            ...(attempts >= this.maxAttempts && { status: SearchOutboxStatus.FAILED }),
+          },
+        });
+      }),
+    );
+  }
+
+  // [6c] Meilisearch unavailable: same attempts, next try after the backoff base
+  private async postpone(rows: OutboxRow[], errors: Map<string, string>, now: Date) {
+    await this.prisma.searchOutbox.updateMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      data: {
+        lastError: errors.get(rows[0].partId),
+        availableAt: new Date(now.getTime() + BACKOFF_BASE_MS),
+      },
+    });
+  }
+
+  private readInt(key: string, fallback: number): number {
+    return parseInt(this.configService.get<string>(key, String(fallback)), 10);
+  }
+}
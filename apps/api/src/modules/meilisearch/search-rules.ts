@@ -0,0 +1,149 @@
+/**
+ * [1] SEARCH RULES (admin-managed Meilisearch settings, versioned in SearchSettingsVersion)
+ *     [1a] synonyms: groups of interchangeable words or phrases (French, English, slang)
+ *          ["plaquette", "brake pad"] → searching either finds both
+ *     [1b] stopWords: ignored in queries ("filtre à huile pour corolla" → filtre huile corolla)
+ *     [1c] typo: word sizes allowing 1 / 2 typos, words and attributes matched exactly
+ *          (OEM numbers: "15400PLMA01" must not find "15400PLMA02")
+ *     [1d] rankingRules: Meilisearch built-ins and "attribute:asc|desc" on sortable attributes
+ */
+
+import { Settings } from 'meilisearch';
+import { PART_SEARCHABLE_ATTRIBUTES, PART_SORTABLE_ATTRIBUTES } from './meilisearch.service';
+
+export interface SearchRules {
+  synonyms: string[][];
+  stopWords: string[];
+  typo: {
+    minWordSizeForOneTypo: number;
+    minWordSizeForTwoTypos: number;
+    disableOnWords: string[];
+    disableOnAttributes: string[];
+  };
+  rankingRules: string[];
+}
+
+export const BUILT_IN_RANKING_RULES = [
+  'words',
+  'typo',
+  'proximity',
+  'attribute',
+  'sort',
+  'exactness',
+];
+
+export const DEFAULT_SEARCH_RULES: SearchRules = {
+  synonyms: [
+    ['plaquette', 'plaquettes de frein', 'brake pad', 'brake pads'],
+    ['disque de frein', 'brake disc', 'brake rotor'],
+    ['amortisseur', 'shock', 'shock absorber'],
+    ['batterie', 'battery'],
+    ['filtre à huile', 'oil filter'],
+    ['bougie', 'spark plug'],
+    ['courroie de distribution', 'timing belt'],
+    ['embrayage', 'clutch'],
+    ['peugeot', 'pijo'],
+  ],
+  stopWords: ['le', 'la', 'les', 'de', 'du', 'des', 'pour', 'et', 'the', 'for', 'of', 'and'],
+  typo: {
+    minWordSizeForOneTypo: 4,
+    minWordSizeForTwoTypos: 8,
+    disableOnWords: [],
+    disableOnAttributes: ['oemRefs', 'normalizedOemRefs'],
+  },
+  rankingRules: [...BUILT_IN_RANKING_RULES],
+};
+
+/**
+ * [2] NORMALIZE: lowercase, single spaces, no duplicates; synonym groups of one word dropped
+ */
+export function normalizeSearchRules(rules: SearchRules): SearchRules {
+  const clean = (words: string[]) =>
+    Array.from(new Set(words.map((word) => word.trim().replace(/\s+/g, ' ').toLowerCase()))).filter(
+      Boolean,
+    );
+
+  return {
+    synonyms: rules.synonyms.map(clean).filter((group) => group.length > 1),
+    stopWords: clean(rules.stopWords),
+    typo: {
+      minWordSizeForOneTypo: rules.typo.minWordSizeForOneTypo,
+      minWordSizeForTwoTypos: rules.typo.minWordSizeForTwoTypos,
+      disableOnWords: clean(rules.typo.disableOnWords),
+      disableOnAttributes: Array.from(new Set(rules.typo.disableOnAttributes)),
+    },
+    rankingRules: rules.rankingRules.map((rule) => rule.trim()),
+  };
+}
+
+/**
+ * [3] PROBLEMS Meilisearch would reject (or that would break /parts/search); empty = valid
+ *     Checked before normalizeSearchRules
+ */
+export function searchRulesProblems(rules: SearchRules): string[] {
+  const problems: string[] = [];
+
+  if (rules.synonyms.some((group) => group.some((word) => typeof word !== 'string'))) {
+    problems.push('synonyms must be groups of strings');
+  }
+  if (rules.typo.minWordSizeForOneTypo > rules.typo.minWordSizeForTwoTypos) {
+    problems.push('typo.minWordSizeForOneTypo must not exceed typo.minWordSizeForTwoTypos');
+  }
+  for (const attribute of rules.typo.disableOnAttributes) {
+    if (!PART_SEARCHABLE_ATTRIBUTES.includes(attribute)) {
+      problems.push(`typo.disableOnAttributes: "${attribute}" is not a searchable attribute`);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const rule of rules.rankingRules) {
+    const [attribute, direction] = rule.split(':');
+    const custom =
+      direction !== undefined &&
+      PART_SORTABLE_ATTRIBUTES.includes(attribute) &&
+      (direction === 'asc' || direction === 'desc');
+    if (!BUILT_IN_RANKING_RULES.includes(rule) && !custom) {
+      problems.push(`rankingRules: unknown rule "${rule}"`);
+    }
+    if (seen.has(attribute)) {
+      problems.push(`rankingRules: "${attribute}" listed twice`);
+    }
+    seen.add(attribute);
+  }
+  // Sorted searches (price, newest, stock) fail without it
+  if (!rules.rankingRules.includes('sort')) {
+    problems.push('rankingRules must include "sort"');
+  }
+
+  return problems;
+}
+
+/**
+ * [4] RULES → MEILISEARCH SETTINGS
+ *     A group becomes a mutual synonym list: every word maps to all the others
+ *     (a word in several groups maps to the words of all of them)
+ */
+export function toMeilisearchSettings(rules: SearchRules): Settings {
+  const synonyms: Record<string, string[]> = {};
+  for (const group of rules.synonyms) {
+    for (const word of group) {
+      const others = group.filter((other) => other !== word);
+      synonyms[word] = Array.from(new Set([...(synonyms[word] ?? []), ...others]));
+    }
+  }
+
+  return {
+    synonyms,
+    stopWords: rules.stopWords,
+    rankingRules: rules.rankingRules,
+    typoTolerance: {
+      enabled: true,
+      minWordSizeForTypos: {
+        oneTypo: rules.typo.minWordSizeForOneTypo,
+        twoTypos: rules.typo.minWordSizeForTwoTypos,
+      },
+      disableOnWords: rules.typo.disableOnWords,
+      disableOnAttributes: rules.typo.disableOnAttributes,
+    },
+  };
+}
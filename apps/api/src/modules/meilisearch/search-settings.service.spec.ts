@@ -0,0 +1,218 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║             SEARCH SETTINGS TESTS — Versioned Synonyms, Stop Words, Typo and Ranking Rules        ║
+ * ║  Tests: defaults, validation, version numbers, apply failure, restore, export, settings mapping   ║
+ * ║  Focus: a saved version is never lost, even when Meilisearch refuses or is down                   ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SearchSettingsService } from './search-settings.service';
+import { MeilisearchService } from './meilisearch.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { DEFAULT_SEARCH_RULES, SearchRules, toMeilisearchSettings } from './search-rules';
+
+describe('SearchSettingsService', () => {
+  let service: SearchSettingsService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let meilisearch: { applySettings: jest.Mock; isAvailable: jest.Mock };
+
+  const createdAt = new Date('2026-01-06T10:00:00Z');
+
+  const rules = (overrides: Partial<SearchRules> = {}): SearchRules => ({
+    ...DEFAULT_SEARCH_RULES,
+    typo: { ...DEFAULT_SEARCH_RULES.typo },
+    ...overrides,
+  });
+
+  const versionRow = (version: number, overrides: Record<string, unknown> = {}) => ({
+    id: `settings-${version}`,
+    version,
+    rules: rules(),
+    note: null,
+    createdById: 'admin-1',
+    appliedAt: null,
+    createdAt,
+    ...overrides,
+  });
+
+  const createPrismaMock = () => ({
+    searchSettingsVersion: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn(({ data }: { data: { version: number } }) =>
+        Promise.resolve(versionRow(data.version, data)),
+      ),
+      update: jest.fn(({ data }: { data: Record<string, unknown> }) => Promise.resolve(data)),
+    },
+  });
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+    meilisearch = {
+      applySettings: jest.fn().mockResolvedValue(undefined),
+      isAvailable: jest.fn().mockReturnValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchSettingsService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: MeilisearchService, useValue: meilisearch },
+      ],
+    }).compile();
+
+    service = module.get<SearchSettingsService>(SearchSettingsService);
+  });
+
+  describe('getActive', () => {
+    it('returns the built-in defaults as version 0 until a version is saved', async () => {
+      await expect(service.getActive()).resolves.toMatchObject({
+        version: 0,
+        rules: DEFAULT_SEARCH_RULES,
+      });
+    });
+
+    it('returns the latest version', async () => {
+      mockPrisma.searchSettingsVersion.findFirst.mockResolvedValue(versionRow(3));
+
+      await expect(service.getActive()).resolves.toMatchObject({ version: 3 });
+      expect(mockPrisma.searchSettingsVersion.findFirst).toHaveBeenCalledWith({
+        orderBy: { version: 'desc' },
+      });
+    });
+  });
+
+  describe('save', () => {
+    it('stores normalized rules as the next version and applies them', async () => {
+      mockPrisma.searchSettingsVersion.findFirst.mockResolvedValue({ version: 2 });
+
+      const result = await service.save(
+        rules({ synonyms: [[' Plaquette ', 'brake  pad', 'plaquette'], ['seul']] }),
+        'Plaquettes',
+        'admin-1',
+      );
+
+      expect(mockPrisma.searchSettingsVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          version: 3,
+          rules: expect.objectContaining({ synonyms: [['plaquette', 'brake pad']] }),
+          note: 'Plaquettes',
+          createdById: 'admin-1',
+        }),
+      });
+      expect(meilisearch.applySettings).toHaveBeenCalledWith(
+        expect.objectContaining({
+          synonyms: { plaquette: ['brake pad'], 'brake pad': ['plaquette'] },
+        }),
+      );
+      expect(mockPrisma.searchSettingsVersion.update).toHaveBeenCalledWith({
+        where: { version: 3 },
+        data: { appliedAt: expect.any(Date) },
+        select: { appliedAt: true },
+      });
+      expect(result).toMatchObject({ version: 3, applied: true, appliedAt: expect.any(Date) });
+    });
+
+    it('rejects rules Meilisearch would refuse without saving a version', async () => {
+      const invalid = rules({ rankingRules: ['words', 'typo', 'price:up'] });
+      invalid.typo.disableOnAttributes = ['vendorId'];
+
+      await expect(service.save(invalid, undefined, 'admin-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrisma.searchSettingsVersion.create).not.toHaveBeenCalled();
+    });
+
+    it('keeps the version when Meilisearch is down and reports it as not applied', async () => {
+      meilisearch.applySettings.mockRejectedValue(new Error('Meilisearch not initialized'));
+
+      await expect(service.save(rules(), undefined, 'admin-1')).resolves.toMatchObject({
+        version: 1,
+        applied: false,
+        appliedAt: null,
+        error: 'Meilisearch not initialized',
+      });
+      expect(mockPrisma.searchSettingsVersion.update).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when another admin saved the same version number first', async () => {
+      mockPrisma.searchSettingsVersion.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(service.save(rules(), undefined, 'admin-1')).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('restore / export', () => {
+    it('saves an older version again as the newest one', async () => {
+      const old = rules({ stopWords: ['pour'] });
+      mockPrisma.searchSettingsVersion.findUnique.mockResolvedValue(versionRow(1, { rules: old }));
+      mockPrisma.searchSettingsVersion.findFirst.mockResolvedValue({ version: 4 });
+
+      await expect(service.restore(1, 'admin-2')).resolves.toMatchObject({ version: 5 });
+      expect(mockPrisma.searchSettingsVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          version: 5,
+          rules: expect.objectContaining({ stopWords: ['pour'] }),
+          note: 'Restored from version 1',
+          createdById: 'admin-2',
+        }),
+      });
+    });
+
+    it('returns 404 for an unknown version', async () => {
+      await expect(service.restore(9, 'admin-1')).rejects.toThrow(NotFoundException);
+    });
+
+    it('exports the active rules in the import format', async () => {
+      mockPrisma.searchSettingsVersion.findFirst.mockResolvedValue(versionRow(2));
+
+      await expect(service.export()).resolves.toMatchObject({
+        format: 'alove.search-settings',
+        version: 2,
+        exportedAt: expect.any(String),
+        rules: rules(),
+      });
+    });
+  });
+
+  describe('toMeilisearchSettings', () => {
+    it('matches OEM numbers exactly and merges groups sharing a word', () => {
+      const settings = toMeilisearchSettings(
+        rules({
+          synonyms: [
+            ['pijo', 'peugeot'],
+            ['peugeot', 'pgt'],
+          ],
+        }),
+      );
+
+      expect(settings.synonyms).toEqual({
+        pijo: ['peugeot'],
+        peugeot: ['pijo', 'pgt'],
+        pgt: ['peugeot'],
+      });
+      expect(settings.typoTolerance).toMatchObject({
+        minWordSizeForTypos: { oneTypo: 4, twoTypos: 8 },
+        disableOnAttributes: ['oemRefs', 'normalizedOemRefs'],
+      });
+    });
+  });
+
+  it('pushes the active rules on startup when Meilisearch is available', async () => {
+    await service.onApplicationBootstrap();
+    expect(meilisearch.applySettings).toHaveBeenCalledTimes(1);
+
+    meilisearch.isAvailable.mockReturnValue(false);
+    await service.onApplicationBootstrap();
+    expect(meilisearch.applySettings).toHaveBeenCalledTimes(1);
+  });
+});
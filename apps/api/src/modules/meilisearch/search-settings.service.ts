@@ -0,0 +1,202 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        SEARCH SETTINGS SERVICE — Versioned Synonyms, Stop Words, Typo Rules       ║
+ * ║  Implements: Save / restore / import a version, export the active one, push it to Meilisearch     ║
+ * ║  Uses: Prisma (SearchSettingsVersion), MeilisearchService.applySettings, search-rules.ts          ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] VERSIONS
+ *     [1a] Every save, import or restore writes a new version (1, 2, 3…); versions are never edited
+ *     [1b] Active rules = latest version; none saved yet → DEFAULT_SEARCH_RULES (version 0)
+ *     [1c] Two admins saving at once: the second gets 409 (version number taken), nothing lost
+ *
+ * [2] APPLYING
+ *     [2a] Saved first, then pushed to the index: appliedAt set once Meilisearch accepted the settings
+ *     [2b] Meilisearch down or rejecting them → version kept with appliedAt null, applied: false and
+ *          the error in the response; the active rules are pushed again at the next startup
+ *     [2c] Rules are only used by Meilisearch: the PostgreSQL fallback ignores them
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MeilisearchService } from './meilisearch.service';
+import {
+  DEFAULT_SEARCH_RULES,
+  SearchRules,
+  normalizeSearchRules,
+  searchRulesProblems,
+  toMeilisearchSettings,
+} from './search-rules';
+
+export const SEARCH_SETTINGS_FORMAT = 'alove.search-settings';
+
+export interface SearchSettingsVersionView {
+  version: number;
+  rules: SearchRules;
+  note: string | null;
+  createdById: string | null;
+  appliedAt: Date | null;
+  createdAt: Date | null;
+}
+
+@Injectable()
+export class SearchSettingsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SearchSettingsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly meilisearch: MeilisearchService,
+  ) {}
+
+  /**
+   * [3] PUSH THE ACTIVE RULES ON STARTUP (new index, or a version saved while Meilisearch was down)
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.meilisearch.isAvailable()) {
+      return;
+    }
+    const active = await this.getActive();
+    await this.apply(active);
+  }
+
+  /**
+   * [4] ACTIVE RULES
+   */
+  async getActive(): Promise<SearchSettingsVersionView> {
+    const latest = await this.prisma.searchSettingsVersion.findFirst({
+      orderBy: { version: 'desc' },
+    });
+    return latest
+      ? this.toView(latest)
+      : {
+          version: 0,
+          rules: DEFAULT_SEARCH_RULES,
+          note: 'Default rules',
+          createdById: null,
+          appliedAt: null,
+          createdAt: null,
+        };
+  }
+
+  /**
+   * [5] HISTORY (newest first, without the rules)
+   */
+  async listVersions() {
+    return this.prisma.searchSettingsVersion.findMany({
+      orderBy: { version: 'desc' },
+      select: { version: true, note: true, createdById: true, appliedAt: true, createdAt: true },
+    });
+  }
+
+  async getVersion(version: number): Promise<SearchSettingsVersionView> {
+    const found = await this.prisma.searchSettingsVersion.findUnique({ where: { version } });
+    if (!found) {
+      throw new NotFoundException(`Search settings version ${version} not found`);
+    }
+    return this.toView(found);
+  }
+
+  /**
+   * [6] SAVE A NEW VERSION (edit, import) AND PUSH IT
+   */
+  async save(rules: SearchRules, note: string | undefined, userId: string) {
+    const problems = searchRulesProblems(rules);
+    if (problems.length > 0) {
+      throw new BadRequestException(problems);
+    }
+
+    const latest = await this.prisma.searchSettingsVersion.findFirst({
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    let created;
+    try {
+      created = await this.prisma.searchSettingsVersion.create({
+        data: {
+          version: (latest?.version ?? 0) + 1,
+          rules: normalizeSearchRules(rules) as unknown as Prisma.InputJsonValue,
+          note,
+          createdById: userId,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('Search settings were changed meanwhile, reload and retry');
+      }
+      throw error;
+    }
+
+    return this.apply(this.toView(created));
+  }
+
+  /**
+   * [7] RESTORE: new version with the rules of an older one
+   */
+  async restore(version: number, userId: string) {
+    const old = await this.getVersion(version);
+    return this.save(old.rules, `Restored from version ${version}`, userId);
+  }
+
+  /**
+   * [8] EXPORT (the body of POST /import)
+   */
+  async export() {
+    const active = await this.getActive();
+    return {
+      format: SEARCH_SETTINGS_FORMAT,
+      version: active.version,
+      exportedAt: new Date().toISOString(),
+      note: active.note ?? undefined,
+      rules: active.rules,
+    };
+  }
+
+  // [2a] Push to Meilisearch; a failure is reported, not thrown (the version is saved)
+  private async apply(view: SearchSettingsVersionView) {
+    try {
+      await this.meilisearch.applySettings(toMeilisearchSettings(view.rules));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Search settings version ${view.version} not applied: ${message}`);
+      return { ...view, applied: false, error: message };
+    }
+
+    let appliedAt = view.appliedAt;
+    if (view.version > 0 && !appliedAt) {
+      ({ appliedAt } = await this.prisma.searchSettingsVersion.update({
+        where: { version: view.version },
+        data: { appliedAt: new Date() },
+        select: { appliedAt: true },
+      }));
+    }
+    this.logger.log(`Search settings version ${view.version} applied`);
+    return { ...view, appliedAt, applied: true };
+  }
+
+  private toView(row: {
+    version: number;
+    rules: Prisma.JsonValue;
+    note: string | null;
+    createdById: string | null;
+    appliedAt: Date | null;
+    createdAt: Date;
+  }): SearchSettingsVersionView {
+    return {
+      version: row.version,
+      rules: row.rules as unknown as SearchRules,
+      note: row.note,
+      createdById: row.createdById,
+      appliedAt: row.appliedAt,
+      createdAt: row.createdAt,
+    };
+  }
+}
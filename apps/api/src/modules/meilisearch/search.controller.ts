@@ -7,17 +7,22 @@
  * [1] ENDPOINTS
  *     [1a] GET /search/status - Get current index sync status
  *     [1b] POST /search/sync - Trigger manual full sync (admin only)
+ *     [1c] Indexing lag and failed documents: GET /admin/search/outbox (AdminSearchController)
+ *     [1d] POST /search/events - Click / add to cart on a search result (public, anonymous)
  *
  * [2] USE CASES
  *     [2a] Monitoring dashboard: Check if index is in sync with DB
- *     [2b] Manual sync: Force re-index after data corruption or migration
+ *     [2b] Manual sync: disaster recovery only (lost or corrupted index); day-to-day changes reach
+ *          the index through the search outbox
  *     [2c] Health checks: Verify search service is operational
  */
 
-import { Controller, Get, Post, HttpCode, HttpStatus, Logger } from '@nestjs/common';
+import { Controller, Get, Post, Body, HttpCode, HttpStatus, Logger } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { SearchSyncService } from './search-sync.service';
 import { MeilisearchService } from './meilisearch.service';
+import { SearchAnalyticsService } from './search-analytics.service';
+import { SearchEventDto } from './dto/search-analytics.dto';
 
 @ApiTags('search')
 @Controller('search')
@@ -27,6 +32,7 @@ export class SearchController {
   constructor(
     private readonly searchSync: SearchSyncService,
     private readonly meilisearch: MeilisearchService,
+    private readonly searchAnalytics: SearchAnalyticsService,
   ) {}
 
   /**
@@ -71,7 +77,7 @@ export class SearchController {
   @ApiOperation({
     summary: 'Trigger manual full sync of search index',
     description:
-      'Re-indexes all published parts. Use after data migration or if index is out of sync.',
+      'Clears and re-indexes all published parts. Disaster recovery only: changes are indexed through the search outbox.',
   })
   @ApiResponse({
     status: 202,
@@ -110,4 +116,22 @@ export class SearchController {
   async getStats() {
     return this.meilisearch.getStats();
   }
+
+  /**
+   * [6] POST /search/events - CLICK / ADD TO CART ATTRIBUTION
+   *     { searchId (meta.searchId of GET /parts/search), partId, type: CLICK | ADD_TO_CART }
+   *     Public endpoint; one event of each type per part and search, repeats ignored
+   */
+  @Post('events')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Record a click or add to cart on a search result',
+    description: 'Feeds the click-through reports of GET /admin/search/analytics/*',
+  })
+  @ApiResponse({ status: 200, description: '{ recorded, position } (recorded: false if repeated)' })
+  @ApiResponse({ status: 400, description: 'Part not shown by this search' })
+  @ApiResponse({ status: 404, description: 'Search not found' })
+  async recordEvent(@Body() dto: SearchEventDto) {
+    return this.searchAnalytics.recordEvent(dto.searchId, dto.partId, dto.type);
+  }
 }
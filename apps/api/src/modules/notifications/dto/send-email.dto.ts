@@ -3,7 +3,16 @@
  *     Validates email sending requests
  */
 
-import { IsString, IsEmail, IsArray, IsOptional, IsObject } from 'class-validator';
+import {
+  IsString,
+  IsEmail,
+  IsArray,
+  IsOptional,
+  IsObject,
+  IsNotEmpty,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 
 export enum EmailTemplate {
   ORDER_CONFIRMATION = 'order_confirmation',
@@ -12,11 +21,28 @@ export enum EmailTemplate {
   ORDER_SHIPPED = 'order_shipped',
   ORDER_DELIVERED = 'order_delivered',
   REFUND_PROCESSED = 'refund_processed',
+  RETURN_UPDATED = 'return_updated',
+  PICKUP_PIN = 'pickup_pin',
   WELCOME = 'welcome',
   PASSWORD_RESET = 'password_reset',
   EMAIL_VERIFICATION = 'email_verification',
 }
 
+export class EmailAttachmentDto {
+  // [1a] FILE NAME shown to the recipient (e.g., FA-TG-2025-000042.pdf)
+  @IsString()
+  @IsNotEmpty()
+  filename!: string;
+
+  // [1b] MIME TYPE (e.g., application/pdf)
+  @IsString()
+  contentType!: string;
+
+  // [1c] FILE CONTENT, base64 encoded
+  @IsString()
+  content!: string;
+}
+
 export class SendEmailDto {
   // [2] RECIPIENT EMAIL
   @IsEmail()
@@ -49,4 +75,11 @@ export class SendEmailDto {
   @IsOptional()
   @IsString()
   subject?: string;
+
+  // [8] ATTACHMENTS (OPTIONAL, e.g., invoice / receipt PDFs)
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => EmailAttachmentDto)
+  attachments?: EmailAttachmentDto[];
 }
@@ -12,18 +12,20 @@ export enum SMSTemplate {
   ORDER_SHIPPED = 'order_shipped', // Your order #12345 shipped (tracking)
   DELIVERY_UPDATE = 'delivery_update', // Order arriving today
   REFUND_PROCESSED = 'refund_processed', // Refund of XOF 50,000 processed
+  PICKUP_PIN = 'pickup_pin', // Show PIN 123456 to collect order #12345 at vendor
 }
 
 export class SendSmsDto {
   // [2] RECIPIENT PHONE NUMBER
   //     International format: +228XXXXXXXX (Togo), +229XXXXXXXX (Benin), etc.
-  @IsMobilePhone('fr-TG' || 'fr-BJ' || 'fr-NE') // West African formats
-  phoneNumber: string;
+  //     validator has no fr-TG / fr-NE locale → any locale, strict mode (leading + required)
+  @IsMobilePhone(undefined, { strictMode: true })
+  phoneNumber!: string;
 
   // [3] SMS TEMPLATE
   //     Which template to use
   @IsEnum(SMSTemplate)
-  template: SMSTemplate;
+  template!: SMSTemplate;
 
   // [4] TEMPLATE VARIABLES
   //     Data to inject into SMS (e.g., { orderId, amount, otp })
@@ -1,15 +1,40 @@
-import { IsString, IsOptional, IsArray, ValidateNested } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsEnum,
+  IsIn,
+  ValidateNested,
+  ValidateIf,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { PaymentMethod } from '../../payments/dto/create-payment.dto';
+
+export enum FulfilmentMethod {
+  DELIVERY = 'DELIVERY',
+  PICKUP = 'PICKUP', // Customer collects at the vendor with a PIN
+}
 
 export class VendorShippingDto {
   @ApiProperty({ description: 'Vendor ID' })
   @IsString()
-  vendorId: string;
+  vendorId!: string;
+
+  @ApiProperty({
+    enum: FulfilmentMethod,
+    description: 'Delivery to an address or pickup at the vendor',
+    required: false,
+    default: FulfilmentMethod.DELIVERY,
+  })
+  @IsEnum(FulfilmentMethod)
+  @IsOptional()
+  fulfilment?: FulfilmentMethod;
 
-  @ApiProperty({ description: 'Selected address ID for this vendor' })
+  @ApiProperty({ description: 'Selected address ID (required for delivery)', required: false })
+  @ValidateIf((vs) => vs.fulfilment !== FulfilmentMethod.PICKUP)
   @IsString()
-  addressId: string;
+  addressId?: string;
 
   @ApiProperty({ description: 'Delivery notes for this vendor', required: false })
   @IsString()
@@ -25,5 +50,14 @@ export class CheckoutDto {
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => VendorShippingDto)
-  vendorShipping: VendorShippingDto[];
+  vendorShipping!: VendorShippingDto[];
+
+  @ApiProperty({
+    enum: [PaymentMethod.CASH_ON_PICKUP],
+    description: 'Pay cash to each vendor at pickup (every vendor must use PICKUP)',
+    required: false,
+  })
+  @IsIn([PaymentMethod.CASH_ON_PICKUP])
+  @IsOptional()
+  paymentMethod?: PaymentMethod.CASH_ON_PICKUP;
 }
@@ -0,0 +1,18 @@
+import { IsNumber, IsOptional, IsString, Matches, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ConfirmPickupDto {
+  @ApiProperty({ description: '6-digit PIN shown by the customer', example: '042917' })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'pin must be 6 digits' })
+  pin!: string;
+
+  @ApiProperty({
+    description: 'Cash collected (XOF). Required when the shipment is paid cash on pickup',
+    required: false,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  cashCollected?: number;
+}
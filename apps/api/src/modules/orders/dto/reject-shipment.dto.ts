@@ -0,0 +1,13 @@
+import { IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RejectShipmentDto {
+  @ApiProperty({
+    description: 'Why the vendor cannot fulfil the shipment (shown on the tracking timeline)',
+    example: 'Part out of stock',
+  })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(500)
+  reason!: string;
+}
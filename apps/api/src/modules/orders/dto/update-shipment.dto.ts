@@ -1,11 +1,21 @@
-import { IsString, IsOptional } from 'class-validator';
+import { IsString, IsOptional, IsEnum, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
+export enum ShipmentStatus {
+  CREATED = 'CREATED',
+  READY = 'READY', // Packed, waiting for the carrier / the customer (pickup)
+  SHIPPED = 'SHIPPED',
+  IN_TRANSIT = 'IN_TRANSIT', // Carrier scan, can repeat with a new location
+  DELIVERED = 'DELIVERED',
+  RETURNED = 'RETURNED', // Sent back to the vendor (refused, undeliverable)
+  CANCELLED = 'CANCELLED',
+}
+
 export class UpdateShipmentDto {
-  @ApiProperty({ description: 'Shipment status', required: false })
-  @IsString()
+  @ApiProperty({ enum: ShipmentStatus, description: 'Shipment status', required: false })
+  @IsEnum(ShipmentStatus)
   @IsOptional()
-  status?: string; // CREATED, SHIPPED, DELIVERED, CANCELLED
+  status?: ShipmentStatus;
 
   @ApiProperty({ description: 'Carrier name', required: false })
   @IsString()
@@ -17,8 +27,15 @@ export class UpdateShipmentDto {
   @IsOptional()
   trackingNumber?: string;
 
-  @ApiProperty({ description: 'Pickup PIN for customer verification', required: false })
+  @ApiProperty({ description: 'Where the event happened (e.g. "Lomé hub")', required: false })
+  @IsString()
+  @MaxLength(120)
+  @IsOptional()
+  location?: string;
+
+  @ApiProperty({ description: 'Note shown on the tracking timeline', required: false })
   @IsString()
+  @MaxLength(500)
   @IsOptional()
-  pickupPin?: string;
+  note?: string;
 }
@@ -0,0 +1,54 @@
+import { IsDateString, IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { OrderStatus } from '@prisma/client';
+import { ShipmentStatus } from './update-shipment.dto';
+
+/**
+ * Filters shared by the vendor inbox lists (orders and shipments)
+ */
+class VendorInboxQueryDto {
+  @ApiProperty({ description: "Only one of the caller's vendors", required: false })
+  @IsString()
+  @IsOptional()
+  vendorId?: string;
+
+  @ApiProperty({ description: 'Created on or after (ISO date)', required: false })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiProperty({ description: 'Created on or before (ISO date)', required: false })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+
+  @ApiProperty({ required: false, default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiProperty({ required: false, default: 20, maximum: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  pageSize?: number = 20;
+}
+
+export class VendorOrdersQueryDto extends VendorInboxQueryDto {
+  @ApiProperty({ enum: OrderStatus, description: 'Order status', required: false })
+  @IsEnum(OrderStatus)
+  @IsOptional()
+  status?: OrderStatus;
+}
+
+export class VendorShipmentsQueryDto extends VendorInboxQueryDto {
+  @ApiProperty({ enum: ShipmentStatus, description: 'Shipment status', required: false })
+  @IsEnum(ShipmentStatus)
+  @IsOptional()
+  status?: ShipmentStatus;
+}
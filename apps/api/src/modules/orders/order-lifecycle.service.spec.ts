@@ -0,0 +1,147 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                ORDER LIFECYCLE SERVICE TESTS — State Machine Unit Tests                           ║
+ * ║  Tests: Transition table, conditional updates, history rows, shipment sync                        ║
+ * ║  Focus: Invalid moves rejected, concurrent changes detected                                       ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { OrderStatus } from '@prisma/client';
+import { OrderLifecycleService, SYSTEM_ACTOR } from './order-lifecycle.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PromotionService } from '../promotions/promotion.service';
+
+describe('OrderLifecycleService', () => {
+  let service: OrderLifecycleService;
+  let tx: {
+    order: { findUnique: jest.Mock; updateMany: jest.Mock };
+    orderStatusHistory: { create: jest.Mock };
+  };
+  let promotions: { release: jest.Mock };
+
+  beforeEach(async () => {
+    tx = {
+      order: {
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      orderStatusHistory: {
+        create: jest.fn().mockResolvedValue({}),
+      },
+    };
+
+    const mockPrisma = {
+      $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    };
+
+    promotions = { release: jest.fn().mockResolvedValue(null) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderLifecycleService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: PromotionService, useValue: promotions },
+      ],
+    }).compile();
+
+    service = module.get<OrderLifecycleService>(OrderLifecycleService);
+  });
+
+  describe('canTransition', () => {
+    it('should allow the happy path', () => {
+      expect(service.canTransition(OrderStatus.PENDING_PAYMENT, OrderStatus.PAID)).toBe(true);
+      expect(service.canTransition(OrderStatus.PAID, OrderStatus.PROCESSING)).toBe(true);
+      expect(service.canTransition(OrderStatus.PROCESSING, OrderStatus.SHIPPED)).toBe(true);
+      expect(service.canTransition(OrderStatus.SHIPPED, OrderStatus.DELIVERED)).toBe(true);
+    });
+
+    it('should reject skipping or leaving terminal statuses', () => {
+      expect(service.canTransition(OrderStatus.PENDING_PAYMENT, OrderStatus.SHIPPED)).toBe(false);
+      expect(service.canTransition(OrderStatus.PAID, OrderStatus.CANCELLED)).toBe(false);
+      expect(service.canTransition(OrderStatus.CANCELLED, OrderStatus.PAID)).toBe(false);
+      expect(service.canTransition(OrderStatus.REFUNDED, OrderStatus.PAID)).toBe(false);
+    });
+  });
+
+  describe('transition', () => {
+    it('should update status and append a history row', async () => {
+      tx.order.findUnique.mockResolvedValue({ id: 'o1', status: OrderStatus.PENDING_PAYMENT });
+
+      const result = await service.transition('o1', OrderStatus.PAID, SYSTEM_ACTOR, 'paid');
+
+      expect(result.status).toBe(OrderStatus.PAID);
+      expect(tx.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'o1', status: OrderStatus.PENDING_PAYMENT },
+        data: { status: OrderStatus.PAID },
+      });
+      expect(tx.orderStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          orderId: 'o1',
+          fromStatus: OrderStatus.PENDING_PAYMENT,
+          toStatus: OrderStatus.PAID,
+          actorType: 'SYSTEM',
+        }),
+      });
+      expect(promotions.release).not.toHaveBeenCalled();
+    });
+
+    it('should release the coupon of a cancelled order in the same transaction', async () => {
+      tx.order.findUnique.mockResolvedValue({ id: 'o1', status: OrderStatus.PENDING_PAYMENT });
+
+      await service.transition('o1', OrderStatus.CANCELLED, SYSTEM_ACTOR, 'expired');
+
+      expect(promotions.release).toHaveBeenCalledWith(tx, 'o1');
+    });
+
+    it('should throw BadRequestException for an invalid move', async () => {
+      tx.order.findUnique.mockResolvedValue({ id: 'o1', status: OrderStatus.DELIVERED });
+
+      await expect(service.transition('o1', OrderStatus.CANCELLED, SYSTEM_ACTOR)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(tx.order.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the status changed concurrently', async () => {
+      tx.order.findUnique.mockResolvedValue({ id: 'o1', status: OrderStatus.PENDING_PAYMENT });
+      tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.transition('o1', OrderStatus.PAID, SYSTEM_ACTOR)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(tx.orderStatusHistory.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncWithShipments', () => {
+    it('should step PAID → PROCESSING → SHIPPED when all shipments are shipped', async () => {
+      tx.order.findUnique
+        .mockResolvedValueOnce({
+          id: 'o1',
+          status: OrderStatus.PAID,
+          shipments: [{ status: 'IN_TRANSIT' }, { status: 'SHIPPED' }],
+        })
+        .mockResolvedValueOnce({ id: 'o1', status: OrderStatus.PAID })
+        .mockResolvedValueOnce({ id: 'o1', status: OrderStatus.PROCESSING });
+
+      const result = await service.syncWithShipments('o1', SYSTEM_ACTOR);
+
+      expect(result.status).toBe(OrderStatus.SHIPPED);
+      expect(tx.orderStatusHistory.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not touch unpaid orders', async () => {
+      tx.order.findUnique.mockResolvedValue({
+        id: 'o1',
+        status: OrderStatus.PENDING_PAYMENT,
+        shipments: [{ status: 'SHIPPED' }],
+      });
+
+      await service.syncWithShipments('o1', SYSTEM_ACTOR);
+
+      expect(tx.order.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        ORDER LIFECYCLE SERVICE — Order Status State Machine                        ║
+ * ║  Implements: Transition table, validated status changes, status history (timeline)                ║
+ * ║  Used by: OrdersService (create/cancel/shipments), PaymentService (paid/refunded)                 ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] WHY A SINGLE SERVICE?
+ *     [1a] Order.status used to be a free-form string written by several services
+ *          ('PENDING', 'pending_payment', 'processing'...), so orders could get stuck
+ *     [1b] Every status change now goes through transition() → one place to validate
+ *     [1c] Every change writes an OrderStatusHistory row (who, when, why)
+ *
+ * [2] STATE MACHINE
+ *     PENDING_PAYMENT → PAID → PROCESSING → SHIPPED → DELIVERED
+ *            ↓           ↓          ↓          ↓          ↓
+ *        CANCELLED    REFUNDED from any paid status, once the whole order total is returned
+ *     A partial refund does not change the status (tracked in Order.refundedTotal), so the
+ *     remaining shipments keep driving the order to SHIPPED / DELIVERED.
+ *
+ * [3] TRANSACTIONS
+ *     [3a] transition() accepts an optional Prisma transaction client
+ *     [3b] Callers already inside $transaction pass `tx` so the status change
+ *          commits (or rolls back) together with their own writes
+ *     [3c] Status is updated with a conditional WHERE (id + current status)
+ *          → two concurrent transitions cannot both succeed
+ *     [3d] → CANCELLED releases the order's coupon redemption in the same transaction
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { Order, OrderStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PromotionService } from '../promotions/promotion.service';
+
+/**
+ * Who triggered a status change (stored on OrderStatusHistory)
+ */
+export type OrderActorType = 'CUSTOMER' | 'MERCHANT' | 'ADMIN' | 'SYSTEM';
+
+export interface OrderActor {
+  type: OrderActorType;
+  id?: string; // User ID (omitted for SYSTEM)
+}
+
+export const SYSTEM_ACTOR: OrderActor = { type: 'SYSTEM' };
+
+/**
+ * [4] TRANSITION TABLE
+ *     Key: current status → Value: statuses reachable in one step
+ *     CANCELLED and REFUNDED are terminal
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING_PAYMENT]: [OrderStatus.PAID, OrderStatus.CANCELLED],
+  [OrderStatus.PAID]: [OrderStatus.PROCESSING, OrderStatus.REFUNDED],
+  [OrderStatus.PROCESSING]: [OrderStatus.SHIPPED, OrderStatus.REFUNDED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.REFUNDED],
+  [OrderStatus.DELIVERED]: [OrderStatus.REFUNDED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REFUNDED]: [],
+};
+
+/**
+ * [5] FULFILMENT PATH
+ *     Ordered statuses driven by shipments (used to step through intermediate states)
+ */
+const FULFILMENT_PATH: OrderStatus[] = [
+  OrderStatus.PAID,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+const SHIPPED_SHIPMENT_STATUSES = ['SHIPPED', 'IN_TRANSIT', 'DELIVERED'];
+
+@Injectable()
+export class OrderLifecycleService {
+  private readonly logger = new Logger(OrderLifecycleService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly promotions: PromotionService,
+  ) {}
+
+  /**
+   * [6] CAN TRANSITION?
+   *     Pure check against the transition table
+   */
+  canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_STATUS_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * [7] ASSERT TRANSITION
+   *     Throws BadRequestException with the allowed targets if the move is invalid
+   */
+  assertTransition(from: OrderStatus, to: OrderStatus): void {
+    if (!this.canTransition(from, to)) {
+      const allowed = ORDER_STATUS_TRANSITIONS[from];
+      throw new BadRequestException(
+        `Cannot move order from ${from} to ${to}. Allowed: ${allowed.length ? allowed.join(', ') : 'none (terminal status)'}`,
+      );
+    }
+  }
+
+  /**
+   * [8] RECORD CREATION
+   *     [8a] Writes the first history row (fromStatus = null) for a new order
+   *     [8b] Must be called inside the transaction that creates the order
+   */
+  async recordCreation(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    status: OrderStatus,
+    actor: OrderActor,
+    reason = 'Order created',
+  ) {
+    return tx.orderStatusHistory.create({
+      data: {
+        orderId,
+        fromStatus: null,
+        toStatus: status,
+        actorType: actor.type,
+        actorId: actor.id,
+        reason,
+      },
+    });
+  }
+
+  /**
+   * [9] TRANSITION ORDER STATUS
+   *     [9a] Input: orderId, target status, actor, reason, optional transaction client
+   *     [9b] Output: Updated order
+   *     [9c] Process:
+   *         1. Load order (404 if missing)
+   *         2. Validate move against ORDER_STATUS_TRANSITIONS
+   *         3. Conditional update (id + current status) → 409 if changed concurrently
+   *         4. Append OrderStatusHistory row
+   *         5. CANCELLED → coupon usage given back ([3d])
+   */
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    actor: OrderActor,
+    reason?: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<Order> {
+    if (!tx) {
+      return this.prisma.$transaction((innerTx) =>
+        this.transition(orderId, to, actor, reason, innerTx),
+      );
+    }
+
+    // [9.1] LOAD ORDER
+    const order = await tx.order.findUnique({ where: { id: orderId } });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    // [9.2] VALIDATE TRANSITION
+    this.assertTransition(order.status, to);
+
+    // [9.3] CONDITIONAL UPDATE
+    //       WHERE status = current → a concurrent transition makes count = 0
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, status: order.status },
+      data: { status: to },
+    });
+    if (count === 0) {
+      throw new ConflictException('Order status changed concurrently, please retry');
+    }
+
+    // [9.4] APPEND HISTORY
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId,
+        fromStatus: order.status,
+        toStatus: to,
+        actorType: actor.type,
+        actorId: actor.id,
+        reason,
+      },
+    });
+
+    // [9.5] CANCELLED → RELEASE COUPON
+    if (to === OrderStatus.CANCELLED) {
+      await this.promotions.release(tx, orderId);
+    }
+
+    this.logger.log(`Order ${orderId}: ${order.status} → ${to} (${actor.type})`);
+
+    return { ...order, status: to };
+  }
+
+  /**
+   * [10] SYNC ORDER STATUS WITH SHIPMENTS
+   *      [10a] Derives the fulfilment status from the order's shipments:
+   *            - every active shipment DELIVERED → DELIVERED
+   *            - every active shipment shipped (SHIPPED/IN_TRANSIT/DELIVERED) → SHIPPED
+   *            - any active shipment past CREATED → PROCESSING
+   *      [10b] Steps through intermediate statuses so the timeline stays complete
+   *      [10c] No-op for orders outside the fulfilment path (unpaid, cancelled, refunded)
+   *      [10d] Cancelled and returned shipments are ignored (a return is settled by a refund)
+   */
+  async syncWithShipments(
+    orderId: string,
+    actor: OrderActor,
+    tx?: Prisma.TransactionClient,
+  ): Promise<Order> {
+    if (!tx) {
+      return this.prisma.$transaction((innerTx) => this.syncWithShipments(orderId, actor, innerTx));
+    }
+
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: { shipments: { select: { status: true } } },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const target = this.deriveStatusFromShipments(order.shipments.map((s) => s.status));
+    const currentIndex = FULFILMENT_PATH.indexOf(order.status);
+    const targetIndex = target ? FULFILMENT_PATH.indexOf(target) : -1;
+
+    if (currentIndex === -1 || targetIndex <= currentIndex) {
+      return order;
+    }
+
+    for (const step of FULFILMENT_PATH.slice(currentIndex + 1, targetIndex + 1)) {
+      await this.transition(orderId, step, actor, `Shipments updated (${step})`, tx);
+    }
+
+    return { ...order, status: FULFILMENT_PATH[targetIndex] };
+  }
+
+  /**
+   * [11] GET TIMELINE
+   *      Status history oldest → newest (for order detail page)
+   */
+  async getTimeline(orderId: string) {
+    return this.prisma.orderStatusHistory.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * [12] DERIVE STATUS FROM SHIPMENT STATUSES (PRIVATE HELPER)
+   *      Cancelled and returned shipments are ignored
+   */
+  private deriveStatusFromShipments(statuses: string[]): OrderStatus | null {
+    const active = statuses.filter((s) => s !== 'CANCELLED' && s !== 'RETURNED');
+    if (active.length === 0) {
+      return null;
+    }
+    if (active.every((s) => s === 'DELIVERED')) {
+      return OrderStatus.DELIVERED;
+    }
+    if (active.every((s) => SHIPPED_SHIPMENT_STATUSES.includes(s))) {
+      return OrderStatus.SHIPPED;
+    }
+    if (active.some((s) => s !== 'CREATED')) {
+      return OrderStatus.PROCESSING;
+    }
+    return null;
+  }
+}
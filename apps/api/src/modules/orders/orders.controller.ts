@@ -10,6 +10,13 @@
  *     [1b] GET /v1/orders → List current user's orders (paginated)
  *     [1c] GET /v1/orders/:id → Get order details with items
  *     [1d] DELETE /v1/orders/:id → Cancel order (if status allows)
+ *     [1e] GET /v1/orders/:id/timeline → Order status history (who, when, why)
+ *     [1f] POST /v1/orders/shipments/:id/pickup-pin → Resend a new pickup PIN (customer)
+ *     [1g] POST /v1/orders/shipments/:id/pickup-pin/reset → New PIN + unlock (ADMIN)
+ *     [1h] POST /v1/orders/checkout/preview → Shipping fees + totals for the checkout page
+ *     [1i] GET /v1/orders/:id/invoice → Invoice PDF (once paid)
+ *     [1j] GET /v1/orders/:id/receipts/:paymentId → Payment receipt PDF (completed payment)
+ *     [1k] GET /v1/orders/:id/credit-notes/:refundId → Credit note PDF (completed refund)
  *
  * [2] AUTHENTICATION
  *     [2a] All endpoints require JWT access token
@@ -20,8 +27,12 @@
  *     [3a] User adds items to cart (frontend state)
  *     [3b] POST /orders { items: [{ partId, quantity }] }
  *     [3c] Service validates stock, calculates total, creates order
- *     [3d] Returns order with status PENDING
+ *     [3d] Returns order with status PENDING_PAYMENT
  *     [3e] User proceeds to payment
+ *
+ * [4] RETRIES
+ *     [4a] POST /orders and POST /orders/checkout accept an Idempotency-Key header (@Idempotent())
+ *     [4b] Same key again → first response replayed, no second order
  */
 
 import {
@@ -33,27 +44,41 @@ import {
   Param,
   Query,
   UseGuards,
+  HttpCode,
+  HttpStatus,
   NotFoundException,
   ForbiddenException,
+  Res,
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
 import { OrdersService } from './orders.service';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { CheckoutDto } from './dto/checkout.dto';
 import { UpdateShipmentDto } from './dto/update-shipment.dto';
+import { PickupService } from './pickup.service';
+import { InvoiceService, InvoicePdf } from '../invoices/invoice.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { Idempotent } from '../idempotency/idempotent.decorator';
 
 @Controller('orders')
 @UseGuards(JwtAuthGuard) // All routes require authentication
 @ApiBearerAuth()
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly pickupService: PickupService,
+    private readonly invoiceService: InvoiceService,
+  ) {}
 
   /**
    * [4] POST /v1/orders (CREATE ORDER)
    *     [4a] Body: { items: [{ partId, quantity }] }
-   *     [4b] Returns: Order { id, status: 'PENDING', total, items, ... }
+   *     [4b] Returns: Order { id, status: 'PENDING_PAYMENT', total, items, ... }
    *     [4c] Process:
    *         1. Validate stock availability for all items
    *         2. Calculate total price (sum of unitPrice * quantity)
@@ -65,6 +90,7 @@ export class OrdersController {
    *     [4e] WHY transaction? Ensures atomicity: if stock update fails, order not created
    */
   @Post()
+  @Idempotent()
   async create(@Body() createOrderDto: CreateOrderDto, @CurrentUser() user: any) {
     return this.ordersService.create(user.sub, createOrderDto);
   }
@@ -107,12 +133,70 @@ export class OrdersController {
     return order;
   }
 
+  /**
+   * [6.5] GET /v1/orders/:id/timeline (ORDER STATUS TIMELINE)
+   *       [6.5a] Param: id (UUID of order)
+   *       [6.5b] Returns: { orderId, status, timeline: [{ fromStatus, toStatus, actorType, actorId, reason, createdAt }] }
+   *       [6.5c] Security: Only order owner can view
+   */
+  @Get(':id/timeline')
+  async getTimeline(@Param('id') id: string, @CurrentUser() user: CurrentUserPayload) {
+    return this.ordersService.getTimeline(id, user.sub);
+  }
+
+  /**
+   * [6.6] GET /v1/orders/:id/invoice (INVOICE PDF)
+   *       [6.6a] Returns: application/pdf, numbered FA-{country}-{year}-{sequence} on first download
+   *       [6.6b] fr/en from the customer's language; 400 while the order is unpaid (still
+   *              available once refunded: the refund has its own credit note, [6.8])
+   *       [6.6c] Security: Only order owner can download
+   */
+  @Get(':id/invoice')
+  async downloadInvoice(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Res() res: Response,
+  ) {
+    this.sendPdf(res, await this.invoiceService.getInvoicePdf(id, user.sub));
+  }
+
+  /**
+   * [6.7] GET /v1/orders/:id/receipts/:paymentId (PAYMENT RECEIPT PDF)
+   *       [6.7a] Returns: application/pdf for a completed (or since refunded) payment of the order
+   *       [6.7b] Security: Only order owner can download
+   */
+  @Get(':id/receipts/:paymentId')
+  async downloadReceipt(
+    @Param('id') id: string,
+    @Param('paymentId') paymentId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Res() res: Response,
+  ) {
+    this.sendPdf(res, await this.invoiceService.getReceiptPdf(id, paymentId, user.sub));
+  }
+
+  /**
+   * [6.8] GET /v1/orders/:id/credit-notes/:refundId (CREDIT NOTE PDF)
+   *       [6.8a] Returns: application/pdf for a completed refund of the order, numbered
+   *              AV-{country}-{year}-{sequence} on first download (also attached to the refund email)
+   *       [6.8b] Security: Only order owner can download
+   */
+  @Get(':id/credit-notes/:refundId')
+  async downloadCreditNote(
+    @Param('id') id: string,
+    @Param('refundId') refundId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Res() res: Response,
+  ) {
+    this.sendPdf(res, await this.invoiceService.getCreditNotePdf(id, refundId, user.sub));
+  }
+
   /**
    * [7] DELETE /v1/orders/:id (CANCEL ORDER)
    *     [7a] Param: id (UUID of order)
    *     [7b] Returns: { message: 'Order cancelled', order: { id, status: 'CANCELLED' } }
    *     [7c] Process:
-   *         1. Check order status (only PENDING can be cancelled)
+   *         1. Check order status (only PENDING_PAYMENT can be cancelled)
    *         2. Update order status to CANCELLED
    *         3. Restore stock levels for all items
    *     [7d] Security: Only order owner can cancel
@@ -139,27 +223,85 @@ export class OrdersController {
    *         5. Mark cart as checked out
    */
   @Post('checkout')
+  @Idempotent()
   async checkout(@Body() checkoutDto: CheckoutDto, @CurrentUser() user: any) {
     return this.ordersService.checkoutFromCart(user.sub, checkoutDto);
   }
 
+  /**
+   * [8.1] POST /v1/orders/checkout/preview (CHECKOUT PREVIEW)
+   *       [8.1a] Body: same as checkout
+   *       [8.1b] Returns: { subtotal, shippingTotal, total, shipments: [{ vendorId, fee, zone, ... }] }
+   *       [8.1c] Nothing is created or reserved
+   */
+  @Post('checkout/preview')
+  @HttpCode(HttpStatus.OK)
+  async previewCheckout(@Body() checkoutDto: CheckoutDto, @CurrentUser() user: CurrentUserPayload) {
+    return this.ordersService.previewCheckout(user.sub, checkoutDto);
+  }
+
   /**
    * [9] GET /v1/orders/:orderId/shipments/:id (GET SHIPMENT)
-   *     [9a] Returns: Shipment with tracking info and vendor details
+   *     [9a] Returns: Shipment with tracking info and vendor details (no pickup PIN data)
+   *     [9b] Only the order owner or the shipment's vendor (404 otherwise)
    */
   @Get(':orderId/shipments/:id')
-  async getShipment(@Param('id') id: string) {
-    return this.ordersService.findShipment(id);
+  async getShipment(
+    @Param('orderId') orderId: string,
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.ordersService.findShipment(orderId, id, user.sub);
   }
 
   /**
    * [10] PATCH /v1/orders/shipments/:id (UPDATE SHIPMENT - US-ORD-404)
-   *     [10a] Body: { status?, carrier?, trackingNumber?, pickupPin? }
-   *     [10b] Returns: Updated shipment
-   *     [10c] Updates shipment status and tracking information
+   *     [10a] Body: { status?, carrier?, trackingNumber?, location?, note? }
+   *     [10b] Returns: Updated shipment with its timeline
+   *     [10c] Status must follow CREATED → READY → SHIPPED → IN_TRANSIT → DELIVERED / RETURNED
+   *           (CANCELLED before shipping); anything else → 400
+   *     [10d] Order status follows shipments (PROCESSING → SHIPPED → DELIVERED)
+   *     [10e] SHIPPED / DELIVERED email the customer
+   *     [10f] Only the owner of the shipment's vendor (404 otherwise); same as POST /vendor/shipments/:id
    */
   @Post('shipments/:id')
-  async updateShipment(@Param('id') id: string, @Body() updateShipmentDto: UpdateShipmentDto) {
-    return this.ordersService.updateShipment(id, updateShipmentDto);
+  async updateShipment(
+    @Param('id') id: string,
+    @Body() updateShipmentDto: UpdateShipmentDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.ordersService.updateShipment(id, updateShipmentDto, {
+      type: 'MERCHANT',
+      id: user.sub,
+    });
+  }
+
+  /**
+   * [11] POST /v1/orders/shipments/:id/pickup-pin (RESEND PICKUP PIN)
+   *      [11a] Issues a new PIN (old one stops working) and sends it by SMS + email
+   *      [11b] Wrong-PIN counter is kept; a locked pickup needs an admin reset
+   */
+  @Post('shipments/:id/pickup-pin')
+  @HttpCode(HttpStatus.OK)
+  async resendPickupPin(@Param('id') id: string, @CurrentUser() user: CurrentUserPayload) {
+    return this.pickupService.reissuePin(id, { type: 'CUSTOMER', id: user.sub });
+  }
+
+  /**
+   * [12] POST /v1/orders/shipments/:id/pickup-pin/reset (ADMIN UNLOCK)
+   *      [12a] New PIN sent to the customer, wrong-PIN counter cleared, lock lifted
+   */
+  @Post('shipments/:id/pickup-pin/reset')
+  @UseGuards(RolesGuard)
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async resetPickupPin(@Param('id') id: string, @CurrentUser() user: CurrentUserPayload) {
+    return this.pickupService.reissuePin(id, { type: 'ADMIN', id: user.sub });
+  }
+
+  private sendPdf(res: Response, pdf: InvoicePdf) {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${pdf.filename}"`);
+    res.send(pdf.content);
   }
 }
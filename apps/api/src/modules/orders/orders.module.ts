@@ -6,10 +6,18 @@
  * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
  *
  * [1] MODULE OVERVIEW
- *     [1a] Controllers: OrdersController (HTTP endpoints)
- *     [1b] Providers: OrdersService (business logic)
- *     [1c] Imports: PrismaModule (database access)
- *     [1d] Exports: OrdersService (for use in other modules)
+ *     [1a] Controllers: OrdersController (HTTP endpoints), VendorOrdersController +
+ *          VendorShipmentsController (merchant inbox + fulfilment), TrackingController (public tracking)
+ *     [1b] Providers: OrdersService (business logic), OrderLifecycleService (status state machine),
+ *          PickupService (pickup PIN, cash on pickup), StockReservationService (holds + expiry sweeper),
+ *          ShipmentTrackingService (shipment state machine + timeline),
+ *          VendorOrdersService (merchant-scoped orders / shipments, accept / reject / ready)
+ *     [1c] Imports: PrismaModule (database access), ShippingModule (fee quotes at checkout),
+ *          InvoicesModule (invoice / receipt PDFs), PromotionsModule (coupon at checkout),
+ *          IdempotencyModule (Idempotency-Key on create / checkout),
+ *          PaymentModule (refund of a shipment rejected on a paid order; forwardRef, it imports us)
+ *     [1d] Exports: OrdersService, OrderLifecycleService, StockReservationService
+ *          (PaymentModule drives PAID/REFUNDED and consumes reservations)
  *
  * [2] WHY THIS STRUCTURE?
  *     [2a] Feature-driven: All order logic in one module
@@ -18,16 +26,49 @@
  *     [2d] Scalable: Easy to add features (order history, invoice generation, etc.)
  */
 
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { OrdersService } from './orders.service';
+import { OrderLifecycleService } from './order-lifecycle.service';
+import { PickupService } from './pickup.service';
+import { StockReservationService } from './stock-reservation.service';
+import { ShipmentTrackingService } from './shipment-tracking.service';
+import { VendorOrdersService } from './vendor-orders.service';
 import { OrdersController } from './orders.controller';
+import { VendorOrdersController } from './vendor-orders.controller';
+import { VendorShipmentsController } from './vendor-shipments.controller';
+import { TrackingController } from './tracking.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { NotificationModule } from '../notifications/notification.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { PromotionsModule } from '../promotions/promotions.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { PaymentModule } from '../payments/payments.module';
 
 @Module({
-  imports: [PrismaModule, NotificationModule], // Database + Notifications
-  controllers: [OrdersController],
-  providers: [OrdersService],
-  exports: [OrdersService], // Available for other modules
+  imports: [
+    PrismaModule,
+    NotificationModule,
+    ShippingModule,
+    InvoicesModule,
+    PromotionsModule,
+    IdempotencyModule,
+    forwardRef(() => PaymentModule),
+  ], // Database + Notifications + Fees + Invoices + Coupons + Idempotency-Key + Refunds
+  controllers: [
+    OrdersController,
+    VendorOrdersController,
+    VendorShipmentsController,
+    TrackingController,
+  ],
+  providers: [
+    OrdersService,
+    OrderLifecycleService,
+    PickupService,
+    StockReservationService,
+    ShipmentTrackingService,
+    VendorOrdersService,
+  ],
+  exports: [OrdersService, OrderLifecycleService, StockReservationService], // Available for other modules
 })
 export class OrdersModule {}
@@ -11,16 +11,31 @@ import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { OrdersService } from './orders.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { NotificationService } from '../notifications/notification.service';
+import { OrderLifecycleService } from './order-lifecycle.service';
+import { PickupService } from './pickup.service';
+import { StockReservationService } from './stock-reservation.service';
+import { ShipmentTrackingService } from './shipment-tracking.service';
+import { ShipmentStatus } from './dto/update-shipment.dto';
+import { ShippingService } from '../shipping/shipping.service';
+import { PromotionService } from '../promotions/promotion.service';
 
 describe('OrdersService - Validation', () => {
   let service: OrdersService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+
+  const createPrismaMock = () => ({
+    part: {
+      findMany: jest.fn(),
+    },
+    shipment: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  });
 
   beforeEach(async () => {
-    const mockPrisma = {
-      part: {
-        findMany: jest.fn(),
-      },
-    };
+    mockPrisma = createPrismaMock();
 
     const mockNotificationService = {
       sendEmail: jest.fn().mockResolvedValue({ success: true }),
@@ -31,6 +46,21 @@ describe('OrdersService - Validation', () => {
         OrdersService,
         { provide: PrismaService, useValue: mockPrisma },
         { provide: NotificationService, useValue: mockNotificationService },
+        {
+          provide: OrderLifecycleService,
+          useValue: { recordCreation: jest.fn(), transition: jest.fn() },
+        },
+        { provide: PickupService, useValue: { issuePin: jest.fn(), sendPins: jest.fn() } },
+        { provide: StockReservationService, useValue: { reserve: jest.fn(), release: jest.fn() } },
+        { provide: ShippingService, useValue: { quote: jest.fn() } },
+        {
+          provide: ShipmentTrackingService,
+          useValue: {
+            transition: jest.fn(),
+            notifyCustomer: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        { provide: PromotionService, useValue: { quote: jest.fn(), redeem: jest.fn() } },
       ],
     }).compile();
 
@@ -57,6 +87,12 @@ describe('OrdersService - Validation', () => {
             provide: NotificationService,
             useValue: { sendEmail: jest.fn() },
           },
+          { provide: OrderLifecycleService, useValue: { recordCreation: jest.fn() } },
+          { provide: PickupService, useValue: {} },
+          { provide: StockReservationService, useValue: {} },
+          { provide: ShippingService, useValue: {} },
+          { provide: ShipmentTrackingService, useValue: {} },
+          { provide: PromotionService, useValue: {} },
         ],
       }).compile();
 
@@ -69,4 +105,77 @@ describe('OrdersService - Validation', () => {
       ).rejects.toThrow(NotFoundException);
     });
   });
+
+  describe('updateShipment', () => {
+    const shipment = (payments: Array<{ id: string }>) => ({
+      id: 'ship-1',
+      orderId: 'order-1',
+      status: 'CREATED',
+      fulfilment: 'PICKUP',
+      vendor: { userId: 'merchant-1' },
+      order: { status: 'PENDING_PAYMENT' },
+      payments,
+    });
+
+    it('refuses to prepare a shipment of an order not paid yet, unless cash on pickup', async () => {
+      mockPrisma.shipment.findUnique.mockResolvedValue(shipment([]));
+
+      await expect(
+        service.updateShipment(
+          'ship-1',
+          { status: ShipmentStatus.READY },
+          { type: 'MERCHANT', id: 'merchant-1' },
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      mockPrisma.shipment.findUnique.mockResolvedValue(shipment([{ id: 'cash-1' }]));
+      mockPrisma.$transaction.mockResolvedValue({ id: 'ship-1' });
+
+      await expect(
+        service.updateShipment(
+          'ship-1',
+          { status: ShipmentStatus.READY },
+          { type: 'MERCHANT', id: 'merchant-1' },
+        ),
+      ).resolves.toEqual({ id: 'ship-1' });
+    });
+  });
+
+  describe('findShipment', () => {
+    it('only finds the shipment for the order owner or its vendor, without PIN data', async () => {
+      mockPrisma.shipment.findFirst.mockResolvedValue(null);
+
+      await expect(service.findShipment('order-1', 'ship-1', 'stranger')).rejects.toThrow(
+        NotFoundException,
+      );
+
+      const query = mockPrisma.shipment.findFirst.mock.calls[0][0];
+      expect(query.where).toEqual({
+        id: 'ship-1',
+        orderId: 'order-1',
+        OR: [{ order: { userId: 'stranger' } }, { vendor: { userId: 'stranger' } }],
+      });
+      expect(query.select).not.toHaveProperty('pickupPin');
+      expect(query.select).not.toHaveProperty('pickupAttempts');
+      expect(query.select).not.toHaveProperty('pickupLockedAt');
+    });
+
+    it("returns only the shipment vendor's items of the order", async () => {
+      mockPrisma.shipment.findFirst.mockResolvedValue({
+        id: 'ship-1',
+        vendorId: 'vendor-a',
+        order: {
+          id: 'order-1',
+          items: [
+            { id: 'item-a', vendorId: 'vendor-a' },
+            { id: 'item-b', vendorId: 'vendor-b' },
+          ],
+        },
+      });
+
+      const shipment = await service.findShipment('order-1', 'ship-1', 'merchant-a');
+
+      expect(shipment.order.items.map((item: { id: string }) => item.id)).toEqual(['item-a']);
+    });
+  });
 });
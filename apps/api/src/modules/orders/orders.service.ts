@@ -10,6 +10,8 @@
  *     [1b] List orders: Paginated list of user's orders
  *     [1c] Get order: Fetch single order with items and part details
  *     [1d] Cancel order: Update status, restore stock levels
+ *     [1e] Status changes: Delegated to OrderLifecycleService (state machine + history)
+ *     [1f] Shipment changes: Delegated to ShipmentTrackingService (transition graph + events)
  *
  * [2] WHY TRANSACTIONS?
  *     [2a] Order creation: Create order + items + update stock atomically
@@ -18,9 +20,16 @@
  *
  * [3] STOCK MANAGEMENT
  *     [3a] Check availability before creating order
- *     [3b] Reduce stock when order created
- *     [3c] Restore stock when order cancelled
- *     [3d] Atomic updates prevent race conditions
+ *     [3b] Reserve stock when order created (moved to Part.reservedStock, with a TTL)
+ *     [3c] Release reservation when order cancelled or left unpaid (sweeper)
+ *     [3d] Conditional decrement (stock >= qty) inside the transaction → no oversell under concurrency
+ *
+ * [4] SHIPPING FEES + COUPON (checkout)
+ *     [4a] One quote per vendor shipment (ShippingService zones), frozen on Shipment.shippingFee
+ *     [4b] Order.total = items − Order.discountTotal + Order.shippingTotal
+ *     [4c] Same quotes served by the checkout preview → the page shows what will be charged
+ *     [4d] Cart coupon re-quoted on current prices, split on OrderItem.discount (vendorDiscount
+ *          when the vendor funds it) and redeemed in the order transaction (PromotionService)
  */
 
 import {
@@ -34,9 +43,29 @@ import { PrismaService } from '../prisma/prisma.service';
 import { NotificationService } from '../notifications/notification.service';
 import { EmailTemplate } from '../notifications/dto/send-email.dto';
 import { CreateOrderDto } from './dto/create-order.dto';
-import { CheckoutDto } from './dto/checkout.dto';
-import { UpdateShipmentDto } from './dto/update-shipment.dto';
-import { Prisma } from '@prisma/client';
+import { CheckoutDto, FulfilmentMethod, VendorShippingDto } from './dto/checkout.dto';
+import { ShipmentStatus, UpdateShipmentDto } from './dto/update-shipment.dto';
+import { OrderLifecycleService, OrderActor } from './order-lifecycle.service';
+import { PickupService, IssuedPickupPin } from './pickup.service';
+import { StockReservationService } from './stock-reservation.service';
+import {
+  CLOSED_SHIPMENT_STATUSES,
+  SHIPMENT_SELECT,
+  ShipmentTrackingService,
+} from './shipment-tracking.service';
+import { ShippingService, ShippingQuote } from '../shipping/shipping.service';
+import { DiscountQuote, PromotionService } from '../promotions/promotion.service';
+import { PaymentMethod, PaymentStatus } from '../payments/dto/create-payment.dto';
+import { Address, OrderStatus, Prisma, PromotionFunding } from '@prisma/client';
+
+// Cart line fields needed to quote a shipment and the coupon
+interface QuotableCartItem {
+  partId: string;
+  vendorId: string;
+  quantity: number;
+  part: { price: Prisma.Decimal; weightKg: Prisma.Decimal | null };
+  vendor: { id: string; name: string; city: string | null; country: string };
+}
 
 @Injectable()
 export class OrdersService {
@@ -45,17 +74,23 @@ export class OrdersService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly notificationService: NotificationService,
+    private readonly lifecycle: OrderLifecycleService,
+    private readonly pickupService: PickupService,
+    private readonly reservations: StockReservationService,
+    private readonly shippingService: ShippingService,
+    private readonly tracking: ShipmentTrackingService,
+    private readonly promotions: PromotionService,
   ) {}
 
   /**
    * [4] CREATE ORDER
    *     [4a] Input: userId, CreateOrderDto { items: [{ partId, quantity }] }
-   *     [4b] Output: Order { id, status: 'PENDING', total, items, createdAt }
+   *     [4b] Output: Order { id, status: 'PENDING_PAYMENT', total, items, createdAt, reservedUntil }
    *     [4c] Process:
    *         1. Fetch all parts and validate stock availability
    *         2. Calculate total price
    *         3. Create order + order items in transaction
-   *         4. Reduce stock levels
+   *         4. Reserve stock until the payment window closes (StockReservationService)
    *     [4d] Errors:
    *         - Insufficient stock → BadRequestException
    *         - Part not found → NotFoundException
@@ -80,7 +115,7 @@ export class OrdersService {
     // [4.1b] Build map for quick lookup: partId → part
     const partsMap = new Map(parts.map((p) => [p.id, p]));
 
-    // [4.1c] Validate stock for each item
+    // [4.1c] Validate stock for each item (fast fail; the conditional decrement in [4.3c] is authoritative)
     for (const item of items) {
       const part = partsMap.get(item.partId);
       if (!part) {
@@ -104,15 +139,20 @@ export class OrdersService {
 
     // [4.3] CREATE ORDER + ITEMS IN TRANSACTION
     //       Transaction ensures atomicity: if any step fails, all rollback
+    let reservedUntil: Date | undefined;
     const order = await this.prisma.$transaction(async (tx) => {
-      // [4.3a] Create order
+      // [4.3a] Create order + first timeline entry
       const newOrder = await tx.order.create({
         data: {
           userId,
-          status: 'PENDING',
+          status: OrderStatus.PENDING_PAYMENT,
           total,
         },
       });
+      await this.lifecycle.recordCreation(tx, newOrder.id, newOrder.status, {
+        type: 'CUSTOMER',
+        id: userId,
+      });
 
       // [4.3b] Create order items
       const orderItemsData = items.map((item) => {
@@ -130,13 +170,8 @@ export class OrdersService {
         data: orderItemsData,
       });
 
-      // [4.3c] Reduce stock levels
-      for (const item of items) {
-        await tx.part.update({
-          where: { id: item.partId },
-          data: { stock: { decrement: item.quantity } },
-        });
-      }
+      // [4.3c] Reserve stock (released if unpaid when the reservation expires)
+      reservedUntil = await this.reservations.reserve(tx, newOrder.id, items);
 
       // [4.3d] Return order with items
       return tx.order.findUnique({
@@ -179,7 +214,7 @@ export class OrdersService {
         );
       });
 
-    return order;
+    return { ...order!, reservedUntil };
   }
 
   /**
@@ -258,20 +293,20 @@ export class OrdersService {
    *     [7b] Output: { message, order }
    *     [7c] Process:
    *         1. Validate user owns order
-   *         2. Check order status (only PENDING can be cancelled)
-   *         3. Update status to CANCELLED
-   *         4. Restore stock levels
+   *         2. Check order status (only PENDING_PAYMENT can be cancelled)
+   *         3. Transition to CANCELLED (recorded in status history)
+   *         4. Release stock reservations, cancel shipments
    *     [7d] Errors:
    *         - Order not found → NotFoundException
    *         - User not owner → ForbiddenException
    *         - Order already shipped → BadRequestException
    */
   async cancel(orderId: string, userId: string) {
-    // [7.1] FETCH ORDER WITH ITEMS
+    // [7.1] FETCH ORDER WITH PAYMENTS
     const order = await this.prisma.order.findUnique({
       where: { id: orderId },
       include: {
-        items: true,
+        payments: true,
       },
     });
 
@@ -286,27 +321,50 @@ export class OrdersService {
     }
 
     // [7.1c] Check order can be cancelled
-    if (order.status !== 'PENDING') {
+    if (!this.lifecycle.canTransition(order.status, OrderStatus.CANCELLED)) {
       throw new BadRequestException(
-        `Cannot cancel order with status: ${order.status}. Only PENDING orders can be cancelled.`,
+        `Cannot cancel order with status: ${order.status}. Only PENDING_PAYMENT orders can be cancelled.`,
+      );
+    }
+
+    // [7.1d] Cash on pickup: once a vendor has collected cash, goods have left the shop
+    if (
+      order.payments.some(
+        (p) => p.method === PaymentMethod.CASH_ON_PICKUP && p.status === PaymentStatus.COMPLETED,
+      )
+    ) {
+      throw new BadRequestException(
+        'Cannot cancel order: part of it was already picked up and paid in cash',
       );
     }
 
     // [7.2] UPDATE STATUS + RESTORE STOCK IN TRANSACTION
     const updatedOrder = await this.prisma.$transaction(async (tx) => {
-      // [7.2a] Update order status
-      const updated = await tx.order.update({
-        where: { id: orderId },
-        data: { status: 'CANCELLED' },
-      });
+      // [7.2a] Transition order status (validated + recorded in history)
+      const updated = await this.lifecycle.transition(
+        orderId,
+        OrderStatus.CANCELLED,
+        { type: 'CUSTOMER', id: userId },
+        'Cancelled by customer',
+        tx,
+      );
 
-      // [7.2b] Restore stock for all items
-      for (const item of order.items) {
-        await tx.part.update({
-          where: { id: item.partId },
-          data: { stock: { increment: item.quantity } },
-        });
-      }
+      // [7.2b] Release reserved stock back to the parts
+      await this.reservations.release(tx, orderId);
+
+      // [7.2c] Cancel shipments that have not left the vendor yet (timeline event each)
+      await this.tracking.cancelOrderShipments(
+        tx,
+        orderId,
+        { type: 'CUSTOMER', id: userId },
+        'Order cancelled by customer',
+      );
+
+      // [7.2d] Void cash-on-pickup payments that will never be collected
+      await tx.payment.updateMany({
+        where: { orderId, method: PaymentMethod.CASH_ON_PICKUP, status: PaymentStatus.PENDING },
+        data: { status: PaymentStatus.FAILED, errorMessage: 'Order cancelled' },
+      });
 
       return updated;
     });
@@ -322,48 +380,33 @@ export class OrdersService {
 
   /**
    * [8] CHECKOUT FROM CART (US-ORD-402)
-   *     [8a] Input: userId, CheckoutDto { vendorShipping: [{ vendorId, addressId, notes }] }
-   *     [8b] Output: Order { id, status, total, items, shipments }
+   *     [8a] Input: userId, CheckoutDto { vendorShipping: [{ vendorId, fulfilment?, addressId?, notes }], paymentMethod? }
+   *     [8b] Output: Order { id, status, total, shippingTotal, items, shipments, reservedUntil }
    *     [8c] Process:
    *         1. Get user's active cart
    *         2. Validate cart has items
    *         3. Validate addresses exist
-   *         4. Create order from cart items
-   *         5. Create shipment per vendor
-   *         6. Mark cart as checked out
+   *         4. Quote shipping per vendor + the cart coupon
+   *         5. Create order from cart items (discount per line)
+   *         6. Create shipment per vendor (with its fee)
+   *         7. Redeem the coupon, mark cart as checked out
    *     [8d] Multi-vendor: Each vendor gets a separate shipment
+   *     [8e] Pickup at vendor: no address, PIN per shipment sent to the customer (PickupService)
+   *     [8f] Cash on pickup: every vendor must be PICKUP; one PENDING cash Payment per shipment,
+   *          routed to the buyer's country like online payments (invoice / receipt numbering)
+   *     [8g] Delivery address + notes are copied onto the shipment (vendor inbox, later edits ignored)
+   *     [8h] Coupon no longer applicable → 400 with the reason; limit reached meanwhile → 409
    */
   async checkoutFromCart(userId: string, checkoutDto: CheckoutDto) {
     // [8.1] GET ACTIVE CART
-    const cart = await this.prisma.cart.findFirst({
-      where: { userId, status: 'ACTIVE' },
-      include: {
-        items: {
-          include: {
-            part: {
-              include: { vendor: true },
-            },
-            vendor: true,
-          },
-        },
-      },
-    });
-
-    if (!cart || cart.items.length === 0) {
-      throw new BadRequestException('Cart is empty');
-    }
+    const cart = await this.findCheckoutCart(userId);
 
-    // [8.2] VALIDATE ADDRESSES
-    const addressIds = checkoutDto.vendorShipping.map((vs) => vs.addressId);
-    const addresses = await this.prisma.address.findMany({
-      where: { id: { in: addressIds }, userId },
-    });
+    // [8.2] VALIDATE ADDRESSES (delivery only) + CASH ON PICKUP
+    const isPickup = (vs: VendorShippingDto) => vs.fulfilment === FulfilmentMethod.PICKUP;
+    const cashOnPickup = checkoutDto.paymentMethod === PaymentMethod.CASH_ON_PICKUP;
+    const addresses = await this.validateCheckoutShipping(userId, checkoutDto);
 
-    if (addresses.length !== new Set(addressIds).size) {
-      throw new BadRequestException('One or more addresses not found');
-    }
-
-    // [8.3] VALIDATE STOCK AVAILABILITY
+    // [8.3] VALIDATE STOCK AVAILABILITY (fast fail; re-checked atomically in [8.5c])
     for (const item of cart.items) {
       if (item.part.status !== 'PUBLISHED') {
         throw new BadRequestException(`Part "${item.partTitle}" is no longer available`);
@@ -375,39 +418,64 @@ export class OrdersService {
       }
     }
 
-    // [8.4] CREATE ORDER + ITEMS + SHIPMENTS IN TRANSACTION
+    // [8.4] QUOTE SHIPPING (zones can refuse a destination → fail before touching stock)
+    const quotes = await this.quoteShipping(cart.items, checkoutDto.vendorShipping, addresses);
+    const shippingTotal = [...quotes.values()].reduce((sum, quote) => sum + quote.fee, 0);
+
+    // [8.4b] QUOTE COUPON (locked in [8.5e])
+    const discount = await this.quoteCartDiscount(userId, cart);
+    if (discount && !discount.applicable) {
+      throw new BadRequestException(discount.reason);
+    }
+    const discountTotal = discount?.amount ?? 0;
+    const lineDiscount = (partId: string) =>
+      discount?.lines.find((line) => line.partId === partId)?.amount ?? 0;
+    const itemsTotal = cart.items.reduce(
+      (sum, item) => sum.add(item.part.price.mul(item.quantity)),
+      new Prisma.Decimal(0),
+    );
+
+    // [8.5] CREATE ORDER + ITEMS + SHIPMENTS IN TRANSACTION
+    const pickupPins: IssuedPickupPin[] = [];
+    let reservedUntil: Date | undefined;
     const order = await this.prisma.$transaction(async (tx) => {
-      // [8.4a] Create order
+      // [8.5a] Create order + first timeline entry
       const newOrder = await tx.order.create({
         data: {
           userId,
-          status: 'PENDING',
-          total: cart.total,
+          status: OrderStatus.PENDING_PAYMENT,
+          total: itemsTotal.sub(discountTotal).add(shippingTotal),
+          shippingTotal,
+          discountTotal,
         },
       });
+      await this.lifecycle.recordCreation(tx, newOrder.id, newOrder.status, {
+        type: 'CUSTOMER',
+        id: userId,
+      });
 
-      // [8.4b] Create order items from cart
+      // [8.5b] Create order items from cart
       const orderItemsData = cart.items.map((item) => ({
         orderId: newOrder.id,
         partId: item.partId,
         vendorId: item.vendorId,
         quantity: item.quantity,
         unitPrice: item.part.price, // Use current price
+        discount: lineDiscount(item.partId),
+        vendorDiscount:
+          discount?.funding === PromotionFunding.VENDOR ? lineDiscount(item.partId) : 0,
       }));
 
       await tx.orderItem.createMany({
         data: orderItemsData,
       });
 
-      // [8.4c] Reduce stock levels
-      for (const item of cart.items) {
-        await tx.part.update({
-          where: { id: item.partId },
-          data: { stock: { decrement: item.quantity } },
-        });
-      }
+      // [8.5c] Reserve stock (cash on pickup gets the longer pickup window)
+      reservedUntil = await this.reservations.reserve(tx, newOrder.id, cart.items, {
+        pickup: cashOnPickup,
+      });
 
-      // [8.4d] Create shipments per vendor
+      // [8.5d] Create shipments per vendor
       const vendorShippingMap = new Map(checkoutDto.vendorShipping.map((vs) => [vs.vendorId, vs]));
 
       const vendorIds = [...new Set(cart.items.map((item) => item.vendorId))];
@@ -418,22 +486,67 @@ export class OrdersService {
           throw new BadRequestException(`Missing shipping info for vendor ${vendorId}`);
         }
 
-        await tx.shipment.create({
+        const quote = quotes.get(vendorId)!;
+        const address = isPickup(shipping)
+          ? undefined
+          : addresses.find((a) => a.id === shipping.addressId);
+        const shipment = await tx.shipment.create({
           data: {
             orderId: newOrder.id,
             vendorId,
             status: 'CREATED',
+            fulfilment: shipping.fulfilment ?? FulfilmentMethod.DELIVERY,
+            shippingFee: quote.fee,
+            shippingZoneId: quote.zoneId,
+            deliveryAddress: address && this.snapshotAddress(address),
+            deliveryNotes: shipping.notes,
+            events: {
+              create: { status: ShipmentStatus.CREATED, actorType: 'CUSTOMER', actorId: userId },
+            },
           },
         });
+
+        if (!isPickup(shipping)) {
+          continue;
+        }
+
+        // [8.5d.1] Pickup PIN (hash stored, clear PIN only goes to the customer)
+        const vendorItems = cart.items.filter((item) => item.vendorId === vendorId);
+        const pin = await this.pickupService.issuePin(shipment.id, {}, tx);
+        pickupPins.push({ shipmentId: shipment.id, vendorName: vendorItems[0].vendor.name, pin });
+
+        // [8.5d.2] Cash due to this vendor at pickup (its lines, net of the coupon)
+        if (cashOnPickup) {
+          const vendorSubtotal = vendorItems.reduce(
+            (sum, item) =>
+              sum + Number(item.part.price) * item.quantity - lineDiscount(item.partId),
+            0,
+          );
+          await tx.payment.create({
+            data: {
+              orderId: newOrder.id,
+              shipmentId: shipment.id,
+              amount: vendorSubtotal,
+              method: PaymentMethod.CASH_ON_PICKUP,
+              status: PaymentStatus.PENDING,
+              country: cart.user.country, // Invoice / receipt sequence of the buyer's country
+            },
+          });
+        }
       }
 
-      // [8.4e] Mark cart as checked out
+      // [8.5e] Lock the coupon (409 if its limit was reached meanwhile → everything rolls back)
+      if (discount) {
+        await this.promotions.redeem(tx, discount, userId, newOrder.id);
+      }
+
+      // [8.5f] Mark cart as checked out
       await tx.cart.update({
         where: { id: cart.id },
         data: { status: 'CHECKED_OUT' },
       });
 
-      // [8.4f] Return order with full details
+      // [8.5g] Return order with full details
       return tx.order.findUnique({
         where: { id: newOrder.id },
         include: {
@@ -444,16 +557,23 @@ export class OrdersService {
             },
           },
           shipments: {
-            include: {
+            select: {
+              ...SHIPMENT_SELECT,
               vendor: true,
             },
           },
+          payments: true,
         },
       });
     });
 
     this.logger.log(`Order ${order!.id} created from cart for user ${userId}`);
 
+    // Send pickup PINs (async)
+    this.pickupService.sendPins(userId, order!.id, pickupPins).catch((error) => {
+      this.logger.error(`Failed to send pickup PINs: ${error.message}`);
+    });
+
     // Send confirmation email (async)
     this.notificationService
       .sendEmail(
@@ -473,60 +593,128 @@ export class OrdersService {
         this.logger.error(`Failed to send order confirmation: ${error.message}`);
       });
 
-    return order;
+    return { ...order!, reservedUntil };
   }
 
   /**
    * [9] UPDATE SHIPMENT (US-ORD-404)
-   *     [9a] Input: shipmentId, UpdateShipmentDto { status?, carrier?, trackingNumber?, pickupPin? }
-   *     [9b] Output: Updated shipment
+   *     [9a] Input: shipmentId, UpdateShipmentDto { status?, carrier?, trackingNumber?, location?, note? }, actor
+   *     [9b] Output: Updated shipment with its timeline
    *     [9c] Process:
-   *         1. Validate shipment exists
-   *         2. Update fields
-   *         3. Set timestamp for status transitions
+   *         1. Validate shipment exists, belongs to the merchant's vendor and is still open
+   *         2. Unpaid order (PENDING_PAYMENT) → no READY / SHIPPED, except cash on pickup
+   *            (paid at the counter)
+   *         3. Update carrier / tracking number
+   *         4. Status change validated by ShipmentTrackingService (graph + event + timestamps)
+   *         5. Sync order status with its shipments (PROCESSING → SHIPPED → DELIVERED)
+   *         6. SHIPPED / DELIVERED → customer email (after commit)
    */
-  async updateShipment(shipmentId: string, dto: UpdateShipmentDto) {
+  async updateShipment(shipmentId: string, dto: UpdateShipmentDto, actor: OrderActor) {
     const shipment = await this.prisma.shipment.findUnique({
       where: { id: shipmentId },
+      include: {
+        vendor: { select: { userId: true } },
+        order: { select: { status: true } },
+        payments: { where: { method: PaymentMethod.CASH_ON_PICKUP }, select: { id: true } },
+      },
     });
 
-    if (!shipment) {
+    // Merchants only see their own vendors' shipments (same 404 as a missing one)
+    if (!shipment || (actor.type === 'MERCHANT' && shipment.vendor.userId !== actor.id)) {
       throw new NotFoundException('Shipment not found');
     }
 
-    const updateData: any = { ...dto };
+    if (CLOSED_SHIPMENT_STATUSES.includes(shipment.status)) {
+      throw new BadRequestException(`Shipment is already ${shipment.status}`);
+    }
 
-    // Set timestamps based on status
-    if (dto.status === 'SHIPPED' && !shipment.shippedAt) {
-      updateData.shippedAt = new Date();
+    // Pickup shipments are only handed over against the customer's PIN (PickupService)
+    if (
+      dto.status === ShipmentStatus.DELIVERED &&
+      shipment.fulfilment === FulfilmentMethod.PICKUP
+    ) {
+      throw new BadRequestException('Pickup shipments are delivered by confirming the pickup PIN');
     }
-    if (dto.status === 'DELIVERED' && !shipment.deliveredAt) {
-      updateData.deliveredAt = new Date();
+
+    if (
+      shipment.order.status === OrderStatus.PENDING_PAYMENT &&
+      shipment.payments.length === 0 &&
+      (dto.status === ShipmentStatus.READY || dto.status === ShipmentStatus.SHIPPED)
+    ) {
+      throw new BadRequestException('Order is not paid yet');
     }
 
-    const updated = await this.prisma.shipment.update({
-      where: { id: shipmentId },
-      data: updateData,
-      include: {
-        order: true,
-        vendor: true,
-      },
+    const { status, location, note, carrier, trackingNumber } = dto;
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      if (carrier !== undefined || trackingNumber !== undefined) {
+        await tx.shipment.update({
+          where: { id: shipmentId },
+          data: { carrier, trackingNumber },
+        });
+      }
+
+      // [9.1] Validated status change + timeline event; order status follows its shipments
+      if (status) {
+        await this.tracking.transition(tx, shipmentId, status, actor, { location, note });
+        await this.lifecycle.syncWithShipments(shipment.orderId, actor, tx);
+      }
+
+      return tx.shipment.findUnique({
+        where: { id: shipmentId },
+        select: {
+          ...SHIPMENT_SELECT,
+          order: true,
+          vendor: true,
+          events: { orderBy: { createdAt: 'asc' } },
+        },
+      });
     });
 
     this.logger.log(`Shipment ${shipmentId} updated: ${JSON.stringify(dto)}`);
 
+    if (status) {
+      this.tracking.notifyCustomer(shipmentId, status).catch((error) => {
+        this.logger.error(`Failed to notify shipment ${shipmentId} update: ${error.message}`);
+      });
+    }
+
     return updated;
   }
 
   /**
-   * [10] GET SHIPMENT
-   *     [10a] Input: shipmentId
-   *     [10b] Output: Shipment with order and vendor details
+   * [10] GET ORDER TIMELINE
+   *      [10a] Input: orderId, userId
+   *      [10b] Output: { orderId, status, timeline: OrderStatusHistory[] }
+   *      [10c] Security: Only order owner can view (same check as findOne)
    */
-  async findShipment(shipmentId: string) {
-    const shipment = await this.prisma.shipment.findUnique({
-      where: { id: shipmentId },
-      include: {
+  async getTimeline(orderId: string, userId: string) {
+    const order = await this.findOne(orderId, userId);
+    const timeline = await this.lifecycle.getTimeline(orderId);
+
+    return {
+      orderId: order.id,
+      status: order.status,
+      timeline,
+    };
+  }
+
+  /**
+   * [11] GET SHIPMENT
+   *     [11a] Input: orderId, shipmentId, userId
+   *     [11b] Output: Shipment with its order items, vendor details and timeline
+   *     [11c] Security: order owner or owner of the shipment's vendor (404 otherwise);
+   *           a vendor only sees its own items of the order
+   */
+  async findShipment(orderId: string, shipmentId: string, userId: string) {
+    const shipment = await this.prisma.shipment.findFirst({
+      where: {
+        id: shipmentId,
+        orderId,
+        OR: [{ order: { userId } }, { vendor: { userId } }],
+      },
+      select: {
+        ...SHIPMENT_SELECT,
         order: {
           include: {
             items: {
@@ -537,6 +725,7 @@ export class OrdersService {
           },
         },
         vendor: true,
+        events: { orderBy: { createdAt: 'asc' } },
       },
     });
 
@@ -544,6 +733,173 @@ export class OrdersService {
       throw new NotFoundException('Shipment not found');
     }
 
-    return shipment;
+    const items = shipment.order.items.filter((item) => item.vendorId === shipment.vendorId);
+    return { ...shipment, order: { ...shipment.order, items } };
+  }
+
+  /**
+   * [12] CHECKOUT PREVIEW (checkout page)
+   *      [12a] Input: same CheckoutDto as checkout
+   *      [12b] Output: { currency, subtotal, discountTotal, discount, shippingTotal, total, shipments }
+   *      [12c] Read-only: nothing reserved, a later checkout re-quotes with the zones of that moment
+   */
+  async previewCheckout(userId: string, checkoutDto: CheckoutDto) {
+    const cart = await this.findCheckoutCart(userId);
+    const addresses = await this.validateCheckoutShipping(userId, checkoutDto);
+    const quotes = await this.quoteShipping(cart.items, checkoutDto.vendorShipping, addresses);
+
+    const shipments = [...quotes.values()].map((quote) => ({
+      ...quote,
+      vendorName: cart.items.find((item) => item.vendorId === quote.vendorId)!.vendor.name,
+    }));
+    const shippingTotal = shipments.reduce((sum, quote) => sum + quote.fee, 0);
+
+    const subtotal = cart.items.reduce(
+      (sum, item) => sum + Number(item.part.price) * item.quantity,
+      0,
+    );
+    const discount = await this.quoteCartDiscount(userId, cart);
+    const discountTotal = discount?.amount ?? 0;
+
+    return {
+      currency: 'XOF',
+      subtotal,
+      discountTotal,
+      discount,
+      shippingTotal,
+      total: subtotal - discountTotal + shippingTotal,
+      shipments,
+    };
+  }
+
+  /**
+   * [13] CHECKOUT HELPERS (PRIVATE)
+   *      [13a] Active cart with parts and vendors, 400 when empty
+   */
+  private async findCheckoutCart(userId: string) {
+    const cart = await this.prisma.cart.findFirst({
+      where: { userId, status: 'ACTIVE' },
+      include: {
+        user: { select: { country: true } },
+        items: {
+          include: {
+            part: {
+              include: { vendor: true },
+            },
+            vendor: true,
+          },
+        },
+      },
+    });
+
+    if (!cart || cart.items.length === 0) {
+      throw new BadRequestException('Cart is empty');
+    }
+
+    return cart;
+  }
+
+  /**
+   *      [13b] Cash on pickup needs PICKUP everywhere; delivery addresses must be the user's
+   */
+  private async validateCheckoutShipping(userId: string, checkoutDto: CheckoutDto) {
+    const isPickup = (vs: VendorShippingDto) => vs.fulfilment === FulfilmentMethod.PICKUP;
+
+    if (
+      checkoutDto.paymentMethod === PaymentMethod.CASH_ON_PICKUP &&
+      !checkoutDto.vendorShipping.every(isPickup)
+    ) {
+      throw new BadRequestException('Cash on pickup requires PICKUP fulfilment for every vendor');
+    }
+
+    const addressIds = checkoutDto.vendorShipping
+      .filter((vs) => !isPickup(vs))
+      .map((vs) => vs.addressId as string);
+    const addresses = await this.prisma.address.findMany({
+      where: { id: { in: addressIds }, userId },
+    });
+
+    if (addresses.length !== new Set(addressIds).size) {
+      throw new BadRequestException('One or more addresses not found');
+    }
+
+    return addresses;
+  }
+
+  /**
+   *      [13c] One shipping quote per vendor of the cart (pickup → no destination, fee 0)
+   */
+  private async quoteShipping(
+    items: QuotableCartItem[],
+    vendorShipping: VendorShippingDto[],
+    addresses: Address[],
+  ): Promise<Map<string, ShippingQuote>> {
+    const vendorIds = [...new Set(items.map((item) => item.vendorId))];
+
+    const requests = vendorIds.map((vendorId) => {
+      const shipping = vendorShipping.find((vs) => vs.vendorId === vendorId);
+      if (!shipping) {
+        throw new BadRequestException(`Missing shipping info for vendor ${vendorId}`);
+      }
+
+      const vendorItems = items.filter((item) => item.vendorId === vendorId);
+      const address =
+        shipping.fulfilment === FulfilmentMethod.PICKUP
+          ? undefined
+          : addresses.find((a) => a.id === shipping.addressId);
+
+      return {
+        vendor: vendorItems[0].vendor,
+        destination: address ? { city: address.city, country: address.country } : null,
+        items: vendorItems.map((item) => ({
+          quantity: item.quantity,
+          unitPrice: Number(item.part.price),
+          weightKg: item.part.weightKg === null ? null : Number(item.part.weightKg),
+        })),
+      };
+    });
+
+    const quotes = await this.shippingService.quote(requests);
+    return new Map(quotes.map((quote) => [quote.vendorId, quote]));
+  }
+
+  /**
+   *      [13d] Cart coupon on the current part prices (null without coupon)
+   */
+  private async quoteCartDiscount(
+    userId: string,
+    cart: { couponId: string | null; items: QuotableCartItem[] },
+  ): Promise<DiscountQuote | null> {
+    if (!cart.couponId) {
+      return null;
+    }
+
+    return this.promotions.quote(
+      userId,
+      cart.couponId,
+      cart.items.map((item) => ({
+        partId: item.partId,
+        vendorId: item.vendorId,
+        unitPrice: Number(item.part.price),
+        quantity: item.quantity,
+      })),
+    );
+  }
+
+  /**
+   *      [13e] Address copy stored on Shipment.deliveryAddress (what the vendor ships to)
+   */
+  private snapshotAddress(address: Address): Prisma.InputJsonObject {
+    return {
+      label: address.label,
+      line1: address.line1,
+      line2: address.line2,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postalCode,
+      country: address.country,
+      phoneNumber: address.phoneNumber,
+      instructions: address.instructions,
+    };
   }
 }
@@ -0,0 +1,284 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              PICKUP SERVICE TESTS — Pickup PIN & Cash on Pickup                                   ║
+ * ║  Tests: PIN hashing, ownership, wrong-PIN lockout, cash amount check, atomic handover             ║
+ * ║  Focus: A shipment is only handed over to the right PIN, once, for the right cash                 ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { OrderStatus, Prisma } from '@prisma/client';
+import { PickupService } from './pickup.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notifications/notification.service';
+import { OrderLifecycleService } from './order-lifecycle.service';
+import { StockReservationService } from './stock-reservation.service';
+import { ShipmentTrackingService } from './shipment-tracking.service';
+
+describe('PickupService', () => {
+  let service: PickupService;
+  let tx: ReturnType<typeof createTx>;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let lifecycle: { transition: jest.Mock; syncWithShipments: jest.Mock };
+  let reservations: { consume: jest.Mock };
+  let tracking: { recordEvent: jest.Mock; notifyCustomer: jest.Mock };
+
+  const buildShipment = (overrides: Record<string, unknown> = {}) => ({
+    id: 'ship-1',
+    orderId: 'order-1',
+    status: 'CREATED',
+    fulfilment: 'PICKUP',
+    pickupPin: null as string | null,
+    pickupAttempts: 0,
+    pickupLockedAt: null,
+    vendor: { id: 'vendor-1', userId: 'merchant-1', name: 'Garage Adjo' },
+    order: { id: 'order-1', userId: 'user-1', status: OrderStatus.PENDING_PAYMENT },
+    payments: [
+      {
+        id: 'pay-1',
+        method: 'cash_on_pickup',
+        status: 'pending',
+        amount: new Prisma.Decimal(25000),
+        currency: 'XOF',
+      },
+    ],
+    ...overrides,
+  });
+
+  // Issues a PIN through the service and returns it with the hash it stored
+  const issue = async () => {
+    const pin = await service.issuePin('ship-1');
+    const { pickupPin } = mockPrisma.shipment.update.mock.calls.at(-1)[0].data;
+    mockPrisma.shipment.update.mockClear();
+    return { pin, pickupPin };
+  };
+
+  const createTx = () => ({
+    shipment: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUnique: jest.fn().mockResolvedValue({ id: 'ship-1', status: 'DELIVERED' }),
+    },
+    payment: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      count: jest.fn().mockResolvedValue(0),
+    },
+  });
+
+  const createPrismaMock = () => ({
+    shipment: {
+      findUnique: jest.fn(),
+      update: jest.fn().mockResolvedValue({ pickupAttempts: 1 }),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    user: { findUnique: jest.fn() },
+    $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  });
+
+  beforeEach(async () => {
+    tx = createTx();
+    mockPrisma = createPrismaMock();
+    lifecycle = { transition: jest.fn(), syncWithShipments: jest.fn() };
+    reservations = { consume: jest.fn() };
+    tracking = { recordEvent: jest.fn(), notifyCustomer: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PickupService,
+        { provide: PrismaService, useValue: mockPrisma },
+        {
+          provide: NotificationService,
+          useValue: {
+            sendEmail: jest.fn().mockResolvedValue({ messageId: 'e' }),
+            sendSms: jest.fn().mockResolvedValue({ messageId: 's' }),
+          },
+        },
+        { provide: OrderLifecycleService, useValue: lifecycle },
+        { provide: StockReservationService, useValue: reservations },
+        { provide: ShipmentTrackingService, useValue: tracking },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key, fallback) =>
+              key === 'PICKUP_PIN_SECRET' ? 'test-pickup-pin-secret' : fallback,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PickupService>(PickupService);
+  });
+
+  describe('issuePin', () => {
+    it('returns a 6-digit PIN and stores only its hash', async () => {
+      const { pin, pickupPin } = await issue();
+
+      expect(pin).toMatch(/^\d{6}$/);
+      expect(pickupPin).toMatch(/^[0-9a-f]{64}$/);
+      expect(pickupPin).not.toContain(pin);
+    });
+
+    it('keys the hash with the server secret', async () => {
+      const { pin, pickupPin } = await issue();
+
+      expect(pickupPin).not.toBe(createHash('sha256').update(`ship-1:${pin}`).digest('hex'));
+    });
+  });
+
+  describe('confirmPickup', () => {
+    it('hides shipments of other vendors', async () => {
+      mockPrisma.shipment.findUnique.mockResolvedValue(buildShipment());
+
+      await expect(
+        service.confirmPickup('ship-1', { pin: '123456' }, 'merchant-2'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('records a wrong PIN and reports the attempts left', async () => {
+      const { pin, pickupPin } = await issue();
+      mockPrisma.shipment.findUnique.mockResolvedValue(buildShipment({ pickupPin }));
+      const wrongPin = pin === '000000' ? '111111' : '000000';
+
+      await expect(
+        service.confirmPickup('ship-1', { pin: wrongPin, cashCollected: 25000 }, 'merchant-1'),
+      ).rejects.toThrow('4 attempt(s) left');
+      expect(mockPrisma.shipment.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { pickupAttempts: { increment: 1 } } }),
+      );
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('locks the shipment when the last attempt is wrong', async () => {
+      const { pin, pickupPin } = await issue();
+      mockPrisma.shipment.findUnique.mockResolvedValue(buildShipment({ pickupPin }));
+      mockPrisma.shipment.update.mockResolvedValue({ pickupAttempts: 5 });
+      const wrongPin = pin === '000000' ? '111111' : '000000';
+
+      await expect(
+        service.confirmPickup('ship-1', { pin: wrongPin }, 'merchant-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrisma.shipment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ship-1', pickupLockedAt: null },
+        data: { pickupLockedAt: expect.any(Date) },
+      });
+    });
+
+    it('refuses a locked shipment even with the right PIN', async () => {
+      const { pin, pickupPin } = await issue();
+      mockPrisma.shipment.findUnique.mockResolvedValue(
+        buildShipment({ pickupPin, pickupLockedAt: new Date() }),
+      );
+
+      await expect(
+        service.confirmPickup('ship-1', { pin, cashCollected: 25000 }, 'merchant-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrisma.shipment.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects a cash amount that does not match without counting an attempt', async () => {
+      const { pin, pickupPin } = await issue();
+      mockPrisma.shipment.findUnique.mockResolvedValue(buildShipment({ pickupPin }));
+
+      await expect(
+        service.confirmPickup('ship-1', { pin, cashCollected: 20000 }, 'merchant-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrisma.shipment.update).not.toHaveBeenCalled();
+    });
+
+    it('delivers, completes the cash payment and marks the order PAID atomically', async () => {
+      const { pin, pickupPin } = await issue();
+      mockPrisma.shipment.findUnique.mockResolvedValue(buildShipment({ pickupPin }));
+
+      await service.confirmPickup('ship-1', { pin, cashCollected: 25000 }, 'merchant-1');
+
+      expect(tx.shipment.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'ship-1',
+          status: { notIn: ['DELIVERED', 'RETURNED', 'CANCELLED'] },
+          pickupPin,
+          pickupLockedAt: null,
+        },
+        data: { status: 'DELIVERED', deliveredAt: expect.any(Date), pickupPin: null },
+      });
+      expect(tracking.recordEvent).toHaveBeenCalledWith(
+        tx,
+        'ship-1',
+        'DELIVERED',
+        expect.any(Object),
+        {
+          note: 'Picked up at vendor, paid cash',
+        },
+      );
+      expect(tx.payment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'pay-1', status: 'pending' },
+        data: { status: 'completed' },
+      });
+      const actor = { type: 'MERCHANT', id: 'merchant-1' };
+      expect(lifecycle.transition).toHaveBeenCalledWith(
+        'order-1',
+        OrderStatus.PAID,
+        actor,
+        'Cash collected at pickup',
+        tx,
+      );
+      expect(reservations.consume).toHaveBeenCalledWith(tx, 'order-1');
+      expect(lifecycle.syncWithShipments).toHaveBeenCalledWith('order-1', actor, tx);
+    });
+
+    it('keeps the order unpaid while other vendors still have cash to collect', async () => {
+      const { pin, pickupPin } = await issue();
+      mockPrisma.shipment.findUnique.mockResolvedValue(buildShipment({ pickupPin }));
+      tx.payment.count.mockResolvedValue(1);
+
+      await service.confirmPickup('ship-1', { pin, cashCollected: 25000 }, 'merchant-1');
+
+      expect(lifecycle.transition).not.toHaveBeenCalled();
+      expect(reservations.consume).not.toHaveBeenCalled();
+      expect(lifecycle.syncWithShipments).toHaveBeenCalled();
+    });
+
+    it('fails when the shipment changed concurrently', async () => {
+      const { pin, pickupPin } = await issue();
+      mockPrisma.shipment.findUnique.mockResolvedValue(buildShipment({ pickupPin }));
+      tx.shipment.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.confirmPickup('ship-1', { pin, cashCollected: 25000 }, 'merchant-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(tx.payment.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reissuePin', () => {
+    it('keeps a locked pickup locked for the customer', async () => {
+      mockPrisma.shipment.findUnique.mockResolvedValue(
+        buildShipment({ pickupLockedAt: new Date() }),
+      );
+
+      await expect(
+        service.reissuePin('ship-1', { type: 'CUSTOMER', id: 'user-1' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('lets an admin unlock with a fresh PIN', async () => {
+      mockPrisma.shipment.findUnique.mockResolvedValue(
+        buildShipment({ pickupLockedAt: new Date(), pickupAttempts: 5 }),
+      );
+
+      await service.reissuePin('ship-1', { type: 'ADMIN', id: 'admin-1' });
+
+      expect(mockPrisma.shipment.update).toHaveBeenCalledWith({
+        where: { id: 'ship-1' },
+        data: expect.objectContaining({ pickupAttempts: 0, pickupLockedAt: null }),
+      });
+    });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        PICKUP SERVICE — Pickup at Vendor & Cash on Pickup                          ║
+ * ║  Implements: Pickup PIN issue/reissue, PIN verification with lockout, cash collection             ║
+ * ║  Uses: Prisma (shipment + payment), OrderLifecycleService (PAID → DELIVERED), Notifications       ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] FLOW
+ *     [1a] Checkout with fulfilment PICKUP → one PIN per pickup shipment, sent by SMS + email
+ *     [1b] Cash on pickup → one PENDING Payment per shipment (vendor subtotal), order stays PENDING_PAYMENT
+ *     [1c] Vendor enters PIN + cash collected → shipment DELIVERED, Payment completed (one transaction)
+ *     [1d] Last cash payment of the order completed → order PAID (reservation consumed), then follows its shipments
+ *
+ * [2] PIN SECURITY
+ *     [2a] Only HMAC-SHA256(PICKUP_PIN_SECRET, shipmentId:pin) is stored; the PIN exists in clear
+ *          only in the notification. Keyed: a leaked hash cannot be brute-forced over the 10⁶ PINs
+ *          without the server secret (PINs issued before the key existed need a reissue)
+ *     [2b] Each wrong PIN increments pickupAttempts; PICKUP_PIN_MAX_ATTEMPTS (default 5) locks the shipment
+ *     [2c] Customer reissue → new PIN, attempts kept (no way to reset the counter by reissuing)
+ *     [2d] Admin reset → new PIN, counter cleared, lock lifted
+ *     [2e] pickupPin / pickupAttempts / pickupLockedAt never leave the API (SHIPMENT_SELECT)
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  InternalServerErrorException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { OrderStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notifications/notification.service';
+import { EmailTemplate } from '../notifications/dto/send-email.dto';
+import { SMSTemplate } from '../notifications/dto/send-sms.dto';
+import { PaymentMethod, PaymentStatus } from '../payments/dto/create-payment.dto';
+import { OrderLifecycleService, OrderActor } from './order-lifecycle.service';
+import { StockReservationService } from './stock-reservation.service';
+import { ConfirmPickupDto } from './dto/confirm-pickup.dto';
+import { FulfilmentMethod } from './dto/checkout.dto';
+import { ShipmentStatus } from './dto/update-shipment.dto';
+import {
+  CLOSED_SHIPMENT_STATUSES,
+  SHIPMENT_SELECT,
+  ShipmentTrackingService,
+} from './shipment-tracking.service';
+
+export interface IssuedPickupPin {
+  shipmentId: string;
+  vendorName: string;
+  pin: string;
+}
+
+@Injectable()
+export class PickupService {
+  private readonly logger = new Logger(PickupService.name);
+  private readonly maxAttempts: number;
+  private readonly pinSecret: string | undefined;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+    private readonly lifecycle: OrderLifecycleService,
+    private readonly reservations: StockReservationService,
+    private readonly tracking: ShipmentTrackingService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxAttempts = parseInt(this.configService.get<string>('PICKUP_PIN_MAX_ATTEMPTS', '5'), 10);
+    this.pinSecret = this.configService.get<string>('PICKUP_PIN_SECRET');
+  }
+
+  /**
+   * [3] ISSUE PIN
+   *     [3a] Generates a 6-digit PIN and stores its hash on the shipment
+   *     [3b] Runs inside the caller's transaction (checkout) or standalone
+   *     [3c] unlock: clears attempts + lock (admin only)
+   */
+  async issuePin(
+    shipmentId: string,
+    options: { unlock?: boolean } = {},
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<string> {
+    const pin = randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+    await tx.shipment.update({
+      where: { id: shipmentId },
+      data: {
+        pickupPin: this.hashPin(shipmentId, pin),
+        ...(options.unlock ? { pickupAttempts: 0, pickupLockedAt: null } : {}),
+      },
+    });
+
+    return pin;
+  }
+
+  /**
+   * [4] SEND PINS TO CUSTOMER (fire-and-forget, one SMS + one email per shipment)
+   */
+  async sendPins(userId: string, orderId: string, pins: IssuedPickupPin[]): Promise<void> {
+    if (pins.length === 0) {
+      return;
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return;
+    }
+
+    for (const { vendorName, pin } of pins) {
+      const variables = { orderId, vendorName, pin };
+
+      if (user.phoneNumber) {
+        this.notificationService
+          .sendSms(
+            { phoneNumber: user.phoneNumber, template: SMSTemplate.PICKUP_PIN, variables },
+            userId,
+          )
+          .catch((error) => {
+            this.logger.error(`Failed to send pickup PIN SMS: ${error.message}`);
+          });
+      }
+
+      if (user.email) {
+        this.notificationService
+          .sendEmail({ to: user.email, template: EmailTemplate.PICKUP_PIN, variables }, userId)
+          .catch((error) => {
+            this.logger.error(`Failed to send pickup PIN email: ${error.message}`);
+          });
+      }
+    }
+  }
+
+  /**
+   * [5] REISSUE PIN
+   *     [5a] Customer (own order): new PIN, attempts kept, locked shipments stay locked
+   *     [5b] Admin: new PIN, attempts cleared, lock lifted
+   */
+  async reissuePin(shipmentId: string, actor: OrderActor): Promise<{ shipmentId: string }> {
+    const shipment = await this.prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      include: { order: true, vendor: true },
+    });
+
+    if (!shipment || (actor.type === 'CUSTOMER' && shipment.order.userId !== actor.id)) {
+      throw new NotFoundException('Shipment not found');
+    }
+    this.assertOpenPickup(shipment);
+
+    const unlock = actor.type === 'ADMIN';
+    if (shipment.pickupLockedAt && !unlock) {
+      throw new ForbiddenException('Pickup is locked after too many wrong PINs. Contact support');
+    }
+
+    const pin = await this.issuePin(shipmentId, { unlock });
+    this.logger.log(`Pickup PIN reissued for shipment ${shipmentId} by ${actor.type}`);
+
+    await this.sendPins(shipment.order.userId, shipment.orderId, [
+      { shipmentId, vendorName: shipment.vendor.name, pin },
+    ]);
+
+    return { shipmentId };
+  }
+
+  /**
+   * [6] CONFIRM PICKUP (merchant)
+   *     [6a] Input: shipmentId, { pin, cashCollected? }, merchant userId
+   *     [6b] Ownership: shipment.vendor.userId must match (404 otherwise)
+   *     [6c] Wrong PIN → attempt recorded (outside the transaction, so it survives the error)
+   *     [6d] Right PIN → shipment DELIVERED + cash Payment completed + order synced, atomically
+   */
+  async confirmPickup(shipmentId: string, dto: ConfirmPickupDto, userId: string) {
+    const shipment = await this.prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      include: { vendor: true, order: true, payments: true },
+    });
+
+    if (!shipment || shipment.vendor.userId !== userId) {
+      throw new NotFoundException('Shipment not found');
+    }
+    this.assertOpenPickup(shipment);
+
+    if (shipment.pickupLockedAt) {
+      throw new ForbiddenException('Pickup is locked after too many wrong PINs. Contact support');
+    }
+    if (!shipment.pickupPin) {
+      throw new BadRequestException('No pickup PIN has been issued for this shipment');
+    }
+
+    // [6.1] VERIFY PIN
+    const pinHash = this.hashPin(shipmentId, dto.pin);
+    if (!this.hashesMatch(pinHash, shipment.pickupPin)) {
+      await this.recordFailedAttempt(shipmentId);
+    }
+
+    // [6.2] CASH MUST MATCH THE AMOUNT DUE (checked after the PIN, not counted as an attempt)
+    const cashPayment = shipment.payments.find(
+      (p) => p.method === PaymentMethod.CASH_ON_PICKUP && p.status === PaymentStatus.PENDING,
+    );
+
+    if (cashPayment) {
+      if (dto.cashCollected === undefined || dto.cashCollected !== Number(cashPayment.amount)) {
+        throw new BadRequestException(
+          `Cash collected must equal the amount due: ${Number(cashPayment.amount)} ${cashPayment.currency}`,
+        );
+      }
+    } else if (shipment.order.status === OrderStatus.PENDING_PAYMENT) {
+      throw new BadRequestException('Order has not been paid yet');
+    }
+
+    const actor: OrderActor = { type: 'MERCHANT', id: userId };
+
+    // [6.3] ATOMIC HANDOVER
+    const delivered = await this.prisma.$transaction(async (tx) => {
+      // Guarded on the PIN hash + lock: a concurrent reissue/lock makes this a no-op
+      const { count } = await tx.shipment.updateMany({
+        where: {
+          id: shipmentId,
+          status: { notIn: CLOSED_SHIPMENT_STATUSES },
+          pickupPin: pinHash,
+          pickupLockedAt: null,
+        },
+        data: { status: ShipmentStatus.DELIVERED, deliveredAt: new Date(), pickupPin: null },
+      });
+      if (count === 0) {
+        throw new ConflictException('Shipment was updated concurrently, please retry');
+      }
+      await this.tracking.recordEvent(tx, shipmentId, ShipmentStatus.DELIVERED, actor, {
+        note: cashPayment ? 'Picked up at vendor, paid cash' : 'Picked up at vendor',
+      });
+
+      if (cashPayment) {
+        const paid = await tx.payment.updateMany({
+          where: { id: cashPayment.id, status: PaymentStatus.PENDING },
+          data: { status: PaymentStatus.COMPLETED },
+        });
+        if (paid.count === 0) {
+          throw new ConflictException('Payment was updated concurrently, please retry');
+        }
+
+        // [6.4] Order becomes PAID once every vendor has collected its cash
+        const outstanding = await tx.payment.count({
+          where: {
+            orderId: shipment.orderId,
+            method: PaymentMethod.CASH_ON_PICKUP,
+            status: PaymentStatus.PENDING,
+          },
+        });
+        if (outstanding === 0 && shipment.order.status === OrderStatus.PENDING_PAYMENT) {
+          await this.lifecycle.transition(
+            shipment.orderId,
+            OrderStatus.PAID,
+            actor,
+            'Cash collected at pickup',
+            tx,
+          );
+          await this.reservations.consume(tx, shipment.orderId);
+        }
+      }
+
+      await this.lifecycle.syncWithShipments(shipment.orderId, actor, tx);
+
+      return tx.shipment.findUnique({
+        where: { id: shipmentId },
+        select: { ...SHIPMENT_SELECT, order: true, payments: true },
+      });
+    });
+
+    this.tracking.notifyCustomer(shipmentId, ShipmentStatus.DELIVERED).catch((error) => {
+      this.logger.error(`Failed to notify pickup of shipment ${shipmentId}: ${error.message}`);
+    });
+
+    this.logger.log(
+      `Shipment ${shipmentId} picked up${cashPayment ? ` (cash ${Number(cashPayment.amount)} ${cashPayment.currency})` : ''}`,
+    );
+
+    return delivered;
+  }
+
+  /**
+   * [7] RECORD FAILED ATTEMPT (PRIVATE HELPER)
+   *     Atomic increment; the attempt reaching the limit sets the lock
+   */
+  private async recordFailedAttempt(shipmentId: string): Promise<never> {
+    const { pickupAttempts } = await this.prisma.shipment.update({
+      where: { id: shipmentId },
+      data: { pickupAttempts: { increment: 1 } },
+      select: { pickupAttempts: true },
+    });
+
+    if (pickupAttempts >= this.maxAttempts) {
+      await this.prisma.shipment.updateMany({
+        where: { id: shipmentId, pickupLockedAt: null },
+        data: { pickupLockedAt: new Date() },
+      });
+      this.logger.warn(`Shipment ${shipmentId} locked after ${pickupAttempts} wrong pickup PINs`);
+      throw new ForbiddenException('Too many wrong PINs: pickup is locked. Contact support');
+    }
+
+    throw new BadRequestException(
+      `Wrong PIN. ${this.maxAttempts - pickupAttempts} attempt(s) left before lock`,
+    );
+  }
+
+  private assertOpenPickup(shipment: { fulfilment: string; status: string }): void {
+    if (shipment.fulfilment !== FulfilmentMethod.PICKUP) {
+      throw new BadRequestException('Shipment is not a pickup at vendor');
+    }
+    if (CLOSED_SHIPMENT_STATUSES.includes(shipment.status)) {
+      throw new BadRequestException(`Shipment is already ${shipment.status}`);
+    }
+  }
+
+  // [2a] No secret → no PIN can be issued or checked (never fall back to an unkeyed hash)
+  private hashPin(shipmentId: string, pin: string): string {
+    if (!this.pinSecret) {
+      this.logger.error('PICKUP_PIN_SECRET is not configured');
+      throw new InternalServerErrorException('Pickup PINs are not available');
+    }
+    return createHmac('sha256', this.pinSecret).update(`${shipmentId}:${pin}`).digest('hex');
+  }
+
+  private hashesMatch(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+}
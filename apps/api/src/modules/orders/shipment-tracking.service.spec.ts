@@ -0,0 +1,242 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              SHIPMENT TRACKING SERVICE TESTS — Shipment State Machine & Timeline                  ║
+ * ║  Tests: Transition graph (delivery / pickup), conditional updates, events, public tracking        ║
+ * ║  Focus: No backwards moves, one event per change, no customer data on the public route            ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ShipmentTrackingService } from './shipment-tracking.service';
+import { ShipmentStatus } from './dto/update-shipment.dto';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notifications/notification.service';
+import { EmailTemplate } from '../notifications/dto/send-email.dto';
+
+describe('ShipmentTrackingService', () => {
+  let service: ShipmentTrackingService;
+  let tx: ReturnType<typeof createTx> & Prisma.TransactionClient;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let sendEmail: jest.Mock;
+
+  const merchant = { type: 'MERCHANT' as const, id: 'merchant-1' };
+
+  const createTx = () => ({
+    shipment: {
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    shipmentEvent: {
+      create: jest.fn().mockResolvedValue({}),
+      createMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  });
+
+  const createPrismaMock = () => ({
+    shipment: { findFirst: jest.fn(), findUnique: jest.fn() },
+  });
+
+  beforeEach(async () => {
+    tx = createTx() as unknown as typeof tx;
+    mockPrisma = createPrismaMock();
+    sendEmail = jest.fn().mockResolvedValue({ messageId: 'e' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShipmentTrackingService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: NotificationService, useValue: { sendEmail } },
+      ],
+    }).compile();
+
+    service = module.get<ShipmentTrackingService>(ShipmentTrackingService);
+  });
+
+  describe('canTransition', () => {
+    it('should allow the delivery path and repeated carrier scans', () => {
+      expect(service.canTransition('CREATED', 'READY')).toBe(true);
+      expect(service.canTransition('READY', 'SHIPPED')).toBe(true);
+      expect(service.canTransition('SHIPPED', 'IN_TRANSIT')).toBe(true);
+      expect(service.canTransition('IN_TRANSIT', 'IN_TRANSIT')).toBe(true);
+      expect(service.canTransition('IN_TRANSIT', 'DELIVERED')).toBe(true);
+      expect(service.canTransition('IN_TRANSIT', 'RETURNED')).toBe(true);
+    });
+
+    it('should reject backwards moves and leaving terminal statuses', () => {
+      expect(service.canTransition('DELIVERED', 'CREATED')).toBe(false);
+      expect(service.canTransition('CREATED', 'SHIPPED')).toBe(false);
+      expect(service.canTransition('SHIPPED', 'CANCELLED')).toBe(false);
+      expect(service.canTransition('CANCELLED', 'READY')).toBe(false);
+    });
+
+    it('should never ship a pickup shipment', () => {
+      expect(service.canTransition('READY', 'SHIPPED', 'PICKUP')).toBe(false);
+      expect(service.canTransition('READY', 'DELIVERED', 'PICKUP')).toBe(true);
+    });
+  });
+
+  describe('transition', () => {
+    it('should update status, stamp shippedAt and append an event', async () => {
+      tx.shipment.findUnique.mockResolvedValue({
+        id: 's1',
+        status: 'READY',
+        fulfilment: 'DELIVERY',
+        shippedAt: null,
+      });
+
+      const result = await service.transition(tx, 's1', ShipmentStatus.SHIPPED, merchant, {
+        location: 'Lomé',
+      });
+
+      expect(result).toEqual({ from: 'READY' });
+      expect(tx.shipment.updateMany).toHaveBeenCalledWith({
+        where: { id: 's1', status: 'READY' },
+        data: { status: 'SHIPPED', shippedAt: expect.any(Date) },
+      });
+      expect(tx.shipmentEvent.create).toHaveBeenCalledWith({
+        data: {
+          shipmentId: 's1',
+          status: 'SHIPPED',
+          location: 'Lomé',
+          note: undefined,
+          actorType: 'MERCHANT',
+          actorId: 'merchant-1',
+        },
+      });
+    });
+
+    it('should throw BadRequestException for an invalid move', async () => {
+      tx.shipment.findUnique.mockResolvedValue({ id: 's1', status: 'DELIVERED' });
+
+      await expect(service.transition(tx, 's1', ShipmentStatus.CREATED, merchant)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(tx.shipment.updateMany).not.toHaveBeenCalled();
+      expect(tx.shipmentEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the status changed concurrently', async () => {
+      tx.shipment.findUnique.mockResolvedValue({ id: 's1', status: 'CREATED' });
+      tx.shipment.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.transition(tx, 's1', ShipmentStatus.READY, merchant)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(tx.shipmentEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelOrderShipments', () => {
+    it('should cancel open shipments only, with one event each', async () => {
+      tx.shipment.findMany.mockResolvedValue([
+        { id: 's1', status: 'CREATED', fulfilment: 'DELIVERY' },
+        { id: 's2', status: 'READY', fulfilment: 'PICKUP' },
+      ]);
+      tx.shipment.updateMany.mockResolvedValue({ count: 2 });
+
+      const cancelled = await service.cancelOrderShipments(
+        tx,
+        'o1',
+        { type: 'SYSTEM' },
+        'Payment window expired',
+      );
+
+      expect(cancelled).toBe(2);
+      expect(tx.shipment.findMany).toHaveBeenCalledWith({
+        where: { orderId: 'o1', status: { notIn: ['DELIVERED', 'RETURNED', 'CANCELLED'] } },
+        select: { id: true, status: true, fulfilment: true },
+      });
+      expect(tx.shipment.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['s1', 's2'] }, status: { in: ['CREATED', 'READY'] } },
+        data: { status: 'CANCELLED' },
+      });
+      expect(tx.shipmentEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ shipmentId: 's1', status: 'CANCELLED', actorType: 'SYSTEM' }),
+          expect.objectContaining({ shipmentId: 's2', status: 'CANCELLED', actorType: 'SYSTEM' }),
+        ],
+      });
+    });
+  });
+
+  describe('cancelOrderShipments (in transit)', () => {
+    it('should refuse to cancel an order with a shipment already on its way', async () => {
+      tx.shipment.findMany.mockResolvedValue([
+        { id: 's1', status: 'CREATED', fulfilment: 'DELIVERY' },
+        { id: 's2', status: 'IN_TRANSIT', fulfilment: 'DELIVERY' },
+      ]);
+
+      await expect(
+        service.cancelOrderShipments(tx, 'o1', merchant, 'Order cancelled'),
+      ).rejects.toThrow(BadRequestException);
+      expect(tx.shipment.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('track', () => {
+    it('should return status and timeline without customer data', async () => {
+      mockPrisma.shipment.findFirst.mockResolvedValue({
+        orderId: 'o1',
+        trackingNumber: 'TG123',
+        carrier: 'DHL',
+        status: 'IN_TRANSIT',
+        fulfilment: 'DELIVERY',
+        vendor: { name: 'Garage Adjo', city: 'Lomé', country: 'TG' },
+        shippedAt: new Date(),
+        deliveredAt: null,
+        events: [{ status: 'SHIPPED', location: null, note: null, createdAt: new Date() }],
+      });
+
+      const result = await service.track(' tg123 ');
+
+      expect(mockPrisma.shipment.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { trackingNumber: { equals: 'tg123', mode: 'insensitive' } },
+        }),
+      );
+      expect(result.status).toBe('IN_TRANSIT');
+      expect(result).not.toHaveProperty('orderId');
+    });
+
+    it('should throw NotFoundException for an unknown tracking number', async () => {
+      mockPrisma.shipment.findFirst.mockResolvedValue(null);
+
+      await expect(service.track('nope')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('notifyCustomer', () => {
+    const shipment = {
+      orderId: 'o1',
+      carrier: 'DHL',
+      trackingNumber: 'TG123',
+      fulfilment: 'DELIVERY',
+      vendor: { name: 'Garage Adjo' },
+      order: { user: { id: 'user-1', email: 'client@example.com' } },
+    };
+
+    it('should email ORDER_SHIPPED when a shipment leaves the vendor', async () => {
+      mockPrisma.shipment.findUnique.mockResolvedValue(shipment);
+
+      await service.notifyCustomer('s1', ShipmentStatus.SHIPPED);
+
+      expect(sendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'client@example.com',
+          template: EmailTemplate.ORDER_SHIPPED,
+        }),
+        'user-1',
+      );
+    });
+
+    it('should stay silent for intermediate statuses', async () => {
+      await service.notifyCustomer('s1', ShipmentStatus.IN_TRANSIT);
+
+      expect(mockPrisma.shipment.findUnique).not.toHaveBeenCalled();
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        SHIPMENT TRACKING SERVICE — Shipment State Machine & Timeline               ║
+ * ║  Implements: Transition graph, validated status changes, ShipmentEvent timeline, public tracking  ║
+ * ║  Used by: OrdersService (updates, cancel), PickupService (handover), StockReservationService      ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] STATE MACHINE (delivery)
+ *     CREATED → READY → SHIPPED → IN_TRANSIT → DELIVERED
+ *        ↓        ↓         ↓          ↓ ↺ (one event per carrier scan)
+ *     CANCELLED CANCELLED RETURNED   RETURNED
+ *     DELIVERED, RETURNED and CANCELLED are terminal
+ *
+ * [2] STATE MACHINE (pickup at vendor)
+ *     CREATED → READY → DELIVERED (PIN confirmed, PickupService only)
+ *     Nothing is shipped → SHIPPED / IN_TRANSIT are refused
+ *
+ * [3] TIMELINE
+ *     [3a] Every status change (and every IN_TRANSIT scan) writes a ShipmentEvent (who, where, why)
+ *     [3b] Status is updated with a conditional WHERE (id + current status) → 409 on concurrent change
+ *     [3c] SHIPPED / DELIVERED email the customer (ORDER_SHIPPED / ORDER_DELIVERED) after commit
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notifications/notification.service';
+import { EmailTemplate } from '../notifications/dto/send-email.dto';
+import { SMSTemplate } from '../notifications/dto/send-sms.dto';
+import { OrderActor } from './order-lifecycle.service';
+import { FulfilmentMethod } from './dto/checkout.dto';
+import { ShipmentStatus } from './dto/update-shipment.dto';
+
+export const CLOSED_SHIPMENT_STATUSES: string[] = [
+  ShipmentStatus.DELIVERED,
+  ShipmentStatus.RETURNED,
+  ShipmentStatus.CANCELLED,
+];
+
+// Shipment fields returned to customers and vendors: never the pickup PIN hash, wrong-PIN
+// counter or lock (PickupService internals)
+export const SHIPMENT_SELECT = {
+  id: true,
+  orderId: true,
+  vendorId: true,
+  status: true,
+  fulfilment: true,
+  carrier: true,
+  trackingNumber: true,
+  shippingFee: true,
+  shippingZoneId: true,
+  deliveryAddress: true,
+  deliveryNotes: true,
+  acceptedAt: true,
+  shippedAt: true,
+  deliveredAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ShipmentSelect;
+
+/**
+ * [4] TRANSITION TABLES
+ *     Key: current status → Value: statuses reachable in one step
+ */
+export const SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  [ShipmentStatus.CREATED]: [ShipmentStatus.READY, ShipmentStatus.CANCELLED],
+  [ShipmentStatus.READY]: [ShipmentStatus.SHIPPED, ShipmentStatus.CANCELLED],
+  [ShipmentStatus.SHIPPED]: [
+    ShipmentStatus.IN_TRANSIT,
+    ShipmentStatus.DELIVERED,
+    ShipmentStatus.RETURNED,
+  ],
+  [ShipmentStatus.IN_TRANSIT]: [
+    ShipmentStatus.IN_TRANSIT,
+    ShipmentStatus.DELIVERED,
+    ShipmentStatus.RETURNED,
+  ],
+  [ShipmentStatus.DELIVERED]: [],
+  [ShipmentStatus.RETURNED]: [],
+  [ShipmentStatus.CANCELLED]: [],
+};
+
+export const PICKUP_SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  [ShipmentStatus.CREATED]: [
+    ShipmentStatus.READY,
+    ShipmentStatus.DELIVERED,
+    ShipmentStatus.CANCELLED,
+  ],
+  [ShipmentStatus.READY]: [ShipmentStatus.DELIVERED, ShipmentStatus.CANCELLED],
+  [ShipmentStatus.SHIPPED]: [],
+  [ShipmentStatus.IN_TRANSIT]: [],
+  [ShipmentStatus.DELIVERED]: [],
+  [ShipmentStatus.RETURNED]: [],
+  [ShipmentStatus.CANCELLED]: [],
+};
+
+export interface ShipmentEventDetails {
+  location?: string;
+  note?: string;
+}
+
+@Injectable()
+export class ShipmentTrackingService {
+  private readonly logger = new Logger(ShipmentTrackingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * [5] CAN TRANSITION?
+   *     Pure check against the table of the shipment's fulfilment
+   */
+  canTransition(from: string, to: string, fulfilment: string = FulfilmentMethod.DELIVERY): boolean {
+    return this.allowedTargets(from, fulfilment).includes(to as ShipmentStatus);
+  }
+
+  /**
+   * [6] ASSERT TRANSITION
+   *     Throws BadRequestException with the allowed targets if the move is invalid
+   */
+  assertTransition(from: string, to: string, fulfilment: string = FulfilmentMethod.DELIVERY): void {
+    if (!this.canTransition(from, to, fulfilment)) {
+      const allowed = this.allowedTargets(from, fulfilment);
+      throw new BadRequestException(
+        `Cannot move shipment from ${from} to ${to}. Allowed: ${allowed.length ? allowed.join(', ') : 'none (terminal status)'}`,
+      );
+    }
+  }
+
+  /**
+   * [7] TRANSITION SHIPMENT STATUS
+   *     [7a] Input: shipmentId, target status, actor, { location?, note? }, transaction client
+   *     [7b] Process:
+   *         1. Load shipment (404 if missing)
+   *         2. Validate move against the fulfilment's transition table
+   *         3. Conditional update (id + current status) + shippedAt / deliveredAt
+   *         4. Append ShipmentEvent
+   *     [7c] Returns the previous status (callers decide on notifications / order sync)
+   */
+  async transition(
+    tx: Prisma.TransactionClient,
+    shipmentId: string,
+    to: ShipmentStatus,
+    actor: OrderActor,
+    details: ShipmentEventDetails = {},
+  ): Promise<{ from: string }> {
+    const shipment = await tx.shipment.findUnique({ where: { id: shipmentId } });
+    if (!shipment) {
+      throw new NotFoundException('Shipment not found');
+    }
+
+    this.assertTransition(shipment.status, to, shipment.fulfilment);
+
+    const { count } = await tx.shipment.updateMany({
+      where: { id: shipmentId, status: shipment.status },
+      data: {
+        status: to,
+        ...(to === ShipmentStatus.SHIPPED && !shipment.shippedAt && { shippedAt: new Date() }),
+        ...(to === ShipmentStatus.DELIVERED &&
+          !shipment.deliveredAt && { deliveredAt: new Date() }),
+      },
+    });
+    if (count === 0) {
+      throw new ConflictException('Shipment status changed concurrently, please retry');
+    }
+
+    await this.recordEvent(tx, shipmentId, to, actor, details);
+
+    this.logger.log(`Shipment ${shipmentId}: ${shipment.status} → ${to} (${actor.type})`);
+
+    return { from: shipment.status };
+  }
+
+  /**
+   * [8] RECORD EVENT
+   *     For callers that changed the status themselves (creation, pickup handover)
+   */
+  async recordEvent(
+    tx: Prisma.TransactionClient,
+    shipmentId: string,
+    status: ShipmentStatus,
+    actor: OrderActor,
+    details: ShipmentEventDetails = {},
+  ) {
+    return tx.shipmentEvent.create({
+      data: {
+        shipmentId,
+        status,
+        location: details.location,
+        note: details.note,
+        actorType: actor.type,
+        actorId: actor.id,
+      },
+    });
+  }
+
+  /**
+   * [9] CANCEL ORDER SHIPMENTS (order cancelled / expired)
+   *     Open shipments only, through the transition table: a shipment already on its way
+   *     (SHIPPED / IN_TRANSIT) refuses the whole cancellation; one CANCELLED event each
+   */
+  async cancelOrderShipments(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    actor: OrderActor,
+    note: string,
+  ): Promise<number> {
+    const open = await tx.shipment.findMany({
+      where: { orderId, status: { notIn: CLOSED_SHIPMENT_STATUSES } },
+      select: { id: true, status: true, fulfilment: true },
+    });
+    if (open.length === 0) {
+      return 0;
+    }
+
+    const moving = open.filter(
+      (s) => !this.canTransition(s.status, ShipmentStatus.CANCELLED, s.fulfilment),
+    );
+    if (moving.length > 0) {
+      throw new BadRequestException(
+        `Cannot cancel order: shipment(s) ${moving.map((s) => s.id).join(', ')} already on their way`,
+      );
+    }
+
+    // Conditional on the status read above → 409 if a vendor ships meanwhile
+    const ids = open.map((s) => s.id);
+    const { count } = await tx.shipment.updateMany({
+      where: { id: { in: ids }, status: { in: open.map((s) => s.status) } },
+      data: { status: ShipmentStatus.CANCELLED },
+    });
+    if (count !== ids.length) {
+      throw new ConflictException('Shipment status changed concurrently, please retry');
+    }
+    await tx.shipmentEvent.createMany({
+      data: ids.map((shipmentId) => ({
+        shipmentId,
+        status: ShipmentStatus.CANCELLED,
+        note,
+        actorType: actor.type,
+        actorId: actor.id,
+      })),
+    });
+
+    return ids.length;
+  }
+
+  /**
+   * [10] PUBLIC TRACKING
+   *      [10a] Lookup by tracking number (case-insensitive), most recent shipment first
+   *      [10b] No customer data, no actor ids: status, vendor city, timeline only
+   */
+  async track(trackingNumber: string) {
+    const shipment = await this.prisma.shipment.findFirst({
+      where: { trackingNumber: { equals: trackingNumber.trim(), mode: 'insensitive' } },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        vendor: { select: { name: true, city: true, country: true } },
+        events: {
+          select: { status: true, location: true, note: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!shipment) {
+      throw new NotFoundException('No shipment found for this tracking number');
+    }
+
+    return {
+      trackingNumber: shipment.trackingNumber,
+      carrier: shipment.carrier,
+      status: shipment.status,
+      fulfilment: shipment.fulfilment,
+      vendor: shipment.vendor,
+      shippedAt: shipment.shippedAt,
+      deliveredAt: shipment.deliveredAt,
+      events: shipment.events,
+    };
+  }
+
+  /**
+   * [11] GET TIMELINE (order owner / vendor)
+   */
+  async getTimeline(shipmentId: string) {
+    return this.prisma.shipmentEvent.findMany({
+      where: { shipmentId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * [12] NOTIFY CUSTOMER (fire-and-forget, after commit)
+   *      SHIPPED → ORDER_SHIPPED, DELIVERED → ORDER_DELIVERED, other statuses → nothing
+   *      Guest buyer (no email) → ORDER_SHIPPED / DELIVERY_UPDATE SMS instead
+   */
+  async notifyCustomer(shipmentId: string, status: string): Promise<void> {
+    const template =
+      status === ShipmentStatus.SHIPPED
+        ? EmailTemplate.ORDER_SHIPPED
+        : status === ShipmentStatus.DELIVERED
+          ? EmailTemplate.ORDER_DELIVERED
+          : null;
+    if (!template) {
+      return;
+    }
+
+    const shipment = await this.prisma.shipment.findUnique({
+      where: { id: shipmentId },
+      include: {
+        vendor: { select: { name: true } },
+        order: { include: { user: { select: { id: true, email: true, phoneNumber: true } } } },
+      },
+    });
+    if (!shipment) {
+      return;
+    }
+
+    const { email, phoneNumber } = shipment.order.user;
+    if (!email) {
+      if (phoneNumber) {
+        this.notificationService
+          .sendSms(
+            {
+              phoneNumber,
+              template:
+                status === ShipmentStatus.SHIPPED
+                  ? SMSTemplate.ORDER_SHIPPED
+                  : SMSTemplate.DELIVERY_UPDATE,
+              variables: { orderId: shipment.orderId, vendorName: shipment.vendor.name },
+            },
+            shipment.order.user.id,
+          )
+          .catch((error) => {
+            this.logger.error(`Failed to send ${template} SMS: ${error.message}`);
+          });
+      }
+      return;
+    }
+
+    this.notificationService
+      .sendEmail(
+        {
+          to: email,
+          template,
+          variables: {
+            orderId: shipment.orderId,
+            shipmentId,
+            vendorName: shipment.vendor.name,
+            carrier: shipment.carrier,
+            trackingNumber: shipment.trackingNumber,
+            fulfilment: shipment.fulfilment,
+          },
+        },
+        shipment.order.user.id,
+      )
+      .catch((error) => {
+        this.logger.error(`Failed to send ${template} email: ${error.message}`);
+      });
+  }
+
+  private allowedTargets(from: string, fulfilment: string): ShipmentStatus[] {
+    const table =
+      fulfilment === FulfilmentMethod.PICKUP
+        ? PICKUP_SHIPMENT_STATUS_TRANSITIONS
+        : SHIPMENT_STATUS_TRANSITIONS;
+    return table[from as ShipmentStatus] ?? [];
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              STOCK CONCURRENCY TESTS — No Oversell Under Concurrent Checkouts                     ║
+ * ║  Tests: N buyers racing for the last units via create() and checkoutFromCart()                    ║
+ * ║  Focus: Stock never goes below zero, losers get 400, a failed order leaves no partial decrement   ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] IN-MEMORY DATABASE
+ *     [1a] Every query yields to the event loop → concurrent calls really interleave
+ *     [1b] part.updateMany applies its WHERE and its write in one step (row lock semantics)
+ *     [1c] $transaction keeps an undo journal and replays it when the callback throws
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { OrdersService } from './orders.service';
+import { StockReservationService } from './stock-reservation.service';
+import { OrderLifecycleService } from './order-lifecycle.service';
+import { PickupService } from './pickup.service';
+import { ShipmentTrackingService } from './shipment-tracking.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { PromotionService } from '../promotions/promotion.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { NotificationService } from '../notifications/notification.service';
+
+interface FakePart {
+  id: string;
+  title: string;
+  price: Prisma.Decimal;
+  weightKg: Prisma.Decimal | null;
+  stock: number;
+  reservedStock: number;
+  status: string;
+  vendorId: string;
+  vendor: { id: string; name: string; city: string | null; country: string };
+}
+
+type ById = { where: { id: string } };
+type ByIds = { where: { id: { in: string[] } } };
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+function createFakeDatabase(parts: FakePart[]) {
+  const store = new Map(parts.map((p) => [p.id, { ...p }]));
+  let orderSeq = 0;
+
+  const buildClient = (undo: Array<() => void>) => ({
+    part: {
+      findMany: async ({ where }: ByIds) => {
+        await tick();
+        return where.id.in
+          .filter((id: string) => store.has(id))
+          .map((id: string) => ({ ...store.get(id)! }));
+      },
+      findUnique: async ({ where }: ById) => {
+        await tick();
+        const part = store.get(where.id);
+        return part ? { ...part } : null;
+      },
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; stock: { gte: number } };
+        data: { stock: { decrement: number }; reservedStock: { increment: number } };
+      }) => {
+        await tick();
+        const part = store.get(where.id);
+        if (!part || part.stock < where.stock.gte) {
+          return { count: 0 };
+        }
+        part.stock -= data.stock.decrement;
+        part.reservedStock += data.reservedStock.increment;
+        undo.push(() => {
+          part.stock += data.stock.decrement;
+          part.reservedStock -= data.reservedStock.increment;
+        });
+        return { count: 1 };
+      },
+    },
+    order: {
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        await tick();
+        return { id: `order-${++orderSeq}`, ...data };
+      },
+      findUnique: async ({ where }: ById) => ({
+        id: where.id,
+        total: new Prisma.Decimal(0),
+        items: [],
+        shipments: [],
+      }),
+    },
+    orderItem: { createMany: async () => tick() },
+    stockReservation: { createMany: async () => tick() },
+    shipment: {
+      create: async ({ data }: { data: { orderId: string; vendorId: string } }) => {
+        await tick();
+        return { id: `ship-${data.orderId}-${data.vendorId}`, ...data };
+      },
+    },
+    payment: { create: async () => tick() },
+    cart: { update: async () => tick() },
+  });
+
+  const prisma = {
+    ...buildClient([]),
+    cart: { findFirst: jest.fn() },
+    address: {
+      findMany: async ({ where }: ByIds) => where.id.in.map((id: string) => ({ id })),
+    },
+    shippingZone: { findMany: async () => [] },
+    $transaction: async (fn: (tx: ReturnType<typeof buildClient>) => Promise<unknown>) => {
+      const undo: Array<() => void> = [];
+      try {
+        return await fn(buildClient(undo));
+      } catch (error) {
+        undo.reverse().forEach((revert) => revert());
+        throw error;
+      }
+    },
+  };
+
+  return { prisma, store };
+}
+
+describe('Stock concurrency', () => {
+  const vendor = { id: 'vendor-1', name: 'Garage Adjo', city: 'Lomé', country: 'TG' };
+  const buildPart = (id: string, stock: number): FakePart => ({
+    id,
+    title: `Part ${id}`,
+    price: new Prisma.Decimal(10000),
+    weightKg: null,
+    stock,
+    reservedStock: 0,
+    status: 'PUBLISHED',
+    vendorId: vendor.id,
+    vendor,
+  });
+
+  const buildService = async (prisma: unknown) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        StockReservationService,
+        ShippingService,
+        ShipmentTrackingService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn((_key, fallback) => fallback) } },
+        {
+          provide: NotificationService,
+          useValue: { sendEmail: jest.fn().mockResolvedValue({ messageId: 'e' }) },
+        },
+        { provide: OrderLifecycleService, useValue: { recordCreation: jest.fn() } },
+        { provide: PromotionService, useValue: { quote: jest.fn() } },
+        {
+          provide: PickupService,
+          useValue: { issuePin: jest.fn(), sendPins: jest.fn().mockResolvedValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    return module.get<OrdersService>(OrdersService);
+  };
+
+  const settle = (calls: Promise<unknown>[]) => Promise.allSettled(calls);
+  const rejected = (results: PromiseSettledResult<unknown>[]) =>
+    results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+
+  describe('create', () => {
+    it('sells the last unit to exactly one of ten concurrent buyers', async () => {
+      const { prisma, store } = createFakeDatabase([buildPart('part-a', 1)]);
+      const service = await buildService(prisma);
+
+      const results = await settle(
+        Array.from({ length: 10 }, (_, i) =>
+          service.create(`user-${i}`, { items: [{ partId: 'part-a', quantity: 1 }] }),
+        ),
+      );
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+      expect(rejected(results)).toHaveLength(9);
+      rejected(results).forEach((r) => expect(r.reason).toBeInstanceOf(BadRequestException));
+      expect(store.get('part-a')).toMatchObject({ stock: 0, reservedStock: 1 });
+    });
+
+    it('never goes below zero with mixed quantities', async () => {
+      const { prisma, store } = createFakeDatabase([buildPart('part-a', 5)]);
+      const service = await buildService(prisma);
+
+      const quantities = [2, 3, 1, 4, 2, 1, 3];
+      const results = await settle(
+        quantities.map((quantity, i) =>
+          service.create(`user-${i}`, { items: [{ partId: 'part-a', quantity }] }),
+        ),
+      );
+
+      const sold = quantities
+        .filter((_, i) => results[i].status === 'fulfilled')
+        .reduce((sum, q) => sum + q, 0);
+      const part = store.get('part-a')!;
+      expect(part.stock).toBeGreaterThanOrEqual(0);
+      expect(part.stock + sold).toBe(5);
+      expect(part.reservedStock).toBe(sold);
+    });
+
+    it('rolls back every line when one line runs out', async () => {
+      const { prisma, store } = createFakeDatabase([
+        buildPart('part-a', 5),
+        buildPart('part-b', 1),
+      ]);
+      const service = await buildService(prisma);
+
+      const results = await settle([
+        service.create('user-1', { items: [{ partId: 'part-b', quantity: 1 }] }),
+        service.create('user-2', {
+          items: [
+            { partId: 'part-a', quantity: 2 },
+            { partId: 'part-b', quantity: 1 },
+          ],
+        }),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+      expect(store.get('part-a')).toMatchObject({ stock: 5, reservedStock: 0 });
+      expect(store.get('part-b')).toMatchObject({ stock: 0, reservedStock: 1 });
+    });
+  });
+
+  describe('checkoutFromCart', () => {
+    it('lets only as many carts through as there are units', async () => {
+      const { prisma, store } = createFakeDatabase([buildPart('part-a', 2)]);
+      const service = await buildService(prisma);
+      prisma.cart.findFirst.mockImplementation(async ({ where }: { where: { userId: string } }) => {
+        await tick();
+        const part = { ...store.get('part-a')! };
+        return {
+          id: `cart-${where.userId}`,
+          total: new Prisma.Decimal(10000),
+          items: [
+            {
+              partId: 'part-a',
+              vendorId: vendor.id,
+              quantity: 1,
+              partTitle: part.title,
+              part,
+              vendor,
+            },
+          ],
+        };
+      });
+
+      const results = await settle(
+        Array.from({ length: 6 }, (_, i) =>
+          service.checkoutFromCart(`user-${i}`, {
+            vendorShipping: [{ vendorId: vendor.id, addressId: `addr-${i}` }],
+          }),
+        ),
+      );
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(2);
+      expect(rejected(results)).toHaveLength(4);
+      expect(store.get('part-a')).toMatchObject({ stock: 0, reservedStock: 2 });
+    });
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              STOCK RESERVATION SERVICE TESTS — Holds, Release, Expiry Sweeper                     ║
+ * ║  Tests: stock ↔ reservedStock moves, settle-once, sweeper lock, expiry transaction                ║
+ * ║  Focus: Abandoned payments give their stock back exactly once                                     ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OrderStatus, Prisma } from '@prisma/client';
+import { StockReservationService } from './stock-reservation.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { OrderLifecycleService } from './order-lifecycle.service';
+import { ShipmentTrackingService } from './shipment-tracking.service';
+
+describe('StockReservationService', () => {
+  const SYSTEM = { type: 'SYSTEM' };
+  let service: StockReservationService;
+  let tx: ReturnType<typeof createTx> & Prisma.TransactionClient;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let redisSet: jest.Mock;
+  let redisEval: jest.Mock;
+  let lifecycle: { transition: jest.Mock; syncWithShipments: jest.Mock };
+  let tracking: { cancelOrderShipments: jest.Mock; transition: jest.Mock };
+
+  const activeReservation = (id: string, partId: string, quantity: number) => ({
+    id,
+    orderId: 'order-1',
+    partId,
+    quantity,
+    status: 'ACTIVE',
+  });
+
+  const createTx = () => ({
+    part: {
+      update: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUnique: jest.fn(),
+    },
+    stockReservation: {
+      createMany: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    payment: { updateMany: jest.fn(), count: jest.fn().mockResolvedValue(0) },
+    order: { findUnique: jest.fn(), update: jest.fn() },
+  });
+
+  const createPrismaMock = () => ({
+    stockReservation: { findMany: jest.fn().mockResolvedValue([]), updateMany: jest.fn() },
+    $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  });
+
+  beforeEach(async () => {
+    tx = createTx() as unknown as typeof tx;
+    mockPrisma = createPrismaMock();
+    redisSet = jest.fn().mockResolvedValue('OK');
+    redisEval = jest.fn().mockResolvedValue(1);
+    lifecycle = { transition: jest.fn(), syncWithShipments: jest.fn() };
+    tracking = { cancelOrderShipments: jest.fn(), transition: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockReservationService,
+        { provide: PrismaService, useValue: mockPrisma },
+        {
+          provide: RedisService,
+          useValue: { getClient: () => ({ set: redisSet, eval: redisEval }) },
+        },
+        { provide: OrderLifecycleService, useValue: lifecycle },
+        { provide: ShipmentTrackingService, useValue: tracking },
+        { provide: ConfigService, useValue: { get: jest.fn((_key, fallback) => fallback) } },
+      ],
+    }).compile();
+
+    service = module.get<StockReservationService>(StockReservationService);
+  });
+
+  describe('reserve', () => {
+    it('moves quantity from stock to reservedStock and records the hold', async () => {
+      const before = Date.now();
+      const expiresAt = await service.reserve(tx, 'order-1', [
+        { partId: 'part-a', quantity: 2 },
+        { partId: 'part-b', quantity: 1 },
+      ]);
+
+      expect(tx.part.updateMany).toHaveBeenCalledWith({
+        where: { id: 'part-a', stock: { gte: 2 } },
+        data: { stock: { decrement: 2 }, reservedStock: { increment: 2 } },
+      });
+      expect(tx.stockReservation.createMany).toHaveBeenCalledWith({
+        data: [
+          { orderId: 'order-1', partId: 'part-a', quantity: 2, expiresAt },
+          { orderId: 'order-1', partId: 'part-b', quantity: 1, expiresAt },
+        ],
+      });
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+    });
+
+    it('fails the transaction when a line loses the race for stock', async () => {
+      tx.part.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+      tx.part.findUnique.mockResolvedValue({ title: 'Plaquettes', stock: 0 });
+
+      await expect(
+        service.reserve(tx, 'order-1', [
+          { partId: 'part-b', quantity: 1 },
+          { partId: 'part-a', quantity: 1 },
+        ]),
+      ).rejects.toThrow('Insufficient stock for "Plaquettes". Available: 0, Requested: 1');
+      expect(
+        tx.part.updateMany.mock.calls.map(([args]: [{ where: { id: string } }]) => args.where.id),
+      ).toEqual(['part-a', 'part-b']);
+      expect(tx.stockReservation.createMany).not.toHaveBeenCalled();
+    });
+
+    it('uses the longer window for cash on pickup', async () => {
+      const expiresAt = await service.reserve(tx, 'order-1', [{ partId: 'part-a', quantity: 1 }], {
+        pickup: true,
+      });
+
+      expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 24 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('consume / release', () => {
+    beforeEach(() => {
+      tx.stockReservation.findMany.mockResolvedValue([activeReservation('r-1', 'part-a', 2)]);
+    });
+
+    it('consume only lowers reservedStock', async () => {
+      await service.consume(tx, 'order-1');
+
+      expect(tx.part.update).toHaveBeenCalledWith({
+        where: { id: 'part-a' },
+        data: { reservedStock: { decrement: 2 } },
+      });
+    });
+
+    it('release gives the quantity back to stock', async () => {
+      await service.release(tx, 'order-1');
+
+      expect(tx.stockReservation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'r-1', status: 'ACTIVE' },
+        data: { status: 'RELEASED' },
+      });
+      expect(tx.part.update).toHaveBeenCalledWith({
+        where: { id: 'part-a' },
+        data: { reservedStock: { decrement: 2 }, stock: { increment: 2 } },
+      });
+    });
+
+    it('skips reservations settled concurrently', async () => {
+      tx.stockReservation.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.release(tx, 'order-1')).resolves.toBe(0);
+      expect(tx.part.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sweep', () => {
+    it('does nothing when another instance holds the lock', async () => {
+      redisSet.mockResolvedValue(null);
+
+      await expect(service.sweep()).resolves.toEqual({ expired: 0 });
+      expect(mockPrisma.stockReservation.findMany).not.toHaveBeenCalled();
+      expect(redisEval).not.toHaveBeenCalled();
+    });
+
+    it('cancels overdue unpaid orders and releases their stock', async () => {
+      mockPrisma.stockReservation.findMany.mockResolvedValue([{ orderId: 'order-1' }]);
+      tx.stockReservation.findMany.mockResolvedValue([activeReservation('r-1', 'part-a', 1)]);
+
+      const now = new Date('2026-01-08T12:00:00Z');
+      await expect(service.sweep(now)).resolves.toEqual({ expired: 1 });
+
+      // Not while a payment is being approved (processing for less than 24 h)
+      expect(mockPrisma.stockReservation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: 'ACTIVE',
+            order: {
+              status: OrderStatus.PENDING_PAYMENT,
+              payments: {
+                none: {
+                  status: 'processing',
+                  updatedAt: { gte: new Date('2026-01-07T12:00:00Z') },
+                },
+              },
+            },
+          }),
+        }),
+      );
+      expect(lifecycle.transition).toHaveBeenCalledWith(
+        'order-1',
+        OrderStatus.CANCELLED,
+        { type: 'SYSTEM' },
+        'Payment window expired',
+        tx,
+      );
+      expect(tx.stockReservation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'r-1', status: 'ACTIVE' },
+        data: { status: 'EXPIRED' },
+      });
+      expect(tracking.cancelOrderShipments).toHaveBeenCalledWith(
+        tx,
+        'order-1',
+        { type: 'SYSTEM' },
+        'Payment window expired',
+      );
+      // Lock released with the token it was taken with, never someone else's
+      const token = redisSet.mock.calls[0][1];
+      expect(redisEval).toHaveBeenCalledWith(
+        expect.stringContaining("redis.call('del', KEYS[1])"),
+        1,
+        'stock-reservations:sweep:lock',
+        token,
+      );
+    });
+
+    it('expires only the vendors still waiting for cash on an order paid in part', async () => {
+      // Vendor A picked up and paid cash; vendor B's buyer never showed up
+      mockPrisma.stockReservation.findMany.mockResolvedValue([{ orderId: 'order-1' }]);
+      tx.payment.count.mockResolvedValue(1);
+      tx.order.findUnique.mockResolvedValue({
+        id: 'order-1',
+        items: [
+          {
+            partId: 'part-a',
+            vendorId: 'vendor-a',
+            quantity: 1,
+            unitPrice: new Prisma.Decimal(5000),
+            discount: new Prisma.Decimal(0),
+          },
+          {
+            partId: 'part-b',
+            vendorId: 'vendor-b',
+            quantity: 2,
+            unitPrice: new Prisma.Decimal(4000),
+            discount: new Prisma.Decimal(500),
+          },
+        ],
+        shipments: [{ id: 'ship-b', vendorId: 'vendor-b', shippingFee: new Prisma.Decimal(1000) }],
+      });
+      tx.stockReservation.findMany.mockImplementation(
+        ({ where }: { where: { partId?: { in: string[] } } }) =>
+          Promise.resolve(
+            [activeReservation('r-a', 'part-a', 1), activeReservation('r-b', 'part-b', 2)].filter(
+              (r) => !where.partId || where.partId.in.includes(r.partId),
+            ),
+          ),
+      );
+
+      await expect(service.sweep()).resolves.toEqual({ expired: 1 });
+
+      expect(tracking.transition).toHaveBeenCalledWith(tx, 'ship-b', 'CANCELLED', SYSTEM, {
+        note: 'Payment window expired',
+      });
+      expect(tracking.cancelOrderShipments).not.toHaveBeenCalled();
+      expect(tx.payment.updateMany).toHaveBeenCalledWith({
+        where: { orderId: 'order-1', method: 'cash_on_pickup', status: 'pending' },
+        data: { status: 'failed', errorMessage: 'Order expired' },
+      });
+      expect(tx.stockReservation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'r-b', status: 'ACTIVE' },
+        data: { status: 'EXPIRED' },
+      });
+      expect(tx.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-1' },
+        data: {
+          total: { decrement: new Prisma.Decimal(8500) },
+          shippingTotal: { decrement: new Prisma.Decimal(1000) },
+          discountTotal: { decrement: new Prisma.Decimal(500) },
+        },
+      });
+      expect(lifecycle.transition).toHaveBeenCalledWith(
+        'order-1',
+        OrderStatus.PAID,
+        SYSTEM,
+        'Payment window expired for the vendors not paid',
+        tx,
+      );
+      expect(lifecycle.transition).not.toHaveBeenCalledWith(
+        'order-1',
+        OrderStatus.CANCELLED,
+        expect.anything(),
+        expect.anything(),
+        tx,
+      );
+      // Vendor A's hold is consumed with the payment, not given back
+      expect(tx.stockReservation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'r-a', status: 'ACTIVE' },
+        data: { status: 'CONSUMED' },
+      });
+      expect(lifecycle.syncWithShipments).toHaveBeenCalledWith('order-1', SYSTEM, tx);
+    });
+
+    it('leaves an order alone when its payment lands first', async () => {
+      mockPrisma.stockReservation.findMany.mockResolvedValue([{ orderId: 'order-1' }]);
+      lifecycle.transition.mockRejectedValue(new ConflictException('changed concurrently'));
+
+      await expect(service.sweep()).resolves.toEqual({ expired: 0 });
+      expect(tx.part.update).not.toHaveBeenCalled();
+    });
+  });
+});
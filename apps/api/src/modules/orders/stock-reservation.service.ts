@@ -0,0 +1,423 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        STOCK RESERVATION SERVICE — Time-Limited Holds on Unpaid Orders             ║
+ * ║  Implements: Reserve at order time, consume on payment, release on cancel, expiry sweeper         ║
+ * ║  Uses: Prisma (StockReservation, Part.reservedStock), Redis (sweeper lock), OrderLifecycleService ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] STOCK MODEL
+ *     [1a] Part.stock          → available to buy (what checkout validates against)
+ *     [1b] Part.reservedStock  → held by unpaid orders (vendor sees why stock looks low)
+ *     [1c] Physical stock      = stock + reservedStock
+ *
+ * [2] RESERVATION LIFECYCLE
+ *     [2a] ACTIVE   → created with the order (stock -= qty, reservedStock += qty)
+ *     [2b] CONSUMED → order PAID (reservedStock -= qty)
+ *     [2c] RELEASED → order cancelled by customer (stock += qty, reservedStock -= qty)
+ *     [2d] EXPIRED  → payment window elapsed, order CANCELLED by the sweeper (same as RELEASED),
+ *                     or only the lines of the vendors still waiting for cash [4b]
+ *
+ * [3] CONFIGURATION (.env)
+ *     [3a] STOCK_RESERVATION_TTL_MINUTES          → payment window (default 30)
+ *     [3b] STOCK_RESERVATION_PICKUP_TTL_MINUTES   → cash on pickup window (default 4320 = 3 days)
+ *     [3c] STOCK_RESERVATION_PAYMENT_GRACE_MINUTES → extra time once a payment is initiated (default 15)
+ *     [3d] STOCK_RESERVATION_SWEEP_INTERVAL_MS    → sweeper period (default 60000, 0 = disabled)
+ *     [3e] STOCK_RESERVATION_PROCESSING_MAX_MINUTES → how long a payment stuck in PROCESSING
+ *          keeps its order from expiring (default 1440 = 24 h)
+ *
+ * [4] SWEEPER
+ *     [4a] setInterval in-process; a Redis NX lock keeps one instance sweeping at a time, released
+ *          only by the run holding it (token compared before the delete)
+ *     [4b] Orders with a completed payment (partial cash pickup) are not cancelled: only the vendors
+ *          still waiting for cash expire (shipment CANCELLED, cash payment FAILED, reservations
+ *          released, lines + fee off Order.total), then the order is PAID with the shipments paid
+ *          for (reservations consumed) and follows them
+ *     [4c] Nor orders with a payment still PROCESSING at the provider: the customer may be
+ *          approving it right now. Its final webhook decides (failed → expired on a later run).
+ *          A capture that still lands on an expired order is refunded (PaymentService [5e])
+ *     [4d] Each order expires in its own transaction; a concurrent payment wins (409 on transition)
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { OrderStatus, Prisma, StockReservationStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RELEASE_LOCK_SCRIPT, RedisService } from '../redis/redis.service';
+import { PaymentMethod, PaymentStatus } from '../payments/dto/create-payment.dto';
+import { OrderLifecycleService, SYSTEM_ACTOR } from './order-lifecycle.service';
+import { CLOSED_SHIPMENT_STATUSES, ShipmentTrackingService } from './shipment-tracking.service';
+import { ShipmentStatus } from './dto/update-shipment.dto';
+
+export interface ReservationLine {
+  partId: string;
+  quantity: number;
+}
+
+const SWEEP_LOCK_KEY = 'stock-reservations:sweep:lock';
+const SWEEP_BATCH_SIZE = 100;
+
+@Injectable()
+export class StockReservationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(StockReservationService.name);
+  private readonly ttlMinutes: number;
+  private readonly pickupTtlMinutes: number;
+  private readonly paymentGraceMinutes: number;
+  private readonly sweepIntervalMs: number;
+  private readonly processingMaxMinutes: number;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+    private readonly lifecycle: OrderLifecycleService,
+    private readonly tracking: ShipmentTrackingService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ttlMinutes = this.readInt('STOCK_RESERVATION_TTL_MINUTES', 30);
+    this.pickupTtlMinutes = this.readInt('STOCK_RESERVATION_PICKUP_TTL_MINUTES', 4320);
+    this.paymentGraceMinutes = this.readInt('STOCK_RESERVATION_PAYMENT_GRACE_MINUTES', 15);
+    this.sweepIntervalMs = this.readInt('STOCK_RESERVATION_SWEEP_INTERVAL_MS', 60000);
+    this.processingMaxMinutes = this.readInt('STOCK_RESERVATION_PROCESSING_MAX_MINUTES', 1440);
+  }
+
+  /**
+   * [5] START / STOP SWEEPER
+   *     unref(): the timer never keeps the process alive (tests, graceful shutdown)
+   */
+  onModuleInit(): void {
+    if (this.sweepIntervalMs <= 0) {
+      this.logger.warn(
+        'Stock reservation sweeper disabled (STOCK_RESERVATION_SWEEP_INTERVAL_MS=0)',
+      );
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error) => {
+        this.logger.error(`Stock reservation sweep failed: ${error.message}`);
+      });
+    }, this.sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  /**
+   * [6] RESERVE (inside the order creation transaction)
+   *     [6a] Moves quantity from stock to reservedStock and records one ACTIVE row per line
+   *     [6b] Returns the reservation deadline (shown to the customer)
+   *     [6c] Oversell-proof: conditional decrement (WHERE stock >= qty); a line that loses the race
+   *          throws → the whole order transaction rolls back, stock never goes below zero
+   *     [6d] Lines locked in partId order → two multi-part orders cannot deadlock each other
+   */
+  async reserve(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    lines: ReservationLine[],
+    options: { pickup?: boolean } = {},
+  ): Promise<Date> {
+    const ttl = options.pickup ? this.pickupTtlMinutes : this.ttlMinutes;
+    const expiresAt = new Date(Date.now() + ttl * 60 * 1000);
+
+    const ordered = [...lines].sort((a, b) => a.partId.localeCompare(b.partId));
+
+    for (const line of ordered) {
+      const { count } = await tx.part.updateMany({
+        where: { id: line.partId, stock: { gte: line.quantity } },
+        data: {
+          stock: { decrement: line.quantity },
+          reservedStock: { increment: line.quantity },
+        },
+      });
+
+      if (count === 0) {
+        const part = await tx.part.findUnique({
+          where: { id: line.partId },
+          select: { title: true, stock: true },
+        });
+        if (!part) {
+          throw new NotFoundException(`Part ${line.partId} not found`);
+        }
+        // Same message as the pre-checks: the client sees one behaviour whoever won the race
+        throw new BadRequestException(
+          `Insufficient stock for "${part.title}". Available: ${part.stock}, Requested: ${line.quantity}`,
+        );
+      }
+    }
+
+    await tx.stockReservation.createMany({
+      data: lines.map((line) => ({
+        orderId,
+        partId: line.partId,
+        quantity: line.quantity,
+        expiresAt,
+      })),
+    });
+
+    return expiresAt;
+  }
+
+  /**
+   * [7] CONSUME (order PAID)
+   *     Stock already left Part.stock at order time → only reservedStock goes down
+   */
+  async consume(tx: Prisma.TransactionClient, orderId: string): Promise<number> {
+    return this.settle(tx, orderId, StockReservationStatus.CONSUMED);
+  }
+
+  /**
+   * [8] RELEASE (order cancelled / expired, or only some parts when a vendor rejects its shipment)
+   *     Quantity goes back to Part.stock
+   */
+  async release(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    status: 'RELEASED' | 'EXPIRED' = StockReservationStatus.RELEASED,
+    partIds?: string[],
+  ): Promise<number> {
+    return this.settle(tx, orderId, status, partIds);
+  }
+
+  /**
+   * [9] EXTEND FOR PAYMENT
+   *     A payment initiated near the deadline gets PAYMENT_GRACE minutes to be approved
+   *     (mobile money confirmation on the phone can take a while)
+   */
+  async extendForPayment(orderId: string): Promise<void> {
+    const graceUntil = new Date(Date.now() + this.paymentGraceMinutes * 60 * 1000);
+
+    await this.prisma.stockReservation.updateMany({
+      where: {
+        orderId,
+        status: StockReservationStatus.ACTIVE,
+        expiresAt: { lt: graceUntil },
+      },
+      data: { expiresAt: graceUntil },
+    });
+  }
+
+  /**
+   * [10] SWEEP
+   *      [10a] One instance at a time (Redis NX lock, expires on its own if the holder dies)
+   *      [10b] Expires up to SWEEP_BATCH_SIZE overdue orders per run
+   *      [10c] Skips orders with a payment in flight [4c]; orders paid in part expire in part [4b]
+   */
+  async sweep(now = new Date()): Promise<{ expired: number }> {
+    const lockTtlSeconds = Math.max(1, Math.ceil(this.sweepIntervalMs / 1000));
+    const token = `${process.pid}:${randomUUID()}`;
+    const locked = await this.redis
+      .getClient()
+      .set(SWEEP_LOCK_KEY, token, 'EX', lockTtlSeconds, 'NX');
+    if (!locked) {
+      return { expired: 0 };
+    }
+
+    try {
+      const processingSince = new Date(now.getTime() - this.processingMaxMinutes * 60 * 1000);
+      const overdue = await this.prisma.stockReservation.findMany({
+        where: {
+          status: StockReservationStatus.ACTIVE,
+          expiresAt: { lt: now },
+          order: {
+            status: OrderStatus.PENDING_PAYMENT,
+            payments: {
+              none: { status: PaymentStatus.PROCESSING, updatedAt: { gte: processingSince } },
+            },
+          },
+        },
+        distinct: ['orderId'],
+        select: { orderId: true },
+        take: SWEEP_BATCH_SIZE,
+      });
+
+      let expired = 0;
+      for (const { orderId } of overdue) {
+        try {
+          await this.expireOrder(orderId);
+          expired++;
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger.warn(`Order ${orderId} not expired: ${message}`);
+        }
+      }
+
+      if (expired > 0) {
+        this.logger.log(`Expired ${expired} unpaid order(s), stock released`);
+      }
+      return { expired };
+    } finally {
+      await this.redis.getClient().eval(RELEASE_LOCK_SCRIPT, 1, SWEEP_LOCK_KEY, token);
+    }
+  }
+
+  /**
+   * [11] EXPIRE ORDER (PRIVATE HELPER)
+   *      Same effects as a customer cancellation, attributed to SYSTEM; paid in part → [11a]
+   */
+  private async expireOrder(orderId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const collected = await tx.payment.count({
+        where: { orderId, method: PaymentMethod.CASH_ON_PICKUP, status: PaymentStatus.COMPLETED },
+      });
+      if (collected > 0) {
+        await this.expireUnpaidVendors(tx, orderId);
+        return;
+      }
+
+      await this.lifecycle.transition(
+        orderId,
+        OrderStatus.CANCELLED,
+        SYSTEM_ACTOR,
+        'Payment window expired',
+        tx,
+      );
+
+      await this.release(tx, orderId, StockReservationStatus.EXPIRED);
+
+      await this.tracking.cancelOrderShipments(tx, orderId, SYSTEM_ACTOR, 'Payment window expired');
+
+      await tx.payment.updateMany({
+        where: { orderId, method: PaymentMethod.CASH_ON_PICKUP, status: PaymentStatus.PENDING },
+        data: { status: PaymentStatus.FAILED, errorMessage: 'Order expired' },
+      });
+    });
+  }
+
+  /**
+   *      [11a] Only the vendors still waiting for cash expire [4b]; the order goes on as PAID
+   */
+  private async expireUnpaidVendors(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: true,
+        shipments: {
+          where: {
+            status: { notIn: CLOSED_SHIPMENT_STATUSES },
+            payments: {
+              some: { method: PaymentMethod.CASH_ON_PICKUP, status: PaymentStatus.PENDING },
+            },
+          },
+          select: { id: true, vendorId: true, shippingFee: true },
+        },
+      },
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    for (const shipment of order.shipments) {
+      await this.tracking.transition(tx, shipment.id, ShipmentStatus.CANCELLED, SYSTEM_ACTOR, {
+        note: 'Payment window expired',
+      });
+    }
+
+    await tx.payment.updateMany({
+      where: { orderId, method: PaymentMethod.CASH_ON_PICKUP, status: PaymentStatus.PENDING },
+      data: { status: PaymentStatus.FAILED, errorMessage: 'Order expired' },
+    });
+
+    // Lines (net of their coupon share) and fees of the expired vendors leave the order
+    const vendorIds = order.shipments.map((shipment) => shipment.vendorId);
+    const items = order.items.filter((item) => vendorIds.includes(item.vendorId));
+    await this.release(
+      tx,
+      orderId,
+      StockReservationStatus.EXPIRED,
+      items.map((item) => item.partId),
+    );
+
+    if (order.shipments.length > 0) {
+      const itemsTotal = items.reduce(
+        (sum, item) => sum.add(item.unitPrice.mul(item.quantity).sub(item.discount)),
+        new Prisma.Decimal(0),
+      );
+      const itemsDiscount = items.reduce(
+        (sum, item) => sum.add(item.discount),
+        new Prisma.Decimal(0),
+      );
+      const fees = order.shipments.reduce(
+        (sum, shipment) => sum.add(shipment.shippingFee),
+        new Prisma.Decimal(0),
+      );
+      await tx.order.update({
+        where: { id: orderId },
+        data: {
+          total: { decrement: itemsTotal.add(fees) },
+          shippingTotal: { decrement: fees },
+          discountTotal: { decrement: itemsDiscount },
+        },
+      });
+    }
+
+    await this.lifecycle.transition(
+      orderId,
+      OrderStatus.PAID,
+      SYSTEM_ACTOR,
+      'Payment window expired for the vendors not paid',
+      tx,
+    );
+    await this.consume(tx, orderId);
+    await this.lifecycle.syncWithShipments(orderId, SYSTEM_ACTOR, tx);
+  }
+
+  /**
+   * [12] SETTLE ACTIVE RESERVATIONS (PRIVATE HELPER)
+   *      Row-by-row conditional update: a reservation settled concurrently is skipped,
+   *      so Part counters are adjusted exactly once
+   */
+  private async settle(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    status: StockReservationStatus,
+    partIds?: string[],
+  ): Promise<number> {
+    const active = await tx.stockReservation.findMany({
+      where: {
+        orderId,
+        status: StockReservationStatus.ACTIVE,
+        ...(partIds && { partId: { in: partIds } }),
+      },
+    });
+
+    let settled = 0;
+    for (const reservation of active) {
+      const { count } = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: StockReservationStatus.ACTIVE },
+        data: { status },
+      });
+      if (count === 0) {
+        continue;
+      }
+
+      await tx.part.update({
+        where: { id: reservation.partId },
+        data: {
+          reservedStock: { decrement: reservation.quantity },
+          ...(status !== StockReservationStatus.CONSUMED && {
+            stock: { increment: reservation.quantity },
+          }),
+        },
+      });
+      settled++;
+    }
+
+    return settled;
+  }
+
+  private readInt(key: string, fallback: number): number {
+    return parseInt(this.configService.get<string>(key, String(fallback)), 10);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        TRACKING CONTROLLER — Public Shipment Tracking                              ║
+ * ║  Handles: Shipment status + timeline by tracking number                                           ║
+ * ║  Routes: /v1/tracking/:trackingNumber (no authentication)                                         ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET /:trackingNumber → { status, carrier, vendor (name, city), events: [{ status, location, note, createdAt }] }
+ *
+ * [2] PRIVACY
+ *     [2a] Anyone holding the tracking number can call it (shared by SMS, printed on the parcel)
+ *     [2b] No order id, customer, address, amounts or actor ids are returned
+ */
+
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { ShipmentTrackingService } from './shipment-tracking.service';
+
+@Controller('tracking')
+@ApiTags('tracking')
+export class TrackingController {
+  constructor(private readonly tracking: ShipmentTrackingService) {}
+
+  @Get(':trackingNumber')
+  async track(@Param('trackingNumber') trackingNumber: string) {
+    return this.tracking.track(trackingNumber);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VENDOR ORDERS CONTROLLER — Merchant Order Inbox                             ║
+ * ║  Handles: Orders containing the caller's parts, reduced to the vendor's share                     ║
+ * ║  Routes: /v1/vendor/orders/* (owner of the vendor, via Vendor.userId)                             ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET /?status=&from=&to=&vendorId=&page=&pageSize= → Orders, newest first
+ *     [1b] GET /:id → { id, status, buyer: { name }, items (own only), shipments (with delivery address), vendorSubtotal }
+ *
+ * [2] ERRORS
+ *     [2a] Not a MERCHANT (RolesGuard) / user without vendor → 403
+ *     [2b] Order without items of the caller's vendors → 404
+ */
+
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { VendorOrdersService } from './vendor-orders.service';
+import { VendorOrdersQueryDto } from './dto/vendor-orders-query.dto';
+
+@Controller('vendor/orders')
+@ApiTags('vendor-orders')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class VendorOrdersController {
+  constructor(private readonly vendorOrders: VendorOrdersService) {}
+
+  @Get()
+  @Roles('MERCHANT')
+  async listOrders(@Query() query: VendorOrdersQueryDto, @CurrentUser() user: CurrentUserPayload) {
+    return this.vendorOrders.listOrders(user.sub, query);
+  }
+
+  @Get(':id')
+  @Roles('MERCHANT')
+  async getOrder(@Param('id') id: string, @CurrentUser() user: CurrentUserPayload) {
+    return this.vendorOrders.getOrder(user.sub, id);
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              VENDOR ORDERS SERVICE TESTS — Merchant Inbox & Fulfilment                            ║
+ * ║  Tests: Vendor scoping, accept / ready / reject, unpaid order adjustment, paid order refund       ║
+ * ║  Focus: A merchant never sees or touches another vendor's order lines                             ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { OrderStatus, Prisma } from '@prisma/client';
+import { VendorOrdersService } from './vendor-orders.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OrderLifecycleService } from './order-lifecycle.service';
+import { StockReservationService } from './stock-reservation.service';
+import { ShipmentTrackingService } from './shipment-tracking.service';
+import { PaymentService } from '../payments/payments.service';
+
+describe('VendorOrdersService', () => {
+  let service: VendorOrdersService;
+  let tx: ReturnType<typeof createTx>;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let lifecycle: { transition: jest.Mock; syncWithShipments: jest.Mock };
+  let reservations: { release: jest.Mock; consume: jest.Mock };
+  let refundPayment: jest.Mock;
+  let tracking: {
+    transition: jest.Mock;
+    recordEvent: jest.Mock;
+    getTimeline: jest.Mock;
+  };
+
+  const merchant = { type: 'MERCHANT', id: 'merchant-1' };
+
+  const buildShipment = (overrides: Record<string, unknown> = {}) => ({
+    id: 'ship-1',
+    orderId: 'order-1',
+    vendorId: 'vendor-1',
+    status: 'CREATED',
+    fulfilment: 'DELIVERY',
+    shippingFee: new Prisma.Decimal(2000),
+    acceptedAt: null,
+    ...overrides,
+  });
+
+  const buildOrder = (overrides: Record<string, unknown> = {}) => ({
+    id: 'order-1',
+    status: OrderStatus.PENDING_PAYMENT,
+    items: [
+      {
+        id: 'item-1',
+        partId: 'part-a',
+        quantity: 2,
+        unitPrice: new Prisma.Decimal(5000),
+        discount: new Prisma.Decimal(0),
+        refundItems: [] as Array<{ quantity: number; refund: { status: string } }>,
+      },
+    ],
+    payments: [] as Array<{ id: string }>,
+    shipments: [{ id: 'ship-2' }],
+    ...overrides,
+  });
+
+  const createTx = () => ({
+    shipment: {
+      update: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    payment: {
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      count: jest.fn().mockResolvedValue(0),
+    },
+    order: { findUnique: jest.fn(), update: jest.fn() },
+    part: { update: jest.fn() },
+  });
+
+  const createPrismaMock = () => ({
+    vendor: { findMany: jest.fn().mockResolvedValue([{ id: 'vendor-1' }]) },
+    order: { findMany: jest.fn().mockResolvedValue([]), findFirst: jest.fn(), count: jest.fn() },
+    shipment: { findFirst: jest.fn() },
+    orderItem: { findMany: jest.fn().mockResolvedValue([]) },
+    $transaction: jest.fn((arg: ((client: typeof tx) => unknown) | Promise<unknown>[]) =>
+      Array.isArray(arg) ? Promise.all(arg) : arg(tx),
+    ),
+  });
+
+  beforeEach(async () => {
+    tx = createTx();
+    mockPrisma = createPrismaMock();
+    lifecycle = {
+      transition: jest.fn().mockResolvedValue({ status: OrderStatus.CANCELLED }),
+      syncWithShipments: jest.fn().mockResolvedValue({ status: OrderStatus.PROCESSING }),
+    };
+    reservations = { release: jest.fn(), consume: jest.fn() };
+    refundPayment = jest.fn().mockResolvedValue({ id: 'refund-1' });
+    tracking = {
+      transition: jest.fn(),
+      recordEvent: jest.fn(),
+      getTimeline: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VendorOrdersService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: OrderLifecycleService, useValue: lifecycle },
+        { provide: StockReservationService, useValue: reservations },
+        { provide: ShipmentTrackingService, useValue: tracking },
+        { provide: PaymentService, useValue: { refundPayment } },
+      ],
+    }).compile();
+
+    service = module.get<VendorOrdersService>(VendorOrdersService);
+  });
+
+  describe('listOrders', () => {
+    it('only loads the caller vendors items and shipments', async () => {
+      mockPrisma.order.count.mockResolvedValue(1);
+      mockPrisma.order.findMany.mockResolvedValue([
+        {
+          id: 'order-1',
+          userId: 'buyer-1',
+          status: OrderStatus.PAID,
+          total: new Prisma.Decimal(99000),
+          createdAt: new Date(),
+          user: { name: 'Kofi' },
+          items: buildOrder().items,
+          shipments: [],
+        },
+      ]);
+
+      const result = await service.listOrders('merchant-1', {
+        status: OrderStatus.PAID,
+        from: '2025-12-01',
+      });
+
+      const args = mockPrisma.order.findMany.mock.calls[0][0];
+      expect(args.where).toEqual({
+        items: { some: { vendorId: { in: ['vendor-1'] } } },
+        status: OrderStatus.PAID,
+        createdAt: { gte: new Date('2025-12-01') },
+      });
+      expect(args.include.items.where).toEqual({ vendorId: { in: ['vendor-1'] } });
+      expect(args.include.shipments.where).toEqual({ vendorId: { in: ['vendor-1'] } });
+      expect(result.items[0].vendorSubtotal.toNumber()).toBe(10000);
+      expect(result.items[0]).not.toHaveProperty('total');
+      expect(result.items[0]).not.toHaveProperty('userId');
+    });
+
+    it('refuses a vendorId the caller does not own', async () => {
+      await expect(service.listOrders('merchant-1', { vendorId: 'vendor-2' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('refuses users without a vendor account', async () => {
+      mockPrisma.vendor.findMany.mockResolvedValue([]);
+
+      await expect(service.listOrders('customer-1', {})).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('getShipment', () => {
+    it('hides shipments of other vendors', async () => {
+      mockPrisma.shipment.findFirst.mockResolvedValue(null);
+
+      await expect(service.getShipment('merchant-1', 'ship-9')).rejects.toThrow(NotFoundException);
+      expect(mockPrisma.shipment.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'ship-9', vendor: { userId: 'merchant-1' } } }),
+      );
+    });
+  });
+
+  describe('acceptShipment', () => {
+    it('stamps acceptedAt and records an event without changing the status', async () => {
+      mockPrisma.shipment.findFirst.mockResolvedValue(buildShipment());
+
+      await service.acceptShipment('merchant-1', 'ship-1');
+
+      expect(tx.shipment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ship-1', status: 'CREATED', acceptedAt: null },
+        data: { acceptedAt: expect.any(Date) },
+      });
+      expect(tracking.recordEvent).toHaveBeenCalledWith(tx, 'ship-1', 'CREATED', merchant, {
+        note: 'Accepted by vendor',
+      });
+    });
+
+    it('refuses a shipment accepted already', async () => {
+      mockPrisma.shipment.findFirst.mockResolvedValue(buildShipment({ acceptedAt: new Date() }));
+
+      await expect(service.acceptShipment('merchant-1', 'ship-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('markReady', () => {
+    it('moves the shipment to READY and syncs the order', async () => {
+      mockPrisma.shipment.findFirst.mockResolvedValue(buildShipment());
+
+      await service.markReady('merchant-1', 'ship-1');
+
+      expect(tracking.transition).toHaveBeenCalledWith(tx, 'ship-1', 'READY', merchant);
+      expect(tx.shipment.update).toHaveBeenCalledWith({
+        where: { id: 'ship-1' },
+        data: { acceptedAt: expect.any(Date) },
+      });
+      expect(lifecycle.syncWithShipments).toHaveBeenCalledWith('order-1', merchant, tx);
+    });
+  });
+
+  describe('rejectShipment', () => {
+    beforeEach(() => {
+      mockPrisma.shipment.findFirst.mockResolvedValue(buildShipment());
+    });
+
+    it('takes the vendor share off an unpaid multi-vendor order', async () => {
+      const order = buildOrder();
+      order.items[0].discount = new Prisma.Decimal(1000); // coupon share of the line
+      tx.order.findUnique.mockResolvedValue(order);
+
+      const result = await service.rejectShipment('merchant-1', 'ship-1', 'Out of stock');
+
+      expect(tracking.transition).toHaveBeenCalledWith(tx, 'ship-1', 'CANCELLED', merchant, {
+        note: 'Rejected by vendor: Out of stock',
+      });
+      expect(reservations.release).toHaveBeenCalledWith(tx, 'order-1', 'RELEASED', ['part-a']);
+      expect(tx.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-1' },
+        data: {
+          total: { decrement: new Prisma.Decimal(11000) },
+          shippingTotal: { decrement: new Prisma.Decimal(2000) },
+          discountTotal: { decrement: new Prisma.Decimal(1000) },
+        },
+      });
+      expect(lifecycle.transition).not.toHaveBeenCalled();
+      expect(result.orderStatus).toBe(OrderStatus.PENDING_PAYMENT);
+    });
+
+    it('cancels an unpaid order when its last open shipment is rejected', async () => {
+      tx.order.findUnique.mockResolvedValue(buildOrder({ shipments: [] }));
+
+      const result = await service.rejectShipment('merchant-1', 'ship-1', 'Out of stock');
+
+      expect(lifecycle.transition).toHaveBeenCalledWith(
+        'order-1',
+        OrderStatus.CANCELLED,
+        merchant,
+        'Rejected by vendor: Out of stock',
+        tx,
+      );
+      expect(tx.order.update).not.toHaveBeenCalled();
+      expect(result.orderStatus).toBe(OrderStatus.CANCELLED);
+    });
+
+    it('moves a part cash-paid order to PAID when the last pending vendor rejects', async () => {
+      // Vendor A picked up and paid cash (DELIVERED, not an open shipment); vendor B rejects
+      tx.order.findUnique.mockResolvedValue(buildOrder({ shipments: [] }));
+      tx.payment.count.mockImplementation(({ where }: { where: { status: string } }) =>
+        Promise.resolve(where.status === 'completed' ? 1 : 0),
+      );
+      lifecycle.syncWithShipments.mockResolvedValue({ status: OrderStatus.DELIVERED });
+
+      const result = await service.rejectShipment('merchant-1', 'ship-1', 'Out of stock');
+
+      expect(reservations.release).toHaveBeenCalledWith(tx, 'order-1', 'RELEASED', ['part-a']);
+      expect(lifecycle.transition).not.toHaveBeenCalledWith(
+        'order-1',
+        OrderStatus.CANCELLED,
+        expect.anything(),
+        expect.anything(),
+        tx,
+      );
+      expect(tx.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-1' },
+        data: {
+          total: { decrement: new Prisma.Decimal(12000) },
+          shippingTotal: { decrement: new Prisma.Decimal(2000) },
+          discountTotal: { decrement: new Prisma.Decimal(0) },
+        },
+      });
+      expect(lifecycle.transition).toHaveBeenCalledWith(
+        'order-1',
+        OrderStatus.PAID,
+        merchant,
+        'Cash collected at pickup',
+        tx,
+      );
+      expect(reservations.consume).toHaveBeenCalledWith(tx, 'order-1');
+      expect(lifecycle.syncWithShipments).toHaveBeenCalledWith('order-1', merchant, tx);
+      expect(result.orderStatus).toBe(OrderStatus.DELIVERED);
+    });
+
+    it('keeps a part cash-paid order pending while another vendor still has cash due', async () => {
+      tx.order.findUnique.mockResolvedValue(buildOrder());
+      tx.payment.count.mockResolvedValue(1);
+
+      const result = await service.rejectShipment('merchant-1', 'ship-1', 'Out of stock');
+
+      expect(lifecycle.transition).not.toHaveBeenCalled();
+      expect(reservations.consume).not.toHaveBeenCalled();
+      expect(result.orderStatus).toBe(OrderStatus.PENDING_PAYMENT);
+    });
+
+    it('restocks and refunds the rejected lines of a paid order', async () => {
+      const order = buildOrder({ status: OrderStatus.PAID, payments: [{ id: 'pay-1' }] });
+      order.items[0].refundItems = [{ quantity: 1, refund: { status: 'COMPLETED' } }];
+      tx.order.findUnique.mockResolvedValue(order);
+
+      const result = await service.rejectShipment('merchant-1', 'ship-1', 'Out of stock');
+
+      expect(reservations.release).not.toHaveBeenCalled();
+      expect(tx.order.update).not.toHaveBeenCalled();
+      expect(tx.part.update).toHaveBeenCalledWith({
+        where: { id: 'part-a' },
+        data: { stock: { increment: 1 } },
+      });
+      expect(lifecycle.syncWithShipments).toHaveBeenCalledWith('order-1', merchant, tx);
+      expect(refundPayment).toHaveBeenCalledWith(
+        'pay-1',
+        { shipmentId: 'ship-1', reason: 'Rejected by vendor: Out of stock' },
+        merchant,
+        { restock: false, vendorIds: ['vendor-1'] },
+      );
+      expect(result).toMatchObject({
+        orderStatus: OrderStatus.PROCESSING,
+        refund: { id: 'refund-1' },
+      });
+    });
+
+    it('keeps the rejection when the refund fails', async () => {
+      tx.order.findUnique.mockResolvedValue(
+        buildOrder({ status: OrderStatus.PAID, payments: [{ id: 'pay-1' }] }),
+      );
+      refundPayment.mockRejectedValue(new Error('Refund failed. Please try again.'));
+
+      await expect(
+        service.rejectShipment('merchant-1', 'ship-1', 'Out of stock'),
+      ).resolves.toMatchObject({ refund: null });
+    });
+
+    it('voids the pending cash-on-pickup payment of the shipment', async () => {
+      tx.order.findUnique.mockResolvedValue(buildOrder());
+
+      await service.rejectShipment('merchant-1', 'ship-1', 'Out of stock');
+
+      expect(tx.payment.updateMany).toHaveBeenCalledWith({
+        where: { shipmentId: 'ship-1', method: 'cash_on_pickup', status: 'pending' },
+        data: { status: 'failed', errorMessage: 'Rejected by vendor' },
+      });
+    });
+  });
+});
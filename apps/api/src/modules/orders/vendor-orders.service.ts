@@ -0,0 +1,516 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VENDOR ORDERS SERVICE — Merchant Order Inbox & Fulfilment                   ║
+ * ║  Implements: Orders / shipments of the caller's vendors, accept, reject, ready to ship            ║
+ * ║  Uses: ShipmentTrackingService (transitions + events), OrderLifecycleService, reservations        ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] SCOPE
+ *     [1a] A merchant is the user linked to one or more Vendor rows (Vendor.userId)
+ *     [1b] Orders are listed when they contain at least one item of those vendors
+ *     [1c] Only the vendors' own OrderItems and Shipments are returned; the order total of other
+ *          vendors, the buyer's email and payments are never exposed
+ *     [1d] Delivery address = copy frozen on the shipment at checkout (Shipment.deliveryAddress)
+ *     [1e] Someone else's order / shipment → 404 (existence is not leaked)
+ *
+ * [2] FULFILMENT ACTIONS
+ *     [2a] Accept → CREATED shipment gets acceptedAt + timeline event (status unchanged)
+ *     [2b] Ready  → CREATED → READY (packed / ready to collect), order follows (PROCESSING)
+ *     [2c] Reject → shipment CANCELLED with the vendor's reason, before it leaves the vendor
+ *
+ * [3] REJECTION EFFECTS (one transaction)
+ *     [3a] Pending cash-on-pickup payment of the shipment → FAILED
+ *     [3b] Unpaid order: the vendor's reserved stock is released and its items (net of their
+ *          coupon share) + fee are taken off Order.total; last open shipment rejected → order
+ *          CANCELLED (coupon released)
+ *     [3c] Paid order: the rejected lines are restocked and the order status re-synced with the
+ *          remaining shipments; right after commit the lines (+ shipment fee) are refunded on the
+ *          order payment (PaymentService.refundPayment, provider call outside the transaction)
+ *     [3d] Refund failure → logged, shipment stays rejected; an admin refunds the shipment
+ *          (POST /payments/:id/refund { shipmentId })
+ *     [3e] Unpaid order where another vendor already collected its cash: never cancelled. Once no
+ *          cash payment is pending any more, the order becomes PAID (reservations consumed) and
+ *          follows its remaining shipments, as in PickupService [6.4]
+ */
+
+import {
+  Inject,
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+  forwardRef,
+} from '@nestjs/common';
+import { OrderStatus, Prisma, RefundStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentMethod, PaymentStatus } from '../payments/dto/create-payment.dto';
+import { PaymentService } from '../payments/payments.service';
+import { OrderLifecycleService, OrderActor } from './order-lifecycle.service';
+import { StockReservationService } from './stock-reservation.service';
+import {
+  CLOSED_SHIPMENT_STATUSES,
+  SHIPMENT_SELECT,
+  ShipmentTrackingService,
+} from './shipment-tracking.service';
+import { ShipmentStatus } from './dto/update-shipment.dto';
+import { VendorOrdersQueryDto, VendorShipmentsQueryDto } from './dto/vendor-orders-query.dto';
+
+const VENDOR_ITEM_INCLUDE = {
+  part: { select: { id: true, title: true, oemRefs: true } },
+} satisfies Prisma.OrderItemInclude;
+
+@Injectable()
+export class VendorOrdersService {
+  private readonly logger = new Logger(VendorOrdersService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly lifecycle: OrderLifecycleService,
+    private readonly reservations: StockReservationService,
+    private readonly tracking: ShipmentTrackingService,
+    @Inject(forwardRef(() => PaymentService))
+    private readonly paymentService: PaymentService,
+  ) {}
+
+  /**
+   * [4] LIST ORDERS (inbox)
+   *     [4a] Filters: vendorId (one of the caller's), order status, created from / to
+   *     [4b] Output: { items: [{ id, status, createdAt, buyer, items, shipments, vendorSubtotal }], ... }
+   */
+  async listOrders(userId: string, query: VendorOrdersQueryDto) {
+    const vendorIds = await this.resolveVendorIds(userId, query.vendorId);
+    const { page = 1, pageSize = 20 } = query;
+    const skip = (page - 1) * pageSize;
+
+    const where: Prisma.OrderWhereInput = {
+      items: { some: { vendorId: { in: vendorIds } } },
+      status: query.status,
+      createdAt: this.dateRange(query.from, query.to),
+    };
+
+    const [orders, total] = await this.prisma.$transaction([
+      this.prisma.order.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: pageSize,
+        include: this.orderInclude(vendorIds),
+      }),
+      this.prisma.order.count({ where }),
+    ]);
+
+    const items = orders.map((order) => this.toVendorOrder(order));
+
+    return {
+      items,
+      page,
+      pageSize,
+      total,
+      hasMore: skip + items.length < total,
+    };
+  }
+
+  /**
+   * [5] GET ORDER (vendor view)
+   */
+  async getOrder(userId: string, orderId: string) {
+    const vendorIds = await this.findOwnedVendorIds(userId);
+
+    const order = await this.prisma.order.findFirst({
+      where: { id: orderId, items: { some: { vendorId: { in: vendorIds } } } },
+      include: this.orderInclude(vendorIds),
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return this.toVendorOrder(order);
+  }
+
+  /**
+   * [6] LIST SHIPMENTS
+   *     [6a] Filters: vendorId, shipment status, created from / to
+   *     [6b] Each shipment comes with the vendor's items of its order
+   */
+  async listShipments(userId: string, query: VendorShipmentsQueryDto) {
+    const vendorIds = await this.resolveVendorIds(userId, query.vendorId);
+    const { page = 1, pageSize = 20 } = query;
+    const skip = (page - 1) * pageSize;
+
+    const where: Prisma.ShipmentWhereInput = {
+      vendorId: { in: vendorIds },
+      status: query.status,
+      createdAt: this.dateRange(query.from, query.to),
+    };
+
+    const [shipments, total] = await this.prisma.$transaction([
+      this.prisma.shipment.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: pageSize,
+        select: this.shipmentSelect(),
+      }),
+      this.prisma.shipment.count({ where }),
+    ]);
+
+    const items = await this.attachItems(shipments);
+
+    return {
+      items,
+      page,
+      pageSize,
+      total,
+      hasMore: skip + items.length < total,
+    };
+  }
+
+  /**
+   * [7] GET SHIPMENT (vendor view, with timeline)
+   */
+  async getShipment(userId: string, shipmentId: string) {
+    const shipment = await this.findOwnedShipment(userId, shipmentId);
+    const [withItems] = await this.attachItems([shipment]);
+    const events = await this.tracking.getTimeline(shipmentId);
+
+    return { ...withItems, events };
+  }
+
+  /**
+   * [8] ACCEPT SHIPMENT
+   *     [8a] CREATED and not accepted yet; conditional update → 409 if changed meanwhile
+   */
+  async acceptShipment(userId: string, shipmentId: string) {
+    const shipment = await this.findOwnedShipment(userId, shipmentId);
+    if (shipment.status !== ShipmentStatus.CREATED || shipment.acceptedAt) {
+      throw new BadRequestException(
+        shipment.acceptedAt
+          ? 'Shipment already accepted'
+          : `Cannot accept a shipment with status ${shipment.status}`,
+      );
+    }
+
+    const actor = this.merchant(userId);
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.shipment.updateMany({
+        where: { id: shipmentId, status: ShipmentStatus.CREATED, acceptedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new ConflictException('Shipment was updated concurrently, please retry');
+      }
+      await this.tracking.recordEvent(tx, shipmentId, ShipmentStatus.CREATED, actor, {
+        note: 'Accepted by vendor',
+      });
+    });
+
+    this.logger.log(`Shipment ${shipmentId} accepted by ${userId}`);
+
+    return this.getShipment(userId, shipmentId);
+  }
+
+  /**
+   * [9] READY TO SHIP (or to collect, for pickup)
+   *     [9a] CREATED → READY (implicit accept), order status re-synced
+   */
+  async markReady(userId: string, shipmentId: string) {
+    const shipment = await this.findOwnedShipment(userId, shipmentId);
+
+    const actor = this.merchant(userId);
+    await this.prisma.$transaction(async (tx) => {
+      await this.tracking.transition(tx, shipmentId, ShipmentStatus.READY, actor);
+      if (!shipment.acceptedAt) {
+        await tx.shipment.update({ where: { id: shipmentId }, data: { acceptedAt: new Date() } });
+      }
+      await this.lifecycle.syncWithShipments(shipment.orderId, actor, tx);
+    });
+
+    this.logger.log(`Shipment ${shipmentId} ready (${shipment.fulfilment})`);
+
+    return this.getShipment(userId, shipmentId);
+  }
+
+  /**
+   * [10] REJECT SHIPMENT
+   *      [10a] Allowed while the shipment has not left the vendor (CREATED / READY)
+   *      [10b] Effects: see [3]
+   *      [10c] Returns the shipment, the resulting order status and the refund (paid order)
+   */
+  async rejectShipment(userId: string, shipmentId: string, reason: string) {
+    const shipment = await this.findOwnedShipment(userId, shipmentId);
+
+    const actor = this.merchant(userId);
+    const rejected = await this.prisma.$transaction(async (tx) => {
+      await this.tracking.transition(tx, shipmentId, ShipmentStatus.CANCELLED, actor, {
+        note: `Rejected by vendor: ${reason}`,
+      });
+
+      await tx.payment.updateMany({
+        where: {
+          shipmentId,
+          method: PaymentMethod.CASH_ON_PICKUP,
+          status: PaymentStatus.PENDING,
+        },
+        data: { status: PaymentStatus.FAILED, errorMessage: 'Rejected by vendor' },
+      });
+
+      const order = await tx.order.findUnique({
+        where: { id: shipment.orderId },
+        include: {
+          items: {
+            where: { vendorId: shipment.vendorId },
+            include: { refundItems: { include: { refund: { select: { status: true } } } } },
+          },
+          payments: {
+            where: { status: PaymentStatus.COMPLETED, shipmentId: null },
+            select: { id: true },
+            orderBy: { createdAt: 'asc' },
+          },
+          shipments: {
+            where: { status: { notIn: CLOSED_SHIPMENT_STATUSES } },
+            select: { id: true },
+          },
+        },
+      });
+      if (!order) {
+        throw new NotFoundException('Order not found');
+      }
+
+      // [3c] Paid: the units not refunded yet go back on the shelf with the rejection
+      if (order.status !== OrderStatus.PENDING_PAYMENT) {
+        for (const item of order.items) {
+          const refunded = item.refundItems
+            .filter((ri) => ri.refund.status !== RefundStatus.FAILED)
+            .reduce((sum, ri) => sum + ri.quantity, 0);
+          if (item.quantity > refunded) {
+            await tx.part.update({
+              where: { id: item.partId },
+              data: { stock: { increment: item.quantity - refunded } },
+            });
+          }
+        }
+        const synced = await this.lifecycle.syncWithShipments(order.id, actor, tx);
+        return { status: synced.status, paymentId: order.payments[0]?.id };
+      }
+
+      await this.reservations.release(
+        tx,
+        order.id,
+        'RELEASED',
+        order.items.map((item) => item.partId),
+      );
+
+      // [3e] Cash another vendor already collected keeps the order alive
+      const collected = await tx.payment.count({
+        where: {
+          orderId: order.id,
+          method: PaymentMethod.CASH_ON_PICKUP,
+          status: PaymentStatus.COMPLETED,
+        },
+      });
+
+      if (order.shipments.length === 0 && collected === 0) {
+        const cancelled = await this.lifecycle.transition(
+          order.id,
+          OrderStatus.CANCELLED,
+          actor,
+          `Rejected by vendor: ${reason}`,
+          tx,
+        );
+        return { status: cancelled.status };
+      }
+
+      // Coupon share of the rejected lines leaves the order with them
+      const itemsTotal = order.items.reduce(
+        (sum, item) => sum.add(item.unitPrice.mul(item.quantity).sub(item.discount)),
+        new Prisma.Decimal(0),
+      );
+      const itemsDiscount = order.items.reduce(
+        (sum, item) => sum.add(item.discount),
+        new Prisma.Decimal(0),
+      );
+      await tx.order.update({
+        where: { id: order.id },
+        data: {
+          total: { decrement: itemsTotal.add(shipment.shippingFee) },
+          shippingTotal: { decrement: shipment.shippingFee },
+          discountTotal: { decrement: itemsDiscount },
+        },
+      });
+
+      const outstanding = await tx.payment.count({
+        where: {
+          orderId: order.id,
+          method: PaymentMethod.CASH_ON_PICKUP,
+          status: PaymentStatus.PENDING,
+        },
+      });
+      if (collected > 0 && outstanding === 0) {
+        await this.lifecycle.transition(
+          order.id,
+          OrderStatus.PAID,
+          actor,
+          'Cash collected at pickup',
+          tx,
+        );
+        await this.reservations.consume(tx, order.id);
+        const synced = await this.lifecycle.syncWithShipments(order.id, actor, tx);
+        return { status: synced.status };
+      }
+      return { status: order.status };
+    });
+
+    this.logger.log(`Shipment ${shipmentId} rejected by ${userId}: ${reason}`);
+
+    const refund = rejected.paymentId
+      ? await this.refundRejected(rejected.paymentId, shipment, actor, reason)
+      : null;
+
+    return {
+      shipment: await this.getShipment(userId, shipmentId),
+      orderStatus: rejected.status,
+      refund,
+    };
+  }
+
+  /**
+   * [11] HELPERS (PRIVATE)
+   *      [11a] Vendors of the caller (403 when the user has none)
+   */
+  private async findOwnedVendorIds(userId: string): Promise<string[]> {
+    const vendors = await this.prisma.vendor.findMany({
+      where: { userId },
+      select: { id: true },
+    });
+    if (vendors.length === 0) {
+      throw new ForbiddenException('No vendor account linked to this user');
+    }
+    return vendors.map((v) => v.id);
+  }
+
+  /**
+   *      [11b] Optional vendorId filter must be one of the caller's vendors
+   */
+  private async resolveVendorIds(userId: string, vendorId?: string): Promise<string[]> {
+    const vendorIds = await this.findOwnedVendorIds(userId);
+    if (vendorId && !vendorIds.includes(vendorId)) {
+      throw new NotFoundException('Vendor not found');
+    }
+    return vendorId ? [vendorId] : vendorIds;
+  }
+
+  /**
+   *      [11c] Shipment of one of the caller's vendors (404 otherwise)
+   */
+  private async findOwnedShipment(userId: string, shipmentId: string) {
+    const shipment = await this.prisma.shipment.findFirst({
+      where: { id: shipmentId, vendor: { userId } },
+      select: this.shipmentSelect(),
+    });
+    if (!shipment) {
+      throw new NotFoundException('Shipment not found');
+    }
+    return shipment;
+  }
+
+  /**
+   *      [11d] Refund of a rejected shipment on a paid order ([3c], [3d]); already restocked
+   */
+  private async refundRejected(
+    paymentId: string,
+    shipment: { id: string; vendorId: string },
+    actor: OrderActor,
+    reason: string,
+  ) {
+    try {
+      return await this.paymentService.refundPayment(
+        paymentId,
+        { shipmentId: shipment.id, reason: `Rejected by vendor: ${reason}` },
+        actor,
+        { restock: false, vendorIds: [shipment.vendorId] },
+      );
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Refund of rejected shipment ${shipment.id} failed: ${message}`);
+      return null;
+    }
+  }
+
+  private shipmentSelect() {
+    return {
+      ...SHIPMENT_SELECT,
+      order: {
+        select: { id: true, status: true, createdAt: true, user: { select: { name: true } } },
+      },
+    } satisfies Prisma.ShipmentSelect;
+  }
+
+  private orderInclude(vendorIds: string[]) {
+    return {
+      user: { select: { name: true } },
+      items: { where: { vendorId: { in: vendorIds } }, include: VENDOR_ITEM_INCLUDE },
+      shipments: { where: { vendorId: { in: vendorIds } }, select: SHIPMENT_SELECT },
+    } satisfies Prisma.OrderInclude;
+  }
+
+  /**
+   *      [11d] Order reduced to the vendor's share (no total, no userId)
+   */
+  private toVendorOrder(
+    order: Prisma.OrderGetPayload<{ include: ReturnType<VendorOrdersService['orderInclude']> }>,
+  ) {
+    const vendorSubtotal = order.items.reduce(
+      (sum, item) => sum.add(item.unitPrice.mul(item.quantity)),
+      new Prisma.Decimal(0),
+    );
+
+    return {
+      id: order.id,
+      status: order.status,
+      createdAt: order.createdAt,
+      buyer: { name: order.user.name },
+      items: order.items,
+      shipments: order.shipments,
+      vendorSubtotal,
+    };
+  }
+
+  /**
+   *      [11e] Vendor's items of each shipment's order (one query for the page)
+   */
+  private async attachItems<T extends { orderId: string; vendorId: string }>(shipments: T[]) {
+    if (shipments.length === 0) {
+      return [];
+    }
+
+    const items = await this.prisma.orderItem.findMany({
+      where: {
+        OR: shipments.map((s) => ({ orderId: s.orderId, vendorId: s.vendorId })),
+      },
+      include: VENDOR_ITEM_INCLUDE,
+    });
+
+    return shipments.map((shipment) => ({
+      ...shipment,
+      items: items.filter(
+        (item) => item.orderId === shipment.orderId && item.vendorId === shipment.vendorId,
+      ),
+    }));
+  }
+
+  private dateRange(from?: string, to?: string): Prisma.DateTimeFilter | undefined {
+    if (!from && !to) {
+      return undefined;
+    }
+    return {
+      ...(from && { gte: new Date(from) }),
+      ...(to && { lte: new Date(to) }),
+    };
+  }
+
+  private merchant(userId: string): OrderActor {
+    return { type: 'MERCHANT', id: userId };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VENDOR SHIPMENTS CONTROLLER — Merchant Fulfilment                           ║
+ * ║  Handles: Shipment inbox, accept / reject / ready, tracking updates, pickup at vendor             ║
+ * ║  Routes: /v1/vendor/shipments/* (owner of the vendor, via Vendor.userId)                          ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET  /?status=&from=&to=&vendorId=&page=&pageSize= → Shipments with the vendor's items
+ *     [1b] GET  /:id         → Shipment, items, delivery address, timeline
+ *     [1c] POST /:id/accept  → Vendor takes the order (CREATED, acceptedAt set)
+ *     [1d] POST /:id/reject  → { reason } → shipment CANCELLED (unpaid order adjusted / cancelled,
+ *                               paid order: lines restocked and refunded)
+ *     [1e] POST /:id/ready   → CREATED → READY (packed, or ready to collect)
+ *     [1f] POST /:id         → { status?, carrier?, trackingNumber?, location?, note? } (SHIPPED, IN_TRANSIT...)
+ *     [1g] POST /:id/pickup  → { pin, cashCollected? } → shipment DELIVERED, cash payment completed
+ *
+ * [2] ERRORS
+ *     [2a] Not a MERCHANT (RolesGuard) → 403; not the vendor's shipment → 404
+ *     [2b] Transition not allowed from the current status → 400
+ *     [2c] Wrong PIN → 400 (attempts left), lock reached / locked → 403
+ *     [2d] Cash collected ≠ amount due → 400 (not counted as a wrong PIN)
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { PickupService } from './pickup.service';
+import { OrdersService } from './orders.service';
+import { VendorOrdersService } from './vendor-orders.service';
+import { ConfirmPickupDto } from './dto/confirm-pickup.dto';
+import { RejectShipmentDto } from './dto/reject-shipment.dto';
+import { UpdateShipmentDto } from './dto/update-shipment.dto';
+import { VendorShipmentsQueryDto } from './dto/vendor-orders-query.dto';
+
+@Controller('vendor/shipments')
+@ApiTags('vendor-shipments')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class VendorShipmentsController {
+  constructor(
+    private readonly pickupService: PickupService,
+    private readonly ordersService: OrdersService,
+    private readonly vendorOrders: VendorOrdersService,
+  ) {}
+
+  @Get()
+  @Roles('MERCHANT')
+  async listShipments(
+    @Query() query: VendorShipmentsQueryDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.vendorOrders.listShipments(user.sub, query);
+  }
+
+  @Get(':id')
+  @Roles('MERCHANT')
+  async getShipment(@Param('id') id: string, @CurrentUser() user: CurrentUserPayload) {
+    return this.vendorOrders.getShipment(user.sub, id);
+  }
+
+  @Post(':id/accept')
+  @Roles('MERCHANT')
+  @HttpCode(HttpStatus.OK)
+  async acceptShipment(@Param('id') id: string, @CurrentUser() user: CurrentUserPayload) {
+    return this.vendorOrders.acceptShipment(user.sub, id);
+  }
+
+  @Post(':id/reject')
+  @Roles('MERCHANT')
+  @HttpCode(HttpStatus.OK)
+  async rejectShipment(
+    @Param('id') id: string,
+    @Body() dto: RejectShipmentDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.vendorOrders.rejectShipment(user.sub, id, dto.reason);
+  }
+
+  @Post(':id/ready')
+  @Roles('MERCHANT')
+  @HttpCode(HttpStatus.OK)
+  async markReady(@Param('id') id: string, @CurrentUser() user: CurrentUserPayload) {
+    return this.vendorOrders.markReady(user.sub, id);
+  }
+
+  @Post(':id')
+  @Roles('MERCHANT')
+  @HttpCode(HttpStatus.OK)
+  async updateShipment(
+    @Param('id') id: string,
+    @Body() dto: UpdateShipmentDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.ordersService.updateShipment(id, dto, { type: 'MERCHANT', id: user.sub });
+  }
+
+  @Post(':id/pickup')
+  @Roles('MERCHANT')
+  @HttpCode(HttpStatus.OK)
+  async confirmPickup(
+    @Param('id') id: string,
+    @Body() dto: ConfirmPickupDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.pickupService.confirmPickup(id, dto, user.sub);
+  }
+}
@@ -9,8 +9,10 @@
  *     [1a] Redis, not database: OTP is temporary (5 min), Redis is faster than database
  *     [1b] 6-digit code: 1M possible codes; 3 attempts = ~0.2% brute force success rate
  *     [1c] 5-minute TTL: Balance usability (long enough to receive SMS) vs security
- *     [1d] 3 attempt max: Prevents brute force; after 3 fails, user requests new OTP
+ *     [1d] 3 attempt max: Prevents brute force; the count survives a new code until its window
+ *          (OTP_TTL from the first code) ends → reissuing never buys more guesses
  *     [1e] Purpose field: Prevents "login" OTP reuse for "registration"
+ *     [1f] 'guest-checkout': identifier is a phone number (no account yet), code sent by SMS
  *
  * [2] WHY THIS OVER PASSWORD?
  *     [2a] Passwordless: No password reuse, phishing, brute force attacks on password
@@ -23,9 +25,10 @@
  *     - otp:registration:user@example.com = "123456" (TTL: 300s)
  *     - otp:registration:user@example.com:attempts = "2" (TTL: 300s)
  *     - otp:login:user@example.com = "654321" (TTL: 300s)
+ *     - otp:guest-checkout:+22890000000 = "112233" (TTL: 300s)
  *     [3a] Purpose in key: Prevents mixing different OTP types
  *     [3b] Attempts key: Tracks failed verification attempts
- *     [3c] Both expire together: After TTL, both OTP and attempts deleted
+ *     [3c] Attempts window: set with the first code (TTL), kept when a code is reissued
  */
 
 import { Injectable, BadRequestException, Logger, UnauthorizedException } from '@nestjs/common';
@@ -33,6 +36,8 @@ import { ConfigService } from '@nestjs/config';
 import { RedisService } from '../redis/redis.service';
 import { PrismaService } from '../prisma/prisma.service';
 
+export type OtpPurpose = 'registration' | 'login' | 'password-reset' | 'guest-checkout';
+
 @Injectable()
 export class OtpService {
   // [4] LOGGER & CONSTANTS
@@ -88,22 +93,10 @@ export class OtpService {
       throw new BadRequestException('Email not found');
     }
 
-    // [6.2] GENERATE 6-DIGIT OTP
-    //       Example: 123456, 654321, 000001 (leading zeros possible)
-    const otp = this.generateRandomOtp();
-    const key = this.getRedisKey(email, purpose);
-
-    // [6.3] STORE IN REDIS WITH TTL
-    //       Key: otp:registration:user@example.com = "123456" (expires in 300 seconds)
-    //       Attempts: otp:registration:user@example.com:attempts = "0" (same TTL)
-    await this.redis.set(key, otp, this.OTP_TTL);
-    await this.redis.set(`${key}:attempts`, '0', this.OTP_TTL);
-
-    // [6.4] LOG FOR AUDIT TRAIL
-    //       In development only! (conditionally logged, never shown to user)
-    this.logger.log(`OTP generated for ${email} (${purpose}): ${otp}`);
+    // [6.2] GENERATE + STORE (see [6.4])
+    const otp = await this.issueCode(email, purpose);
 
-    // [6.5] RETURN OTP IN DEV, OMIT IN PRODUCTION
+    // [6.3] RETURN OTP IN DEV, OMIT IN PRODUCTION
     //       Development: return OTP for easy testing
     //       Production: OTP sent via SMS/Email only (user receives via SMS, not API)
     return {
@@ -112,12 +105,41 @@ export class OtpService {
     };
   }
 
+  /**
+   * [6.4] ISSUE CODE (no account check)
+   *       [6.4a] Replaces any previous code of the same identifier + purpose, attempts kept ([1d])
+   *       [6.4b] Returns the code: the caller delivers it (GuestCheckoutService → SMS)
+   */
+  async issueCode(identifier: string, purpose: OtpPurpose): Promise<string> {
+    // Example: 123456, 654321, 000001 (leading zeros possible)
+    const otp = this.generateRandomOtp();
+    const key = this.getRedisKey(identifier, purpose);
+
+    // Key: otp:registration:user@example.com = "123456" (expires in 300 seconds)
+    // Attempts: otp:registration:user@example.com:attempts = "0" (same TTL, only if none yet)
+    await this.redis.set(key, otp, this.OTP_TTL);
+    await this.redis.getClient().set(`${key}:attempts`, '0', 'EX', this.OTP_TTL, 'NX');
+
+    // In development only! (never shown to user, never logged in production)
+    if (process.env.NODE_ENV !== 'production') {
+      this.logger.log(`OTP generated for ${identifier} (${purpose}): ${otp}`);
+    }
+    return otp;
+  }
+
+  /**
+   * [6.5] CODE LIFETIME (seconds) — returned to clients as expiresIn
+   */
+  get ttlSeconds(): number {
+    return this.OTP_TTL;
+  }
+
   /**
    * [7] VERIFY OTP CODE
-   *     [7a] Input: email, otp (6-digit code), purpose
+   *     [7a] Input: email (or phone for 'guest-checkout'), otp (6-digit code), purpose
    *     [7b] Output: true (if valid)
    *     [7c] Process:
-   *         1. Check attempt counter (max 3 failed attempts)
+   *         1. Check attempt counter (max 3 failed attempts per window, [1d])
    *         2. Retrieve OTP from Redis
    *         3. Compare with provided code (exact match)
    *         4. If valid: delete OTP + attempts from Redis
@@ -132,7 +154,7 @@ export class OtpService {
   async verifyOtp(
     email: string,
     otp: string,
-    purpose: 'registration' | 'login' | 'password-reset' = 'registration',
+    purpose: OtpPurpose = 'registration',
   ): Promise<boolean> {
     // [7.1] GET ATTEMPT COUNTER & CHECK LIMIT
     //       Redis key: otp:registration:user@example.com:attempts = "2"
@@ -141,9 +163,9 @@ export class OtpService {
 
     const attempts = parseInt((await this.redis.get(attemptsKey)) || '0', 10);
 
-    // [7.1a] If >= 3 failed attempts: block (user must request new OTP)
+    // [7.1a] If >= 3 failed attempts: block until the attempts window ends ([1d])
     if (attempts >= this.MAX_ATTEMPTS) {
-      throw new UnauthorizedException('Too many failed attempts. Request a new OTP.');
+      throw new UnauthorizedException('Too many failed attempts. Please try again later.');
     }
 
     // [7.2] RETRIEVE OTP FROM REDIS
@@ -159,8 +181,11 @@ export class OtpService {
     //       Exact string match (case-sensitive, no trimming)
     if (storedOtp !== otp) {
       // [7.3a] OTP mismatch: increment attempt counter
-      //        Redis will keep TTL, so counter expires with OTP
-      await this.redis.incr(attemptsKey);
+      //        Redis keeps its TTL; a counter expired before a reissued code starts a new window
+      const failed = await this.redis.incr(attemptsKey);
+      if (failed === 1) {
+        await this.redis.expire(attemptsKey, this.OTP_TTL);
+      }
       throw new UnauthorizedException('Invalid OTP');
     }
 
@@ -183,10 +208,7 @@ export class OtpService {
    *     [8b] Output: boolean (true if OTP in Redis and not expired)
    *     [8c] Use case: UI feedback ("OTP still valid, resend in X seconds")
    */
-  async checkOtpExists(
-    email: string,
-    purpose: 'registration' | 'login' | 'password-reset',
-  ): Promise<boolean> {
+  async checkOtpExists(email: string, purpose: OtpPurpose): Promise<boolean> {
     const key = this.getRedisKey(email, purpose);
     const otp = await this.redis.get(key);
     return !!otp; // !! converts string to boolean (truthy/falsy)
@@ -198,10 +220,7 @@ export class OtpService {
    *     [9b] Output: number (seconds remaining, -1 if key not found, -2 if no TTL)
    *     [9c] Use case: UI countdown timer ("OTP expires in 2m 34s")
    */
-  async getOtpTtl(
-    email: string,
-    purpose: 'registration' | 'login' | 'password-reset',
-  ): Promise<number> {
+  async getOtpTtl(email: string, purpose: OtpPurpose): Promise<number> {
     const key = this.getRedisKey(email, purpose);
     return await this.redis.ttl(key); // Returns -1 (not found) or -2 (no TTL) or seconds
   }
@@ -102,6 +102,17 @@ export class CreatePartDto {
   @Type(() => Number)
   stock: number;
 
+  @ApiPropertyOptional({
+    description: 'Poids en kg (frais de livraison au poids)',
+    example: 1.5,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: 'Le poids doit être un nombre' })
+  @Min(0, { message: 'Le poids ne peut pas être négatif' })
+  @Type(() => Number)
+  weightKg?: number;
+
   @ApiProperty({
     description: 'État de la pièce',
     enum: PartConditionDto,
@@ -166,4 +177,12 @@ export class CreatePartDto {
   @IsString()
   @IsNotEmpty({ message: "L'ID du vendeur est obligatoire" })
   vendorId: string;
+
+  @ApiPropertyOptional({
+    description: 'ID de la catégorie (ex: Moteur › Filtres › Filtre à huile)',
+    example: 'clcat123...',
+  })
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
 }
@@ -6,8 +6,19 @@
  */
 
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsInt, Min, Max, IsEnum, IsNumber } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsInt,
+  Min,
+  Max,
+  IsEnum,
+  IsNumber,
+  Length,
+  Matches,
+} from 'class-validator';
 import { Type } from 'class-transformer';
+import { CATEGORY_SLUG_PATTERN } from '../../catalog/category-slug';
 
 export enum SearchSort {
   RELEVANCE = 'relevance',
@@ -61,6 +72,33 @@ export class SearchPartsDto {
   @IsString()
   engine?: string;
 
+  @ApiPropertyOptional({
+    description: 'Filter by VIN: parts fitting the engines the VIN resolves to',
+    example: 'VF32C8HZ0B4123456',
+  })
+  @IsOptional()
+  @IsString()
+  vin?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Garage vehicle to filter on (signed in; default: the default garage vehicle, "none" = no filter)',
+  })
+  @IsOptional()
+  @IsString()
+  garageVehicleId?: string;
+
+  // CATEGORY FILTER
+  @ApiPropertyOptional({
+    description:
+      'Filter by category slug (includes its subcategories): lower case words and dashes',
+    example: 'filtres',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(CATEGORY_SLUG_PATTERN, { message: 'category must be a category slug' })
+  category?: string;
+
   // OTHER FILTERS
   @ApiPropertyOptional({
     description: 'Filter by condition',
@@ -144,4 +182,13 @@ export class SearchPartsDto {
   @IsOptional()
   @IsEnum(SearchSort)
   sort?: SearchSort = SearchSort.RELEVANCE;
+
+  // SEARCH ANALYTICS
+  @ApiPropertyOptional({
+    description: 'meta.searchId of page 1, sent with the next pages: they count as the same search',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(10, 50)
+  searchId?: string;
 }
@@ -79,6 +79,17 @@ export class UpdatePartDto {
   @Type(() => Number)
   stock?: number;
 
+  @ApiPropertyOptional({
+    description: 'Poids en kg (frais de livraison au poids)',
+    example: 1.5,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 }, { message: 'Le poids doit être un nombre' })
+  @Min(0, { message: 'Le poids ne peut pas être négatif' })
+  @Type(() => Number)
+  weightKg?: number;
+
   @ApiPropertyOptional({
     description: 'État de la pièce',
     enum: PartConditionDto,
@@ -136,4 +147,13 @@ export class UpdatePartDto {
     message: 'Le code pays doit être au format ISO 3166-1 alpha-2 (ex: TG, BJ)',
   })
   country?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID de la catégorie (null pour retirer la pièce de sa catégorie)',
+    example: 'clcat123...',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  categoryId?: string | null;
 }
@@ -9,10 +9,12 @@
  * [1] ENDPOINTS
  *     [1a] GET /parts?search=battery&vendorId=abc&minPrice=100&maxPrice=500&sort=price_asc&page=1
  *          Returns paginated list of parts matching filters (Prisma - basic)
+ *          A part number as search also matches the parts listed under its interchange numbers
  *     [1b] GET /parts/search?q=batry&make=Toyota&year=2020 (US-CAT-302)
  *          Full-text search with typo tolerance and YMM filters (Meilisearch)
  *     [1c] GET /parts/:id
  *          Returns full details of single part including vendor info, fitments, images
+ *          and, for a signed-in user with a garage vehicle, a fits / doesn't fit / unknown badge
  *     [1d] POST /parts
  *          Create a new part with OEM refs and YMM fitments (requires auth)
  *     [1e] PATCH /parts/:id
@@ -33,10 +35,15 @@
  *
  * [4] US-CAT-302 IMPLEMENTATION (Meilisearch Search)
  *     [4a] Typo tolerance: "batry" → "battery", "flitre" → "filtre"
- *     [4b] YMM filters: make, model, year, engine
+ *     [4b] YMM filters: make, model, year, engine — or vin (decoded to the matching engines)
+ *          Signed in: the active garage vehicle's engines unless a vin is given
  *     [4c] Price range, condition, location filters
  *     [4d] Facets for filter UI (count per make, model, etc.)
- *     [4e] Zero-results telemetry logging
+ *     [4e] Every search logged for analytics (zero results included), meta.searchId to attribute
+ *          clicks / add to cart (POST /search/events); meta.engine: "database" while Meilisearch
+ *          is unavailable
+ *     [4f] Part number query ("15400PLMA01", "0 986 AF0 250"): parts listed under any number
+ *          of its interchange group (InterchangeService), else plain text search
  */
 
 import {
@@ -48,6 +55,7 @@ import {
   Param,
   Query,
   Body,
+  UseGuards,
   NotFoundException,
   BadRequestException,
   HttpCode,
@@ -61,7 +69,14 @@ import { UpdatePartDto } from './dto/update-part.dto';
 import { SearchPartsDto, SearchSort } from './dto/search-parts.dto';
 import { IdParam } from './dto/id.param';
 import { MeilisearchService } from '../meilisearch/meilisearch.service';
-import { SearchSyncService } from '../meilisearch/search-sync.service';
+import { SearchAnalyticsService } from '../meilisearch/search-analytics.service';
+import { VinService } from '../vehicles/vin.service';
+import { GarageService, vehicleFitStatus } from '../vehicles/garage.service';
+import { InterchangeService } from '../interchange/interchange.service';
+import { looksLikePartNumber } from '../interchange/part-number';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
 
 @ApiTags('parts')
 @Controller('parts')
@@ -69,7 +84,10 @@ export class PartsController {
   constructor(
     private readonly parts: PartsService,
     private readonly meilisearch: MeilisearchService,
-    private readonly searchSync: SearchSyncService,
+    private readonly searchAnalytics: SearchAnalyticsService,
+    private readonly vins: VinService,
+    private readonly garage: GarageService,
+    private readonly interchange: InterchangeService,
   ) {}
 
   /**
@@ -81,7 +99,10 @@ export class PartsController {
   @ApiOperation({ summary: 'List parts with filters and pagination' })
   @ApiResponse({ status: 200, description: 'Returns paginated list of parts' })
   async list(@Query() q: ListPartsDto) {
-    return this.parts.list(q);
+    const partNumbers = looksLikePartNumber(q.search)
+      ? await this.interchange.expand(q.search)
+      : undefined;
+    return this.parts.list(q, partNumbers);
   }
 
   /**
@@ -90,22 +111,41 @@ export class PartsController {
    *     Features:
    *     - Typo tolerance: "batry" finds "battery"
    *     - YMM filters: make, model, year, engine
+   *     - vin: parts fitted to the engines the VIN resolves to (invalid VIN → 400)
+   *     - Part number query: parts listed under any interchangeable number first
+   *     - Garage vehicle (optional sign-in): parts fitted to its engines, see meta.vehicle
    *     - Price range, condition, location filters
    *     - Facets for building filter UI
-   *     - Zero-results telemetry
+   *     - Logged with filters, hits and latency (anonymous); meta.searchId for POST /search/events
+   *       Next pages sent with ?searchId= are added to that search (one search per query, not per page)
+   *     - Meilisearch down → PostgreSQL full-text fallback, meta.engine = "database"
+   *     - Database down too → 503, the search is not logged (not a zero-result query)
    */
   @Get('search')
   @ApiOperation({
     summary: 'Full-text search with typo tolerance and YMM filters (US-CAT-302)',
     description:
       'Uses Meilisearch for instant, typo-tolerant search. ' +
-      'Returns facets for filter counts. Logs zero-result queries for telemetry.',
+      'Returns facets for filter counts. Logs every query (zero results included) for search analytics; ' +
+      'meta.searchId attributes clicks and add to cart through POST /search/events. ' +
+      'Send it back as searchId with the next pages so they count as the same search.',
   })
   @ApiResponse({
     status: 200,
     description: 'Returns search results with facets and pagination',
   })
-  async search(@Query() dto: SearchPartsDto) {
+  @ApiResponse({ status: 503, description: 'Search engine and database both unavailable' })
+  @UseGuards(OptionalJwtAuthGuard)
+  async search(@Query() dto: SearchPartsDto, @CurrentUser() user?: CurrentUserPayload) {
+    const startedAt = Date.now();
+    const vehicle = dto.vin
+      ? null
+      : await this.garage.resolveActive(user?.sub, dto.garageVehicleId);
+    const engineIds = dto.vin ? await this.vins.resolveEngineIds(dto.vin) : vehicle?.engineIds;
+    const partNumbers = looksLikePartNumber(dto.q)
+      ? await this.interchange.expand(dto.q)
+      : undefined;
+
     const result = await this.meilisearch.searchParts(
       dto.q,
       {
@@ -113,6 +153,9 @@ export class PartsController {
         model: dto.model,
         year: dto.year,
         engine: dto.engine,
+        engineIds,
+        partNumbers,
+        category: dto.category,
         condition: dto.condition,
         minPrice: dto.minPrice,
         maxPrice: dto.maxPrice,
@@ -125,6 +168,29 @@ export class PartsController {
       dto.sort === SearchSort.RELEVANCE ? undefined : dto.sort,
     );
 
+    // Anonymous: the VIN / garage vehicle is reduced to where the engines came from
+    const searchId = await this.searchAnalytics.logSearch({
+      query: dto.q,
+      filters: {
+        make: dto.make,
+        model: dto.model,
+        year: dto.year,
+        engine: dto.engine,
+        vehicle: dto.vin ? 'vin' : vehicle ? 'garage' : undefined,
+        category: dto.category,
+        condition: dto.condition,
+        minPrice: dto.minPrice,
+        maxPrice: dto.maxPrice,
+        vendorId: dto.vendorId,
+        country: dto.country,
+        city: dto.city,
+        sort: dto.sort,
+      },
+      result,
+      latencyMs: Date.now() - startedAt,
+      searchId: dto.searchId,
+    });
+
     return {
       data: result.hits,
       meta: {
@@ -135,6 +201,9 @@ export class PartsController {
         totalPages: result.totalPages,
         processingTimeMs: result.processingTimeMs,
         isZeroResults: result.isZeroResults,
+        engine: result.engine,
+        searchId,
+        vehicle: vehicle && { id: vehicle.id, nickname: vehicle.nickname, label: vehicle.label },
       },
       facets: result.facets,
     };
@@ -144,22 +213,38 @@ export class PartsController {
    * [5] GET /parts/:id (FETCH SINGLE PART DETAIL)
    *     Public endpoint - no auth required
    *     Returns full part with vendor, images, and YMM fitments
+   *     vehicleFit: { vehicle, status: FITS | DOES_NOT_FIT | UNKNOWN } for the active garage
+   *     vehicle (?garageVehicleId=, else the default one), null when signed out or no vehicle
    */
   @Get(':id')
+  @UseGuards(OptionalJwtAuthGuard)
   @ApiOperation({ summary: 'Get part details by ID' })
   @ApiResponse({ status: 200, description: 'Returns part details with vendor and fitments' })
   @ApiResponse({ status: 404, description: 'Part not found' })
-  async byId(@Param() { id }: IdParam) {
+  async byId(
+    @Param() { id }: IdParam,
+    @Query('garageVehicleId') garageVehicleId?: string,
+    @CurrentUser() user?: CurrentUserPayload,
+  ) {
     const part = await this.parts.byId(id);
     if (!part) throw new NotFoundException('Part not found');
-    return part;
+
+    const vehicle = await this.garage.resolveActive(user?.sub, garageVehicleId);
+    const vehicleFit = vehicle && {
+      vehicle: { id: vehicle.id, nickname: vehicle.nickname, label: vehicle.label },
+      status: vehicleFitStatus(
+        vehicle,
+        part.fitments.map((fitment) => fitment.engineId),
+      ),
+    };
+    return { ...part, vehicleFit };
   }
 
   /**
    * [7] POST /parts (CREATE NEW PART)
    *     Requires authentication (vendor/admin)
    *     Validates OEM refs and engine fitments
-   *     ➜ Syncs to Meilisearch if published
+   *     ➜ Queued for Meilisearch (search outbox, indexed if published)
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
@@ -175,6 +260,7 @@ export class PartsController {
         price: dto.price,
         currency: dto.currency,
         stock: dto.stock,
+        weightKg: dto.weightKg,
         condition: dto.condition,
         status: dto.status,
         oemRefs: dto.oemRefs,
@@ -182,11 +268,9 @@ export class PartsController {
         city: dto.city,
         country: dto.country,
         vendorId: dto.vendorId,
+        categoryId: dto.categoryId,
       });
 
-      // Sync to Meilisearch (index if published)
-      await this.searchSync.indexPart(part.id);
-
       return part;
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
@@ -198,7 +282,7 @@ export class PartsController {
    * [8] PATCH /parts/:id (UPDATE EXISTING PART)
    *     Partial update - only provided fields are updated
    *     If engineIds provided, replaces all fitments
-   *     ➜ Syncs to Meilisearch (re-index if published, remove if unpublished)
+   *     ➜ Queued for Meilisearch (re-indexed if published, removed if unpublished)
    */
   @Patch(':id')
   @ApiBearerAuth()
@@ -214,19 +298,18 @@ export class PartsController {
         price: dto.price,
         currency: dto.currency,
         stock: dto.stock,
+        weightKg: dto.weightKg,
         condition: dto.condition,
         status: dto.status,
         oemRefs: dto.oemRefs,
         engineIds: dto.engineIds,
         city: dto.city,
         country: dto.country,
+        categoryId: dto.categoryId,
       });
 
       if (!part) throw new NotFoundException('Part not found');
 
-      // Sync to Meilisearch (re-index if published, remove if not)
-      await this.searchSync.indexPart(part.id);
-
       return part;
     } catch (error: unknown) {
       if (error instanceof NotFoundException) throw error;
@@ -238,7 +321,7 @@ export class PartsController {
   /**
    * [9] DELETE /parts/:id (DELETE A PART)
    *     Hard delete (cascades to fitments, images)
-   *     ➜ Removes from Meilisearch index
+   *     ➜ Queued for removal from the Meilisearch index
    */
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
@@ -249,15 +332,12 @@ export class PartsController {
   async delete(@Param() { id }: IdParam) {
     const deleted = await this.parts.delete(id);
     if (!deleted) throw new NotFoundException('Part not found');
-
-    // Remove from Meilisearch index
-    await this.searchSync.removePart(id);
   }
 
   /**
    * [10] POST /parts/:id/publish (PUBLISH A DRAFT PART)
    *      Validates part has OEM refs and at least 1 fitment
-   *      ➜ Adds to Meilisearch index when published
+   *      ➜ Queued for Meilisearch (added to the index once pushed)
    */
   @Post(':id/publish')
   @ApiBearerAuth()
@@ -270,9 +350,6 @@ export class PartsController {
       const part = await this.parts.publish(id);
       if (!part) throw new NotFoundException('Part not found');
 
-      // Sync to Meilisearch (add to index now that it's published)
-      await this.searchSync.indexPart(part.id);
-
       return part;
     } catch (error: unknown) {
       if (error instanceof NotFoundException) throw error;
@@ -1,8 +1,13 @@
 import { Module } from '@nestjs/common';
 import { PartsController } from './parts.controller';
 import { PartsService } from './parts.service';
+import { VehiclesModule } from '../vehicles/vehicles.module';
+import { InterchangeModule } from '../interchange/interchange.module';
 
 @Module({
+  // VinService: search by VIN, GarageService: "My garage" fitment filter,
+  // InterchangeService: part number search across OEM / aftermarket numbers
+  imports: [VehiclesModule, InterchangeModule],
   controllers: [PartsController],
   providers: [PartsService],
   exports: [PartsService],
@@ -7,6 +7,7 @@
  *
  * [1] KEY FEATURES
  *     [1a] Search: Case-insensitive substring match on part title
+ *          (+ normalized OEM refs when the caller expanded a part number through its interchange group)
  *     [1b] Filters: By vendor, price range (min/max), with AND logic
  *     [1c] Sorting: By creation date (newest), price (asc/desc), stock level
  *     [1d] Pagination: Offset-based (skip/take) with hasMore flag
@@ -30,10 +31,15 @@ import { Injectable } from '@nestjs/common';
 import { Prisma, PrismaClient } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { ListPartsDto, SortOption } from './dto/list-parts.dto';
+import { normalizePartNumbers } from '../interchange/part-number';
+import { SearchOutboxService } from '../meilisearch/search-outbox.service';
 
 @Injectable()
 export class PartsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly searchOutbox: SearchOutboxService,
+  ) {}
 
   /**
    * [4] LIST PARTS WITH FILTERS, SORTING, PAGINATION
@@ -47,7 +53,7 @@ export class PartsService {
    *         5. Return paginated results with metadata
    *     [4d] WHY transaction? Ensures count matches items (prevent race conditions)
    */
-  async list(q: ListPartsDto) {
+  async list(q: ListPartsDto, partNumbers?: string[]) {
     // [4.1] EXTRACT & DESTRUCTURE QUERY PARAMETERS
     const { page, pageSize, search, vendorId, minPrice, maxPrice, includeVendor, sort } = q;
 
@@ -58,7 +64,13 @@ export class PartsService {
     // [4.2a] SEARCH FILTER
     //        Case-insensitive substring search on title
     //        Example: search="battery" matches "Car Battery", "BATTERY PACK", "battey"... no, typos don't match
-    if (search) {
+    //        Part number (expanded by the caller): title match OR listed under any interchangeable number
+    if (search && partNumbers?.length) {
+      where.OR = [
+        { title: { contains: search, mode: Prisma.QueryMode.insensitive } },
+        { normalizedOemRefs: { hasSome: partNumbers } },
+      ];
+    } else if (search) {
       where.title = { contains: search, mode: Prisma.QueryMode.insensitive };
     }
 
@@ -145,7 +157,7 @@ export class PartsService {
   /**
    * [5] FETCH SINGLE PART BY ID
    *     [5a] Input: id (UUID)
-   *     [5b] Output: Part { id, title, description, price, stock, vendor, fitments, images, ... }
+   *     [5b] Output: Part { id, title, description, price, stock, reservedStock, vendor, fitments, images, ... }
    *     [5c] Returns null if not found (handled by controller)
    *     [5d] Always includes vendor info, images, and YMM fitments
    */
@@ -154,6 +166,7 @@ export class PartsService {
       where: { id },
       include: {
         vendor: true,
+        category: true,
         images: { orderBy: { sortOrder: 'asc' } },
         fitments: {
           include: {
@@ -176,7 +189,7 @@ export class PartsService {
 
   /**
    * [6] CREATE A NEW PART (US-CAT-301)
-   *     [6a] Validates: vendor exists, all engineIds exist
+   *     [6a] Validates: vendor exists, all engineIds exist, category exists (if given)
    *     [6b] Creates part with OEM refs and fitments in single transaction
    *     [6c] Returns created part with all relations
    */
@@ -186,6 +199,7 @@ export class PartsService {
     price: number;
     currency?: string;
     stock: number;
+    weightKg?: number;
     condition: string;
     status?: string;
     oemRefs: string[];
@@ -193,6 +207,7 @@ export class PartsService {
     city?: string;
     country?: string;
     vendorId: string;
+    categoryId?: string;
   }) {
     // [6.1] Verify vendor exists
     const vendor = await this.prisma.vendor.findUnique({
@@ -212,47 +227,59 @@ export class PartsService {
       throw new Error(`Engine specs not found: ${missingIds.join(', ')}`);
     }
 
-    // [6.3] Create part with fitments in transaction
-    const part = await this.prisma.part.create({
-      data: {
-        title: data.title,
-        description: data.description,
-        price: data.price,
-        currency: data.currency || 'XOF',
-        stock: data.stock,
-        condition: data.condition as any, // Cast to enum
-        status: (data.status as any) || 'DRAFT',
-        oemRefs: data.oemRefs,
-        city: data.city,
-        country: data.country || 'TG',
-        vendorId: data.vendorId,
-        // Create fitments for each engine
-        fitments: {
-          create: data.engineIds.map((engineId) => ({
-            engineId,
-          })),
+    // [6.2b] Verify category exists
+    if (data.categoryId) {
+      await this.assertCategoryExists(data.categoryId);
+    }
+
+    // [6.3] Create part with fitments in transaction (+ search outbox row)
+    return this.prisma.$transaction(async (tx) => {
+      const part = await tx.part.create({
+        data: {
+          title: data.title,
+          description: data.description,
+          price: data.price,
+          currency: data.currency || 'XOF',
+          stock: data.stock,
+          weightKg: data.weightKg,
+          condition: data.condition as any, // Cast to enum
+          status: (data.status as any) || 'DRAFT',
+          oemRefs: data.oemRefs,
+          normalizedOemRefs: normalizePartNumbers(data.oemRefs),
+          city: data.city,
+          country: data.country || 'TG',
+          vendorId: data.vendorId,
+          categoryId: data.categoryId,
+          // Create fitments for each engine
+          fitments: {
+            create: data.engineIds.map((engineId) => ({
+              engineId,
+            })),
+          },
         },
-      },
-      include: {
-        vendor: true,
-        images: true,
-        fitments: {
-          include: {
-            engine: {
-              include: {
-                year: {
-                  include: {
-                    model: { include: { make: true } },
+        include: {
+          vendor: true,
+          category: true,
+          images: true,
+          fitments: {
+            include: {
+              engine: {
+                include: {
+                  year: {
+                    include: {
+                      model: { include: { make: true } },
+                    },
                   },
                 },
               },
             },
           },
         },
-      },
-    });
+      });
 
-    return part;
+      await this.searchOutbox.enqueue(tx, [part.id]);
+      return part;
+    });
   }
 
   /**
@@ -269,12 +296,14 @@ export class PartsService {
       price?: number;
       currency?: string;
       stock?: number;
+      weightKg?: number;
       condition?: string;
       status?: string;
       oemRefs?: string[];
       engineIds?: string[];
       city?: string;
       country?: string;
+      categoryId?: string | null;
     },
   ) {
     // [7.1] Verify part exists
@@ -295,7 +324,12 @@ export class PartsService {
       }
     }
 
-    // [7.3] Update part (and fitments if engineIds provided)
+    // [7.2b] If categoryId provided, verify it exists (null removes the category)
+    if (data.categoryId) {
+      await this.assertCategoryExists(data.categoryId);
+    }
+
+    // [7.3] Update part (and fitments if engineIds provided) + search outbox row
     const part = await this.prisma.$transaction(async (tx) => {
       // Delete existing fitments if replacing
       if (data.engineIds && data.engineIds.length > 0) {
@@ -303,7 +337,7 @@ export class PartsService {
       }
 
       // Update part
-      return tx.part.update({
+      const updated = await tx.part.update({
         where: { id },
         data: {
           ...(data.title && { title: data.title }),
@@ -311,11 +345,16 @@ export class PartsService {
           ...(data.price !== undefined && { price: data.price }),
           ...(data.currency && { currency: data.currency }),
           ...(data.stock !== undefined && { stock: data.stock }),
+          ...(data.weightKg !== undefined && { weightKg: data.weightKg }),
           ...(data.condition && { condition: data.condition as any }),
           ...(data.status && { status: data.status as any }),
-          ...(data.oemRefs && { oemRefs: data.oemRefs }),
+          ...(data.oemRefs && {
+            oemRefs: data.oemRefs,
+            normalizedOemRefs: normalizePartNumbers(data.oemRefs),
+          }),
           ...(data.city !== undefined && { city: data.city }),
           ...(data.country && { country: data.country }),
+          ...(data.categoryId !== undefined && { categoryId: data.categoryId }),
           // Create new fitments if engineIds provided
           ...(data.engineIds &&
             data.engineIds.length > 0 && {
@@ -326,6 +365,7 @@ export class PartsService {
         },
         include: {
           vendor: true,
+          category: true,
           images: true,
           fitments: {
             include: {
@@ -342,6 +382,9 @@ export class PartsService {
           },
         },
       });
+
+      await this.searchOutbox.enqueue(tx, [id]);
+      return updated;
     });
 
     return part;
@@ -359,9 +402,14 @@ export class PartsService {
       return null;
     }
 
-    return this.prisma.part.delete({
-      where: { id },
-      include: { vendor: true },
+    // Outbox row outlives the part: the worker removes it from the index
+    return this.prisma.$transaction(async (tx) => {
+      const deleted = await tx.part.delete({
+        where: { id },
+        include: { vendor: true },
+      });
+      await this.searchOutbox.enqueue(tx, [id]);
+      return deleted;
     });
   }
 
@@ -388,25 +436,42 @@ export class PartsService {
       throw new Error('Cannot publish: at least 1 compatible engine is required');
     }
 
-    return this.prisma.part.update({
-      where: { id },
-      data: { status: 'PUBLISHED' },
-      include: {
-        vendor: true,
-        fitments: {
-          include: {
-            engine: {
-              include: {
-                year: {
-                  include: {
-                    model: { include: { make: true } },
+    return this.prisma.$transaction(async (tx) => {
+      const published = await tx.part.update({
+        where: { id },
+        data: { status: 'PUBLISHED' },
+        include: {
+          vendor: true,
+          fitments: {
+            include: {
+              engine: {
+                include: {
+                  year: {
+                    include: {
+                      model: { include: { make: true } },
+                    },
                   },
                 },
               },
             },
           },
         },
-      },
+      });
+      await this.searchOutbox.enqueue(tx, [id]);
+      return published;
+    });
+  }
+
+  /**
+   * [10] CATEGORY CHECK (create/update)
+   */
+  private async assertCategoryExists(categoryId: string): Promise<void> {
+    const category = await this.prisma.category.findUnique({
+      where: { id: categoryId },
+      select: { id: true },
     });
+    if (!category) {
+      throw new Error(`Category not found: ${categoryId}`);
+    }
   }
 }
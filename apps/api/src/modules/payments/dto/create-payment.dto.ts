@@ -3,7 +3,7 @@
  *     Validates input for creating a new payment
  */
 
-import { IsString, IsNumber, IsEnum, IsOptional, Min, Max } from 'class-validator';
+import { IsString, IsNumber, IsEnum, IsOptional, IsIn, Min, Max } from 'class-validator';
 
 export enum PaymentMethod {
   MOBILE_MONEY = 'mobile_money', // MTN, Airtel (West Africa)
@@ -48,4 +48,10 @@ export class CreatePaymentDto {
   @IsOptional()
   @IsString()
   currency?: string = 'XOF';
+
+  // [7] COUNTRY (OPTIONAL)
+  //     Routes the payment to a provider (TG, BJ, NE). Default: customer's country
+  @IsOptional()
+  @IsIn(['TG', 'BJ', 'NE'])
+  country?: string;
 }
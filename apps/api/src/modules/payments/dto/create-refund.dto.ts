@@ -0,0 +1,61 @@
+/**
+ * [1] CREATE REFUND DTO
+ *     Validates partial/full refund requests
+ *     [1a] Empty body → refund every item not yet refunded (full refund)
+ *     [1b] items → refund these order lines (amount = unitPrice × quantity)
+ *     [1c] shipmentId → refund every remaining line of that vendor shipment
+ *     [1d] amount only → money-only refund (goodwill, shipping...), no restock
+ *     [1e] Restocking is decided by the server (RefundService [1e]), never by the caller
+ */
+
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class RefundItemDto {
+  // [2] ORDER ITEM ID + QUANTITY TO REFUND
+  @IsString()
+  @IsNotEmpty()
+  orderItemId!: string;
+
+  @IsInt()
+  @Min(1)
+  quantity!: number;
+}
+
+export class CreateRefundDto {
+  // [3] REASON (stored on the Refund)
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  // [4] LINE ITEMS (OPTIONAL)
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RefundItemDto)
+  items?: RefundItemDto[];
+
+  // [5] SHIPMENT (OPTIONAL): refund one vendor's part of the order
+  @IsOptional()
+  @IsString()
+  shipmentId?: string;
+
+  // [6] AMOUNT (OPTIONAL)
+  //     With items: overrides the computed amount (e.g. restocking fee withheld)
+  //     Without items: money-only refund
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  amount?: number;
+}
@@ -0,0 +1,127 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              PAYMENT WEBHOOK SERVICE TESTS — Signed, Idempotent Webhooks                          ║
+ * ║  Tests: HMAC signature, timestamp window, deduplication, status update                           ║
+ * ║  Focus: Forged or replayed deliveries never reach updatePaymentStatus                             ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { createHmac } from 'crypto';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { PaymentService } from './payments.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { PaymentStatus } from './dto/create-payment.dto';
+
+const SECRET = 'test-secret';
+
+function sign(body: string, timestamp = Math.floor(Date.now() / 1000).toString()) {
+  const signature = createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+  return { signature, timestamp };
+}
+
+describe('PaymentWebhookService', () => {
+  let service: PaymentWebhookService;
+  let mockPrisma: {
+    paymentEvent: { create: jest.Mock; findUnique: jest.Mock; update: jest.Mock };
+    payment: { findFirst: jest.Mock };
+  };
+  let mockPaymentService: { updatePaymentStatus: jest.Mock };
+
+  const body = JSON.stringify({
+    eventId: 'evt-1',
+    externalReference: 'SBX-1',
+    status: PaymentStatus.COMPLETED,
+  });
+
+  beforeEach(async () => {
+    mockPrisma = {
+      paymentEvent: {
+        create: jest.fn().mockResolvedValue({ id: 'event-row-1' }),
+        findUnique: jest.fn(),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      payment: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'pay-1' }),
+      },
+    };
+    mockPaymentService = { updatePaymentStatus: jest.fn().mockResolvedValue({}) };
+
+    const sandbox = {
+      name: 'sandbox',
+      parseWebhook: (payload: Record<string, unknown>) => payload,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentWebhookService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: PaymentService, useValue: mockPaymentService },
+        { provide: PaymentProviderRegistry, useValue: { get: jest.fn(() => sandbox) } },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, fallback?: unknown) =>
+              key === 'PAYMENT_WEBHOOK_SECRET_SANDBOX' ? SECRET : fallback,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentWebhookService>(PaymentWebhookService);
+  });
+
+  it('should apply a correctly signed event', async () => {
+    const result = await service.handle('sandbox', Buffer.from(body), sign(body));
+
+    expect(result).toEqual({ received: true, duplicate: false, processed: true });
+    expect(mockPaymentService.updatePaymentStatus).toHaveBeenCalledWith(
+      'pay-1',
+      expect.objectContaining({ status: PaymentStatus.COMPLETED, transactionRef: 'SBX-1' }),
+    );
+    expect(mockPrisma.paymentEvent.update).toHaveBeenCalledWith({
+      where: { id: 'event-row-1' },
+      data: expect.objectContaining({ paymentId: 'pay-1', processedAt: expect.any(Date) }),
+    });
+  });
+
+  it('should reject an invalid signature', async () => {
+    const headers = { ...sign(body), signature: '00'.repeat(32) };
+
+    await expect(service.handle('sandbox', Buffer.from(body), headers)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(mockPrisma.paymentEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject a stale timestamp', async () => {
+    const stale = Math.floor(Date.now() / 1000 - 3600).toString();
+
+    await expect(service.handle('sandbox', Buffer.from(body), sign(body, stale))).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should ignore a duplicate of an already processed event', async () => {
+    mockPrisma.paymentEvent.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      }),
+    );
+    mockPrisma.paymentEvent.findUnique.mockResolvedValue({
+      id: 'event-row-1',
+      processedAt: new Date(),
+    });
+
+    const result = await service.handle('sandbox', Buffer.from(body), sign(body));
+
+    expect(result.duplicate).toBe(true);
+    expect(mockPaymentService.updatePaymentStatus).not.toHaveBeenCalled();
+  });
+});
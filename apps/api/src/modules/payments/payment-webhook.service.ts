@@ -0,0 +1,200 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        PAYMENT WEBHOOK SERVICE — Signed Provider Callbacks                         ║
+ * ║  Implements: HMAC signature check, replay protection, event journal, deduplication                ║
+ * ║  Feeds: PaymentService.updatePaymentStatus() (order → PAID, notifications)                        ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] SIGNATURE
+ *     [1a] Headers: x-webhook-timestamp (unix seconds), x-webhook-signature (hex)
+ *     [1b] signature = HMAC-SHA256(secret, `${timestamp}.${rawBody}`)
+ *     [1c] Secret per provider: PAYMENT_WEBHOOK_SECRET_{PROVIDER} (e.g. PAYMENT_WEBHOOK_SECRET_SANDBOX)
+ *     [1d] Constant-time comparison (timingSafeEqual)
+ *
+ * [2] REPLAY PROTECTION
+ *     [2a] Timestamp must be within PAYMENT_WEBHOOK_TOLERANCE_SECONDS (default 300) of now
+ *     [2b] (provider, eventId) is unique in PaymentEvent → a replayed event is never applied twice
+ *
+ * [3] DEDUPLICATION
+ *     [3a] Every accepted delivery is stored raw in PaymentEvent (audit trail)
+ *     [3b] Duplicate of a processed event → 200 { duplicate: true }, nothing applied
+ *     [3c] Duplicate of an event that failed processing → processed again (provider retry)
+ */
+
+import { Injectable, Logger, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentService } from './payments.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+
+export interface WebhookHeaders {
+  signature?: string;
+  timestamp?: string;
+}
+
+@Injectable()
+export class PaymentWebhookService {
+  private readonly logger = new Logger(PaymentWebhookService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly providerRegistry: PaymentProviderRegistry,
+    private readonly paymentService: PaymentService,
+  ) {}
+
+  /**
+   * [4] HANDLE WEBHOOK
+   *     [4a] Input: provider name (route param), raw body, signature headers
+   *     [4b] Output: { received, duplicate, processed }
+   *     [4c] Process:
+   *         1. Verify timestamp window + HMAC signature (401 otherwise)
+   *         2. Parse payload with the provider adapter
+   *         3. Store PaymentEvent (unique provider + eventId)
+   *         4. Find Payment by (provider, externalReference) → updatePaymentStatus()
+   *         5. Mark event processed (or store the processing error)
+   */
+  async handle(providerName: string, rawBody: Buffer | undefined, headers: WebhookHeaders) {
+    const provider = this.providerRegistry.get(providerName);
+    const body = rawBody?.toString('utf8') ?? '';
+
+    // [4.1] AUTHENTICATE
+    const signed = this.verifySignature(providerName, body, headers);
+
+    // [4.2] PARSE
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(body) as Record<string, unknown>;
+    } catch {
+      throw new BadRequestException('Webhook body is not valid JSON');
+    }
+    const event = provider.parseWebhook(payload);
+
+    // [4.3] STORE EVENT (DEDUPLICATION)
+    const stored = await this.storeEvent(
+      providerName,
+      event.eventId,
+      event.status,
+      payload,
+      signed,
+    );
+    let eventRecordId: string;
+    if (stored) {
+      eventRecordId = stored.id;
+    } else {
+      const existing = await this.prisma.paymentEvent.findUnique({
+        where: { provider_eventId: { provider: providerName, eventId: event.eventId } },
+      });
+      if (!existing || existing.processedAt) {
+        this.logger.warn(`Duplicate webhook ${providerName}/${event.eventId} ignored`);
+        return { received: true, duplicate: true, processed: false };
+      }
+      eventRecordId = existing.id;
+    }
+
+    // [4.4] APPLY TO PAYMENT
+    const payment = await this.prisma.payment.findFirst({
+      where: { provider: providerName, externalReference: event.externalReference },
+    });
+    if (!payment) {
+      await this.prisma.paymentEvent.update({
+        where: { id: eventRecordId },
+        data: { error: `Unknown payment reference: ${event.externalReference}` },
+      });
+      this.logger.warn(`Webhook ${providerName}/${event.eventId}: unknown reference`);
+      return { received: true, duplicate: false, processed: false };
+    }
+
+    try {
+      await this.paymentService.updatePaymentStatus(payment.id, {
+        paymentId: payment.id,
+        status: event.status,
+        transactionRef: event.externalReference,
+        errorMessage: event.errorMessage,
+      });
+    } catch (error: unknown) {
+      // [4.5] Keep the error on the event; provider retry will re-process it
+      const message = error instanceof Error ? error.message : 'Processing failed';
+      await this.prisma.paymentEvent.update({
+        where: { id: eventRecordId },
+        data: { paymentId: payment.id, error: message },
+      });
+      throw error;
+    }
+
+    await this.prisma.paymentEvent.update({
+      where: { id: eventRecordId },
+      data: { paymentId: payment.id, processedAt: new Date(), error: null },
+    });
+
+    return { received: true, duplicate: false, processed: true };
+  }
+
+  /**
+   * [5] VERIFY SIGNATURE + TIMESTAMP
+   *     Throws UnauthorizedException on missing secret/headers, stale timestamp, bad signature
+   *     Returns the verified headers
+   */
+  verifySignature(
+    providerName: string,
+    body: string,
+    headers: WebhookHeaders,
+  ): Required<WebhookHeaders> {
+    const secret = this.configService.get<string>(
+      `PAYMENT_WEBHOOK_SECRET_${providerName.toUpperCase()}`,
+    );
+    if (!secret) {
+      this.logger.error(`No webhook secret configured for provider ${providerName}`);
+      throw new UnauthorizedException('Webhook not accepted');
+    }
+
+    if (!headers.signature || !headers.timestamp) {
+      throw new UnauthorizedException('Missing webhook signature');
+    }
+
+    const timestamp = Number(headers.timestamp);
+    const tolerance = Number(this.configService.get('PAYMENT_WEBHOOK_TOLERANCE_SECONDS', 300));
+    if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > tolerance) {
+      throw new UnauthorizedException('Webhook timestamp outside tolerance window');
+    }
+
+    const expected = createHmac('sha256', secret).update(`${headers.timestamp}.${body}`).digest();
+    const received = Buffer.from(headers.signature, 'hex');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    return { signature: headers.signature, timestamp: headers.timestamp };
+  }
+
+  /**
+   * [6] STORE EVENT (PRIVATE HELPER)
+   *     Returns null when (provider, eventId) already exists (unique violation P2002)
+   */
+  private async storeEvent(
+    provider: string,
+    eventId: string,
+    status: string,
+    payload: Record<string, unknown>,
+    headers: Required<WebhookHeaders>,
+  ) {
+    try {
+      return await this.prisma.paymentEvent.create({
+        data: {
+          provider,
+          eventId,
+          status,
+          payload: payload as Prisma.InputJsonValue,
+          signature: headers.signature,
+        },
+      });
+    } catch (error: unknown) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -9,7 +9,7 @@
  *     [1a] User places order with items → OrderModule creates Order
  *     [1b] User initiates payment → POST /payments (creates Payment record)
  *     [1c] Payment provider processes → User completes payment (mobile money, card, etc.)
- *     [1d] Provider sends webhook → POST /payments/:id/verify (updates Payment status)
+ *     [1d] Provider sends signed webhook → POST /payments/webhooks/:provider (updates Payment status)
  *     [1e] PaymentService updates Order status → Order fulfilled
  *
  * [2] PAYMENT METHODS (West Africa Focus)
@@ -21,10 +21,19 @@
  * [3] ENDPOINTS
  *     [3a] POST /v1/payments { orderId, amount, method, ... }
  *          → { paymentId, status: 'pending', expiresAt }
- *     [3b] POST /v1/payments/:id/verify { status, transactionRef }
+ *     [3b] POST /v1/payments/:id/verify { status, transactionRef } (ADMIN only, manual fix-ups)
  *          → { paymentId, status: 'completed'|'failed', orderStatus }
  *     [3c] GET /v1/payments/:id (requires auth)
  *          → { paymentId, orderId, amount, status, createdAt, ... }
+ *     [3d] POST /v1/payments/:id/sync (requires auth)
+ *          → Payment refreshed from provider (poll while mobile money approval is pending)
+ *     [3e] POST /v1/payments/webhooks/:provider (HMAC-signed, no JWT)
+ *          → { received, duplicate, processed }
+ *     [3f] POST /v1/payments/:id/refund { items?, shipmentId?, amount?, reason? } → Refund
+ *          (ADMIN, or MERCHANT for its own lines; customers go through returns)
+ *     [3g] GET /v1/payments/:id/refunds → Refund ledger
+ *     [3h] [3a] and [3f] accept an Idempotency-Key header: a retried request gets the first
+ *          response back instead of charging / refunding twice
  */
 
 import {
@@ -36,20 +45,35 @@ import {
   UseGuards,
   HttpCode,
   HttpStatus,
+  Headers,
+  Req,
+  RawBodyRequest,
   BadRequestException,
   NotFoundException,
 } from '@nestjs/common';
-import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiBearerAuth, ApiExcludeEndpoint } from '@nestjs/swagger';
+import { Request } from 'express';
 import { PaymentService } from './payments.service';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { RefundService } from './refund.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { Idempotent } from '../idempotency/idempotent.decorator';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { VerifyPaymentDto } from './dto/verify-payment.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
 
 @Controller('payments')
 @ApiTags('payments')
 export class PaymentController {
-  constructor(private readonly paymentService: PaymentService) {}
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly webhookService: PaymentWebhookService,
+    private readonly refundService: RefundService,
+  ) {}
 
   /**
    * [4] POST /v1/payments
@@ -71,6 +95,7 @@ export class PaymentController {
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @HttpCode(HttpStatus.CREATED)
+  @Idempotent()
   async createPayment(@Body() createPaymentDto: CreatePaymentDto, @CurrentUser() user: any) {
     // [4.1] Validate order exists and user owns it
     const order = await this.paymentService.validateOrder(createPaymentDto.orderId, user.sub);
@@ -90,21 +115,44 @@ export class PaymentController {
     return payment;
   }
 
+  /**
+   * [4.5] POST /v1/payments/webhooks/:provider
+   *       [4.5a] Provider callback (no JWT): authenticated by HMAC signature headers
+   *              x-webhook-timestamp, x-webhook-signature
+   *       [4.5b] Replays (old timestamp, same eventId) are rejected or deduplicated
+   *       [4.5c] Returns 200 for duplicates so the provider stops retrying
+   *       [4.5d] Declared before :id routes so "webhooks" is never read as a payment ID
+   */
+  @Post('webhooks/:provider')
+  @ApiExcludeEndpoint()
+  @HttpCode(HttpStatus.OK)
+  async handleWebhook(
+    @Param('provider') provider: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-webhook-signature') signature?: string,
+    @Headers('x-webhook-timestamp') timestamp?: string,
+  ) {
+    return this.webhookService.handle(provider, req.rawBody, { signature, timestamp });
+  }
+
   /**
    * [5] POST /v1/payments/:id/verify
-   *     [5a] Verify payment (called by webhook from payment provider)
+   *     [5a] Manually set payment status (support / back-office fix-ups)
    *     [5b] Body: { status: 'completed'|'failed', transactionRef?, errorMessage? }
    *     [5c] Returns: { paymentId, status, orderStatus }
    *     [5d] Process:
    *         1. Find payment by ID
    *         2. Update payment status
-   *         3. If completed: update order status to "processing"
-   *         4. If failed: keep order status as "pending_payment"
+   *         3. If completed: order transitions to PAID
+   *         4. If failed: order stays PENDING_PAYMENT
    *         5. Trigger notification (email/SMS to user)
-   *     [5e] Note: This endpoint is typically called by payment provider
-   *          In production, verify webhook signature (prevent spoofing)
+   *     [5e] ADMIN only: providers use the signed webhook route instead,
+   *          so customers cannot mark their own orders as paid
    */
   @Post(':id/verify')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  @ApiBearerAuth()
   @HttpCode(HttpStatus.OK)
   async verifyPayment(@Param('id') paymentId: string, @Body() verifyPaymentDto: VerifyPaymentDto) {
     // [5.1] Find payment
@@ -150,40 +198,96 @@ export class PaymentController {
     return payment;
   }
 
+  /**
+   * [6.5] POST /v1/payments/:id/sync
+   *       [6.5a] Ask the provider for the latest status (async mobile money approval)
+   *       [6.5b] Requires: Authentication (order owner)
+   *       [6.5c] Returns: Payment (completed/failed once the provider has a final answer)
+   */
+  @Post(':id/sync')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  async syncPayment(@Param('id') paymentId: string, @CurrentUser() user: CurrentUserPayload) {
+    const payment = await this.paymentService.getPaymentById(paymentId);
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    const order = await this.paymentService.validateOrder(payment.orderId, user.sub);
+
+    if (!order) {
+      throw new NotFoundException('Unauthorized');
+    }
+
+    return this.paymentService.syncWithProvider(paymentId);
+  }
+
   /**
    * [7] POST /v1/payments/:id/refund
-   *     [7a] Request refund for completed payment
-   *     [7b] Requires: Authentication (order owner)
-   *     [7c] Returns: { paymentId, status: 'refunded', refundedAmount }
-   *     [7d] Process:
-   *         1. Verify payment is completed
+   *     [7a] Full or partial refund of a completed payment
+   *     [7b] Requires: ADMIN, or MERCHANT for the items / shipment of its own vendors
+   *          Customers ask for their money back through a return request (/returns)
+   *     [7c] Body (optional): { reason?, items?: [{ orderItemId, quantity }], shipmentId?, amount? }
+   *          Empty body (ADMIN) → refund everything not yet refunded
+   *     [7d] Returns: Refund { id, amount, status, items }
+   *     [7e] Process:
+   *         1. Verify payment is completed and amount ≤ captured − already refunded
    *         2. Call payment provider refund API
-   *         3. Update payment status to 'refunded'
-   *         4. Update order status (if allowed)
+   *         3. Restock the refunded items that never left the vendor (decided server-side)
+   *         4. Order.refundedTotal updated; order → REFUNDED once its whole total is returned
    *         5. Send notification to user
    */
   @Post(':id/refund')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN', 'MERCHANT')
   @ApiBearerAuth()
   @HttpCode(HttpStatus.OK)
-  async refundPayment(@Param('id') paymentId: string, @CurrentUser() user: any) {
-    // [7.1] Find payment
+  @Idempotent()
+  async refundPayment(
+    @Param('id') paymentId: string,
+    @Body() createRefundDto: CreateRefundDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    // [7.1] Admin, or merchant limited to its own vendors' lines
+    const { actor, options } = await this.refundService.refundScope(user.sub);
+
+    // [7.2] Process refund
+    return this.paymentService.refundPayment(paymentId, createRefundDto, actor, options);
+  }
+
+  /**
+   * [8] GET /v1/payments/:id/refunds
+   *     [8a] Refund ledger of a payment (newest first)
+   *     [8b] Requires: Authentication (order owner)
+   */
+  @Get(':id/refunds')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  async listRefunds(@Param('id') paymentId: string, @CurrentUser() user: CurrentUserPayload) {
+    await this.assertOwnPayment(paymentId, user.sub);
+
+    return this.refundService.listRefunds(paymentId);
+  }
+
+  /**
+   * [9] OWNERSHIP CHECK (PRIVATE HELPER)
+   *     404 when the payment does not exist or belongs to another user's order
+   */
+  private async assertOwnPayment(paymentId: string, userId: string) {
     const payment = await this.paymentService.getPaymentById(paymentId);
 
     if (!payment) {
       throw new NotFoundException('Payment not found');
     }
 
-    // [7.2] Verify user owns this payment
-    const order = await this.paymentService.validateOrder(payment.orderId, user.sub);
+    const order = await this.paymentService.validateOrder(payment.orderId, userId);
 
     if (!order) {
       throw new NotFoundException('Unauthorized');
     }
 
-    // [7.3] Process refund
-    const refund = await this.paymentService.refundPayment(paymentId);
-
-    return refund;
+    return payment;
   }
 }
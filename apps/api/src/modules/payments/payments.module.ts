@@ -6,34 +6,66 @@
  * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
  *
  * [1] MODULE STRUCTURE
- *     [1a] Imports: PrismaModule (DB), RedisModule (cache)
- *     [1b] Providers: PaymentService (business logic)
+ *     [1a] Imports: PrismaModule (DB), RedisModule (cache), OrdersModule (order lifecycle),
+ *          InvoicesModule (invoice + receipt PDFs on the payment success email),
+ *          IdempotencyModule (Idempotency-Key on create payment / refund)
+ *     [1b] Providers: PaymentService (business logic), PaymentProviderRegistry, SandboxPaymentProvider
  *     [1c] Controllers: PaymentController (HTTP endpoints)
  *     [1d] Exports: PaymentService (for OrderModule dependency)
  *
  * [2] DEPENDENCIES
  *     [2a] PrismaService: Access Payment table in database
  *     [2b] RedisService: Cache payment objects for fast lookup
- *     [2c] (Future) Payment provider SDKs: Stripe, MTN, Airtel
+ *     [2c] PaymentProviderRegistry + PAYMENT_PROVIDERS (sandbox today; Flooz, T-Money, MTN later)
+ *          → register a new adapter by adding it to the PAYMENT_PROVIDERS factory below
  *
  * [3] ENDPOINTS PROVIDED
  *     [3a] POST /v1/payments → Create payment
- *     [3b] POST /v1/payments/:id/verify → Update status from webhook
+ *     [3b] POST /v1/payments/:id/verify → Manual status update (ADMIN)
  *     [3c] GET /v1/payments/:id → Fetch payment details
- *     [3d] POST /v1/payments/:id/refund → Request refund
+ *     [3d] POST /v1/payments/:id/refund → Partial/full refund (RefundService)
+ *          GET /v1/payments/:id/refunds → Refund ledger
+ *     [3e] POST /v1/payments/:id/sync → Poll provider for async outcome
+ *     [3f] POST /v1/payments/webhooks/:provider → Signed provider webhook (PaymentWebhookService)
  */
 
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { PaymentController } from './payments.controller';
 import { PaymentService } from './payments.service';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { RefundService } from './refund.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { RedisModule } from '../redis/redis.module';
 import { NotificationModule } from '../notifications/notification.module';
+import { OrdersModule } from '../orders/orders.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { PAYMENT_PROVIDERS, PaymentProvider } from './providers/payment-provider.interface';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { SandboxPaymentProvider } from './providers/sandbox-payment.provider';
 
 @Module({
-  imports: [PrismaModule, RedisModule, NotificationModule],
+  imports: [
+    PrismaModule,
+    RedisModule,
+    NotificationModule,
+    forwardRef(() => OrdersModule),
+    InvoicesModule,
+    IdempotencyModule,
+  ],
   controllers: [PaymentController],
-  providers: [PaymentService],
+  providers: [
+    PaymentService,
+    PaymentWebhookService,
+    RefundService,
+    PaymentProviderRegistry,
+    SandboxPaymentProvider,
+    {
+      provide: PAYMENT_PROVIDERS,
+      useFactory: (sandbox: SandboxPaymentProvider): PaymentProvider[] => [sandbox],
+      inject: [SandboxPaymentProvider],
+    },
+  ],
   exports: [PaymentService], // OrderModule can inject PaymentService
 })
 export class PaymentModule {}
@@ -1,27 +1,50 @@
 /**
  * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
  * ║              PAYMENTS SERVICE TESTS — Basic Unit Tests                                            ║
- * ║  Tests: Payment validation, error handling                                                        ║
+ * ║  Tests: Payment validation, error handling, late / duplicate / concurrent captures                ║
  * ║  Focus: Input validation and exception throwing                                                   ║
  * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
 import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { OrderStatus } from '@prisma/client';
 import { PaymentService } from './payments.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { RedisService } from '../redis/redis.service';
 import { NotificationService } from '../notifications/notification.service';
+import { OrderLifecycleService } from '../orders/order-lifecycle.service';
+import { StockReservationService } from '../orders/stock-reservation.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { RefundService } from './refund.service';
+import { InvoiceService } from '../invoices/invoice.service';
+import { PaymentStatus } from './dto/create-payment.dto';
 
 describe('PaymentService - Validation', () => {
   let service: PaymentService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let lifecycle: { recordCreation: jest.Mock; transition: jest.Mock };
+  let refundService: { createRefund: jest.Mock };
+
+  const createPrismaMock = () => ({
+    order: {
+      findUnique: jest.fn(),
+    },
+    payment: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest.fn().mockResolvedValue({ id: 'pay-1', status: 'completed' }),
+    },
+    $transaction: jest.fn(),
+  });
 
   beforeEach(async () => {
-    const mockPrisma = {
-      order: {
-        findUnique: jest.fn(),
-      },
-    };
+    mockPrisma = createPrismaMock();
+    mockPrisma.$transaction.mockImplementation((fn: (client: typeof mockPrisma) => unknown) =>
+      fn(mockPrisma),
+    );
+    lifecycle = { recordCreation: jest.fn(), transition: jest.fn() };
+    refundService = { createRefund: jest.fn().mockResolvedValue({ id: 'refund-1' }) };
 
     const mockRedis = {
       set: jest.fn().mockResolvedValue('OK'),
@@ -37,6 +60,17 @@ describe('PaymentService - Validation', () => {
         { provide: PrismaService, useValue: mockPrisma },
         { provide: RedisService, useValue: mockRedis },
         { provide: NotificationService, useValue: mockNotificationService },
+        { provide: OrderLifecycleService, useValue: lifecycle },
+        { provide: PaymentProviderRegistry, useValue: { resolve: jest.fn(), get: jest.fn() } },
+        { provide: RefundService, useValue: refundService },
+        {
+          provide: InvoiceService,
+          useValue: { paymentAttachments: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: StockReservationService,
+          useValue: { consume: jest.fn(), extendForPayment: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -48,4 +82,82 @@ describe('PaymentService - Validation', () => {
       expect(service.createPayment).toBeDefined();
     });
   });
+
+  describe('updatePaymentStatus', () => {
+    it('refunds a capture that lands after the order was cancelled', async () => {
+      mockPrisma.payment.findUnique.mockResolvedValue({
+        id: 'pay-1',
+        orderId: 'order-1',
+        status: 'processing',
+        amount: 25000,
+        order: { status: OrderStatus.CANCELLED, userId: 'user-1', user: { email: null } },
+      });
+
+      await service.updatePaymentStatus('pay-1', {
+        paymentId: 'pay-1',
+        status: PaymentStatus.COMPLETED,
+        transactionRef: 'SBX-1',
+      });
+
+      expect(mockPrisma.payment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'completed' }) }),
+      );
+      expect(lifecycle.transition).not.toHaveBeenCalled();
+      expect(refundService.createRefund).toHaveBeenCalledWith(
+        'pay-1',
+        { amount: 25000, reason: expect.any(String) },
+        { type: 'SYSTEM' },
+        { restock: false, unapplied: true },
+      );
+    });
+
+    it('refunds a second capture on an order that is already paid', async () => {
+      mockPrisma.payment.findUnique.mockResolvedValue({
+        id: 'pay-2',
+        orderId: 'order-1',
+        status: 'processing',
+        amount: 25000,
+        order: { status: OrderStatus.PAID, userId: 'user-1', user: { email: null } },
+      });
+
+      await service.updatePaymentStatus('pay-2', {
+        paymentId: 'pay-2',
+        status: PaymentStatus.COMPLETED,
+        transactionRef: 'SBX-2',
+      });
+
+      expect(lifecycle.transition).not.toHaveBeenCalled();
+      expect(refundService.createRefund).toHaveBeenCalledWith(
+        'pay-2',
+        { amount: 25000, reason: expect.any(String) },
+        { type: 'SYSTEM' },
+        { restock: false, unapplied: true },
+      );
+    });
+
+    it('applies only one of two concurrent webhooks', async () => {
+      mockPrisma.payment.findUnique.mockResolvedValue({
+        id: 'pay-1',
+        orderId: 'order-1',
+        status: 'processing',
+        amount: 25000,
+        order: { status: OrderStatus.PENDING_PAYMENT, userId: 'user-1', user: { email: null } },
+      });
+      mockPrisma.payment.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.updatePaymentStatus('pay-1', {
+        paymentId: 'pay-1',
+        status: PaymentStatus.COMPLETED,
+        transactionRef: 'SBX-1',
+      });
+
+      expect(mockPrisma.payment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'pay-1', status: { notIn: ['completed', 'failed', 'refunded'] } },
+        }),
+      );
+      expect(lifecycle.transition).not.toHaveBeenCalled();
+      expect(refundService.createRefund).not.toHaveBeenCalled();
+    });
+  });
 });
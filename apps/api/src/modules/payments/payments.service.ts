@@ -8,13 +8,15 @@
  * [1] PAYMENT FLOW LOGIC
  *     [1a] createPayment() → Create Payment record, call provider API
  *     [1b] updatePaymentStatus() → Update status from webhook, update Order
- *     [1c] refundPayment() → Request refund from provider, update status
+ *     [1c] refundPayment() → Partial/full refund via RefundService (refund ledger)
+ *     [1e] syncWithProvider() → Poll provider for async outcome (mobile money approval)
+ *     [1d] Order status changes go through OrderLifecycleService (PAID, REFUNDED)
  *
- * [2] PAYMENT PROVIDERS (Future Integration)
- *     [2a] Stripe: Card payments (international), webhook events
- *     [2b] MTN Mobile Money API: MTN payments in West Africa
- *     [2c] Airtel Money: Airtel payments in West Africa
- *     [2d] Local banks: Bank transfers (SEPA, ACH, local)
+ * [2] PAYMENT PROVIDERS
+ *     [2a] PaymentProvider interface (providers/payment-provider.interface.ts)
+ *     [2b] PaymentProviderRegistry picks the provider per (method, country: TG/BJ/NE)
+ *     [2c] Built-in: SandboxPaymentProvider (simulated approval / failure / timeout)
+ *     [2d] Future adapters: Flooz, T-Money, MTN MoMo, card processor
  *
  * [3] SECURITY
  *     [3a] Webhook signature verification (prevent spoofing)
@@ -29,8 +31,16 @@ import { PrismaService } from '../prisma/prisma.service';
 import { RedisService } from '../redis/redis.service';
 import { NotificationService } from '../notifications/notification.service';
 import { EmailTemplate } from '../notifications/dto/send-email.dto';
-import { CreatePaymentDto, PaymentStatus } from './dto/create-payment.dto';
+import { SMSTemplate } from '../notifications/dto/send-sms.dto';
+import { OrderLifecycleService, OrderActor, SYSTEM_ACTOR } from '../orders/order-lifecycle.service';
+import { StockReservationService } from '../orders/stock-reservation.service';
+import { OrderStatus, Prisma } from '@prisma/client';
+import { CreatePaymentDto, PaymentMethod, PaymentStatus } from './dto/create-payment.dto';
 import { VerifyPaymentDto } from './dto/verify-payment.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { RefundOptions, RefundService } from './refund.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { InvoiceService } from '../invoices/invoice.service';
 
 @Injectable()
 export class PaymentService {
@@ -40,6 +50,11 @@ export class PaymentService {
     private prisma: PrismaService,
     private redis: RedisService,
     private notificationService: NotificationService,
+    private orderLifecycle: OrderLifecycleService,
+    private providerRegistry: PaymentProviderRegistry,
+    private refundService: RefundService,
+    private stockReservations: StockReservationService,
+    private invoiceService: InvoiceService,
   ) {}
 
   /**
@@ -48,9 +63,9 @@ export class PaymentService {
    *     [4b] Output: { paymentId, orderId, status: 'pending', expiresAt }
    *     [4c] Process:
    *         1. Validate order exists
-   *         2. Check order is in 'pending_payment' status
-   *         3. Create Payment record in database
-   *         4. Call payment provider API (initiate payment)
+   *         2. Check order is in PENDING_PAYMENT status
+   *         3. Resolve provider for (method, customer country)
+   *         4. Create Payment record, extend stock reservation, call provider initiate() (→ PROCESSING)
    *         5. Store payment ref in Redis (for quick lookup)
    *         6. Return payment details
    *     [4d] Idempotency: Store request hash in Redis, return cached result if duplicate
@@ -71,33 +86,65 @@ export class PaymentService {
       throw new BadRequestException('Unauthorized: You do not own this order');
     }
 
-    // [4.3] Check order status is 'pending_payment'
-    if (order.status !== 'pending_payment') {
+    // [4.3] Check order status is PENDING_PAYMENT
+    if (order.status !== OrderStatus.PENDING_PAYMENT) {
       throw new BadRequestException(`Cannot pay for order in status: ${order.status}`);
     }
 
-    // [4.4] CREATE PAYMENT RECORD
-    const payment = await this.prisma.payment.create({
+    // [4.4] RESOLVE PROVIDER (null for offline methods like cash on pickup)
+    const country = createPaymentDto.country || order.user.country;
+    const provider = this.providerRegistry.resolve(createPaymentDto.method, country);
+
+    if (
+      createPaymentDto.method === PaymentMethod.MOBILE_MONEY &&
+      !createPaymentDto.mobileMoneyPhone
+    ) {
+      throw new BadRequestException('mobileMoneyPhone is required for mobile money payments');
+    }
+
+    // [4.5] CREATE PAYMENT RECORD
+    let payment = await this.prisma.payment.create({
       data: {
         orderId: createPaymentDto.orderId,
         amount: createPaymentDto.amount,
         currency: createPaymentDto.currency || 'XOF',
         method: createPaymentDto.method,
         status: PaymentStatus.PENDING,
+        provider: provider?.name,
+        country: country.toUpperCase(),
       },
     });
 
-    // [4.5] INITIATE PAYMENT WITH PROVIDER
-    //       (Mock implementation; integrate with Stripe, MTN, etc.)
+    // [4.5a] KEEP STOCK RESERVED WHILE THE CUSTOMER APPROVES (grace window)
+    await this.stockReservations.extendForPayment(order.id);
+
+    // [4.6] INITIATE PAYMENT WITH PROVIDER
+    let providerMessage: string | undefined;
     try {
-      // In production: call payment provider API
-      // const providerResponse = await this.callPaymentProvider(payment);
-      // payment.externalReference = providerResponse.reference;
+      if (provider) {
+        const initiated = await provider.initiate({
+          paymentId: payment.id,
+          amount: createPaymentDto.amount,
+          currency: payment.currency,
+          method: createPaymentDto.method,
+          country: payment.country,
+          phone: createPaymentDto.mobileMoneyPhone,
+        });
+        providerMessage = initiated.message;
+
+        payment = await this.prisma.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: initiated.status,
+            externalReference: initiated.externalReference,
+          },
+        });
+      }
       this.logger.log(
-        `Payment created: ${payment.id} for order ${order.id} (${createPaymentDto.amount} ${createPaymentDto.currency})`,
+        `Payment created: ${payment.id} for order ${order.id} (${createPaymentDto.amount} ${payment.currency}) via ${payment.provider ?? 'offline'}`,
       );
     } catch (error: unknown) {
-      // [4.6] If provider API fails, still keep Payment record (status: pending)
+      // [4.7] If provider API fails, still keep Payment record (status: pending)
       // User can retry via GET /payments/:id
       if (error instanceof Error) {
         this.logger.error(`Payment provider error: ${error.message}`);
@@ -106,7 +153,7 @@ export class PaymentService {
       }
     }
 
-    // [4.7] CACHE IN REDIS FOR QUICK LOOKUP
+    // [4.8] CACHE IN REDIS FOR QUICK LOOKUP
     //       Redis key: payment:{paymentId} (TTL: 24 hours)
     await this.redis.set(`payment:${payment.id}`, JSON.stringify(payment), 86400);
 
@@ -116,6 +163,9 @@ export class PaymentService {
       status: payment.status,
       amount: payment.amount,
       currency: payment.currency,
+      provider: payment.provider,
+      externalReference: payment.externalReference,
+      message: providerMessage,
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
     };
   }
@@ -128,19 +178,24 @@ export class PaymentService {
    *         1. Find payment by ID
    *         2. Update payment status in database
    *         3. If status = 'completed':
-   *            - Update order status to 'processing'
+   *            - Transition order to PAID + consume stock reservation (same transaction)
    *            - Send order confirmation notification
    *         4. If status = 'failed':
-   *            - Keep order status as 'pending_payment'
+   *            - Keep order status as PENDING_PAYMENT
    *            - Send payment failure notification (retry option)
    *         5. Update Redis cache
-   *     [5d] Idempotency: If payment already in final state, return current state
+   *     [5d] Idempotency: If payment already in final state, return current state. The update
+   *          only applies to a payment not final yet → of two concurrent webhooks, one applies
+   *     [5e] Late capture: the order is no longer waiting for payment — expired (sweeper),
+   *          cancelled, or already paid by another payment (duplicate capture) → payment kept
+   *          COMPLETED, order untouched, amount refunded automatically (money-only, nothing
+   *          restocked, not counted in Order.refundedTotal)
    */
   async updatePaymentStatus(paymentId: string, verifyPaymentDto: VerifyPaymentDto) {
     // [5.1] FIND PAYMENT
     const payment = await this.prisma.payment.findUnique({
       where: { id: paymentId },
-      include: { order: true },
+      include: { order: { include: { user: { select: { email: true, phoneNumber: true } } } } },
     });
 
     if (!payment) {
@@ -149,90 +204,133 @@ export class PaymentService {
 
     // [5.2] CHECK IDEMPOTENCY
     //       If payment already in final state, don't re-process
-    if (payment.status === PaymentStatus.COMPLETED || payment.status === PaymentStatus.FAILED) {
+    const finalStatuses: string[] = [
+      PaymentStatus.COMPLETED,
+      PaymentStatus.FAILED,
+      PaymentStatus.REFUNDED,
+    ];
+    if (finalStatuses.includes(payment.status)) {
       this.logger.warn(`Payment ${paymentId} already in final state: ${payment.status}`);
       return payment; // Return current state
     }
 
-    // [5.3] UPDATE PAYMENT STATUS
-    const updatedPayment = await this.prisma.payment.update({
-      where: { id: paymentId },
-      data: {
-        status: verifyPaymentDto.status,
-        externalReference: verifyPaymentDto.transactionRef,
-        errorMessage: verifyPaymentDto.errorMessage,
-        updatedAt: new Date(),
-      },
-    });
-
-    // [5.4] UPDATE ORDER STATUS BASED ON PAYMENT STATUS
-    if (verifyPaymentDto.status === PaymentStatus.COMPLETED) {
-      // Payment successful → update order to processing
-      await this.prisma.order.update({
-        where: { id: payment.orderId },
-        data: { status: 'processing' },
+    // [5.3] UPDATE PAYMENT STATUS (+ ORDER → PAID ON SUCCESS, ATOMICALLY)
+    //       A concurrent expiry makes the PAID transition fail (409) → provider retries the
+    //       webhook, which then sees the cancelled order [5e]
+    const lateCapture =
+      verifyPaymentDto.status === PaymentStatus.COMPLETED &&
+      payment.order!.status !== OrderStatus.PENDING_PAYMENT;
+    const updatedPayment = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.payment.updateMany({
+        where: { id: paymentId, status: { notIn: finalStatuses } },
+        data: {
+          status: verifyPaymentDto.status,
+          externalReference: verifyPaymentDto.transactionRef,
+          errorMessage: verifyPaymentDto.errorMessage,
+          updatedAt: new Date(),
+        },
       });
+      if (count === 0) {
+        return null; // [5d] A concurrent webhook applied its outcome first
+      }
+      const updated = await tx.payment.findUniqueOrThrow({ where: { id: paymentId } });
+
+      if (verifyPaymentDto.status === PaymentStatus.COMPLETED && !lateCapture) {
+        await this.orderLifecycle.transition(
+          payment.orderId,
+          OrderStatus.PAID,
+          SYSTEM_ACTOR,
+          `Payment ${paymentId} completed`,
+          tx,
+        );
+        await this.stockReservations.consume(tx, payment.orderId);
+      }
 
-      this.logger.log(`Payment ${paymentId} completed. Order processing started.`);
+      return updated;
+    });
+    if (!updatedPayment) {
+      this.logger.warn(`Payment ${paymentId} reached a final state concurrently`);
+      return this.prisma.payment.findUnique({ where: { id: paymentId } });
+    }
+
+    // [5.4] NOTIFY BASED ON PAYMENT STATUS
+    if (lateCapture) {
+      this.logger.warn(
+        `Payment ${paymentId} captured on a ${payment.order!.status} order: refunding`,
+      );
+    } else if (verifyPaymentDto.status === PaymentStatus.COMPLETED) {
+      this.logger.log(`Payment ${paymentId} completed. Order marked as PAID.`);
 
       // [5.4a] SEND PAYMENT SUCCESS NOTIFICATION (ASYNC)
       //        Fire-and-forget: Don't await, send in background
-      //        EmailTemplate: PAYMENT_SUCCESS
-      this.notificationService
-        .sendEmail(
-          {
-            to: 'customer@example.com', // TODO: Get from user object
-            template: EmailTemplate.PAYMENT_SUCCESS,
-            variables: {
-              orderId: payment.orderId,
-              amount: payment.amount.toString(),
-              paymentMethod: payment.method,
-              transactionRef: verifyPaymentDto.transactionRef,
-            },
-          },
-          payment.order!.userId,
-        )
-        .catch((error: unknown) => {
+      //        EmailTemplate: PAYMENT_SUCCESS, invoice + receipt PDFs attached
+      this.sendPaymentSuccessEmail(payment, verifyPaymentDto.transactionRef).catch(
+        (error: unknown) => {
           if (error instanceof Error) {
             this.logger.error(`Failed to send payment success email: ${error.message}`);
           } else {
             this.logger.error('Failed to send payment success email');
           }
-        });
+        },
+      );
     } else if (verifyPaymentDto.status === PaymentStatus.FAILED) {
-      // Payment failed → order remains pending_payment (user can retry)
+      // Payment failed → order remains PENDING_PAYMENT (user can retry)
       this.logger.error(`Payment ${paymentId} failed: ${verifyPaymentDto.errorMessage}`);
 
       // [5.4b] SEND PAYMENT FAILURE NOTIFICATION (ASYNC)
-      this.notificationService
-        .sendEmail(
-          {
-            to: 'customer@example.com', // TODO: Get from user object
-            template: EmailTemplate.PAYMENT_FAILED,
-            variables: {
-              orderId: payment.orderId,
-              amount: payment.amount.toString(),
-              errorMessage: verifyPaymentDto.errorMessage,
-              retryLink: `https://alove.app/orders/${payment.orderId}/pay`, // TODO: Use actual domain
+      //        Guest buyers have no email: they retry from the order page
+      const email = payment.order!.user.email;
+      if (email) {
+        this.notificationService
+          .sendEmail(
+            {
+              to: email,
+              template: EmailTemplate.PAYMENT_FAILED,
+              variables: {
+                orderId: payment.orderId,
+                amount: payment.amount.toString(),
+                errorMessage: verifyPaymentDto.errorMessage,
+                retryLink: `https://alove.app/orders/${payment.orderId}/pay`, // TODO: Use actual domain
+              },
             },
-          },
-          payment.order!.userId,
-        )
-        .catch((error: unknown) => {
-          if (error instanceof Error) {
-            this.logger.error(`Failed to send payment failure email: ${error.message}`);
-          } else {
-            this.logger.error('Failed to send payment failure email');
-          }
-        });
+            payment.order!.userId,
+          )
+          .catch((error: unknown) => {
+            if (error instanceof Error) {
+              this.logger.error(`Failed to send payment failure email: ${error.message}`);
+            } else {
+              this.logger.error('Failed to send payment failure email');
+            }
+          });
+      }
     }
 
     // [5.5] UPDATE REDIS CACHE
     await this.redis.set(`payment:${paymentId}`, JSON.stringify(updatedPayment), 86400);
 
+    // [5.6] LATE CAPTURE → AUTOMATIC REFUND [5e] (refund email sent by RefundService)
+    if (lateCapture) {
+      await this.refundLateCapture(paymentId, Number(payment.amount));
+    }
+
     return updatedPayment;
   }
 
+  // [5e] A failed refund stays FAILED on the ledger: finance retries it from the admin route
+  private async refundLateCapture(paymentId: string, amount: number): Promise<void> {
+    try {
+      await this.refundService.createRefund(
+        paymentId,
+        { amount, reason: 'Payment captured after the order was paid, cancelled or expired' },
+        SYSTEM_ACTOR,
+        { restock: false, unapplied: true },
+      );
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Automatic refund of payment ${paymentId} failed: ${message}`);
+    }
+  }
+
   /**
    * [6] GET PAYMENT BY ID
    *     [6a] Input: paymentId
@@ -263,21 +361,32 @@ export class PaymentService {
 
   /**
    * [7] REFUND PAYMENT
-   *     [7a] Input: paymentId
-   *     [7b] Output: { paymentId, status: 'refunded', refundedAmount, refundDate }
-   *     [7c] Process:
-   *         1. Find payment
-   *         2. Check payment status = 'completed'
-   *         3. Call payment provider refund API
-   *         4. Update payment status to 'refunded'
-   *         5. Update order status to 'cancelled' (or 'refunding')
-   *         6. Send refund notification to user
-   *     [7d] Errors:
-   *         - Payment not completed → can't refund
-   *         - Provider refund fails → store error, allow retry
+   *     [7a] Input: paymentId, CreateRefundDto (items / shipment / amount), actor,
+   *          RefundOptions (restock decision of the returns flow, merchant scope)
+   *     [7b] Output: Refund with line items
+   *     [7c] Delegates to RefundService: partial refunds up to the captured amount,
+   *          restock, Order.refundedTotal, order → REFUNDED once fully refunded
+   */
+  async refundPayment(
+    paymentId: string,
+    dto: CreateRefundDto = {},
+    actor: OrderActor = SYSTEM_ACTOR,
+    options: RefundOptions = {},
+  ) {
+    return this.refundService.createRefund(paymentId, dto, actor, options);
+  }
+
+  /**
+   * [8] SYNC WITH PROVIDER (ASYNC OUTCOME)
+   *     [8a] Input: paymentId
+   *     [8b] Output: Payment (updated if the provider reached a final status)
+   *     [8c] Process:
+   *         1. Skip offline payments and payments already in a final state
+   *         2. provider.queryStatus(externalReference)
+   *         3. COMPLETED / FAILED → updatePaymentStatus() (order transition + notifications)
+   *     [8d] Lets clients poll while waiting for the mobile money approval
    */
-  async refundPayment(paymentId: string) {
-    // [7.1] FIND PAYMENT
+  async syncWithProvider(paymentId: string) {
     const payment = await this.prisma.payment.findUnique({
       where: { id: paymentId },
     });
@@ -286,73 +395,35 @@ export class PaymentService {
       throw new NotFoundException('Payment not found');
     }
 
-    // [7.2] CHECK PAYMENT IS COMPLETED
-    if (payment.status !== PaymentStatus.COMPLETED) {
-      throw new BadRequestException(`Cannot refund payment in status: ${payment.status}`);
+    const finalStatuses: string[] = [
+      PaymentStatus.COMPLETED,
+      PaymentStatus.FAILED,
+      PaymentStatus.REFUNDED,
+    ];
+    if (!payment.provider || !payment.externalReference || finalStatuses.includes(payment.status)) {
+      return payment;
     }
 
-    // [7.3] CALL PAYMENT PROVIDER REFUND API
-    //       (Mock implementation; integrate with Stripe, MTN, etc.)
-    try {
-      // In production: const refundResponse = await this.callProviderRefund(payment);
-      this.logger.log(`Refund initiated for payment ${paymentId}`);
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        this.logger.error(`Refund failed: ${error.message}`);
-      } else {
-        this.logger.error('Refund failed');
-      }
-      throw new BadRequestException('Refund failed. Please try again.');
-    }
+    const result = await this.providerRegistry
+      .get(payment.provider)
+      .queryStatus(payment.externalReference);
 
-    // [7.4] UPDATE PAYMENT STATUS
-    const refundedPayment = await this.prisma.payment.update({
-      where: { id: paymentId },
-      data: {
-        status: PaymentStatus.REFUNDED,
-        updatedAt: new Date(),
-      },
-    });
+    if (result.status !== PaymentStatus.COMPLETED && result.status !== PaymentStatus.FAILED) {
+      return payment;
+    }
 
-    // [7.5] UPDATE ORDER STATUS (if refund succeeds)
-    //       Order can be cancelled only if refund completes
-    const order = await this.prisma.order.update({
-      where: { id: payment.orderId },
-      data: { status: 'cancelled' },
+    return this.updatePaymentStatus(paymentId, {
+      paymentId,
+      status: result.status,
+      transactionRef: result.externalReference,
+      errorMessage: result.errorMessage,
     });
-
-    this.logger.log(`Payment ${paymentId} refunded successfully`);
-
-    // [7.6] SEND REFUND CONFIRMATION NOTIFICATION (ASYNC)
-    this.notificationService
-      .sendEmail(
-        {
-          to: 'customer@example.com', // TODO: Get from user object
-          template: EmailTemplate.REFUND_PROCESSED,
-          variables: {
-            orderId: payment.orderId,
-            refundAmount: payment.amount.toString(),
-            refundDate: new Date(),
-            estimatedArrival: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000), // +3 days
-          },
-        },
-        order.userId,
-      )
-      .catch((error: unknown) => {
-        if (error instanceof Error) {
-          this.logger.error(`Failed to send refund email: ${error.message}`);
-        } else {
-          this.logger.error('Failed to send refund email');
-        }
-      });
-
-    return refundedPayment;
   }
 
   /**
-   * [8] VALIDATE ORDER (HELPER)
-   *     [8a] Check if order exists and belongs to user
-   *     [8b] Returns order object or null
+   * [9] VALIDATE ORDER (HELPER)
+   *     [9a] Check if order exists and belongs to user
+   *     [9b] Returns order object or null
    */
   async validateOrder(orderId: string, userId: string) {
     return this.prisma.order.findFirst({
@@ -362,4 +433,55 @@ export class PaymentService {
       },
     });
   }
+
+  /**
+   * [10] PAYMENT SUCCESS EMAIL (PRIVATE)
+   *      [10a] Invoice + receipt PDFs attached (InvoiceService issues their numbers)
+   *      [10b] A PDF failure never blocks the email: sent without attachments
+   *      [10c] Guest buyer (no email) → PAYMENT_SUCCESS SMS to the verified phone instead
+   */
+  private async sendPaymentSuccessEmail(
+    payment: Prisma.PaymentGetPayload<{
+      include: { order: { include: { user: { select: { email: true; phoneNumber: true } } } } };
+    }>,
+    transactionRef?: string,
+  ) {
+    const { email, phoneNumber } = payment.order.user;
+    if (!email) {
+      if (phoneNumber) {
+        await this.notificationService.sendSms(
+          {
+            phoneNumber,
+            template: SMSTemplate.PAYMENT_SUCCESS,
+            variables: { orderId: payment.orderId, amount: payment.amount.toString() },
+          },
+          payment.order.userId,
+        );
+      }
+      return;
+    }
+
+    const attachments = await this.invoiceService
+      .paymentAttachments(payment.id)
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Invoice PDFs not attached for payment ${payment.id}: ${message}`);
+        return [];
+      });
+
+    await this.notificationService.sendEmail(
+      {
+        to: email,
+        template: EmailTemplate.PAYMENT_SUCCESS,
+        variables: {
+          orderId: payment.orderId,
+          amount: payment.amount.toString(),
+          paymentMethod: payment.method,
+          transactionRef,
+        },
+        attachments,
+      },
+      payment.order.userId,
+    );
+  }
 }
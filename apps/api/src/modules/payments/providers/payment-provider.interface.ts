@@ -0,0 +1,101 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        PAYMENT PROVIDER — Provider Contract                                        ║
+ * ║  Defines: initiate, status query, refund (implemented by sandbox, Flooz, T-Money, MTN...)         ║
+ * ║  Used by: PaymentProviderRegistry (selection), PaymentService (payment flow)                       ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] WHY AN INTERFACE?
+ *     [1a] PaymentService never talks to a provider SDK directly
+ *     [1b] Adding a real adapter = implement PaymentProvider + register it in PaymentModule
+ *     [1c] Order code does not change when a country switches provider
+ *
+ * [2] ASYNC PROVIDERS
+ *     [2a] Mobile money is asynchronous: initiate() only sends a USSD/push prompt
+ *     [2b] The final outcome arrives later (webhook or queryStatus() polling)
+ *     [2c] parseWebhook() maps the provider's payload to a ProviderWebhookEvent
+ *          (signature checks are generic, done by PaymentWebhookService)
+ */
+
+import { PaymentMethod, PaymentStatus } from '../dto/create-payment.dto';
+
+/**
+ * [3] INJECTION TOKEN
+ *     Multi-provider array of every registered PaymentProvider
+ */
+export const PAYMENT_PROVIDERS = 'PAYMENT_PROVIDERS';
+
+/**
+ * [4] INITIATE REQUEST
+ */
+export interface InitiatePaymentRequest {
+  paymentId: string; // Our Payment.id (sent as merchant reference)
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  country: string; // ISO 3166-1 alpha-2 (TG, BJ, NE)
+  phone?: string; // Mobile money wallet number
+}
+
+/**
+ * [5] INITIATE RESULT
+ *     externalReference: provider transaction ID (stored on Payment)
+ *     status: PROCESSING while the customer has not approved yet
+ */
+export interface InitiatePaymentResult {
+  externalReference: string;
+  status: PaymentStatus;
+  message?: string; // e.g. "Dial *145# to approve"
+}
+
+/**
+ * [6] STATUS QUERY RESULT
+ */
+export interface ProviderStatusResult {
+  externalReference: string;
+  status: PaymentStatus; // PROCESSING | COMPLETED | FAILED
+  errorMessage?: string;
+}
+
+/**
+ * [7] REFUND REQUEST / RESULT
+ */
+export interface ProviderRefundRequest {
+  paymentId: string;
+  externalReference: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+}
+
+export interface ProviderRefundResult {
+  refundReference: string;
+  success: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * [8] WEBHOOK EVENT (normalized)
+ *     eventId: provider's unique event ID (deduplication key with the provider name)
+ *     status: the provider's outcome only; refunds go through the refund ledger, never a webhook
+ */
+export type ProviderWebhookStatus = PaymentStatus.COMPLETED | PaymentStatus.FAILED;
+
+export interface ProviderWebhookEvent {
+  eventId: string;
+  externalReference: string;
+  status: ProviderWebhookStatus;
+  errorMessage?: string;
+}
+
+/**
+ * [9] PAYMENT PROVIDER CONTRACT
+ *     name: stable identifier stored on Payment.provider (e.g. 'sandbox', 'tmoney')
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  initiate(request: InitiatePaymentRequest): Promise<InitiatePaymentResult>;
+  queryStatus(externalReference: string): Promise<ProviderStatusResult>;
+  refund(request: ProviderRefundRequest): Promise<ProviderRefundResult>;
+  parseWebhook(payload: Record<string, unknown>): ProviderWebhookEvent;
+}
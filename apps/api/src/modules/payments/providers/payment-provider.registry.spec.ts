@@ -0,0 +1,61 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              PAYMENT PROVIDER REGISTRY TESTS — Provider per (Method, Country)                     ║
+ * ║  Tests: Configured routes, offline methods, sandbox opt-in, misconfiguration errors              ║
+ * ║  Focus: The sandbox never approves real orders in production                                      ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { BadRequestException, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentProviderRegistry } from './payment-provider.registry';
+import { PaymentProvider } from './payment-provider.interface';
+import { PaymentMethod } from '../dto/create-payment.dto';
+
+describe('PaymentProviderRegistry', () => {
+  const sandbox = { name: 'sandbox' } as PaymentProvider;
+  const tmoney = { name: 'tmoney' } as PaymentProvider;
+
+  const registry = (env: Record<string, string>) =>
+    new PaymentProviderRegistry([sandbox, tmoney], {
+      get: (key: string) => env[key],
+    } as unknown as ConfigService);
+
+  it('routes a method to the provider configured for its country', () => {
+    const providers = registry({ PAYMENT_PROVIDER_TG_MOBILE_MONEY: 'tmoney' });
+
+    expect(providers.resolve(PaymentMethod.MOBILE_MONEY, 'tg')).toBe(tmoney);
+    expect(providers.resolve(PaymentMethod.CASH_ON_PICKUP, 'TG')).toBeNull();
+    expect(() => providers.resolve(PaymentMethod.MOBILE_MONEY, 'GH')).toThrow(BadRequestException);
+  });
+
+  it('falls back to the sandbox only when it is enabled outside production', () => {
+    expect(
+      registry({ PAYMENT_SANDBOX_ENABLED: 'true' }).resolve(PaymentMethod.MOBILE_MONEY, 'BJ'),
+    ).toBe(sandbox);
+
+    expect(() => registry({}).resolve(PaymentMethod.MOBILE_MONEY, 'BJ')).toThrow(
+      ServiceUnavailableException,
+    );
+    expect(() =>
+      registry({ PAYMENT_SANDBOX_ENABLED: 'true', NODE_ENV: 'production' }).resolve(
+        PaymentMethod.MOBILE_MONEY,
+        'BJ',
+      ),
+    ).toThrow(ServiceUnavailableException);
+  });
+
+  it('refuses a route or a payment pointing to the sandbox in production', () => {
+    const providers = registry({
+      PAYMENT_SANDBOX_ENABLED: 'true',
+      NODE_ENV: 'production',
+      PAYMENT_PROVIDER_TG_MOBILE_MONEY: 'sandbox',
+    });
+
+    expect(() => providers.resolve(PaymentMethod.MOBILE_MONEY, 'TG')).toThrow(
+      ServiceUnavailableException,
+    );
+    expect(() => providers.get('sandbox')).toThrow(ServiceUnavailableException);
+    expect(providers.get('tmoney')).toBe(tmoney);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        PAYMENT PROVIDER REGISTRY — Provider Selection                              ║
+ * ║  Resolves: PaymentProvider per (Payment.method, country)                                          ║
+ * ║  Countries: TG (Togo), BJ (Benin), NE (Niger)                                                     ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ROUTING
+ *     [1a] Each route set with env PAYMENT_PROVIDER_{COUNTRY}_{METHOD}
+ *          e.g. PAYMENT_PROVIDER_TG_MOBILE_MONEY=tmoney, PAYMENT_PROVIDER_BJ_MOBILE_MONEY=mtn
+ *     [1b] Sandbox (approves without collecting money): only with PAYMENT_SANDBOX_ENABLED=true
+ *          outside production; then also the route of every method not configured
+ *     [1c] Offline methods (cash on pickup) have no provider → resolve() returns null
+ *
+ * [2] ERRORS
+ *     [2a] Unsupported country → 400
+ *     [2b] Route points to a provider that is not registered → 400 (misconfiguration, logged)
+ *     [2c] Route not configured, or sandbox not allowed → 503 (misconfiguration, logged):
+ *          never an order marked PAID by the sandbox in production
+ */
+
+import {
+  Injectable,
+  Inject,
+  BadRequestException,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentMethod } from '../dto/create-payment.dto';
+import { PaymentProvider, PAYMENT_PROVIDERS } from './payment-provider.interface';
+
+export const SUPPORTED_PAYMENT_COUNTRIES = ['TG', 'BJ', 'NE'];
+
+const OFFLINE_METHODS: PaymentMethod[] = [PaymentMethod.CASH_ON_PICKUP];
+
+const SANDBOX_PROVIDER = 'sandbox';
+
+@Injectable()
+export class PaymentProviderRegistry {
+  private readonly logger = new Logger(PaymentProviderRegistry.name);
+  private readonly providers = new Map<string, PaymentProvider>();
+
+  constructor(
+    @Inject(PAYMENT_PROVIDERS) providers: PaymentProvider[],
+    private readonly configService: ConfigService,
+  ) {
+    providers.forEach((provider) => this.providers.set(provider.name, provider));
+  }
+
+  /**
+   * [3] RESOLVE PROVIDER FOR A PAYMENT
+   *     Returns null for offline methods (nothing to initiate)
+   */
+  resolve(method: PaymentMethod, country: string): PaymentProvider | null {
+    const countryCode = country.toUpperCase();
+    if (!SUPPORTED_PAYMENT_COUNTRIES.includes(countryCode)) {
+      throw new BadRequestException(`Payments are not available in country: ${country}`);
+    }
+
+    if (OFFLINE_METHODS.includes(method)) {
+      return null;
+    }
+
+    const key = `PAYMENT_PROVIDER_${countryCode}_${method.toUpperCase()}`;
+    const name =
+      this.configService.get<string>(key) || (this.sandboxAllowed() ? SANDBOX_PROVIDER : undefined);
+    if (!name) {
+      this.logger.error(`No payment provider configured: ${key}`);
+      throw new ServiceUnavailableException(`Payment method unavailable: ${method} (${country})`);
+    }
+    return this.get(name);
+  }
+
+  /**
+   * [4] GET PROVIDER BY NAME
+   *     Used for follow-up calls on an existing payment (Payment.provider)
+   */
+  get(name: string): PaymentProvider {
+    if (name === SANDBOX_PROVIDER && !this.sandboxAllowed()) {
+      this.logger.error('Sandbox payment provider used while not enabled');
+      throw new ServiceUnavailableException(`Payment provider unavailable: ${name}`);
+    }
+
+    const provider = this.providers.get(name);
+    if (!provider) {
+      this.logger.error(`Payment provider not registered: ${name}`);
+      throw new BadRequestException(`Payment provider unavailable: ${name}`);
+    }
+    return provider;
+  }
+
+  // [1b] Opt-in, and never in production
+  private sandboxAllowed(): boolean {
+    return (
+      this.configService.get<string>('PAYMENT_SANDBOX_ENABLED') === 'true' &&
+      this.configService.get<string>('NODE_ENV') !== 'production'
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              SANDBOX PAYMENT PROVIDER TESTS — Simulated Mobile Money                              ║
+ * ║  Tests: Async approval, failure, timeout, refund, webhook payload                                 ║
+ * ║  Focus: Outcome scripted by wallet number, status derived from elapsed time                       ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SandboxPaymentProvider } from './sandbox-payment.provider';
+import { RedisService } from '../../redis/redis.service';
+import { PaymentMethod, PaymentStatus } from '../dto/create-payment.dto';
+
+describe('SandboxPaymentProvider', () => {
+  let provider: SandboxPaymentProvider;
+  let store: Map<string, string>;
+  let now: number;
+
+  const initiate = (phone: string) =>
+    provider.initiate({
+      paymentId: 'pay-1',
+      amount: 15000,
+      currency: 'XOF',
+      method: PaymentMethod.MOBILE_MONEY,
+      country: 'TG',
+      phone,
+    });
+
+  beforeEach(() => {
+    store = new Map();
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const redis = {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        store.set(key, value);
+        return 'OK';
+      }),
+    } as unknown as RedisService;
+
+    const config = {
+      get: jest.fn((key: string, fallback: unknown) =>
+        key === 'SANDBOX_PAYMENT_APPROVAL_DELAY_MS'
+          ? 1000
+          : key === 'SANDBOX_PAYMENT_TIMEOUT_MS'
+            ? 5000
+            : fallback,
+      ),
+    } as unknown as ConfigService;
+
+    provider = new SandboxPaymentProvider(redis, config);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should approve asynchronously after the approval delay', async () => {
+    const { externalReference, status } = await initiate('+22890000000');
+    expect(status).toBe(PaymentStatus.PROCESSING);
+
+    expect((await provider.queryStatus(externalReference)).status).toBe(PaymentStatus.PROCESSING);
+
+    now += 1000;
+    expect((await provider.queryStatus(externalReference)).status).toBe(PaymentStatus.COMPLETED);
+  });
+
+  it('should fail wallets ending in 01', async () => {
+    const { externalReference } = await initiate('+22890000001');
+    now += 1000;
+
+    const result = await provider.queryStatus(externalReference);
+    expect(result.status).toBe(PaymentStatus.FAILED);
+    expect(result.errorMessage).toBe('Insufficient balance');
+  });
+
+  it('should time out wallets ending in 02', async () => {
+    const { externalReference } = await initiate('+22890000002');
+    now += 1000;
+    expect((await provider.queryStatus(externalReference)).status).toBe(PaymentStatus.PROCESSING);
+
+    now += 4000;
+    const result = await provider.queryStatus(externalReference);
+    expect(result.status).toBe(PaymentStatus.FAILED);
+    expect(result.errorMessage).toBe('Payment request timed out');
+  });
+
+  it('should refund a known transaction only once', async () => {
+    const { externalReference } = await initiate('+22890000000');
+    const request = { paymentId: 'pay-1', externalReference, amount: 15000, currency: 'XOF' };
+
+    expect((await provider.refund(request)).success).toBe(true);
+    expect((await provider.refund(request)).success).toBe(false);
+  });
+
+  it('should accept only a completed or failed outcome from a webhook', () => {
+    const payload = { eventId: 'evt-1', externalReference: 'SBX-1' };
+
+    expect(provider.parseWebhook({ ...payload, status: 'completed' }).status).toBe(
+      PaymentStatus.COMPLETED,
+    );
+    for (const status of ['refunded', 'pending', 'processing']) {
+      expect(() => provider.parseWebhook({ ...payload, status })).toThrow(BadRequestException);
+    }
+  });
+});
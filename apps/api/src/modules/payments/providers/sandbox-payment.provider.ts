@@ -0,0 +1,202 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        SANDBOX PAYMENT PROVIDER — Local Mobile Money Simulator                     ║
+ * ║  Simulates: Async approval, failure, timeout (no external calls)                                  ║
+ * ║  Used for: Local end-to-end checkout, tests, demos                                                ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] OUTCOME BY WALLET NUMBER (last digits)
+ *     [1a] ...01 → FAILED after the approval delay ("Insufficient balance")
+ *     [1b] ...02 → TIMEOUT: stays PROCESSING, then FAILED once SANDBOX_PAYMENT_TIMEOUT_MS elapses
+ *     [1c] anything else → COMPLETED after the approval delay
+ *
+ * [2] TIMING (env)
+ *     [2a] SANDBOX_PAYMENT_APPROVAL_DELAY_MS (default 5000): time the "customer" takes to approve
+ *     [2b] SANDBOX_PAYMENT_TIMEOUT_MS (default 120000): when a never-approved prompt expires
+ *
+ * [3] STATE
+ *     [3a] Transactions stored in Redis (sandbox:payment:{ref}, TTL 24h)
+ *     [3b] Status is computed from elapsed time on each queryStatus() → no timers to clean up
+ *
+ * [4] WEBHOOKS
+ *     [4a] Payload: { eventId, externalReference, status, errorMessage? }
+ *     [4b] Signed like any provider (PAYMENT_WEBHOOK_SECRET_SANDBOX) → handy to test the webhook route
+ */
+
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+import { PaymentStatus } from '../dto/create-payment.dto';
+import {
+  PaymentProvider,
+  InitiatePaymentRequest,
+  InitiatePaymentResult,
+  ProviderStatusResult,
+  ProviderRefundRequest,
+  ProviderRefundResult,
+  ProviderWebhookEvent,
+  ProviderWebhookStatus,
+} from './payment-provider.interface';
+
+type SandboxOutcome = 'approve' | 'fail' | 'timeout';
+
+interface SandboxTransaction {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  outcome: SandboxOutcome;
+  createdAt: number;
+  refunded: boolean;
+}
+
+const SANDBOX_TTL_SECONDS = 86400; // 24 hours
+
+@Injectable()
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = 'sandbox';
+  private readonly logger = new Logger(SandboxPaymentProvider.name);
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * [4] INITIATE
+   *     Stores the simulated transaction and returns PROCESSING (customer must "approve")
+   */
+  async initiate(request: InitiatePaymentRequest): Promise<InitiatePaymentResult> {
+    const externalReference = `SBX-${randomUUID()}`;
+    const transaction: SandboxTransaction = {
+      paymentId: request.paymentId,
+      amount: request.amount,
+      currency: request.currency,
+      outcome: this.outcomeFor(request.phone),
+      createdAt: Date.now(),
+      refunded: false,
+    };
+
+    await this.save(externalReference, transaction);
+    this.logger.log(
+      `Sandbox payment ${externalReference} initiated (${transaction.outcome}) for ${request.paymentId}`,
+    );
+
+    return {
+      externalReference,
+      status: PaymentStatus.PROCESSING,
+      message: 'Sandbox: approval simulated automatically',
+    };
+  }
+
+  /**
+   * [5] QUERY STATUS
+   *     Derives the status from elapsed time and the scripted outcome
+   */
+  async queryStatus(externalReference: string): Promise<ProviderStatusResult> {
+    const transaction = await this.load(externalReference);
+    if (!transaction) {
+      return {
+        externalReference,
+        status: PaymentStatus.FAILED,
+        errorMessage: 'Unknown sandbox transaction',
+      };
+    }
+
+    const elapsed = Date.now() - transaction.createdAt;
+
+    if (transaction.outcome === 'timeout') {
+      return elapsed >= this.timeoutMs()
+        ? {
+            externalReference,
+            status: PaymentStatus.FAILED,
+            errorMessage: 'Payment request timed out',
+          }
+        : { externalReference, status: PaymentStatus.PROCESSING };
+    }
+
+    if (elapsed < this.approvalDelayMs()) {
+      return { externalReference, status: PaymentStatus.PROCESSING };
+    }
+
+    return transaction.outcome === 'approve'
+      ? { externalReference, status: PaymentStatus.COMPLETED }
+      : { externalReference, status: PaymentStatus.FAILED, errorMessage: 'Insufficient balance' };
+  }
+
+  /**
+   * [6] REFUND
+   *     Succeeds for any known transaction that has not been fully refunded
+   */
+  async refund(request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+    const refundReference = `SBX-RF-${randomUUID()}`;
+    const transaction = await this.load(request.externalReference);
+
+    if (!transaction) {
+      return { refundReference, success: false, errorMessage: 'Unknown sandbox transaction' };
+    }
+    if (transaction.refunded) {
+      return { refundReference, success: false, errorMessage: 'Transaction already refunded' };
+    }
+
+    transaction.refunded = request.amount >= transaction.amount;
+    await this.save(request.externalReference, transaction);
+
+    return { refundReference, success: true };
+  }
+
+  /**
+   * [7] PARSE WEBHOOK
+   *     Sandbox payload is already in the normalized shape
+   *     Only an outcome (completed / failed) is accepted: anything else → 400
+   */
+  parseWebhook(payload: Record<string, unknown>): ProviderWebhookEvent {
+    const { eventId, externalReference, status, errorMessage } = payload;
+    const statuses: unknown[] = [PaymentStatus.COMPLETED, PaymentStatus.FAILED];
+
+    if (typeof eventId !== 'string' || typeof externalReference !== 'string') {
+      throw new BadRequestException('Webhook payload requires eventId and externalReference');
+    }
+    if (!statuses.includes(status)) {
+      throw new BadRequestException(`Invalid webhook status: ${String(status)}`);
+    }
+
+    return {
+      eventId,
+      externalReference,
+      status: status as ProviderWebhookStatus,
+      errorMessage: typeof errorMessage === 'string' ? errorMessage : undefined,
+    };
+  }
+
+  /**
+   * [8] HELPERS (PRIVATE)
+   */
+  private outcomeFor(phone?: string): SandboxOutcome {
+    const digits = (phone || '').replace(/\D/g, '');
+    if (digits.endsWith('01')) return 'fail';
+    if (digits.endsWith('02')) return 'timeout';
+    return 'approve';
+  }
+
+  private approvalDelayMs(): number {
+    return Number(this.configService.get('SANDBOX_PAYMENT_APPROVAL_DELAY_MS', 5000));
+  }
+
+  private timeoutMs(): number {
+    return Number(this.configService.get('SANDBOX_PAYMENT_TIMEOUT_MS', 120000));
+  }
+
+  private async save(reference: string, transaction: SandboxTransaction) {
+    await this.redis.set(
+      `sandbox:payment:${reference}`,
+      JSON.stringify(transaction),
+      SANDBOX_TTL_SECONDS,
+    );
+  }
+
+  private async load(reference: string): Promise<SandboxTransaction | null> {
+    const raw = await this.redis.get(`sandbox:payment:${reference}`);
+    return raw ? (JSON.parse(raw) as SandboxTransaction) : null;
+  }
+}
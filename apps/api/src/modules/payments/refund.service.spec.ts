@@ -0,0 +1,540 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              REFUND SERVICE TESTS — Partial Refund Ledger                                         ║
+ * ║  Tests: Line validation, refundable balance, restock, order status, who may refund                ║
+ * ║  Focus: Never refund more than captured, never refund an item twice                               ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { OrderStatus, Prisma, RefundStatus } from '@prisma/client';
+import { RefundService } from './refund.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { NotificationService } from '../notifications/notification.service';
+import { OrderLifecycleService } from '../orders/order-lifecycle.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { InvoiceService } from '../invoices/invoice.service';
+
+describe('RefundService', () => {
+  let service: RefundService;
+  let tx: ReturnType<typeof createTx>;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let lifecycle: { canTransition: jest.Mock; transition: jest.Mock };
+  let providerRefund: jest.Mock;
+  let sendEmail: jest.Mock;
+  let redisClient: { set: jest.Mock; eval: jest.Mock };
+
+  const buildPayment = (refundedAmount = 0, refundedQuantity = 0) => ({
+    id: 'pay-1',
+    orderId: 'order-1',
+    amount: new Prisma.Decimal(32000),
+    refundedAmount: new Prisma.Decimal(refundedAmount),
+    currency: 'XOF',
+    status: 'completed',
+    provider: 'sandbox',
+    externalReference: 'SBX-1',
+    order: {
+      id: 'order-1',
+      userId: 'user-1',
+      user: { email: 'ama@example.com' },
+      status: OrderStatus.PAID,
+      shipments: [
+        {
+          id: 'ship-b',
+          vendorId: 'vendor-b',
+          status: 'CREATED',
+          shippingFee: new Prisma.Decimal(2000),
+          shippingFeeRefund: null as { status: RefundStatus } | null,
+        },
+      ],
+      items: [
+        {
+          id: 'item-a',
+          partId: 'part-a',
+          vendorId: 'vendor-a',
+          quantity: 2,
+          unitPrice: new Prisma.Decimal(10000),
+          discount: new Prisma.Decimal(0),
+          refundedQuantity,
+        },
+        {
+          id: 'item-b',
+          partId: 'part-b',
+          vendorId: 'vendor-b',
+          quantity: 1,
+          unitPrice: new Prisma.Decimal(10000),
+          discount: new Prisma.Decimal(0),
+          refundedQuantity: 0,
+        },
+      ],
+    },
+  });
+
+  const createTx = () => ({
+    payment: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      update: jest.fn(),
+      findUniqueOrThrow: jest.fn().mockResolvedValue({
+        amount: new Prisma.Decimal(32000),
+        refundedAmount: new Prisma.Decimal(10000),
+      }),
+    },
+    refund: {
+      create: jest.fn().mockResolvedValue({ id: 'refund-1' }),
+      update: jest.fn((args: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: 'refund-1', ...args.data }),
+      ),
+    },
+    refundItem: { updateMany: jest.fn() },
+    orderItem: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+    part: { update: jest.fn() },
+    shipment: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+    order: {
+      update: jest.fn((args: { data: { refundedTotal: { increment: Prisma.Decimal.Value } } }) =>
+        Promise.resolve({
+          status: OrderStatus.PAID as OrderStatus,
+          total: new Prisma.Decimal(32000),
+          refundedTotal: new Prisma.Decimal(args.data.refundedTotal.increment),
+        }),
+      ),
+    },
+  });
+
+  const createPrismaMock = () => ({
+    payment: { findUnique: jest.fn(), update: jest.fn() },
+    orderItem: { update: jest.fn() },
+    user: { findUnique: jest.fn() },
+    refund: { update: jest.fn(), findUniqueOrThrow: jest.fn(), findMany: jest.fn() },
+    $transaction: jest.fn((arg: ((client: typeof tx) => unknown) | Promise<unknown>[]) =>
+      typeof arg === 'function' ? arg(tx) : Promise.all(arg),
+    ),
+  });
+
+  beforeEach(async () => {
+    tx = createTx();
+    mockPrisma = createPrismaMock();
+    lifecycle = { canTransition: jest.fn().mockReturnValue(true), transition: jest.fn() };
+    sendEmail = jest.fn().mockResolvedValue({ success: true });
+    providerRefund = jest.fn().mockResolvedValue({ refundReference: 'RF-1', success: true });
+    redisClient = { set: jest.fn().mockResolvedValue('OK'), eval: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundService,
+        { provide: PrismaService, useValue: mockPrisma },
+        {
+          provide: RedisService,
+          useValue: { del: jest.fn(), getClient: jest.fn(() => redisClient) },
+        },
+        {
+          provide: NotificationService,
+          useValue: { sendEmail },
+        },
+        { provide: OrderLifecycleService, useValue: lifecycle },
+        {
+          provide: PaymentProviderRegistry,
+          useValue: { get: jest.fn(() => ({ refund: providerRefund })) },
+        },
+        {
+          provide: InvoiceService,
+          useValue: { refundAttachments: jest.fn().mockResolvedValue([]) },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn((_key, fallback) => fallback) } },
+      ],
+    }).compile();
+
+    service = module.get<RefundService>(RefundService);
+  });
+
+  it('should refund one line, restock it and keep the order in its fulfilment status', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment());
+
+    const refund = await service.createRefund(
+      'pay-1',
+      { items: [{ orderItemId: 'item-a', quantity: 1 }], reason: 'Damaged' },
+      { type: 'ADMIN', id: 'admin-1' },
+    );
+
+    expect(refund.status).toBe(RefundStatus.COMPLETED);
+    expect(tx.orderItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 'item-a', refundedQuantity: { lte: 1 } },
+      data: { refundedQuantity: { increment: 1 } },
+    });
+    expect(providerRefund).toHaveBeenCalledWith(expect.objectContaining({ amount: 10000 }));
+    expect(tx.part.update).toHaveBeenCalledWith({
+      where: { id: 'part-a' },
+      data: { stock: { increment: 1 } },
+    });
+    expect(tx.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { refundedTotal: { increment: 10000 } },
+      select: { status: true, total: true, refundedTotal: true },
+    });
+    expect(lifecycle.transition).not.toHaveBeenCalled();
+    expect(tx.payment.update).not.toHaveBeenCalled();
+
+    // Email sent after the credit note is attached
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'ama@example.com', attachments: [] }),
+      'user-1',
+    );
+  });
+
+  it('should refund what the customer paid for a discounted line', async () => {
+    const payment = buildPayment();
+    payment.order.items[0].discount = new Prisma.Decimal(3000);
+    mockPrisma.payment.findUnique.mockResolvedValue(payment);
+
+    await service.createRefund(
+      'pay-1',
+      { items: [{ orderItemId: 'item-a', quantity: 1 }] },
+      { type: 'SYSTEM' },
+    );
+
+    expect(tx.refund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amount: 8500,
+        items: { create: [{ orderItemId: 'item-a', quantity: 1, amount: 8500, restock: true }] },
+      }),
+    });
+  });
+
+  it('should refund a vendor shipment with its shipping fee', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment());
+
+    await service.createRefund('pay-1', { shipmentId: 'ship-b' }, { type: 'SYSTEM' });
+
+    expect(tx.refund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amount: 12000,
+        items: { create: [{ orderItemId: 'item-b', quantity: 1, amount: 10000, restock: true }] },
+      }),
+    });
+    expect(tx.shipment.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: ['ship-b'] },
+        OR: [{ shippingFeeRefundId: null }, { shippingFeeRefund: { status: RefundStatus.FAILED } }],
+      },
+      data: { shippingFeeRefundId: 'refund-1' },
+    });
+  });
+
+  it('should keep the shipping fee once it was refunded', async () => {
+    const payment = buildPayment();
+    payment.order.shipments[0].shippingFeeRefund = { status: RefundStatus.COMPLETED };
+    mockPrisma.payment.findUnique.mockResolvedValue(payment);
+
+    await service.createRefund('pay-1', { shipmentId: 'ship-b' }, { type: 'SYSTEM' });
+
+    expect(tx.refund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ amount: 10000 }),
+    });
+    expect(tx.shipment.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should mark payment and order refunded when the balance reaches zero', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment(10000, 1));
+    tx.payment.findUniqueOrThrow.mockResolvedValueOnce({
+      amount: new Prisma.Decimal(32000),
+      refundedAmount: new Prisma.Decimal(32000),
+    });
+    tx.order.update.mockResolvedValueOnce({
+      status: OrderStatus.SHIPPED,
+      total: new Prisma.Decimal(32000),
+      refundedTotal: new Prisma.Decimal(32000),
+    });
+
+    await service.createRefund('pay-1', {}, { type: 'SYSTEM' });
+
+    expect(tx.payment.update).toHaveBeenCalledWith({
+      where: { id: 'pay-1' },
+      data: { status: 'refunded' },
+    });
+    expect(lifecycle.transition).toHaveBeenCalledWith(
+      'order-1',
+      OrderStatus.REFUNDED,
+      expect.anything(),
+      expect.any(String),
+      tx,
+    );
+  });
+
+  it('should mark the payment refunded when a concurrent refund reserved the rest', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment());
+    tx.payment.findUniqueOrThrow.mockResolvedValueOnce({
+      amount: new Prisma.Decimal(32000),
+      refundedAmount: new Prisma.Decimal(32000),
+    });
+
+    await service.createRefund(
+      'pay-1',
+      { items: [{ orderItemId: 'item-a', quantity: 1 }] },
+      { type: 'SYSTEM' },
+    );
+
+    expect(tx.payment.update).toHaveBeenCalledWith({
+      where: { id: 'pay-1' },
+      data: { status: 'refunded' },
+    });
+    expect(lifecycle.transition).not.toHaveBeenCalled();
+  });
+
+  it('should leave the order alone when refunding a capture that never paid it', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment());
+    tx.payment.findUniqueOrThrow.mockResolvedValueOnce({
+      amount: new Prisma.Decimal(32000),
+      refundedAmount: new Prisma.Decimal(32000),
+    });
+
+    await service.createRefund(
+      'pay-1',
+      { amount: 32000 },
+      { type: 'SYSTEM' },
+      { restock: false, unapplied: true },
+    );
+
+    expect(tx.payment.update).toHaveBeenCalledWith({
+      where: { id: 'pay-1' },
+      data: { status: 'refunded' },
+    });
+    expect(tx.order.update).not.toHaveBeenCalled();
+    expect(lifecycle.transition).not.toHaveBeenCalled();
+  });
+
+  it('should reject refunding more units than are left', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment(10000, 1));
+
+    await expect(
+      service.createRefund(
+        'pay-1',
+        { items: [{ orderItemId: 'item-a', quantity: 2 }] },
+        { type: 'SYSTEM' },
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject an amount above the refundable balance', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment(25000));
+
+    await expect(
+      service.createRefund('pay-1', { amount: 10000 }, { type: 'SYSTEM' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(tx.payment.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject a concurrent refund of the same units', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment());
+    tx.orderItem.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.createRefund(
+        'pay-1',
+        { items: [{ orderItemId: 'item-a', quantity: 2 }] },
+        { type: 'SYSTEM' },
+      ),
+    ).rejects.toThrow(ConflictException);
+    expect(providerRefund).not.toHaveBeenCalled();
+    expect(tx.part.update).not.toHaveBeenCalled();
+  });
+
+  it('should release the reserved amount and units when the provider refund fails', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment());
+    providerRefund.mockResolvedValue({ refundReference: 'RF-1', success: false });
+
+    await expect(
+      service.createRefund(
+        'pay-1',
+        { items: [{ orderItemId: 'item-a', quantity: 1 }], amount: 5000 },
+        { type: 'SYSTEM' },
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockPrisma.refund.update).toHaveBeenCalledWith({
+      where: { id: 'refund-1', status: RefundStatus.PENDING },
+      data: expect.objectContaining({ status: RefundStatus.FAILED }),
+    });
+    expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+      where: { id: 'pay-1' },
+      data: { refundedAmount: { decrement: 5000 }, status: 'completed' },
+    });
+    expect(mockPrisma.orderItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-a' },
+      data: { refundedQuantity: { decrement: 1 } },
+    });
+  });
+
+  it('should keep the refund pending with its provider reference when completion fails', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment(10000, 1));
+    tx.order.update.mockResolvedValueOnce({
+      status: OrderStatus.SHIPPED,
+      total: new Prisma.Decimal(32000),
+      refundedTotal: new Prisma.Decimal(32000),
+    });
+    lifecycle.transition.mockRejectedValue(
+      new ConflictException('Order status changed concurrently, please retry'),
+    );
+    mockPrisma.refund.findUniqueOrThrow.mockResolvedValue({
+      id: 'refund-1',
+      status: RefundStatus.PENDING,
+    });
+
+    const refund = await service.createRefund('pay-1', {}, { type: 'SYSTEM' });
+
+    expect(refund.status).toBe(RefundStatus.PENDING);
+    expect(mockPrisma.refund.update).toHaveBeenCalledWith({
+      where: { id: 'refund-1' },
+      data: { providerReference: 'RF-1', providerRefundedAt: expect.any(Date) },
+    });
+    // Money left: the reserved amount and units stay claimed for the sweep
+    expect(mockPrisma.payment.update).not.toHaveBeenCalled();
+    expect(mockPrisma.orderItem.update).not.toHaveBeenCalled();
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should complete refunds left pending by the reconciliation sweep', async () => {
+    mockPrisma.refund.findMany.mockResolvedValueOnce([
+      {
+        id: 'refund-1',
+        paymentId: 'pay-1',
+        orderId: 'order-1',
+        amount: new Prisma.Decimal(10000),
+        reason: 'Damaged',
+        actorType: 'ADMIN',
+        actorId: 'admin-1',
+        providerReference: 'RF-1',
+        unapplied: false,
+        items: [{ orderItemId: 'item-a', quantity: 1, orderItem: { partId: 'part-a' } }],
+        payment: { currency: 'XOF' },
+        order: { id: 'order-1', userId: 'user-1', user: { email: 'ama@example.com' } },
+      },
+    ]);
+    mockPrisma.refund.findMany.mockResolvedValueOnce([]);
+
+    const now = new Date('2026-01-13T10:00:00Z');
+    await expect(service.reconcile(now)).resolves.toEqual({
+      completed: 1,
+      failed: 0,
+      released: 0,
+    });
+
+    expect(mockPrisma.refund.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: RefundStatus.PENDING,
+          providerRefundedAt: { lt: new Date('2026-01-13T09:55:00Z') },
+        },
+      }),
+    );
+    expect(tx.refund.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'refund-1', status: RefundStatus.PENDING },
+        data: { status: RefundStatus.COMPLETED, providerReference: 'RF-1' },
+      }),
+    );
+    expect(tx.part.update).toHaveBeenCalledWith({
+      where: { id: 'part-a' },
+      data: { stock: { increment: 1 } },
+    });
+    expect(tx.order.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { refundedTotal: { increment: new Prisma.Decimal(10000) } },
+      }),
+    );
+    expect(tx.payment.update).not.toHaveBeenCalled();
+    expect(redisClient.eval).toHaveBeenCalled();
+  });
+
+  it('should release refunds left pending with no provider outcome recorded', async () => {
+    mockPrisma.refund.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([
+      {
+        id: 'refund-1',
+        paymentId: 'pay-1',
+        amount: new Prisma.Decimal(10000),
+        items: [{ orderItemId: 'item-a', quantity: 1 }],
+      },
+    ]);
+
+    const now = new Date('2026-01-13T10:00:00Z');
+    await expect(service.reconcile(now)).resolves.toEqual({
+      completed: 0,
+      failed: 0,
+      released: 1,
+    });
+
+    expect(mockPrisma.refund.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: {
+          status: RefundStatus.PENDING,
+          providerRefundedAt: null,
+          createdAt: { lt: new Date('2026-01-13T09:55:00Z') },
+        },
+      }),
+    );
+    expect(mockPrisma.refund.update).toHaveBeenCalledWith({
+      where: { id: 'refund-1', status: RefundStatus.PENDING },
+      data: { status: RefundStatus.FAILED, errorMessage: 'No provider outcome recorded' },
+    });
+    expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+      where: { id: 'pay-1' },
+      data: { refundedAmount: { decrement: new Prisma.Decimal(10000) }, status: 'completed' },
+    });
+    expect(mockPrisma.orderItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-a' },
+      data: { refundedQuantity: { decrement: 1 } },
+    });
+    expect(tx.refund.update).not.toHaveBeenCalled();
+  });
+
+  it('should not restock lines the customer already received', async () => {
+    const payment = buildPayment();
+    payment.order.shipments[0].status = 'DELIVERED';
+    mockPrisma.payment.findUnique.mockResolvedValue(payment);
+
+    await service.createRefund('pay-1', { shipmentId: 'ship-b' }, { type: 'ADMIN' });
+
+    expect(tx.part.update).not.toHaveBeenCalled();
+    expect(tx.refundItem.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should limit a merchant to the lines of its own vendors', async () => {
+    mockPrisma.payment.findUnique.mockResolvedValue(buildPayment());
+    const merchant = { vendorIds: ['vendor-b'] };
+
+    await expect(
+      service.createRefund(
+        'pay-1',
+        { items: [{ orderItemId: 'item-a', quantity: 1 }] },
+        { type: 'MERCHANT', id: 'merchant-1' },
+        merchant,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.createRefund('pay-1', { amount: 1000 }, { type: 'MERCHANT' }, merchant),
+    ).rejects.toThrow(BadRequestException);
+
+    await service.createRefund('pay-1', { shipmentId: 'ship-b' }, { type: 'MERCHANT' }, merchant);
+    expect(tx.refund.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let only admins and merchants refund', async () => {
+    mockPrisma.user.findUnique.mockResolvedValueOnce({ role: 'ADMIN', vendors: [] });
+    await expect(service.refundScope('admin-1')).resolves.toEqual({
+      actor: { type: 'ADMIN', id: 'admin-1' },
+      options: {},
+    });
+
+    mockPrisma.user.findUnique.mockResolvedValueOnce({
+      role: 'MERCHANT',
+      vendors: [{ id: 'vendor-b' }],
+    });
+    await expect(service.refundScope('merchant-1')).resolves.toMatchObject({
+      options: { vendorIds: ['vendor-b'] },
+    });
+
+    mockPrisma.user.findUnique.mockResolvedValueOnce({ role: 'CUSTOMER', vendors: [] });
+    await expect(service.refundScope('user-1')).rejects.toThrow(ForbiddenException);
+  });
+});
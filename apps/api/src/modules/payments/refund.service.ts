@@ -0,0 +1,780 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        REFUND SERVICE — Partial & Full Refunds                                     ║
+ * ║  Implements: Refund ledger per payment, line items, restock, order refunded total                ║
+ * ║  Uses: PaymentProviderRegistry (provider refund), OrderLifecycleService (order status)            ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] WHY A LEDGER?
+ *     [1a] Multi-vendor orders: refund one OrderItem or one vendor's shipment, not the whole payment
+ *     [1b] Each Refund has its own amount, reason, status and line items (RefundItem)
+ *     [1c] Payment.refundedAmount = sum of non-failed refunds → never exceeds Payment.amount
+ *     [1d] A line is refunded at what the customer paid for it: unit price minus its coupon share
+ *     [1e] Restock decided here, per line: only when the goods never left the vendor (shipment
+ *          CREATED / READY / CANCELLED, or RETURNED to it). Returns pass their own decision
+ *          (received, not defective)
+ *     [1f] Who may refund (refundScope): ADMIN any line; MERCHANT only the lines of its vendors,
+ *          no money-only refund. Customers get their money back through the returns flow
+ *     [1g] Shipping fee: a shipment's fee goes back with the last of its items (Order.total and
+ *          Payment.amount include it), once (Shipment.shippingFeeRefundId). Not with a
+ *          money-only refund nor when the caller sets the amount
+ *
+ * [2] FLOW
+ *     [2a] Reserve: conditional increments of Payment.refundedAmount and of each line's
+ *          OrderItem.refundedQuantity + Refund (PENDING) → two concurrent refunds cannot exceed
+ *          the captured amount nor refund (and restock) the same units twice
+ *     [2b] Provider refund (outside the DB transaction: network call)
+ *     [2c] Success → provider reference + providerRefundedAt saved on their own, then Refund
+ *          COMPLETED (writing both again), restock items, Order.refundedTotal += amount (one
+ *          transaction)
+ *     [2d] Failure → Refund FAILED, reserved amount and quantities released
+ *     [2e] Completion failed after the money left (order status changed concurrently → 409,
+ *          database down) → never an error to the caller: the Refund stays PENDING with its
+ *          providerRefundedAt and the reconciliation sweep completes it later
+ *     [2f] Reconciliation sweep: setInterval in-process, one instance at a time (Redis NX lock
+ *          released only by the run holding it). Completes the PENDING refunds whose provider
+ *          refund succeeded more than one period ago, from what the Refund row recorded (restock
+ *          per line, unapplied, actor); still failing → logged at every run, retried on the next.
+ *          PENDING for more than one period without providerRefundedAt (release after a provider
+ *          failure lost, or nothing recorded after its success) → released as FAILED, logged as
+ *          an error to check against the provider
+ *     [2g] Completion claims the PENDING row: a refund is completed exactly once, whoever runs it
+ *     [2h] REFUND_RECONCILE_INTERVAL_MS → sweep period (default 300000, 0 = disabled)
+ *
+ * [3] PAYMENT / ORDER STATUS
+ *     [3a] Payment stays 'completed' while partially refunded
+ *     [3b] Becomes 'refunded' once refundedAmount reaches the captured amount
+ *     [3c] Order status keeps following its shipments while partially refunded (refundedTotal
+ *          tracks the money), and becomes REFUNDED once refundedTotal reaches Order.total
+ *     [3d] Unapplied payment (late or duplicate capture, PaymentService [5e]): its money never
+ *          paid the order → refundedTotal and order status untouched
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { OrderStatus, Prisma, RefundStatus, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RELEASE_LOCK_SCRIPT, RedisService } from '../redis/redis.service';
+import { NotificationService } from '../notifications/notification.service';
+import { EmailTemplate } from '../notifications/dto/send-email.dto';
+import { InvoiceService } from '../invoices/invoice.service';
+import { OrderLifecycleService, OrderActor } from '../orders/order-lifecycle.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { PaymentStatus } from './dto/create-payment.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+
+const DEFAULT_REASON = 'Refund requested';
+const RECONCILE_LOCK_KEY = 'refunds:reconcile:lock';
+const RECONCILE_BATCH_SIZE = 50;
+
+const REFUND_INCLUDE = {
+  items: true,
+  shipments: { select: { id: true, shippingFee: true } },
+} satisfies Prisma.RefundInclude;
+
+// [1e] Shipment statuses where the goods are (back) at the vendor
+const AT_VENDOR_SHIPMENT_STATUSES = ['CREATED', 'READY', 'CANCELLED', 'RETURNED'];
+
+interface RefundLine {
+  orderItemId: string;
+  partId: string;
+  ordered: number; // OrderItem.quantity
+  quantity: number;
+  amount: number;
+  restock: boolean;
+}
+
+interface FeeLine {
+  shipmentId: string;
+  amount: number;
+}
+
+// What completing a refund needs ([4.6]), rebuilt from the Refund row by the sweep
+interface RefundCompletion {
+  refundId: string;
+  paymentId: string;
+  orderId: string;
+  amount: Prisma.Decimal.Value;
+  reason: string;
+  actor: OrderActor;
+  providerReference?: string;
+  providerRefundedAt?: Date; // Set by the request; the sweep's rows already have it
+  restocked: Array<{ orderItemId: string; partId: string; quantity: number }>;
+  unapplied: boolean;
+}
+
+export interface RefundOptions {
+  restock?: boolean; // Overrides [1e] for every line (returns flow)
+  vendorIds?: string[]; // Merchant scope: only these vendors' lines
+  unapplied?: boolean; // [3d] Late / duplicate capture: the order is left as it is
+}
+
+type OrderWithRefundState = Prisma.OrderGetPayload<{
+  include: {
+    items: true;
+    shipments: { include: { shippingFeeRefund: { select: { status: true } } } };
+  };
+}>;
+
+@Injectable()
+export class RefundService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RefundService.name);
+  private readonly reconcileIntervalMs: number;
+  private reconcileTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+    private readonly notificationService: NotificationService,
+    private readonly orderLifecycle: OrderLifecycleService,
+    private readonly providerRegistry: PaymentProviderRegistry,
+    private readonly invoiceService: InvoiceService,
+    private readonly configService: ConfigService,
+  ) {
+    this.reconcileIntervalMs = parseInt(
+      this.configService.get<string>('REFUND_RECONCILE_INTERVAL_MS', '300000'),
+      10,
+    );
+  }
+
+  /**
+   * [4] CREATE REFUND
+   *     [4a] Input: paymentId, CreateRefundDto, actor
+   *     [4b] Output: Refund (COMPLETED) with items and the shipments whose fee it returned
+   *     [4c] Errors:
+   *         - Payment not completed → 400
+   *         - Item not in order / quantity above what is left to refund → 400
+   *         - Amount above refundable balance → 400
+   *         - Concurrent refund took the balance → 409
+   *         - Provider refund failed → 400 (Refund kept as FAILED)
+   *     [4d] Provider refunded but completion failed → Refund returned PENDING ([2e])
+   */
+  async createRefund(
+    paymentId: string,
+    dto: CreateRefundDto,
+    actor: OrderActor,
+    options: RefundOptions = {},
+  ) {
+    // [4.1] LOAD PAYMENT + ORDER REFUND STATE
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        order: {
+          include: {
+            items: true,
+            shipments: { include: { shippingFeeRefund: { select: { status: true } } } },
+            user: { select: { email: true } },
+          },
+        },
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      throw new BadRequestException(`Cannot refund payment in status: ${payment.status}`);
+    }
+
+    // [4.2] BUILD LINES + AMOUNT
+    const lines = this.buildLines(payment.order, dto, options);
+    const itemsTotal = this.round(lines.reduce((sum, line) => sum + line.amount, 0));
+    if (lines.length === 0 && dto.amount === undefined) {
+      throw new BadRequestException('Nothing left to refund on this payment');
+    }
+    if (lines.length > 0 && dto.amount !== undefined && dto.amount > itemsTotal) {
+      throw new BadRequestException('Refund amount exceeds the value of the refunded items');
+    }
+    const fees = dto.amount === undefined ? this.buildFeeLines(payment.order, lines) : [];
+    const feesTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+    const amount = this.round(dto.amount ?? itemsTotal + feesTotal);
+
+    const captured = new Prisma.Decimal(payment.amount);
+    const remaining = captured.minus(payment.refundedAmount);
+    if (remaining.lessThan(amount)) {
+      throw new BadRequestException(
+        `Refund exceeds refundable amount (${remaining.toFixed(2)} ${payment.currency})`,
+      );
+    }
+
+    const reason = dto.reason || DEFAULT_REASON;
+    const restocked = lines.filter((line) => line.restock);
+
+    // [4.3] RESERVE AMOUNT + CREATE PENDING REFUND
+    const refund = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.payment.updateMany({
+        where: {
+          id: paymentId,
+          status: PaymentStatus.COMPLETED,
+          refundedAmount: { lte: captured.minus(amount) },
+        },
+        data: { refundedAmount: { increment: amount } },
+      });
+      if (count === 0) {
+        throw new ConflictException('Payment was refunded concurrently, please retry');
+      }
+
+      // [2a] Claim the units: a concurrent refund of the same line rolls this one back
+      for (const line of lines) {
+        const claimed = await tx.orderItem.updateMany({
+          where: {
+            id: line.orderItemId,
+            refundedQuantity: { lte: line.ordered - line.quantity },
+          },
+          data: { refundedQuantity: { increment: line.quantity } },
+        });
+        if (claimed.count === 0) {
+          throw new ConflictException('Item was refunded concurrently, please retry');
+        }
+      }
+
+      const created = await tx.refund.create({
+        data: {
+          paymentId,
+          orderId: payment.orderId,
+          amount,
+          reason,
+          actorType: actor.type,
+          actorId: actor.id,
+          unapplied: options.unapplied ?? false,
+          items: {
+            create: lines.map((line) => ({
+              orderItemId: line.orderItemId,
+              quantity: line.quantity,
+              amount: line.amount,
+              restock: line.restock,
+            })),
+          },
+        },
+      });
+
+      // [1g] Claim the fees: a concurrent refund that took one first rolls this one back
+      if (fees.length > 0) {
+        const claimed = await tx.shipment.updateMany({
+          where: {
+            id: { in: fees.map((fee) => fee.shipmentId) },
+            OR: [
+              { shippingFeeRefundId: null },
+              { shippingFeeRefund: { status: RefundStatus.FAILED } },
+            ],
+          },
+          data: { shippingFeeRefundId: created.id },
+        });
+        if (claimed.count !== fees.length) {
+          throw new ConflictException('Shipping fee was refunded concurrently, please retry');
+        }
+      }
+
+      return created;
+    });
+
+    // [4.4] PROVIDER REFUND (offline payments are refunded by hand)
+    let providerReference: string | undefined;
+    try {
+      if (payment.provider && payment.externalReference) {
+        const response = await this.providerRegistry.get(payment.provider).refund({
+          paymentId,
+          externalReference: payment.externalReference,
+          amount,
+          currency: payment.currency,
+          reason,
+        });
+        if (!response.success) {
+          throw new Error(response.errorMessage || 'Provider rejected refund');
+        }
+        providerReference = response.refundReference;
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Refund failed';
+      this.logger.error(`Refund ${refund.id} failed: ${message}`);
+
+      // [4.4a] Release the reserved amount and quantities (lost → the sweep releases it, [2f])
+      await this.releaseRefund(refund.id, paymentId, amount, lines, message);
+      throw new BadRequestException('Refund failed. Please try again.');
+    }
+
+    // [4.5] RECORD THE PROVIDER OUTCOME ON ITS OWN: the money has left, whatever happens next
+    const providerRefundedAt = new Date();
+    let recorded = true;
+    try {
+      await this.prisma.refund.update({
+        where: { id: refund.id },
+        data: { providerReference, providerRefundedAt },
+      });
+    } catch (error: unknown) {
+      recorded = false;
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Refund ${refund.id} refunded by the provider (${providerReference ?? 'offline'}) but not recorded: ${message}`,
+      );
+    }
+
+    // [4.6] COMPLETE: restock, payment status, order refunded total + status
+    let completed;
+    try {
+      completed = await this.completeRefund({
+        refundId: refund.id,
+        paymentId,
+        orderId: payment.orderId,
+        amount,
+        reason,
+        actor,
+        providerReference,
+        providerRefundedAt,
+        restocked,
+        unapplied: options.unapplied ?? false,
+      });
+    } catch (error: unknown) {
+      // [2e] Never an error to the caller once the money has left
+      const message = error instanceof Error ? error.message : String(error);
+      const outcome = recorded
+        ? 'left to the reconciliation sweep'
+        : 'nor recorded: the reconciliation sweep releases it as failed, record it by hand';
+      this.logger.error(
+        `Refund ${refund.id} refunded by the provider (${providerReference ?? 'offline'}) but not completed, ${outcome}: ${message}`,
+      );
+      return this.prisma.refund.findUniqueOrThrow({
+        where: { id: refund.id },
+        include: REFUND_INCLUDE,
+      });
+    }
+
+    await this.afterCompletion(refund.id, payment.order, amount, payment.currency, paymentId);
+
+    return completed;
+  }
+
+  /**
+   * [5] LIST REFUNDS FOR A PAYMENT (newest first, with the shipments whose fee was refunded)
+   */
+  async listRefunds(paymentId: string) {
+    return this.prisma.refund.findMany({
+      where: { paymentId },
+      include: REFUND_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * [5a] REFUND SCOPE OF A USER ([1f])
+   *      ADMIN → everything; MERCHANT → its vendors' lines; anyone else → 403
+   */
+  async refundScope(userId: string): Promise<{ actor: OrderActor; options: RefundOptions }> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, vendors: { select: { id: true } } },
+    });
+
+    if (user?.role === UserRole.ADMIN) {
+      return { actor: { type: 'ADMIN', id: userId }, options: {} };
+    }
+    if (user?.role === UserRole.MERCHANT && user.vendors.length > 0) {
+      return {
+        actor: { type: 'MERCHANT', id: userId },
+        options: { vendorIds: user.vendors.map((vendor) => vendor.id) },
+      };
+    }
+    throw new ForbiddenException('Only an admin or the vendor can refund; customers file a return');
+  }
+
+  /**
+   * [5b] START / STOP RECONCILIATION SWEEP ([2f])
+   *      unref(): the timer never keeps the process alive (tests, graceful shutdown)
+   */
+  onModuleInit(): void {
+    if (this.reconcileIntervalMs <= 0) {
+      this.logger.warn('Refund reconciliation sweep disabled (REFUND_RECONCILE_INTERVAL_MS=0)');
+      return;
+    }
+
+    this.reconcileTimer = setInterval(() => {
+      this.reconcile().catch((error) => {
+        this.logger.error(`Refund reconciliation failed: ${error.message}`);
+      });
+    }, this.reconcileIntervalMs);
+    this.reconcileTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+    }
+  }
+
+  /**
+   * [5c] RECONCILE ([2f])
+   *      One instance at a time (Redis NX lock, expires on its own if the holder dies). Up to
+   *      RECONCILE_BATCH_SIZE refunds per run, refunded by the provider more than one period ago
+   *      (a request completing its own refund right now is left alone), then up to as many
+   *      created more than one period ago with no provider outcome recorded, released as FAILED
+   */
+  async reconcile(
+    now = new Date(),
+  ): Promise<{ completed: number; failed: number; released: number }> {
+    const lockTtlSeconds = Math.max(1, Math.ceil(this.reconcileIntervalMs / 1000));
+    const token = `${process.pid}:${randomUUID()}`;
+    const locked = await this.redis
+      .getClient()
+      .set(RECONCILE_LOCK_KEY, token, 'EX', lockTtlSeconds, 'NX');
+    if (!locked) {
+      return { completed: 0, failed: 0, released: 0 };
+    }
+
+    try {
+      const refundedBefore = new Date(now.getTime() - this.reconcileIntervalMs);
+      const pending = await this.prisma.refund.findMany({
+        where: { status: RefundStatus.PENDING, providerRefundedAt: { lt: refundedBefore } },
+        include: {
+          items: { where: { restock: true }, include: { orderItem: { select: { partId: true } } } },
+          payment: { select: { currency: true } },
+          order: { select: { id: true, userId: true, user: { select: { email: true } } } },
+        },
+        orderBy: { providerRefundedAt: 'asc' },
+        take: RECONCILE_BATCH_SIZE,
+      });
+
+      let completed = 0;
+      for (const refund of pending) {
+        try {
+          await this.completeRefund({
+            refundId: refund.id,
+            paymentId: refund.paymentId,
+            orderId: refund.orderId,
+            amount: refund.amount,
+            reason: refund.reason,
+            actor: {
+              type: refund.actorType as OrderActor['type'],
+              id: refund.actorId ?? undefined,
+            },
+            providerReference: refund.providerReference ?? undefined,
+            restocked: refund.items.map((item) => ({
+              orderItemId: item.orderItemId,
+              partId: item.orderItem.partId,
+              quantity: item.quantity,
+            })),
+            unapplied: refund.unapplied,
+          });
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger.error(
+            `Refund ${refund.id} refunded by the provider (${refund.providerReference ?? 'offline'}) still not completed: ${message}`,
+          );
+          continue;
+        }
+        completed++;
+        await this.afterCompletion(
+          refund.id,
+          refund.order,
+          refund.amount,
+          refund.payment.currency,
+          refund.paymentId,
+        );
+      }
+
+      // [2f] No provider outcome recorded: the money cannot be told apart from a failed call
+      const unrecorded = await this.prisma.refund.findMany({
+        where: {
+          status: RefundStatus.PENDING,
+          providerRefundedAt: null,
+          createdAt: { lt: refundedBefore },
+        },
+        include: { items: { select: { orderItemId: true, quantity: true } } },
+        orderBy: { createdAt: 'asc' },
+        take: RECONCILE_BATCH_SIZE,
+      });
+
+      let released = 0;
+      for (const refund of unrecorded) {
+        try {
+          await this.releaseRefund(
+            refund.id,
+            refund.paymentId,
+            refund.amount,
+            refund.items,
+            'No provider outcome recorded',
+          );
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger.error(`Refund ${refund.id} left pending not released: ${message}`);
+          continue;
+        }
+        released++;
+        this.logger.error(
+          `Refund ${refund.id} released as failed with no provider outcome recorded: check payment ${refund.paymentId} with its provider`,
+        );
+      }
+
+      return { completed, failed: pending.length - completed, released };
+    } finally {
+      await this.redis.getClient().eval(RELEASE_LOCK_SCRIPT, 1, RECONCILE_LOCK_KEY, token);
+    }
+  }
+
+  /**
+   * [6] BUILD REFUND LINES (PRIVATE HELPER)
+   *     Quantity still refundable = ordered − OrderItem.refundedQuantity (non-failed refunds)
+   *     Amount = line paid (unitPrice × quantity − discount) × refunded quantity / quantity ([1d])
+   *     Restock per line ([1e]) unless options.restock decides for all of them
+   */
+  private buildLines(
+    order: OrderWithRefundState,
+    dto: CreateRefundDto,
+    options: RefundOptions,
+  ): RefundLine[] {
+    const { vendorIds } = options;
+    const inScope = (vendorId: string) => !vendorIds || vendorIds.includes(vendorId);
+    if (vendorIds && !dto.items?.length && !dto.shipmentId) {
+      throw new BadRequestException('Vendors refund items or a shipment of their own');
+    }
+
+    const atVendor = (vendorId: string) => {
+      const shipment = order.shipments.find((s) => s.vendorId === vendorId);
+      return !shipment || AT_VENDOR_SHIPMENT_STATUSES.includes(shipment.status);
+    };
+
+    const refundable = new Map(
+      order.items.map((item) => [item.id, { item, left: this.refundableQuantity(item) }]),
+    );
+
+    const toLine = (orderItemId: string, quantity: number): RefundLine => {
+      const { item } = refundable.get(orderItemId)!;
+      return {
+        orderItemId,
+        partId: item.partId,
+        ordered: item.quantity,
+        quantity,
+        amount: this.round(
+          ((Number(item.unitPrice) * item.quantity - Number(item.discount)) * quantity) /
+            item.quantity,
+        ),
+        restock: options.restock ?? atVendor(item.vendorId),
+      };
+    };
+
+    // [6.1] EXPLICIT LINES
+    if (dto.items?.length) {
+      return dto.items.map(({ orderItemId, quantity }) => {
+        const entry = refundable.get(orderItemId);
+        if (!entry || !inScope(entry.item.vendorId)) {
+          throw new BadRequestException(`Item ${orderItemId} is not part of this order`);
+        }
+        if (quantity > entry.left) {
+          throw new BadRequestException(
+            `Only ${entry.left} unit(s) of item ${orderItemId} can still be refunded`,
+          );
+        }
+        return toLine(orderItemId, quantity);
+      });
+    }
+
+    const remainingLines = (vendorId?: string) =>
+      [...refundable.values()]
+        .filter(({ item, left }) => left > 0 && (!vendorId || item.vendorId === vendorId))
+        .map(({ item, left }) => toLine(item.id, left));
+
+    // [6.2] ONE VENDOR SHIPMENT
+    if (dto.shipmentId) {
+      const shipment = order.shipments.find((s) => s.id === dto.shipmentId);
+      if (!shipment || !inScope(shipment.vendorId)) {
+        throw new BadRequestException('Shipment is not part of this order');
+      }
+      return remainingLines(shipment.vendorId);
+    }
+
+    // [6.3] MONEY-ONLY (amount without items) OR EVERYTHING LEFT
+    return dto.amount !== undefined ? [] : remainingLines();
+  }
+
+  /**
+   * [7] SHIPPING FEES REFUNDED WITH THESE LINES (PRIVATE HELPER, [1g])
+   *     Shipments whose fee is still kept and whose items are all refunded once these lines are
+   */
+  private buildFeeLines(order: OrderWithRefundState, lines: RefundLine[]): FeeLine[] {
+    const refunding = new Map(lines.map((line) => [line.orderItemId, line.quantity]));
+
+    return order.shipments
+      .filter((shipment) => {
+        const feeKept =
+          !shipment.shippingFeeRefund || shipment.shippingFeeRefund.status === RefundStatus.FAILED;
+        if (Number(shipment.shippingFee) <= 0 || !feeKept) {
+          return false;
+        }
+        const items = order.items.filter((item) => item.vendorId === shipment.vendorId);
+        return (
+          items.some((item) => refunding.has(item.id)) &&
+          items.every((item) => this.refundableQuantity(item) === (refunding.get(item.id) ?? 0))
+        );
+      })
+      .map((shipment) => ({ shipmentId: shipment.id, amount: Number(shipment.shippingFee) }));
+  }
+
+  /**
+   * [8] COMPLETE REFUND (PRIVATE HELPER, one transaction)
+   *     Claims the PENDING row first ([2g]): a second completion rolls back on P2025
+   *     Payment 'refunded' decided from its row, here: concurrent refunds reserved their amounts
+   *     before either completes, so the last one to complete sees the full amount ([3b])
+   */
+  private async completeRefund(completion: RefundCompletion) {
+    const { refundId, paymentId, orderId, amount, reason, actor, restocked } = completion;
+
+    return this.prisma.$transaction(async (tx) => {
+      const completed = await tx.refund.update({
+        where: { id: refundId, status: RefundStatus.PENDING },
+        data: {
+          status: RefundStatus.COMPLETED,
+          providerReference: completion.providerReference,
+          providerRefundedAt: completion.providerRefundedAt,
+        },
+        include: REFUND_INCLUDE,
+      });
+
+      if (restocked.length > 0) {
+        for (const line of restocked) {
+          await tx.part.update({
+            where: { id: line.partId },
+            data: { stock: { increment: line.quantity } },
+          });
+        }
+        await tx.refundItem.updateMany({
+          where: { refundId, orderItemId: { in: restocked.map((l) => l.orderItemId) } },
+          data: { restocked: true },
+        });
+      }
+
+      const payment = await tx.payment.findUniqueOrThrow({
+        where: { id: paymentId },
+        select: { amount: true, refundedAmount: true },
+      });
+      if (payment.refundedAmount.greaterThanOrEqualTo(payment.amount)) {
+        await tx.payment.update({
+          where: { id: paymentId },
+          data: { status: PaymentStatus.REFUNDED },
+        });
+      }
+
+      // [3c] Refunded total on the order; its status only changes once everything is returned
+      //      [3d] Unapplied payment: the order is left as it is
+      if (!completion.unapplied) {
+        const order = await tx.order.update({
+          where: { id: orderId },
+          data: { refundedTotal: { increment: amount } },
+          select: { status: true, total: true, refundedTotal: true },
+        });
+        if (
+          order.refundedTotal.greaterThanOrEqualTo(order.total) &&
+          this.orderLifecycle.canTransition(order.status, OrderStatus.REFUNDED)
+        ) {
+          await this.orderLifecycle.transition(
+            orderId,
+            OrderStatus.REFUNDED,
+            actor,
+            `Refund ${refundId}: ${reason}`,
+            tx,
+          );
+        }
+      }
+
+      return completed;
+    });
+  }
+
+  /**
+   * [8a] RELEASE A FAILED REFUND (PRIVATE HELPER, one transaction)
+   *      Claims the PENDING row like [8]: a refund completed meanwhile is left alone (P2025).
+   *      Payment back to 'completed': a concurrent completion may have counted this amount ([3b])
+   */
+  private async releaseRefund(
+    refundId: string,
+    paymentId: string,
+    amount: Prisma.Decimal.Value,
+    lines: Array<{ orderItemId: string; quantity: number }>,
+    errorMessage: string,
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.refund.update({
+        where: { id: refundId, status: RefundStatus.PENDING },
+        data: { status: RefundStatus.FAILED, errorMessage },
+      }),
+      this.prisma.payment.update({
+        where: { id: paymentId },
+        data: { refundedAmount: { decrement: amount }, status: PaymentStatus.COMPLETED },
+      }),
+      ...lines.map((line) =>
+        this.prisma.orderItem.update({
+          where: { id: line.orderItemId },
+          data: { refundedQuantity: { decrement: line.quantity } },
+        }),
+      ),
+    ]);
+  }
+
+  /**
+   * [9] AFTER COMPLETION (PRIVATE HELPER): payment cache, log, refund notification
+   *     Email async, to customers with an email (guests have none). Credit note attached
+   *     (InvoiceService issues its number); sent without it on failure
+   */
+  private async afterCompletion(
+    refundId: string,
+    order: { id: string; userId: string; user: { email: string | null } },
+    amount: Prisma.Decimal.Value,
+    currency: string,
+    paymentId: string,
+  ): Promise<void> {
+    await this.redis.del(`payment:${paymentId}`);
+    this.logger.log(`Refund ${refundId}: ${amount} ${currency} on payment ${paymentId}`);
+
+    const email = order.user.email;
+    if (!email) {
+      return;
+    }
+    this.invoiceService
+      .refundAttachments(refundId)
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Credit note not attached for refund ${refundId}: ${message}`);
+        return [];
+      })
+      .then((attachments) =>
+        this.notificationService.sendEmail(
+          {
+            to: email,
+            template: EmailTemplate.REFUND_PROCESSED,
+            variables: {
+              orderId: order.id,
+              refundAmount: amount.toString(),
+              refundDate: new Date(),
+              estimatedArrival: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000), // +3 days
+            },
+            attachments,
+          },
+          order.userId,
+        ),
+      )
+      .catch((error: unknown) => {
+        if (error instanceof Error) {
+          this.logger.error(`Failed to send refund email: ${error.message}`);
+        } else {
+          this.logger.error('Failed to send refund email');
+        }
+      });
+  }
+
+  // Ordered − refunded by non-failed refunds (claimed at reserve, released on failure)
+  private refundableQuantity(item: OrderWithRefundState['items'][number]): number {
+    return item.quantity - item.refundedQuantity;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        ADMIN PROMOTIONS CONTROLLER — Promotions & Coupon Codes                     ║
+ * ║  Handles: Create / list / update promotions, add codes                                            ║
+ * ║  Routes: /v1/admin/promotions/* (ADMIN only)                                                      ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] POST  /                → CreatePromotionDto (with coupons[]) → promotion + codes
+ *     [1b] GET   /?isActive=&vendorId= → promotions with codes, usage and live redemptions
+ *     [1c] PATCH /:id             → name, limits, end date, isActive
+ *     [1d] POST  /:id/coupons     → { code, usageLimit? } → extra code for the promotion
+ */
+
+import { Controller, Get, Post, Patch, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { PromotionService } from './promotion.service';
+import {
+  CreateCouponDto,
+  CreatePromotionDto,
+  ListPromotionsQueryDto,
+  UpdatePromotionDto,
+} from './dto/promotion.dto';
+
+@Controller('admin/promotions')
+@ApiTags('admin-promotions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AdminPromotionsController {
+  constructor(private readonly promotionService: PromotionService) {}
+
+  @Post()
+  @Roles('ADMIN')
+  async createPromotion(@Body() dto: CreatePromotionDto) {
+    return this.promotionService.createPromotion(dto);
+  }
+
+  @Get()
+  @Roles('ADMIN')
+  async listPromotions(@Query() query: ListPromotionsQueryDto) {
+    return this.promotionService.listPromotions(query);
+  }
+
+  @Patch(':id')
+  @Roles('ADMIN')
+  async updatePromotion(@Param('id') id: string, @Body() dto: UpdatePromotionDto) {
+    return this.promotionService.updatePromotion(id, dto);
+  }
+
+  @Post(':id/coupons')
+  @Roles('ADMIN')
+  async addCoupon(@Param('id') id: string, @Body() dto: CreateCouponDto) {
+    return this.promotionService.addCoupon(id, dto);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * [1] PROMOTION + COUPON DTOs
+ *     Amounts in XOF; codes are stored upper-case (customers type them in any case)
+ *     VENDOR-funded promotions need a vendorId and only discount that vendor's items
+ */
+
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { DiscountType, PromotionFunding } from '@prisma/client';
+
+export const COUPON_CODE_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+
+export class CreateCouponDto {
+  @Matches(COUPON_CODE_PATTERN, { message: 'code must be 3-32 letters, digits, "-" or "_"' })
+  code!: string;
+
+  // 1 = single-use code (null = only the promotion limits apply)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+}
+
+export class CreatePromotionDto {
+  // [2] WHAT
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  // [3] HOW MUCH: percentage (1-100, optional cap) or fixed XOF amount
+  @IsEnum(DiscountType)
+  discountType!: DiscountType;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  value!: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxDiscount?: number;
+
+  // [4] WHO PAYS
+  @IsOptional()
+  @IsEnum(PromotionFunding)
+  funding?: PromotionFunding;
+
+  @ValidateIf((dto) => dto.funding === PromotionFunding.VENDOR)
+  @IsString()
+  @IsNotEmpty()
+  vendorId?: string;
+
+  // [5] RULES
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minCartValue?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+
+  // [6] CODES created with the promotion
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => CreateCouponDto)
+  coupons?: CreateCouponDto[];
+}
+
+export class UpdatePromotionDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  // null clears the cap / minimum / limit
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxDiscount?: number | null;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minCartValue?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number | null;
+
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class ListPromotionsQueryDto {
+  // [7] FILTERS (admin list)
+  @IsOptional()
+  @Transform(({ value }) => value === 'true')
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsString()
+  vendorId?: string;
+}
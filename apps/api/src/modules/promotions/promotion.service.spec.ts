@@ -0,0 +1,253 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              PROMOTION SERVICE TESTS — Discount Quotes & Redemptions                              ║
+ * ║  Tests: Percentage / fixed amounts, vendor scope, rules, conditional redemption, release          ║
+ * ║  Focus: A single-use code cannot be spent twice                                                   ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { DiscountType, Prisma, PromotionFunding, RedemptionStatus } from '@prisma/client';
+import { DiscountQuote, DiscountableLine, PromotionService } from './promotion.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PromotionService', () => {
+  let service: PromotionService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let tx: ReturnType<typeof createTx> & Prisma.TransactionClient;
+
+  const buildCoupon = (
+    promotion: Record<string, unknown> = {},
+    coupon: Record<string, unknown> = {},
+  ) => ({
+    id: 'coupon-1',
+    code: 'BIENVENUE',
+    promotionId: 'promo-1',
+    usageLimit: null,
+    usageCount: 0,
+    isActive: true,
+    ...coupon,
+    promotion: {
+      id: 'promo-1',
+      name: 'Bienvenue',
+      discountType: DiscountType.PERCENTAGE,
+      value: new Prisma.Decimal(10),
+      maxDiscount: null,
+      funding: PromotionFunding.MARKETPLACE,
+      vendorId: null,
+      minCartValue: null,
+      usageLimit: null,
+      perUserLimit: null,
+      usageCount: 0,
+      startsAt: new Date('2025-01-01'),
+      endsAt: null,
+      isActive: true,
+      ...promotion,
+    },
+  });
+
+  const lines: DiscountableLine[] = [
+    { partId: 'part-a', vendorId: 'vendor-a', unitPrice: 10000, quantity: 2 },
+    { partId: 'part-b', vendorId: 'vendor-b', unitPrice: 5000, quantity: 1 },
+  ];
+
+  const createTx = () => ({
+    coupon: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      update: jest.fn(),
+    },
+    promotion: { updateMany: jest.fn().mockResolvedValue({ count: 1 }), update: jest.fn() },
+    promotionUsage: {
+      upsert: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    promotionRedemption: {
+      create: jest.fn((args: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: 'red-1', ...args.data }),
+      ),
+      findUnique: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  });
+
+  const createPrismaMock = () => ({
+    coupon: { findUnique: jest.fn() },
+    promotionUsage: { findUnique: jest.fn().mockResolvedValue(null) },
+    promotion: { create: jest.fn() },
+  });
+
+  beforeEach(async () => {
+    tx = createTx() as unknown as typeof tx;
+    mockPrisma = createPrismaMock();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PromotionService, { provide: PrismaService, useValue: mockPrisma }],
+    }).compile();
+
+    service = module.get<PromotionService>(PromotionService);
+  });
+
+  describe('quote', () => {
+    it('spreads a capped percentage over the cart lines', async () => {
+      mockPrisma.coupon.findUnique.mockResolvedValue(
+        buildCoupon({ maxDiscount: new Prisma.Decimal(2000) }),
+      );
+
+      const quote = await service.quote('user-1', 'coupon-1', lines);
+
+      expect(quote).toMatchObject({ applicable: true, amount: 2000 });
+      expect(quote!.lines).toEqual([
+        { partId: 'part-a', vendorId: 'vendor-a', amount: 1600 },
+        { partId: 'part-b', vendorId: 'vendor-b', amount: 400 },
+      ]);
+    });
+
+    it('only discounts the lines of a vendor-funded promotion', async () => {
+      mockPrisma.coupon.findUnique.mockResolvedValue(
+        buildCoupon({
+          discountType: DiscountType.FIXED_AMOUNT,
+          value: new Prisma.Decimal(8000),
+          funding: PromotionFunding.VENDOR,
+          vendorId: 'vendor-b',
+        }),
+      );
+
+      const quote = await service.quote('user-1', 'coupon-1', lines);
+
+      // Fixed amount capped at the vendor's 5000 XOF of items
+      expect(quote).toMatchObject({ applicable: true, amount: 5000, funding: 'VENDOR' });
+      expect(quote!.lines).toEqual([{ partId: 'part-b', vendorId: 'vendor-b', amount: 5000 }]);
+    });
+
+    it('explains why a code does not apply', async () => {
+      mockPrisma.coupon.findUnique.mockResolvedValueOnce(
+        buildCoupon({ minCartValue: new Prisma.Decimal(30000) }),
+      );
+      await expect(service.quote('user-1', 'coupon-1', lines)).resolves.toMatchObject({
+        applicable: false,
+        amount: 0,
+        reason: expect.stringContaining('minimum of 30000 XOF'),
+      });
+
+      mockPrisma.coupon.findUnique.mockResolvedValueOnce(
+        buildCoupon({ endsAt: new Date('2025-02-01') }),
+      );
+      await expect(service.quote('user-1', 'coupon-1', lines)).resolves.toMatchObject({
+        applicable: false,
+        reason: 'This code is not valid at the moment',
+      });
+
+      mockPrisma.coupon.findUnique.mockResolvedValueOnce(
+        buildCoupon({}, { usageLimit: 1, usageCount: 1 }),
+      );
+      await expect(service.quote('user-1', 'coupon-1', lines)).resolves.toMatchObject({
+        applicable: false,
+        reason: 'This code has reached its usage limit',
+      });
+    });
+
+    it('counts the uses of the customer', async () => {
+      mockPrisma.coupon.findUnique.mockResolvedValue(buildCoupon({ perUserLimit: 1 }));
+      mockPrisma.promotionUsage.findUnique.mockResolvedValue({ count: 1 });
+
+      await expect(service.quote('user-1', 'coupon-1', lines)).resolves.toMatchObject({
+        applicable: false,
+      });
+      expect(mockPrisma.promotionUsage.findUnique).toHaveBeenCalledWith({
+        where: { promotionId_userId: { promotionId: 'promo-1', userId: 'user-1' } },
+      });
+    });
+  });
+
+  describe('redeem', () => {
+    const quote = {
+      couponId: 'coupon-1',
+      funding: PromotionFunding.MARKETPLACE,
+      amount: 2000,
+    } as DiscountQuote;
+
+    it('increments every counter under its limit and records the redemption', async () => {
+      tx.coupon.findUnique.mockResolvedValue(
+        buildCoupon({ usageLimit: 100, perUserLimit: 2 }, { usageLimit: 1 }),
+      );
+
+      const redemption = await service.redeem(tx, quote, 'user-1', 'order-1');
+
+      expect(tx.promotion.updateMany).toHaveBeenCalledWith({
+        where: { id: 'promo-1', isActive: true, usageCount: { lt: 100 } },
+        data: { usageCount: { increment: 1 } },
+      });
+      expect(tx.coupon.updateMany).toHaveBeenCalledWith({
+        where: { id: 'coupon-1', isActive: true, usageCount: { lt: 1 } },
+        data: { usageCount: { increment: 1 } },
+      });
+      expect(tx.promotionUsage.updateMany).toHaveBeenCalledWith({
+        where: { promotionId: 'promo-1', userId: 'user-1', count: { lt: 2 } },
+        data: { count: { increment: 1 } },
+      });
+      expect(redemption).toMatchObject({ orderId: 'order-1', amount: 2000 });
+    });
+
+    it('refuses a single-use code already spent by a concurrent checkout', async () => {
+      tx.coupon.findUnique.mockResolvedValue(buildCoupon({}, { usageLimit: 1 }));
+      tx.coupon.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.redeem(tx, quote, 'user-2', 'order-2')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(tx.promotionRedemption.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('release', () => {
+    it('gives the use back once', async () => {
+      tx.promotionRedemption.findUnique.mockResolvedValue({
+        id: 'red-1',
+        promotionId: 'promo-1',
+        couponId: 'coupon-1',
+        userId: 'user-1',
+        status: RedemptionStatus.APPLIED,
+      });
+
+      await service.release(tx, 'order-1');
+
+      expect(tx.promotion.update).toHaveBeenCalledWith({
+        where: { id: 'promo-1' },
+        data: { usageCount: { decrement: 1 } },
+      });
+      expect(tx.coupon.update).toHaveBeenCalledWith({
+        where: { id: 'coupon-1' },
+        data: { usageCount: { decrement: 1 } },
+      });
+
+      tx.promotion.update.mockClear();
+      tx.promotionRedemption.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.release(tx, 'order-1')).resolves.toBeNull();
+      expect(tx.promotion.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createPromotion', () => {
+    it('validates percentages and codes', async () => {
+      await expect(
+        service.createPromotion({
+          name: 'Trop',
+          discountType: DiscountType.PERCENTAGE,
+          value: 150,
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      await expect(
+        service.createPromotion({
+          name: 'Doublon',
+          discountType: DiscountType.FIXED_AMOUNT,
+          value: 1000,
+          coupons: [{ code: 'noel' }, { code: 'NOEL' }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrisma.promotion.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        PROMOTION SERVICE — Promotions, Coupons & Redemptions                       ║
+ * ║  Implements: Admin management, cart discount quotes, atomic redemption at checkout, release       ║
+ * ║  Used by: CartService (discount lines), OrdersService (checkout), OrderLifecycleService (cancel)  ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODEL
+ *     [1a] Promotion = discount + rules (type, value, funding, minimum, limits, validity window)
+ *     [1b] Coupon = code activating a promotion (own usage limit: 1 = single-use code)
+ *     [1c] PromotionUsage = redemptions per customer; PromotionRedemption = lock taken by one order
+ *
+ * [2] QUOTE (cart + checkout)
+ *     [2a] Eligible lines: every line, or only Promotion.vendorId's lines (always set for VENDOR funding)
+ *     [2b] PERCENTAGE: % of the eligible subtotal, capped by maxDiscount; FIXED_AMOUNT: value
+ *          Both capped at the eligible subtotal, whole XOF (rounded down)
+ *     [2c] Spread over the eligible lines pro rata, rounding remainder on the last line
+ *     [2d] Not applicable (expired, limit reached, minimum not met...) → amount 0 + reason
+ *
+ * [3] REDEMPTION (inside the checkout transaction)
+ *     [3a] Conditional increments (usageCount < limit) on Promotion, Coupon and PromotionUsage
+ *          → the row lock serialises concurrent checkouts: the second one sees the limit reached
+ *     [3b] Any increment matching 0 rows → 409 → the whole checkout rolls back
+ *     [3c] Order cancelled → redemption RELEASED, counters decremented (code usable again)
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import {
+  Coupon,
+  DiscountType,
+  Prisma,
+  Promotion,
+  PromotionFunding,
+  RedemptionStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateCouponDto,
+  CreatePromotionDto,
+  ListPromotionsQueryDto,
+  UpdatePromotionDto,
+} from './dto/promotion.dto';
+
+/**
+ * Cart / order line as seen by the discount engine (one line per part)
+ */
+export interface DiscountableLine {
+  partId: string;
+  vendorId: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface DiscountLine {
+  partId: string;
+  vendorId: string;
+  amount: number;
+}
+
+export interface DiscountQuote {
+  couponId: string;
+  code: string;
+  promotionId: string;
+  name: string;
+  discountType: DiscountType;
+  funding: PromotionFunding;
+  vendorId: string | null;
+  applicable: boolean;
+  reason?: string;
+  amount: number;
+  lines: DiscountLine[];
+}
+
+const LIMIT_REACHED = 'This code has reached its usage limit';
+const USER_LIMIT_REACHED = 'You have already used this code the maximum number of times';
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+@Injectable()
+export class PromotionService {
+  private readonly logger = new Logger(PromotionService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * [4] CREATE PROMOTION (admin) with its first codes
+   *     [4a] Errors: percentage > 100 / window ends before it starts → 400, unknown vendor → 404,
+   *          code already used → 409
+   */
+  async createPromotion(dto: CreatePromotionDto) {
+    const { coupons = [], ...fields } = dto;
+
+    if (fields.discountType === DiscountType.PERCENTAGE && fields.value > 100) {
+      throw new BadRequestException('A percentage discount cannot exceed 100');
+    }
+    const startsAt = fields.startsAt ? new Date(fields.startsAt) : new Date();
+    const endsAt = fields.endsAt ? new Date(fields.endsAt) : null;
+    this.assertWindow(startsAt, endsAt);
+
+    if (fields.vendorId) {
+      const vendor = await this.prisma.vendor.findUnique({
+        where: { id: fields.vendorId },
+        select: { id: true },
+      });
+      if (!vendor) {
+        throw new NotFoundException('Vendor not found');
+      }
+    }
+
+    const codes = coupons.map((c) => normalizeCouponCode(c.code));
+    if (new Set(codes).size !== codes.length) {
+      throw new BadRequestException('Duplicate coupon codes');
+    }
+
+    const promotion = await this.prisma.promotion
+      .create({
+        data: {
+          ...fields,
+          funding: fields.funding ?? PromotionFunding.MARKETPLACE,
+          startsAt,
+          endsAt,
+          coupons: {
+            create: coupons.map((c, index) => ({ code: codes[index], usageLimit: c.usageLimit })),
+          },
+        },
+        include: { coupons: true },
+      })
+      .catch((error) => this.rethrowDuplicateCode(error));
+
+    this.logger.log(`Promotion ${promotion.id} created (${codes.length} code(s))`);
+    return promotion;
+  }
+
+  /**
+   * [5] LIST / UPDATE PROMOTIONS (admin)
+   *     [5a] Type, value and funding are frozen once created (redemptions refer to them)
+   */
+  async listPromotions(query: ListPromotionsQueryDto) {
+    return this.prisma.promotion.findMany({
+      where: { isActive: query.isActive, vendorId: query.vendorId },
+      include: {
+        coupons: { orderBy: { createdAt: 'asc' } },
+        vendor: { select: { id: true, name: true } },
+        _count: { select: { redemptions: { where: { status: RedemptionStatus.APPLIED } } } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async updatePromotion(id: string, dto: UpdatePromotionDto) {
+    const promotion = await this.prisma.promotion.findUnique({ where: { id } });
+    if (!promotion) {
+      throw new NotFoundException('Promotion not found');
+    }
+
+    const { endsAt, ...fields } = dto;
+    if (endsAt !== undefined) {
+      this.assertWindow(promotion.startsAt, endsAt ? new Date(endsAt) : null);
+    }
+
+    return this.prisma.promotion.update({
+      where: { id },
+      data: {
+        ...fields,
+        endsAt: endsAt === undefined ? undefined : endsAt ? new Date(endsAt) : null,
+      },
+      include: { coupons: true },
+    });
+  }
+
+  async addCoupon(promotionId: string, dto: CreateCouponDto) {
+    const promotion = await this.prisma.promotion.findUnique({
+      where: { id: promotionId },
+      select: { id: true },
+    });
+    if (!promotion) {
+      throw new NotFoundException('Promotion not found');
+    }
+
+    return this.prisma.coupon
+      .create({
+        data: { promotionId, code: normalizeCouponCode(dto.code), usageLimit: dto.usageLimit },
+      })
+      .catch((error) => this.rethrowDuplicateCode(error));
+  }
+
+  /**
+   * [6] FIND COUPON BY CODE (case-insensitive) → 404 when unknown
+   */
+  async findCouponId(code: string): Promise<string> {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { code: normalizeCouponCode(code) },
+      select: { id: true },
+    });
+    if (!coupon) {
+      throw new NotFoundException('Unknown coupon code');
+    }
+    return coupon.id;
+  }
+
+  /**
+   * [7] QUOTE (see [2])
+   *     [7a] null when the coupon no longer exists (deleted with its promotion)
+   */
+  async quote(
+    userId: string,
+    couponId: string,
+    lines: DiscountableLine[],
+    now = new Date(),
+  ): Promise<DiscountQuote | null> {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { id: couponId },
+      include: { promotion: true },
+    });
+    if (!coupon) {
+      return null;
+    }
+
+    const usage = coupon.promotion.perUserLimit
+      ? await this.prisma.promotionUsage.findUnique({
+          where: { promotionId_userId: { promotionId: coupon.promotionId, userId } },
+        })
+      : null;
+
+    return this.evaluate(coupon, lines, usage?.count ?? 0, now);
+  }
+
+  /**
+   * [8] REDEEM (see [3]) — must run inside the transaction that creates the order
+   */
+  async redeem(
+    tx: Prisma.TransactionClient,
+    quote: DiscountQuote,
+    userId: string,
+    orderId: string,
+  ) {
+    const coupon = await tx.coupon.findUnique({
+      where: { id: quote.couponId },
+      include: { promotion: true },
+    });
+    if (!coupon) {
+      throw new ConflictException('This code is no longer valid');
+    }
+    const { promotion } = coupon;
+
+    // [8.1] GLOBAL LIMIT (promotion), then CODE LIMIT (coupon)
+    const promotionLocked = await tx.promotion.updateMany({
+      where: {
+        id: promotion.id,
+        isActive: true,
+        ...(promotion.usageLimit !== null && { usageCount: { lt: promotion.usageLimit } }),
+      },
+      data: { usageCount: { increment: 1 } },
+    });
+    const couponLocked = await tx.coupon.updateMany({
+      where: {
+        id: coupon.id,
+        isActive: true,
+        ...(coupon.usageLimit !== null && { usageCount: { lt: coupon.usageLimit } }),
+      },
+      data: { usageCount: { increment: 1 } },
+    });
+    if (promotionLocked.count === 0 || couponLocked.count === 0) {
+      throw new ConflictException(LIMIT_REACHED);
+    }
+
+    // [8.2] PER-CUSTOMER LIMIT
+    const usageKey = { promotionId_userId: { promotionId: promotion.id, userId } };
+    if (promotion.perUserLimit === null) {
+      await tx.promotionUsage.upsert({
+        where: usageKey,
+        create: { promotionId: promotion.id, userId, count: 1 },
+        update: { count: { increment: 1 } },
+      });
+    } else {
+      await tx.promotionUsage.upsert({
+        where: usageKey,
+        create: { promotionId: promotion.id, userId },
+        update: {},
+      });
+      const { count } = await tx.promotionUsage.updateMany({
+        where: { promotionId: promotion.id, userId, count: { lt: promotion.perUserLimit } },
+        data: { count: { increment: 1 } },
+      });
+      if (count === 0) {
+        throw new ConflictException(USER_LIMIT_REACHED);
+      }
+    }
+
+    // [8.3] LOCK RECORD (one per order)
+    return tx.promotionRedemption.create({
+      data: {
+        promotionId: promotion.id,
+        couponId: coupon.id,
+        userId,
+        orderId,
+        amount: quote.amount,
+        funding: quote.funding,
+      },
+    });
+  }
+
+  /**
+   * [9] RELEASE (order cancelled) — idempotent, runs in the caller's transaction
+   */
+  async release(tx: Prisma.TransactionClient, orderId: string) {
+    const redemption = await tx.promotionRedemption.findUnique({ where: { orderId } });
+    if (!redemption || redemption.status !== RedemptionStatus.APPLIED) {
+      return null;
+    }
+
+    const { count } = await tx.promotionRedemption.updateMany({
+      where: { id: redemption.id, status: RedemptionStatus.APPLIED },
+      data: { status: RedemptionStatus.RELEASED, releasedAt: new Date() },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    await tx.promotion.update({
+      where: { id: redemption.promotionId },
+      data: { usageCount: { decrement: 1 } },
+    });
+    await tx.coupon.update({
+      where: { id: redemption.couponId },
+      data: { usageCount: { decrement: 1 } },
+    });
+    await tx.promotionUsage.updateMany({
+      where: { promotionId: redemption.promotionId, userId: redemption.userId, count: { gt: 0 } },
+      data: { count: { decrement: 1 } },
+    });
+
+    this.logger.log(`Promotion redemption released for order ${orderId}`);
+    return redemption;
+  }
+
+  /**
+   * [10] EVALUATION (PRIVATE)
+   */
+  private evaluate(
+    coupon: Coupon & { promotion: Promotion },
+    lines: DiscountableLine[],
+    usedByCustomer: number,
+    now: Date,
+  ): DiscountQuote {
+    const { promotion } = coupon;
+    const quote: DiscountQuote = {
+      couponId: coupon.id,
+      code: coupon.code,
+      promotionId: promotion.id,
+      name: promotion.name,
+      discountType: promotion.discountType,
+      funding: promotion.funding,
+      vendorId: promotion.vendorId,
+      applicable: false,
+      amount: 0,
+      lines: [],
+    };
+
+    // [10.1] RULES
+    const eligible = lines.filter((l) => !promotion.vendorId || l.vendorId === promotion.vendorId);
+    const eligibleSubtotal = eligible.reduce((sum, l) => sum + l.unitPrice * l.quantity, 0);
+
+    let reason: string | undefined;
+    if (
+      !coupon.isActive ||
+      !promotion.isActive ||
+      promotion.startsAt > now ||
+      (promotion.endsAt && promotion.endsAt <= now)
+    ) {
+      reason = 'This code is not valid at the moment';
+    } else if (
+      (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) ||
+      (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit)
+    ) {
+      reason = LIMIT_REACHED;
+    } else if (promotion.perUserLimit !== null && usedByCustomer >= promotion.perUserLimit) {
+      reason = USER_LIMIT_REACHED;
+    } else if (eligible.length === 0) {
+      reason = 'No item of your cart is eligible for this code';
+    } else if (promotion.minCartValue && eligibleSubtotal < Number(promotion.minCartValue)) {
+      reason = `This code requires a minimum of ${Number(promotion.minCartValue)} XOF of eligible items`;
+    }
+    if (reason) {
+      return { ...quote, reason };
+    }
+
+    // [10.2] AMOUNT (see [2b])
+    let amount =
+      promotion.discountType === DiscountType.PERCENTAGE
+        ? (eligibleSubtotal * Number(promotion.value)) / 100
+        : Number(promotion.value);
+    if (promotion.maxDiscount !== null) {
+      amount = Math.min(amount, Number(promotion.maxDiscount));
+    }
+    amount = Math.floor(Math.min(amount, eligibleSubtotal));
+
+    return { ...quote, applicable: true, amount, lines: this.allocate(amount, eligible) };
+  }
+
+  /**
+   * [11] PRO RATA SPLIT (PRIVATE) — whole XOF per line, remainder on the last line
+   */
+  private allocate(amount: number, lines: DiscountableLine[]): DiscountLine[] {
+    const totals = lines.map((l) => l.unitPrice * l.quantity);
+    const subtotal = totals.reduce((sum, t) => sum + t, 0);
+    const shares = totals.map((t) => (subtotal > 0 ? Math.floor((amount * t) / subtotal) : 0));
+
+    shares[shares.length - 1] += amount - shares.reduce((sum, s) => sum + s, 0);
+
+    return lines.map((l, index) => ({
+      partId: l.partId,
+      vendorId: l.vendorId,
+      amount: shares[index],
+    }));
+  }
+
+  private assertWindow(startsAt: Date, endsAt: Date | null) {
+    if (endsAt && endsAt <= startsAt) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+  }
+
+  private rethrowDuplicateCode(error: unknown): never {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictException('Coupon code already exists');
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        PROMOTIONS MODULE — Promotions & Coupons                                    ║
+ * ║  Provides: Admin promotion management, discount quotes, redemption lock / release                 ║
+ * ║  Dependencies: PrismaModule                                                                       ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODULE OVERVIEW
+ *     [1a] Controllers: AdminPromotionsController (customers apply codes through /cart/coupon)
+ *     [1b] Exports: PromotionService (CartModule, OrdersModule)
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PromotionService } from './promotion.service';
+import { AdminPromotionsController } from './admin-promotions.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [AdminPromotionsController],
+  providers: [PromotionService],
+  exports: [PromotionService],
+})
+export class PromotionsModule {}
@@ -33,6 +33,14 @@ import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/commo
 import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
 
+// [17] RELEASE LOCK SCRIPT (for getClient().eval, see [16])
+//      Deletes a lock only if it still holds the caller's token: a lock that expired and was
+//      taken by another instance is left alone. Usage: eval(RELEASE_LOCK_SCRIPT, 1, key, token)
+export const RELEASE_LOCK_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
 @Injectable()
 export class RedisService implements OnModuleInit, OnModuleDestroy {
   // [5] REDIS CLIENT INSTANCE
@@ -0,0 +1,68 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        ADMIN RETURNS CONTROLLER — Return Arbitration                               ║
+ * ║  Handles: Escalated returns, returns the vendor left unanswered, final decision                   ║
+ * ║  Routes: /v1/admin/returns/* (ADMIN only)                                                         ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET  /?status=       → Escalated + overdue returns (or every return with that status)
+ *     [1b] POST /:id/approve    → { note? } → APPROVED / REFUNDED (also retries a failed refund)
+ *     [1c] POST /:id/reject     → { note } → REJECTED (final)
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { ReturnsService } from './returns.service';
+import { ListReturnsQueryDto, ReturnDecisionDto } from './dto/return-request.dto';
+
+@Controller('admin/returns')
+@ApiTags('admin-returns')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AdminReturnsController {
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  @Get()
+  @Roles('ADMIN')
+  async listReturns(@Query() query: ListReturnsQueryDto) {
+    return this.returnsService.listForAdmin(query);
+  }
+
+  @Post(':id/approve')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async approve(
+    @Param('id') id: string,
+    @Body() dto: ReturnDecisionDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.returnsService.decideAsAdmin(user.sub, id, true, dto);
+  }
+
+  @Post(':id/reject')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async reject(
+    @Param('id') id: string,
+    @Body() dto: ReturnDecisionDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.returnsService.decideAsAdmin(user.sub, id, false, dto);
+  }
+}
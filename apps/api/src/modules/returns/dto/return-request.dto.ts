@@ -0,0 +1,72 @@
+/**
+ * [1] RETURN REQUEST DTOs
+ *     Customer opens a return on one delivered order line; vendor / admin decide with a note
+ */
+
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ReturnReason, ReturnResolution, ReturnStatus } from '@prisma/client';
+
+export class CreateReturnRequestDto {
+  // [2] ORDER LINE + QUANTITY (≤ quantity not yet returned or refunded)
+  @IsString()
+  @IsNotEmpty()
+  orderItemId!: string;
+
+  @IsInt()
+  @Min(1)
+  quantity!: number;
+
+  // [3] WHY + DETAILS
+  @IsEnum(ReturnReason)
+  reason!: ReturnReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  // [4] PHOTOS (uploaded beforehand, max 5)
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsUrl({}, { each: true })
+  photoUrls?: string[];
+
+  // [5] WHAT THE CUSTOMER WANTS
+  @IsEnum(ReturnResolution)
+  resolution!: ReturnResolution;
+}
+
+export class ReturnDecisionDto {
+  // [6] NOTE shown to the customer (required to reject)
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class EscalateReturnDto {
+  // [7] WHY THE CUSTOMER DISAGREES
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class ListReturnsQueryDto {
+  // [8] FILTER: STATUS
+  @IsOptional()
+  @IsEnum(ReturnStatus)
+  status?: ReturnStatus;
+}
@@ -0,0 +1,73 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        RETURNS CONTROLLER — Customer Return Requests                               ║
+ * ║  Handles: Open a return on a delivered order line, follow it, escalate a vendor refusal           ║
+ * ║  Routes: /v1/returns/* (customer, own returns only)                                                ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] POST /               → { orderItemId, quantity, reason, description?, photoUrls?, resolution }
+ *     [1b] GET  /?status=       → Caller's returns
+ *     [1c] GET  /:id            → One return
+ *     [1d] POST /:id/escalate   → { note? } → admin arbitration (vendor rejected / deadline passed)
+ *
+ * [2] ERRORS
+ *     [2a] Not the caller's order line / return → 404
+ *     [2b] Not delivered, window closed, quantity too high, cannot escalate → 400
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { ReturnsService } from './returns.service';
+import {
+  CreateReturnRequestDto,
+  EscalateReturnDto,
+  ListReturnsQueryDto,
+} from './dto/return-request.dto';
+
+@Controller('returns')
+@ApiTags('returns')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+export class ReturnsController {
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createReturn(@Body() dto: CreateReturnRequestDto, @CurrentUser() user: CurrentUserPayload) {
+    return this.returnsService.createReturn(user.sub, dto);
+  }
+
+  @Get()
+  async listReturns(@Query() query: ListReturnsQueryDto, @CurrentUser() user: CurrentUserPayload) {
+    return this.returnsService.listForCustomer(user.sub, query);
+  }
+
+  @Get(':id')
+  async getReturn(@Param('id') id: string, @CurrentUser() user: CurrentUserPayload) {
+    return this.returnsService.getForCustomer(user.sub, id);
+  }
+
+  @Post(':id/escalate')
+  @HttpCode(HttpStatus.OK)
+  async escalate(
+    @Param('id') id: string,
+    @Body() dto: EscalateReturnDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.returnsService.escalate(user.sub, id, dto.note);
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        RETURNS MODULE — Return Requests (RMA)                                      ║
+ * ║  Provides: Customer returns, vendor decisions, admin arbitration, refund on approval              ║
+ * ║  Dependencies: PrismaModule, PaymentModule (refunds + restock), NotificationModule (emails)       ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODULE OVERVIEW
+ *     [1a] Controllers: ReturnsController (customer), VendorReturnsController, AdminReturnsController
+ *     [1b] Providers: ReturnsService
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PaymentModule } from '../payments/payments.module';
+import { NotificationModule } from '../notifications/notification.module';
+import { ReturnsService } from './returns.service';
+import { ReturnsController } from './returns.controller';
+import { VendorReturnsController } from './vendor-returns.controller';
+import { AdminReturnsController } from './admin-returns.controller';
+
+@Module({
+  imports: [PrismaModule, PaymentModule, NotificationModule],
+  controllers: [ReturnsController, VendorReturnsController, AdminReturnsController],
+  providers: [ReturnsService],
+})
+export class ReturnsModule {}
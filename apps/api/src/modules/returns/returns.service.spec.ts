@@ -0,0 +1,341 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              RETURNS SERVICE TESTS — Return Requests per Order Item                               ║
+ * ║  Tests: Windows per condition, returnable quantity, vendor deadline, escalation, refund           ║
+ * ║  Focus: One decision per return, refund of the returned units only                                ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ReturnsService } from './returns.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentService } from '../payments/payments.service';
+import { NotificationService } from '../notifications/notification.service';
+import { EmailTemplate } from '../notifications/dto/send-email.dto';
+
+describe('ReturnsService', () => {
+  let service: ReturnsService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let refundPayment: jest.Mock;
+  let sendEmail: jest.Mock;
+
+  const DAY = 24 * 60 * 60 * 1000;
+
+  const buildItem = (overrides: Record<string, unknown> = {}) => ({
+    id: 'item-1',
+    orderId: 'order-1',
+    vendorId: 'vendor-1',
+    quantity: 2,
+    part: { condition: 'NEW' },
+    order: {
+      userId: 'user-1',
+      shipments: [
+        { vendorId: 'vendor-1', status: 'DELIVERED', deliveredAt: new Date(Date.now() - DAY) },
+      ],
+    },
+    returnRequests: [],
+    refundItems: [],
+    ...overrides,
+  });
+
+  const buildReturn = (overrides: Record<string, unknown> = {}) => ({
+    id: 'ret-1',
+    orderId: 'order-1',
+    orderItemId: 'item-1',
+    vendorId: 'vendor-1',
+    userId: 'user-1',
+    quantity: 1,
+    reason: 'DOES_NOT_FIT',
+    resolution: 'REFUND',
+    status: 'REQUESTED',
+    vendorDeadline: new Date(Date.now() + DAY),
+    escalatedAt: null,
+    decidedByType: null,
+    refundId: null,
+    ...overrides,
+  });
+
+  const createDto = {
+    orderItemId: 'item-1',
+    quantity: 1,
+    reason: 'DOES_NOT_FIT' as const,
+    resolution: 'REFUND' as const,
+  };
+
+  const createPrismaMock = () => ({
+    orderItem: { findUnique: jest.fn().mockResolvedValue(buildItem()) },
+    returnRequest: {
+      create: jest.fn().mockResolvedValue({ id: 'ret-1' }),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      update: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest.fn().mockResolvedValue({
+        id: 'ret-1',
+        orderId: 'order-1',
+        userId: 'user-1',
+        status: 'REFUNDED',
+        vendorNote: null,
+        adminNote: null,
+        orderItem: { part: { title: 'Alternateur' } },
+      }),
+    },
+    user: {
+      findUniqueOrThrow: jest.fn().mockResolvedValue({ email: 'client@example.com' }),
+    },
+    payment: {
+      findMany: jest
+        .fn()
+        .mockResolvedValue([{ id: 'pay-order', shipmentId: null, shipment: null }]),
+    },
+    vendor: { findMany: jest.fn().mockResolvedValue([{ id: 'vendor-1' }]) },
+  });
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+    refundPayment = jest.fn().mockResolvedValue({ id: 'refund-1' });
+    sendEmail = jest.fn().mockResolvedValue({ messageId: 'e' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReturnsService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: PaymentService, useValue: { refundPayment } },
+        { provide: NotificationService, useValue: { sendEmail } },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, fallback?: string) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReturnsService>(ReturnsService);
+  });
+
+  describe('createReturn', () => {
+    it('opens a return with the vendor deadline', async () => {
+      await service.createReturn('user-1', createDto);
+
+      expect(mockPrisma.returnRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            orderId: 'order-1',
+            orderItemId: 'item-1',
+            vendorId: 'vendor-1',
+            userId: 'user-1',
+            quantity: 1,
+            photoUrls: [],
+            vendorDeadline: expect.any(Date),
+          }),
+        }),
+      );
+    });
+
+    it('hides order lines of other customers', async () => {
+      await expect(service.createReturn('user-2', createDto)).rejects.toThrow(NotFoundException);
+    });
+
+    it('refuses items whose shipment is not delivered', async () => {
+      mockPrisma.orderItem.findUnique.mockResolvedValue(
+        buildItem({
+          order: {
+            userId: 'user-1',
+            shipments: [{ vendorId: 'vendor-1', status: 'SHIPPED', deliveredAt: null }],
+          },
+        }),
+      );
+
+      await expect(service.createReturn('user-1', createDto)).rejects.toThrow(BadRequestException);
+    });
+
+    it('applies the shorter window of USED_FAIR parts', async () => {
+      const deliveredAt = new Date(Date.now() - 5 * DAY);
+      const shipments = [{ vendorId: 'vendor-1', status: 'DELIVERED', deliveredAt }];
+      mockPrisma.orderItem.findUnique.mockResolvedValue(
+        buildItem({ part: { condition: 'USED_FAIR' }, order: { userId: 'user-1', shipments } }),
+      );
+
+      await expect(service.createReturn('user-1', createDto)).rejects.toThrow(
+        'Return window closed',
+      );
+
+      mockPrisma.orderItem.findUnique.mockResolvedValue(
+        buildItem({ order: { userId: 'user-1', shipments } }),
+      );
+      await expect(service.createReturn('user-1', createDto)).resolves.toBeDefined();
+    });
+
+    it('counts open returns and refunds made outside returns', async () => {
+      mockPrisma.orderItem.findUnique.mockResolvedValue(
+        buildItem({
+          quantity: 3,
+          returnRequests: [{ quantity: 1 }],
+          refundItems: [
+            { quantity: 1, refund: { status: 'COMPLETED', returnRequest: null } },
+            { quantity: 1, refund: { status: 'FAILED', returnRequest: null } },
+          ],
+        }),
+      );
+
+      await expect(service.createReturn('user-1', { ...createDto, quantity: 2 })).rejects.toThrow(
+        'Only 1 unit(s)',
+      );
+    });
+  });
+
+  describe('decideAsVendor', () => {
+    it('approves, refunds the returned units and restocks them', async () => {
+      mockPrisma.returnRequest.findFirst.mockResolvedValue(buildReturn());
+
+      await service.decideAsVendor('merchant-1', 'ret-1', true, {});
+
+      expect(mockPrisma.returnRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ret-1', status: 'REQUESTED' },
+        data: expect.objectContaining({ status: 'APPROVED', decidedByType: 'MERCHANT' }),
+      });
+      expect(refundPayment).toHaveBeenCalledWith(
+        'pay-order',
+        { items: [{ orderItemId: 'item-1', quantity: 1 }], reason: 'Return ret-1' },
+        { type: 'MERCHANT', id: 'merchant-1' },
+        { restock: true },
+      );
+      expect(mockPrisma.returnRequest.update).toHaveBeenCalledWith({
+        where: { id: 'ret-1' },
+        data: { status: 'REFUNDED', refundId: 'refund-1' },
+      });
+      expect(sendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'client@example.com',
+          template: EmailTemplate.RETURN_UPDATED,
+        }),
+        'user-1',
+      );
+    });
+
+    it('refunds a defective part on the cash payment of the vendor without restocking', async () => {
+      mockPrisma.returnRequest.findFirst.mockResolvedValue(buildReturn({ reason: 'DEFECTIVE' }));
+      mockPrisma.payment.findMany.mockResolvedValue([
+        { id: 'pay-other', shipmentId: 'ship-2', shipment: { vendorId: 'vendor-2' } },
+        { id: 'pay-cash', shipmentId: 'ship-1', shipment: { vendorId: 'vendor-1' } },
+      ]);
+
+      await service.decideAsVendor('merchant-1', 'ret-1', true, {});
+
+      expect(refundPayment).toHaveBeenCalledWith('pay-cash', expect.anything(), expect.anything(), {
+        restock: false,
+      });
+    });
+
+    it('requires a note to reject', async () => {
+      mockPrisma.returnRequest.findFirst.mockResolvedValue(buildReturn());
+
+      await expect(service.decideAsVendor('merchant-1', 'ret-1', false, {})).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrisma.returnRequest.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('leaves overdue returns to an admin', async () => {
+      mockPrisma.returnRequest.findFirst.mockResolvedValue(
+        buildReturn({ vendorDeadline: new Date(Date.now() - DAY) }),
+      );
+
+      await expect(service.decideAsVendor('merchant-1', 'ret-1', true, {})).rejects.toThrow(
+        'Response deadline passed',
+      );
+    });
+
+    it('throws ConflictException when another decision won', async () => {
+      mockPrisma.returnRequest.findFirst.mockResolvedValue(buildReturn());
+      mockPrisma.returnRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.decideAsVendor('merchant-1', 'ret-1', true, {})).rejects.toThrow(
+        ConflictException,
+      );
+      expect(refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('keeps the return APPROVED when the refund fails', async () => {
+      mockPrisma.returnRequest.findFirst.mockResolvedValue(buildReturn());
+      refundPayment.mockRejectedValue(new BadRequestException('Provider down'));
+
+      await expect(service.decideAsVendor('merchant-1', 'ret-1', true, {})).rejects.toThrow(
+        'Provider down',
+      );
+      expect(mockPrisma.returnRequest.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('escalate', () => {
+    it('escalates a vendor rejection once', async () => {
+      mockPrisma.returnRequest.findFirst.mockResolvedValue(
+        buildReturn({ status: 'REJECTED', decidedByType: 'MERCHANT' }),
+      );
+
+      await service.escalate('user-1', 'ret-1', 'It is the right part number');
+
+      expect(mockPrisma.returnRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ret-1', status: 'REJECTED', escalatedAt: null },
+        data: {
+          status: 'ESCALATED',
+          escalatedAt: expect.any(Date),
+          escalationNote: 'It is the right part number',
+        },
+      });
+    });
+
+    it('refuses to escalate an admin decision or a return still in the vendor window', async () => {
+      mockPrisma.returnRequest.findFirst.mockResolvedValue(
+        buildReturn({ status: 'REJECTED', decidedByType: 'ADMIN', escalatedAt: new Date() }),
+      );
+      await expect(service.escalate('user-1', 'ret-1')).rejects.toThrow(BadRequestException);
+
+      mockPrisma.returnRequest.findFirst.mockResolvedValue(buildReturn());
+      await expect(service.escalate('user-1', 'ret-1')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('decideAsAdmin', () => {
+    it('retries the refund of an approved return', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(buildReturn({ status: 'APPROVED' }));
+
+      await service.decideAsAdmin('admin-1', 'ret-1', true, {});
+
+      expect(mockPrisma.returnRequest.updateMany).not.toHaveBeenCalled();
+      expect(refundPayment).toHaveBeenCalledWith(
+        'pay-order',
+        expect.anything(),
+        { type: 'ADMIN', id: 'admin-1' },
+        { restock: true },
+      );
+    });
+
+    it('rejects an escalated return for good', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(buildReturn({ status: 'ESCALATED' }));
+
+      await service.decideAsAdmin('admin-1', 'ret-1', false, { note: 'Part was installed' });
+
+      expect(mockPrisma.returnRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ret-1', status: 'ESCALATED' },
+        data: expect.objectContaining({
+          status: 'REJECTED',
+          decidedByType: 'ADMIN',
+          adminNote: 'Part was installed',
+        }),
+      });
+    });
+
+    it('refuses returns already settled', async () => {
+      mockPrisma.returnRequest.findUnique.mockResolvedValue(
+        buildReturn({ status: 'REFUNDED', refundId: 'refund-1' }),
+      );
+
+      await expect(service.decideAsAdmin('admin-1', 'ret-1', true, {})).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        RETURNS SERVICE — Return Requests (RMA) per Order Item                      ║
+ * ║  Implements: Return windows per condition, vendor decision + deadline, escalation, refund         ║
+ * ║  Uses: PaymentService.refundPayment (refund ledger + restock), NotificationService                ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] STATE MACHINE
+ *     REQUESTED → APPROVED → REFUNDED (resolution REFUND; APPROVED is final for REPLACEMENT)
+ *         ↓    ↘ REJECTED (vendor) → ESCALATED (customer) → APPROVED / REJECTED (admin, final)
+ *         ↓ vendor deadline passed → ESCALATED (customer) or decided directly by an admin
+ *
+ * [2] RULES
+ *     [2a] Only lines of the customer's own order, once the vendor's shipment is DELIVERED
+ *     [2b] Window from deliveredAt, per PartCondition (RETURN_WINDOW_DAYS_{CONDITION})
+ *     [2c] Quantity ≤ ordered − already returned (open / accepted returns) − refunded outside returns
+ *     [2d] Vendor answers before vendorDeadline (RETURN_VENDOR_RESPONSE_HOURS); afterwards only
+ *          an admin decides
+ *     [2e] Someone else's return → 404
+ *
+ * [3] APPROVAL (resolution REFUND)
+ *     [3a] Return → APPROVED first (conditional update: two deciders cannot both win)
+ *     [3b] Refund of the returned units on the payment that captured them (cash for that shipment,
+ *          else the order payment); restocked unless the part is DEFECTIVE
+ *     [3c] Refund OK → REFUNDED + refundId; refund failed → stays APPROVED, an admin approves again
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PartCondition,
+  Prisma,
+  RefundStatus,
+  ReturnReason,
+  ReturnRequest,
+  ReturnResolution,
+  ReturnStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notifications/notification.service';
+import { EmailTemplate } from '../notifications/dto/send-email.dto';
+import { PaymentService } from '../payments/payments.service';
+import { PaymentStatus } from '../payments/dto/create-payment.dto';
+import { OrderActor } from '../orders/order-lifecycle.service';
+import { ShipmentStatus } from '../orders/dto/update-shipment.dto';
+import {
+  CreateReturnRequestDto,
+  ListReturnsQueryDto,
+  ReturnDecisionDto,
+} from './dto/return-request.dto';
+
+/**
+ * [4] DEFAULT RETURN WINDOWS (days after delivery)
+ *     Overridden per condition with RETURN_WINDOW_DAYS_{CONDITION}
+ */
+export const DEFAULT_RETURN_WINDOW_DAYS: Record<PartCondition, number> = {
+  [PartCondition.NEW]: 14,
+  [PartCondition.REFURBISHED]: 10,
+  [PartCondition.USED_LIKE_NEW]: 7,
+  [PartCondition.USED_GOOD]: 7,
+  [PartCondition.USED_FAIR]: 3,
+};
+
+// Returns that hold quantity on the order line (a rejected return gives it back)
+const HOLDING_STATUSES: ReturnStatus[] = [
+  ReturnStatus.REQUESTED,
+  ReturnStatus.ESCALATED,
+  ReturnStatus.APPROVED,
+  ReturnStatus.REFUNDED,
+];
+
+const RETURN_INCLUDE = {
+  orderItem: { include: { part: { select: { id: true, title: true, condition: true } } } },
+  vendor: { select: { id: true, name: true } },
+} satisfies Prisma.ReturnRequestInclude;
+
+@Injectable()
+export class ReturnsService {
+  private readonly logger = new Logger(ReturnsService.name);
+  private readonly vendorResponseHours: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paymentService: PaymentService,
+    private readonly notificationService: NotificationService,
+    private readonly configService: ConfigService,
+  ) {
+    this.vendorResponseHours = parseInt(
+      this.configService.get<string>('RETURN_VENDOR_RESPONSE_HOURS', '72'),
+      10,
+    );
+  }
+
+  /**
+   * [5] RETURN WINDOW (days) for a part condition
+   */
+  windowDays(condition: PartCondition): number {
+    return parseInt(
+      this.configService.get<string>(
+        `RETURN_WINDOW_DAYS_${condition}`,
+        String(DEFAULT_RETURN_WINDOW_DAYS[condition]),
+      ),
+      10,
+    );
+  }
+
+  /**
+   * [6] CREATE RETURN (customer)
+   *     [6a] Errors: not your order line → 404; not delivered / window closed / quantity → 400
+   */
+  async createReturn(userId: string, dto: CreateReturnRequestDto) {
+    const item = await this.prisma.orderItem.findUnique({
+      where: { id: dto.orderItemId },
+      include: {
+        part: { select: { condition: true } },
+        order: { include: { shipments: true } },
+        returnRequests: { where: { status: { in: HOLDING_STATUSES } } },
+        refundItems: {
+          include: {
+            refund: { select: { status: true, returnRequest: { select: { id: true } } } },
+          },
+        },
+      },
+    });
+
+    if (!item || item.order.userId !== userId) {
+      throw new NotFoundException('Order item not found');
+    }
+
+    // [6.1] Delivered by its vendor, within the window of its condition
+    const shipment = item.order.shipments.find((s) => s.vendorId === item.vendorId);
+    if (!shipment || shipment.status !== ShipmentStatus.DELIVERED || !shipment.deliveredAt) {
+      throw new BadRequestException('Only delivered items can be returned');
+    }
+
+    const days = this.windowDays(item.part.condition);
+    const closesAt = new Date(shipment.deliveredAt.getTime() + days * 24 * 60 * 60 * 1000);
+    if (closesAt < new Date()) {
+      throw new BadRequestException(
+        `Return window closed (${days} days after delivery for ${item.part.condition} parts)`,
+      );
+    }
+
+    // [6.2] Quantity still returnable
+    const returned = item.returnRequests.reduce((sum, r) => sum + r.quantity, 0);
+    const refunded = item.refundItems
+      .filter((ri) => ri.refund.status !== RefundStatus.FAILED && !ri.refund.returnRequest)
+      .reduce((sum, ri) => sum + ri.quantity, 0);
+    const left = item.quantity - returned - refunded;
+    if (dto.quantity > left) {
+      throw new BadRequestException(
+        `Only ${Math.max(left, 0)} unit(s) of this item can be returned`,
+      );
+    }
+
+    const created = await this.prisma.returnRequest.create({
+      data: {
+        orderId: item.orderId,
+        orderItemId: item.id,
+        vendorId: item.vendorId,
+        userId,
+        quantity: dto.quantity,
+        reason: dto.reason,
+        description: dto.description,
+        photoUrls: dto.photoUrls ?? [],
+        resolution: dto.resolution,
+        vendorDeadline: new Date(Date.now() + this.vendorResponseHours * 60 * 60 * 1000),
+      },
+      include: RETURN_INCLUDE,
+    });
+
+    this.logger.log(`Return ${created.id} opened on item ${item.id} (${dto.reason})`);
+
+    return created;
+  }
+
+  /**
+   * [7] CUSTOMER VIEWS
+   */
+  async listForCustomer(userId: string, query: ListReturnsQueryDto = {}) {
+    return this.prisma.returnRequest.findMany({
+      where: { userId, status: query.status },
+      include: RETURN_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getForCustomer(userId: string, returnId: string) {
+    const found = await this.prisma.returnRequest.findFirst({
+      where: { id: returnId, userId },
+      include: RETURN_INCLUDE,
+    });
+    if (!found) {
+      throw new NotFoundException('Return request not found');
+    }
+    return found;
+  }
+
+  /**
+   * [8] ESCALATE (customer)
+   *     [8a] After a vendor rejection, or when the vendor let the deadline pass
+   *     [8b] Once per return; an admin rejection is final
+   */
+  async escalate(userId: string, returnId: string, note?: string) {
+    const found = await this.getForCustomer(userId, returnId);
+
+    const rejectedByVendor =
+      found.status === ReturnStatus.REJECTED && found.decidedByType === 'MERCHANT';
+    const vendorLate = found.status === ReturnStatus.REQUESTED && found.vendorDeadline < new Date();
+    if (found.escalatedAt || !(rejectedByVendor || vendorLate)) {
+      throw new BadRequestException('This return cannot be escalated');
+    }
+
+    const { count } = await this.prisma.returnRequest.updateMany({
+      where: { id: returnId, status: found.status, escalatedAt: null },
+      data: { status: ReturnStatus.ESCALATED, escalatedAt: new Date(), escalationNote: note },
+    });
+    if (count === 0) {
+      throw new ConflictException('Return request changed concurrently, please retry');
+    }
+
+    this.logger.log(`Return ${returnId} escalated by customer`);
+
+    return this.getForCustomer(userId, returnId);
+  }
+
+  /**
+   * [9] VENDOR VIEWS + DECISIONS
+   *     [9a] Returns of the caller's vendors only; decisions while REQUESTED and before the deadline
+   */
+  async listForVendor(userId: string, query: ListReturnsQueryDto = {}) {
+    const vendorIds = await this.findOwnedVendorIds(userId);
+
+    return this.prisma.returnRequest.findMany({
+      where: { vendorId: { in: vendorIds }, status: query.status },
+      include: RETURN_INCLUDE,
+      orderBy: { vendorDeadline: 'asc' },
+    });
+  }
+
+  async decideAsVendor(userId: string, returnId: string, approve: boolean, dto: ReturnDecisionDto) {
+    const found = await this.prisma.returnRequest.findFirst({
+      where: { id: returnId, vendor: { userId } },
+    });
+    if (!found) {
+      throw new NotFoundException('Return request not found');
+    }
+    if (found.status !== ReturnStatus.REQUESTED) {
+      throw new BadRequestException(`Return request is already ${found.status}`);
+    }
+    if (found.vendorDeadline < new Date()) {
+      throw new BadRequestException(
+        'Response deadline passed; the return is now decided by an admin',
+      );
+    }
+
+    const actor: OrderActor = { type: 'MERCHANT', id: userId };
+    return approve ? this.approve(found, actor, dto.note) : this.reject(found, actor, dto.note);
+  }
+
+  /**
+   * [10] ADMIN ARBITRATION
+   *      [10a] Default list: escalated returns + requests the vendor left unanswered
+   *      [10b] Approve also retries a refund that failed ([3c])
+   */
+  async listForAdmin(query: ListReturnsQueryDto = {}) {
+    const where: Prisma.ReturnRequestWhereInput = query.status
+      ? { status: query.status }
+      : {
+          OR: [
+            { status: ReturnStatus.ESCALATED },
+            { status: ReturnStatus.REQUESTED, vendorDeadline: { lt: new Date() } },
+          ],
+        };
+
+    return this.prisma.returnRequest.findMany({
+      where,
+      include: RETURN_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async decideAsAdmin(adminId: string, returnId: string, approve: boolean, dto: ReturnDecisionDto) {
+    const found = await this.prisma.returnRequest.findUnique({ where: { id: returnId } });
+    if (!found) {
+      throw new NotFoundException('Return request not found');
+    }
+
+    const actor: OrderActor = { type: 'ADMIN', id: adminId };
+    const open = found.status === ReturnStatus.REQUESTED || found.status === ReturnStatus.ESCALATED;
+    const refundPending =
+      found.status === ReturnStatus.APPROVED &&
+      found.resolution === ReturnResolution.REFUND &&
+      !found.refundId;
+
+    if (approve && refundPending) {
+      return this.refund(found, actor);
+    }
+    if (!open) {
+      throw new BadRequestException(`Return request is already ${found.status}`);
+    }
+
+    return approve ? this.approve(found, actor, dto.note) : this.reject(found, actor, dto.note);
+  }
+
+  /**
+   * [11] APPROVE / REJECT (PRIVATE)
+   */
+  private async approve(found: ReturnRequest, actor: OrderActor, note?: string) {
+    await this.settleDecision(found, ReturnStatus.APPROVED, actor, note);
+
+    if (found.resolution === ReturnResolution.REFUND) {
+      return this.refund({ ...found, status: ReturnStatus.APPROVED }, actor);
+    }
+
+    return this.notifyAndLoad(found.id);
+  }
+
+  private async reject(found: ReturnRequest, actor: OrderActor, note?: string) {
+    if (!note) {
+      throw new BadRequestException('A note is required to reject a return');
+    }
+    await this.settleDecision(found, ReturnStatus.REJECTED, actor, note);
+
+    return this.notifyAndLoad(found.id);
+  }
+
+  private async settleDecision(
+    found: ReturnRequest,
+    status: ReturnStatus,
+    actor: OrderActor,
+    note?: string,
+  ) {
+    const { count } = await this.prisma.returnRequest.updateMany({
+      where: { id: found.id, status: found.status },
+      data: {
+        status,
+        decidedAt: new Date(),
+        decidedByType: actor.type,
+        decidedById: actor.id,
+        ...(actor.type === 'ADMIN' ? { adminNote: note } : { vendorNote: note }),
+      },
+    });
+    if (count === 0) {
+      throw new ConflictException('Return request changed concurrently, please retry');
+    }
+
+    this.logger.log(`Return ${found.id}: ${found.status} → ${status} (${actor.type})`);
+  }
+
+  /**
+   * [12] REFUND THE RETURNED UNITS (PRIVATE)
+   *      [12a] Payment: completed cash payment of the vendor's shipment, else the order payment
+   */
+  private async refund(found: ReturnRequest, actor: OrderActor) {
+    const payments = await this.prisma.payment.findMany({
+      where: { orderId: found.orderId, status: PaymentStatus.COMPLETED },
+      include: { shipment: { select: { vendorId: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const payment =
+      payments.find((p) => p.shipment?.vendorId === found.vendorId) ??
+      payments.find((p) => !p.shipmentId);
+    if (!payment) {
+      throw new BadRequestException('No captured payment to refund for this return');
+    }
+
+    const refund = await this.paymentService.refundPayment(
+      payment.id,
+      {
+        items: [{ orderItemId: found.orderItemId, quantity: found.quantity }],
+        reason: `Return ${found.id}`,
+      },
+      actor,
+      { restock: found.reason !== ReturnReason.DEFECTIVE },
+    );
+
+    await this.prisma.returnRequest.update({
+      where: { id: found.id },
+      data: { status: ReturnStatus.REFUNDED, refundId: refund.id },
+    });
+
+    return this.notifyAndLoad(found.id);
+  }
+
+  /**
+   * [13] NOTIFY CUSTOMER + RETURN FRESH ROW (PRIVATE)
+   *      [13a] Customer email loaded apart: never part of the vendor's response
+   *      [13b] Guest buyers (no email) follow the request in their order page
+   */
+  private async notifyAndLoad(returnId: string) {
+    const updated = await this.prisma.returnRequest.findUniqueOrThrow({
+      where: { id: returnId },
+      include: RETURN_INCLUDE,
+    });
+    const customer = await this.prisma.user.findUniqueOrThrow({
+      where: { id: updated.userId },
+      select: { email: true },
+    });
+
+    if (customer.email) {
+      this.notificationService
+        .sendEmail(
+          {
+            to: customer.email,
+            template: EmailTemplate.RETURN_UPDATED,
+            variables: {
+              returnId,
+              orderId: updated.orderId,
+              partTitle: updated.orderItem.part.title,
+              status: updated.status,
+              note: updated.adminNote ?? updated.vendorNote,
+            },
+          },
+          updated.userId,
+        )
+        .catch((error: Error) => {
+          this.logger.error(`Failed to send return update email: ${error.message}`);
+        });
+    }
+
+    return updated;
+  }
+
+  private async findOwnedVendorIds(userId: string): Promise<string[]> {
+    const vendors = await this.prisma.vendor.findMany({
+      where: { userId },
+      select: { id: true },
+    });
+    if (vendors.length === 0) {
+      throw new ForbiddenException('No vendor account linked to this user');
+    }
+    return vendors.map((v) => v.id);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VENDOR RETURNS CONTROLLER — Merchant Return Decisions                       ║
+ * ║  Handles: Returns on the vendor's order lines, approve / reject before the deadline               ║
+ * ║  Routes: /v1/vendor/returns/* (owner of the vendor, via Vendor.userId)                            ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET  /?status=       → Returns on the vendor's items (closest deadline first)
+ *     [1b] POST /:id/approve    → { note? } → APPROVED (REFUND: refunded + restocked)
+ *     [1c] POST /:id/reject     → { note } → REJECTED (customer may escalate)
+ *
+ * [2] ERRORS
+ *     [2a] Not the vendor's return → 404
+ *     [2b] Already decided / deadline passed / reject without note → 400
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { ReturnsService } from './returns.service';
+import { ListReturnsQueryDto, ReturnDecisionDto } from './dto/return-request.dto';
+
+@Controller('vendor/returns')
+@ApiTags('vendor-returns')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+export class VendorReturnsController {
+  constructor(private readonly returnsService: ReturnsService) {}
+
+  @Get()
+  async listReturns(@Query() query: ListReturnsQueryDto, @CurrentUser() user: CurrentUserPayload) {
+    return this.returnsService.listForVendor(user.sub, query);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  async approve(
+    @Param('id') id: string,
+    @Body() dto: ReturnDecisionDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.returnsService.decideAsVendor(user.sub, id, true, dto);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  async reject(
+    @Param('id') id: string,
+    @Body() dto: ReturnDecisionDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.returnsService.decideAsVendor(user.sub, id, false, dto);
+  }
+}
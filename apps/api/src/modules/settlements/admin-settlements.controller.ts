@@ -0,0 +1,136 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        ADMIN SETTLEMENTS CONTROLLER — Finance Back-Office                          ║
+ * ║  Handles: Commission rules, ledger sync, payout batches, mark paid, CSV statements                ║
+ * ║  Routes: /v1/admin/settlements/* (ADMIN only)                                                     ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET   /commission-rules            → List rules
+ *     [1b] POST  /commission-rules            → Create rule (global / vendor / condition)
+ *     [1c] PATCH /commission-rules/:id        → Change rate / deactivate
+ *     [1d] POST  /ledger/sync                 → Build missing ledger entries
+ *     [1e] GET   /payout-batches              → List batches
+ *     [1f] POST  /payout-batches              → Create batch { periodEnd? }
+ *     [1g] GET   /payout-batches/:id          → Batch with vendor payouts
+ *     [1h] POST  /payouts/:id/mark-paid       → { paymentReference, paymentMethod? }
+ *     [1i] POST  /payouts/:id/cancel          → Release entries
+ *     [1j] GET   /payouts/:id/statement       → CSV statement
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Res,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { CommissionService } from './commission.service';
+import { SettlementService } from './settlement.service';
+import { CreateCommissionRuleDto, UpdateCommissionRuleDto } from './dto/commission-rule.dto';
+import { CreatePayoutBatchDto, MarkPayoutPaidDto } from './dto/payout.dto';
+
+@Controller('admin/settlements')
+@ApiTags('admin-settlements')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AdminSettlementsController {
+  constructor(
+    private readonly commissionService: CommissionService,
+    private readonly settlementService: SettlementService,
+  ) {}
+
+  /**
+   * [2] COMMISSION RULES
+   */
+  @Get('commission-rules')
+  @Roles('ADMIN')
+  async listRules() {
+    return this.commissionService.listRules();
+  }
+
+  @Post('commission-rules')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.CREATED)
+  async createRule(@Body() dto: CreateCommissionRuleDto) {
+    return this.commissionService.createRule(dto);
+  }
+
+  @Patch('commission-rules/:id')
+  @Roles('ADMIN')
+  async updateRule(@Param('id') id: string, @Body() dto: UpdateCommissionRuleDto) {
+    return this.commissionService.updateRule(id, dto);
+  }
+
+  /**
+   * [3] LEDGER SYNC
+   *     Idempotent: only creates entries that are missing
+   */
+  @Post('ledger/sync')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async syncLedger() {
+    return this.settlementService.syncLedger();
+  }
+
+  /**
+   * [4] PAYOUT BATCHES
+   */
+  @Get('payout-batches')
+  @Roles('ADMIN')
+  async listBatches() {
+    return this.settlementService.listBatches();
+  }
+
+  @Post('payout-batches')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.CREATED)
+  async createBatch(@Body() dto: CreatePayoutBatchDto, @CurrentUser() user: CurrentUserPayload) {
+    return this.settlementService.createPayoutBatch(dto, user.sub);
+  }
+
+  @Get('payout-batches/:id')
+  @Roles('ADMIN')
+  async getBatch(@Param('id') id: string) {
+    return this.settlementService.getBatch(id);
+  }
+
+  /**
+   * [5] PAYOUTS
+   */
+  @Post('payouts/:id/mark-paid')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async markPaid(@Param('id') id: string, @Body() dto: MarkPayoutPaidDto) {
+    return this.settlementService.markPayoutPaid(id, dto);
+  }
+
+  @Post('payouts/:id/cancel')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async cancelPayout(@Param('id') id: string) {
+    return this.settlementService.cancelPayout(id);
+  }
+
+  @Get('payouts/:id/statement')
+  @Roles('ADMIN')
+  async downloadStatement(@Param('id') id: string, @Res() res: Response) {
+    const csv = await this.settlementService.getPayoutStatementCsv(id);
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="payout-${id}.csv"`);
+    res.send(csv);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              COMMISSION SERVICE TESTS — Rate Resolution                                           ║
+ * ║  Tests: Most specific rule wins, fallback to default rate                                         ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { ConfigService } from '@nestjs/config';
+import { CommissionRule, PartCondition, Prisma } from '@prisma/client';
+import { CommissionService } from './commission.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const rule = (
+  rate: number,
+  vendorId: string | null = null,
+  condition: PartCondition | null = null,
+): CommissionRule => ({
+  id: `${vendorId}-${condition}`,
+  vendorId,
+  condition,
+  rate: new Prisma.Decimal(rate),
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('CommissionService - resolveRate', () => {
+  const config = { get: jest.fn((_key: string, fallback: unknown) => fallback) };
+  const service = new CommissionService({} as PrismaService, config as unknown as ConfigService);
+
+  const rules = [
+    rule(0.1),
+    rule(0.15, null, PartCondition.NEW),
+    rule(0.08, 'vendor-1'),
+    rule(0.05, 'vendor-1', PartCondition.NEW),
+  ];
+
+  it('should prefer vendor + condition, then vendor, then condition, then global', () => {
+    expect(service.resolveRate(rules, 'vendor-1', PartCondition.NEW)).toBe(0.05);
+    expect(service.resolveRate(rules, 'vendor-1', PartCondition.USED_GOOD)).toBe(0.08);
+    expect(service.resolveRate(rules, 'vendor-2', PartCondition.NEW)).toBe(0.15);
+    expect(service.resolveRate(rules, 'vendor-2', PartCondition.USED_GOOD)).toBe(0.1);
+  });
+
+  it('should fall back to the configured default without rules', () => {
+    expect(service.resolveRate([], 'vendor-1', PartCondition.NEW)).toBe(0.1);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        COMMISSION SERVICE — Marketplace Commission Rules                           ║
+ * ║  Implements: Rule CRUD, rate resolution (global / per vendor / per part condition)                ║
+ * ║  Used by: SettlementService (ledger entries snapshot the resolved rate)                            ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] RESOLUTION (most specific active rule wins)
+ *     [1a] vendor + condition
+ *     [1b] vendor
+ *     [1c] condition
+ *     [1d] global (no vendor, no condition)
+ *     [1e] No rule → MARKETPLACE_COMMISSION_RATE env (default 0.10)
+ *
+ * [2] WHY SNAPSHOT THE RATE?
+ *     [2a] Each SettlementEntry stores commissionRate → changing a rule never rewrites history
+ */
+
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CommissionRule, PartCondition } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateCommissionRuleDto, UpdateCommissionRuleDto } from './dto/commission-rule.dto';
+
+@Injectable()
+export class CommissionService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * [3] LIST RULES (most specific first)
+   */
+  async listRules() {
+    return this.prisma.commissionRule.findMany({
+      include: { vendor: { select: { id: true, name: true } } },
+      orderBy: [{ vendorId: 'asc' }, { condition: 'asc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * [4] CREATE RULE
+   *     One active rule per (vendor, condition) pair → older one is deactivated
+   */
+  async createRule(dto: CreateCommissionRuleDto) {
+    if (dto.vendorId) {
+      const vendor = await this.prisma.vendor.findUnique({ where: { id: dto.vendorId } });
+      if (!vendor) {
+        throw new BadRequestException('Vendor not found');
+      }
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.commissionRule.updateMany({
+        where: {
+          vendorId: dto.vendorId ?? null,
+          condition: dto.condition ?? null,
+          isActive: true,
+        },
+        data: { isActive: false },
+      });
+
+      return tx.commissionRule.create({
+        data: {
+          vendorId: dto.vendorId,
+          condition: dto.condition,
+          rate: dto.rate,
+        },
+      });
+    });
+  }
+
+  /**
+   * [5] UPDATE RULE (rate, active flag)
+   */
+  async updateRule(id: string, dto: UpdateCommissionRuleDto) {
+    const rule = await this.prisma.commissionRule.findUnique({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException('Commission rule not found');
+    }
+
+    return this.prisma.commissionRule.update({
+      where: { id },
+      data: { rate: dto.rate, isActive: dto.isActive },
+    });
+  }
+
+  /**
+   * [6] LOAD ACTIVE RULES
+   *     Loaded once per ledger sync, then resolved in memory
+   */
+  async loadActiveRules(): Promise<CommissionRule[]> {
+    return this.prisma.commissionRule.findMany({ where: { isActive: true } });
+  }
+
+  /**
+   * [7] RESOLVE RATE
+   *     [7a] Pure: picks the most specific rule among `rules`
+   *     [7b] Rules pinned to another vendor/condition are ignored
+   */
+  resolveRate(rules: CommissionRule[], vendorId: string, condition: PartCondition): number {
+    let best: CommissionRule | undefined;
+    let bestScore = -1;
+
+    for (const rule of rules) {
+      if (rule.vendorId && rule.vendorId !== vendorId) continue;
+      if (rule.condition && rule.condition !== condition) continue;
+
+      const score = (rule.vendorId ? 2 : 0) + (rule.condition ? 1 : 0);
+      if (score > bestScore) {
+        best = rule;
+        bestScore = score;
+      }
+    }
+
+    return best ? Number(best.rate) : this.defaultRate();
+  }
+
+  private defaultRate(): number {
+    return Number(this.configService.get('MARKETPLACE_COMMISSION_RATE', 0.1));
+  }
+}
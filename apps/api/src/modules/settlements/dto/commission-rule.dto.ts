@@ -0,0 +1,38 @@
+/**
+ * [1] COMMISSION RULE DTOs
+ *     vendorId + condition both empty → global rule
+ *     rate is a fraction: 0.1 = 10 %
+ */
+
+import { IsBoolean, IsEnum, IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { PartCondition } from '@prisma/client';
+
+export class CreateCommissionRuleDto {
+  // [2] VENDOR (OPTIONAL): rule applies to this vendor only
+  @IsOptional()
+  @IsString()
+  vendorId?: string;
+
+  // [3] PART CONDITION (OPTIONAL): rule applies to this condition only
+  @IsOptional()
+  @IsEnum(PartCondition)
+  condition?: PartCondition;
+
+  // [4] RATE (0 → 1)
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  @Max(1)
+  rate!: number;
+}
+
+export class UpdateCommissionRuleDto {
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  @Max(1)
+  rate?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,28 @@
+/**
+ * [1] PAYOUT DTOs
+ *     Batch creation (period end) and mark-as-paid (mobile money reference)
+ */
+
+import { IsDateString, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreatePayoutBatchDto {
+  // [2] PERIOD END (OPTIONAL, default: now)
+  //     Ledger entries created before this date are included
+  @IsOptional()
+  @IsDateString()
+  periodEnd?: string;
+}
+
+export class MarkPayoutPaidDto {
+  // [3] MOBILE MONEY TRANSACTION REFERENCE
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  paymentReference!: string;
+
+  // [4] CHANNEL (OPTIONAL): FLOOZ, TMONEY, MTN_MOMO, BANK_TRANSFER...
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  paymentMethod?: string;
+}
@@ -0,0 +1,369 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              SETTLEMENT SERVICE TESTS — Vendor Ledger                                             ║
+ * ║  Tests: Sale entries, cash sales, shipping fees, pro rata refund entries, statement ownership     ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { PartCondition, Prisma, SettlementEntryType } from '@prisma/client';
+import { SettlementService } from './settlement.service';
+import { CommissionService } from './commission.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SettlementService', () => {
+  let service: SettlementService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+
+  const orderPayment = {
+    id: 'pay-1',
+    status: 'completed',
+    method: 'mobile_money',
+    currency: 'XOF',
+    shipmentId: null,
+    shipment: null,
+  };
+
+  const cashPayment = (vendorId: string, status: string) => ({
+    id: `cash-${vendorId}`,
+    status,
+    method: 'cash_on_pickup',
+    currency: 'XOF',
+    shipmentId: `ship-${vendorId}`,
+    shipment: { vendorId },
+  });
+
+  const createPrismaMock = () => ({
+    orderItem: { findMany: jest.fn().mockResolvedValue([]) },
+    shipment: { findMany: jest.fn().mockResolvedValue([]) },
+    refund: { findMany: jest.fn().mockResolvedValue([]) },
+    settlementEntry: {
+      createMany: jest.fn((args: { data: unknown[] }) =>
+        Promise.resolve({ count: args.data.length }),
+      ),
+    },
+    payout: { findUnique: jest.fn() },
+  });
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SettlementService,
+        { provide: PrismaService, useValue: mockPrisma },
+        {
+          provide: CommissionService,
+          useValue: { loadActiveRules: jest.fn().mockResolvedValue([]), resolveRate: () => 0.1 },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SettlementService>(SettlementService);
+  });
+
+  it('should create one SALE entry per paid order item', async () => {
+    mockPrisma.orderItem.findMany.mockResolvedValueOnce([
+      {
+        id: 'item-1',
+        orderId: 'order-1',
+        vendorId: 'vendor-1',
+        quantity: 2,
+        unitPrice: new Prisma.Decimal(7500),
+        discount: new Prisma.Decimal(0),
+        vendorDiscount: new Prisma.Decimal(0),
+        part: { condition: PartCondition.NEW },
+        order: { payments: [orderPayment] },
+      },
+    ]);
+
+    const result = await service.syncLedger();
+
+    expect(result).toEqual({ sales: 1, shippingFees: 0, refunds: 0 });
+    expect(mockPrisma.settlementEntry.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          sourceKey: 'SALE:item-1',
+          type: SettlementEntryType.SALE,
+          gross: 15000,
+          commission: 1500,
+          net: 13500,
+        }),
+      ],
+      skipDuplicates: true,
+    });
+  });
+
+  it('should spread a money-only refund over order lines at the sale rate', async () => {
+    mockPrisma.refund.findMany.mockResolvedValueOnce([
+      {
+        id: 'refund-1',
+        orderId: 'order-1',
+        paymentId: 'pay-1',
+        amount: new Prisma.Decimal(3000),
+        payment: orderPayment,
+        items: [],
+        shipments: [],
+        order: {
+          payments: [orderPayment],
+          items: [
+            {
+              id: 'item-1',
+              vendorId: 'vendor-1',
+              quantity: 1,
+              unitPrice: new Prisma.Decimal(10000),
+              discount: new Prisma.Decimal(0),
+              vendorDiscount: new Prisma.Decimal(0),
+              part: { condition: PartCondition.NEW },
+              settlementEntries: [{ commissionRate: new Prisma.Decimal(0.2) }],
+            },
+            {
+              id: 'item-2',
+              vendorId: 'vendor-2',
+              quantity: 1,
+              unitPrice: new Prisma.Decimal(20000),
+              discount: new Prisma.Decimal(0),
+              vendorDiscount: new Prisma.Decimal(0),
+              part: { condition: PartCondition.NEW },
+              settlementEntries: [],
+            },
+          ],
+        },
+      },
+    ]);
+
+    await service.syncLedger();
+
+    const { data } = mockPrisma.settlementEntry.createMany.mock.calls[0][0];
+    expect(data).toEqual([
+      expect.objectContaining({ vendorId: 'vendor-1', gross: -1000, commission: -200, net: -800 }),
+      expect.objectContaining({ vendorId: 'vendor-2', gross: -2000, commission: -200, net: -1800 }),
+    ]);
+  });
+
+  it('should book cash collected at pickup as commission owed, per vendor', async () => {
+    const item = (id: string, vendorId: string) => ({
+      id,
+      orderId: 'order-1',
+      vendorId,
+      quantity: 1,
+      unitPrice: new Prisma.Decimal(10000),
+      discount: new Prisma.Decimal(0),
+      vendorDiscount: new Prisma.Decimal(0),
+      part: { condition: PartCondition.NEW },
+      order: {
+        payments: [cashPayment('vendor-1', 'completed'), cashPayment('vendor-2', 'pending')],
+      },
+    });
+    mockPrisma.orderItem.findMany.mockResolvedValueOnce([
+      item('item-1', 'vendor-1'),
+      item('item-2', 'vendor-2'),
+    ]);
+
+    await expect(service.syncLedger()).resolves.toEqual({ sales: 1, shippingFees: 0, refunds: 0 });
+
+    const { data } = mockPrisma.settlementEntry.createMany.mock.calls[0][0];
+    expect(data).toEqual([
+      expect.objectContaining({
+        orderItemId: 'item-1',
+        paymentId: 'cash-vendor-1',
+        type: SettlementEntryType.CASH_SALE,
+        gross: 10000,
+        commission: 1000,
+        net: -1000,
+      }),
+    ]);
+  });
+
+  it('should only reverse the commission of a cash refund', async () => {
+    mockPrisma.refund.findMany.mockResolvedValueOnce([
+      {
+        id: 'refund-1',
+        orderId: 'order-1',
+        paymentId: 'cash-vendor-1',
+        amount: new Prisma.Decimal(5000),
+        payment: cashPayment('vendor-1', 'completed'),
+        items: [],
+        shipments: [],
+        order: {
+          payments: [cashPayment('vendor-1', 'completed'), cashPayment('vendor-2', 'completed')],
+          items: ['vendor-1', 'vendor-2'].map((vendorId) => ({
+            id: `item-${vendorId}`,
+            vendorId,
+            quantity: 1,
+            unitPrice: new Prisma.Decimal(10000),
+            discount: new Prisma.Decimal(0),
+            vendorDiscount: new Prisma.Decimal(0),
+            part: { condition: PartCondition.NEW },
+            settlementEntries: [{ commissionRate: new Prisma.Decimal(0.1) }],
+          })),
+        },
+      },
+    ]);
+
+    await service.syncLedger();
+
+    const { data } = mockPrisma.settlementEntry.createMany.mock.calls[0][0];
+    expect(data).toEqual([
+      expect.objectContaining({ vendorId: 'vendor-1', gross: -5000, commission: -500, net: 500 }),
+    ]);
+  });
+
+  it('should keep marketplace coupons out of the vendor gross', async () => {
+    mockPrisma.orderItem.findMany.mockResolvedValueOnce([
+      {
+        id: 'item-1',
+        orderId: 'order-1',
+        vendorId: 'vendor-1',
+        quantity: 1,
+        unitPrice: new Prisma.Decimal(10000),
+        discount: new Prisma.Decimal(2000),
+        vendorDiscount: new Prisma.Decimal(0),
+        part: { condition: PartCondition.NEW },
+        order: { payments: [orderPayment] },
+      },
+    ]);
+    mockPrisma.refund.findMany.mockResolvedValueOnce([
+      {
+        id: 'refund-1',
+        orderId: 'order-1',
+        paymentId: 'pay-1',
+        amount: new Prisma.Decimal(8000),
+        payment: orderPayment,
+        items: [{ orderItemId: 'item-1', amount: new Prisma.Decimal(8000) }],
+        shipments: [],
+        order: {
+          payments: [orderPayment],
+          items: [
+            {
+              id: 'item-1',
+              vendorId: 'vendor-1',
+              quantity: 1,
+              unitPrice: new Prisma.Decimal(10000),
+              discount: new Prisma.Decimal(2000),
+              vendorDiscount: new Prisma.Decimal(0),
+              part: { condition: PartCondition.NEW },
+              settlementEntries: [{ commissionRate: new Prisma.Decimal(0.1) }],
+            },
+          ],
+        },
+      },
+    ]);
+
+    await service.syncLedger();
+
+    const [[sales], [refunds]] = mockPrisma.settlementEntry.createMany.mock.calls;
+    expect(sales.data).toEqual([expect.objectContaining({ gross: 10000, net: 9000 })]);
+    expect(refunds.data).toEqual([expect.objectContaining({ gross: -10000, net: -9000 })]);
+  });
+
+  it('should credit shipping fees to the vendor and take them back when refunded', async () => {
+    mockPrisma.shipment.findMany.mockResolvedValueOnce([
+      {
+        id: 'ship-1',
+        orderId: 'order-1',
+        vendorId: 'vendor-1',
+        shippingFee: new Prisma.Decimal(2000),
+        order: { payments: [orderPayment] },
+      },
+    ]);
+    mockPrisma.refund.findMany.mockResolvedValueOnce([
+      {
+        id: 'refund-1',
+        orderId: 'order-1',
+        paymentId: 'pay-1',
+        amount: new Prisma.Decimal(12000),
+        payment: orderPayment,
+        items: [{ orderItemId: 'item-1', amount: new Prisma.Decimal(10000) }],
+        shipments: [{ id: 'ship-1', vendorId: 'vendor-1', shippingFee: new Prisma.Decimal(2000) }],
+        order: {
+          payments: [orderPayment],
+          items: [
+            {
+              id: 'item-1',
+              vendorId: 'vendor-1',
+              quantity: 1,
+              unitPrice: new Prisma.Decimal(10000),
+              discount: new Prisma.Decimal(0),
+              vendorDiscount: new Prisma.Decimal(0),
+              part: { condition: PartCondition.NEW },
+              settlementEntries: [{ commissionRate: new Prisma.Decimal(0.1) }],
+            },
+          ],
+        },
+      },
+    ]);
+
+    await expect(service.syncLedger()).resolves.toEqual({
+      sales: 0,
+      shippingFees: 1,
+      refunds: 2,
+    });
+
+    const [[fees], [refunds]] = mockPrisma.settlementEntry.createMany.mock.calls;
+    expect(fees.data).toEqual([
+      expect.objectContaining({
+        sourceKey: 'SHIPPING:ship-1',
+        type: SettlementEntryType.SHIPPING_FEE,
+        shipmentId: 'ship-1',
+        gross: 2000,
+        commission: 0,
+        net: 2000,
+      }),
+    ]);
+    expect(refunds.data).toEqual([
+      expect.objectContaining({ orderItemId: 'item-1', gross: -10000, net: -9000 }),
+      expect.objectContaining({
+        sourceKey: 'REFUND:refund-1:SHIPPING:ship-1',
+        shipmentId: 'ship-1',
+        gross: -2000,
+        net: -2000,
+      }),
+    ]);
+  });
+
+  it('should keep vendor names and part titles from running as spreadsheet formulas', async () => {
+    mockPrisma.payout.findUnique.mockResolvedValue({
+      id: 'payout-1',
+      amount: new Prisma.Decimal(-9000),
+      currency: 'XOF',
+      vendor: { userId: 'owner', name: '=HYPERLINK("http://evil")' },
+      entries: [
+        {
+          createdAt: new Date('2026-01-05T10:00:00Z'),
+          type: SettlementEntryType.REFUND,
+          orderId: 'order-1',
+          orderItemId: 'item-1',
+          shipmentId: null,
+          orderItem: { quantity: 1, part: { title: '@SUM(A1:A9)' } },
+          gross: new Prisma.Decimal(-10000),
+          commissionRate: new Prisma.Decimal(0.1),
+          commission: new Prisma.Decimal(-1000),
+          net: new Prisma.Decimal(-9000),
+          currency: 'XOF',
+        },
+      ],
+    });
+
+    const csv = await service.getPayoutStatementCsv('payout-1', 'owner');
+    const [, entry, total] = csv.split('\n');
+
+    expect(entry).toBe(
+      "2026-01-05T10:00:00.000Z,REFUND,order-1,item-1,'@SUM(A1:A9),1,-10000.00,0.1000,-1000.00,-9000.00,XOF",
+    );
+    expect(total).toContain(',"\'=HYPERLINK(""http://evil"")",');
+  });
+
+  it('should hide statements of payouts owned by another user', async () => {
+    mockPrisma.payout.findUnique.mockResolvedValue({
+      id: 'payout-1',
+      vendor: { userId: 'owner' },
+      entries: [],
+    });
+
+    await expect(service.getPayoutStatementCsv('payout-1', 'someone-else')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,720 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        SETTLEMENT SERVICE — Vendor Ledger & Payout Batches                         ║
+ * ║  Implements: Ledger sync (sales + refunds), payout batches, mark paid, CSV statements             ║
+ * ║  Uses: CommissionService (rates), Prisma (SettlementEntry, PayoutBatch, Payout)                   ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] LEDGER (SettlementEntry)
+ *     [1a] SALE: one entry per OrderItem once its payment is completed
+ *          gross = unitPrice × quantity − vendorDiscount, commission = gross × rate,
+ *          net = gross − commission (a marketplace-funded coupon does not lower the vendor's sale)
+ *     [1b] REFUND: negative entries per OrderItem for each completed Refund
+ *          (money-only refunds are spread over the order lines pro rata)
+ *          Refunds are net of the coupon: scaled back to the vendor's gross for marketplace coupons
+ *     [1c] Refund entries reuse the sale's commission rate → commission is reversed exactly
+ *          Refunds of cash payments are handed back by the vendor → only the commission reverses
+ *     [1d] sourceKey is unique → syncLedger() is idempotent, safe to run any time
+ *     [1e] CASH_SALE: same line paid cash at pickup → the vendor already holds the money,
+ *          net = gross − commission − cash collected (≈ −commission: commission owed)
+ *     [1f] A line is settled by its own payment: the cash payment of its vendor's pickup
+ *          shipment, else the order payment → one vendor collecting cash settles no one else
+ *     [1g] SHIPPING_FEE: one entry per shipment with a fee, once its payment settles; no
+ *          commission (net = fee). A refunded fee (RefundService [1g]) is a negative REFUND entry
+ *
+ * [2] PAYOUT BATCHES
+ *     [2a] Batch = every unpaid entry created before periodEnd, grouped per vendor
+ *     [2b] Only positive balances get a Payout; negative balances carry over
+ *     [2c] Payout PENDING → PAID (mobile money reference) or CANCELLED (entries released)
+ *
+ * [3] STATEMENTS
+ *     [3a] CSV per payout, downloadable by finance (admin) and by the vendor owner
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import {
+  CommissionRule,
+  PayoutStatus,
+  Prisma,
+  RefundStatus,
+  SettlementEntryType,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentMethod, PaymentStatus } from '../payments/dto/create-payment.dto';
+import { CommissionService } from './commission.service';
+import { CreatePayoutBatchDto, MarkPayoutPaidDto } from './dto/payout.dto';
+
+const SYNC_BATCH_SIZE = 200;
+
+const SETTLED_PAYMENT_STATUSES: string[] = [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED];
+
+const SALE_ENTRY_TYPES: SettlementEntryType[] = [
+  SettlementEntryType.SALE,
+  SettlementEntryType.CASH_SALE,
+];
+
+// Payment fields needed to find which payment settles an order line
+const COVERING_PAYMENT_SELECT = {
+  id: true,
+  status: true,
+  method: true,
+  currency: true,
+  shipmentId: true,
+  shipment: { select: { vendorId: true } },
+} satisfies Prisma.PaymentSelect;
+
+type CoveringPayment = Prisma.PaymentGetPayload<{ select: typeof COVERING_PAYMENT_SELECT }>;
+
+@Injectable()
+export class SettlementService {
+  private readonly logger = new Logger(SettlementService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly commissionService: CommissionService,
+  ) {}
+
+  /**
+   * [4] SYNC LEDGER
+   *     [4a] Creates missing SALE, then SHIPPING_FEE, then REFUND entries
+   *     [4b] Output: number of entries created per type
+   */
+  async syncLedger() {
+    const rules = await this.commissionService.loadActiveRules();
+    const sales = await this.syncSales(rules);
+    const shippingFees = await this.syncShippingFees();
+    const refunds = await this.syncRefunds(rules);
+
+    if (sales || shippingFees || refunds) {
+      this.logger.log(
+        `Ledger synced: ${sales} sale, ${shippingFees} shipping fee, ${refunds} refund entries`,
+      );
+    }
+    return { sales, shippingFees, refunds };
+  }
+
+  /**
+   * [5] CREATE PAYOUT BATCH
+   *     [5a] Syncs the ledger, then assigns unpaid entries (createdAt < periodEnd) to payouts
+   *     [5b] Serializable transaction → an entry can never land in two payouts
+   */
+  async createPayoutBatch(dto: CreatePayoutBatchDto, createdById?: string) {
+    const periodEnd = dto.periodEnd ? new Date(dto.periodEnd) : new Date();
+    if (periodEnd.getTime() > Date.now()) {
+      throw new BadRequestException('periodEnd cannot be in the future');
+    }
+
+    await this.syncLedger();
+
+    return this.prisma.$transaction(
+      async (tx) => {
+        const unpaid = { payoutId: null, createdAt: { lt: periodEnd } };
+
+        const balances = await tx.settlementEntry.groupBy({
+          by: ['vendorId'],
+          where: unpaid,
+          _sum: { net: true },
+          _min: { createdAt: true },
+        });
+        const payable = balances.filter((b) => b._sum.net && b._sum.net.greaterThan(0));
+        if (payable.length === 0) {
+          throw new BadRequestException('No vendor balance to pay out for this period');
+        }
+
+        const previous = await tx.payoutBatch.findFirst({ orderBy: { periodEnd: 'desc' } });
+        const earliest = payable
+          .map((b) => b._min.createdAt!)
+          .reduce((min, date) => (date < min ? date : min));
+
+        const batch = await tx.payoutBatch.create({
+          data: {
+            periodStart: previous?.periodEnd ?? earliest,
+            periodEnd,
+            createdById,
+          },
+        });
+
+        for (const balance of payable) {
+          const payout = await tx.payout.create({
+            data: { batchId: batch.id, vendorId: balance.vendorId, amount: balance._sum.net! },
+          });
+          await tx.settlementEntry.updateMany({
+            where: { ...unpaid, vendorId: balance.vendorId },
+            data: { payoutId: payout.id },
+          });
+        }
+
+        this.logger.log(`Payout batch ${batch.id}: ${payable.length} vendor payout(s)`);
+
+        return tx.payoutBatch.findUnique({
+          where: { id: batch.id },
+          include: { payouts: { include: { vendor: { select: { id: true, name: true } } } } },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+    );
+  }
+
+  /**
+   * [6] LIST / GET BATCHES
+   */
+  async listBatches() {
+    return this.prisma.payoutBatch.findMany({
+      include: {
+        payouts: { select: { id: true, vendorId: true, amount: true, status: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getBatch(id: string) {
+    const batch = await this.prisma.payoutBatch.findUnique({
+      where: { id },
+      include: { payouts: { include: { vendor: { select: { id: true, name: true } } } } },
+    });
+    if (!batch) {
+      throw new NotFoundException('Payout batch not found');
+    }
+    return batch;
+  }
+
+  /**
+   * [7] MARK PAYOUT PAID
+   *     Conditional update (PENDING only) with the mobile money reference
+   */
+  async markPayoutPaid(payoutId: string, dto: MarkPayoutPaidDto) {
+    const { count } = await this.prisma.payout.updateMany({
+      where: { id: payoutId, status: PayoutStatus.PENDING },
+      data: {
+        status: PayoutStatus.PAID,
+        paymentReference: dto.paymentReference,
+        paymentMethod: dto.paymentMethod,
+        paidAt: new Date(),
+      },
+    });
+
+    const payout = await this.findPayout(payoutId);
+    if (count === 0) {
+      throw new BadRequestException(`Payout is already ${payout.status}`);
+    }
+    return payout;
+  }
+
+  /**
+   * [8] CANCEL PAYOUT
+   *     PENDING → CANCELLED, entries released for the next batch
+   */
+  async cancelPayout(payoutId: string) {
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.payout.updateMany({
+        where: { id: payoutId, status: PayoutStatus.PENDING },
+        data: { status: PayoutStatus.CANCELLED },
+      });
+      if (count === 0) {
+        const payout = await tx.payout.findUnique({ where: { id: payoutId } });
+        if (!payout) {
+          throw new NotFoundException('Payout not found');
+        }
+        throw new BadRequestException(`Payout is already ${payout.status}`);
+      }
+
+      await tx.settlementEntry.updateMany({
+        where: { payoutId },
+        data: { payoutId: null },
+      });
+    });
+
+    return this.findPayout(payoutId);
+  }
+
+  /**
+   * [9] VENDOR SUMMARY
+   *     Per owned vendor: unpaid balance, pending payouts, paid to date
+   */
+  async getVendorSummary(userId: string) {
+    const vendors = await this.findOwnedVendors(userId);
+
+    return Promise.all(
+      vendors.map(async (vendor) => {
+        const [unpaid, pending, paid] = await Promise.all([
+          this.prisma.settlementEntry.aggregate({
+            where: { vendorId: vendor.id, payoutId: null },
+            _sum: { net: true },
+          }),
+          this.prisma.payout.aggregate({
+            where: { vendorId: vendor.id, status: PayoutStatus.PENDING },
+            _sum: { amount: true },
+          }),
+          this.prisma.payout.aggregate({
+            where: { vendorId: vendor.id, status: PayoutStatus.PAID },
+            _sum: { amount: true },
+          }),
+        ]);
+
+        return {
+          vendorId: vendor.id,
+          vendorName: vendor.name,
+          unpaidBalance: unpaid._sum.net ?? new Prisma.Decimal(0),
+          pendingPayouts: pending._sum.amount ?? new Prisma.Decimal(0),
+          paidToDate: paid._sum.amount ?? new Prisma.Decimal(0),
+        };
+      }),
+    );
+  }
+
+  /**
+   * [10] VENDOR PAYOUTS (owned vendors only)
+   */
+  async listVendorPayouts(userId: string) {
+    const vendors = await this.findOwnedVendors(userId);
+
+    return this.prisma.payout.findMany({
+      where: { vendorId: { in: vendors.map((v) => v.id) } },
+      include: { batch: { select: { periodStart: true, periodEnd: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * [11] PAYOUT STATEMENT (CSV)
+   *     [11a] userId given → vendor download, payout must belong to one of their vendors
+   *     [11b] Columns: date, type, order, item, part, quantity, gross, rate, commission, net, currency
+   */
+  async getPayoutStatementCsv(payoutId: string, userId?: string): Promise<string> {
+    const payout = await this.prisma.payout.findUnique({
+      where: { id: payoutId },
+      include: {
+        vendor: true,
+        batch: true,
+        entries: {
+          include: { orderItem: { include: { part: { select: { title: true } } } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!payout || (userId && payout.vendor.userId !== userId)) {
+      throw new NotFoundException('Payout not found');
+    }
+
+    const lines = [
+      'date,type,order,item,part,quantity,gross,commission_rate,commission,net,currency',
+    ];
+    let gross = new Prisma.Decimal(0);
+    let commission = new Prisma.Decimal(0);
+
+    for (const entry of payout.entries) {
+      gross = gross.plus(entry.gross);
+      commission = commission.plus(entry.commission);
+      lines.push(
+        [
+          entry.createdAt.toISOString(),
+          entry.type,
+          entry.orderId,
+          entry.orderItemId ?? entry.shipmentId ?? '',
+          entry.orderItem?.part.title ?? 'Shipping fee',
+          entry.orderItem?.quantity ?? '',
+          entry.gross.toFixed(2),
+          entry.commissionRate.toFixed(4),
+          entry.commission.toFixed(2),
+          entry.net.toFixed(2),
+          entry.currency,
+        ]
+          .map((value) => this.csvCell(value))
+          .join(','),
+      );
+    }
+
+    lines.push(
+      [
+        'TOTAL',
+        '',
+        '',
+        '',
+        this.csvCell(payout.vendor.name),
+        '',
+        gross.toFixed(2),
+        '',
+        commission.toFixed(2),
+        payout.amount.toFixed(2),
+        payout.currency,
+      ].join(','),
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * [12] SYNC SALES (PRIVATE)
+   *      Order items whose own payment is settled and that have no sale entry yet
+   *      (keyset pagination: lines still waiting for their vendor's cash are skipped, not refetched)
+   */
+  private async syncSales(rules: CommissionRule[]): Promise<number> {
+    let created = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const items = await this.prisma.orderItem.findMany({
+        where: {
+          ...(cursor && { id: { gt: cursor } }),
+          settlementEntries: { none: { type: { in: SALE_ENTRY_TYPES } } },
+          order: { payments: { some: { status: { in: SETTLED_PAYMENT_STATUSES } } } },
+        },
+        include: {
+          part: { select: { condition: true } },
+          order: {
+            select: {
+              payments: { select: COVERING_PAYMENT_SELECT, orderBy: { createdAt: 'asc' } },
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+        take: SYNC_BATCH_SIZE,
+      });
+      if (items.length === 0) break;
+      cursor = items[items.length - 1].id;
+
+      const data = items.flatMap((item) => {
+        const payment = this.coveringPayment(item.order.payments, item.vendorId);
+        if (!payment || !SETTLED_PAYMENT_STATUSES.includes(payment.status)) {
+          return [];
+        }
+
+        const cash = payment.method === PaymentMethod.CASH_ON_PICKUP;
+        const full = Number(item.unitPrice) * item.quantity;
+        const gross = this.round(full - Number(item.vendorDiscount));
+        const rate = this.commissionService.resolveRate(rules, item.vendorId, item.part.condition);
+
+        return [
+          this.buildEntry({
+            sourceKey: `SALE:${item.id}`,
+            type: cash ? SettlementEntryType.CASH_SALE : SettlementEntryType.SALE,
+            vendorId: item.vendorId,
+            orderId: item.orderId,
+            orderItemId: item.id,
+            paymentId: payment.id,
+            currency: payment.currency,
+            gross,
+            rate,
+            collected: cash ? this.round(full - Number(item.discount)) : 0,
+          }),
+        ];
+      });
+
+      if (data.length > 0) {
+        const { count } = await this.prisma.settlementEntry.createMany({
+          data,
+          skipDuplicates: true,
+        });
+        created += count;
+      }
+      if (items.length < SYNC_BATCH_SIZE) break;
+    }
+
+    return created;
+  }
+
+  /**
+   * [12a] SYNC SHIPPING FEES (PRIVATE)
+   *       Shipments with a fee whose payment is settled and that have no fee entry yet
+   */
+  private async syncShippingFees(): Promise<number> {
+    let created = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const shipments = await this.prisma.shipment.findMany({
+        where: {
+          ...(cursor && { id: { gt: cursor } }),
+          shippingFee: { gt: 0 },
+          settlementEntries: { none: { type: SettlementEntryType.SHIPPING_FEE } },
+          order: { payments: { some: { status: { in: SETTLED_PAYMENT_STATUSES } } } },
+        },
+        include: {
+          order: {
+            select: {
+              payments: { select: COVERING_PAYMENT_SELECT, orderBy: { createdAt: 'asc' } },
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+        take: SYNC_BATCH_SIZE,
+      });
+      if (shipments.length === 0) break;
+      cursor = shipments[shipments.length - 1].id;
+
+      const data = shipments.flatMap((shipment) => {
+        const payment = this.coveringPayment(shipment.order.payments, shipment.vendorId);
+        if (!payment || !SETTLED_PAYMENT_STATUSES.includes(payment.status)) {
+          return [];
+        }
+        const fee = Number(shipment.shippingFee);
+        const cash = payment.method === PaymentMethod.CASH_ON_PICKUP;
+
+        return [
+          this.buildEntry({
+            sourceKey: `SHIPPING:${shipment.id}`,
+            type: SettlementEntryType.SHIPPING_FEE,
+            vendorId: shipment.vendorId,
+            orderId: shipment.orderId,
+            shipmentId: shipment.id,
+            paymentId: payment.id,
+            currency: payment.currency,
+            gross: fee,
+            rate: 0,
+            collected: cash ? fee : 0,
+          }),
+        ];
+      });
+
+      if (data.length > 0) {
+        const { count } = await this.prisma.settlementEntry.createMany({
+          data,
+          skipDuplicates: true,
+        });
+        created += count;
+      }
+      if (shipments.length < SYNC_BATCH_SIZE) break;
+    }
+
+    return created;
+  }
+
+  /**
+   * [13] SYNC REFUNDS (PRIVATE)
+   *      Completed refunds without ledger entries
+   */
+  private async syncRefunds(rules: CommissionRule[]): Promise<number> {
+    let created = 0;
+
+    for (;;) {
+      const refunds = await this.prisma.refund.findMany({
+        where: { status: RefundStatus.COMPLETED, settlementEntries: { none: {} } },
+        include: {
+          payment: { select: COVERING_PAYMENT_SELECT },
+          items: true,
+          shipments: { select: { id: true, vendorId: true, shippingFee: true } },
+          order: {
+            include: {
+              items: {
+                include: {
+                  part: { select: { condition: true } },
+                  settlementEntries: {
+                    where: { type: { in: SALE_ENTRY_TYPES } },
+                    select: { commissionRate: true },
+                  },
+                },
+              },
+              payments: { select: COVERING_PAYMENT_SELECT, orderBy: { createdAt: 'asc' } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: SYNC_BATCH_SIZE,
+      });
+      if (refunds.length === 0) break;
+
+      const data = refunds.flatMap((refund) => {
+        // [13.1] WEIGHTS: refunded lines, or every line the payment settled for money-only refunds
+        //        (the shipping fees it returned are booked apart, [13.3])
+        const weights = new Map<string, number>();
+        if (refund.items.length > 0) {
+          for (const ri of refund.items) {
+            weights.set(ri.orderItemId, (weights.get(ri.orderItemId) ?? 0) + Number(ri.amount));
+          }
+        } else {
+          for (const item of refund.order.items) {
+            const payment = this.coveringPayment(refund.order.payments, item.vendorId);
+            if (payment?.id === refund.paymentId) {
+              weights.set(item.id, Number(item.unitPrice) * item.quantity - Number(item.discount));
+            }
+          }
+        }
+        const cash = refund.payment.method === PaymentMethod.CASH_ON_PICKUP;
+
+        const fees = refund.shipments.reduce((sum, s) => sum + Number(s.shippingFee), 0);
+        const itemIds = [...weights.keys()];
+        const shares = this.allocate(
+          this.round(Number(refund.amount) - fees),
+          itemIds.map((id) => weights.get(id)!),
+        );
+
+        // [13.3] ONE NEGATIVE ENTRY PER REFUNDED SHIPPING FEE (no commission)
+        const feeEntries = refund.shipments.map((shipment) =>
+          this.buildEntry({
+            sourceKey: `REFUND:${refund.id}:SHIPPING:${shipment.id}`,
+            type: SettlementEntryType.REFUND,
+            vendorId: shipment.vendorId,
+            orderId: refund.orderId,
+            shipmentId: shipment.id,
+            paymentId: refund.paymentId,
+            refundId: refund.id,
+            currency: refund.payment.currency,
+            gross: -Number(shipment.shippingFee),
+            rate: 0,
+            collected: cash ? -Number(shipment.shippingFee) : 0,
+          }),
+        );
+
+        // [13.2] ONE NEGATIVE ENTRY PER ORDER LINE, AT THE SALE'S RATE
+        const lineEntries = itemIds.map((orderItemId, index) => {
+          const item = refund.order.items.find((i) => i.id === orderItemId)!;
+          const saleRate = item.settlementEntries[0]?.commissionRate;
+          const rate =
+            saleRate !== undefined
+              ? Number(saleRate)
+              : this.commissionService.resolveRate(rules, item.vendorId, item.part.condition);
+
+          return this.buildEntry({
+            sourceKey: `REFUND:${refund.id}:${orderItemId}`,
+            type: SettlementEntryType.REFUND,
+            vendorId: item.vendorId,
+            orderId: refund.orderId,
+            orderItemId,
+            paymentId: refund.paymentId,
+            refundId: refund.id,
+            currency: refund.payment.currency,
+            gross: -this.round(shares[index] * this.vendorShare(item)),
+            rate,
+            collected: cash ? -shares[index] : 0,
+          });
+        });
+
+        return [...lineEntries, ...feeEntries];
+      });
+
+      const { count } = await this.prisma.settlementEntry.createMany({
+        data,
+        skipDuplicates: true,
+      });
+      created += count;
+      if (count === 0 || refunds.length < SYNC_BATCH_SIZE) break;
+    }
+
+    return created;
+  }
+
+  /**
+   * [14] HELPERS (PRIVATE)
+   */
+  private buildEntry(input: {
+    sourceKey: string;
+    type: SettlementEntryType;
+    vendorId: string;
+    orderId: string;
+    orderItemId?: string;
+    shipmentId?: string;
+    paymentId: string;
+    refundId?: string;
+    currency: string;
+    gross: number;
+    rate: number;
+    collected?: number; // [1e] Cash the vendor took (or handed back) itself
+  }): Prisma.SettlementEntryCreateManyInput {
+    const commission = this.round(input.gross * input.rate);
+    return {
+      sourceKey: input.sourceKey,
+      type: input.type,
+      vendorId: input.vendorId,
+      orderId: input.orderId,
+      orderItemId: input.orderItemId,
+      shipmentId: input.shipmentId,
+      paymentId: input.paymentId,
+      refundId: input.refundId,
+      currency: input.currency,
+      gross: input.gross,
+      commissionRate: input.rate,
+      commission,
+      net: this.round(input.gross - commission - (input.collected ?? 0)),
+    };
+  }
+
+  /**
+   * [1f] Payment settling a vendor's line: its pickup cash payment (whatever its status),
+   *      else the settled order payment (failed attempts before it do not count)
+   */
+  private coveringPayment(
+    payments: CoveringPayment[],
+    vendorId: string,
+  ): CoveringPayment | undefined {
+    return (
+      payments.find((p) => p.shipment?.vendorId === vendorId) ??
+      payments.find((p) => !p.shipmentId && SETTLED_PAYMENT_STATUSES.includes(p.status))
+    );
+  }
+
+  /**
+   * Splits `total` pro rata of `weights`; rounding remainder goes to the last share
+   */
+  private allocate(total: number, weights: number[]): number[] {
+    const sum = weights.reduce((acc, w) => acc + w, 0);
+    if (sum <= 0) {
+      return weights.map(() => 0);
+    }
+
+    let allocated = 0;
+    return weights.map((weight, index) => {
+      if (index === weights.length - 1) {
+        return this.round(total - allocated);
+      }
+      const share = this.round((total * weight) / sum);
+      allocated += share;
+      return share;
+    });
+  }
+
+  /**
+   * Vendor gross per unit the customer paid on a line (1 unless the marketplace funded a coupon)
+   */
+  private vendorShare(item: {
+    unitPrice: Prisma.Decimal;
+    quantity: number;
+    discount: Prisma.Decimal;
+    vendorDiscount: Prisma.Decimal;
+  }): number {
+    const full = Number(item.unitPrice) * item.quantity;
+    const paid = full - Number(item.discount);
+    return paid > 0 ? (full - Number(item.vendorDiscount)) / paid : 1;
+  }
+
+  private async findOwnedVendors(userId: string) {
+    const vendors = await this.prisma.vendor.findMany({
+      where: { userId },
+      select: { id: true, name: true },
+    });
+    if (vendors.length === 0) {
+      throw new ForbiddenException('No vendor account linked to this user');
+    }
+    return vendors;
+  }
+
+  private async findPayout(payoutId: string) {
+    const payout = await this.prisma.payout.findUnique({
+      where: { id: payoutId },
+      include: { vendor: { select: { id: true, name: true } } },
+    });
+    if (!payout) {
+      throw new NotFoundException('Payout not found');
+    }
+    return payout;
+  }
+
+  // Text starting with = + - @ runs as a formula in a spreadsheet → prefixed with ' (numbers kept)
+  private csvCell(value: string | number): string {
+    let text = String(value);
+    if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
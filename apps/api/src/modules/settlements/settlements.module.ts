@@ -0,0 +1,27 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        SETTLEMENTS MODULE — Vendor Settlement & Payouts                            ║
+ * ║  Provides: Commission rules, settlement ledger, payout batches, CSV statements                    ║
+ * ║  Dependencies: PrismaModule (database), AuthModule (JWT guards)                                   ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODULE OVERVIEW
+ *     [1a] Controllers: AdminSettlementsController (finance), VendorSettlementsController (merchants)
+ *     [1b] Providers: CommissionService (rates), SettlementService (ledger, payouts)
+ *     [1c] Exports: SettlementService (ledger sync can be triggered by other modules / jobs)
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommissionService } from './commission.service';
+import { SettlementService } from './settlement.service';
+import { AdminSettlementsController } from './admin-settlements.controller';
+import { VendorSettlementsController } from './vendor-settlements.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [AdminSettlementsController, VendorSettlementsController],
+  providers: [CommissionService, SettlementService],
+  exports: [SettlementService],
+})
+export class SettlementsModule {}
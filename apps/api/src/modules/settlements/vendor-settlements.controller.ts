@@ -0,0 +1,51 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VENDOR SETTLEMENTS CONTROLLER — Merchant Payouts                            ║
+ * ║  Handles: Balance summary, payout history, CSV statement download                                 ║
+ * ║  Routes: /v1/vendor/settlements/* (owner of the vendor, via Vendor.userId)                        ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET /summary                 → Unpaid balance, pending payouts, paid to date (per vendor)
+ *     [1b] GET /payouts                 → Payout history
+ *     [1c] GET /payouts/:id/statement   → CSV statement (own payouts only, 404 otherwise)
+ */
+
+import { Controller, Get, Param, Res, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { SettlementService } from './settlement.service';
+
+@Controller('vendor/settlements')
+@ApiTags('vendor-settlements')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+export class VendorSettlementsController {
+  constructor(private readonly settlementService: SettlementService) {}
+
+  @Get('summary')
+  async getSummary(@CurrentUser() user: CurrentUserPayload) {
+    return this.settlementService.getVendorSummary(user.sub);
+  }
+
+  @Get('payouts')
+  async listPayouts(@CurrentUser() user: CurrentUserPayload) {
+    return this.settlementService.listVendorPayouts(user.sub);
+  }
+
+  @Get('payouts/:id/statement')
+  async downloadStatement(
+    @Param('id') id: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Res() res: Response,
+  ) {
+    const csv = await this.settlementService.getPayoutStatementCsv(id, user.sub);
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="payout-${id}.csv"`);
+    res.send(csv);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * [1] SHIPPING ZONE DTOs
+ *     Fees are in the part currency (XOF)
+ *     destinationCountry only applies to CROSS_BORDER zones (null = every supported country)
+ */
+
+import {
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ShippingFeeType, ShippingZoneScope } from '@prisma/client';
+
+export const SHIPPING_COUNTRIES = ['TG', 'BJ', 'NE'];
+
+export class CreateShippingZoneDto {
+  // [2] VENDOR (must belong to the caller)
+  @IsString()
+  vendorId!: string;
+
+  // [3] WHERE: same city / same country / cross-border
+  @IsEnum(ShippingZoneScope)
+  scope!: ShippingZoneScope;
+
+  @ValidateIf((dto) => dto.scope === ShippingZoneScope.CROSS_BORDER && dto.destinationCountry)
+  @IsIn(SHIPPING_COUNTRIES)
+  destinationCountry?: string;
+
+  // [4] HOW MUCH: flat fee, or base fee + price per started kg
+  @IsOptional()
+  @IsEnum(ShippingFeeType)
+  feeType?: ShippingFeeType;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  baseFee!: number;
+
+  @ValidateIf((dto) => dto.feeType === ShippingFeeType.WEIGHT || dto.perKgFee !== undefined)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  perKgFee?: number;
+
+  // [5] FREE SHIPPING from this vendor subtotal
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  freeShippingThreshold?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  estimatedDays?: number;
+}
+
+export class UpdateShippingZoneDto {
+  @IsOptional()
+  @IsEnum(ShippingFeeType)
+  feeType?: ShippingFeeType;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  baseFee?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  perKgFee?: number;
+
+  // null clears the threshold
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  freeShippingThreshold?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  estimatedDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,25 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        SHIPPING MODULE — Delivery Zones & Shipping Fees                            ║
+ * ║  Provides: Vendor delivery zones, per-shipment fee quotes                                         ║
+ * ║  Dependencies: PrismaModule (database), AuthModule (JWT guards)                                   ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODULE OVERVIEW
+ *     [1a] Controllers: VendorShippingZonesController (merchants)
+ *     [1b] Providers: ShippingService (zones, quotes)
+ *     [1c] Exports: ShippingService (OrdersModule quotes fees at checkout)
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ShippingService } from './shipping.service';
+import { VendorShippingZonesController } from './vendor-shipping-zones.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [VendorShippingZonesController],
+  providers: [ShippingService],
+  exports: [ShippingService],
+})
+export class ShippingModule {}
@@ -0,0 +1,182 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              SHIPPING SERVICE TESTS — Zone Resolution & Fees                                      ║
+ * ║  Tests: Same city / same country / cross-border, flat vs weight, free shipping, zone ownership   ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, ShippingFeeType, ShippingZone, ShippingZoneScope } from '@prisma/client';
+import { ShippingService, ShipmentQuoteRequest } from './shipping.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const zone = (
+  scope: ShippingZoneScope,
+  baseFee: number,
+  overrides: Partial<ShippingZone> = {},
+): ShippingZone => ({
+  id: `${scope}-${overrides.destinationCountry ?? 'any'}`,
+  vendorId: 'vendor-1',
+  scope,
+  destinationCountry: null,
+  feeType: ShippingFeeType.FLAT,
+  baseFee: new Prisma.Decimal(baseFee),
+  perKgFee: new Prisma.Decimal(0),
+  freeShippingThreshold: null,
+  estimatedDays: null,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const request = (
+  destination: ShipmentQuoteRequest['destination'],
+  items: ShipmentQuoteRequest['items'] = [{ quantity: 1, unitPrice: 20000, weightKg: 2 }],
+): ShipmentQuoteRequest => ({
+  vendor: { id: 'vendor-1', city: 'Lomé', country: 'TG' },
+  destination,
+  items,
+});
+
+describe('ShippingService - quoteShipment', () => {
+  const config = { get: jest.fn((_key: string, fallback: unknown) => fallback) };
+  const service = new ShippingService({} as PrismaService, config as unknown as ConfigService);
+
+  const zones = [
+    zone(ShippingZoneScope.SAME_CITY, 1000),
+    zone(ShippingZoneScope.SAME_COUNTRY, 2500),
+    zone(ShippingZoneScope.CROSS_BORDER, 8000),
+    zone(ShippingZoneScope.CROSS_BORDER, 5000, { destinationCountry: 'BJ' }),
+  ];
+
+  it('should pick same city, then same country, then the cross-border zone of the country', () => {
+    expect(service.quoteShipment(zones, request({ city: ' lome', country: 'TG' })).fee).toBe(1000);
+    expect(service.quoteShipment(zones, request({ city: 'Kara', country: 'TG' })).fee).toBe(2500);
+    expect(service.quoteShipment(zones, request({ city: 'Cotonou', country: 'bj' })).fee).toBe(
+      5000,
+    );
+    expect(service.quoteShipment(zones, request({ city: 'Niamey', country: 'NE' })).fee).toBe(8000);
+  });
+
+  it('should fall back to the same-country zone without a same-city zone', () => {
+    const quote = service.quoteShipment(
+      zones.filter((z) => z.scope !== ShippingZoneScope.SAME_CITY),
+      request({ city: 'Lomé', country: 'TG' }),
+    );
+
+    expect(quote).toMatchObject({ fee: 2500, scope: ShippingZoneScope.SAME_COUNTRY });
+  });
+
+  it('should add the price per started kg for weight-based zones', () => {
+    const weightZone = zone(ShippingZoneScope.SAME_COUNTRY, 2000, {
+      feeType: ShippingFeeType.WEIGHT,
+      perKgFee: new Prisma.Decimal(500),
+    });
+
+    const quote = service.quoteShipment(
+      [weightZone],
+      request({ city: 'Kara', country: 'TG' }, [
+        { quantity: 2, unitPrice: 5000, weightKg: 1.2 },
+        { quantity: 1, unitPrice: 5000, weightKg: null },
+      ]),
+    );
+
+    // 2 × 1.2 kg + 1 kg (default weight) = 3.4 kg → 4 kg billed
+    expect(quote.weightKg).toBeCloseTo(3.4);
+    expect(quote.fee).toBe(2000 + 4 * 500);
+  });
+
+  it('should offer shipping from the free-shipping threshold', () => {
+    const freeZone = zone(ShippingZoneScope.SAME_COUNTRY, 2500, {
+      freeShippingThreshold: new Prisma.Decimal(20000),
+    });
+
+    const quote = service.quoteShipment([freeZone], request({ city: 'Kara', country: 'TG' }));
+
+    expect(quote).toMatchObject({ fee: 0, freeShipping: true, zoneId: freeZone.id });
+  });
+
+  it('should charge nothing for pickup or for vendors without zones', () => {
+    expect(service.quoteShipment(zones, request(null))).toMatchObject({ fee: 0, zoneId: null });
+    expect(service.quoteShipment([], request({ city: 'Paris', country: 'FR' })).fee).toBe(0);
+  });
+
+  it('should refuse unsupported countries and destinations without a zone', () => {
+    expect(() => service.quoteShipment(zones, request({ city: 'Accra', country: 'GH' }))).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      service.quoteShipment(
+        [zone(ShippingZoneScope.SAME_CITY, 1000)],
+        request({ city: 'Kara', country: 'TG' }),
+      ),
+    ).toThrow('Vendor does not deliver to Kara');
+  });
+});
+
+describe('ShippingService - zones', () => {
+  const config = { get: jest.fn((_key: string, fallback: unknown) => fallback) };
+  let tx: { shippingZone: { updateMany: jest.Mock; create: jest.Mock } };
+  let prisma: {
+    vendor: { findMany: jest.Mock };
+    shippingZone: { findUnique: jest.Mock; update: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let service: ShippingService;
+
+  beforeEach(() => {
+    tx = {
+      shippingZone: {
+        updateMany: jest.fn(),
+        create: jest.fn((args: { data: unknown }) => args.data),
+      },
+    };
+    prisma = {
+      vendor: { findMany: jest.fn().mockResolvedValue([{ id: 'vendor-1' }]) },
+      shippingZone: { findUnique: jest.fn(), update: jest.fn() },
+      $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    };
+    service = new ShippingService(
+      prisma as unknown as PrismaService,
+      config as unknown as ConfigService,
+    );
+  });
+
+  it('should replace the active zone with the same scope and country', async () => {
+    await service.createZone('merchant-1', {
+      vendorId: 'vendor-1',
+      scope: ShippingZoneScope.SAME_COUNTRY,
+      destinationCountry: 'BJ',
+      baseFee: 2500,
+    });
+
+    expect(tx.shippingZone.updateMany).toHaveBeenCalledWith({
+      where: {
+        vendorId: 'vendor-1',
+        scope: ShippingZoneScope.SAME_COUNTRY,
+        destinationCountry: null,
+        isActive: true,
+      },
+      data: { isActive: false },
+    });
+  });
+
+  it('should hide vendors and zones of other merchants', async () => {
+    await expect(
+      service.createZone('merchant-1', {
+        vendorId: 'vendor-2',
+        scope: ShippingZoneScope.SAME_CITY,
+        baseFee: 1000,
+      }),
+    ).rejects.toThrow(NotFoundException);
+
+    prisma.shippingZone.findUnique.mockResolvedValue({
+      id: 'zone-1',
+      vendor: { userId: 'merchant-2' },
+    });
+    await expect(service.deleteZone('zone-1', 'merchant-1')).rejects.toThrow(NotFoundException);
+    expect(prisma.shippingZone.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        SHIPPING SERVICE — Vendor Delivery Zones & Fee Quotes                       ║
+ * ║  Implements: Zone CRUD (vendor owner), zone resolution, flat / weight-based fees, free shipping   ║
+ * ║  Used by: OrdersService (checkout preview + fees frozen on each Shipment)                         ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ZONE RESOLUTION (vendor address → delivery address)
+ *     [1a] Same country + same city → SAME_CITY zone, else SAME_COUNTRY zone
+ *     [1b] Other country → CROSS_BORDER zone for that country, else CROSS_BORDER for any country
+ *     [1c] Only TG, BJ, NE are served; other destinations are refused
+ *     [1d] Vendor with active zones but none matching → not deliverable (400 at checkout)
+ *     [1e] Vendor without any zone → fee 0 (behaviour before zones existed)
+ *     [1f] Pickup at vendor → fee 0, no zone
+ *
+ * [2] FEE
+ *     [2a] Vendor subtotal >= freeShippingThreshold → 0
+ *     [2b] FLAT   → baseFee
+ *     [2c] WEIGHT → baseFee + perKgFee × started kg of the shipment
+ *     [2d] Parts without weight count as SHIPPING_DEFAULT_WEIGHT_KG (default 1)
+ */
+
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ShippingFeeType, ShippingZone, ShippingZoneScope } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateShippingZoneDto,
+  SHIPPING_COUNTRIES,
+  UpdateShippingZoneDto,
+} from './dto/shipping-zone.dto';
+
+export interface ShippingLocation {
+  city?: string | null;
+  country: string;
+}
+
+export interface ShipmentQuoteRequest {
+  vendor: ShippingLocation & { id: string };
+  // null → pickup at vendor
+  destination: ShippingLocation | null;
+  items: Array<{ quantity: number; unitPrice: number; weightKg?: number | null }>;
+}
+
+export interface ShippingQuote {
+  vendorId: string;
+  zoneId: string | null;
+  scope: ShippingZoneScope | null;
+  subtotal: number;
+  weightKg: number;
+  fee: number;
+  freeShipping: boolean;
+  estimatedDays: number | null;
+}
+
+@Injectable()
+export class ShippingService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * [3] LIST ZONES (owned vendors, optionally one of them)
+   */
+  async listZones(userId: string, vendorId?: string) {
+    const vendorIds = await this.findOwnedVendorIds(userId);
+    if (vendorId && !vendorIds.includes(vendorId)) {
+      throw new NotFoundException('Vendor not found');
+    }
+
+    return this.prisma.shippingZone.findMany({
+      where: { vendorId: vendorId ?? { in: vendorIds } },
+      orderBy: [{ vendorId: 'asc' }, { scope: 'asc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * [4] CREATE ZONE
+   *     One active zone per (vendor, scope, destinationCountry) → older one is deactivated
+   */
+  async createZone(userId: string, dto: CreateShippingZoneDto) {
+    const vendorIds = await this.findOwnedVendorIds(userId);
+    if (!vendorIds.includes(dto.vendorId)) {
+      throw new NotFoundException('Vendor not found');
+    }
+
+    const feeType = dto.feeType ?? ShippingFeeType.FLAT;
+    const destinationCountry =
+      dto.scope === ShippingZoneScope.CROSS_BORDER ? (dto.destinationCountry ?? null) : null;
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.shippingZone.updateMany({
+        where: { vendorId: dto.vendorId, scope: dto.scope, destinationCountry, isActive: true },
+        data: { isActive: false },
+      });
+
+      return tx.shippingZone.create({
+        data: {
+          vendorId: dto.vendorId,
+          scope: dto.scope,
+          destinationCountry,
+          feeType,
+          baseFee: dto.baseFee,
+          perKgFee: dto.perKgFee ?? 0,
+          freeShippingThreshold: dto.freeShippingThreshold,
+          estimatedDays: dto.estimatedDays,
+        },
+      });
+    });
+  }
+
+  /**
+   * [5] UPDATE ZONE (fees, threshold, active flag)
+   *     Scope/destination are the zone's identity → create a new zone instead
+   */
+  async updateZone(id: string, userId: string, dto: UpdateShippingZoneDto) {
+    await this.findOwnedZone(id, userId);
+
+    return this.prisma.shippingZone.update({
+      where: { id },
+      data: {
+        feeType: dto.feeType,
+        baseFee: dto.baseFee,
+        perKgFee: dto.perKgFee,
+        freeShippingThreshold: dto.freeShippingThreshold,
+        estimatedDays: dto.estimatedDays,
+        isActive: dto.isActive,
+      },
+    });
+  }
+
+  /**
+   * [6] DELETE ZONE
+   *     Soft delete: shipments keep a reference to the zone that priced them
+   */
+  async deleteZone(id: string, userId: string) {
+    await this.findOwnedZone(id, userId);
+
+    return this.prisma.shippingZone.update({
+      where: { id },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * [7] QUOTE SHIPMENTS
+   *     [7a] Active zones of every vendor loaded in one query, then resolved in memory
+   *     [7b] Throws 400 when a shipment cannot be delivered to its destination
+   */
+  async quote(requests: ShipmentQuoteRequest[]): Promise<ShippingQuote[]> {
+    const vendorIds = [...new Set(requests.map((r) => r.vendor.id))];
+    const zones = await this.prisma.shippingZone.findMany({
+      where: { vendorId: { in: vendorIds }, isActive: true },
+    });
+
+    return requests.map((request) =>
+      this.quoteShipment(
+        zones.filter((zone) => zone.vendorId === request.vendor.id),
+        request,
+      ),
+    );
+  }
+
+  /**
+   * [8] QUOTE ONE SHIPMENT
+   *     Pure: `zones` are the vendor's active zones
+   */
+  quoteShipment(zones: ShippingZone[], request: ShipmentQuoteRequest): ShippingQuote {
+    const subtotal = request.items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+    const weightKg = request.items.reduce(
+      (sum, item) => sum + (item.weightKg ?? this.defaultWeightKg()) * item.quantity,
+      0,
+    );
+    const quote: ShippingQuote = {
+      vendorId: request.vendor.id,
+      zoneId: null,
+      scope: null,
+      subtotal,
+      weightKg,
+      fee: 0,
+      freeShipping: false,
+      estimatedDays: null,
+    };
+
+    if (!request.destination || zones.length === 0) {
+      return quote;
+    }
+
+    const destinationCountry = request.destination.country.toUpperCase();
+    if (!SHIPPING_COUNTRIES.includes(destinationCountry)) {
+      throw new BadRequestException(
+        `Delivery to ${destinationCountry} is not supported (${SHIPPING_COUNTRIES.join(', ')} only)`,
+      );
+    }
+
+    const zone = this.resolveZone(zones, request.vendor, {
+      ...request.destination,
+      country: destinationCountry,
+    });
+    if (!zone) {
+      throw new BadRequestException(
+        `Vendor does not deliver to ${request.destination.city ?? destinationCountry}. Choose pickup or another address`,
+      );
+    }
+
+    const threshold =
+      zone.freeShippingThreshold === null ? null : Number(zone.freeShippingThreshold);
+    const freeShipping = threshold !== null && subtotal >= threshold;
+
+    let fee = Number(zone.baseFee);
+    if (zone.feeType === ShippingFeeType.WEIGHT) {
+      fee += Number(zone.perKgFee) * Math.ceil(weightKg);
+    }
+
+    return {
+      ...quote,
+      zoneId: zone.id,
+      scope: zone.scope,
+      fee: freeShipping ? 0 : fee,
+      freeShipping,
+      estimatedDays: zone.estimatedDays,
+    };
+  }
+
+  /**
+   * [9] RESOLVE ZONE (PRIVATE HELPER)
+   *     Most specific zone first, see [1]
+   */
+  private resolveZone(
+    zones: ShippingZone[],
+    origin: ShippingLocation,
+    destination: ShippingLocation,
+  ): ShippingZone | undefined {
+    const byScope = (scope: ShippingZoneScope, country: string | null = null) =>
+      zones.find((zone) => zone.scope === scope && zone.destinationCountry === country);
+
+    if (origin.country.toUpperCase() !== destination.country) {
+      return (
+        byScope(ShippingZoneScope.CROSS_BORDER, destination.country) ??
+        byScope(ShippingZoneScope.CROSS_BORDER)
+      );
+    }
+
+    const sameCity =
+      !!origin.city &&
+      !!destination.city &&
+      this.normalizeCity(origin.city) === this.normalizeCity(destination.city);
+
+    return (
+      (sameCity ? byScope(ShippingZoneScope.SAME_CITY) : undefined) ??
+      byScope(ShippingZoneScope.SAME_COUNTRY)
+    );
+  }
+
+  // "Lomé " and "lome" are the same city
+  private normalizeCity(city: string): string {
+    return city
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim()
+      .toLowerCase();
+  }
+
+  private defaultWeightKg(): number {
+    return Number(this.configService.get('SHIPPING_DEFAULT_WEIGHT_KG', 1));
+  }
+
+  private async findOwnedVendorIds(userId: string): Promise<string[]> {
+    const vendors = await this.prisma.vendor.findMany({
+      where: { userId },
+      select: { id: true },
+    });
+    if (vendors.length === 0) {
+      throw new ForbiddenException('No vendor account linked to this user');
+    }
+    return vendors.map((v) => v.id);
+  }
+
+  private async findOwnedZone(id: string, userId: string) {
+    const zone = await this.prisma.shippingZone.findUnique({
+      where: { id },
+      include: { vendor: { select: { userId: true } } },
+    });
+    if (!zone || zone.vendor.userId !== userId) {
+      throw new NotFoundException('Shipping zone not found');
+    }
+    return zone;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VENDOR SHIPPING ZONES CONTROLLER — Merchant Delivery Fees                   ║
+ * ║  Handles: List, create, update, deactivate delivery zones                                         ║
+ * ║  Routes: /v1/vendor/shipping-zones/* (owner of the vendor, via Vendor.userId)                     ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] GET    /?vendorId=   → Zones of the caller's vendors (active and inactive)
+ *     [1b] POST   /             → Create zone (replaces the active zone with the same scope/country)
+ *     [1c] PATCH  /:id          → Change fees / threshold / active flag
+ *     [1d] DELETE /:id          → Deactivate zone
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+import { ShippingService } from './shipping.service';
+import { CreateShippingZoneDto, UpdateShippingZoneDto } from './dto/shipping-zone.dto';
+
+@Controller('vendor/shipping-zones')
+@ApiTags('vendor-shipping')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+export class VendorShippingZonesController {
+  constructor(private readonly shippingService: ShippingService) {}
+
+  @Get()
+  async listZones(@CurrentUser() user: CurrentUserPayload, @Query('vendorId') vendorId?: string) {
+    return this.shippingService.listZones(user.sub, vendorId);
+  }
+
+  @Post()
+  async createZone(@Body() dto: CreateShippingZoneDto, @CurrentUser() user: CurrentUserPayload) {
+    return this.shippingService.createZone(user.sub, dto);
+  }
+
+  @Patch(':id')
+  async updateZone(
+    @Param('id') id: string,
+    @Body() dto: UpdateShippingZoneDto,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.shippingService.updateZone(id, user.sub, dto);
+  }
+
+  @Delete(':id')
+  async deleteZone(@Param('id') id: string, @CurrentUser() user: CurrentUserPayload) {
+    return this.shippingService.deleteZone(id, user.sub);
+  }
+}
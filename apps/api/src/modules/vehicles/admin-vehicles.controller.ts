@@ -0,0 +1,165 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        ADMIN VEHICLES CONTROLLER — YMM Reference Data                              ║
+ * ║  Handles: Create / rename / delete makes, models, years, engines; merge and dedupe duplicates     ║
+ * ║  Routes: /v1/admin/vehicles/* (ADMIN only)                                                        ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS
+ *     [1a] POST/PATCH/DELETE /makes, /models, /years, /engines (children created under their parent:
+ *          POST /makes/:makeId/models, /models/:modelId/years, /years/:yearId/engines)
+ *     [1b] DELETE refused (409) while part fitments exist below the entry → merge it instead
+ *     [1c] POST /makes|models|engines/:id/merge { targetId } → entry merged into the target
+ *     [1d] GET /duplicates → groups like "Toyota" / "TOYOTA"; POST /dedupe → merges them all
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { VehicleService } from './vehicle.service';
+import { VehicleMergeService } from './vehicle-merge.service';
+import {
+  CreateEngineDto,
+  CreateMakeDto,
+  CreateModelDto,
+  CreateYearDto,
+  MergeVehicleDto,
+  UpdateEngineDto,
+  UpdateMakeDto,
+  UpdateModelDto,
+} from './dto/vehicle.dto';
+
+@Controller('admin/vehicles')
+@ApiTags('admin-vehicles')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AdminVehiclesController {
+  constructor(
+    private readonly vehicleService: VehicleService,
+    private readonly mergeService: VehicleMergeService,
+  ) {}
+
+  // [2] DUPLICATES
+  @Get('duplicates')
+  @Roles('ADMIN')
+  async findDuplicates() {
+    return this.mergeService.findDuplicates();
+  }
+
+  @Post('dedupe')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async dedupe() {
+    return this.mergeService.dedupe();
+  }
+
+  // [3] MAKES
+  @Post('makes')
+  @Roles('ADMIN')
+  async createMake(@Body() dto: CreateMakeDto) {
+    return this.vehicleService.createMake(dto);
+  }
+
+  @Patch('makes/:id')
+  @Roles('ADMIN')
+  async updateMake(@Param('id') id: string, @Body() dto: UpdateMakeDto) {
+    return this.vehicleService.updateMake(id, dto);
+  }
+
+  @Delete('makes/:id')
+  @Roles('ADMIN')
+  async deleteMake(@Param('id') id: string) {
+    return this.vehicleService.deleteMake(id);
+  }
+
+  @Post('makes/:id/merge')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async mergeMake(@Param('id') id: string, @Body() dto: MergeVehicleDto) {
+    return this.mergeService.merge('make', id, dto.targetId);
+  }
+
+  // [4] MODELS
+  @Post('makes/:makeId/models')
+  @Roles('ADMIN')
+  async createModel(@Param('makeId') makeId: string, @Body() dto: CreateModelDto) {
+    return this.vehicleService.createModel(makeId, dto);
+  }
+
+  @Patch('models/:id')
+  @Roles('ADMIN')
+  async updateModel(@Param('id') id: string, @Body() dto: UpdateModelDto) {
+    return this.vehicleService.updateModel(id, dto);
+  }
+
+  @Delete('models/:id')
+  @Roles('ADMIN')
+  async deleteModel(@Param('id') id: string) {
+    return this.vehicleService.deleteModel(id);
+  }
+
+  @Post('models/:id/merge')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async mergeModel(@Param('id') id: string, @Body() dto: MergeVehicleDto) {
+    return this.mergeService.merge('model', id, dto.targetId);
+  }
+
+  // [5] YEARS
+  @Post('models/:modelId/years')
+  @Roles('ADMIN')
+  async createYear(@Param('modelId') modelId: string, @Body() dto: CreateYearDto) {
+    return this.vehicleService.createYear(modelId, dto);
+  }
+
+  @Patch('years/:id')
+  @Roles('ADMIN')
+  async updateYear(@Param('id') id: string, @Body() dto: CreateYearDto) {
+    return this.vehicleService.updateYear(id, dto);
+  }
+
+  @Delete('years/:id')
+  @Roles('ADMIN')
+  async deleteYear(@Param('id') id: string) {
+    return this.vehicleService.deleteYear(id);
+  }
+
+  // [6] ENGINES
+  @Post('years/:yearId/engines')
+  @Roles('ADMIN')
+  async createEngine(@Param('yearId') yearId: string, @Body() dto: CreateEngineDto) {
+    return this.vehicleService.createEngine(yearId, dto);
+  }
+
+  @Patch('engines/:id')
+  @Roles('ADMIN')
+  async updateEngine(@Param('id') id: string, @Body() dto: UpdateEngineDto) {
+    return this.vehicleService.updateEngine(id, dto);
+  }
+
+  @Delete('engines/:id')
+  @Roles('ADMIN')
+  async deleteEngine(@Param('id') id: string) {
+    return this.vehicleService.deleteEngine(id);
+  }
+
+  @Post('engines/:id/merge')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async mergeEngine(@Param('id') id: string, @Body() dto: MergeVehicleDto) {
+    return this.mergeService.merge('engine', id, dto.targetId);
+  }
+}
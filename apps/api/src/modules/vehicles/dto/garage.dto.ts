@@ -0,0 +1,31 @@
+/**
+ * [1] MY GARAGE DTOs
+ *     A saved vehicle is a model year (→ model → make) and, when the customer knows it, an engine
+ */
+
+import { PartialType } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateGarageVehicleDto {
+  // [2] NICKNAME: "Ma Corolla" (default label: "Toyota Corolla 2018 1.8L")
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  nickname?: string;
+
+  // [3] VEHICLE: year from GET /vehicles/models/:modelId/years, engine from /years/:yearId/engines
+  @IsString()
+  @IsNotEmpty()
+  yearId!: string;
+
+  @IsOptional()
+  @IsString()
+  engineId?: string | null;
+
+  // [4] DEFAULT VEHICLE (the first saved vehicle always is)
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdateGarageVehicleDto extends PartialType(CreateGarageVehicleDto) {}
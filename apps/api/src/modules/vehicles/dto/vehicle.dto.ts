@@ -0,0 +1,116 @@
+/**
+ * [1] VEHICLE REFERENCE DATA DTOs (Make → Model → Year → Engine)
+ *     Names are compared without case, accents or extra spaces: "TOYOTA" is a duplicate of "Toyota"
+ */
+
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const ENGINE_FUELS = ['PETROL', 'DIESEL', 'HYBRID', 'ELECTRIC'] as const;
+
+export class CreateMakeDto {
+  // [2] MAKE: "Toyota", optional logo URL
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  logo?: string;
+}
+
+export class UpdateMakeDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  logo?: string;
+}
+
+export class CreateModelDto {
+  // [3] MODEL: "Corolla" (unique per make)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80)
+  name!: string;
+}
+
+export class UpdateModelDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80)
+  name!: string;
+}
+
+export class CreateYearDto {
+  // [4] YEAR: 2018 (unique per model, same bounds as the CSV import)
+  @IsInt()
+  @Min(1900)
+  @Max(2100)
+  year!: number;
+}
+
+export class CreateEngineDto {
+  // [5] ENGINE: "1.8L", "1.5 dCi" (unique per year) + optional specs
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  code!: string;
+
+  @IsOptional()
+  @IsIn(ENGINE_FUELS)
+  fuel?: string;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 1 })
+  @Min(0)
+  capacityL?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  powerHp?: number;
+}
+
+export class UpdateEngineDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  code?: string;
+
+  @IsOptional()
+  @IsIn(ENGINE_FUELS)
+  fuel?: string;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 1 })
+  @Min(0)
+  capacityL?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  powerHp?: number;
+}
+
+export class MergeVehicleDto {
+  // [6] MERGE: the record kept (the merged one is deleted, its fitments move to the target)
+  @IsString()
+  @IsNotEmpty()
+  targetId!: string;
+}
@@ -0,0 +1,53 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { GarageService } from './garage.service';
+import { CreateGarageVehicleDto, UpdateGarageVehicleDto } from './dto/garage.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentUserPayload } from '../auth/types/auth.types';
+
+/**
+ * Garage Controller ("My garage")
+ * Saved vehicles; the default one filters the catalog to the parts that fit it
+ */
+@ApiTags('garage')
+@Controller('garage')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class GarageController {
+  constructor(private readonly garageService: GarageService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List saved vehicles (default first)' })
+  async list(@CurrentUser() user: CurrentUserPayload) {
+    return { data: await this.garageService.list(user.sub) };
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Save a vehicle (year + optional engine)' })
+  async create(@CurrentUser() user: CurrentUserPayload, @Body() dto: CreateGarageVehicleDto) {
+    return { data: await this.garageService.create(user.sub, dto) };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a saved vehicle' })
+  async update(
+    @CurrentUser() user: CurrentUserPayload,
+    @Param('id') id: string,
+    @Body() dto: UpdateGarageVehicleDto,
+  ) {
+    return { data: await this.garageService.update(user.sub, id, dto) };
+  }
+
+  @Patch(':id/default')
+  @ApiOperation({ summary: 'Make a saved vehicle the default one' })
+  async setDefault(@CurrentUser() user: CurrentUserPayload, @Param('id') id: string) {
+    return { data: await this.garageService.setDefault(user.sub, id) };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Remove a vehicle from the garage' })
+  async remove(@CurrentUser() user: CurrentUserPayload, @Param('id') id: string) {
+    return this.garageService.remove(user.sub, id);
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                 GARAGE SERVICE TESTS — "My garage" Saved Vehicles                                  ║
+ * ║  Tests: Default vehicle rules, engine / year consistency, active vehicle, fit badge               ║
+ * ║  Focus: The catalog filters on the right engines, and only for the vehicle's owner                ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ActiveGarageVehicle, GarageService, vehicleFitStatus } from './garage.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('GarageService', () => {
+  let service: GarageService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+
+  const corolla = (overrides: Record<string, unknown> = {}) => ({
+    id: 'uv-1',
+    userId: 'user-1',
+    nickname: null,
+    yearId: 'year-2018',
+    engineId: 'engine-18',
+    isDefault: true,
+    year: { id: 'year-2018', year: 2018, model: { name: 'Corolla', make: { name: 'Toyota' } } },
+    engine: { id: 'engine-18', code: '1.8L' },
+    ...overrides,
+  });
+
+  const createPrismaMock = () => {
+    const prisma = {
+      userVehicle: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn().mockResolvedValue(corolla()),
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn((args: { data: Record<string, unknown> }) =>
+          Promise.resolve(corolla(args.data)),
+        ),
+        update: jest.fn((args: { data: Record<string, unknown> }) =>
+          Promise.resolve(corolla(args.data)),
+        ),
+        updateMany: jest.fn(),
+        delete: jest.fn(),
+      },
+      vehicleYear: { findUnique: jest.fn().mockResolvedValue({ id: 'year-2018' }) },
+      engineSpec: {
+        findUnique: jest.fn().mockResolvedValue({ yearId: 'year-2018' }),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      $transaction: jest.fn(),
+    };
+    prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+    return prisma;
+  };
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [GarageService, { provide: PrismaService, useValue: mockPrisma }],
+    }).compile();
+
+    service = module.get<GarageService>(GarageService);
+  });
+
+  it('makes the first saved vehicle the default one and labels it', async () => {
+    const vehicle = await service.create('user-1', { yearId: 'year-2018', engineId: 'engine-18' });
+
+    expect(mockPrisma.userVehicle.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          userId: 'user-1',
+          nickname: null,
+          yearId: 'year-2018',
+          engineId: 'engine-18',
+          isDefault: true,
+        },
+      }),
+    );
+    expect(mockPrisma.userVehicle.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', isDefault: true },
+      data: { isDefault: false },
+    });
+    expect(vehicle.label).toBe('Toyota Corolla 2018 1.8L');
+  });
+
+  it('rejects an engine of another year and a full garage', async () => {
+    mockPrisma.engineSpec.findUnique.mockResolvedValueOnce({ yearId: 'year-2019' });
+    await expect(
+      service.create('user-1', { yearId: 'year-2018', engineId: 'engine-19' }),
+    ).rejects.toThrow(BadRequestException);
+
+    mockPrisma.userVehicle.count.mockResolvedValueOnce(10);
+    await expect(service.create('user-1', { yearId: 'year-2018' })).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(mockPrisma.userVehicle.create).not.toHaveBeenCalled();
+  });
+
+  it("drops the saved engine when the year changes, and hides other users' vehicles", async () => {
+    mockPrisma.engineSpec.findUnique.mockClear();
+    await service.update('user-1', 'uv-1', { yearId: 'year-2019' });
+
+    expect(mockPrisma.userVehicle.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { yearId: 'year-2019', engineId: null } }),
+    );
+    expect(mockPrisma.engineSpec.findUnique).not.toHaveBeenCalled();
+
+    await expect(service.update('user-2', 'uv-1', { nickname: 'Mine' })).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('promotes the oldest remaining vehicle when the default one is removed', async () => {
+    mockPrisma.userVehicle.findFirst.mockResolvedValueOnce({ id: 'uv-2' });
+
+    await service.remove('user-1', 'uv-1');
+
+    expect(mockPrisma.userVehicle.delete).toHaveBeenCalledWith({ where: { id: 'uv-1' } });
+    expect(mockPrisma.userVehicle.update).toHaveBeenCalledWith({
+      where: { id: 'uv-2' },
+      data: { isDefault: true },
+    });
+  });
+
+  describe('resolveActive', () => {
+    it('uses the default vehicle, or every engine of its year when no engine was saved', async () => {
+      mockPrisma.userVehicle.findFirst.mockResolvedValueOnce(
+        corolla({ engineId: null, engine: null }),
+      );
+      mockPrisma.engineSpec.findMany.mockResolvedValueOnce([
+        { id: 'engine-16' },
+        { id: 'engine-18' },
+      ]);
+
+      await expect(service.resolveActive('user-1')).resolves.toMatchObject({
+        id: 'uv-1',
+        label: 'Toyota Corolla 2018',
+        engineIds: ['engine-16', 'engine-18'],
+      });
+      expect(mockPrisma.userVehicle.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user-1', isDefault: true } }),
+      );
+    });
+
+    it('does not filter the catalog on a year without any engine yet', async () => {
+      mockPrisma.userVehicle.findFirst.mockResolvedValueOnce(
+        corolla({ engineId: null, engine: null }),
+      );
+      mockPrisma.engineSpec.findMany.mockResolvedValueOnce([]);
+
+      await expect(service.resolveActive('user-1')).resolves.toBeNull();
+    });
+
+    it('ignores the garage on "none" and requires sign-in for an explicit vehicle', async () => {
+      await expect(service.resolveActive('user-1', 'none')).resolves.toBeNull();
+      await expect(service.resolveActive(undefined)).resolves.toBeNull();
+      await expect(service.resolveActive(undefined, 'uv-1')).rejects.toThrow(UnauthorizedException);
+      expect(mockPrisma.userVehicle.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  it('computes the fit badge', () => {
+    const engine: ActiveGarageVehicle = {
+      id: 'uv-1',
+      nickname: null,
+      label: 'Toyota Corolla 2018 1.8L',
+      yearId: 'year-2018',
+      engineId: 'engine-18',
+      engineIds: ['engine-18'],
+    };
+    const yearOnly = { ...engine, engineId: null, engineIds: ['engine-16', 'engine-18'] };
+
+    expect(vehicleFitStatus(engine, ['engine-18', 'engine-20'])).toBe('FITS');
+    expect(vehicleFitStatus(engine, ['engine-20'])).toBe('DOES_NOT_FIT');
+    expect(vehicleFitStatus(engine, [])).toBe('UNKNOWN');
+    expect(vehicleFitStatus(yearOnly, ['engine-18'])).toBe('UNKNOWN');
+    expect(vehicleFitStatus(yearOnly, ['engine-16', 'engine-18'])).toBe('FITS');
+  });
+});
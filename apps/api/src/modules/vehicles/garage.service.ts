@@ -0,0 +1,271 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        GARAGE SERVICE — "My garage" Saved Vehicles                                 ║
+ * ║  Implements: Saved vehicles (nickname, default), active vehicle for the catalog, fit badge        ║
+ * ║  Used by: GarageController (/garage), CatalogController, PartsController                          ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] SAVED VEHICLES
+ *     [1a] Model year + optional engine (customers don't always know their engine)
+ *     [1b] At most one default vehicle per user; the first one saved is the default, and deleting
+ *          the default promotes the oldest remaining vehicle
+ *
+ * [2] ACTIVE VEHICLE (public catalog routes, optional sign-in)
+ *     [2a] ?garageVehicleId=<id> → that vehicle (must be the caller's), ?garageVehicleId=none → no filter
+ *     [2b] Otherwise the signed-in user's default vehicle, if any
+ *     [2c] Fitment filter = its engine, or every engine of its year when no engine was saved;
+ *          a year without any engine in the catalog yet → no filter (it would match no part)
+ *
+ * [3] FIT BADGE (part detail)
+ *     FITS: fitted to every engine of the vehicle · DOES_NOT_FIT: fitted to none of them
+ *     UNKNOWN: part without fitment data, or fitted to only some engines of a year saved without engine
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateGarageVehicleDto, UpdateGarageVehicleDto } from './dto/garage.dto';
+
+export const NO_GARAGE_VEHICLE = 'none';
+const MAX_GARAGE_VEHICLES = 10;
+
+const GARAGE_VEHICLE_INCLUDE = {
+  year: {
+    select: {
+      id: true,
+      year: true,
+      model: {
+        select: { id: true, name: true, make: { select: { id: true, name: true, logo: true } } },
+      },
+    },
+  },
+  engine: { select: { id: true, code: true, fuel: true, capacityL: true, powerHp: true } },
+} satisfies Prisma.UserVehicleInclude;
+
+type GarageVehicle = Prisma.UserVehicleGetPayload<{ include: typeof GARAGE_VEHICLE_INCLUDE }>;
+
+export type VehicleFitStatus = 'FITS' | 'DOES_NOT_FIT' | 'UNKNOWN';
+
+export interface ActiveGarageVehicle {
+  id: string;
+  nickname: string | null;
+  label: string; // "Toyota Corolla 2018 1.8L"
+  yearId: string;
+  engineId: string | null;
+  engineIds: string[]; // Fitment filter
+}
+
+export function vehicleFitStatus(
+  vehicle: ActiveGarageVehicle,
+  partEngineIds: string[],
+): VehicleFitStatus {
+  if (partEngineIds.length === 0) {
+    return 'UNKNOWN';
+  }
+
+  const fitted = vehicle.engineIds.filter((id) => partEngineIds.includes(id)).length;
+  if (fitted === 0) return 'DOES_NOT_FIT';
+  return fitted === vehicle.engineIds.length ? 'FITS' : 'UNKNOWN';
+}
+
+@Injectable()
+export class GarageService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * [4] MY GARAGE (default vehicle first)
+   */
+  async list(userId: string) {
+    const vehicles = await this.prisma.userVehicle.findMany({
+      where: { userId },
+      include: GARAGE_VEHICLE_INCLUDE,
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+    return vehicles.map((vehicle) => this.withLabel(vehicle));
+  }
+
+  async create(userId: string, dto: CreateGarageVehicleDto) {
+    const count = await this.prisma.userVehicle.count({ where: { userId } });
+    if (count >= MAX_GARAGE_VEHICLES) {
+      throw new BadRequestException(`A garage holds at most ${MAX_GARAGE_VEHICLES} vehicles`);
+    }
+    await this.assertVehicle(dto.yearId, dto.engineId);
+
+    const isDefault = dto.isDefault || count === 0;
+    const vehicle = await this.prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.userVehicle.updateMany({
+          where: { userId, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+      return tx.userVehicle.create({
+        data: {
+          userId,
+          nickname: dto.nickname?.trim() || null,
+          yearId: dto.yearId,
+          engineId: dto.engineId ?? null,
+          isDefault,
+        },
+        include: GARAGE_VEHICLE_INCLUDE,
+      });
+    });
+
+    return this.withLabel(vehicle);
+  }
+
+  async update(userId: string, id: string, dto: UpdateGarageVehicleDto) {
+    const current = await this.findOwned(userId, id);
+
+    // A new year without an engine drops the old engine (it belongs to the old year)
+    const yearId = dto.yearId ?? current.yearId;
+    const engineId =
+      dto.engineId !== undefined
+        ? dto.engineId
+        : yearId === current.yearId
+          ? current.engineId
+          : null;
+    await this.assertVehicle(yearId, engineId);
+
+    const vehicle = await this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await tx.userVehicle.updateMany({
+          where: { userId, isDefault: true, id: { not: id } },
+          data: { isDefault: false },
+        });
+      }
+      return tx.userVehicle.update({
+        where: { id },
+        data: {
+          ...(dto.nickname !== undefined && { nickname: dto.nickname?.trim() || null }),
+          yearId,
+          engineId,
+          ...(dto.isDefault !== undefined && { isDefault: dto.isDefault }),
+        },
+        include: GARAGE_VEHICLE_INCLUDE,
+      });
+    });
+
+    return this.withLabel(vehicle);
+  }
+
+  async setDefault(userId: string, id: string) {
+    return this.update(userId, id, { isDefault: true });
+  }
+
+  async remove(userId: string, id: string) {
+    const vehicle = await this.findOwned(userId, id);
+    await this.prisma.userVehicle.delete({ where: { id } });
+
+    if (vehicle.isDefault) {
+      const next = await this.prisma.userVehicle.findFirst({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      });
+      if (next) {
+        await this.prisma.userVehicle.update({ where: { id: next.id }, data: { isDefault: true } });
+      }
+    }
+
+    return { message: 'Vehicle removed from garage' };
+  }
+
+  /**
+   * [5] ACTIVE VEHICLE FOR THE CATALOG (null = no fitment filter)
+   */
+  async resolveActive(
+    userId: string | undefined,
+    garageVehicleId?: string,
+  ): Promise<ActiveGarageVehicle | null> {
+    if (garageVehicleId === NO_GARAGE_VEHICLE) {
+      return null;
+    }
+    if (!userId) {
+      if (garageVehicleId) {
+        throw new UnauthorizedException('Sign in to use a garage vehicle');
+      }
+      return null;
+    }
+
+    const vehicle = garageVehicleId
+      ? await this.findOwned(userId, garageVehicleId)
+      : await this.prisma.userVehicle.findFirst({
+          where: { userId, isDefault: true },
+          include: GARAGE_VEHICLE_INCLUDE,
+        });
+    if (!vehicle) {
+      return null;
+    }
+
+    const engineIds = vehicle.engineId
+      ? [vehicle.engineId]
+      : (
+          await this.prisma.engineSpec.findMany({
+            where: { yearId: vehicle.yearId },
+            select: { id: true },
+          })
+        ).map((engine) => engine.id);
+    if (engineIds.length === 0) {
+      return null;
+    }
+
+    return {
+      id: vehicle.id,
+      nickname: vehicle.nickname,
+      label: this.label(vehicle),
+      yearId: vehicle.yearId,
+      engineId: vehicle.engineId,
+      engineIds,
+    };
+  }
+
+  private async findOwned(userId: string, id: string): Promise<GarageVehicle> {
+    const vehicle = await this.prisma.userVehicle.findUnique({
+      where: { id },
+      include: GARAGE_VEHICLE_INCLUDE,
+    });
+    if (!vehicle || vehicle.userId !== userId) {
+      throw new NotFoundException('Garage vehicle not found');
+    }
+    return vehicle;
+  }
+
+  private async assertVehicle(yearId: string, engineId?: string | null) {
+    const year = await this.prisma.vehicleYear.findUnique({
+      where: { id: yearId },
+      select: { id: true },
+    });
+    if (!year) {
+      throw new NotFoundException(`Vehicle year not found: ${yearId}`);
+    }
+
+    if (engineId) {
+      const engine = await this.prisma.engineSpec.findUnique({
+        where: { id: engineId },
+        select: { yearId: true },
+      });
+      if (!engine) {
+        throw new NotFoundException(`Engine not found: ${engineId}`);
+      }
+      if (engine.yearId !== yearId) {
+        throw new BadRequestException('The engine does not belong to this vehicle year');
+      }
+    }
+  }
+
+  private withLabel(vehicle: GarageVehicle) {
+    return { ...vehicle, label: this.label(vehicle) };
+  }
+
+  private label(vehicle: GarageVehicle): string {
+    const { year, engine } = vehicle;
+    return [year.model.make.name, year.model.name, year.year, engine?.code]
+      .filter(Boolean)
+      .join(' ');
+  }
+}
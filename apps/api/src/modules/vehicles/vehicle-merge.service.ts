@@ -0,0 +1,255 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VEHICLE MERGE SERVICE — Duplicate Makes / Models / Engines                  ║
+ * ║  Implements: Duplicate report, merge of one entry into another, dedupe of the whole tree          ║
+ * ║  Typical case: "Toyota" (seed) and "TOYOTA" (CSV import) holding different parts                  ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] DUPLICATES
+ *     Same name without case, accents or extra spaces: makes globally, models per make,
+ *     engines per year (years are numbers, unique per model already)
+ *
+ * [2] MERGE source → target (one transaction)
+ *     [2a] Children of the source join the target; a child with the same name as one of the
+ *          target's children is merged into it (recursively, down to the engines)
+ *     [2b] Engines: fitments move to the target engine (a part already fitted to it keeps one fitment),
+ *          missing specs (fuel, capacity, power) are copied from the source
+ *     [2c] Garage vehicles saved on a source year / engine follow it to the target
+ *     [2d] The source is deleted; the parts that were fitted below it are queued for re-indexing
+ *
+ * [3] DEDUPE: every duplicate group merged into its oldest entry (makes, then models, then engines)
+ */
+
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchOutboxService } from '../meilisearch/search-outbox.service';
+import { VehicleService } from './vehicle.service';
+
+type MergeLevel = 'make' | 'model' | 'engine';
+
+interface DuplicateEntry {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: Date;
+}
+
+export interface DuplicateGroups {
+  makes: DuplicateEntry[][];
+  models: DuplicateEntry[][];
+  engines: DuplicateEntry[][];
+}
+
+// "  TOYOTA " → "toyota", "Citroën" → "citroen"
+export function normalizeVehicleName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+@Injectable()
+export class VehicleMergeService {
+  private readonly logger = new Logger(VehicleMergeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly vehicleService: VehicleService,
+    private readonly searchOutbox: SearchOutboxService,
+  ) {}
+
+  /**
+   * [4] DUPLICATE REPORT (oldest entry first in each group)
+   */
+  async findDuplicates(): Promise<DuplicateGroups> {
+    const [makes, models, engines] = await Promise.all([
+      this.prisma.vehicleMake.findMany({ select: { id: true, name: true, createdAt: true } }),
+      this.prisma.vehicleModel.findMany({
+        select: { id: true, name: true, makeId: true, createdAt: true },
+      }),
+      this.prisma.engineSpec.findMany({
+        select: { id: true, code: true, yearId: true, createdAt: true },
+      }),
+    ]);
+
+    return {
+      makes: this.group(makes.map((m) => ({ ...m, parentId: null }))),
+      models: this.group(models.map((m) => ({ ...m, parentId: m.makeId }))),
+      engines: this.group(engines.map((e) => ({ ...e, name: e.code, parentId: e.yearId }))),
+    };
+  }
+
+  /**
+   * [5] MERGE ONE ENTRY INTO ANOTHER
+   */
+  async merge(level: MergeLevel, sourceId: string, targetId: string) {
+    if (sourceId === targetId) {
+      throw new BadRequestException('Cannot merge an entry into itself');
+    }
+
+    const partIds = await this.vehicleService.partIdsUnder(level, [sourceId]);
+
+    const queued = await this.prisma.$transaction(async (tx) => {
+      await this.assertExists(tx, level, sourceId);
+      await this.assertExists(tx, level, targetId);
+
+      if (level === 'make') await this.mergeMakes(tx, sourceId, targetId);
+      else if (level === 'model') await this.mergeModels(tx, sourceId, targetId);
+      else await this.mergeEngines(tx, sourceId, targetId);
+
+      return this.searchOutbox.enqueueWhere(tx, { id: { in: partIds } });
+    });
+
+    await this.vehicleService.invalidateCache();
+
+    this.logger.log(`Merged ${level} ${sourceId} into ${targetId} (${queued} parts to re-index)`);
+    return { level, sourceId, targetId, reindexedParts: queued };
+  }
+
+  /**
+   * [6] DEDUPE EVERYTHING (makes first: merging makes already merges their same-name models)
+   */
+  async dedupe() {
+    const merged = { makes: 0, models: 0, engines: 0 };
+    const levels: Array<[MergeLevel, keyof DuplicateGroups]> = [
+      ['make', 'makes'],
+      ['model', 'models'],
+      ['engine', 'engines'],
+    ];
+
+    for (const [level, key] of levels) {
+      // Re-read after each level: merging makes removes model duplicates, merging models engine ones
+      const groups = (await this.findDuplicates())[key];
+
+      for (const [target, ...sources] of groups) {
+        for (const source of sources) {
+          await this.merge(level, source.id, target.id);
+          merged[key]++;
+        }
+      }
+    }
+
+    return { merged };
+  }
+
+  private async mergeMakes(tx: Prisma.TransactionClient, sourceId: string, targetId: string) {
+    const [source, target, targetModels] = await Promise.all([
+      tx.vehicleMake.findUniqueOrThrow({ where: { id: sourceId }, include: { models: true } }),
+      tx.vehicleMake.findUniqueOrThrow({ where: { id: targetId } }),
+      tx.vehicleModel.findMany({ where: { makeId: targetId } }),
+    ]);
+    const byName = new Map(targetModels.map((m) => [normalizeVehicleName(m.name), m.id]));
+
+    for (const model of source.models) {
+      const match = byName.get(normalizeVehicleName(model.name));
+      if (match) {
+        await this.mergeModels(tx, model.id, match);
+      } else {
+        await tx.vehicleModel.update({ where: { id: model.id }, data: { makeId: targetId } });
+      }
+    }
+
+    if (!target.logo && source.logo) {
+      await tx.vehicleMake.update({ where: { id: targetId }, data: { logo: source.logo } });
+    }
+    await tx.vehicleMake.delete({ where: { id: sourceId } });
+  }
+
+  private async mergeModels(tx: Prisma.TransactionClient, sourceId: string, targetId: string) {
+    const [sourceYears, targetYears] = await Promise.all([
+      tx.vehicleYear.findMany({ where: { modelId: sourceId } }),
+      tx.vehicleYear.findMany({ where: { modelId: targetId } }),
+    ]);
+    const byYear = new Map(targetYears.map((y) => [y.year, y.id]));
+
+    for (const year of sourceYears) {
+      const match = byYear.get(year.year);
+      if (match) {
+        await this.mergeYears(tx, year.id, match);
+      } else {
+        await tx.vehicleYear.update({ where: { id: year.id }, data: { modelId: targetId } });
+      }
+    }
+
+    await tx.vehicleModel.delete({ where: { id: sourceId } });
+  }
+
+  private async mergeYears(tx: Prisma.TransactionClient, sourceId: string, targetId: string) {
+    const [sourceEngines, targetEngines] = await Promise.all([
+      tx.engineSpec.findMany({ where: { yearId: sourceId } }),
+      tx.engineSpec.findMany({ where: { yearId: targetId } }),
+    ]);
+    const byCode = new Map(targetEngines.map((e) => [normalizeVehicleName(e.code), e.id]));
+
+    for (const engine of sourceEngines) {
+      const match = byCode.get(normalizeVehicleName(engine.code));
+      if (match) {
+        await this.mergeEngines(tx, engine.id, match);
+      } else {
+        await tx.engineSpec.update({ where: { id: engine.id }, data: { yearId: targetId } });
+      }
+    }
+
+    await tx.userVehicle.updateMany({ where: { yearId: sourceId }, data: { yearId: targetId } });
+    await tx.vehicleYear.delete({ where: { id: sourceId } });
+  }
+
+  private async mergeEngines(tx: Prisma.TransactionClient, sourceId: string, targetId: string) {
+    const [source, target] = await Promise.all([
+      tx.engineSpec.findUniqueOrThrow({ where: { id: sourceId } }),
+      tx.engineSpec.findUniqueOrThrow({ where: { id: targetId } }),
+    ]);
+
+    // Parts fitted to both keep the target fitment; the source one goes away with the engine
+    const alreadyFitted = await tx.partFitment.findMany({
+      where: { engineId: targetId },
+      select: { partId: true },
+    });
+    await tx.partFitment.updateMany({
+      where: { engineId: sourceId, partId: { notIn: alreadyFitted.map((f) => f.partId) } },
+      data: { engineId: targetId },
+    });
+
+    await tx.engineSpec.update({
+      where: { id: targetId },
+      data: {
+        fuel: target.fuel ?? source.fuel,
+        capacityL: target.capacityL ?? source.capacityL,
+        powerHp: target.powerHp ?? source.powerHp,
+      },
+    });
+    await tx.userVehicle.updateMany({
+      where: { engineId: sourceId },
+      data: { engineId: targetId, yearId: target.yearId },
+    });
+    await tx.engineSpec.delete({ where: { id: sourceId } });
+  }
+
+  private async assertExists(tx: Prisma.TransactionClient, level: MergeLevel, id: string) {
+    const where = { where: { id }, select: { id: true } };
+    const entry =
+      level === 'make'
+        ? await tx.vehicleMake.findUnique(where)
+        : level === 'model'
+          ? await tx.vehicleModel.findUnique(where)
+          : await tx.engineSpec.findUnique(where);
+    if (!entry) {
+      throw new NotFoundException(`Vehicle ${level} not found: ${id}`);
+    }
+  }
+
+  private group(entries: DuplicateEntry[]): DuplicateEntry[][] {
+    const groups = new Map<string, DuplicateEntry[]>();
+    for (const entry of entries) {
+      const key = `${entry.parentId ?? ''}|${normalizeVehicleName(entry.name)}`;
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+
+    return Array.from(groups.values())
+      .filter((group) => group.length > 1)
+      .map((group) => group.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()));
+  }
+}
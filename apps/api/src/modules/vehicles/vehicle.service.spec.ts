@@ -0,0 +1,227 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║              VEHICLE SERVICE TESTS — YMM Browse, Admin Rules, Merge & Dedupe                      ║
+ * ║  Tests: Part counts + cache, case-insensitive duplicates, delete guard, merge of makes / engines  ║
+ * ║  Focus: "Toyota" and "TOYOTA" end up as one make without losing any part fitment                  ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { VehicleService } from './vehicle.service';
+import { VehicleMergeService, normalizeVehicleName } from './vehicle-merge.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { SearchOutboxService } from '../meilisearch/search-outbox.service';
+
+describe('Vehicles', () => {
+  let vehicleService: VehicleService;
+  let mergeService: VehicleMergeService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+  let mockRedis: { get: jest.Mock; set: jest.Mock; incr: jest.Mock };
+  let mockSearchOutbox: { enqueueWhere: jest.Mock };
+
+  const at = (day: number) => new Date(`2026-01-0${day}T00:00:00Z`);
+
+  const createPrismaMock = () => {
+    const prisma = {
+      vehicleMake: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn().mockResolvedValue({ id: 'make-1' }),
+        findUniqueOrThrow: jest.fn(),
+        create: jest.fn((args: { data: Record<string, unknown> }) =>
+          Promise.resolve({ id: 'make-new', ...args.data }),
+        ),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+      vehicleModel: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn().mockResolvedValue({ id: 'model-1' }),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+      vehicleYear: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+      engineSpec: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn().mockResolvedValue({ id: 'engine-1' }),
+        findUniqueOrThrow: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+      partFitment: {
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        updateMany: jest.fn(),
+      },
+      userVehicle: { updateMany: jest.fn() },
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      $transaction: jest.fn(),
+    };
+    prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+    return prisma;
+  };
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+    mockRedis = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn(),
+      incr: jest.fn().mockResolvedValue(1),
+    };
+    mockSearchOutbox = { enqueueWhere: jest.fn().mockResolvedValue(0) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VehicleService,
+        VehicleMergeService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: RedisService, useValue: mockRedis },
+        { provide: SearchOutboxService, useValue: mockSearchOutbox },
+      ],
+    }).compile();
+
+    vehicleService = module.get<VehicleService>(VehicleService);
+    mergeService = module.get<VehicleMergeService>(VehicleMergeService);
+  });
+
+  describe('VehicleService', () => {
+    it('lists makes with their published part counts and caches them', async () => {
+      mockPrisma.vehicleMake.findMany.mockResolvedValue([
+        { id: 'make-1', name: 'Renault', logo: null },
+        { id: 'make-2', name: 'Toyota', logo: null },
+      ]);
+      mockPrisma.$queryRaw.mockResolvedValue([{ id: 'make-2', partCount: 4 }]);
+
+      await expect(vehicleService.listMakes()).resolves.toEqual([
+        { id: 'make-1', name: 'Renault', logo: null, partCount: 0 },
+        { id: 'make-2', name: 'Toyota', logo: null, partCount: 4 },
+      ]);
+      expect(mockRedis.set).toHaveBeenCalledWith('vehicles:v0:makes', expect.any(String), 600);
+
+      mockRedis.get.mockImplementation((key: string) =>
+        Promise.resolve(key === 'vehicles:version' ? '3' : '[]'),
+      );
+      await expect(vehicleService.listMakes()).resolves.toEqual([]);
+      expect(mockRedis.get).toHaveBeenCalledWith('vehicles:v3:makes');
+    });
+
+    it('404s on an unknown parent', async () => {
+      mockPrisma.vehicleMake.findUnique.mockResolvedValue(null);
+
+      await expect(vehicleService.listModels('nope')).rejects.toThrow(NotFoundException);
+    });
+
+    it('refuses a make differing only by case and bumps the cache version on create', async () => {
+      mockPrisma.vehicleMake.findFirst.mockResolvedValueOnce({ id: 'make-2', name: 'Toyota' });
+      await expect(vehicleService.createMake({ name: 'TOYOTA' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrisma.vehicleMake.findFirst).toHaveBeenCalledWith({
+        where: { name: { equals: 'TOYOTA', mode: 'insensitive' } },
+      });
+
+      await vehicleService.createMake({ name: ' Peugeot ' });
+      expect(mockPrisma.vehicleMake.create).toHaveBeenCalledWith({
+        data: { name: 'Peugeot', logo: undefined },
+      });
+      expect(mockRedis.incr).toHaveBeenCalledWith('vehicles:version');
+    });
+
+    it('refuses to delete an engine that parts are fitted to', async () => {
+      mockPrisma.partFitment.count.mockResolvedValue(2);
+
+      await expect(vehicleService.deleteEngine('engine-1')).rejects.toThrow(ConflictException);
+      expect(mockPrisma.engineSpec.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('VehicleMergeService', () => {
+    it('groups names without case, accents or extra spaces', async () => {
+      mockPrisma.vehicleMake.findMany.mockResolvedValue([
+        { id: 'make-2', name: 'TOYOTA', createdAt: at(2) },
+        { id: 'make-1', name: 'Toyota', createdAt: at(1) },
+        { id: 'make-3', name: 'Renault', createdAt: at(1) },
+      ]);
+
+      const { makes } = await mergeService.findDuplicates();
+
+      expect(makes).toHaveLength(1);
+      expect(makes[0].map((m) => m.id)).toEqual(['make-1', 'make-2']);
+      expect(normalizeVehicleName('  Citroën  C3 ')).toBe('citroen c3');
+    });
+
+    it('merges a make: same-name models merged, other models moved, parts queued', async () => {
+      mockPrisma.partFitment.findMany.mockResolvedValueOnce([{ partId: 'part-1' }]);
+      mockSearchOutbox.enqueueWhere.mockResolvedValueOnce(1);
+      mockPrisma.vehicleMake.findUniqueOrThrow
+        .mockResolvedValueOnce({
+          id: 'make-2',
+          logo: 'toyota.png',
+          models: [
+            { id: 'model-2', name: 'COROLLA' },
+            { id: 'model-3', name: 'Yaris' },
+          ],
+        })
+        .mockResolvedValueOnce({ id: 'make-1', logo: null });
+      mockPrisma.vehicleModel.findMany.mockResolvedValue([{ id: 'model-1', name: 'Corolla' }]);
+
+      await expect(mergeService.merge('make', 'make-2', 'make-1')).resolves.toMatchObject({
+        reindexedParts: 1,
+      });
+
+      expect(mockPrisma.vehicleModel.delete).toHaveBeenCalledWith({ where: { id: 'model-2' } });
+      expect(mockPrisma.vehicleModel.update).toHaveBeenCalledWith({
+        where: { id: 'model-3' },
+        data: { makeId: 'make-1' },
+      });
+      expect(mockPrisma.vehicleMake.update).toHaveBeenCalledWith({
+        where: { id: 'make-1' },
+        data: { logo: 'toyota.png' },
+      });
+      expect(mockPrisma.vehicleMake.delete).toHaveBeenCalledWith({ where: { id: 'make-2' } });
+      expect(mockSearchOutbox.enqueueWhere).toHaveBeenCalledWith(mockPrisma, {
+        id: { in: ['part-1'] },
+      });
+    });
+
+    it('moves engine fitments without duplicating a part already fitted to the target', async () => {
+      mockPrisma.engineSpec.findUniqueOrThrow
+        .mockResolvedValueOnce({ id: 'engine-2', fuel: 'PETROL', capacityL: 1.8, powerHp: null })
+        .mockResolvedValueOnce({ id: 'engine-1', fuel: null, capacityL: null, powerHp: 140 });
+      mockPrisma.partFitment.findMany
+        .mockResolvedValueOnce([{ partId: 'part-1' }, { partId: 'part-2' }])
+        .mockResolvedValueOnce([{ partId: 'part-2' }]);
+
+      await mergeService.merge('engine', 'engine-2', 'engine-1');
+
+      expect(mockPrisma.partFitment.updateMany).toHaveBeenCalledWith({
+        where: { engineId: 'engine-2', partId: { notIn: ['part-2'] } },
+        data: { engineId: 'engine-1' },
+      });
+      expect(mockPrisma.engineSpec.update).toHaveBeenCalledWith({
+        where: { id: 'engine-1' },
+        data: { fuel: 'PETROL', capacityL: 1.8, powerHp: 140 },
+      });
+      expect(mockPrisma.engineSpec.delete).toHaveBeenCalledWith({ where: { id: 'engine-2' } });
+    });
+
+    it('refuses to merge an entry into itself or into an unknown entry', async () => {
+      await expect(mergeService.merge('make', 'make-1', 'make-1')).rejects.toThrow(
+        BadRequestException,
+      );
+
+      mockPrisma.vehicleModel.findUnique.mockResolvedValueOnce({ id: 'model-2' });
+      mockPrisma.vehicleModel.findUnique.mockResolvedValueOnce(null);
+      await expect(mergeService.merge('model', 'model-2', 'nope')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrisma.vehicleModel.delete).not.toHaveBeenCalled();
+    });
+  });
+});
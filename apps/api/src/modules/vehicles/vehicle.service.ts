@@ -0,0 +1,462 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VEHICLE SERVICE — Make → Model → Year → Engine Reference Data               ║
+ * ║  Implements: Cascading lists for the YMM dropdowns, admin create / rename / delete                ║
+ * ║  Used by: VehiclesController (public), AdminVehiclesController, VehicleMergeService               ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] BROWSE (public, cached)
+ *     [1a] Each level lists the children of one parent with its published part count
+ *          (distinct parts fitted to at least one engine below the entry)
+ *     [1b] Cache keys carry a version number: any admin write bumps it → all lists refreshed
+ *
+ * [2] ADMIN
+ *     [2a] Names are unique without case: creating "TOYOTA" next to "Toyota" → 409 (merge instead)
+ *     [2b] Renaming queues the fitted parts for re-indexing in the same transaction
+ *          (make/model/year/engine values are in the search documents)
+ *     [2c] Deleting an entry with part fitments → 409 (merge it into the right entry instead)
+ */
+
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { SearchOutboxService } from '../meilisearch/search-outbox.service';
+import {
+  CreateEngineDto,
+  CreateMakeDto,
+  CreateModelDto,
+  CreateYearDto,
+  UpdateEngineDto,
+  UpdateMakeDto,
+  UpdateModelDto,
+} from './dto/vehicle.dto';
+
+export type VehicleLevel = 'make' | 'model' | 'year' | 'engine';
+
+const CACHE_VERSION_KEY = 'vehicles:version';
+const CACHE_TTL_SECONDS = 600;
+
+@Injectable()
+export class VehicleService {
+  private readonly logger = new Logger(VehicleService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly redis: RedisService,
+    private readonly searchOutbox: SearchOutboxService,
+  ) {}
+
+  /**
+   * [3] BROWSE
+   */
+  async listMakes() {
+    return this.cached('makes', async () => {
+      const [makes, counts] = await Promise.all([
+        this.prisma.vehicleMake.findMany({
+          select: { id: true, name: true, logo: true },
+          orderBy: { name: 'asc' },
+        }),
+        this.publishedPartCounts('make'),
+      ]);
+      return makes.map((make) => ({ ...make, partCount: counts.get(make.id) ?? 0 }));
+    });
+  }
+
+  async listModels(makeId: string) {
+    return this.cached(`models:${makeId}`, async () => {
+      await this.findOrThrow('make', makeId);
+      const [models, counts] = await Promise.all([
+        this.prisma.vehicleModel.findMany({
+          where: { makeId },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        }),
+        this.publishedPartCounts('model', makeId),
+      ]);
+      return models.map((model) => ({ ...model, partCount: counts.get(model.id) ?? 0 }));
+    });
+  }
+
+  async listYears(modelId: string) {
+    return this.cached(`years:${modelId}`, async () => {
+      await this.findOrThrow('model', modelId);
+      const [years, counts] = await Promise.all([
+        this.prisma.vehicleYear.findMany({
+          where: { modelId },
+          select: { id: true, year: true },
+          orderBy: { year: 'desc' },
+        }),
+        this.publishedPartCounts('year', modelId),
+      ]);
+      return years.map((year) => ({ ...year, partCount: counts.get(year.id) ?? 0 }));
+    });
+  }
+
+  async listEngines(yearId: string) {
+    return this.cached(`engines:${yearId}`, async () => {
+      await this.findOrThrow('year', yearId);
+      const [engines, counts] = await Promise.all([
+        this.prisma.engineSpec.findMany({
+          where: { yearId },
+          select: { id: true, code: true, fuel: true, capacityL: true, powerHp: true },
+          orderBy: { code: 'asc' },
+        }),
+        this.publishedPartCounts('engine', yearId),
+      ]);
+      return engines.map((engine) => ({ ...engine, partCount: counts.get(engine.id) ?? 0 }));
+    });
+  }
+
+  /**
+   * [4] MAKES (admin)
+   */
+  async createMake(dto: CreateMakeDto) {
+    const name = dto.name.trim();
+    await this.assertNameFree('make', name);
+    const make = await this.saveUnique('make', name, () =>
+      this.prisma.vehicleMake.create({ data: { name, logo: dto.logo } }),
+    );
+    await this.invalidateCache();
+    return make;
+  }
+
+  async updateMake(id: string, dto: UpdateMakeDto) {
+    const existing = await this.prisma.vehicleMake.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('Vehicle make not found');
+    }
+    const name = dto.name?.trim();
+    if (name !== undefined && name !== existing.name) {
+      await this.assertNameFree('make', name, undefined, id);
+    }
+
+    const renamed = name !== undefined && name !== existing.name;
+    const make = await this.saveUnique('make', name ?? existing.name, () =>
+      this.writeAndQueue('make', id, renamed, (tx) =>
+        tx.vehicleMake.update({
+          where: { id },
+          data: {
+            ...(name !== undefined && { name }),
+            ...(dto.logo !== undefined && { logo: dto.logo }),
+          },
+        }),
+      ),
+    );
+
+    await this.invalidateCache();
+    return make;
+  }
+
+  async deleteMake(id: string) {
+    await this.findOrThrow('make', id);
+    await this.assertNoFitments('make', id);
+    await this.prisma.vehicleMake.delete({ where: { id } });
+    await this.invalidateCache();
+    return { success: true, id };
+  }
+
+  /**
+   * [5] MODELS (admin)
+   */
+  async createModel(makeId: string, dto: CreateModelDto) {
+    await this.findOrThrow('make', makeId);
+    const name = dto.name.trim();
+    await this.assertNameFree('model', name, makeId);
+    const model = await this.saveUnique('model', name, () =>
+      this.prisma.vehicleModel.create({ data: { makeId, name } }),
+    );
+    await this.invalidateCache();
+    return model;
+  }
+
+  async updateModel(id: string, dto: UpdateModelDto) {
+    const existing = await this.prisma.vehicleModel.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('Vehicle model not found');
+    }
+    const name = dto.name.trim();
+    if (name !== existing.name) {
+      await this.assertNameFree('model', name, existing.makeId, id);
+    }
+
+    const model = await this.saveUnique('model', name, () =>
+      this.writeAndQueue('model', id, name !== existing.name, (tx) =>
+        tx.vehicleModel.update({ where: { id }, data: { name } }),
+      ),
+    );
+
+    await this.invalidateCache();
+    return model;
+  }
+
+  async deleteModel(id: string) {
+    await this.findOrThrow('model', id);
+    await this.assertNoFitments('model', id);
+    await this.prisma.vehicleModel.delete({ where: { id } });
+    await this.invalidateCache();
+    return { success: true, id };
+  }
+
+  /**
+   * [6] YEARS (admin)
+   */
+  async createYear(modelId: string, dto: CreateYearDto) {
+    await this.findOrThrow('model', modelId);
+    const year = await this.saveUnique('year', String(dto.year), () =>
+      this.prisma.vehicleYear.create({ data: { modelId, year: dto.year } }),
+    );
+    await this.invalidateCache();
+    return year;
+  }
+
+  async updateYear(id: string, dto: CreateYearDto) {
+    const existing = await this.prisma.vehicleYear.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('Vehicle year not found');
+    }
+
+    const year = await this.saveUnique('year', String(dto.year), () =>
+      this.writeAndQueue('year', id, dto.year !== existing.year, (tx) =>
+        tx.vehicleYear.update({ where: { id }, data: { year: dto.year } }),
+      ),
+    );
+
+    await this.invalidateCache();
+    return year;
+  }
+
+  async deleteYear(id: string) {
+    await this.findOrThrow('year', id);
+    await this.assertNoFitments('year', id);
+    await this.prisma.vehicleYear.delete({ where: { id } });
+    await this.invalidateCache();
+    return { success: true, id };
+  }
+
+  /**
+   * [7] ENGINES (admin)
+   */
+  async createEngine(yearId: string, dto: CreateEngineDto) {
+    await this.findOrThrow('year', yearId);
+    const code = dto.code.trim();
+    await this.assertNameFree('engine', code, yearId);
+    const engine = await this.saveUnique('engine', code, () =>
+      this.prisma.engineSpec.create({
+        data: {
+          yearId,
+          code,
+          fuel: dto.fuel,
+          capacityL: dto.capacityL,
+          powerHp: dto.powerHp,
+        },
+      }),
+    );
+    await this.invalidateCache();
+    return engine;
+  }
+
+  async updateEngine(id: string, dto: UpdateEngineDto) {
+    const existing = await this.prisma.engineSpec.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('Vehicle engine not found');
+    }
+    const code = dto.code?.trim();
+    if (code !== undefined && code !== existing.code) {
+      await this.assertNameFree('engine', code, existing.yearId, id);
+    }
+
+    const renamed = code !== undefined && code !== existing.code;
+    const engine = await this.saveUnique('engine', code ?? existing.code, () =>
+      this.writeAndQueue('engine', id, renamed, (tx) =>
+        tx.engineSpec.update({
+          where: { id },
+          data: {
+            ...(code !== undefined && { code }),
+            ...(dto.fuel !== undefined && { fuel: dto.fuel }),
+            ...(dto.capacityL !== undefined && { capacityL: dto.capacityL }),
+            ...(dto.powerHp !== undefined && { powerHp: dto.powerHp }),
+          },
+        }),
+      ),
+    );
+
+    await this.invalidateCache();
+    return engine;
+  }
+
+  async deleteEngine(id: string) {
+    await this.findOrThrow('engine', id);
+    await this.assertNoFitments('engine', id);
+    await this.prisma.engineSpec.delete({ where: { id } });
+    await this.invalidateCache();
+    return { success: true, id };
+  }
+
+  /**
+   * [8] SHARED WITH VehicleMergeService
+   */
+
+  // Parts fitted to at least one engine below these entries
+  async partIdsUnder(level: VehicleLevel, ids: string[]): Promise<string[]> {
+    const fitments = await this.prisma.partFitment.findMany({
+      where: this.fitmentWhere(level, ids),
+      select: { partId: true },
+      distinct: ['partId'],
+    });
+    return fitments.map((fitment) => fitment.partId);
+  }
+
+  async invalidateCache(): Promise<void> {
+    await this.redis.incr(CACHE_VERSION_KEY);
+  }
+
+  // Search documents carry the names: a rename queues the fitted parts with the write
+  private writeAndQueue<T>(
+    level: VehicleLevel,
+    id: string,
+    renamed: boolean,
+    write: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    return this.prisma.$transaction(async (tx) => {
+      const saved = await write(tx);
+      if (renamed) {
+        await this.searchOutbox.enqueueWhere(tx, {
+          fitments: { some: this.fitmentWhere(level, [id]) },
+        });
+      }
+      return saved;
+    });
+  }
+
+  private fitmentWhere(level: VehicleLevel, ids: string[]): Prisma.PartFitmentWhereInput {
+    switch (level) {
+      case 'make':
+        return { engine: { year: { model: { makeId: { in: ids } } } } };
+      case 'model':
+        return { engine: { year: { modelId: { in: ids } } } };
+      case 'year':
+        return { engine: { yearId: { in: ids } } };
+      case 'engine':
+        return { engineId: { in: ids } };
+    }
+  }
+
+  private async assertNoFitments(level: VehicleLevel, id: string): Promise<void> {
+    const fitments = await this.prisma.partFitment.count({ where: this.fitmentWhere(level, [id]) });
+    if (fitments > 0) {
+      throw new ConflictException(
+        `This ${level} has ${fitments} part fitments: merge it into another ${level} instead`,
+      );
+    }
+  }
+
+  // [8a] Same name in another case ("TOYOTA") → 409
+  private async assertNameFree(
+    level: 'make' | 'model' | 'engine',
+    name: string,
+    parentId?: string,
+    exceptId?: string,
+  ): Promise<void> {
+    const match = { equals: name, mode: 'insensitive' as const };
+    const notSelf = exceptId ? { id: { not: exceptId } } : {};
+
+    const existing =
+      level === 'make'
+        ? await this.prisma.vehicleMake.findFirst({ where: { name: match, ...notSelf } })
+        : level === 'model'
+          ? await this.prisma.vehicleModel.findFirst({
+              where: { makeId: parentId, name: match, ...notSelf },
+            })
+          : await this.prisma.engineSpec.findFirst({
+              where: { yearId: parentId, code: match, ...notSelf },
+            });
+
+    if (existing) {
+      throw new ConflictException(`A ${level} named "${name}" already exists`);
+    }
+  }
+
+  // [8b] Unique constraint hit between the check and the write → 409
+  private async saveUnique<T>(level: VehicleLevel, name: string, save: () => Promise<T>) {
+    try {
+      return await save();
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException(`A ${level} "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  private async findOrThrow(level: VehicleLevel, id: string): Promise<void> {
+    const select = { id: true };
+    const entry =
+      level === 'make'
+        ? await this.prisma.vehicleMake.findUnique({ where: { id }, select })
+        : level === 'model'
+          ? await this.prisma.vehicleModel.findUnique({ where: { id }, select })
+          : level === 'year'
+            ? await this.prisma.vehicleYear.findUnique({ where: { id }, select })
+            : await this.prisma.engineSpec.findUnique({ where: { id }, select });
+
+    if (!entry) {
+      throw new NotFoundException(`Vehicle ${level} not found`);
+    }
+  }
+
+  /**
+   * [9] PUBLISHED PART COUNTS, grouped by the entries of one level (below one parent)
+   */
+  private async publishedPartCounts(
+    level: VehicleLevel,
+    parentId?: string,
+  ): Promise<Map<string, number>> {
+    let groupBy: Prisma.Sql;
+    let parentFilter = Prisma.empty;
+    switch (level) {
+      case 'make':
+        groupBy = Prisma.sql`mo."makeId"`;
+        break;
+      case 'model':
+        groupBy = Prisma.sql`y."modelId"`;
+        parentFilter = Prisma.sql`AND mo."makeId" = ${parentId}`;
+        break;
+      case 'year':
+        groupBy = Prisma.sql`e."yearId"`;
+        parentFilter = Prisma.sql`AND y."modelId" = ${parentId}`;
+        break;
+      case 'engine':
+        groupBy = Prisma.sql`f."engineId"`;
+        parentFilter = Prisma.sql`AND e."yearId" = ${parentId}`;
+        break;
+    }
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: string; partCount: number }>>`
+      SELECT ${groupBy} AS id, COUNT(DISTINCT f."partId")::int AS "partCount"
+      FROM "PartFitment" f
+      JOIN "Part" p ON p.id = f."partId"
+      JOIN "EngineSpec" e ON e.id = f."engineId"
+      JOIN "VehicleYear" y ON y.id = e."yearId"
+      JOIN "VehicleModel" mo ON mo.id = y."modelId"
+      WHERE p.status = 'PUBLISHED' ${parentFilter}
+      GROUP BY 1
+    `;
+
+    return new Map(rows.map((row) => [row.id, Number(row.partCount)]));
+  }
+
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const version = (await this.redis.get(CACHE_VERSION_KEY)) ?? '0';
+    const cacheKey = `vehicles:v${version}:${key}`;
+
+    const cached = await this.redis.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const value = await load();
+    await this.redis.set(cacheKey, JSON.stringify(value), CACHE_TTL_SECONDS);
+    return value;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VEHICLES CONTROLLER — Make → Model → Year → Engine Browse                   ║
+ * ║  Handles: Cascading dropdowns of the catalog UI (public, cached 10 min)                           ║
+ * ║  Routes: /v1/vehicles/*                                                                           ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] ENDPOINTS (each entry has partCount = published parts fitted below it)
+ *     [1a] GET /makes                  → [{ id, name, logo, partCount }]
+ *     [1b] GET /makes/:makeId/models   → [{ id, name, partCount }]
+ *     [1c] GET /models/:modelId/years  → [{ id, year, partCount }] (newest first)
+ *     [1d] GET /years/:yearId/engines  → [{ id, code, fuel, capacityL, powerHp, partCount }]
+ *     Unknown parent id → 404
+ *
+ * [2] VIN
+ *     [2a] GET /decode-vin/:vin → make, model years, candidate engines from our records
+ *          (match.resolved = exactly one engine; several → customer picks one). Invalid VIN → 400
+ */
+
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { VehicleService } from './vehicle.service';
+import { VinService } from './vin.service';
+
+@Controller('vehicles')
+@ApiTags('vehicles')
+export class VehiclesController {
+  constructor(
+    private readonly vehicleService: VehicleService,
+    private readonly vinService: VinService,
+  ) {}
+
+  @Get('decode-vin/:vin')
+  async decodeVin(@Param('vin') vin: string) {
+    return { data: await this.vinService.decode(vin) };
+  }
+
+  @Get('makes')
+  async listMakes() {
+    return { data: await this.vehicleService.listMakes() };
+  }
+
+  @Get('makes/:makeId/models')
+  async listModels(@Param('makeId') makeId: string) {
+    return { data: await this.vehicleService.listModels(makeId) };
+  }
+
+  @Get('models/:modelId/years')
+  async listYears(@Param('modelId') modelId: string) {
+    return { data: await this.vehicleService.listYears(modelId) };
+  }
+
+  @Get('years/:yearId/engines')
+  async listEngines(@Param('yearId') yearId: string) {
+    return { data: await this.vehicleService.listEngines(yearId) };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VEHICLES MODULE — YMM Reference Data                                        ║
+ * ║  Provides: Public make/model/year/engine browse, VIN decoding, "My garage", admin management     ║
+ * ║  Dependencies: PrismaModule, RedisModule, SearchOutboxService (global MeilisearchModule)          ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] MODULE OVERVIEW
+ *     [1a] Controllers: VehiclesController (/vehicles), GarageController (/garage),
+ *          AdminVehiclesController (/admin/vehicles)
+ *     [1b] Exports: VehicleService, VinService (PartsModule: search by VIN),
+ *          GarageService (CatalogModule, PartsModule: active garage vehicle → fitment filter)
+ *     The CSV import still creates missing entries itself (ImportService.findOrCreateYmm)
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { RedisModule } from '../redis/redis.module';
+import { VehicleService } from './vehicle.service';
+import { VehicleMergeService } from './vehicle-merge.service';
+import { VinService } from './vin.service';
+import { GarageService } from './garage.service';
+import { VehiclesController } from './vehicles.controller';
+import { GarageController } from './garage.controller';
+import { AdminVehiclesController } from './admin-vehicles.controller';
+
+@Module({
+  imports: [PrismaModule, RedisModule],
+  controllers: [VehiclesController, GarageController, AdminVehiclesController],
+  providers: [VehicleService, VehicleMergeService, VinService, GarageService],
+  exports: [VehicleService, VinService, GarageService],
+})
+export class VehiclesModule {}
@@ -0,0 +1,124 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                 VIN SERVICE TESTS — Check Digit, Model Year, Engine Candidates                     ║
+ * ║  Tests: ISO 3779 check digit, year cycles, mapping onto the Make / Model / Year / Engine records  ║
+ * ║  Focus: a decoded Peugeot 206 1.4 HDi resolves to one engine; an unknown VDS stays ambiguous      ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { VinService } from './vin.service';
+import { computeCheckDigit, decodeModelYears } from './vin/vin-decoder';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('VinService', () => {
+  let service: VinService;
+  let mockPrisma: ReturnType<typeof createPrismaMock>;
+
+  const engine = (
+    id: string,
+    code: string,
+    year: number,
+    model = { id: 'model-206', name: '206' },
+  ) => ({
+    id,
+    code,
+    fuel: 'DIESEL',
+    capacityL: 1.4,
+    powerHp: 68,
+    year: { year, model },
+  });
+
+  const createPrismaMock = () => ({
+    vehicleMake: { findFirst: jest.fn().mockResolvedValue({ id: 'make-1', name: 'Peugeot' }) },
+    vehicleModel: {
+      findMany: jest.fn().mockResolvedValue([
+        { id: 'model-206', name: '206' },
+        { id: 'model-307', name: '307' },
+      ]),
+    },
+    engineSpec: { findMany: jest.fn().mockResolvedValue([]) },
+  });
+
+  beforeEach(async () => {
+    mockPrisma = createPrismaMock();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [VinService, { provide: PrismaService, useValue: mockPrisma }],
+    }).compile();
+
+    service = module.get<VinService>(VinService);
+  });
+
+  describe('decoder', () => {
+    it('computes the ISO 3779 check digit', () => {
+      expect(computeCheckDigit('1HGCM82633A004352')).toBe('3');
+      expect(computeCheckDigit('1M8GDM9AXKP042788')).toBe('X');
+    });
+
+    it('decodes one model year in North America and every cycle elsewhere', () => {
+      const now = new Date('2026-06-01');
+
+      expect(decodeModelYears('2HGFC1F39HH654321', now)).toEqual([2017]); // Position 7 is a letter
+      expect(decodeModelYears('1HGCM82633A004352', now)).toEqual([2003]);
+      expect(decodeModelYears('VF1BR0H0X8A123456', now)).toEqual([2008]);
+      expect(decodeModelYears('VF32C8HZ0AB123456', now)).toEqual([2010, 1980]);
+    });
+  });
+
+  it('rejects a malformed VIN and a bad check digit where it is mandatory', async () => {
+    await expect(service.decode('VF32C8HZ0IB123456')).rejects.toThrow(BadRequestException);
+    await expect(service.decode('2HGFC1F30HH654321')).rejects.toThrow(BadRequestException);
+    expect(mockPrisma.vehicleMake.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('resolves a Peugeot 206 1.4 HDi to its engine (no check digit required in Europe)', async () => {
+    mockPrisma.engineSpec.findMany.mockResolvedValue([
+      engine('engine-hdi', '1.4 HDi', 2004),
+      engine('engine-petrol', '1.4 i', 2004),
+    ]);
+
+    const result = await service.decode('vf3 2c8hz0 4b123456');
+
+    expect(result).toMatchObject({
+      vin: 'VF32C8HZ04B123456',
+      make: 'Peugeot',
+      country: 'FR',
+      checkDigitValid: false,
+      modelYears: [2004],
+      models: ['206'],
+    });
+    expect(mockPrisma.engineSpec.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { year: { modelId: { in: ['model-206'] }, year: { in: [2004] } } },
+      }),
+    );
+    expect(result.match.engines.map((e) => e.id)).toEqual(['engine-hdi']);
+    expect(result.match.resolved).toBe(true);
+  });
+
+  it('returns every engine of the year as candidates when the VDS is unknown', async () => {
+    mockPrisma.vehicleMake.findFirst.mockResolvedValue({ id: 'make-2', name: 'Renault' });
+    mockPrisma.vehicleModel.findMany.mockResolvedValue([{ id: 'model-clio', name: 'Clio III' }]);
+    mockPrisma.engineSpec.findMany.mockResolvedValue([
+      engine('engine-1', '1.5 dCi', 2008, { id: 'model-clio', name: 'Clio III' }),
+      engine('engine-2', '1.2 16V', 2008, { id: 'model-clio', name: 'Clio III' }),
+    ]);
+
+    await expect(service.resolveEngineIds('VF1BR0H0X8A123456')).resolves.toEqual([
+      'engine-1',
+      'engine-2',
+    ]);
+  });
+
+  it('has no candidate when the make is not in the catalog', async () => {
+    mockPrisma.vehicleMake.findFirst.mockResolvedValue(null);
+
+    const result = await service.decode('1HGCM82633A004352');
+
+    expect(result.make).toBe('Honda');
+    expect(result.match).toEqual({ make: null, engines: [], resolved: false });
+    expect(mockPrisma.engineSpec.findMany).not.toHaveBeenCalled();
+  });
+});
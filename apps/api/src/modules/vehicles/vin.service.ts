@@ -0,0 +1,128 @@
+/**
+ * ╔════════════════════════════════════════════════════════════════════════════════════════════════════╗
+ * ║                        VIN SERVICE — VIN → Make / Model / Year / Engine Records                    ║
+ * ║  Implements: Offline VIN decoding mapped onto the YMM reference data                              ║
+ * ║  Used by: VehiclesController (GET /vehicles/decode-vin/:vin), PartsController (search ?vin=)      ║
+ * ╚════════════════════════════════════════════════════════════════════════════════════════════════════╝
+ *
+ * [1] DECODE (vin/vin-decoder.ts): format, check digit, make (WMI), model years, model / engine (VDS)
+ *     Bad format, or bad check digit where it is mandatory → 400
+ *
+ * [2] MATCH (candidates = engines the customer's car may have)
+ *     [2a] Make by name (no case / accents); unknown WMI or make not in the catalog → no candidate
+ *     [2b] Models: the decoded ones when the VDS is known, else every model of the make
+ *     [2c] Years: the decoded model year candidates (all years when the VIN does not encode it)
+ *     [2d] Engines: the decoded codes when they exist in the catalog, else every engine of those years
+ *     [2e] One candidate → resolved; several → the UI asks the customer to pick one
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { normalizeVehicleName } from './vehicle-merge.service';
+import {
+  DecodedVin,
+  VIN_PATTERN,
+  decodeVin,
+  isCheckDigitRequired,
+  normalizeVin,
+} from './vin/vin-decoder';
+
+export interface VinEngineCandidate {
+  id: string;
+  code: string;
+  fuel: string | null;
+  capacityL: number | null;
+  powerHp: number | null;
+  year: number;
+  model: { id: string; name: string };
+}
+
+export interface VinDecodeResult extends DecodedVin {
+  match: {
+    make: { id: string; name: string } | null;
+    engines: VinEngineCandidate[];
+    resolved: boolean;
+  };
+}
+
+@Injectable()
+export class VinService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async decode(input: string): Promise<VinDecodeResult> {
+    const vin = normalizeVin(input);
+    if (!VIN_PATTERN.test(vin)) {
+      throw new BadRequestException(
+        'VIN must be 17 characters: digits and letters except I, O and Q',
+      );
+    }
+
+    const decoded = decodeVin(vin);
+    if (!decoded.checkDigitValid && isCheckDigitRequired(vin)) {
+      throw new BadRequestException('Invalid VIN check digit (position 9)');
+    }
+
+    const make = decoded.make ? await this.findMake(decoded.make) : null;
+    const engines = make ? await this.findEngines(make.id, decoded) : [];
+
+    return { ...decoded, match: { make, engines, resolved: engines.length === 1 } };
+  }
+
+  /**
+   * [3] ENGINE IDS FOR A VIN (parts search filter)
+   */
+  async resolveEngineIds(vin: string): Promise<string[]> {
+    const { match } = await this.decode(vin);
+    return match.engines.map((engine) => engine.id);
+  }
+
+  private async findMake(name: string) {
+    return this.prisma.vehicleMake.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+      select: { id: true, name: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async findEngines(makeId: string, decoded: DecodedVin): Promise<VinEngineCandidate[]> {
+    const wantedModels = new Set(decoded.models.map(normalizeVehicleName));
+    const models = (
+      await this.prisma.vehicleModel.findMany({
+        where: { makeId },
+        select: { id: true, name: true },
+      })
+    ).filter(
+      (model) => wantedModels.size === 0 || wantedModels.has(normalizeVehicleName(model.name)),
+    );
+
+    if (models.length === 0) {
+      return [];
+    }
+
+    const engines = await this.prisma.engineSpec.findMany({
+      where: {
+        year: {
+          modelId: { in: models.map((model) => model.id) },
+          ...(decoded.modelYears.length > 0 && { year: { in: decoded.modelYears } }),
+        },
+      },
+      include: { year: { include: { model: { select: { id: true, name: true } } } } },
+      orderBy: [{ year: { year: 'desc' } }, { code: 'asc' }],
+    });
+
+    const wantedEngines = new Set(decoded.engines.map(normalizeVehicleName));
+    const decodedMatches = engines.filter((engine) =>
+      wantedEngines.has(normalizeVehicleName(engine.code)),
+    );
+
+    return (decodedMatches.length > 0 ? decodedMatches : engines).map((engine) => ({
+      id: engine.id,
+      code: engine.code,
+      fuel: engine.fuel,
+      capacityL: engine.capacityL,
+      powerHp: engine.powerHp,
+      year: engine.year.year,
+      model: engine.year.model,
+    }));
+  }
+}
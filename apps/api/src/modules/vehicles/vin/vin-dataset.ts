@@ -0,0 +1,133 @@
+/**
+ * [1] OFFLINE VIN DATASET
+ *     [1a] WMI (positions 1-3) → make + country of the plant
+ *          3-character codes first, then 2-character prefixes (JT… = Toyota, except Lexus codes)
+ *     [1b] VDS rules (positions 4-8) → model (and engine codes when the manufacturer encodes them)
+ *          Partial on purpose: without a rule every model of the make (for the decoded year) is a candidate
+ *     Names are matched against VehicleMake / VehicleModel / EngineSpec without case or accents
+ */
+
+export interface WmiEntry {
+  make: string;
+  country: string; // ISO 3166-1 alpha-2
+}
+
+export interface VdsRule {
+  wmi: string[];
+  vds: RegExp; // Tested on positions 4-8
+  models: string[]; // Accepted model names ("Clio 3" and "Clio III" are the same car)
+  engines?: string[]; // Engine codes, when positions 4-8 identify the engine
+}
+
+export const WMI_CODES: Record<string, WmiEntry> = {
+  // Toyota / Lexus
+  JTH: { make: 'Lexus', country: 'JP' },
+  JTJ: { make: 'Lexus', country: 'JP' },
+  SB1: { make: 'Toyota', country: 'GB' },
+  NMT: { make: 'Toyota', country: 'TR' },
+  VNK: { make: 'Toyota', country: 'FR' },
+  AHT: { make: 'Toyota', country: 'ZA' },
+  MR0: { make: 'Toyota', country: 'TH' },
+  '2T1': { make: 'Toyota', country: 'CA' },
+  '2T3': { make: 'Toyota', country: 'CA' },
+  '4T1': { make: 'Toyota', country: 'US' },
+  '4T3': { make: 'Toyota', country: 'US' },
+  '5TD': { make: 'Toyota', country: 'US' },
+  '5TF': { make: 'Toyota', country: 'US' },
+  '5YF': { make: 'Toyota', country: 'US' },
+  // Honda
+  JHM: { make: 'Honda', country: 'JP' },
+  JHL: { make: 'Honda', country: 'JP' },
+  SHH: { make: 'Honda', country: 'GB' },
+  '1HG': { make: 'Honda', country: 'US' },
+  '19X': { make: 'Honda', country: 'US' },
+  '2HG': { make: 'Honda', country: 'CA' },
+  '5FN': { make: 'Honda', country: 'US' },
+  '5J6': { make: 'Honda', country: 'US' },
+  // Nissan
+  JN1: { make: 'Nissan', country: 'JP' },
+  JN8: { make: 'Nissan', country: 'JP' },
+  SJN: { make: 'Nissan', country: 'GB' },
+  VSK: { make: 'Nissan', country: 'ES' },
+  '1N4': { make: 'Nissan', country: 'US' },
+  '3N1': { make: 'Nissan', country: 'MX' },
+  '5N1': { make: 'Nissan', country: 'US' },
+  // French makes
+  VF1: { make: 'Renault', country: 'FR' },
+  VF3: { make: 'Peugeot', country: 'FR' },
+  VF7: { make: 'Citroën', country: 'FR' },
+  UU1: { make: 'Dacia', country: 'RO' },
+  // German makes
+  WDB: { make: 'Mercedes-Benz', country: 'DE' },
+  WDC: { make: 'Mercedes-Benz', country: 'DE' },
+  WDD: { make: 'Mercedes-Benz', country: 'DE' },
+  W1K: { make: 'Mercedes-Benz', country: 'DE' },
+  W1N: { make: 'Mercedes-Benz', country: 'DE' },
+  WBA: { make: 'BMW', country: 'DE' },
+  WBS: { make: 'BMW', country: 'DE' },
+  WVW: { make: 'Volkswagen', country: 'DE' },
+  WVG: { make: 'Volkswagen', country: 'DE' },
+  WV1: { make: 'Volkswagen', country: 'DE' },
+  WV2: { make: 'Volkswagen', country: 'DE' },
+  '3VW': { make: 'Volkswagen', country: 'MX' },
+  WAU: { make: 'Audi', country: 'DE' },
+  TRU: { make: 'Audi', country: 'HU' },
+  W0L: { make: 'Opel', country: 'DE' },
+  // Ford
+  WF0: { make: 'Ford', country: 'DE' },
+  '1FA': { make: 'Ford', country: 'US' },
+  '1FM': { make: 'Ford', country: 'US' },
+  '1FT': { make: 'Ford', country: 'US' },
+  // Korean makes
+  KMH: { make: 'Hyundai', country: 'KR' },
+  KM8: { make: 'Hyundai', country: 'KR' },
+  MAL: { make: 'Hyundai', country: 'IN' },
+  KNA: { make: 'Kia', country: 'KR' },
+  KND: { make: 'Kia', country: 'KR' },
+  KNE: { make: 'Kia', country: 'KR' },
+  U5Y: { make: 'Kia', country: 'SK' },
+  // Other Japanese makes
+  JA3: { make: 'Mitsubishi', country: 'JP' },
+  JA4: { make: 'Mitsubishi', country: 'JP' },
+  JMB: { make: 'Mitsubishi', country: 'JP' },
+  MMB: { make: 'Mitsubishi', country: 'TH' },
+  JS2: { make: 'Suzuki', country: 'JP' },
+  JSA: { make: 'Suzuki', country: 'JP' },
+  TSM: { make: 'Suzuki', country: 'HU' },
+  MA3: { make: 'Suzuki', country: 'IN' },
+  JM1: { make: 'Mazda', country: 'JP' },
+  JMZ: { make: 'Mazda', country: 'JP' },
+  JAA: { make: 'Isuzu', country: 'JP' },
+  MPA: { make: 'Isuzu', country: 'TH' },
+  JF1: { make: 'Subaru', country: 'JP' },
+  JF2: { make: 'Subaru', country: 'JP' },
+  // Others
+  '1G1': { make: 'Chevrolet', country: 'US' },
+  KL1: { make: 'Chevrolet', country: 'KR' },
+  SAL: { make: 'Land Rover', country: 'GB' },
+  SAJ: { make: 'Jaguar', country: 'GB' },
+  ZFA: { make: 'Fiat', country: 'IT' },
+  YV1: { make: 'Volvo', country: 'SE' },
+  TMB: { make: 'Skoda', country: 'CZ' },
+  VSS: { make: 'Seat', country: 'ES' },
+};
+
+export const WMI_PREFIXES: Record<string, WmiEntry> = {
+  JT: { make: 'Toyota', country: 'JP' },
+};
+
+export const VDS_RULES: VdsRule[] = [
+  // Toyota (North America)
+  { wmi: ['2T1', '5YF'], vds: /^BU/, models: ['Corolla'] },
+  { wmi: ['4T1'], vds: /^(B11|BF1|BK1)/, models: ['Camry'] },
+  // Honda: chassis code in positions 4-5
+  { wmi: ['2HG', '19X', '1HG'], vds: /^FC/, models: ['Civic'] },
+  { wmi: ['SHH'], vds: /^FK/, models: ['Civic'] },
+  { wmi: ['1HG'], vds: /^CV/, models: ['Accord'] },
+  // Peugeot: model in position 4, engine family in positions 6-8
+  { wmi: ['VF3'], vds: /^2.8H[XYZ]/, models: ['206'], engines: ['1.4 HDI', '1.4 HDi'] },
+  { wmi: ['VF3'], vds: /^2/, models: ['206'] },
+  { wmi: ['VF3'], vds: /^3/, models: ['307'] },
+  // Renault: body code in positions 4-5
+  { wmi: ['VF1'], vds: /^(BR|CR)/, models: ['Clio 3', 'Clio III'] },
+];
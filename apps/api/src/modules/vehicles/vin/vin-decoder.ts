@@ -0,0 +1,118 @@
+/**
+ * [1] VIN DECODER (ISO 3779, offline)
+ *     [1a] 17 characters, letters I, O and Q never used
+ *     [1b] Position 9 = check digit (weighted sum mod 11, 10 → "X")
+ *          Mandatory in North America (1-5) and China (L); other regions may put anything there
+ *     [1c] Position 10 = model year code, repeating every 30 years
+ *          North America: position 7 letter → 2010-2039, digit → 1980-2009
+ *          Elsewhere: every cycle not after next year is a candidate (most recent first)
+ *     [1d] Positions 1-3 (WMI) → make, positions 4-8 (VDS) → model / engine (see vin-dataset.ts)
+ */
+
+import { VDS_RULES, WMI_CODES, WMI_PREFIXES } from './vin-dataset';
+
+export const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+export interface DecodedVin {
+  vin: string;
+  wmi: string;
+  vds: string;
+  vis: string;
+  checkDigitValid: boolean;
+  make: string | null;
+  country: string | null;
+  modelYears: number[]; // Candidates, most recent first (empty = year not encoded)
+  models: string[]; // From the VDS rules (empty = any model of the make)
+  engines: string[]; // From the VDS rules (empty = any engine)
+}
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1,
+  B: 2,
+  C: 3,
+  D: 4,
+  E: 5,
+  F: 6,
+  G: 7,
+  H: 8,
+  J: 1,
+  K: 2,
+  L: 3,
+  M: 4,
+  N: 5,
+  P: 7,
+  R: 9,
+  S: 2,
+  T: 3,
+  U: 4,
+  V: 5,
+  W: 6,
+  X: 7,
+  Y: 8,
+  Z: 9,
+};
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789'; // A = 1980 … Y = 2000, 1 = 2001 … 9 = 2009
+const CHECK_DIGIT_REGIONS = /^[1-5L]/;
+
+export function normalizeVin(vin: string): string {
+  return vin.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function computeCheckDigit(vin: string): string {
+  const sum = vin
+    .split('')
+    .reduce(
+      (total, char, i) =>
+        total + (/\d/.test(char) ? Number(char) : TRANSLITERATION[char]) * WEIGHTS[i],
+      0,
+    );
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+export function isCheckDigitRequired(vin: string): boolean {
+  return CHECK_DIGIT_REGIONS.test(vin);
+}
+
+export function decodeModelYears(vin: string, now = new Date()): number[] {
+  const index = YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) {
+    return [];
+  }
+
+  const base = 1980 + index;
+  if (/^[1-5]/.test(vin)) {
+    return [/[A-Z]/.test(vin[6]) ? base + 30 : base];
+  }
+
+  const latest = now.getFullYear() + 1;
+  const years: number[] = [];
+  for (let year = base; year <= latest; year += 30) {
+    years.unshift(year);
+  }
+  return years;
+}
+
+/**
+ * Expects a VIN already normalized and matching VIN_PATTERN
+ */
+export function decodeVin(vin: string, now = new Date()): DecodedVin {
+  const wmi = vin.slice(0, 3);
+  const vds = vin.slice(3, 8);
+  const manufacturer = WMI_CODES[wmi] ?? WMI_PREFIXES[wmi.slice(0, 2)] ?? null;
+  const rule = VDS_RULES.find((r) => r.wmi.includes(wmi) && r.vds.test(vds));
+
+  return {
+    vin,
+    wmi,
+    vds,
+    vis: vin.slice(9),
+    checkDigitValid: computeCheckDigit(vin) === vin[8],
+    make: manufacturer?.make ?? null,
+    country: manufacturer?.country ?? null,
+    modelYears: decodeModelYears(vin, now),
+    models: rule?.models ?? [],
+    engines: rule?.engines ?? [],
+  };
+}